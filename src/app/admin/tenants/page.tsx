@@ -6,6 +6,7 @@ import { useEffect, useState, useMemo, useRef, useCallback } from 'react';
 import { cn, formatCurrency } from '@/lib/utils';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
+import AuditLogViewer from '@/components/AuditLogViewer';
 
 // ─── Interfaces ──────────────────────────────────────────────────────────────
 
@@ -782,6 +783,12 @@ function TenantProfilePanel({
                 </div>
               )}
             </div>
+
+            {/* ── Audit Log ── */}
+            <div className="px-6 pb-6">
+              <h3 className="text-[11px] font-semibold uppercase tracking-wider text-[var(--text-tertiary)] mb-3">Audit Log</h3>
+              <AuditLogViewer key={tenant.id} endpoint={`/api/admin/tenants/${tenant.id}/audit-log`} />
+            </div>
           </div>
         )}
       </div>
@@ -0,0 +1,136 @@
+// ============================================================================
+// Accounting Export — POST /api/accounting/export
+// src/app/api/accounting/export/route.ts
+// ============================================================================
+// Body: { from, to, format, markExported?, allowOverlap? }
+//   from/to        local YYYY-MM-DD, inclusive
+//   format         'preview' (JSON entries) | 'qb_iif' | 'qb_csv' | 'xero_csv'
+//   markExported   move tenants.accounting_exported_through up to `to`
+//   allowOverlap   export days at or before the marker anyway
+// Exporting needs reports:view; touching the marker or re-exporting booked
+// days needs settings:manage. Every file export is logged.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { resolveTimeZone, zonedTimeToUtc } from '@/lib/timezone';
+import { buildJournal, formatJournal, loadJournalSource, EXPORT_FORMATS, type ExportFormat } from '@/lib/accounting';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Longest period one export may cover. */
+const MAX_DAYS = 366;
+
+/** Midnight at the start of a local YYYY-MM-DD, shifted by `dayOffset`. */
+function localMidnight(date: string, timeZone: string, dayOffset = 0): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return zonedTimeToUtc(y, m, d + dayOffset, 0, 0, timeZone);
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  const grant = roleGrant(member);
+  if (!hasPermission(grant, 'reports:view')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+  const tenantId = member.tenant_id;
+
+  const body = await request.json().catch(() => ({}));
+  const { from, to, format } = body as { from?: string; to?: string; format?: string };
+  const markExported = body.markExported === true;
+  const allowOverlap = body.allowOverlap === true;
+
+  if (!from || !to || !DATE_RE.test(from) || !DATE_RE.test(to)) {
+    return NextResponse.json({ error: 'from and to must be YYYY-MM-DD' }, { status: 400 });
+  }
+  if (from > to) {
+    return NextResponse.json({ error: 'from must be on or before to' }, { status: 400 });
+  }
+  const fileFormat = EXPORT_FORMATS.find((f) => f.value === format);
+  if (format !== 'preview' && !fileFormat) {
+    return NextResponse.json({ error: 'Unknown export format' }, { status: 400 });
+  }
+  if (format !== 'preview' && !hasPermission(grant, 'data:export')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+  if ((markExported || allowOverlap) && !hasPermission(grant, 'settings:manage')) {
+    return NextResponse.json({ error: 'Only admins can mark periods as exported' }, { status: 403 });
+  }
+
+  const { data: tenant } = await supabase
+    .from('tenants')
+    .select('time_zone, accounting_accounts, accounting_exported_through')
+    .eq('id', tenantId)
+    .single();
+  if (!tenant) return NextResponse.json({ error: 'Tenant not found' }, { status: 404 });
+  const timeZone = resolveTimeZone(tenant);
+
+  const exportedThrough: string | null = tenant.accounting_exported_through;
+  if (exportedThrough && from <= exportedThrough && !allowOverlap && format !== 'preview') {
+    return NextResponse.json(
+      { error: `Days through ${exportedThrough} were already exported. Start after that date, or allow re-exporting.`, exportedThrough },
+      { status: 409 }
+    );
+  }
+
+  const start = localMidnight(from, timeZone);
+  const end = localMidnight(to, timeZone, 1);
+  if (end.getTime() - start.getTime() > MAX_DAYS * 86_400_000) {
+    return NextResponse.json({ error: `Export at most ${MAX_DAYS} days at a time` }, { status: 400 });
+  }
+
+  let entries;
+  try {
+    const source = await loadJournalSource(supabase, tenantId, { start, end, fromDate: from, toDate: to });
+    entries = buildJournal(source, tenant.accounting_accounts, timeZone);
+  } catch (err: any) {
+    console.error('[Accounting Export] Load error:', err);
+    return NextResponse.json({ error: 'Failed to load activity for export' }, { status: 500 });
+  }
+
+  if (format === 'preview' || !fileFormat) {
+    return NextResponse.json({ from, to, exportedThrough, entries });
+  }
+
+  const { error: logError } = await supabase.from('accounting_exports').insert({
+    tenant_id: tenantId,
+    from_date: from,
+    to_date: to,
+    format: fileFormat.value,
+    entry_count: entries.length,
+    marked_exported: markExported,
+    exported_by: user.id,
+  });
+  if (logError) console.error('[Accounting Export] Log error:', logError);
+
+  // The marker only moves forward — re-exporting an old period leaves it be
+  if (markExported && (!exportedThrough || to > exportedThrough)) {
+    const { error: markError } = await supabase
+      .from('tenants')
+      .update({ accounting_exported_through: to })
+      .eq('id', tenantId);
+    if (markError) {
+      return NextResponse.json({ error: 'Failed to update the exported-through date' }, { status: 500 });
+    }
+  }
+
+  const text = formatJournal(entries, fileFormat.value as ExportFormat);
+  return new NextResponse(text, {
+    headers: {
+      'Content-Type': `${fileFormat.mimeType}; charset=utf-8`,
+      'Content-Disposition': `attachment; filename="sunstone-journal-${from}-to-${to}.${fileFormat.extension}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -15,7 +15,7 @@ import { createServiceRoleClient } from '@/lib/supabase/server';
 import { runAgenticLoop, buildAgenticSSEStream } from '@/lib/agentic-loop';
 import { ATLAS_TOOL_DEFINITIONS, executeAtlasTool, getAtlasToolStatusLabel } from '@/lib/atlas-tools';
 import { logAnthropicCost } from '@/lib/cost-tracker';
-import { checkRateLimit } from '@/lib/rate-limit';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
 
 const ATLAS_RATE_LIMIT = { prefix: 'atlas', limit: 10, windowSeconds: 60 };
 
@@ -364,9 +364,9 @@ export async function POST(req: NextRequest) {
     const admin = await verifyPlatformAdmin();
 
     // Rate limit by admin user
-    const rl = checkRateLimit(admin.id, ATLAS_RATE_LIMIT);
+    const rl = await checkRateLimit(admin.id, ATLAS_RATE_LIMIT);
     if (!rl.allowed) {
-      return NextResponse.json({ error: 'Too many requests. Please wait a moment.' }, { status: 429 });
+      return NextResponse.json({ error: 'Too many requests. Please wait a moment.' }, { status: 429, headers: rateLimitHeaders(rl) });
     }
 
     const serviceClient = await createServiceRoleClient();
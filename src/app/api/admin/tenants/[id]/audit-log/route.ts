@@ -0,0 +1,27 @@
+// src/app/api/admin/tenants/[id]/audit-log/route.ts
+// GET: The tenant's audit log for the admin tenant panel (same filters as /api/audit-log)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyPlatformAdmin, AdminAuthError } from '@/lib/admin/verify-platform-admin';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { parseAuditFilters, queryAuditLog } from '@/lib/audit';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    await verifyPlatformAdmin();
+    const { id: tenantId } = await params;
+    const serviceClient = await createServiceRoleClient();
+
+    const page = await queryAuditLog(serviceClient, tenantId, parseAuditFilters(request.nextUrl.searchParams));
+    return NextResponse.json(page);
+  } catch (err) {
+    if (err instanceof AdminAuthError) {
+      return NextResponse.json({ error: err.message }, { status: err.status });
+    }
+    console.error('[Admin Audit Log Error]', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
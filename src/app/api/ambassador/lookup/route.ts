@@ -8,8 +8,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { formatAmbassadorDisplayName } from '@/lib/ambassador-utils';
+import { checkRateLimit, getClientIP, rateLimitResponse } from '@/lib/rate-limit';
 
 export async function GET(request: NextRequest) {
+  const rl = await checkRateLimit(getClientIP(request), { prefix: 'ambassador-lookup', limit: 30, windowSeconds: 60 });
+  if (!rl.allowed) return rateLimitResponse(rl);
+
   const code = request.nextUrl.searchParams.get('code');
   if (!code) {
     return NextResponse.json({ error: 'code required' }, { status: 400 });
@@ -0,0 +1,41 @@
+// ============================================================================
+// Audit Log — GET /api/audit-log
+// src/app/api/audit-log/route.ts
+// ============================================================================
+// Newest-first page of the tenant's audit log. Filters: ?category=,
+// ?actor=<user id | sunny>, ?from= / ?to= (YYYY-MM-DD), ?search= (record
+// name), ?cursor= (next_cursor from the previous page).
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { parseAuditFilters, queryAuditLog } from '@/lib/audit';
+
+export async function GET(request: NextRequest) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}, tenants(owner_id)`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+
+  const isOwner = (member as any).tenants?.owner_id === user.id;
+  if (!isOwner && !hasPermission(roleGrant(member), 'audit:view')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const serviceClient = await createServiceRoleClient();
+    const page = await queryAuditLog(serviceClient, member.tenant_id, parseAuditFilters(request.nextUrl.searchParams));
+    return NextResponse.json(page);
+  } catch (err: any) {
+    console.error('[Audit Log] Query failed:', err);
+    return NextResponse.json({ error: 'Failed to load audit log' }, { status: 500 });
+  }
+}
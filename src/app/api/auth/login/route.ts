@@ -10,18 +10,18 @@ export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
-import { checkRateLimit, getClientIP } from '@/lib/rate-limit';
+import { checkRateLimit, getClientIP, rateLimitHeaders } from '@/lib/rate-limit';
 
 const LOGIN_LIMIT = { prefix: 'auth-login', limit: 5, windowSeconds: 300 };
 
 export async function POST(request: NextRequest) {
   const ip = getClientIP(request);
-  const rl = checkRateLimit(ip, LOGIN_LIMIT);
+  const rl = await checkRateLimit(ip, LOGIN_LIMIT);
 
   if (!rl.allowed) {
     return NextResponse.json(
       { error: 'Too many login attempts. Please try again in a few minutes.' },
-      { status: 429 }
+      { status: 429, headers: rateLimitHeaders(rl) }
     );
   }
 
@@ -16,7 +16,7 @@ const RESET_LIMIT = { prefix: 'auth-reset', limit: 3, windowSeconds: 900 };
 
 export async function POST(request: NextRequest) {
   const ip = getClientIP(request);
-  const rl = checkRateLimit(ip, RESET_LIMIT);
+  const rl = await checkRateLimit(ip, RESET_LIMIT);
 
   // Silently drop if rate limited — still return success to prevent enumeration
   if (!rl.allowed) {
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
-import { resolveAudience } from '@/lib/broadcasts';
+import { resolveAudience, EMAIL_TENANT_SELECT, appBaseUrl, emailBlocksFor, loadEmailEvents } from '@/lib/broadcasts';
+import { renderEmailHtml } from '@/lib/email-blocks';
 import { renderTemplate } from '@/lib/templates';
+import { loadLoyaltyBalances } from '@/lib/loyalty';
+import { getSmsOptOuts, normalizePhoneDigits } from '@/lib/twilio';
 
 export async function GET(
   request: NextRequest,
@@ -50,7 +53,7 @@ export async function GET(
   // Load tenant
   const { data: tenant } = await supabase
     .from('tenants')
-    .select('name, phone')
+    .select(EMAIL_TENANT_SELECT)
     .eq('id', broadcast.tenant_id)
     .single();
 
@@ -61,10 +64,13 @@ export async function GET(
   let sendable = 0;
   let missingContact = 0;
   let noConsent = 0;
+  let optedOut = 0;
 
-  // For SMS, check consent from most recent waiver
+  // For SMS, check consent from most recent waiver and the suppression list
   const smsConsentMap: Record<string, boolean> = {};
+  let optOuts = new Set<string>();
   if (broadcast.channel === 'sms') {
+    optOuts = await getSmsOptOuts(broadcast.tenant_id, audience.map((c) => c.phone));
     const clientIds = audience.map((c) => c.id);
     if (clientIds.length > 0) {
       const { data: waivers } = await supabase
@@ -81,36 +87,75 @@ export async function GET(
     }
   }
 
+  // For email, clients who used an unsubscribe link
+  const emailUnsubscribed = new Set<string>();
+  if (broadcast.channel === 'email' && audience.length > 0) {
+    const { data: unsubscribed } = await supabase
+      .from('clients')
+      .select('id')
+      .in('id', audience.map((c) => c.id))
+      .not('email_unsubscribed_at', 'is', null);
+    for (const c of unsubscribed || []) emailUnsubscribed.add(c.id);
+  }
+
   const recipients = audience.map((client) => {
     const name = [client.first_name, client.last_name].filter(Boolean).join(' ') || 'Client';
     const contactField = broadcast.channel === 'sms' ? client.phone : client.email;
     const hasContact = !!contactField;
-    const hasConsent = broadcast.channel === 'sms' ? (smsConsentMap[client.id] ?? false) : true;
+    const isOptedOut = broadcast.channel === 'sms'
+      ? hasContact && optOuts.has(normalizePhoneDigits(contactField!))
+      : emailUnsubscribed.has(client.id);
+    const hasConsent = broadcast.channel === 'sms' ? (smsConsentMap[client.id] ?? false) && !isOptedOut : !isOptedOut;
     const willSend = hasContact && hasConsent;
 
     if (!hasContact) missingContact++;
-    else if (!hasConsent) noConsent++;
+    else if (!hasConsent) {
+      noConsent++;
+      if (isOptedOut) optedOut++;
+    }
     else sendable++;
 
-    return { id: client.id, name, contact: contactField || null, willSend, hasConsent };
+    return { id: client.id, name, contact: contactField || null, willSend, hasConsent, optedOut: isOptedOut };
   });
 
   // Sample render with first sendable recipient
   const firstSendable = recipients.find((r) => r.willSend);
+  const samplePoints = firstSendable ? await loadLoyaltyBalances(supabase, [firstSendable.id]) : {};
   const sampleVars: Record<string, string> = {
     client_name: firstSendable?.name || 'Client',
     client_first_name: (firstSendable?.name || 'Client').split(' ')[0],
     business_name: tenant?.name || 'Business',
     business_phone: tenant?.phone || '',
+    loyalty_points: String((firstSendable && samplePoints[firstSendable.id]) || 0),
   };
 
+  // Email renders the full branded layout; links aren't tracked in a preview
+  let sampleHtml: string | null = null;
+  if (broadcast.channel === 'email') {
+    const blocks = emailBlocksFor(broadcast, messageBody);
+    sampleHtml = renderEmailHtml(blocks, {
+      tenant: {
+        name: tenant?.name || null,
+        logo_url: tenant?.logo_url || null,
+        brand_color: tenant?.brand_color || null,
+        slug: tenant?.slug || null,
+      },
+      vars: sampleVars,
+      appUrl: appBaseUrl(),
+      events: await loadEmailEvents(supabase, broadcast.tenant_id, tenant, blocks),
+      unsubscribeUrl: '#',
+    });
+  }
+
   return NextResponse.json({
     total: audience.length,
     sendable,
     missingContact,
     noConsent,
+    optedOut,
     recipients: recipients.slice(0, 50), // cap preview list
     sampleBody: renderTemplate(messageBody, sampleVars),
     sampleSubject: messageSubject ? renderTemplate(messageSubject, sampleVars) : null,
+    sampleHtml,
   });
 }
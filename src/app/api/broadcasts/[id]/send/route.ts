@@ -1,10 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerSupabase } from '@/lib/supabase/server';
-import { resolveAudience } from '@/lib/broadcasts';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import {
+  resolveAudience, EMAIL_TENANT_SELECT, appBaseUrl, emailBlocksFor, loadEmailEvents, emailTrackingUrls,
+} from '@/lib/broadcasts';
+import { renderEmailHtml, renderEmailText, collectEmailLinks, type EmailRenderContext } from '@/lib/email-blocks';
 import { renderTemplate } from '@/lib/templates';
-import { checkRateLimit } from '@/lib/rate-limit';
-import { logSmsCost, logEmailCost } from '@/lib/cost-tracker';
-import { sendSMS as twilioSendSMS } from '@/lib/twilio';
+import { loadLoyaltyBalances } from '@/lib/loyalty';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import { logSmsCost, logEmailCost, countSmsSegments } from '@/lib/cost-tracker';
+import { sendSMS as twilioSendSMS, getSmsOptOuts, normalizePhoneDigits } from '@/lib/twilio';
+import { mediaUrlsForSend } from '@/lib/message-media';
+import type { MessageMedia } from '@/types';
 
 const RATE_LIMIT = { prefix: 'broadcast-send', limit: 5, windowSeconds: 60 };
 
@@ -19,17 +26,20 @@ export async function POST(
 
   const { data: member } = await supabase
     .from('tenant_members')
-    .select('tenant_id')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
     .eq('user_id', user.id)
     .limit(1)
     .single();
   if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'broadcasts:send')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
   const tenantId = member.tenant_id;
 
   // Rate limit by user
-  const rl = checkRateLimit(user.id, RATE_LIMIT);
+  const rl = await checkRateLimit(user.id, RATE_LIMIT);
   if (!rl.allowed) {
-    return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+    return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: rateLimitHeaders(rl) });
   }
 
   // Load broadcast
@@ -64,15 +74,29 @@ export async function POST(
     }
   }
 
-  if (!messageBody || messageBody.trim().length === 0) {
+  // An SMS broadcast can be just an image
+  const media: MessageMedia[] = broadcast.channel === 'sms' ? (broadcast.media || []) : [];
+
+  const hasEmailBlocks = broadcast.channel === 'email' && broadcast.email_blocks?.length > 0;
+  if ((!messageBody || messageBody.trim().length === 0) && media.length === 0 && !hasEmailBlocks) {
     await supabase.from('broadcasts').update({ status: 'draft' }).eq('id', id);
     return NextResponse.json({ error: 'Message content cannot be empty.' }, { status: 400 });
   }
 
+  // Sign the images once; every message in the broadcast points Twilio at the same URLs
+  let mediaUrls: string[] = [];
+  try {
+    mediaUrls = await mediaUrlsForSend(await createServiceRoleClient(), media);
+  } catch (err) {
+    console.error('[Broadcast Send] Media error:', err);
+    await supabase.from('broadcasts').update({ status: 'draft' }).eq('id', id);
+    return NextResponse.json({ error: 'The attached image could not be found. Remove it and try again.' }, { status: 400 });
+  }
+
   // Load tenant
   const { data: tenant } = await supabase
     .from('tenants')
-    .select('name, phone')
+    .select(EMAIL_TENANT_SELECT)
     .eq('id', broadcast.tenant_id)
     .single();
 
@@ -87,9 +111,11 @@ export async function POST(
     );
   }
 
-  // For SMS, check consent from most recent waiver
+  // For SMS, check consent from most recent waiver and drop opted-out numbers
   const smsConsentMap: Record<string, boolean> = {};
+  let optOuts = new Set<string>();
   if (broadcast.channel === 'sms') {
+    optOuts = await getSmsOptOuts(broadcast.tenant_id, audience.map((c) => c.phone));
     const clientIds = audience.map((c) => c.id);
     if (clientIds.length > 0) {
       const { data: waivers } = await supabase
@@ -106,18 +132,52 @@ export async function POST(
     }
   }
 
+  // For email, drop unsubscribed clients and build the branded layout. Links
+  // are recorded before sending so click tracking can resolve them by index.
+  const emailUnsubscribed = new Set<string>();
+  const emailBlocks = broadcast.channel === 'email' ? emailBlocksFor(broadcast, messageBody) : [];
+  let emailContext: Omit<EmailRenderContext, 'vars'> | null = null;
+  let emailLinks: string[] = [];
+  if (broadcast.channel === 'email') {
+    const { data: unsubscribed } = await supabase
+      .from('clients')
+      .select('id')
+      .in('id', audience.map((c) => c.id))
+      .not('email_unsubscribed_at', 'is', null);
+    for (const c of unsubscribed || []) emailUnsubscribed.add(c.id);
+
+    emailContext = {
+      tenant: {
+        name: tenant?.name || null,
+        logo_url: tenant?.logo_url || null,
+        brand_color: tenant?.brand_color || null,
+        slug: tenant?.slug || null,
+      },
+      appUrl: appBaseUrl(),
+      events: await loadEmailEvents(supabase, broadcast.tenant_id, tenant, emailBlocks),
+    };
+    emailLinks = collectEmailLinks(emailBlocks, { ...emailContext, vars: {} });
+    await supabase.from('broadcasts').update({ email_links: emailLinks }).eq('id', id);
+  }
+
+  const loyaltyPoints = await loadLoyaltyBalances(supabase, audience.map((c) => c.id));
+
   let sentCount = 0;
   let failedCount = 0;
   let skippedCount = 0;
+  let sentSegments = 0;
 
   for (const client of audience) {
     const name = [client.first_name, client.last_name].filter(Boolean).join(' ') || 'Client';
     const contactField = broadcast.channel === 'sms' ? client.phone : client.email;
     const hasContact = !!contactField;
     const hasConsent = broadcast.channel === 'sms' ? (smsConsentMap[client.id] ?? false) : true;
+    const optedOut = broadcast.channel === 'sms'
+      ? hasContact && optOuts.has(normalizePhoneDigits(contactField!))
+      : emailUnsubscribed.has(client.id);
 
     // Skip if missing contact info or consent
-    if (!hasContact || !hasConsent) {
+    if (!hasContact || !hasConsent || optedOut) {
       skippedCount++;
       await supabase.from('broadcast_messages').insert({
         broadcast_id: id,
@@ -127,7 +187,11 @@ export async function POST(
         rendered_subject: null,
         rendered_body: '',
         status: 'skipped',
-        error_message: !hasContact ? 'Missing contact info' : 'No SMS consent',
+        error_message: !hasContact
+          ? 'Missing contact info'
+          : optedOut
+            ? (broadcast.channel === 'sms' ? 'Opted out (replied STOP)' : 'Unsubscribed from email')
+            : 'No SMS consent',
       });
       continue;
     }
@@ -138,14 +202,17 @@ export async function POST(
       client_first_name: (client.first_name || 'Client'),
       business_name: tenant?.name || 'Business',
       business_phone: tenant?.phone || '',
+      loyalty_points: String(loyaltyPoints[client.id] || 0),
     };
 
-    const renderedBody = renderTemplate(messageBody, vars);
+    let renderedBody = renderTemplate(messageBody, vars);
     const renderedSubject = messageSubject ? renderTemplate(messageSubject, vars) : null;
+    const trackingToken = broadcast.channel === 'email' ? crypto.randomUUID() : null;
 
     try {
       if (broadcast.channel === 'sms') {
-        const sid = await twilioSendSMS({ to: contactField!, body: renderedBody, tenantId: broadcast.tenant_id });
+        const sid = await twilioSendSMS({ to: contactField!, body: renderedBody, tenantId: broadcast.tenant_id, source: 'broadcast', clientId: client.id, mediaUrls });
+        sentSegments += countSmsSegments(renderedBody);
         // Write to conversations for two-way thread
         supabase.from('conversations').insert({
           tenant_id: broadcast.tenant_id,
@@ -153,12 +220,28 @@ export async function POST(
           phone_number: contactField!,
           direction: 'outbound',
           body: renderedBody,
+          media,
           twilio_sid: sid,
           status: 'delivered',
           read: true,
         }).then(null, () => {});
       } else {
-        await sendEmail(contactField!, renderedSubject || 'Message from ' + (tenant?.name || 'Business'), renderedBody);
+        const urls = emailTrackingUrls(trackingToken!);
+        const ctx: EmailRenderContext = {
+          ...emailContext!,
+          vars,
+          trackLink: (url) => urls.clickUrl(emailLinks.indexOf(url)),
+          openPixelUrl: urls.openPixelUrl,
+          unsubscribeUrl: urls.unsubscribeUrl,
+        };
+        renderedBody = renderEmailText(emailBlocks, ctx);
+        await sendEmail({
+          to: contactField!,
+          subject: renderedSubject || 'Message from ' + (tenant?.name || 'Business'),
+          html: renderEmailHtml(emailBlocks, ctx),
+          text: renderedBody,
+          unsubscribeUrl: urls.unsubscribeUrl,
+        });
       }
 
       sentCount++;
@@ -171,6 +254,7 @@ export async function POST(
         rendered_body: renderedBody,
         status: 'sent',
         sent_at: new Date().toISOString(),
+        tracking_token: trackingToken,
       });
     } catch (err: any) {
       failedCount++;
@@ -193,7 +277,9 @@ export async function POST(
   // Log broadcast cost (fire-and-forget, aggregate)
   if (sentCount > 0) {
     if (broadcast.channel === 'sms') {
-      logSmsCost({ tenantId: broadcast.tenant_id, operation: 'sms_broadcast', segments: sentCount, metadata: { broadcast_id: id } });
+      logSmsCost(media.length > 0
+        ? { tenantId: broadcast.tenant_id, operation: 'sms_broadcast', mms: sentCount, metadata: { broadcast_id: id } }
+        : { tenantId: broadcast.tenant_id, operation: 'sms_broadcast', segments: sentSegments, metadata: { broadcast_id: id } });
     } else {
       logEmailCost({ tenantId: broadcast.tenant_id, operation: 'email_broadcast', count: sentCount, metadata: { broadcast_id: id } });
     }
@@ -220,7 +306,8 @@ export async function POST(
 
 // ── Email via Resend ────────────────────────────────────────────────────────
 
-async function sendEmail(to: string, subject: string, body: string) {
+async function sendEmail(params: { to: string; subject: string; html: string; text: string; unsubscribeUrl: string }) {
+  const { to, subject, html, text, unsubscribeUrl } = params;
   if (!process.env.RESEND_API_KEY || !process.env.RESEND_FROM_EMAIL) {
     console.log(`[Broadcast Email Skipped] Would send to ${to}: ${subject}`);
     return; // Gracefully skip if not configured
@@ -229,17 +316,17 @@ async function sendEmail(to: string, subject: string, body: string) {
   const { Resend } = await import('resend');
   const resend = new Resend(process.env.RESEND_API_KEY);
 
-  const html = `<!DOCTYPE html>
-<html><head><meta charset="utf-8"></head>
-<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; padding: 24px; color: #374151;">
-  ${body.split('\n').map((line) => `<p style="margin: 0 0 12px;">${line}</p>`).join('')}
-</body></html>`;
-
   const { error } = await resend.emails.send({
     from: process.env.RESEND_FROM_EMAIL,
     to,
     subject,
     html,
+    text,
+    // One-click unsubscribe from the mail client (RFC 8058)
+    headers: {
+      'List-Unsubscribe': `<${unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    },
   });
 
   if (error) throw new Error(error.message || 'Resend error');
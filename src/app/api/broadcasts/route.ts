@@ -2,12 +2,16 @@
 // Broadcasts API — src/app/api/broadcasts/route.ts
 // ============================================================================
 // GET: List broadcasts for the caller's tenant.
-// POST: Create a new broadcast draft for the caller's tenant.
+// POST: Create a new broadcast draft for the caller's tenant. SMS drafts may
+// carry `media` (uploaded via POST /api/conversations/media) to send as MMS;
+// custom email drafts carry the composer's `email_blocks`.
 // Tenant ID is always derived from the session — never trusted from the client.
 // ============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
+import { parseMediaInput } from '@/lib/message-media';
+import { parseEmailBlocks } from '@/lib/email-blocks';
 
 export async function GET() {
   const supabase = await createServerSupabase();
@@ -63,6 +67,19 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'name, channel, and target_type are required' }, { status: 400 });
   }
 
+  // Images only go out with SMS (as MMS)
+  const media = channel === 'sms' ? parseMediaInput(member.tenant_id, body.media) : [];
+  if (!media) {
+    return NextResponse.json({ error: 'Invalid attachments' }, { status: 400 });
+  }
+
+  const emailBlocks = channel === 'email' && !template_id && body.email_blocks
+    ? parseEmailBlocks(body.email_blocks)
+    : null;
+  if (channel === 'email' && !template_id && body.email_blocks && !emailBlocks) {
+    return NextResponse.json({ error: 'Invalid email content' }, { status: 400 });
+  }
+
   const { data, error } = await supabase
     .from('broadcasts')
     .insert({
@@ -72,6 +89,8 @@ export async function POST(request: NextRequest) {
       template_id: template_id || null,
       custom_subject: custom_subject || null,
       custom_body: custom_body || null,
+      media,
+      email_blocks: emailBlocks,
       target_type,
       target_id: target_id || null,
       target_name: target_name || null,
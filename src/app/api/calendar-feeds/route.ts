@@ -0,0 +1,151 @@
+// ============================================================================
+// Calendar Feeds API — GET, POST, DELETE /api/calendar-feeds
+// ============================================================================
+// Manages secret-token iCalendar subscription URLs.
+//   scope "studio"   — whole studio (settings:manage only)
+//   scope "personal" — the caller's own feed; appointments narrowed to theirs
+// POST creates the feed or rotates its token (old URL stops working).
+// DELETE ?scope=X revokes it. Tokens live in calendar_feeds, which has no
+// client RLS policies, so everything here goes through the service role.
+// ============================================================================
+
+import { NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+
+type FeedScope = 'studio' | 'personal';
+
+interface FeedRow {
+  member_id: string | null;
+  token: string;
+  created_at: string;
+  last_accessed_at: string | null;
+}
+
+function feedUrl(token: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://sunstonepj.app';
+  return `${appUrl}/api/public/calendar/${token}.ics`;
+}
+
+function serialize(feed: FeedRow | undefined) {
+  if (!feed) return null;
+  return {
+    url: feedUrl(feed.token),
+    created_at: feed.created_at,
+    last_accessed_at: feed.last_accessed_at,
+  };
+}
+
+async function getCaller() {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`id, tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return null;
+
+  return {
+    memberId: member.id as string,
+    tenantId: member.tenant_id as string,
+    canManageStudio: hasPermission(roleGrant(member), 'settings:manage'),
+  };
+}
+
+// ── GET: Current feed URLs ─────────────────────────────────────────────────
+
+export async function GET() {
+  const caller = await getCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const db = await createServiceRoleClient();
+  const { data } = await db
+    .from('calendar_feeds')
+    .select('member_id, token, created_at, last_accessed_at')
+    .eq('tenant_id', caller.tenantId)
+    .or(`member_id.is.null,member_id.eq.${caller.memberId}`);
+
+  const feeds = (data || []) as FeedRow[];
+  return NextResponse.json({
+    canManageStudio: caller.canManageStudio,
+    studio: caller.canManageStudio ? serialize(feeds.find((f) => f.member_id === null)) : null,
+    personal: serialize(feeds.find((f) => f.member_id === caller.memberId)),
+  });
+}
+
+// ── POST: Create or rotate a feed ──────────────────────────────────────────
+
+export async function POST(request: Request) {
+  const caller = await getCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const scope = body.scope as FeedScope;
+  if (scope !== 'studio' && scope !== 'personal') {
+    return NextResponse.json({ error: 'scope must be "studio" or "personal"' }, { status: 400 });
+  }
+  if (scope === 'studio' && !caller.canManageStudio) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const db = await createServiceRoleClient();
+  const memberId = scope === 'studio' ? null : caller.memberId;
+
+  // Rotating replaces the row so the old token stops resolving immediately
+  let remove = db.from('calendar_feeds').delete().eq('tenant_id', caller.tenantId);
+  remove = memberId ? remove.eq('member_id', memberId) : remove.is('member_id', null);
+  await remove;
+
+  const { data: feed, error } = await db
+    .from('calendar_feeds')
+    .insert({
+      tenant_id: caller.tenantId,
+      member_id: memberId,
+      token: randomBytes(24).toString('base64url'),
+    })
+    .select('member_id, token, created_at, last_accessed_at')
+    .single();
+
+  if (error || !feed) {
+    console.error('[Calendar Feeds] Create failed:', error?.message);
+    return NextResponse.json({ error: 'Failed to create feed' }, { status: 500 });
+  }
+
+  return NextResponse.json({ feed: serialize(feed as FeedRow) });
+}
+
+// ── DELETE: Revoke a feed ──────────────────────────────────────────────────
+
+export async function DELETE(request: Request) {
+  const caller = await getCaller();
+  if (!caller) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const scope = new URL(request.url).searchParams.get('scope') as FeedScope | null;
+  if (scope !== 'studio' && scope !== 'personal') {
+    return NextResponse.json({ error: 'scope must be "studio" or "personal"' }, { status: 400 });
+  }
+  if (scope === 'studio' && !caller.canManageStudio) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const db = await createServiceRoleClient();
+  let remove = db.from('calendar_feeds').delete().eq('tenant_id', caller.tenantId);
+  remove = scope === 'personal' ? remove.eq('member_id', caller.memberId) : remove.is('member_id', null);
+  const { error } = await remove;
+
+  if (error) {
+    return NextResponse.json({ error: 'Failed to revoke feed' }, { status: 500 });
+  }
+  return NextResponse.json({ success: true });
+}
@@ -7,6 +7,7 @@ export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
 
 export async function POST(
   request: NextRequest,
@@ -19,7 +20,7 @@ export async function POST(
 
   const { data: member } = await supabase
     .from('tenant_members')
-    .select('tenant_id')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
     .eq('user_id', user.id)
     .limit(1)
     .single();
@@ -46,6 +47,10 @@ export async function POST(
   if (!type || !['sale', 'tip', 'pay_in', 'pay_out', 'adjustment'].includes(type)) {
     return NextResponse.json({ error: 'Invalid transaction type' }, { status: 400 });
   }
+  // Sales and tips are recorded by the POS; moving cash by hand needs the drawer permission
+  if (type !== 'sale' && type !== 'tip' && !hasPermission(roleGrant(member), 'cash_drawer:manage')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
   if (amount == null || amount <= 0) {
     return NextResponse.json({ error: 'Amount must be greater than 0' }, { status: 400 });
   }
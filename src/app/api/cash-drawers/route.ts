@@ -7,6 +7,7 @@ export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
 
 // ── POST: Open a new cash drawer ────────────────────────────────────────────
 
@@ -18,11 +19,14 @@ export async function POST(request: NextRequest) {
 
   const { data: member } = await supabase
     .from('tenant_members')
-    .select('tenant_id')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
     .eq('user_id', user.id)
     .limit(1)
     .single();
   if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'cash_drawer:manage')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
 
   const { openingBalance, eventId } = await request.json();
 
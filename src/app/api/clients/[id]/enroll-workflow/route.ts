@@ -3,6 +3,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
+import { scheduleWorkflowStep } from '@/lib/workflow-sender';
 
 export async function POST(
   request: NextRequest,
@@ -66,8 +67,8 @@ export async function POST(
 
   // Fetch client + tenant info for variable resolution
   const [clientRes, tenantRes, templatesRes] = await Promise.all([
-    supabase.from('clients').select('first_name, last_name').eq('id', clientId).single(),
-    supabase.from('tenants').select('name, phone').eq('id', tenantId).single(),
+    supabase.from('clients').select('first_name, last_name, loyalty_points').eq('id', clientId).single(),
+    supabase.from('tenants').select('name, phone, time_zone, workflow_quiet_hours_start, workflow_quiet_hours_end').eq('id', tenantId).single(),
     supabase.from('message_templates').select('name, body').eq('tenant_id', tenantId),
   ]);
 
@@ -78,6 +79,7 @@ export async function POST(
     client_name: clientName,
     business_name: tenant?.name || 'our studio',
     business_phone: tenant?.phone || '',
+    loyalty_points: String(client?.loyalty_points || 0),
   };
 
   const templateMap: Record<string, string> = {};
@@ -88,7 +90,7 @@ export async function POST(
   // Create queue entries for each step
   const now = new Date();
   const queueRows = steps.map(step => {
-    const scheduledFor = new Date(now.getTime() + step.delay_hours * 60 * 60 * 1000);
+    const scheduledFor = scheduleWorkflowStep(now, step.delay_hours, tenant);
     let messageBody = templateMap[step.template_name] || step.template_name;
     for (const [key, value] of Object.entries(variables)) {
       messageBody = messageBody.replace(new RegExp(`\\{\\{${key}\\}\\}`, 'g'), value);
@@ -0,0 +1,133 @@
+// ============================================================================
+// Client Loyalty — GET/POST /api/clients/:id/loyalty
+// ============================================================================
+// GET: Balance, recent ledger entries and who referred the client.
+//   Returns { balance, entries: LoyaltyLedgerEntry[], referred_by }.
+// POST: Manual adjustment. Body: { points, note } — points are signed.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+
+function clientName(client: { first_name?: string | null; last_name?: string | null } | null): string {
+  return `${client?.first_name || ''} ${client?.last_name || ''}`.trim() || 'Unnamed client';
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select('tenant_id')
+    .eq('user_id', user.id)
+    .single();
+
+  if (!member) return NextResponse.json({ error: 'No tenant' }, { status: 403 });
+
+  const { data: client } = await supabase
+    .from('clients')
+    .select('id, loyalty_points, referred_by_client_id')
+    .eq('id', id)
+    .eq('tenant_id', member.tenant_id)
+    .single();
+
+  if (!client) return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+
+  const [{ data: entries, error }, { data: referrer }] = await Promise.all([
+    supabase
+      .from('loyalty_ledger')
+      .select('*')
+      .eq('client_id', id)
+      .order('occurred_at', { ascending: false })
+      .limit(50),
+    client.referred_by_client_id
+      ? supabase.from('clients').select('id, first_name, last_name').eq('id', client.referred_by_client_id).single()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  if (error) {
+    console.error('[ClientLoyalty] GET error:', error);
+    return NextResponse.json({ error: 'Failed to load points' }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    balance: client.loyalty_points || 0,
+    entries: entries || [],
+    referred_by: referrer ? { id: referrer.id, name: clientName(referrer) } : null,
+  });
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .single();
+
+  if (!member) return NextResponse.json({ error: 'No tenant' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'clients:edit')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const points = Number(body.points);
+  const note = typeof body.note === 'string' ? body.note.trim().slice(0, 200) : '';
+  if (!Number.isInteger(points) || points === 0) {
+    return NextResponse.json({ error: 'Enter a whole number of points' }, { status: 400 });
+  }
+  if (!note) return NextResponse.json({ error: 'Add a reason for the adjustment' }, { status: 400 });
+
+  const { data: client } = await supabase
+    .from('clients')
+    .select('id, first_name, last_name, loyalty_points')
+    .eq('id', id)
+    .eq('tenant_id', member.tenant_id)
+    .single();
+
+  if (!client) return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+
+  const serviceClient = await createServiceRoleClient();
+  const { data: balance, error } = await serviceClient.rpc('loyalty_post', {
+    p_client_id: id,
+    p_entry_type: 'adjust',
+    p_source: 'manual',
+    p_points: points,
+    p_note: note,
+    p_user_id: user.id,
+  });
+
+  if (error) {
+    console.error('[ClientLoyalty] Adjust error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to adjust points' }, { status: 400 });
+  }
+
+  await recordAudit(serviceClient, {
+    tenantId: member.tenant_id,
+    actorUserId: user.id,
+    action: 'client.loyalty_adjust',
+    entityType: 'client',
+    entityId: id,
+    entityLabel: clientName(client),
+    before: { loyalty_points: client.loyalty_points || 0 },
+    after: { loyalty_points: balance },
+    metadata: { points, note },
+  });
+
+  return NextResponse.json({ balance });
+}
@@ -0,0 +1,64 @@
+// ============================================================================
+// Client Duplicates — GET /api/clients/duplicates
+// ============================================================================
+// Likely duplicate clients, scored by shared phone (including secondary
+// numbers), email and name. Returns { pairs: DuplicatePair[] }, best first.
+// ============================================================================
+
+import { NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { findDuplicatePairs } from '@/lib/client-duplicates';
+import type { DuplicateClient } from '@/types';
+
+const PAGE = 1000;
+
+export async function GET() {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select('tenant_id')
+    .eq('user_id', user.id)
+    .single();
+
+  if (!member) return NextResponse.json({ error: 'No tenant' }, { status: 403 });
+
+  const clients: DuplicateClient[] = [];
+  const phones: Array<{ client_id: string; phone_normalized: string }> = [];
+
+  // Both lists can pass the default row limit
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await supabase
+      .from('clients')
+      .select('id, first_name, last_name, email, phone, created_at, last_visit_at')
+      .eq('tenant_id', member.tenant_id)
+      .order('id')
+      .range(from, from + PAGE - 1);
+    if (error) {
+      console.error('[ClientDuplicates] Clients error:', error);
+      return NextResponse.json({ error: 'Failed to load clients' }, { status: 500 });
+    }
+    clients.push(...(data || []));
+    if (!data || data.length < PAGE) break;
+  }
+
+  for (let from = 0; ; from += PAGE) {
+    const { data, error } = await supabase
+      .from('client_phone_numbers')
+      .select('client_id, phone_normalized')
+      .eq('tenant_id', member.tenant_id)
+      .eq('is_primary', false)
+      .order('id')
+      .range(from, from + PAGE - 1);
+    if (error) {
+      console.error('[ClientDuplicates] Phones error:', error);
+      return NextResponse.json({ error: 'Failed to load clients' }, { status: 500 });
+    }
+    phones.push(...(data || []));
+    if (!data || data.length < PAGE) break;
+  }
+
+  return NextResponse.json({ pairs: findDuplicatePairs(clients, phones) });
+}
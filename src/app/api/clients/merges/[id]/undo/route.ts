@@ -0,0 +1,65 @@
+// ============================================================================
+// Undo Client Merge — POST /api/clients/merges/:id/undo
+// ============================================================================
+// Re-creates the merged client and moves its records back from the survivor.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .single();
+
+  if (!member) return NextResponse.json({ error: 'No tenant' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'clients:edit')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { data: merge } = await supabase
+    .from('client_merges')
+    .select('id, survivor_id, merged_client_id, merged_client')
+    .eq('id', id)
+    .eq('tenant_id', member.tenant_id)
+    .single();
+
+  if (!merge) return NextResponse.json({ error: 'Merge not found' }, { status: 404 });
+
+  const serviceClient = await createServiceRoleClient();
+  const { error } = await serviceClient.rpc('undo_client_merge', {
+    p_tenant_id: member.tenant_id,
+    p_merge_id: id,
+    p_user_id: user.id,
+  });
+
+  if (error) {
+    console.error('[ClientMerges] Undo error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to undo merge' }, { status: 400 });
+  }
+
+  const restored = merge.merged_client as { first_name?: string | null; last_name?: string | null };
+  await recordAudit(serviceClient, {
+    tenantId: member.tenant_id,
+    actorUserId: user.id,
+    action: 'client.merge_undo',
+    entityType: 'client',
+    entityId: merge.merged_client_id,
+    entityLabel: `${restored.first_name || ''} ${restored.last_name || ''}`.trim() || 'Unnamed client',
+    metadata: { merge_id: id, survivor_id: merge.survivor_id },
+  });
+
+  return NextResponse.json({ success: true, client_id: merge.merged_client_id });
+}
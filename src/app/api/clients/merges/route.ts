@@ -0,0 +1,142 @@
+// ============================================================================
+// Client Merges — GET/POST /api/clients/merges
+// ============================================================================
+// GET: Recent merges, newest first. Returns { merges: ClientMerge[] }.
+// POST: Merge one client into another.
+//   Body: { survivor_id, merged_id }
+//   Everything on the merged client moves to the survivor and the merged
+//   client is deleted; POST /api/clients/merges/:id/undo reverses it.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import type { ClientMerge } from '@/types';
+
+function clientName(client: { first_name?: string | null; last_name?: string | null } | null): string {
+  return `${client?.first_name || ''} ${client?.last_name || ''}`.trim() || 'Unnamed client';
+}
+
+export async function GET() {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select('tenant_id')
+    .eq('user_id', user.id)
+    .single();
+
+  if (!member) return NextResponse.json({ error: 'No tenant' }, { status: 403 });
+
+  const [{ data: rows, error }, { data: members }] = await Promise.all([
+    supabase
+      .from('client_merges')
+      .select('id, survivor_id, merged_client_id, merged_client, survivor_before, moved, merged_by, created_at, undone_at')
+      .eq('tenant_id', member.tenant_id)
+      .order('created_at', { ascending: false })
+      .limit(50),
+    supabase
+      .from('tenant_members')
+      .select('user_id, display_name, invited_email')
+      .eq('tenant_id', member.tenant_id)
+      .not('user_id', 'is', null),
+  ]);
+
+  if (error) {
+    console.error('[ClientMerges] GET error:', error);
+    return NextResponse.json({ error: 'Failed to load merges' }, { status: 500 });
+  }
+
+  const names = new Map<string, string>();
+  for (const m of members || []) names.set(m.user_id, m.display_name || m.invited_email || 'Team member');
+
+  // survivor_id has no foreign key (migration 103) — the survivor may since
+  // have been deleted or merged away, so look up who's still here
+  const survivorIds = [...new Set((rows || []).map((row: any) => row.survivor_id as string))];
+  const { data: survivors } = survivorIds.length > 0
+    ? await supabase.from('clients').select('id, first_name, last_name').in('id', survivorIds)
+    : { data: [] };
+  const survivorMap = new Map((survivors || []).map((c: any) => [c.id as string, c]));
+
+  const merges: ClientMerge[] = (rows || []).map((row: any) => ({
+    id: row.id,
+    survivor_id: row.survivor_id,
+    survivor_name: clientName(survivorMap.get(row.survivor_id) || row.survivor_before),
+    survivor_exists: survivorMap.has(row.survivor_id),
+    merged_client_id: row.merged_client_id,
+    merged_client_name: clientName(row.merged_client),
+    moved_counts: Object.fromEntries(
+      Object.entries((row.moved || {}) as Record<string, unknown[]>).map(([table, ids]) => [table, ids.length])
+    ),
+    merged_by_name: row.merged_by ? names.get(row.merged_by) || 'Former member' : null,
+    created_at: row.created_at,
+    undone_at: row.undone_at,
+  }));
+
+  return NextResponse.json({ merges });
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .single();
+
+  if (!member) return NextResponse.json({ error: 'No tenant' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'clients:edit')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const survivorId = typeof body.survivor_id === 'string' ? body.survivor_id : '';
+  const mergedId = typeof body.merged_id === 'string' ? body.merged_id : '';
+  if (!survivorId || !mergedId) {
+    return NextResponse.json({ error: 'Choose the two clients to merge' }, { status: 400 });
+  }
+  if (survivorId === mergedId) {
+    return NextResponse.json({ error: 'A client cannot be merged into itself' }, { status: 400 });
+  }
+
+  const { data: pair } = await supabase
+    .from('clients')
+    .select('id, first_name, last_name')
+    .eq('tenant_id', member.tenant_id)
+    .in('id', [survivorId, mergedId]);
+
+  const survivor = pair?.find((c) => c.id === survivorId);
+  const merged = pair?.find((c) => c.id === mergedId);
+  if (!survivor || !merged) return NextResponse.json({ error: 'Client not found' }, { status: 404 });
+
+  const serviceClient = await createServiceRoleClient();
+  const { data: mergeId, error } = await serviceClient.rpc('merge_clients', {
+    p_tenant_id: member.tenant_id,
+    p_survivor_id: survivorId,
+    p_merged_id: mergedId,
+    p_user_id: user.id,
+  });
+
+  if (error) {
+    console.error('[ClientMerges] Merge error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to merge clients' }, { status: 400 });
+  }
+
+  await recordAudit(serviceClient, {
+    tenantId: member.tenant_id,
+    actorUserId: user.id,
+    action: 'client.merge',
+    entityType: 'client',
+    entityId: survivorId,
+    entityLabel: clientName(survivor),
+    metadata: { merge_id: mergeId, merged_client_id: mergedId, merged_client_name: clientName(merged) },
+  });
+
+  return NextResponse.json({ merge_id: mergeId });
+}
@@ -2,15 +2,17 @@
 // Send Message — src/app/api/clients/send-message/route.ts
 // ============================================================================
 // POST: Send an SMS or email to a client. Derives tenantId from the caller's
-// session and verifies the client belongs to that tenant.
+// session and verifies the client belongs to that tenant. SMS may carry
+// `media` attachments (POST /api/conversations/media), sent as MMS.
 // ============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerSupabase } from '@/lib/supabase/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
 import { renderTemplate } from '@/lib/templates';
-import { checkRateLimit } from '@/lib/rate-limit';
-import { logSmsCost, logEmailCost } from '@/lib/cost-tracker';
-import { sendSMS } from '@/lib/twilio';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import { logSmsCost, logEmailCost, countSmsSegments } from '@/lib/cost-tracker';
+import { sendSMS, isSmsOptedOut } from '@/lib/twilio';
+import { parseMediaInput, mediaUrlsForSend } from '@/lib/message-media';
 
 const RATE_LIMIT = { prefix: 'send-msg', limit: 30, windowSeconds: 60 };
 
@@ -20,9 +22,9 @@ export async function POST(request: NextRequest) {
   if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
   // Rate limit by user
-  const rl = checkRateLimit(user.id, RATE_LIMIT);
+  const rl = await checkRateLimit(user.id, RATE_LIMIT);
   if (!rl.allowed) {
-    return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+    return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: rateLimitHeaders(rl) });
   }
 
   // Derive tenant from session — ignore body's tenantId
@@ -39,8 +41,12 @@ export async function POST(request: NextRequest) {
   const body = await request.json();
   const { clientId, channel, subject, message } = body;
 
-  const trimmedMessage = message?.trim();
-  if (!clientId || !channel || !trimmedMessage) {
+  const trimmedMessage: string = message?.trim() || '';
+  const media = channel === 'sms' ? parseMediaInput(tenantId, body.media) : [];
+  if (!media) {
+    return NextResponse.json({ error: 'Invalid attachments' }, { status: 400 });
+  }
+  if (!clientId || !channel || (!trimmedMessage && media.length === 0)) {
     return NextResponse.json({ error: 'clientId, channel, and message are required' }, { status: 400 });
   }
 
@@ -58,7 +64,7 @@ export async function POST(request: NextRequest) {
   // Fetch client AND verify it belongs to this tenant
   const { data: client } = await supabase
     .from('clients')
-    .select('first_name, last_name, email, phone')
+    .select('first_name, last_name, email, phone, loyalty_points')
     .eq('id', clientId)
     .eq('tenant_id', tenantId)
     .single();
@@ -80,6 +86,7 @@ export async function POST(request: NextRequest) {
     client_first_name: client.first_name || '',
     business_name: tenant.name || '',
     business_phone: tenant.phone || '',
+    loyalty_points: String(client.loyalty_points || 0),
   };
 
   const resolvedMessage = renderTemplate(trimmedMessage, variables);
@@ -100,8 +107,14 @@ export async function POST(request: NextRequest) {
         .single();
 
       const smsPhone = lastInbound?.phone_number || client.phone;
-      const sid = await sendSMS({ to: smsPhone, body: resolvedMessage, tenantId });
-      logSmsCost({ tenantId, operation: 'sms_direct' });
+      const mediaUrls = await mediaUrlsForSend(await createServiceRoleClient(), media);
+      const sid = await sendSMS({ to: smsPhone, body: resolvedMessage, tenantId, source: 'direct', clientId, mediaUrls });
+      if (!sid && await isSmsOptedOut(tenantId, smsPhone)) {
+        return NextResponse.json({ error: 'This client has opted out of texts (replied STOP)' }, { status: 409 });
+      }
+      logSmsCost(media.length > 0
+        ? { tenantId, operation: 'sms_direct', mms: 1 }
+        : { tenantId, operation: 'sms_direct', segments: countSmsSegments(resolvedMessage) });
 
       // Write to conversations table for two-way SMS thread
       supabase.from('conversations').insert({
@@ -110,6 +123,7 @@ export async function POST(request: NextRequest) {
         phone_number: smsPhone,
         direction: 'outbound',
         body: resolvedMessage,
+        media,
         twilio_sid: sid,
         status: 'delivered',
         read: true,
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
-import { sendSMS as twilioSendSMS } from '@/lib/twilio';
+import { claimQueueItem, sendWorkflowMessage } from '@/lib/workflow-sender';
 
 export async function GET(request: NextRequest) {
   const supabase = await createServerSupabase();
@@ -15,7 +15,7 @@ export async function GET(request: NextRequest) {
 
   let query = supabase
     .from('workflow_queue')
-    .select('*, client:clients(first_name, last_name)')
+    .select('*, client:clients(first_name, last_name), step:workflow_steps(workflow:workflow_templates(send_mode))')
     .eq('tenant_id', tenantId)
     .order('scheduled_for', { ascending: true });
 
@@ -36,8 +36,12 @@ export async function GET(request: NextRequest) {
     return NextResponse.json({ error: 'Failed to load workflow queue' }, { status: 500 });
   }
 
+  // Auto-send steps are delivered by /api/workflows/process — only
+  // review-first steps need a manual Send / Skip
+  const reviewItems = (data || []).filter((item: any) => item.step?.workflow?.send_mode !== 'auto');
+
   // Enrich with client info
-  const items = (data || []).map((item: any) => ({
+  const items = reviewItems.map((item: any) => ({
     id: item.id,
     client_id: item.client_id,
     client_name: item.client
@@ -74,7 +78,7 @@ export async function POST(request: NextRequest) {
   // Fetch the queue item
   const { data: item, error: fetchError } = await supabase
     .from('workflow_queue')
-    .select('*, client:clients(phone, email, first_name, last_name)')
+    .select('*, client:clients(phone, email, first_name, last_name, email_unsubscribed_at)')
     .eq('id', queue_id)
     .single();
 
@@ -82,69 +86,26 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Queue item not found' }, { status: 404 });
   }
 
-  // Send the message via existing Twilio/Resend integration
-  let sent = false;
-  if (item.channel === 'sms' && item.client?.phone) {
-    try {
-      const sid = await twilioSendSMS({ to: item.client.phone, body: item.message_body, tenantId: item.tenant_id });
-      if (sid) {
-        sent = true;
-        // Write to conversations for two-way thread
-        supabase.from('conversations').insert({
-          tenant_id: item.tenant_id,
-          client_id: item.client_id,
-          phone_number: item.client.phone,
-          direction: 'outbound',
-          body: item.message_body,
-          twilio_sid: sid,
-          status: 'delivered',
-          read: true,
-        }).then(null, () => {});
-      }
-    } catch (err: any) {
-      console.error('[Workflow SMS] Failed:', err?.message);
-    }
-  } else if (item.channel === 'email' && item.client?.email) {
-    try {
-      if (process.env.RESEND_API_KEY) {
-        const { Resend } = require('resend');
-        const resend = new Resend(process.env.RESEND_API_KEY);
-        await resend.emails.send({
-          from: process.env.RESEND_FROM_EMAIL || 'noreply@sunstone.app',
-          to: item.client.email,
-          subject: item.template_name,
-          text: item.message_body,
-        });
-        sent = true;
-      }
-    } catch (err: any) {
-      console.error('[Workflow Email] Failed:', err?.message);
-    }
+  // The processor may be delivering it right now
+  if (!(await claimQueueItem(supabase, queue_id))) {
+    return NextResponse.json({ error: 'This message was already sent or is being sent' }, { status: 409 });
   }
 
-  // Log to message_log (fire-and-forget)
-  if (sent) {
-    supabase.from('message_log').insert({
-      tenant_id: item.tenant_id,
-      client_id: item.client_id,
-      direction: 'outbound',
-      channel: item.channel,
-      recipient_email: item.channel === 'email' ? item.client?.email : null,
-      recipient_phone: item.channel === 'sms' ? item.client?.phone : null,
-      body: item.message_body,
-      template_name: item.template_name,
-      source: 'workflow',
-      status: 'sent',
-    }).then(null, () => {});
-  }
+  // Send the message via existing Twilio/Resend integration
+  const delivery = await sendWorkflowMessage(supabase, item);
 
-  // Mark as sent
   await supabase
     .from('workflow_queue')
-    .update({ status: 'sent', acted_at: new Date().toISOString() })
+    .update({
+      status: delivery.sent ? 'sent' : 'failed',
+      acted_at: new Date().toISOString(),
+      sent_at: delivery.sent ? new Date().toISOString() : null,
+      sent_by: delivery.sent ? user.id : null,
+      error_message: delivery.error || null,
+    })
     .eq('id', queue_id);
 
-  return NextResponse.json({ sent, status: 'sent' });
+  return NextResponse.json({ sent: delivery.sent, status: delivery.sent ? 'sent' : 'failed', error: delivery.error });
 }
 
 // PATCH: Skip a queued message
@@ -159,8 +120,9 @@ export async function PATCH(request: NextRequest) {
 
   await supabase
     .from('workflow_queue')
-    .update({ status: 'skipped', acted_at: new Date().toISOString() })
-    .eq('id', queue_id);
+    .update({ status: 'skipped', skip_reason: 'manual', acted_at: new Date().toISOString() })
+    .eq('id', queue_id)
+    .eq('status', 'pending');
 
   return NextResponse.json({ status: 'skipped' });
 }
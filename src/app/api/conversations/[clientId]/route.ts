@@ -4,10 +4,12 @@
 // Returns messages for a specific client conversation.
 // Supports cursor-based pagination via ?before=<timestamp>&limit=50
 // Supports phone: prefix for phone-only conversations.
+// MMS attachments come back with short-lived signed URLs.
 // ============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerSupabase } from '@/lib/supabase/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { withMediaUrls } from '@/lib/message-media';
 
 export async function GET(
   request: NextRequest,
@@ -56,7 +58,7 @@ export async function GET(
   }
 
   // Return in chronological order
-  const chronological = (messages || []).reverse();
+  const chronological = await withMediaUrls(await createServiceRoleClient(), (messages || []).reverse());
 
   return NextResponse.json({
     messages: chronological,
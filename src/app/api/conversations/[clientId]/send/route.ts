@@ -2,13 +2,16 @@
 // Send Conversation Message — POST /api/conversations/:clientId/send
 // ============================================================================
 // Supports phone: prefix for phone-only conversations.
+// Body: { message, media? } — media from POST /api/conversations/media makes
+// it an MMS, and the text becomes optional.
 // ============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerSupabase } from '@/lib/supabase/server';
-import { sendSMS } from '@/lib/twilio';
-import { checkRateLimit } from '@/lib/rate-limit';
-import { logSmsCost } from '@/lib/cost-tracker';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { sendSMS, isSmsOptedOut } from '@/lib/twilio';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import { logSmsCost, countSmsSegments } from '@/lib/cost-tracker';
+import { parseMediaInput, mediaUrlsForSend, withMediaUrls } from '@/lib/message-media';
 
 const RATE_LIMIT = { prefix: 'conv-send', limit: 30, windowSeconds: 60 };
 
@@ -21,9 +24,9 @@ export async function POST(
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
-  const rl = checkRateLimit(user.id, RATE_LIMIT);
+  const rl = await checkRateLimit(user.id, RATE_LIMIT);
   if (!rl.allowed) {
-    return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+    return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: rateLimitHeaders(rl) });
   }
 
   const { data: member } = await supabase
@@ -35,10 +38,14 @@ export async function POST(
   if (!member) return NextResponse.json({ error: 'No tenant' }, { status: 403 });
   const tenantId = member.tenant_id;
 
-  const { message } = await request.json();
-  const trimmed = message?.trim();
+  const { message, media: mediaInput } = await request.json();
+  const trimmed: string = message?.trim() || '';
+  const media = parseMediaInput(tenantId, mediaInput);
 
-  if (!trimmed) {
+  if (!media) {
+    return NextResponse.json({ error: 'Invalid attachments' }, { status: 400 });
+  }
+  if (!trimmed && media.length === 0) {
     return NextResponse.json({ error: 'Message is required' }, { status: 400 });
   }
   if (trimmed.length > 1600) {
@@ -78,7 +85,12 @@ export async function POST(
   }
 
   try {
-    const sid = await sendSMS({ to: phone, body: trimmed, tenantId });
+    const serviceClient = await createServiceRoleClient();
+    const mediaUrls = await mediaUrlsForSend(serviceClient, media);
+    const sid = await sendSMS({ to: phone, body: trimmed, tenantId, source: 'conversation', clientId: resolvedClientId, mediaUrls });
+    if (!sid && await isSmsOptedOut(tenantId, phone)) {
+      return NextResponse.json({ error: 'This number has opted out of texts (replied STOP)' }, { status: 409 });
+    }
 
     // Insert into conversations
     const { data: msg, error: insertErr } = await supabase
@@ -89,6 +101,7 @@ export async function POST(
         phone_number: phone,
         direction: 'outbound',
         body: trimmed,
+        media,
         twilio_sid: sid,
         status: sid ? 'delivered' : 'failed',
         read: true,
@@ -120,9 +133,12 @@ export async function POST(
     }
 
     // Log cost
-    logSmsCost({ tenantId, operation: 'sms_conversation' });
+    logSmsCost(media.length > 0
+      ? { tenantId, operation: 'sms_conversation', mms: 1 }
+      : { tenantId, operation: 'sms_conversation', segments: countSmsSegments(trimmed) });
 
-    return NextResponse.json({ success: true, message: msg });
+    const [signed] = msg ? await withMediaUrls(serviceClient, [msg]) : [msg];
+    return NextResponse.json({ success: true, message: signed });
   } catch (err: any) {
     console.error('[Conversation Send] Error:', err);
     return NextResponse.json({ error: 'Failed to send message' }, { status: 500 });
@@ -0,0 +1,53 @@
+// ============================================================================
+// Upload Message Media — POST /api/conversations/media
+// ============================================================================
+// Stores an image to send as MMS from a conversation, the compose modal or
+// an SMS broadcast. Multipart form with a single `file` field.
+// Returns { media: { path, content_type, url } } — pass { path, content_type }
+// back as `media` when sending.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import { validateMmsImage, uploadOutboundMedia, withMediaUrls } from '@/lib/message-media';
+
+const RATE_LIMIT = { prefix: 'msg-media', limit: 30, windowSeconds: 60 };
+
+export async function POST(request: NextRequest) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const rl = await checkRateLimit(user.id, RATE_LIMIT);
+  if (!rl.allowed) {
+    return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: rateLimitHeaders(rl) });
+  }
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select('tenant_id')
+    .eq('user_id', user.id)
+    .single();
+
+  if (!member) return NextResponse.json({ error: 'No tenant' }, { status: 403 });
+
+  const formData = await request.formData().catch(() => null);
+  const file = formData?.get('file');
+  if (!(file instanceof File)) {
+    return NextResponse.json({ error: 'Choose an image to attach' }, { status: 400 });
+  }
+
+  const invalid = validateMmsImage(file);
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    const serviceClient = await createServiceRoleClient();
+    const stored = await uploadOutboundMedia(serviceClient, member.tenant_id, file);
+    const [{ media }] = await withMediaUrls(serviceClient, [{ media: [stored] }]);
+    return NextResponse.json({ media: media[0] });
+  } catch (err: any) {
+    console.error('[Message Media] Upload error:', err);
+    return NextResponse.json({ error: 'Failed to upload image' }, { status: 500 });
+  }
+}
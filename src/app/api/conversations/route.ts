@@ -43,7 +43,7 @@ export async function GET(request: NextRequest) {
     (clients || []).map(async (client) => {
       const { data: lastMsg } = await supabase
         .from('conversations')
-        .select('body, direction, created_at')
+        .select('body, media, direction, created_at')
         .eq('tenant_id', tenantId)
         .eq('client_id', client.id)
         .order('created_at', { ascending: false })
@@ -54,7 +54,7 @@ export async function GET(request: NextRequest) {
         client_id: client.id,
         client_name: [client.first_name, client.last_name].filter(Boolean).join(' ') || 'Unknown',
         client_phone: client.phone,
-        last_message: lastMsg?.body || '',
+        last_message: lastMsg?.body || (lastMsg?.media?.length ? 'Photo' : ''),
         last_direction: lastMsg?.direction || 'outbound',
         last_message_at: client.last_message_at,
         unread_count: client.unread_messages || 0,
@@ -66,7 +66,7 @@ export async function GET(request: NextRequest) {
   // Get distinct phone numbers with null client_id
   const { data: phoneOnlyMsgs } = await supabase
     .from('conversations')
-    .select('phone_number, body, direction, created_at, read')
+    .select('phone_number, body, media, direction, created_at, read')
     .eq('tenant_id', tenantId)
     .is('client_id', null)
     .order('created_at', { ascending: false });
@@ -85,7 +85,7 @@ export async function GET(request: NextRequest) {
     if (!phoneMap.has(msg.phone_number)) {
       phoneMap.set(msg.phone_number, {
         phone: msg.phone_number,
-        lastBody: msg.body,
+        lastBody: msg.body || (msg.media?.length ? 'Photo' : ''),
         lastDirection: msg.direction,
         lastAt: msg.created_at,
         unread: 0,
@@ -3,13 +3,15 @@
 // ============================================================================
 // Sends a message to a phone number, optionally linked to a client.
 // Used by the New Message compose flow in the Messages page.
+// Accepts the same optional `media` attachments as the conversation send.
 // ============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerSupabase } from '@/lib/supabase/server';
-import { sendSMS, normalizePhone } from '@/lib/twilio';
-import { checkRateLimit } from '@/lib/rate-limit';
-import { logSmsCost } from '@/lib/cost-tracker';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { sendSMS, normalizePhone, isSmsOptedOut } from '@/lib/twilio';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
+import { logSmsCost, countSmsSegments } from '@/lib/cost-tracker';
+import { parseMediaInput, mediaUrlsForSend } from '@/lib/message-media';
 
 const RATE_LIMIT = { prefix: 'conv-send-new', limit: 20, windowSeconds: 60 };
 
@@ -18,9 +20,9 @@ export async function POST(request: NextRequest) {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
-  const rl = checkRateLimit(user.id, RATE_LIMIT);
+  const rl = await checkRateLimit(user.id, RATE_LIMIT);
   if (!rl.allowed) {
-    return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+    return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: rateLimitHeaders(rl) });
   }
 
   const { data: member } = await supabase
@@ -34,12 +36,16 @@ export async function POST(request: NextRequest) {
 
   const body = await request.json();
   const { phone, message, clientId } = body;
+  const media = parseMediaInput(tenantId, body.media);
 
-  if (!phone || !message?.trim()) {
+  if (!media) {
+    return NextResponse.json({ error: 'Invalid attachments' }, { status: 400 });
+  }
+  if (!phone || (!message?.trim() && media.length === 0)) {
     return NextResponse.json({ error: 'Phone and message are required' }, { status: 400 });
   }
 
-  const trimmed = message.trim();
+  const trimmed: string = message?.trim() || '';
   if (trimmed.length > 1600) {
     return NextResponse.json({ error: 'Message too long (max 1600 characters)' }, { status: 400 });
   }
@@ -62,7 +68,11 @@ export async function POST(request: NextRequest) {
   }
 
   try {
-    const sid = await sendSMS({ to: normalizedPhone, body: trimmed, tenantId });
+    const mediaUrls = await mediaUrlsForSend(await createServiceRoleClient(), media);
+    const sid = await sendSMS({ to: normalizedPhone, body: trimmed, tenantId, source: 'conversation', clientId: resolvedClientId, mediaUrls });
+    if (!sid && await isSmsOptedOut(tenantId, normalizedPhone)) {
+      return NextResponse.json({ error: 'This number has opted out of texts (replied STOP)' }, { status: 409 });
+    }
 
     const { data: msg, error: insertErr } = await supabase
       .from('conversations')
@@ -72,6 +82,7 @@ export async function POST(request: NextRequest) {
         phone_number: normalizedPhone,
         direction: 'outbound',
         body: trimmed,
+        media,
         twilio_sid: sid,
         status: sid ? 'delivered' : 'failed',
         read: true,
@@ -90,7 +101,9 @@ export async function POST(request: NextRequest) {
       }).eq('id', resolvedClientId).then(null, () => {});
     }
 
-    logSmsCost({ tenantId, operation: 'sms_conversation' });
+    logSmsCost(media.length > 0
+      ? { tenantId, operation: 'sms_conversation', mms: 1 }
+      : { tenantId, operation: 'sms_conversation', segments: countSmsSegments(trimmed) });
 
     return NextResponse.json({
       success: true,
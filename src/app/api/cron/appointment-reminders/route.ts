@@ -0,0 +1,92 @@
+// ============================================================================
+// Appointment Reminders Cron — GET /api/cron/appointment-reminders
+// ============================================================================
+// Vercel cron: runs hourly. Texts confirmed customers who opted in roughly a
+// day before their appointment. Appointments booked less than REMINDER_LEAD
+// hours out are skipped — the booking confirmation already covers them.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { resolveTimeZone } from '@/lib/timezone';
+import { sendAppointmentReminder } from '@/lib/appointment-sms';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+const REMINDER_LEAD_HOURS = 24;
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret (Vercel sends Authorization header)
+  const authHeader = request.headers.get('authorization');
+  if (!CRON_SECRET || authHeader !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const results = { sent: 0, skipped: 0, errors: [] as string[] };
+
+  try {
+    const supabase = await createServiceRoleClient();
+    const now = new Date();
+    const horizon = new Date(now.getTime() + REMINDER_LEAD_HOURS * 3_600_000);
+
+    const { data: appointments, error } = await supabase
+      .from('appointments')
+      .select('id, tenant_id, customer_name, customer_phone, starts_at, sms_consent, created_at')
+      .eq('status', 'confirmed')
+      .is('reminder_sent_at', null)
+      .gt('starts_at', now.toISOString())
+      .lte('starts_at', horizon.toISOString());
+
+    if (error) {
+      console.error('[Appointment Reminders] Query error:', error);
+      return NextResponse.json({ error: 'Appointment query failed' }, { status: 500 });
+    }
+
+    const tenantCache = new Map<string, { name: string; time_zone: string | null } | null>();
+
+    for (const appt of appointments || []) {
+      try {
+        const leadHours = (new Date(appt.starts_at).getTime() - new Date(appt.created_at).getTime()) / 3_600_000;
+        if (!appt.sms_consent || leadHours < REMINDER_LEAD_HOURS) {
+          results.skipped++;
+          await supabase.from('appointments').update({ reminder_sent_at: now.toISOString() }).eq('id', appt.id);
+          continue;
+        }
+
+        if (!tenantCache.has(appt.tenant_id)) {
+          const { data: tenant } = await supabase
+            .from('tenants')
+            .select('name, time_zone')
+            .eq('id', appt.tenant_id)
+            .single();
+          tenantCache.set(appt.tenant_id, tenant || null);
+        }
+        const tenant = tenantCache.get(appt.tenant_id);
+        if (!tenant) continue;
+
+        // Claim before sending so an overlapping run can't double-text
+        const { data: claimed } = await supabase
+          .from('appointments')
+          .update({ reminder_sent_at: now.toISOString() })
+          .eq('id', appt.id)
+          .is('reminder_sent_at', null)
+          .select('id')
+          .single();
+        if (!claimed) continue;
+
+        const sent = await sendAppointmentReminder(supabase, appt, tenant, resolveTimeZone(tenant));
+        if (sent) results.sent++;
+        else results.skipped++;
+      } catch (err: any) {
+        results.errors.push(`${appt.id}: ${err.message}`);
+        console.error(`[Appointment Reminders] Error for appointment ${appt.id}:`, err);
+      }
+    }
+
+    console.log(`[Appointment Reminders] Complete: ${results.sent} sent, ${results.skipped} skipped, ${results.errors.length} errors`);
+    return NextResponse.json({ success: true, ...results });
+  } catch (error: any) {
+    console.error('[Appointment Reminders] Fatal error:', error);
+    return NextResponse.json({ error: 'Appointment reminder processing failed' }, { status: 500 });
+  }
+}
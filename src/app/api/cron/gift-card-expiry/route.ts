@@ -0,0 +1,105 @@
+// ============================================================================
+// Gift Card Expiry Cron — GET /api/cron/gift-card-expiry
+// ============================================================================
+// Vercel cron: runs daily. Moves active cards past their expiry date to
+// 'expired' and writes the remaining balance off to the ledger as breakage.
+// Cards whose expiry date the tenant's jurisdiction doesn't allow are left
+// active (counted as `held`) — the date on the card doesn't override the law.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { isExpiryEnforceable } from '@/lib/gift-cards';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+/** Cards expired per run; anything left over is picked up tomorrow. */
+const BATCH_SIZE = 500;
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret (Vercel sends Authorization header)
+  const authHeader = request.headers.get('authorization');
+  if (!CRON_SECRET || authHeader !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const results = { expired: 0, held: 0, brokenAmount: 0, errors: [] as string[] };
+
+  try {
+    const supabase = await createServiceRoleClient();
+    const now = new Date();
+    const jurisdictionCache = new Map<string, string | null>();
+
+    // Held cards stay active and past due forever, so page past them with a
+    // (expires_at, id) cursor instead of letting them fill the batch
+    let cursor: { expires_at: string; id: string } | null = null;
+
+    while (results.expired < BATCH_SIZE) {
+      let query = supabase
+        .from('gift_cards')
+        .select('id, tenant_id, remaining_balance, purchased_at, expires_at')
+        .eq('status', 'active')
+        .not('expires_at', 'is', null)
+        .lte('expires_at', now.toISOString())
+        .order('expires_at', { ascending: true })
+        .order('id', { ascending: true })
+        .limit(BATCH_SIZE);
+      if (cursor) {
+        query = query.or(
+          `expires_at.gt."${cursor.expires_at}",and(expires_at.eq."${cursor.expires_at}",id.gt.${cursor.id})`
+        );
+      }
+
+      const { data: cards, error } = await query;
+
+      if (error) {
+        console.error('[Gift Card Expiry] Query error:', error);
+        return NextResponse.json({ error: 'Gift card query failed' }, { status: 500 });
+      }
+
+      for (const card of cards || []) {
+        if (results.expired >= BATCH_SIZE) break;
+        try {
+          if (!jurisdictionCache.has(card.tenant_id)) {
+            const { data: tenant } = await supabase
+              .from('tenants')
+              .select('gift_card_jurisdiction')
+              .eq('id', card.tenant_id)
+              .single();
+            jurisdictionCache.set(card.tenant_id, tenant?.gift_card_jurisdiction ?? null);
+          }
+
+          if (!isExpiryEnforceable(card, jurisdictionCache.get(card.tenant_id) ?? null)) {
+            results.held++;
+            continue;
+          }
+
+          const balance = Number(card.remaining_balance);
+          const { error: postError } = await supabase.rpc('gift_card_post', {
+            p_gift_card_id: card.id,
+            p_entry_type: 'expire',
+            p_amount: -balance,
+            p_status: 'expired',
+          });
+          if (postError) throw new Error(postError.message);
+
+          results.expired++;
+          results.brokenAmount = Math.round((results.brokenAmount + balance) * 100) / 100;
+        } catch (err: any) {
+          results.errors.push(`${card.id}: ${err.message}`);
+          console.error(`[Gift Card Expiry] Error for card ${card.id}:`, err);
+        }
+      }
+
+      if (!cards || cards.length < BATCH_SIZE) break;
+      const last = cards[cards.length - 1];
+      cursor = { expires_at: last.expires_at, id: last.id };
+    }
+
+    console.log(`[Gift Card Expiry] Complete: ${results.expired} expired ($${results.brokenAmount.toFixed(2)}), ${results.held} held, ${results.errors.length} errors`);
+    return NextResponse.json({ success: true, ...results });
+  } catch (error: any) {
+    console.error('[Gift Card Expiry] Fatal error:', error);
+    return NextResponse.json({ error: 'Gift card expiry processing failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+// ============================================================================
+// Loyalty Cron — GET /api/cron/loyalty
+// ============================================================================
+// Vercel cron: runs daily. Awards birthday bonuses (once per client per
+// year, on the tenant's local date) and expires balances that have sat
+// untouched past the tenant's loyalty_expiry_months. Both run in the
+// database (migration 097).
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret (Vercel sends Authorization header)
+  const authHeader = request.headers.get('authorization');
+  if (!CRON_SECRET || authHeader !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const supabase = await createServiceRoleClient();
+
+    const { data: birthdays, error: birthdayError } = await supabase.rpc('loyalty_award_birthdays');
+    if (birthdayError) {
+      console.error('[Loyalty Cron] Birthday error:', birthdayError);
+      return NextResponse.json({ error: 'Birthday bonuses failed' }, { status: 500 });
+    }
+
+    const { data: expired, error: expiryError } = await supabase.rpc('loyalty_expire_points');
+    if (expiryError) {
+      console.error('[Loyalty Cron] Expiry error:', expiryError);
+      return NextResponse.json({ error: 'Point expiry failed' }, { status: 500 });
+    }
+
+    console.log(`[Loyalty Cron] Complete: ${birthdays || 0} birthday bonuses, ${expired || 0} balances expired`);
+    return NextResponse.json({ success: true, birthdays: birthdays || 0, expired: expired || 0 });
+  } catch (error: any) {
+    console.error('[Loyalty Cron] Fatal error:', error);
+    return NextResponse.json({ error: 'Loyalty processing failed' }, { status: 500 });
+  }
+}
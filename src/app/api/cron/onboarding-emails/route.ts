@@ -1,9 +1,10 @@
 // ============================================================================
 // Onboarding Drip Emails Cron — GET /api/cron/onboarding-emails
 // ============================================================================
-// Vercel cron: runs daily at 4pm UTC (9am MST / 10am MDT).
+// Vercel cron: runs hourly. Each tenant is emailed once their local clock
+// reaches SEND_WINDOW_START (9am) — an hour after the trial-emails window.
 // Sends behavior-triggered onboarding emails for days 0–15 of trial.
-// One email per tenant per cron run. Staggered 1hr after trial-emails cron.
+// At most one email per tenant per day.
 // ============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -13,6 +14,7 @@ import {
   type OnboardingEmailParams,
   type OnboardingEmailType,
 } from '@/lib/emails/onboarding-emails';
+import { getLocalHour, resolveTimeZone } from '@/lib/timezone';
 
 const CRON_SECRET = process.env.CRON_SECRET;
 
@@ -23,6 +25,13 @@ const DEMO_TENANT_IDS = [
   process.env.NEXT_PUBLIC_DEMO_PRO_TENANT_ID,
 ].filter(Boolean) as string[];
 
+// Local hours [start, end) during which a tenant can be emailed
+const SEND_WINDOW_START = 9;
+const SEND_WINDOW_END = 13;
+
+// Minimum gap between two onboarding emails to the same tenant
+const MIN_HOURS_BETWEEN_EMAILS = 20;
+
 // Column name mapping for each email type
 const SENT_COLUMNS: Record<OnboardingEmailType, string> = {
   welcome: 'onboarding_welcome_sent_at',
@@ -64,7 +73,7 @@ export async function GET(request: NextRequest) {
     let query = supabase
       .from('tenants')
       .select(`
-        id, name, created_at, trial_ends_at,
+        id, name, created_at, trial_ends_at, time_zone,
         stripe_subscription_id, subscription_status,
         stripe_account_id, admin_tier_override,
         last_owner_login_at,
@@ -112,6 +121,17 @@ export async function GET(request: NextRequest) {
           continue;
         }
 
+        // Only email during the tenant's local morning
+        const localHour = getLocalHour(now, resolveTimeZone(tenant));
+        if (localHour < SEND_WINDOW_START || localHour >= SEND_WINDOW_END) continue;
+
+        // The cron runs hourly — keep it to one onboarding email per day
+        const lastSentAt = Object.values(SENT_COLUMNS)
+          .map((col) => (tenant as Record<string, any>)[col] as string | null)
+          .filter(Boolean)
+          .reduce((latest, at) => Math.max(latest, new Date(at!).getTime()), 0);
+        if (now.getTime() - lastSentAt < MIN_HOURS_BETWEEN_EMAILS * 60 * 60 * 1000) continue;
+
         results.tenants_checked++;
 
         const createdAt = new Date(tenant.created_at);
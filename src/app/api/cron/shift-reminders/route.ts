@@ -0,0 +1,99 @@
+// ============================================================================
+// Shift Reminders Cron — GET /api/cron/shift-reminders
+// ============================================================================
+// Vercel cron: runs hourly. Reminds team members of shifts starting within
+// SHIFT_REMINDER_LEAD_HOURS, by push and (if they've added a number) SMS.
+// Each shift is claimed before sending so overlapping runs can't double up.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { resolveTimeZone } from '@/lib/timezone';
+import { SHIFT_REMINDER_LEAD_HOURS } from '@/lib/shifts';
+import { sendShiftReminder } from '@/lib/shift-reminders';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+interface ShiftRow {
+  id: string;
+  tenant_id: string;
+  starts_at: string;
+  ends_at: string;
+  member: { user_id: string; display_name: string | null; phone: string | null } | null;
+  event: { name: string; time_zone: string | null } | null;
+}
+
+export async function GET(request: NextRequest) {
+  // Verify cron secret (Vercel sends Authorization header)
+  const authHeader = request.headers.get('authorization');
+  if (!CRON_SECRET || authHeader !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const results = { sent: 0, skipped: 0, errors: [] as string[] };
+
+  try {
+    const supabase = await createServiceRoleClient();
+    const now = new Date();
+    const horizon = new Date(now.getTime() + SHIFT_REMINDER_LEAD_HOURS * 3_600_000);
+
+    const { data: shifts, error } = await supabase
+      .from('staff_shifts')
+      .select('id, tenant_id, starts_at, ends_at, member:tenant_members(user_id, display_name, phone), event:events(name, time_zone)')
+      .is('reminder_sent_at', null)
+      .gt('starts_at', now.toISOString())
+      .lte('starts_at', horizon.toISOString());
+
+    if (error) {
+      console.error('[Shift Reminders] Query error:', error);
+      return NextResponse.json({ error: 'Shift query failed' }, { status: 500 });
+    }
+
+    const tenantCache = new Map<string, { name: string; time_zone: string | null } | null>();
+
+    for (const shift of (shifts || []) as unknown as ShiftRow[]) {
+      try {
+        if (!tenantCache.has(shift.tenant_id)) {
+          const { data: tenant } = await supabase
+            .from('tenants')
+            .select('name, time_zone')
+            .eq('id', shift.tenant_id)
+            .single();
+          tenantCache.set(shift.tenant_id, tenant || null);
+        }
+        const tenant = tenantCache.get(shift.tenant_id);
+        if (!tenant || !shift.member) continue;
+
+        // Claim before sending so an overlapping run can't double-remind
+        const { data: claimed } = await supabase
+          .from('staff_shifts')
+          .update({ reminder_sent_at: now.toISOString() })
+          .eq('id', shift.id)
+          .is('reminder_sent_at', null)
+          .select('id')
+          .single();
+        if (!claimed) continue;
+
+        const sent = await sendShiftReminder(
+          supabase,
+          shift,
+          shift.member,
+          tenant,
+          shift.event?.name || null,
+          resolveTimeZone(tenant, shift.event)
+        );
+        if (sent) results.sent++;
+        else results.skipped++;
+      } catch (err: any) {
+        results.errors.push(`${shift.id}: ${err.message}`);
+        console.error(`[Shift Reminders] Error for shift ${shift.id}:`, err);
+      }
+    }
+
+    console.log(`[Shift Reminders] Complete: ${results.sent} sent, ${results.skipped} skipped, ${results.errors.length} errors`);
+    return NextResponse.json({ success: true, ...results });
+  } catch (error: any) {
+    console.error('[Shift Reminders] Fatal error:', error);
+    return NextResponse.json({ error: 'Shift reminder processing failed' }, { status: 500 });
+  }
+}
@@ -1,13 +1,15 @@
 // ============================================================================
 // Trial Expiration Emails Cron — GET /api/cron/trial-emails
 // ============================================================================
-// Vercel cron: runs daily at 3pm UTC (8am MST / 9am MDT).
+// Vercel cron: runs hourly. Each tenant is emailed once their local clock
+// reaches SEND_WINDOW_START (8am), so every studio gets it in the morning.
 // Sends 7-day, 1-day, and expired trial email notifications.
 // ============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { sendTrialEmail, type TrialEmailParams } from '@/lib/emails/trial-emails';
+import { getLocalHour, resolveTimeZone } from '@/lib/timezone';
 
 const CRON_SECRET = process.env.CRON_SECRET;
 
@@ -18,6 +20,10 @@ const DEMO_TENANT_IDS = [
   process.env.NEXT_PUBLIC_DEMO_PRO_TENANT_ID,
 ].filter(Boolean) as string[];
 
+// Local hours [start, end) during which a tenant can be emailed
+const SEND_WINDOW_START = 8;
+const SEND_WINDOW_END = 12;
+
 export async function GET(request: NextRequest) {
   // Verify cron secret (Vercel sends Authorization header)
   const authHeader = request.headers.get('authorization');
@@ -35,7 +41,7 @@ export async function GET(request: NextRequest) {
     // Query tenants in trial (no subscription, trial_ends_at set, no admin override)
     let query = supabase
       .from('tenants')
-      .select('id, name, trial_ends_at, trial_email_7day_sent_at, trial_email_1day_sent_at, trial_email_expired_sent_at')
+      .select('id, name, time_zone, trial_ends_at, trial_email_7day_sent_at, trial_email_1day_sent_at, trial_email_expired_sent_at')
       .not('trial_ends_at', 'is', null)
       .is('stripe_subscription_id', null)
       .not('subscription_status', 'eq', 'active')
@@ -63,6 +69,10 @@ export async function GET(request: NextRequest) {
 
     for (const tenant of tenants) {
       try {
+        // Only email during the tenant's local morning
+        const localHour = getLocalHour(now, resolveTimeZone(tenant));
+        if (localHour < SEND_WINDOW_START || localHour >= SEND_WINDOW_END) continue;
+
         const trialEnd = new Date(tenant.trial_ends_at!);
         const daysRemaining = Math.ceil((trialEnd.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
 
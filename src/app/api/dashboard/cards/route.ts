@@ -24,11 +24,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
 import { getCachedCatalog, type SunstoneProduct } from '@/lib/shopify';
+import { buildForecast, loadForecastSource } from '@/lib/reorder-forecast';
+import { resolveTimeZone, startOfDayInZone, startOfMonthInZone, toLocalDateString } from '@/lib/timezone';
 import type { DashboardCard } from '@/types';
 
 // Bump this version whenever card generation logic changes. Cached cards with
 // a different version are treated as stale and regenerated on next load.
-const CARD_CACHE_VERSION = 8;
+const CARD_CACHE_VERSION = 9;
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Helpers
@@ -268,7 +270,7 @@ async function generateCards(
   try {
     const { data } = await db
       .from('tenants')
-      .select('created_at, theme_id, square_merchant_id, stripe_account_id, onboarding_completed, waiver_text, waiver_required, onboarding_data')
+      .select('created_at, theme_id, square_merchant_id, stripe_account_id, onboarding_completed, waiver_text, waiver_required, onboarding_data, time_zone')
       .eq('id', tenantId)
       .single();
     tenant = data;
@@ -281,9 +283,12 @@ async function generateCards(
     ? Math.floor((now.getTime() - tenantCreatedAt.getTime()) / (1000 * 60 * 60 * 24))
     : 999; // If unknown, treat as established
 
-  // Date boundaries
-  const thisMonthStart = new Date(now.getFullYear(), now.getMonth(), 1);
-  const lastMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+  // Date boundaries — calendar days and months are the tenant's local ones
+  const timeZone = resolveTimeZone(tenant);
+  const todayStart = startOfDayInZone(now, timeZone);
+  const thisMonthStart = startOfMonthInZone(now, timeZone);
+  const nextMonthStart = startOfMonthInZone(now, timeZone, 1);
+  const lastMonthStart = startOfMonthInZone(now, timeZone, -1);
   const lastMonthEnd = thisMonthStart;
   const sixtyDaysAgo = new Date(now.getTime() - 60 * 24 * 60 * 60 * 1000);
   const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
@@ -333,17 +338,14 @@ async function generateCards(
       totalWarrantyCount,
       partyBookingsCount,
     ] = await Promise.all([
-      // Next event — use start of today (UTC) so events happening today aren't missed
-      (() => {
-        const todayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
-        return db
-          .from('events')
-          .select('id, name, location, start_time, booth_fee')
-          .eq('tenant_id', tenantId)
-          .gte('start_time', todayStart.toISOString())
-          .order('start_time', { ascending: true })
-          .limit(1);
-      })(),
+      // Next event — use start of the local day so events happening today aren't missed
+      db
+        .from('events')
+        .select('id, name, location, start_time, booth_fee')
+        .eq('tenant_id', tenantId)
+        .gte('start_time', todayStart.toISOString())
+        .order('start_time', { ascending: true })
+        .limit(1),
 
       // This month sales
       db
@@ -364,7 +366,7 @@ async function generateCards(
 
       // Daily sales for bar chart (last 12 days)
       (() => {
-        const twelveAgo = new Date(now.getTime() - 12 * 24 * 60 * 60 * 1000);
+        const twelveAgo = startOfDayInZone(now, timeZone, -11);
         return db
           .from('sales')
           .select('subtotal, created_at')
@@ -379,7 +381,7 @@ async function generateCards(
         .select('id', { count: 'exact', head: true })
         .eq('tenant_id', tenantId)
         .gte('start_time', thisMonthStart.toISOString())
-        .lt('start_time', new Date(now.getFullYear(), now.getMonth() + 1, 1).toISOString()),
+        .lt('start_time', nextMonthStart.toISOString()),
 
       // Inventory items (all active)
       db
@@ -486,6 +488,37 @@ async function generateCards(
     // Continue with defaults — revenue $0 card will still be generated below
   }
 
+  // Kits (event kits, travel cases, staff kits) at or below their par level
+  let kitShortfalls: { name: string; location: string; stock: number; par: number }[] = [];
+  try {
+    const { data } = await db
+      .from('inventory_stock_levels')
+      .select('quantity, par_level, location:stock_locations(name, is_active), item:inventory_items(name, is_active), variant:inventory_item_variants(name)')
+      .eq('tenant_id', tenantId)
+      .gt('par_level', 0);
+    kitShortfalls = (data || [])
+      .filter((l: any) => l.location?.is_active && l.item?.is_active && Number(l.quantity) <= Number(l.par_level))
+      .map((l: any) => ({
+        name: l.variant ? `${l.item.name} — ${l.variant.name}` : l.item.name,
+        location: l.location.name,
+        stock: Number(l.quantity),
+        par: Number(l.par_level),
+      }));
+  } catch (err) {
+    console.error('Dashboard cards: kit stock query failed:', err);
+  }
+
+  // Chain, jump rings and connectors projected to run out in the next two weeks
+  let runningOut: { name: string; days: number; date: string | null }[] = [];
+  try {
+    const source = await loadForecastSource(db, tenantId, { horizonDays: 14 });
+    runningOut = buildForecast(source, 14)
+      .filter((f) => f.days_to_stockout !== null && f.days_to_stockout <= 14 && f.quantity_on_hand > 0)
+      .map((f) => ({ name: f.name, days: f.days_to_stockout!, date: f.stockout_date }));
+  } catch (err) {
+    console.error('Dashboard cards: reorder forecast failed:', err);
+  }
+
   // ── Getting Started Checklist ──────────────────────────────────────────────
   const onboardingData = (tenant?.onboarding_data as Record<string, any>) || {};
   const isDismissed = onboardingData.getting_started_dismissed === true;
@@ -577,6 +610,17 @@ async function generateCards(
           icon: '\u26A0\uFE0F',
         });
       }
+      if (kitShortfalls.length > 0) {
+        const kits = new Set(kitShortfalls.map((k) => k.location));
+        priorityItems.push({
+          type: 'kit_restock',
+          label: kits.size === 1
+            ? `${[...kits][0]} needs restocking`
+            : `${kits.size} kits need restocking`,
+          link: '/dashboard/inventory/locations',
+          icon: '\u{1F9F3}',
+        });
+      }
 
       // 3. Unread messages
       const unreadClients = unreadClientsResult.data || [];
@@ -766,6 +810,7 @@ async function generateCards(
       clientCountResult.count || 0,
       staleClientsResult.data || [],
       tenantAgeDays,
+      timeZone,
       catalogSummary,
     );
     if (sunnyInsight) {
@@ -798,8 +843,8 @@ async function generateCards(
     // Build 12-day bar chart data
     const dailyTotals: number[] = [];
     for (let i = 11; i >= 0; i--) {
-      const dayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate() - i);
-      const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+      const dayStart = startOfDayInZone(now, timeZone, -i);
+      const dayEnd = startOfDayInZone(now, timeZone, -i + 1);
       const dayTotal = dailySalesRaw
         .filter((s: any) => {
           const d = new Date(s.created_at);
@@ -843,30 +888,50 @@ async function generateCards(
   // ── Inventory Alert ─────────────────────────────────────────────────────
   try {
     const allStock = lowStockResult.data || [];
-    const lowItems = allStock
-      .filter((i: any) => i.quantity_on_hand <= i.reorder_threshold)
-      .sort((a: any, b: any) => {
-        const ra = a.reorder_threshold > 0 ? a.quantity_on_hand / a.reorder_threshold : 0;
-        const rb = b.reorder_threshold > 0 ? b.quantity_on_hand / b.reorder_threshold : 0;
+    // Total stock below the reorder point, then kits below par
+    const lowItems = [
+      ...allStock
+        .filter((i: any) => i.quantity_on_hand <= i.reorder_threshold)
+        .map((i: any) => ({
+          id: i.id,
+          name: i.name,
+          stock: i.quantity_on_hand,
+          threshold: i.reorder_threshold,
+          sunstone_product_id: i.sunstone_product_id || null,
+          location: null as string | null,
+        })),
+      ...kitShortfalls.map((k) => ({
+        id: null,
+        name: k.name,
+        stock: k.stock,
+        threshold: k.par,
+        sunstone_product_id: null,
+        location: k.location,
+      })),
+    ]
+      .sort((a, b) => {
+        const ra = a.threshold > 0 ? a.stock / a.threshold : 0;
+        const rb = b.threshold > 0 ? b.stock / b.threshold : 0;
         return ra - rb;
       })
       .slice(0, 4);
 
-    if (lowItems.length > 0) {
+    // Not yet below the reorder point, but on pace to run out soon
+    const lowNames = new Set(lowItems.map((i) => i.name));
+    const forecast = runningOut.filter((f) => !lowNames.has(f.name)).slice(0, 3);
+
+    if (lowItems.length > 0 || forecast.length > 0) {
       cards.push({
         type: 'inventory_alert',
-        priority: lowItems.some((i: any) => i.quantity_on_hand === 0) ? 2 : 15,
+        priority: lowItems.some((i) => i.stock === 0 && !i.location) ? 2 : 15,
         data: {
-          items: lowItems.map((i: any) => ({
-            id: i.id,
-            name: i.name,
-            stock: i.quantity_on_hand,
-            threshold: i.reorder_threshold,
-            sunstone_product_id: i.sunstone_product_id || null,
+          forecast,
+          items: lowItems.map((i) => ({
+            ...i,
             status:
-              i.quantity_on_hand === 0
+              i.stock === 0
                 ? 'critical'
-                : i.quantity_on_hand <= i.reorder_threshold * 0.5
+                : i.stock <= i.threshold * 0.5
                   ? 'critical'
                   : 'low',
           })),
@@ -1064,6 +1129,7 @@ async function generateSunnyTake(
   clientCount: number,
   staleClients: any[],
   tenantAgeDays: number,
+  timeZone: string,
   catalogSummary?: string | null,
 ): Promise<string | null> {
   const apiKey = process.env.ANTHROPIC_API_KEY;
@@ -1090,12 +1156,12 @@ async function generateSunnyTake(
     : null;
 
   const today = new Date();
-  const thisMonthName = today.toLocaleString('en-US', { month: 'long', year: 'numeric' });
-  const lastMonthDate = new Date(today.getFullYear(), today.getMonth() - 1, 1);
-  const lastMonthName = lastMonthDate.toLocaleString('en-US', { month: 'long', year: 'numeric' });
+  const thisMonthName = today.toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone });
+  const lastMonthDate = startOfMonthInZone(today, timeZone, -1);
+  const lastMonthName = lastMonthDate.toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone });
 
   const businessData = {
-    currentDate: today.toISOString().slice(0, 10),
+    currentDate: toLocalDateString(today, timeZone),
     tenantAgeDays,
     thisMonth: {
       label: thisMonthName,
@@ -2,12 +2,14 @@
 // Gift Card Redeem — POST /api/gift-cards/[id]/redeem
 // src/app/api/gift-cards/[id]/redeem/route.ts
 // ============================================================================
-// Apply gift card balance to a sale. Deducts from remaining_balance,
-// creates a redemption record, and updates the sale.
+// Apply gift card balance to a sale. redeem_gift_card() deducts from
+// remaining_balance, creates the redemption record and updates the sale in
+// one transaction.
 // ============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
+import { isPastExpiry } from '@/lib/gift-cards';
 
 export async function POST(
   request: NextRequest,
@@ -27,8 +29,8 @@ export async function POST(
   if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
   const tenantId = member.tenant_id;
 
-  const body = await request.json();
-  const { saleId, amount } = body;
+  const body = await request.json().catch(() => null);
+  const { saleId, amount } = body || {};
 
   if (!saleId) return NextResponse.json({ error: 'saleId is required' }, { status: 400 });
   if (!amount || amount <= 0) return NextResponse.json({ error: 'Amount must be greater than 0' }, { status: 400 });
@@ -46,63 +48,30 @@ export async function POST(
   if (giftCard.status !== 'active') {
     return NextResponse.json({ error: 'Gift card is not active' }, { status: 400 });
   }
+  if (await isPastExpiry(supabase, tenantId, giftCard)) {
+    return NextResponse.json({ error: 'Gift card has expired' }, { status: 400 });
+  }
   if (Number(giftCard.remaining_balance) < amount) {
     return NextResponse.json({ error: 'Insufficient gift card balance' }, { status: 400 });
   }
 
-  // Verify sale belongs to the same tenant
-  const { data: sale } = await supabase
-    .from('sales')
-    .select('id, tenant_id')
-    .eq('id', saleId)
-    .eq('tenant_id', tenantId)
-    .single();
-
-  if (!sale) return NextResponse.json({ error: 'Sale not found' }, { status: 404 });
-
-  try {
-    const newBalance = Number(giftCard.remaining_balance) - amount;
-    const newStatus = newBalance <= 0 ? 'fully_redeemed' : 'active';
+  // Status, balance and the sale are checked again under the card's row lock
+  const { data: result, error } = await supabase.rpc('redeem_gift_card', {
+    p_tenant_id: tenantId,
+    p_gift_card_id: id,
+    p_sale_id: saleId,
+    p_amount: amount,
+  });
 
-    // Update gift card balance
-    const { error: updateErr } = await supabase
-      .from('gift_cards')
-      .update({
-        remaining_balance: newBalance,
-        status: newStatus,
-      })
-      .eq('id', id);
-    if (updateErr) throw updateErr;
-
-    // Create redemption record
-    const { error: redeemErr } = await supabase
-      .from('gift_card_redemptions')
-      .insert({
-        gift_card_id: id,
-        sale_id: saleId,
-        tenant_id: tenantId,
-        amount,
-        redeemed_by: user.id,
-      });
-    if (redeemErr) throw redeemErr;
-
-    // Update sale with gift card reference
-    const { error: saleErr } = await supabase
-      .from('sales')
-      .update({
-        gift_card_id: id,
-        gift_card_amount_applied: amount,
-      })
-      .eq('id', saleId);
-    if (saleErr) throw saleErr;
-
-    return NextResponse.json({
-      success: true,
-      remaining_balance: newBalance,
-      status: newStatus,
-    });
-  } catch (err: any) {
-    console.error('[GiftCard Redeem] Error:', err);
-    return NextResponse.json({ error: err.message || 'Failed to redeem gift card' }, { status: 500 });
+  if (error) {
+    console.error('[GiftCard Redeem] Error:', error);
+    const status = /not found/i.test(error.message) ? 404 : 400;
+    return NextResponse.json({ error: error.message || 'Failed to redeem gift card' }, { status });
   }
+
+  return NextResponse.json({
+    success: true,
+    remaining_balance: Number(result.remaining_balance),
+    status: result.status,
+  });
 }
@@ -2,14 +2,19 @@
 // Gift Card Detail — GET + PATCH
 // src/app/api/gift-cards/[id]/route.ts
 // ============================================================================
+// Balance changes (cancel, adjust) go through gift_card_post() so every
+// movement lands in the gift card ledger.
+// ============================================================================
 
 export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
-import { createServerSupabase } from '@/lib/supabase/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
 import { formatGiftCardCode } from '@/lib/gift-cards';
 import { logSmsCost, logEmailCost } from '@/lib/cost-tracker';
 import { sendSMS } from '@/lib/twilio';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
 
 // ── GET: Gift card detail with redemption history ─────────────────────────
 
@@ -41,21 +46,29 @@ export async function GET(
     return NextResponse.json({ error: 'Gift card not found' }, { status: 404 });
   }
 
-  // Fetch redemptions
-  const { data: redemptions } = await supabase
-    .from('gift_card_redemptions')
-    .select('*')
-    .eq('gift_card_id', id)
-    .order('redeemed_at', { ascending: false });
+  // Fetch redemptions + ledger
+  const [{ data: redemptions }, { data: ledger }] = await Promise.all([
+    supabase
+      .from('gift_card_redemptions')
+      .select('*')
+      .eq('gift_card_id', id)
+      .order('redeemed_at', { ascending: false }),
+    supabase
+      .from('gift_card_ledger')
+      .select('*')
+      .eq('gift_card_id', id)
+      .order('occurred_at', { ascending: false }),
+  ]);
 
   return NextResponse.json({
     ...giftCard,
     redemptions: redemptions || [],
+    ledger: ledger || [],
     formatted_code: formatGiftCardCode(giftCard.code),
   });
 }
 
-// ── PATCH: Cancel, resend, or update ──────────────────────────────────────
+// ── PATCH: Cancel, adjust, resend, or update ──────────────────────────────
 
 export async function PATCH(
   request: NextRequest,
@@ -68,7 +81,7 @@ export async function PATCH(
 
   const { data: member } = await supabase
     .from('tenant_members')
-    .select('tenant_id')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
     .eq('user_id', user.id)
     .limit(1)
     .single();
@@ -87,19 +100,81 @@ export async function PATCH(
   const body = await request.json();
   const { action } = body;
 
+  if ((action === 'cancel' || action === 'adjust') && !hasPermission(roleGrant(member), 'gift_cards:manage')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
   // ── Cancel ──
   if (action === 'cancel') {
     if (giftCard.status !== 'active') {
       return NextResponse.json({ error: 'Only active gift cards can be cancelled' }, { status: 400 });
     }
 
-    const { data, error } = await supabase
-      .from('gift_cards')
-      .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
-      .eq('id', id)
-      .select()
-      .single();
+    // Write off the remaining balance so the liability report drops it
+    const { error: postError } = await supabase.rpc('gift_card_post', {
+      p_gift_card_id: id,
+      p_entry_type: 'adjust',
+      p_amount: -Number(giftCard.remaining_balance),
+      p_note: 'Card cancelled',
+      p_status: 'cancelled',
+    });
+    if (postError) return NextResponse.json({ error: postError.message }, { status: 500 });
+
+    await recordAudit(await createServiceRoleClient(), {
+      tenantId,
+      actorUserId: user.id,
+      action: 'gift_card.cancel',
+      entityType: 'gift_card',
+      entityId: id,
+      entityLabel: formatGiftCardCode(giftCard.code),
+      before: { status: giftCard.status, remaining_balance: Number(giftCard.remaining_balance) },
+      after: { status: 'cancelled', remaining_balance: 0 },
+    });
+
+    const { data, error } = await supabase.from('gift_cards').select().eq('id', id).single();
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    return NextResponse.json(data);
+  }
+
+  // ── Adjust balance ──
+  if (action === 'adjust') {
+    if (giftCard.status === 'cancelled' || giftCard.status === 'expired') {
+      return NextResponse.json({ error: 'Cancelled or expired cards cannot be adjusted' }, { status: 400 });
+    }
+
+    const amount = Math.round(Number(body.amount) * 100) / 100;
+    const note = typeof body.note === 'string' ? body.note.trim() : '';
+    if (!amount || !Number.isFinite(amount)) {
+      return NextResponse.json({ error: 'Adjustment amount is required' }, { status: 400 });
+    }
+    if (!note) {
+      return NextResponse.json({ error: 'A reason is required for adjustments' }, { status: 400 });
+    }
+    if (Number(giftCard.remaining_balance) + amount < 0) {
+      return NextResponse.json({ error: 'Adjustment would make the balance negative' }, { status: 400 });
+    }
+
+    const { error: postError } = await supabase.rpc('gift_card_post', {
+      p_gift_card_id: id,
+      p_entry_type: 'adjust',
+      p_amount: amount,
+      p_note: note.slice(0, 500),
+    });
+    if (postError) return NextResponse.json({ error: postError.message }, { status: 500 });
+
+    await recordAudit(await createServiceRoleClient(), {
+      tenantId,
+      actorUserId: user.id,
+      action: 'gift_card.adjust',
+      entityType: 'gift_card',
+      entityId: id,
+      entityLabel: formatGiftCardCode(giftCard.code),
+      before: { remaining_balance: Number(giftCard.remaining_balance) },
+      after: { remaining_balance: Math.round((Number(giftCard.remaining_balance) + amount) * 100) / 100 },
+      metadata: { amount, note: note.slice(0, 500) },
+    });
 
+    const { data, error } = await supabase.from('gift_cards').select().eq('id', id).single();
     if (error) return NextResponse.json({ error: error.message }, { status: 500 });
     return NextResponse.json(data);
   }
@@ -0,0 +1,116 @@
+// ============================================================================
+// Gift Card Liability — GET /api/gift-cards/liability
+// src/app/api/gift-cards/liability/route.ts
+// ============================================================================
+// Roll-forward of outstanding gift card balances from the ledger.
+// ?asOf=YYYY-MM-DD closes the period at the end of that local day (default
+// today); ?from=YYYY-MM-DD opens it (default: the beginning, so opening is 0).
+// Breakage is the `expired` column — balances written off at expiry.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { resolveTimeZone, toLocalDateString, zonedTimeToUtc } from '@/lib/timezone';
+import type { GiftCardLiabilityReport, GiftCardLiabilityTotals } from '@/types';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const PAGE_SIZE = 1000;
+
+interface LiabilityRow {
+  gift_card_id: string;
+  opening: number;
+  issued: number;
+  redeemed: number;
+  refunded: number;
+  adjusted: number;
+  expired: number;
+  closing: number;
+}
+
+/** Midnight at the start of a local YYYY-MM-DD, shifted by `dayOffset`. */
+function localMidnight(date: string, timeZone: string, dayOffset = 0): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return zonedTimeToUtc(y, m, d + dayOffset, 0, 0, timeZone);
+}
+
+export async function GET(request: NextRequest) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'reports:view')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+  const tenantId = member.tenant_id;
+
+  const { data: tenant } = await supabase
+    .from('tenants')
+    .select('time_zone')
+    .eq('id', tenantId)
+    .single();
+  const timeZone = resolveTimeZone(tenant);
+
+  const { searchParams } = request.nextUrl;
+  const asOf = searchParams.get('asOf') || toLocalDateString(new Date(), timeZone);
+  const from = searchParams.get('from');
+  if (!DATE_RE.test(asOf) || (from && !DATE_RE.test(from))) {
+    return NextResponse.json({ error: 'Dates must be YYYY-MM-DD' }, { status: 400 });
+  }
+  if (from && from > asOf) {
+    return NextResponse.json({ error: 'from must be on or before asOf' }, { status: 400 });
+  }
+
+  const periodEnd = localMidnight(asOf, timeZone, 1);
+  // No `from` = since the beginning of the ledger
+  const periodStart = from ? localMidnight(from, timeZone) : new Date(0);
+
+  const rows: LiabilityRow[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('gift_card_liability', {
+        p_tenant_id: tenantId,
+        p_from: periodStart.toISOString(),
+        p_to: periodEnd.toISOString(),
+      })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+    rows.push(...((data || []) as LiabilityRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const totals: GiftCardLiabilityTotals = { opening: 0, issued: 0, redeemed: 0, refunded: 0, adjusted: 0, expired: 0, closing: 0 };
+  for (const row of rows) {
+    for (const key of Object.keys(totals) as (keyof GiftCardLiabilityTotals)[]) {
+      totals[key] += Number(row[key]) || 0;
+    }
+  }
+  for (const key of Object.keys(totals) as (keyof GiftCardLiabilityTotals)[]) {
+    totals[key] = Math.round(totals[key] * 100) / 100;
+  }
+
+  // Card details for everything still carrying a balance
+  const balances = new Map(rows.filter((r) => Number(r.closing) > 0).map((r) => [r.gift_card_id, Number(r.closing)]));
+  const outstanding: GiftCardLiabilityReport['outstanding'] = [];
+  const ids = [...balances.keys()];
+  for (let i = 0; i < ids.length; i += 200) {
+    const { data: cards } = await supabase
+      .from('gift_cards')
+      .select('id, code, recipient_name, purchased_at, expires_at')
+      .in('id', ids.slice(i, i + 200));
+    for (const card of cards || []) {
+      outstanding.push({ ...card, balance: balances.get(card.id) || 0 });
+    }
+  }
+  outstanding.sort((a, b) => a.purchased_at.localeCompare(b.purchased_at));
+
+  const report: GiftCardLiabilityReport = { from, asOf, totals, outstanding };
+  return NextResponse.json(report);
+}
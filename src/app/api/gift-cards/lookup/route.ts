@@ -8,13 +8,20 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
-import { normalizeGiftCardCode, formatGiftCardCode } from '@/lib/gift-cards';
+import { normalizeGiftCardCode, formatGiftCardCode, isPastExpiry } from '@/lib/gift-cards';
+import { checkRateLimit, rateLimitResponse } from '@/lib/rate-limit';
+
+// Plenty for a busy POS; stops a session from enumerating codes
+const RATE_LIMIT = { prefix: 'gift-card-lookup', limit: 30, windowSeconds: 60 };
 
 export async function POST(request: NextRequest) {
   const supabase = await createServerSupabase();
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
+  const rl = await checkRateLimit(user.id, RATE_LIMIT);
+  if (!rl.allowed) return rateLimitResponse(rl, { error: 'Too many lookups. Please wait a moment.' });
+
   const { data: member } = await supabase
     .from('tenant_members')
     .select('tenant_id')
@@ -51,7 +58,7 @@ export async function POST(request: NextRequest) {
   if (giftCard.status === 'fully_redeemed') {
     return NextResponse.json({ error: 'This gift card has been fully redeemed' }, { status: 400 });
   }
-  if (giftCard.status === 'expired' || (giftCard.expires_at && new Date(giftCard.expires_at) < new Date())) {
+  if (giftCard.status === 'expired' || (await isPastExpiry(supabase, tenantId, giftCard))) {
     return NextResponse.json({ error: 'This gift card has expired' }, { status: 400 });
   }
   if (Number(giftCard.remaining_balance) <= 0) {
@@ -0,0 +1,51 @@
+// ============================================================================
+// Gift Card Policy — PUT /api/gift-cards/policy
+// src/app/api/gift-cards/policy/route.ts
+// ============================================================================
+// Saves the tenant's expiration policy after checking it against the
+// jurisdiction's rules. Applies to cards issued from now on; existing cards
+// keep the expiry they were sold with.
+//
+// Body: { expiryMonths: number | null, jurisdiction: string | null }
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { validateExpiryPolicy } from '@/lib/gift-cards';
+
+export async function PUT(request: NextRequest) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'settings:manage')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const body = await request.json();
+  const expiryMonths = body.expiryMonths === null || body.expiryMonths === '' || body.expiryMonths === undefined
+    ? null
+    : Number(body.expiryMonths);
+  const jurisdiction = typeof body.jurisdiction === 'string' && /^[A-Za-z]{2}$/.test(body.jurisdiction.trim())
+    ? body.jurisdiction.trim().toUpperCase()
+    : null;
+
+  const policyError = validateExpiryPolicy(expiryMonths, jurisdiction);
+  if (policyError) return NextResponse.json({ error: policyError }, { status: 400 });
+
+  const { error } = await supabase
+    .from('tenants')
+    .update({ gift_card_expiry_months: expiryMonths, gift_card_jurisdiction: jurisdiction })
+    .eq('id', member.tenant_id);
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  return NextResponse.json({ expiryMonths, jurisdiction });
+}
@@ -7,9 +7,9 @@ export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
-import { generateGiftCardCode, formatGiftCardCode } from '@/lib/gift-cards';
+import { generateGiftCardCode, formatGiftCardCode, computeGiftCardExpiry } from '@/lib/gift-cards';
 import { logSmsCost, logEmailCost } from '@/lib/cost-tracker';
-import { checkRateLimit } from '@/lib/rate-limit';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
 import { sendSMS } from '@/lib/twilio';
 
 const RATE_LIMIT = { prefix: 'gift-card', limit: 20, windowSeconds: 60 };
@@ -21,8 +21,8 @@ export async function POST(request: NextRequest) {
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
-  const rl = checkRateLimit(user.id, RATE_LIMIT);
-  if (!rl.allowed) return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+  const rl = await checkRateLimit(user.id, RATE_LIMIT);
+  if (!rl.allowed) return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: rateLimitHeaders(rl) });
 
   const { data: member } = await supabase
     .from('tenant_members')
@@ -65,6 +65,15 @@ export async function POST(request: NextRequest) {
   try {
     const code = await generateGiftCardCode(supabase, tenantId);
 
+    // Tenant name for delivery messages + expiration policy
+    const { data: tenant } = await supabase
+      .from('tenants')
+      .select('name, gift_card_expiry_months, gift_card_jurisdiction')
+      .eq('id', tenantId)
+      .single();
+    const businessName = tenant?.name || 'Your artist';
+    const purchasedAt = new Date();
+
     const { data: giftCard, error } = await supabase
       .from('gift_cards')
       .insert({
@@ -81,22 +90,19 @@ export async function POST(request: NextRequest) {
         delivery_method: deliveryMethod,
         payment_method: paymentMethod || null,
         sale_id: saleId || null,
-        purchased_at: new Date().toISOString(),
+        purchased_at: purchasedAt.toISOString(),
+        expires_at: tenant ? computeGiftCardExpiry(purchasedAt, tenant) : null,
       })
       .select()
       .single();
 
     if (error) throw error;
 
-    // Fetch tenant name for delivery messages
-    const { data: tenant } = await supabase
-      .from('tenants')
-      .select('name')
-      .eq('id', tenantId)
-      .single();
-    const businessName = tenant?.name || 'Your artist';
-
     const formatted = formatGiftCardCode(code);
+    // Federal law requires the expiration date to be disclosed
+    const validThrough = giftCard.expires_at
+      ? `Valid through ${new Date(giftCard.expires_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}.`
+      : '';
 
     // Deliver via SMS
     if (deliveryMethod === 'sms' && recipientPhone?.trim()) {
@@ -108,6 +114,7 @@ export async function POST(request: NextRequest) {
         ];
         if (personalMessage?.trim()) msgParts.push(`"${personalMessage.trim()}"`);
         msgParts.push('Show this code at your next visit to redeem.');
+        if (validThrough) msgParts.push(validThrough);
 
         await sendSMS({ to: recipientPhone.trim(), body: msgParts.join(' '), tenantId });
 
@@ -147,6 +154,7 @@ export async function POST(request: NextRequest) {
   </div>
   ${messageHtml}
   <p style="text-align: center; color: #6b7280; font-size: 14px;">Show this code at your next visit to ${businessName} to redeem.</p>
+  ${validThrough ? `<p style="text-align: center; color: #9ca3af; font-size: 12px;">${validThrough}</p>` : ''}
 </body></html>`;
 
         const { error: emailError } = await resend.emails.send({
@@ -0,0 +1,56 @@
+// ============================================================================
+// Finalize Stock Count — POST /api/inventory/counts/[id]/finalize
+// src/app/api/inventory/counts/[id]/finalize/route.ts
+// ============================================================================
+// Posts every counted line's variance as an inventory movement and adjusts
+// stock, via finalize_stock_count(). Lines with a variance need a reason;
+// uncounted lines are left untouched.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'inventory:edit')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { data: missingReason } = await supabase
+    .from('stock_count_lines')
+    .select('id, expected_quantity, counted_quantity')
+    .eq('stock_count_id', id)
+    .eq('tenant_id', member.tenant_id)
+    .not('counted_quantity', 'is', null)
+    .is('reason', null);
+  const unexplained = (missingReason || []).filter((l) => Number(l.counted_quantity) !== Number(l.expected_quantity));
+  if (unexplained.length > 0) {
+    return NextResponse.json(
+      { error: `${unexplained.length} line${unexplained.length !== 1 ? 's have' : ' has'} a variance without a reason`, lineIds: unexplained.map((l) => l.id) },
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await supabase.rpc('finalize_stock_count', { p_count_id: id });
+  if (error) {
+    console.error('[Stock Count] Finalize error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to finalize count' }, { status: 400 });
+  }
+
+  return NextResponse.json({ success: true, ...(data as { adjusted: number; variance_value: number }) });
+}
@@ -0,0 +1,172 @@
+// ============================================================================
+// Stock Count — GET/PATCH /api/inventory/counts/[id]
+// src/app/api/inventory/counts/[id]/route.ts
+// ============================================================================
+// GET: The count with every line (item/variant names joined).
+// PATCH: Body is one of
+//   { lines: [{ id, counted_quantity, reason?, notes? }] } — record counts.
+//       Anyone who can see inventory can count. Each newly counted line
+//       re-reads expected from current stock so mid-count sales aren't
+//       mistaken for shrinkage.
+//   { action: 'cancel' } — discard an in-progress count (inventory:edit).
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { selectAll } from '@/lib/supabase/select-all';
+import { STOCK_COUNT_REASONS } from '@/lib/stock-counts';
+import type { StockCountLine } from '@/types';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: count } = await supabase
+    .from('stock_counts')
+    .select('*')
+    .eq('id', id)
+    .single();
+  if (!count) return NextResponse.json({ error: 'Stock count not found' }, { status: 404 });
+
+  const lines = await selectAll<StockCountLine>((from, to) =>
+    supabase
+      .from('stock_count_lines')
+      .select('*, item:inventory_items(name, type, unit, material), variant:inventory_item_variants(name)')
+      .eq('stock_count_id', id)
+      .order('id')
+      .range(from, to) as unknown as PromiseLike<{ data: StockCountLine[] | null; error: { message: string } | null }>
+  );
+
+  lines.sort((a, b) =>
+    (a.item?.type || '').localeCompare(b.item?.type || '') ||
+    (a.item?.name || '').localeCompare(b.item?.name || '') ||
+    (a.variant?.name || '').localeCompare(b.variant?.name || '')
+  );
+
+  return NextResponse.json({ count, lines });
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  const grant = roleGrant(member);
+
+  const { data: count } = await supabase
+    .from('stock_counts')
+    .select('id, status')
+    .eq('id', id)
+    .eq('tenant_id', member.tenant_id)
+    .single();
+  if (!count) return NextResponse.json({ error: 'Stock count not found' }, { status: 404 });
+  if (count.status !== 'in_progress') {
+    return NextResponse.json({ error: `This count is ${count.status}` }, { status: 409 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+
+  if (body.action === 'cancel') {
+    if (!hasPermission(grant, 'inventory:edit')) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+    }
+    const { error } = await supabase
+      .from('stock_counts')
+      .update({ status: 'cancelled', updated_at: new Date().toISOString() })
+      .eq('id', id);
+    if (error) return NextResponse.json({ error: 'Failed to cancel count' }, { status: 500 });
+    return NextResponse.json({ success: true });
+  }
+
+  if (!hasPermission(grant, 'inventory:view')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const updates = Array.isArray(body.lines) ? body.lines as { id: string; counted_quantity: number | null; reason?: string | null; notes?: string | null }[] : [];
+  if (updates.length === 0 || updates.length > 200) {
+    return NextResponse.json({ error: 'Send 1–200 lines at a time' }, { status: 400 });
+  }
+  for (const u of updates) {
+    if (u.counted_quantity !== null && (typeof u.counted_quantity !== 'number' || !Number.isFinite(u.counted_quantity) || u.counted_quantity < 0)) {
+      return NextResponse.json({ error: 'Counted quantity must be zero or more' }, { status: 400 });
+    }
+    if (u.reason && !STOCK_COUNT_REASONS.some((r) => r.value === u.reason)) {
+      return NextResponse.json({ error: 'Invalid reason' }, { status: 400 });
+    }
+  }
+
+  const { data: existing } = await supabase
+    .from('stock_count_lines')
+    .select('id, inventory_item_id, inventory_variant_id, counted_quantity')
+    .eq('stock_count_id', id)
+    .in('id', updates.map((u) => u.id));
+  const existingById = new Map((existing || []).map((l) => [l.id, l]));
+
+  // Current stock for lines being counted for the first time
+  const firstCounts = updates.filter((u) => u.counted_quantity !== null && existingById.get(u.id)?.counted_quantity === null);
+  const itemIds = new Set<string>();
+  const variantIds = new Set<string>();
+  for (const u of firstCounts) {
+    const line = existingById.get(u.id)!;
+    if (line.inventory_variant_id) variantIds.add(line.inventory_variant_id);
+    else itemIds.add(line.inventory_item_id);
+  }
+  const [{ data: items }, { data: variants }] = await Promise.all([
+    itemIds.size
+      ? supabase.from('inventory_items').select('id, quantity_on_hand').in('id', [...itemIds])
+      : Promise.resolve({ data: [] as { id: string; quantity_on_hand: number }[] }),
+    variantIds.size
+      ? supabase.from('inventory_item_variants').select('id, quantity_on_hand').in('id', [...variantIds])
+      : Promise.resolve({ data: [] as { id: string; quantity_on_hand: number }[] }),
+  ]);
+  const currentQty = new Map<string, number>([...(items || []), ...(variants || [])].map((r) => [r.id, Number(r.quantity_on_hand) || 0]));
+
+  const now = new Date().toISOString();
+  const saved: StockCountLine[] = [];
+  for (const u of updates) {
+    const line = existingById.get(u.id);
+    if (!line) continue;
+
+    const patch: Record<string, unknown> = {
+      counted_quantity: u.counted_quantity,
+      reason: u.reason || null,
+      notes: u.notes?.trim() || null,
+      counted_by: u.counted_quantity === null ? null : user.id,
+      counted_at: u.counted_quantity === null ? null : now,
+    };
+    if (line.counted_quantity === null && u.counted_quantity !== null) {
+      const current = currentQty.get(line.inventory_variant_id || line.inventory_item_id);
+      if (current !== undefined) patch.expected_quantity = current;
+    }
+
+    const { data, error } = await supabase
+      .from('stock_count_lines')
+      .update(patch)
+      .eq('id', u.id)
+      .select()
+      .single();
+    if (error) return NextResponse.json({ error: 'Failed to save count' }, { status: 500 });
+    saved.push(data);
+  }
+
+  await supabase.from('stock_counts').update({ updated_at: now }).eq('id', id);
+
+  return NextResponse.json({ lines: saved });
+}
@@ -0,0 +1,182 @@
+// ============================================================================
+// Stock Counts — GET/POST /api/inventory/counts
+// src/app/api/inventory/counts/route.ts
+// ============================================================================
+// GET: Count history (newest first) with counted/total lines and the
+//      variance value so far.
+// POST: Start a count. Body: { name?, scope?: 'all' | InventoryType }
+//       Snapshots every active item in scope — one line per active variant
+//       for items with variants. Only one count can be in progress.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { selectAll } from '@/lib/supabase/select-all';
+import { lineVarianceValue } from '@/lib/stock-counts';
+import type { InventoryType, StockCountSummary } from '@/types';
+
+const SCOPES: ('all' | InventoryType)[] = ['all', 'chain', 'jump_ring', 'charm', 'connector', 'clasp', 'other'];
+
+async function getMember() {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { supabase, user: null, member: null };
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  return { supabase, user, member };
+}
+
+export async function GET() {
+  const { supabase, user, member } = await getMember();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'inventory:view')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { data: counts, error } = await supabase
+    .from('stock_counts')
+    .select('*')
+    .eq('tenant_id', member.tenant_id)
+    .order('started_at', { ascending: false })
+    .limit(50);
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  const ids = (counts || []).map((c) => c.id);
+  const lines = ids.length
+    ? await selectAll<{ stock_count_id: string; expected_quantity: number; counted_quantity: number | null; unit_cost: number }>((from, to) =>
+        supabase
+          .from('stock_count_lines')
+          .select('stock_count_id, expected_quantity, counted_quantity, unit_cost')
+          .in('stock_count_id', ids)
+          .order('id')
+          .range(from, to)
+      )
+    : [];
+
+  const rollup = new Map<string, { line_count: number; counted_count: number; variance_value: number }>();
+  for (const line of lines) {
+    const r = rollup.get(line.stock_count_id) || { line_count: 0, counted_count: 0, variance_value: 0 };
+    r.line_count++;
+    if (line.counted_quantity !== null) r.counted_count++;
+    r.variance_value = Math.round((r.variance_value + lineVarianceValue(line)) * 100) / 100;
+    rollup.set(line.stock_count_id, r);
+  }
+
+  const summaries: StockCountSummary[] = (counts || []).map((c) => ({
+    ...c,
+    ...(rollup.get(c.id) || { line_count: 0, counted_count: 0, variance_value: 0 }),
+  }));
+  return NextResponse.json(summaries);
+}
+
+export async function POST(request: NextRequest) {
+  const { supabase, user, member } = await getMember();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'inventory:edit')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+  const tenantId = member.tenant_id;
+
+  const body = await request.json().catch(() => ({}));
+  const scope = (body.scope || 'all') as 'all' | InventoryType;
+  if (!SCOPES.includes(scope)) {
+    return NextResponse.json({ error: 'Invalid scope' }, { status: 400 });
+  }
+
+  const { data: open } = await supabase
+    .from('stock_counts')
+    .select('id, name')
+    .eq('tenant_id', tenantId)
+    .eq('status', 'in_progress')
+    .limit(1)
+    .maybeSingle();
+  if (open) {
+    return NextResponse.json(
+      { error: `"${open.name}" is still in progress. Finalize or cancel it first.`, countId: open.id },
+      { status: 409 }
+    );
+  }
+
+  // Lines snapshot the unit cost for the variance value, and cost_per_unit
+  // isn't selectable with the member's client
+  const serviceClient = await createServiceRoleClient();
+  const items = await selectAll<{ id: string; quantity_on_hand: number; cost_per_unit: number; has_variants: boolean }>((from, to) => {
+    let query = serviceClient
+      .from('inventory_items')
+      .select('id, quantity_on_hand, cost_per_unit, has_variants')
+      .eq('tenant_id', tenantId)
+      .eq('is_active', true);
+    if (scope !== 'all') query = query.eq('type', scope);
+    return query.order('id').range(from, to);
+  });
+  if (items.length === 0) {
+    return NextResponse.json({ error: 'No active inventory to count' }, { status: 400 });
+  }
+
+  const variantParents = items.filter((i) => i.has_variants).map((i) => i.id);
+  const variants: { id: string; inventory_item_id: string; quantity_on_hand: number; cost_per_unit: number }[] = [];
+  for (let i = 0; i < variantParents.length; i += 200) {
+    const chunk = variantParents.slice(i, i + 200);
+    variants.push(...await selectAll<typeof variants[number]>((from, to) =>
+      serviceClient
+        .from('inventory_item_variants')
+        .select('id, inventory_item_id, quantity_on_hand, cost_per_unit')
+        .in('inventory_item_id', chunk)
+        .eq('is_active', true)
+        .order('id')
+        .range(from, to)
+    ));
+  }
+
+  const defaultName = `Stock count ${new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  const { data: count, error: countError } = await supabase
+    .from('stock_counts')
+    .insert({
+      tenant_id: tenantId,
+      name: String(body.name || '').trim() || defaultName,
+      scope,
+      notes: body.notes || null,
+      started_by: user.id,
+    })
+    .select()
+    .single();
+  if (countError || !count) {
+    return NextResponse.json({ error: 'Failed to start count' }, { status: 500 });
+  }
+
+  const variantItemIds = new Set(variants.map((v) => v.inventory_item_id));
+  const lines = [
+    // Items with variants but no active variants fall back to a parent line
+    ...items.filter((i) => !variantItemIds.has(i.id)).map((i) => ({
+      inventory_item_id: i.id,
+      inventory_variant_id: null as string | null,
+      expected_quantity: Number(i.quantity_on_hand) || 0,
+      unit_cost: Number(i.cost_per_unit) || 0,
+    })),
+    ...variants.map((v) => ({
+      inventory_item_id: v.inventory_item_id,
+      inventory_variant_id: v.id as string | null,
+      expected_quantity: Number(v.quantity_on_hand) || 0,
+      unit_cost: Number(v.cost_per_unit) || 0,
+    })),
+  ].map((l) => ({ ...l, tenant_id: tenantId, stock_count_id: count.id }));
+
+  for (let i = 0; i < lines.length; i += 500) {
+    const { error } = await supabase.from('stock_count_lines').insert(lines.slice(i, i + 500));
+    if (error) {
+      console.error('[Stock Count] Line seed error:', error);
+      await supabase.from('stock_counts').update({ status: 'cancelled' }).eq('id', count.id);
+      return NextResponse.json({ error: 'Failed to start count' }, { status: 500 });
+    }
+  }
+
+  return NextResponse.json({ ...count, line_count: lines.length, counted_count: 0, variance_value: 0 }, { status: 201 });
+}
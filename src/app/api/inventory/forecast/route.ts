@@ -0,0 +1,49 @@
+// ============================================================================
+// Reorder Forecast — GET /api/inventory/forecast
+// src/app/api/inventory/forecast/route.ts
+// ============================================================================
+// Days-to-stockout and suggested reorders for chain, jump rings and
+// connectors. Query: ?horizon=30 (days to cover, 7–120), ?window=90 (days of
+// history, 14–365). Suggestions linked to the Sunstone catalog include a
+// ready-to-add cart line.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { DEFAULT_HORIZON_DAYS, DEFAULT_WINDOW_DAYS, getReorderForecast } from '@/lib/reorder-forecast';
+
+function clampDays(value: string | null, fallback: number, min: number, max: number): number {
+  const n = Number(value);
+  if (!value || !Number.isFinite(n)) return fallback;
+  return Math.min(Math.max(Math.round(n), min), max);
+}
+
+export async function GET(request: NextRequest) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'inventory:view')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const horizonDays = clampDays(searchParams.get('horizon'), DEFAULT_HORIZON_DAYS, 7, 120);
+  const windowDays = clampDays(searchParams.get('window'), DEFAULT_WINDOW_DAYS, 14, 365);
+
+  try {
+    const result = await getReorderForecast(supabase, member.tenant_id, { horizonDays, windowDays });
+    return NextResponse.json(result);
+  } catch (err: any) {
+    console.error('[Reorder Forecast] Error:', err);
+    return NextResponse.json({ error: 'Failed to build forecast' }, { status: 500 });
+  }
+}
@@ -0,0 +1,156 @@
+// ============================================================================
+// Stock Location — PATCH/DELETE /api/inventory/locations/[id]
+// src/app/api/inventory/locations/[id]/route.ts
+// ============================================================================
+// PATCH: { name?, kind?, assigned_to?, sort_order? } and/or
+//        { par_levels: [{ item_id, variant_id?, par_level }] } for a kit.
+// DELETE: Transfers anything left back to the default location, then
+//         removes the location. The default location can't be deleted.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { getStockLocations, STOCK_LOCATION_KINDS } from '@/lib/stock-locations';
+
+async function getContext(id: string) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return { error: NextResponse.json({ error: 'No tenant membership' }, { status: 403 }) };
+  if (!hasPermission(roleGrant(member), 'inventory:edit')) {
+    return { error: NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 }) };
+  }
+
+  const { data: location } = await supabase
+    .from('stock_locations')
+    .select('*')
+    .eq('id', id)
+    .eq('tenant_id', member.tenant_id)
+    .single();
+  if (!location) return { error: NextResponse.json({ error: 'Location not found' }, { status: 404 }) };
+
+  return { supabase, tenantId: member.tenant_id as string, location };
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const ctx = await getContext(id);
+  if (ctx.error) return ctx.error;
+  const { supabase, tenantId, location } = ctx;
+
+  const body = await request.json().catch(() => ({}));
+
+  const updates: Record<string, unknown> = {};
+  if (body.name !== undefined) {
+    const name = String(body.name).trim();
+    if (!name) return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+    updates.name = name;
+  }
+  if (body.kind !== undefined) {
+    if (!STOCK_LOCATION_KINDS.some((k) => k.value === body.kind)) {
+      return NextResponse.json({ error: 'Invalid location type' }, { status: 400 });
+    }
+    updates.kind = body.kind;
+  }
+  if (body.assigned_to !== undefined) updates.assigned_to = body.assigned_to || null;
+  if (body.sort_order !== undefined) updates.sort_order = Number(body.sort_order) || 0;
+
+  if (Object.keys(updates).length > 0) {
+    const { error } = await supabase
+      .from('stock_locations')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id);
+    if (error) return NextResponse.json({ error: 'Failed to update location' }, { status: 500 });
+  }
+
+  if (Array.isArray(body.par_levels)) {
+    if (location.is_default) {
+      return NextResponse.json({ error: 'Par levels are for kits; the studio uses reorder thresholds' }, { status: 400 });
+    }
+    for (const p of body.par_levels as { item_id: string; variant_id?: string | null; par_level: number | null }[]) {
+      const par = p.par_level === null || p.par_level === undefined ? null : Number(p.par_level);
+      if (par !== null && (!Number.isFinite(par) || par < 0)) {
+        return NextResponse.json({ error: 'Par level must be zero or more' }, { status: 400 });
+      }
+
+      let query = supabase
+        .from('inventory_stock_levels')
+        .select('id')
+        .eq('location_id', id)
+        .eq('inventory_item_id', p.item_id);
+      query = p.variant_id ? query.eq('inventory_variant_id', p.variant_id) : query.is('inventory_variant_id', null);
+      const { data: existing } = await query.maybeSingle();
+
+      const { error } = existing
+        ? await supabase
+            .from('inventory_stock_levels')
+            .update({ par_level: par, updated_at: new Date().toISOString() })
+            .eq('id', existing.id)
+        : await supabase.from('inventory_stock_levels').insert({
+            tenant_id: tenantId,
+            location_id: id,
+            inventory_item_id: p.item_id,
+            inventory_variant_id: p.variant_id || null,
+            quantity: 0,
+            par_level: par,
+          });
+      if (error) return NextResponse.json({ error: 'Failed to save par levels' }, { status: 500 });
+    }
+  }
+
+  const { data } = await supabase.from('stock_locations').select('*').eq('id', id).single();
+  return NextResponse.json(data);
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const ctx = await getContext(id);
+  if (ctx.error) return ctx.error;
+  const { supabase, tenantId, location } = ctx;
+
+  if (location.is_default) {
+    return NextResponse.json({ error: 'The default location can’t be deleted' }, { status: 400 });
+  }
+
+  const { data: levels } = await supabase
+    .from('inventory_stock_levels')
+    .select('inventory_item_id, inventory_variant_id, quantity')
+    .eq('location_id', id)
+    .gt('quantity', 0);
+
+  if (levels && levels.length > 0) {
+    const studio = (await getStockLocations(supabase, tenantId)).find((l) => l.is_default);
+    if (!studio) return NextResponse.json({ error: 'No default location to return stock to' }, { status: 500 });
+
+    const { error } = await supabase.rpc('transfer_stock', {
+      p_tenant_id: tenantId,
+      p_from_location_id: id,
+      p_to_location_id: studio.id,
+      p_lines: levels.map((l) => ({ item_id: l.inventory_item_id, variant_id: l.inventory_variant_id, quantity: Number(l.quantity) })),
+      p_notes: `${location.name} removed`,
+    });
+    if (error) {
+      console.error('[Stock Locations] Return-to-studio error:', error);
+      return NextResponse.json({ error: 'Failed to return stock to the studio' }, { status: 500 });
+    }
+  }
+
+  const { error } = await supabase.from('stock_locations').delete().eq('id', id);
+  if (error) return NextResponse.json({ error: 'Failed to delete location' }, { status: 500 });
+
+  return NextResponse.json({ success: true, returned: levels?.length || 0 });
+}
@@ -0,0 +1,83 @@
+// ============================================================================
+// Stock Locations — GET/POST /api/inventory/locations
+// src/app/api/inventory/locations/route.ts
+// ============================================================================
+// GET: Active locations (default first) and every kit stock level.
+// POST: Add a location. Body: { name, kind, assigned_to? }
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { getStockLevels, getStockLocations, STOCK_LOCATION_KINDS } from '@/lib/stock-locations';
+
+export async function GET() {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'inventory:view')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    const [locations, levels] = await Promise.all([
+      getStockLocations(supabase, member.tenant_id),
+      getStockLevels(supabase, member.tenant_id),
+    ]);
+    return NextResponse.json({ locations, levels });
+  } catch (err: any) {
+    console.error('[Stock Locations] Load error:', err);
+    return NextResponse.json({ error: 'Failed to load locations' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'inventory:edit')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const name = String(body.name || '').trim();
+  if (!name) return NextResponse.json({ error: 'Name is required' }, { status: 400 });
+  const kind = body.kind || 'event_kit';
+  if (!STOCK_LOCATION_KINDS.some((k) => k.value === kind)) {
+    return NextResponse.json({ error: 'Invalid location type' }, { status: 400 });
+  }
+
+  // Make sure the default exists before the first kit is added
+  await getStockLocations(supabase, member.tenant_id);
+
+  const { data, error } = await supabase
+    .from('stock_locations')
+    .insert({
+      tenant_id: member.tenant_id,
+      name,
+      kind,
+      assigned_to: body.assigned_to || null,
+      sort_order: Number(body.sort_order) || 0,
+    })
+    .select()
+    .single();
+  if (error) return NextResponse.json({ error: 'Failed to add location' }, { status: 500 });
+
+  return NextResponse.json(data, { status: 201 });
+}
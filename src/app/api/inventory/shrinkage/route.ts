@@ -0,0 +1,139 @@
+// ============================================================================
+// Shrinkage Report — GET /api/inventory/shrinkage
+// src/app/api/inventory/shrinkage/route.ts
+// ============================================================================
+// Variance from finalized stock counts, by reason and by item, valued at the
+// unit cost snapshotted on each count line.
+// ?from=YYYY-MM-DD&to=YYYY-MM-DD (local days, default the last 90 days)
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { selectAll } from '@/lib/supabase/select-all';
+import { resolveTimeZone, toLocalDateString, zonedTimeToUtc } from '@/lib/timezone';
+import type { InventoryType, InventoryUnit, ShrinkageReport, StockCountReason } from '@/types';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+interface ShrinkageLine {
+  stock_count_id: string;
+  inventory_item_id: string;
+  variance_quantity: number;
+  unit_cost: number;
+  reason: StockCountReason | null;
+  item: { name: string; type: InventoryType; unit: InventoryUnit } | null;
+}
+
+/** Midnight at the start of a local YYYY-MM-DD, shifted by `dayOffset`. */
+function localMidnight(date: string, timeZone: string, dayOffset = 0): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return zonedTimeToUtc(y, m, d + dayOffset, 0, 0, timeZone);
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+export async function GET(request: NextRequest) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'reports:view')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+  const tenantId = member.tenant_id;
+
+  const { data: tenant } = await supabase
+    .from('tenants')
+    .select('time_zone')
+    .eq('id', tenantId)
+    .single();
+  const timeZone = resolveTimeZone(tenant);
+
+  const { searchParams } = request.nextUrl;
+  const to = searchParams.get('to') || toLocalDateString(new Date(), timeZone);
+  const from = searchParams.get('from') || toLocalDateString(new Date(Date.now() - 89 * 86_400_000), timeZone);
+  if (!DATE_RE.test(from) || !DATE_RE.test(to) || from > to) {
+    return NextResponse.json({ error: 'from and to must be YYYY-MM-DD, from on or before to' }, { status: 400 });
+  }
+
+  const { data: counts } = await supabase
+    .from('stock_counts')
+    .select('id')
+    .eq('tenant_id', tenantId)
+    .eq('status', 'finalized')
+    .gte('finalized_at', localMidnight(from, timeZone).toISOString())
+    .lt('finalized_at', localMidnight(to, timeZone, 1).toISOString());
+  const countIds = (counts || []).map((c) => c.id);
+
+  const lines: ShrinkageLine[] = [];
+  for (let i = 0; i < countIds.length; i += 100) {
+    const chunk = countIds.slice(i, i + 100);
+    lines.push(...await selectAll<ShrinkageLine>((rangeFrom, rangeTo) =>
+      supabase
+        .from('stock_count_lines')
+        .select('stock_count_id, inventory_item_id, variance_quantity, unit_cost, reason, item:inventory_items(name, type, unit)')
+        .in('stock_count_id', chunk)
+        .not('variance_quantity', 'is', null)
+        .neq('variance_quantity', 0)
+        .order('id')
+        .range(rangeFrom, rangeTo) as unknown as PromiseLike<{ data: ShrinkageLine[] | null; error: { message: string } | null }>
+    ));
+  }
+
+  const byReason = new Map<StockCountReason, ShrinkageReport['byReason'][number]>();
+  const byItem = new Map<string, ShrinkageReport['byItem'][number]>();
+  let totalLoss = 0;
+  let totalFound = 0;
+
+  for (const line of lines) {
+    const variance = Number(line.variance_quantity);
+    const value = variance * Number(line.unit_cost);
+    const reason = line.reason || 'other';
+
+    const r = byReason.get(reason) || { reason, quantity: 0, value: 0, lines: 0 };
+    r.quantity += variance;
+    r.value += value;
+    r.lines++;
+    byReason.set(reason, r);
+
+    const it = byItem.get(line.inventory_item_id) || {
+      inventory_item_id: line.inventory_item_id,
+      name: line.item?.name || 'Deleted item',
+      type: line.item?.type || 'other',
+      unit: line.item?.unit || 'each',
+      lost: 0,
+      found: 0,
+      value: 0,
+    };
+    if (variance < 0) it.lost -= variance;
+    else it.found += variance;
+    it.value += value;
+    byItem.set(line.inventory_item_id, it);
+
+    if (value < 0) totalLoss -= value;
+    else totalFound += value;
+  }
+
+  const report: ShrinkageReport = {
+    from,
+    to,
+    countCount: countIds.length,
+    byReason: [...byReason.values()]
+      .map((r) => ({ ...r, quantity: Math.round(r.quantity * 10000) / 10000, value: round(r.value) }))
+      .sort((a, b) => a.value - b.value),
+    byItem: [...byItem.values()]
+      .map((i) => ({ ...i, lost: Math.round(i.lost * 10000) / 10000, found: Math.round(i.found * 10000) / 10000, value: round(i.value) }))
+      .sort((a, b) => a.value - b.value),
+    totalLoss: round(totalLoss),
+    totalFound: round(totalFound),
+  };
+  return NextResponse.json(report);
+}
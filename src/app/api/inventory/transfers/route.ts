@@ -0,0 +1,99 @@
+// ============================================================================
+// Stock Transfers — GET/POST /api/inventory/transfers
+// src/app/api/inventory/transfers/route.ts
+// ============================================================================
+// GET: Recent transfers with their lines (from the 'transfer' movements).
+// POST: Move stock between locations via transfer_stock().
+//       Body: { fromLocationId, toLocationId, lines: [{ item_id, variant_id?, quantity }], notes? }
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+
+async function getMember() {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { supabase, user: null, member: null };
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  return { supabase, user, member };
+}
+
+export async function GET() {
+  const { supabase, user, member } = await getMember();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'inventory:view')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const { data: transfers, error } = await supabase
+    .from('stock_transfers')
+    .select('*, from_location:stock_locations!stock_transfers_from_location_id_fkey(name), to_location:stock_locations!stock_transfers_to_location_id_fkey(name)')
+    .eq('tenant_id', member.tenant_id)
+    .order('created_at', { ascending: false })
+    .limit(25);
+  if (error) return NextResponse.json({ error: error.message }, { status: 500 });
+
+  const ids = (transfers || []).map((t) => t.id);
+  const { data: movements } = ids.length
+    ? await supabase
+        .from('inventory_movements')
+        .select('reference_id, quantity, item:inventory_items(name, unit), variant:inventory_item_variants(name)')
+        .in('reference_id', ids)
+        .eq('movement_type', 'transfer')
+        .gt('quantity', 0)
+    : { data: [] };
+
+  const lines = new Map<string, unknown[]>();
+  for (const m of (movements || []) as any[]) {
+    const list = lines.get(m.reference_id) || [];
+    list.push({ name: m.item?.name || 'Deleted item', variant: m.variant?.name || null, unit: m.item?.unit || 'each', quantity: Number(m.quantity) });
+    lines.set(m.reference_id, list);
+  }
+
+  return NextResponse.json((transfers || []).map((t) => ({ ...t, lines: lines.get(t.id) || [] })));
+}
+
+export async function POST(request: NextRequest) {
+  const { supabase, user, member } = await getMember();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'inventory:edit')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const { fromLocationId, toLocationId } = body;
+  const lines = Array.isArray(body.lines)
+    ? (body.lines as { item_id: string; variant_id?: string | null; quantity: number }[])
+        .filter((l) => l.item_id && Number(l.quantity) > 0)
+        .map((l) => ({ item_id: l.item_id, variant_id: l.variant_id || null, quantity: Number(l.quantity) }))
+    : [];
+
+  if (!fromLocationId || !toLocationId) {
+    return NextResponse.json({ error: 'Choose where to move stock from and to' }, { status: 400 });
+  }
+  if (lines.length === 0) {
+    return NextResponse.json({ error: 'Add at least one item to transfer' }, { status: 400 });
+  }
+
+  const { data: transferId, error } = await supabase.rpc('transfer_stock', {
+    p_tenant_id: member.tenant_id,
+    p_from_location_id: fromLocationId,
+    p_to_location_id: toLocationId,
+    p_lines: lines,
+    p_notes: body.notes?.trim() || null,
+  });
+  if (error) {
+    return NextResponse.json({ error: error.message || 'Transfer failed' }, { status: 400 });
+  }
+
+  return NextResponse.json({ success: true, id: transferId }, { status: 201 });
+}
@@ -0,0 +1,39 @@
+// ============================================================================
+// Stock Valuation — GET /api/inventory/valuation
+// src/app/api/inventory/valuation/route.ts
+// ============================================================================
+// What the stock on hand cost, from the open cost layers (anything no layer
+// covers at cost_per_unit). Returns { method, total, items: { [id]: value } }.
+// ============================================================================
+
+import { NextResponse } from 'next/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { getStockValuation } from '@/lib/cost-layers';
+
+export async function GET() {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'costs:view')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  try {
+    // cost_per_unit isn't selectable with the member's client
+    const serviceClient = await createServiceRoleClient();
+    const valuation = await getStockValuation(serviceClient, member.tenant_id);
+    return NextResponse.json(valuation);
+  } catch (err: any) {
+    console.error('[Stock Valuation] Error:', err);
+    return NextResponse.json({ error: 'Failed to value stock' }, { status: 500 });
+  }
+}
@@ -16,7 +16,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
 import { getSubscriptionTier, getSunnyQuestionLimit } from '@/lib/subscription';
 import { getCachedCatalog, formatCatalogForPrompt } from '@/lib/shopify';
-import { checkRateLimit } from '@/lib/rate-limit';
+import { checkRateLimit, rateLimitHeaders } from '@/lib/rate-limit';
 import {
   EQUIPMENT_KNOWLEDGE,
   WELDING_TECHNIQUE_KNOWLEDGE,
@@ -32,6 +32,7 @@ import {
 import { runAgenticLoop, buildAgenticSSEStream } from '@/lib/agentic-loop';
 import { logAnthropicCost } from '@/lib/cost-tracker';
 import { SUNNY_TOOL_DEFINITIONS, executeSunnyTool, getSunnyToolStatusLabel } from '@/lib/sunny-tools';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
 
 // ============================================================================
 // Smart model routing — Sonnet default, Opus for complex reasoning
@@ -743,7 +744,8 @@ function stringify(obj: any, depth = 0): string {
 // Fetch RICH tenant context (inventory items, clients, events, queue)
 // ============================================================================
 
-async function fetchTenantContext(serviceClient: any, tenantId: string) {
+/** `canSeeCosts` false leaves unit costs out — the context goes to every member. */
+async function fetchTenantContext(serviceClient: any, tenantId: string, canSeeCosts: boolean) {
   try {
     const [
       tenantRes,
@@ -784,7 +786,7 @@ async function fetchTenantContext(serviceClient: any, tenantId: string) {
       // ACTUAL inventory items (chains, jump rings, charms, connectors)
       serviceClient
         .from('inventory_items')
-        .select('name, type, material, quantity_on_hand, sell_price, cost_per_unit, supplier, reorder_threshold, unit, is_active')
+        .select(`name, type, material, quantity_on_hand, sell_price, ${canSeeCosts ? 'cost_per_unit, ' : ''}supplier, reorder_threshold, unit, is_active`)
         .eq('tenant_id', tenantId)
         .eq('is_active', true)
         .order('type')
@@ -912,16 +914,16 @@ export async function POST(request: NextRequest) {
     }
 
     // 1b. Rate limit
-    const rl = checkRateLimit(user.id, MENTOR_RATE_LIMIT);
+    const rl = await checkRateLimit(user.id, MENTOR_RATE_LIMIT);
     if (!rl.allowed) {
-      return NextResponse.json({ error: 'Too many requests. Please wait a moment.' }, { status: 429 });
+      return NextResponse.json({ error: 'Too many requests. Please wait a moment.' }, { status: 429, headers: rateLimitHeaders(rl) });
     }
 
     // 2. Tenant
     const serviceClient = await createServiceRoleClient();
     const { data: membership } = await serviceClient
       .from('tenant_members')
-      .select('tenant_id')
+      .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
       .eq('user_id', user.id)
       .limit(1)
       .single();
@@ -930,6 +932,8 @@ export async function POST(request: NextRequest) {
     if (!tenantId) {
       return NextResponse.json({ error: 'No tenant found' }, { status: 400 });
     }
+    // Sunny works on the service role, so the member's role is checked per tool
+    const grant = roleGrant(membership);
 
     // 2b. SUBSCRIPTION GATE — meter Sunny questions for Starter
     const { data: tenantData } = await serviceClient
@@ -991,7 +995,7 @@ export async function POST(request: NextRequest) {
 
     // 5. Fetch RICH tenant context + approved additions + Shopify catalog
     const [biz, additionsRes, shopifyCatalog] = await Promise.all([
-      fetchTenantContext(serviceClient, tenantId),
+      fetchTenantContext(serviceClient, tenantId, hasPermission(grant, 'costs:view')),
       serviceClient.from('mentor_knowledge_additions').select('question, answer').eq('is_active', true),
       getCachedCatalog().catch(() => null),
     ]);
@@ -1242,7 +1246,7 @@ After a tool executes, summarize the result naturally. If a tool errors, explain
     const selectedModel = selectModel(latestUserMsg, messages.length);
     console.log(`[Mentor] Model selected: ${selectedModel} (message length: ${latestUserMsg.length}, conversation: ${messages.length} messages)`);
 
-    const toolCtx = { serviceClient, tenantId, userId: user.id };
+    const toolCtx = { serviceClient, tenantId, userId: user.id, grant };
 
     let agenticResult;
     try {
@@ -6,6 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
+import { getInventoryCosts, unitCostOf } from '@/lib/cost-layers';
 
 type PricingMode = 'by_type' | 'by_metal' | 'by_markup' | 'by_tier' | 'individual';
 
@@ -80,7 +81,7 @@ export async function POST(request: NextRequest) {
     // Fetch all inventory items for the tenant
     const { data: items, error: fetchError } = await supabase
       .from('inventory_items')
-      .select('id, type, material, cost_per_unit')
+      .select('id, type, material')
       .eq('tenant_id', tenantId)
       .eq('is_active', true);
 
@@ -182,9 +183,11 @@ export async function POST(request: NextRequest) {
     } else if (mode === 'by_markup') {
       const margin = payload.margin || 0;
       if (margin > 0 && margin < 100) {
+        const costs = await getInventoryCosts(supabase, tenantId);
         for (const item of items) {
-          if (item.type === 'chain' && item.cost_per_unit > 0) {
-            const sellPrice = Math.round((item.cost_per_unit / (1 - margin / 100)) * 100) / 100;
+          const cost = unitCostOf(costs, item.id, null);
+          if (item.type === 'chain' && cost > 0) {
+            const sellPrice = Math.round((cost / (1 - margin / 100)) * 100) / 100;
             const { error } = await supabase
               .from('inventory_items')
               .update({ sell_price: sellPrice })
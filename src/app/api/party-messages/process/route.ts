@@ -9,7 +9,7 @@ export const runtime = 'nodejs';
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
-import { sendSMS } from '@/lib/twilio';
+import { sendSMS, isSmsOptedOut, SMS_OPTED_OUT } from '@/lib/twilio';
 
 export async function POST(request: NextRequest) {
   // Simple auth: accept cron secret or authenticated user
@@ -81,11 +81,22 @@ export async function POST(request: NextRequest) {
         }
       }
 
+      // Recipient replied STOP since this was scheduled
+      if (await isSmsOptedOut(msg.tenant_id, msg.recipient_phone)) {
+        await db
+          .from('party_scheduled_messages')
+          .update({ status: 'skipped', skip_reason: SMS_OPTED_OUT })
+          .eq('id', msg.id);
+        skipped++;
+        continue;
+      }
+
       // Send the message
       await sendSMS({
         to: msg.recipient_phone,
         body: msg.message_body,
         tenantId: msg.tenant_id,
+        source: 'party',
       });
 
       await db
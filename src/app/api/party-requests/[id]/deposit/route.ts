@@ -2,20 +2,16 @@
 // Party Deposit API — POST /api/party-requests/[id]/deposit
 // ============================================================================
 // Creates a Stripe Checkout Session for the deposit amount on the artist's
-// connected account. No platform fee on deposits — it's the artist's money.
-// Optionally sends the payment link to the host via SMS.
+// connected account (see lib/deposits). Optionally sends the payment link to
+// the host via SMS.
 // ============================================================================
 
 export const runtime = 'nodejs';
 
-import Stripe from 'stripe';
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
 import { sendSMS, normalizePhone } from '@/lib/twilio';
-
-const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
-  apiVersion: '2025-02-24.acacia' as any,
-});
+import { createDepositCheckout, depositPayUrl } from '@/lib/deposits';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -79,50 +75,15 @@ export async function POST(request: NextRequest, context: RouteContext) {
     }
 
     // ── Create Stripe Checkout Session ──────────────────────────────────
-    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://sunstonepj.app';
-    const amountCents = Math.round(Number(depositAmount) * 100);
-
-    const sessionParams: Record<string, unknown> = {
-      mode: 'payment',
-      payment_method_types: ['card'],
-      line_items: [{
-        price_data: {
-          currency: 'usd',
-          product_data: {
-            name: `Party Deposit — ${party.host_name}`,
-          },
-          unit_amount: amountCents,
-        },
-        quantity: 1,
-      }],
-      // No application_fee_amount — deposits are the artist's money
-      success_url: `${baseUrl}/studio/${tenant.slug}?deposit=success`,
-      cancel_url: `${baseUrl}/studio/${tenant.slug}?deposit=cancelled`,
-      expires_at: Math.floor(Date.now() / 1000) + (24 * 60 * 60), // 24 hours from now
-      metadata: {
-        type: 'party_deposit',
-        party_request_id: partyRequestId,
-        tenant_id: tenantId,
-      },
-    };
-
-    const session = await stripe.checkout.sessions.create(
-      sessionParams as Stripe.Checkout.SessionCreateParams,
-      { stripeAccount: tenant.stripe_account_id }
-    );
-
-    // ── Store session→tenant mapping for /pay redirect lookup ────────────
-    const { error: sessionInsertError } = await db
-      .from('checkout_sessions')
-      .insert({
-        session_id: session.id,
-        tenant_id: tenantId,
-        stripe_account_id: tenant.stripe_account_id,
-        amount_cents: amountCents,
-      });
-    if (sessionInsertError) {
-      console.error('[Party Deposit] checkout_sessions insert failed:', sessionInsertError);
-    }
+    const session = await createDepositCheckout(db, {
+      tenantId,
+      stripeAccountId: tenant.stripe_account_id,
+      tenantSlug: tenant.slug,
+      amount: depositAmount,
+      productName: `Party Deposit — ${party.host_name}`,
+      type: 'party_deposit',
+      metadata: { party_request_id: partyRequestId },
+    });
 
     // ── Update party request with pending deposit ───────────────────────
     await db
@@ -137,9 +98,7 @@ export async function POST(request: NextRequest, context: RouteContext) {
     // ── Optionally send deposit link to host via SMS ────────────────────
     if (sendSmsToHost && party.host_phone && tenant.dedicated_phone_number) {
       const formattedAmount = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(depositAmount);
-      // Use clean redirect URL — Stripe URLs contain # fragments which iOS truncates
-      const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://sunstonepj.app';
-      const cleanUrl = `${baseUrl}/pay/${session.id}`;
+      const cleanUrl = depositPayUrl(session.id);
       sendSMS({
         to: normalizePhone(party.host_phone),
         body: `Hi ${party.host_name}! ${tenant.name} has requested a ${formattedAmount} deposit to confirm your party. Pay securely here: ${cleanUrl}`,
@@ -4,7 +4,7 @@
 
 import { NextResponse } from 'next/server';
 import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
-import { checkRateLimit, getClientIP } from '@/lib/rate-limit';
+import { checkRateLimit, getClientIP, rateLimitHeaders } from '@/lib/rate-limit';
 import { normalizePhone, sendSMS } from '@/lib/twilio';
 import { handlePartyStatusChange } from '@/lib/party-templates';
 
@@ -13,9 +13,9 @@ import { handlePartyStatusChange } from '@/lib/party-templates';
 export async function POST(request: Request) {
   // Rate limit: 5 per hour per IP
   const ip = getClientIP(request);
-  const rl = checkRateLimit(ip, { prefix: 'party-request', limit: 5, windowSeconds: 3600 });
+  const rl = await checkRateLimit(ip, { prefix: 'party-request', limit: 5, windowSeconds: 3600 });
   if (!rl.allowed) {
-    return NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429 });
+    return NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429, headers: rateLimitHeaders(rl) });
   }
 
   const body = await request.json();
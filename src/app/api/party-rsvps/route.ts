@@ -4,19 +4,20 @@
 
 import { NextResponse } from 'next/server';
 import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
-import { checkRateLimit, getClientIP } from '@/lib/rate-limit';
+import { checkRateLimit, getClientIP, rateLimitHeaders } from '@/lib/rate-limit';
+import { recordSmsConsent } from '@/lib/sms-consent';
 
 // ── POST: Submit RSVP (public, rate-limited) ───────────────────────────────
 
 export async function POST(request: Request) {
   const ip = getClientIP(request);
-  const rl = checkRateLimit(ip, { prefix: 'party-rsvp', limit: 10, windowSeconds: 3600 });
+  const rl = await checkRateLimit(ip, { prefix: 'party-rsvp', limit: 10, windowSeconds: 3600 });
   if (!rl.allowed) {
-    return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+    return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: rateLimitHeaders(rl) });
   }
 
   const body = await request.json();
-  const { partyRequestId, name, email, phone, attending, plusOnes } = body;
+  const { partyRequestId, name, email, phone, attending, plusOnes, smsConsent } = body;
 
   if (!partyRequestId || !name) {
     return NextResponse.json({ error: 'partyRequestId and name are required' }, { status: 400 });
@@ -39,6 +40,12 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'This party has been cancelled' }, { status: 400 });
   }
 
+  // A party's guest list is small; cap it so one link can't be flooded
+  const partyRl = await checkRateLimit(party.id, { prefix: 'party-rsvp-party', limit: 100, windowSeconds: 3600 });
+  if (!partyRl.allowed) {
+    return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: rateLimitHeaders(partyRl) });
+  }
+
   const { data: rsvp, error } = await supabase
     .from('party_rsvps')
     .insert({
@@ -49,6 +56,7 @@ export async function POST(request: Request) {
       phone: phone || null,
       attending: attending !== false,
       plus_ones: plusOnes || 0,
+      sms_consent: !!(smsConsent && phone),
     })
     .select('id')
     .single();
@@ -58,6 +66,15 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: 'Failed to submit RSVP' }, { status: 500 });
   }
 
+  if (smsConsent && phone) {
+    await recordSmsConsent(supabase, {
+      tenantId: party.tenant_id,
+      phone,
+      status: 'opted_in',
+      source: 'rsvp',
+    });
+  }
+
   return NextResponse.json({ id: rsvp.id });
 }
 
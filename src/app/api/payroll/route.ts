@@ -0,0 +1,78 @@
+// ============================================================================
+// Payroll Report — GET /api/payroll
+// src/app/api/payroll/route.ts
+// ============================================================================
+// Commission, refund clawbacks and tips per team member for a pay period.
+// ?from=YYYY-MM-DD&to=YYYY-MM-DD are local days, both inclusive (default:
+// the last 14 days). Members who can view reports see everyone; anyone
+// else sees only their own earnings.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { resolveTimeZone, toLocalDateString, zonedTimeToUtc } from '@/lib/timezone';
+import { getPayrollReport } from '@/lib/payroll';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Midnight at the start of a local YYYY-MM-DD, shifted by `dayOffset`. */
+function localMidnight(date: string, timeZone: string, dayOffset = 0): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return zonedTimeToUtc(y, m, d + dayOffset, 0, 0, timeZone);
+}
+
+export async function GET(request: NextRequest) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`id, tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  const tenantId = member.tenant_id;
+  const seesEveryone = hasPermission(roleGrant(member), 'reports:view');
+
+  const { data: tenant } = await supabase
+    .from('tenants')
+    .select('time_zone')
+    .eq('id', tenantId)
+    .single();
+  const timeZone = resolveTimeZone(tenant);
+
+  const { searchParams } = request.nextUrl;
+  const today = toLocalDateString(new Date(), timeZone);
+  const to = searchParams.get('to') || today;
+  const from = searchParams.get('from') || toLocalDateString(localMidnight(to, timeZone, -13), timeZone);
+  if (!DATE_RE.test(from) || !DATE_RE.test(to)) {
+    return NextResponse.json({ error: 'Dates must be YYYY-MM-DD' }, { status: 400 });
+  }
+  if (from > to) {
+    return NextResponse.json({ error: 'from must be on or before to' }, { status: 400 });
+  }
+
+  try {
+    // Plans and other members' sales aren't readable by staff under RLS,
+    // so the report reads with the service role once access is settled above
+    const serviceClient = await createServiceRoleClient();
+    const report = await getPayrollReport(
+      serviceClient,
+      tenantId,
+      {
+        start: localMidnight(from, timeZone),
+        end: localMidnight(to, timeZone, 1),
+        from,
+        to,
+      },
+      seesEveryone ? undefined : member.id
+    );
+    return NextResponse.json(report);
+  } catch (err: any) {
+    console.error('[Payroll Report] Error:', err);
+    return NextResponse.json({ error: 'Failed to build payroll report' }, { status: 500 });
+  }
+}
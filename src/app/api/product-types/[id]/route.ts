@@ -1,7 +1,7 @@
 // ============================================================================
 // Product Type Detail API — src/app/api/product-types/[id]/route.ts
 // ============================================================================
-// PATCH to update name/default_inches/sort_order/is_active.
+// PATCH to update name/default_inches/sort_order/is_active/tax_exempt.
 // DELETE to remove (blocked for is_default=true product types).
 // ============================================================================
 
@@ -25,6 +25,7 @@ export async function PATCH(
   if (body.sort_order !== undefined) updates.sort_order = body.sort_order;
   if (body.is_active !== undefined) updates.is_active = body.is_active;
   if (body.jump_rings_required !== undefined) updates.jump_rings_required = body.jump_rings_required;
+  if (body.tax_exempt !== undefined) updates.tax_exempt = body.tax_exempt === true;
   updates.updated_at = new Date().toISOString();
 
   const { data, error } = await supabase
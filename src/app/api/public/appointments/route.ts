@@ -0,0 +1,226 @@
+// ============================================================================
+// Public Appointments — GET + POST /api/public/appointments
+// ============================================================================
+// GET ?slug=X&date=YYYY-MM-DD&pieces=N[&memberId=Y] — open slots for a day.
+// POST — books a slot from the storefront. When the studio takes deposits
+// (and Stripe is connected) the booking holds the slot as pending_deposit
+// and returns a Checkout URL; the webhook confirms it once paid.
+// Uses service role — public endpoint.
+// ============================================================================
+
+import { NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { checkRateLimit, getClientIP, tenantKey, rateLimitHeaders, rateLimitResponse } from '@/lib/rate-limit';
+import { normalizePhone } from '@/lib/twilio';
+import { recordSmsConsent } from '@/lib/sms-consent';
+import { resolveTimeZone, toLocalDateString } from '@/lib/timezone';
+import {
+  APPOINTMENT_SETTINGS_COLUMNS,
+  appointmentDurationMinutes,
+  computeAvailableSlots,
+  formatAppointmentTime,
+  loadAppointmentCalendar,
+} from '@/lib/appointments';
+import { sendAppointmentConfirmation, notifyArtistOfBooking } from '@/lib/appointment-sms';
+import { createDepositCheckout } from '@/lib/deposits';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const SLOTS_LIMIT = { prefix: 'appointment-slots', limit: 60, windowSeconds: 60 };
+/** Caps bookings per studio so rotating IPs can't fill a calendar */
+const TENANT_BOOKING_LIMIT = { prefix: 'appointment-booking', limit: 60, windowSeconds: 3600 };
+/**
+ * How long an unpaid booking holds its slot. Stripe rejects sessions shorter
+ * than 30 minutes, and expires_at is counted before the request reaches it.
+ */
+const DEPOSIT_HOLD_MINUTES = 31;
+
+// ── GET: Open slots (public) ───────────────────────────────────────────────
+
+export async function GET(request: Request) {
+  const rl = await checkRateLimit(getClientIP(request), SLOTS_LIMIT);
+  if (!rl.allowed) return rateLimitResponse(rl);
+
+  const { searchParams } = new URL(request.url);
+  const slug = searchParams.get('slug');
+  const date = searchParams.get('date');
+  const pieces = parseInt(searchParams.get('pieces') || '1', 10);
+  const memberId = searchParams.get('memberId');
+
+  if (!slug || !date || !DATE_RE.test(date)) {
+    return NextResponse.json({ error: 'slug and date are required' }, { status: 400 });
+  }
+
+  const supabase = await createServiceRoleClient();
+
+  const { data: tenant } = await supabase
+    .from('tenants')
+    .select(APPOINTMENT_SETTINGS_COLUMNS)
+    .eq('slug', slug)
+    .single();
+
+  if (!tenant || !tenant.appointments_enabled) {
+    return NextResponse.json({ error: 'Appointments are not available' }, { status: 404 });
+  }
+
+  const safePieces = Math.min(Math.max(1, pieces || 1), tenant.appointment_max_pieces || 1);
+  const calendar = await loadAppointmentCalendar(supabase, tenant.id, date, resolveTimeZone(tenant));
+  const slots = computeAvailableSlots({
+    date,
+    pieces: safePieces,
+    settings: tenant,
+    ...calendar,
+    memberIds: memberId ? [memberId] : undefined,
+  });
+
+  return NextResponse.json({ slots });
+}
+
+// ── POST: Book an appointment (public) ─────────────────────────────────────
+
+export async function POST(request: Request) {
+  // Rate limit: 5 per hour per IP
+  const ip = getClientIP(request);
+  const rl = await checkRateLimit(ip, { prefix: 'appointment-booking', limit: 5, windowSeconds: 3600 });
+  if (!rl.allowed) {
+    return NextResponse.json({ error: 'Too many requests. Please try again later.' }, { status: 429, headers: rateLimitHeaders(rl) });
+  }
+
+  const body = await request.json().catch(() => null);
+  const { tenantId, startsAt, pieces, memberId, name, phone, email, notes, smsConsent } = body || {};
+
+  if (!tenantId || !startsAt || !name?.trim() || !phone?.trim()) {
+    return NextResponse.json({ error: 'tenantId, startsAt, name, and phone are required' }, { status: 400 });
+  }
+
+  const start = new Date(startsAt);
+  if (isNaN(start.getTime())) {
+    return NextResponse.json({ error: 'Invalid appointment time' }, { status: 400 });
+  }
+
+  const tenantRl = await checkRateLimit(tenantKey(tenantId), TENANT_BOOKING_LIMIT);
+  if (!tenantRl.allowed) return rateLimitResponse(tenantRl);
+
+  const supabase = await createServiceRoleClient();
+
+  const { data: tenant } = await supabase
+    .from('tenants')
+    .select(`${APPOINTMENT_SETTINGS_COLUMNS}, stripe_account_id`)
+    .eq('id', tenantId)
+    .single();
+
+  if (!tenant || !tenant.appointments_enabled) {
+    return NextResponse.json({ error: 'Appointments are not available' }, { status: 404 });
+  }
+
+  // ── Re-check the slot is still open ─────────────────────────────────
+  const timeZone = resolveTimeZone(tenant);
+  const date = toLocalDateString(start, timeZone);
+  const safePieces = Math.min(Math.max(1, parseInt(pieces, 10) || 1), tenant.appointment_max_pieces || 1);
+  const calendar = await loadAppointmentCalendar(supabase, tenant.id, date, timeZone);
+  const slot = computeAvailableSlots({
+    date,
+    pieces: safePieces,
+    settings: tenant,
+    ...calendar,
+    memberIds: memberId ? [memberId] : undefined,
+  }).find((s) => s.starts_at === start.toISOString());
+
+  if (!slot) {
+    return NextResponse.json({ error: 'That time was just booked. Please pick another.' }, { status: 409 });
+  }
+
+  // Spread bookings across free artists — least booked that day first
+  const bookedCount = (id: string) => calendar.booked.filter((b) => b.member_id === id).length;
+  const assignedMember = [...slot.member_ids].sort((a, b) => bookedCount(a) - bookedCount(b))[0];
+
+  // ── Match existing client by phone ──────────────────────────────────
+  const normalizedPhone = normalizePhone(phone);
+  const { data: existingClient } = await supabase
+    .from('clients')
+    .select('id')
+    .eq('tenant_id', tenant.id)
+    .eq('phone', normalizedPhone)
+    .limit(1)
+    .single();
+
+  const depositAmount = Number(tenant.appointment_deposit_amount) || 0;
+  const needsDeposit = depositAmount > 0 && !!tenant.stripe_account_id;
+  const endsAt = new Date(start.getTime() + appointmentDurationMinutes(tenant, safePieces) * 60_000);
+
+  const { data: appointment, error: insertError } = await supabase
+    .from('appointments')
+    .insert({
+      tenant_id: tenant.id,
+      member_id: assignedMember,
+      client_id: existingClient?.id || null,
+      status: needsDeposit ? 'pending_deposit' : 'confirmed',
+      starts_at: start.toISOString(),
+      ends_at: endsAt.toISOString(),
+      pieces: safePieces,
+      customer_name: name.trim(),
+      customer_phone: normalizedPhone,
+      customer_email: email?.trim() || null,
+      notes: notes?.trim() || null,
+      sms_consent: !!smsConsent,
+      deposit_amount: needsDeposit ? depositAmount : 0,
+      deposit_status: needsDeposit ? 'pending' : 'none',
+    })
+    .select('id, tenant_id, customer_name, customer_phone, starts_at, sms_consent')
+    .single();
+
+  if (insertError || !appointment) {
+    // 23P01 = exclusion violation — someone else took the slot first
+    if (insertError?.code === '23P01') {
+      return NextResponse.json({ error: 'That time was just booked. Please pick another.' }, { status: 409 });
+    }
+    console.error('[Appointments] Insert failed:', insertError);
+    return NextResponse.json({ error: 'Failed to book appointment' }, { status: 500 });
+  }
+
+  if (smsConsent) {
+    await recordSmsConsent(supabase, {
+      tenantId: tenant.id,
+      phone: normalizedPhone,
+      status: 'opted_in',
+      source: 'appointment',
+      clientId: existingClient?.id || null,
+    });
+  }
+
+  const when = formatAppointmentTime(appointment.starts_at, timeZone);
+
+  // ── Deposit: hold the slot until Checkout completes ─────────────────
+  if (needsDeposit) {
+    try {
+      const session = await createDepositCheckout(supabase, {
+        tenantId: tenant.id,
+        stripeAccountId: tenant.stripe_account_id!,
+        tenantSlug: tenant.slug,
+        amount: depositAmount,
+        productName: `Appointment Deposit — ${when}`,
+        type: 'appointment_deposit',
+        metadata: { appointment_id: appointment.id },
+        returnParam: 'appointment',
+        expiresInMinutes: DEPOSIT_HOLD_MINUTES,
+      });
+
+      await supabase
+        .from('appointments')
+        .update({ stripe_checkout_session_id: session.id })
+        .eq('id', appointment.id);
+
+      return NextResponse.json({ id: appointment.id, status: 'pending_deposit', checkoutUrl: session.url });
+    } catch (err) {
+      console.error('[Appointments] Deposit checkout failed:', err);
+      await supabase.from('appointments').update({ status: 'cancelled', deposit_status: 'none' }).eq('id', appointment.id);
+      return NextResponse.json({ error: 'Could not start the deposit payment. Please try again.' }, { status: 500 });
+    }
+  }
+
+  // ── No deposit: confirmed now ───────────────────────────────────────
+  sendAppointmentConfirmation(supabase, appointment, tenant, timeZone).catch(() => {});
+  notifyArtistOfBooking(tenant, `📅 New appointment: ${appointment.customer_name} booked ${when} (${safePieces} piece${safePieces === 1 ? '' : 's'}).`);
+
+  return NextResponse.json({ id: appointment.id, status: 'confirmed' });
+}
@@ -0,0 +1,203 @@
+// ============================================================================
+// Calendar Feed — GET /api/public/calendar/[token].ics
+// ============================================================================
+// iCalendar subscription feed for Google / Apple Calendar. The token is the
+// only credential (see /api/calendar-feeds). Includes events, confirmed
+// parties (host, location, deposit status) and appointments — a personal
+// feed only carries the member's own appointments. Window: 90 days back,
+// one year ahead. Uses service role to bypass RLS.
+// ============================================================================
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { buildCalendar, type CalendarFeedEvent } from '@/lib/ical';
+import { resolveTimeZone, zonedTimeToUtc } from '@/lib/timezone';
+import { LIVE_APPOINTMENT_STATUSES } from '@/lib/appointments';
+import { checkRateLimit, getClientIP, rateLimitHeaders } from '@/lib/rate-limit';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+const DEPOSIT_LABELS: Record<string, string> = {
+  none: 'No deposit',
+  pending: 'Deposit requested',
+  paid: 'Deposit paid',
+  waived: 'Deposit waived',
+};
+
+// Calendar apps poll every few minutes to hours, and Google fetches many
+// feeds from shared IPs — so the per-IP cap is loose and the per-token cap
+// does the real work.
+const IP_LIMIT = { prefix: 'calendar-feed-ip', limit: 300, windowSeconds: 60 };
+const TOKEN_LIMIT = { prefix: 'calendar-feed', limit: 60, windowSeconds: 3600 };
+
+/** Parties without a linked event are blocked out for two hours. */
+const PARTY_DEFAULT_HOURS = 2;
+
+/** "6:00 PM" → [18, 0]; free-text times like "Evening (4pm–8pm)" → null. */
+function parseClockTime(value: string | null): [number, number] | null {
+  const m = value?.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*([AaPp])\.?[Mm]\.?$/);
+  if (!m) return null;
+  const hour = parseInt(m[1], 10) % 12 + (m[3].toLowerCase() === 'p' ? 12 : 0);
+  return [hour, m[2] ? parseInt(m[2], 10) : 0];
+}
+
+function money(value: number | string | null): string {
+  return `$${(Number(value) || 0).toFixed(2)}`;
+}
+
+function notFound() {
+  return new Response('Not found', { status: 404 });
+}
+
+export async function GET(request: Request, context: RouteContext) {
+  const { token: rawToken } = await context.params;
+  const token = rawToken.replace(/\.ics$/, '');
+  if (!token) return notFound();
+
+  for (const [key, config] of [[getClientIP(request), IP_LIMIT], [token, TOKEN_LIMIT]] as const) {
+    const rl = await checkRateLimit(key, config);
+    if (!rl.allowed) return new Response('Too many requests', { status: 429, headers: rateLimitHeaders(rl) });
+  }
+
+  const db = await createServiceRoleClient();
+
+  const { data: feed } = await db
+    .from('calendar_feeds')
+    .select('id, tenant_id, member_id')
+    .eq('token', token)
+    .single();
+  if (!feed) return notFound();
+
+  const { data: tenant } = await db
+    .from('tenants')
+    .select('id, name, time_zone')
+    .eq('id', feed.tenant_id)
+    .single();
+  if (!tenant) return notFound();
+
+  const timeZone = resolveTimeZone(tenant);
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://sunstonepj.app';
+  const from = new Date(Date.now() - 90 * 86_400_000);
+  const to = new Date(Date.now() + 365 * 86_400_000);
+
+  let appointmentsQuery = db
+    .from('appointments')
+    .select('id, member_id, status, starts_at, ends_at, pieces, customer_name, customer_phone, notes, deposit_status, deposit_amount, updated_at')
+    .eq('tenant_id', tenant.id)
+    .in('status', [...LIVE_APPOINTMENT_STATUSES, 'completed'])
+    .gte('starts_at', from.toISOString())
+    .lte('starts_at', to.toISOString());
+  if (feed.member_id) appointmentsQuery = appointmentsQuery.eq('member_id', feed.member_id);
+
+  const [eventsRes, partiesRes, appointmentsRes, memberRes] = await Promise.all([
+    db.from('events')
+      .select('id, name, description, location, start_time, end_time, booth_fee, notes, updated_at')
+      .eq('tenant_id', tenant.id)
+      .eq('is_active', true)
+      .gte('start_time', from.toISOString())
+      .lte('start_time', to.toISOString()),
+    db.from('party_requests')
+      .select('id, host_name, host_phone, preferred_date, preferred_time, location, estimated_guests, occasion, event_id, deposit_amount, deposit_status, updated_at')
+      .eq('tenant_id', tenant.id)
+      .in('status', ['confirmed', 'completed'])
+      .not('preferred_date', 'is', null)
+      .gte('preferred_date', from.toISOString().slice(0, 10))
+      .lte('preferred_date', to.toISOString().slice(0, 10)),
+    appointmentsQuery,
+    feed.member_id
+      ? db.from('tenant_members').select('display_name').eq('id', feed.member_id).single()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  const parties = partiesRes.data || [];
+  const partyByEvent = new Map(parties.filter((p) => p.event_id).map((p) => [p.event_id as string, p]));
+
+  const partyLines = (p: (typeof parties)[number]) => [
+    `Host: ${p.host_name}${p.host_phone ? ` (${p.host_phone})` : ''}`,
+    p.occasion ? `Occasion: ${p.occasion}` : null,
+    p.estimated_guests ? `Guests: ~${p.estimated_guests}` : null,
+    `${DEPOSIT_LABELS[p.deposit_status] || 'Deposit'}${Number(p.deposit_amount) > 0 ? ` (${money(p.deposit_amount)})` : ''}`,
+  ];
+
+  const entries: CalendarFeedEvent[] = [];
+
+  for (const e of eventsRes.data || []) {
+    // A party that became an event is shown once, with the party's details
+    const party = partyByEvent.get(e.id);
+    const lines = party
+      ? [...partyLines(party), e.description]
+      : [e.description, Number(e.booth_fee) > 0 ? `Booth fee: ${money(e.booth_fee)}` : null, e.notes];
+    entries.push({
+      uid: `event-${e.id}@sunstonepj.app`,
+      summary: party ? `Party: ${party.host_name}` : e.name,
+      start: new Date(e.start_time),
+      end: e.end_time ? new Date(e.end_time) : null,
+      location: e.location || party?.location,
+      description: lines.filter(Boolean).join('\n'),
+      status: 'CONFIRMED',
+      url: `${appUrl}/dashboard/events`,
+      updatedAt: e.updated_at,
+    });
+  }
+
+  for (const p of parties) {
+    if (p.event_id && (eventsRes.data || []).some((e) => e.id === p.event_id)) continue;
+
+    const date = p.preferred_date as string;
+    const clock = parseClockTime(p.preferred_time);
+    const [year, month, day] = date.slice(0, 10).split('-').map((n) => parseInt(n, 10));
+    const start = clock ? zonedTimeToUtc(year, month, day, clock[0], clock[1], timeZone) : new Date(`${date}T00:00:00Z`);
+    entries.push({
+      uid: `party-${p.id}@sunstonepj.app`,
+      summary: `Party: ${p.host_name}`,
+      start,
+      end: clock ? new Date(start.getTime() + PARTY_DEFAULT_HOURS * 3_600_000) : null,
+      allDayDate: clock ? undefined : date,
+      location: p.location,
+      description: [...partyLines(p), !clock && p.preferred_time ? `Time: ${p.preferred_time}` : null]
+        .filter(Boolean)
+        .join('\n'),
+      status: 'CONFIRMED',
+      url: `${appUrl}/dashboard/parties`,
+      updatedAt: p.updated_at,
+    });
+  }
+
+  for (const a of appointmentsRes.data || []) {
+    entries.push({
+      uid: `appointment-${a.id}@sunstonepj.app`,
+      summary: `Appointment: ${a.customer_name} (${a.pieces} piece${a.pieces === 1 ? '' : 's'})`,
+      start: new Date(a.starts_at),
+      end: new Date(a.ends_at),
+      description: [
+        a.customer_phone,
+        a.deposit_status !== 'none' ? `${DEPOSIT_LABELS[a.deposit_status]} (${money(a.deposit_amount)})` : null,
+        a.notes,
+      ].filter(Boolean).join('\n'),
+      status: a.status === 'pending_deposit' ? 'TENTATIVE' : 'CONFIRMED',
+      url: `${appUrl}/dashboard/appointments`,
+      updatedAt: a.updated_at,
+    });
+  }
+
+  entries.sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  // Fire-and-forget: lets the settings screen show when a feed was last synced
+  db.from('calendar_feeds').update({ last_accessed_at: new Date().toISOString() }).eq('id', feed.id).then(() => {});
+
+  const memberName = (memberRes.data as { display_name: string | null } | null)?.display_name;
+  const body = buildCalendar({
+    name: memberName ? `${tenant.name} — ${memberName}` : tenant.name,
+    timeZone,
+    events: entries,
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="calendar.ics"',
+      'Cache-Control': 'private, max-age=300',
+    },
+  });
+}
@@ -0,0 +1,39 @@
+// ============================================================================
+// Email Click — GET /api/public/email/[token]/click?l=<index>
+// ============================================================================
+// Every link in an email broadcast goes through here. Records the click and
+// redirects to the link the broadcast recorded at that index — never to a
+// URL from the query string, so this can't be used as an open redirect.
+// ============================================================================
+
+import { NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export async function GET(request: Request, context: RouteContext) {
+  const { token } = await context.params;
+  const index = parseInt(new URL(request.url).searchParams.get('l') || '', 10);
+
+  if (!UUID_RE.test(token) || !Number.isInteger(index) || index < 0) {
+    return new Response('Link not found', { status: 404 });
+  }
+
+  const supabase = await createServiceRoleClient();
+  const { data: url, error } = await supabase.rpc('track_broadcast_email', {
+    p_token: token,
+    p_event: 'click',
+    p_link: index,
+  });
+
+  if (error) console.error('[Email Tracking] Click failed:', error);
+  if (typeof url !== 'string' || !url) {
+    return new Response('Link not found', { status: 404 });
+  }
+
+  return NextResponse.redirect(url, 302);
+}
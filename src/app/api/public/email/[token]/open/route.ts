@@ -0,0 +1,34 @@
+// ============================================================================
+// Email Open Pixel — GET /api/public/email/[token]/open
+// ============================================================================
+// 1×1 GIF at the bottom of every email broadcast. Records an open on the
+// recipient's broadcast message. Always returns the image, so a bad token
+// doesn't show a broken image.
+// ============================================================================
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+export async function GET(_request: Request, context: RouteContext) {
+  const { token } = await context.params;
+
+  if (UUID_RE.test(token)) {
+    const supabase = await createServiceRoleClient();
+    const { error } = await supabase.rpc('track_broadcast_email', { p_token: token, p_event: 'open' });
+    if (error) console.error('[Email Tracking] Open failed:', error);
+  }
+
+  return new Response(PIXEL, {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, no-cache, must-revalidate, max-age=0',
+    },
+  });
+}
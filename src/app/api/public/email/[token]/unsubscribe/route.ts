@@ -0,0 +1,112 @@
+// ============================================================================
+// Email Unsubscribe — GET + POST /api/public/email/[token]/unsubscribe
+// ============================================================================
+// GET: the Unsubscribe link in the email footer. Shows a page with an
+// Unsubscribe button that POSTs back here — link scanners and previewers
+// follow GETs, so a GET alone never unsubscribes anyone.
+// POST: unsubscribes the client from the tenant's broadcast and workflow
+// emails. The page's button gets a confirmation page; anything else is
+// treated as RFC 8058 one-click unsubscribe from the List-Unsubscribe header.
+// Sets clients.email_unsubscribed_at; the team can see it on the client.
+// ============================================================================
+
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { checkRateLimit, getClientIP, rateLimitHeaders } from '@/lib/rate-limit';
+
+interface RouteContext {
+  params: Promise<{ token: string }>;
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const RATE_LIMIT = { prefix: 'email-unsubscribe', limit: 30, windowSeconds: 60 };
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function page(title: string, message: string, status = 200, form = ''): Response {
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body style="margin: 0; padding: 48px 16px; background: #F5F5F4; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+  <div style="max-width: 440px; margin: 0 auto; background: #ffffff; border-radius: 16px; padding: 32px; text-align: center;">
+    <h1 style="margin: 0 0 12px; font-size: 22px; color: #111827;">${escapeHtml(title)}</h1>
+    <p style="margin: 0; font-size: 15px; line-height: 1.6; color: #4B5563;">${escapeHtml(message)}</p>${form}
+  </div>
+</body>
+</html>`;
+  return new Response(html, { status, headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+interface UnsubscribeTarget {
+  messageId: string;
+  clientId: string;
+  business: string;
+}
+
+/** The message the token was sent with, or null if the token is unknown. */
+async function findTarget(token: string): Promise<UnsubscribeTarget | null> {
+  if (!UUID_RE.test(token)) return null;
+  const supabase = await createServiceRoleClient();
+  const { data: message } = await supabase
+    .from('broadcast_messages')
+    .select('id, client_id, broadcast:broadcasts(tenant:tenants(name))')
+    .eq('tracking_token', token)
+    .single();
+  if (!message) return null;
+
+  const broadcast = message.broadcast as unknown as { tenant: { name: string | null } | null } | null;
+  return { messageId: message.id, clientId: message.client_id, business: broadcast?.tenant?.name || 'this business' };
+}
+
+async function unsubscribe(target: UnsubscribeTarget): Promise<void> {
+  const supabase = await createServiceRoleClient();
+  const now = new Date().toISOString();
+  await Promise.all([
+    supabase.from('clients').update({ email_unsubscribed_at: now }).eq('id', target.clientId).is('email_unsubscribed_at', null),
+    supabase.from('broadcast_messages').update({ unsubscribed_at: now }).eq('id', target.messageId).is('unsubscribed_at', null),
+  ]);
+}
+
+const NOT_RECOGNIZED = 'This unsubscribe link is invalid or has expired. Reply to the email and we\'ll take you off the list.';
+
+/** Field the confirmation page's form posts, to tell it apart from one-click. */
+const CONFIRM_FIELD = 'confirm';
+
+export async function GET(request: Request, context: RouteContext) {
+  const { token } = await context.params;
+
+  const rl = await checkRateLimit(getClientIP(request), RATE_LIMIT);
+  if (!rl.allowed) return new Response('Too many requests', { status: 429, headers: rateLimitHeaders(rl) });
+
+  const target = await findTarget(token);
+  if (!target) return page('Link not recognized', NOT_RECOGNIZED, 404);
+
+  const form = `
+    <form method="POST" style="margin: 24px 0 0;">
+      <input type="hidden" name="${CONFIRM_FIELD}" value="1">
+      <button type="submit" style="width: 100%; padding: 12px 16px; border: 0; border-radius: 10px; background: #111827; color: #ffffff; font-size: 15px; font-weight: 600; cursor: pointer;">Unsubscribe</button>
+    </form>`;
+  return page('Unsubscribe?', `You'll stop getting marketing emails from ${target.business}.`, 200, form);
+}
+
+export async function POST(request: Request, context: RouteContext) {
+  const { token } = await context.params;
+
+  const rl = await checkRateLimit(getClientIP(request), RATE_LIMIT);
+  if (!rl.allowed) return new Response('Too many requests', { status: 429, headers: rateLimitHeaders(rl) });
+
+  const form = await request.formData().catch(() => null);
+  const fromPage = form?.get(CONFIRM_FIELD) === '1';
+
+  const target = await findTarget(token);
+  if (target) await unsubscribe(target);
+
+  if (!fromPage) return new Response(null, { status: target ? 200 : 404 });
+  if (!target) return page('Link not recognized', NOT_RECOGNIZED, 404);
+  return page('You\'re unsubscribed', `You won't get any more marketing emails from ${target.business}.`);
+}
@@ -6,8 +6,14 @@
 
 import { NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
+import { checkRateLimit, getClientIP, rateLimitResponse } from '@/lib/rate-limit';
+
+const RATE_LIMIT = { prefix: 'public-party', limit: 60, windowSeconds: 60 };
 
 export async function GET(request: Request) {
+  const rl = await checkRateLimit(getClientIP(request), RATE_LIMIT);
+  if (!rl.allowed) return rateLimitResponse(rl);
+
   const { searchParams } = new URL(request.url);
   const id = searchParams.get('id');
 
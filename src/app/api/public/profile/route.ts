@@ -1,14 +1,23 @@
 // ============================================================================
 // Public Profile API — GET /api/public/profile?slug=X
 // ============================================================================
-// Returns tenant profile info, product types with min prices, and upcoming events.
+// Returns tenant profile info, product types with min prices, upcoming events,
+// and appointment booking options (when the studio takes appointments).
 // Uses service role to bypass RLS — this is a public endpoint.
 // ============================================================================
 
 import { NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
+import { resolveTimeZone } from '@/lib/timezone';
+import { appointmentDurationMinutes } from '@/lib/appointments';
+import { checkRateLimit, getClientIP, rateLimitResponse } from '@/lib/rate-limit';
+
+const RATE_LIMIT = { prefix: 'public-profile', limit: 60, windowSeconds: 60 };
 
 export async function GET(request: Request) {
+  const rl = await checkRateLimit(getClientIP(request), RATE_LIMIT);
+  if (!rl.allowed) return rateLimitResponse(rl);
+
   const { searchParams } = new URL(request.url);
   const slug = searchParams.get('slug');
 
@@ -21,7 +30,7 @@ export async function GET(request: Request) {
   // Fetch tenant
   const { data: tenant, error: tenantError } = await supabase
     .from('tenants')
-    .select('id, name, slug, logo_url, bio, city, state, phone, website, instagram_url, facebook_url, tiktok_url, theme_id, profile_settings, dedicated_phone_number, waiver_text, waiver_required, pricing_mode')
+    .select('id, name, slug, logo_url, bio, city, state, phone, website, instagram_url, facebook_url, tiktok_url, theme_id, profile_settings, dedicated_phone_number, waiver_text, waiver_required, pricing_mode, time_zone, avg_service_minutes, appointments_enabled, appointment_max_pieces, appointment_max_days_ahead, appointment_deposit_amount, stripe_account_id')
     .eq('slug', slug)
     .single();
 
@@ -92,6 +101,42 @@ export async function GET(request: Request) {
     events = evts || [];
   }
 
+  // Appointment booking — only artists who have set weekly hours are bookable
+  let appointments: {
+    time_zone: string;
+    minutes_per_piece: number;
+    max_pieces: number;
+    max_days_ahead: number;
+    deposit_amount: number;
+    staff: { id: string; name: string }[];
+  } | null = null;
+  if (tenant.appointments_enabled) {
+    const { data: windows } = await supabase
+      .from('appointment_availability')
+      .select('member_id')
+      .eq('tenant_id', tenant.id);
+
+    const memberIds = [...new Set((windows || []).map((w: { member_id: string }) => w.member_id))];
+    if (memberIds.length > 0) {
+      const { data: members } = await supabase
+        .from('tenant_members')
+        .select('id, display_name')
+        .in('id', memberIds);
+
+      appointments = {
+        time_zone: resolveTimeZone(tenant),
+        minutes_per_piece: appointmentDurationMinutes(tenant, 1),
+        max_pieces: tenant.appointment_max_pieces,
+        max_days_ahead: tenant.appointment_max_days_ahead,
+        deposit_amount: tenant.stripe_account_id ? Number(tenant.appointment_deposit_amount) || 0 : 0,
+        staff: (members || []).map((m: { id: string; display_name: string | null }, i: number) => ({
+          id: m.id,
+          name: m.display_name || `Artist ${i + 1}`,
+        })),
+      };
+    }
+  }
+
   return NextResponse.json({
     tenant: {
       id: tenant.id,
@@ -114,5 +159,6 @@ export async function GET(request: Request) {
     services,
     events,
     tiers,
+    appointments,
   });
 }
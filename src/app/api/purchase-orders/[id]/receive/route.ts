@@ -0,0 +1,66 @@
+// ============================================================================
+// Receive Purchase Order — POST /api/purchase-orders/[id]/receive
+// src/app/api/purchase-orders/[id]/receive/route.ts
+// ============================================================================
+// Books one shipment via receive_purchase_order(): restock movements,
+// landed cost per unit (shipping spread by value) and, optionally, the new
+// cost_per_unit on each item.
+// Body: { lines: [{ line_id, quantity, unit_cost? }], shipping_cost?,
+//         update_costs?, notes? }
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'inventory:edit')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const lines = Array.isArray(body.lines)
+    ? (body.lines as { line_id: string; quantity: number; unit_cost?: number | null }[])
+        .filter((l) => l.line_id && Number(l.quantity) > 0)
+        .map((l) => ({
+          line_id: l.line_id,
+          quantity: Number(l.quantity),
+          ...(l.unit_cost !== undefined && l.unit_cost !== null ? { unit_cost: Number(l.unit_cost) } : {}),
+        }))
+    : [];
+  if (lines.length === 0) {
+    return NextResponse.json({ error: 'Enter what arrived for at least one line' }, { status: 400 });
+  }
+
+  const shippingCost = Number(body.shipping_cost) || 0;
+  if (shippingCost < 0) return NextResponse.json({ error: 'Shipping can’t be negative' }, { status: 400 });
+
+  const { data, error } = await supabase.rpc('receive_purchase_order', {
+    p_po_id: id,
+    p_lines: lines,
+    p_shipping_cost: shippingCost,
+    p_update_costs: body.update_costs === true,
+    p_notes: body.notes?.trim() || null,
+  });
+  if (error) {
+    console.error('[Purchase Orders] Receive error:', error);
+    return NextResponse.json({ error: error.message || 'Failed to receive' }, { status: 400 });
+  }
+
+  return NextResponse.json(data);
+}
@@ -0,0 +1,156 @@
+// ============================================================================
+// Purchase Order — GET/PATCH/DELETE /api/purchase-orders/[id]
+// src/app/api/purchase-orders/[id]/route.ts
+// ============================================================================
+// GET: The PO with supplier, lines and receipts.
+// PATCH: { expected_date?, shipping_cost?, notes?, lines? } — lines can be
+//        replaced until something has been received.
+//        { action: 'mark_sent' } — sent outside the app (phone, portal).
+//        { action: 'cancel' } — nothing received yet.
+//        { action: 'close' } — stop waiting on a short shipment.
+// DELETE: Drafts only.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { PURCHASE_ORDER_SELECT, resolvePurchaseOrderLines } from '@/lib/purchase-orders';
+import type { PurchaseOrder } from '@/types';
+
+async function getContext(id: string, permission: 'inventory:view' | 'inventory:edit') {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return { error: NextResponse.json({ error: 'No tenant membership' }, { status: 403 }) };
+  if (!hasPermission(roleGrant(member), permission)) {
+    return { error: NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 }) };
+  }
+
+  const { data: po } = await supabase
+    .from('purchase_orders')
+    .select(PURCHASE_ORDER_SELECT)
+    .eq('id', id)
+    .eq('tenant_id', member.tenant_id)
+    .single();
+  if (!po) return { error: NextResponse.json({ error: 'Purchase order not found' }, { status: 404 }) };
+
+  return { supabase, tenantId: member.tenant_id as string, po: po as unknown as PurchaseOrder };
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const ctx = await getContext(id, 'inventory:view');
+  if (ctx.error) return ctx.error;
+  const { po } = ctx;
+
+  po.lines?.sort((a, b) => a.sort_order - b.sort_order);
+  po.receipts?.sort((a, b) => a.received_at.localeCompare(b.received_at));
+  return NextResponse.json(po);
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const ctx = await getContext(id, 'inventory:edit');
+  if (ctx.error) return ctx.error;
+  const { supabase, tenantId, po } = ctx;
+
+  const body = await request.json().catch(() => ({}));
+  const now = new Date().toISOString();
+  const hasReceipts = (po.receipts?.length || 0) > 0;
+
+  if (body.action) {
+    let status: PurchaseOrder['status'];
+    if (body.action === 'mark_sent') {
+      if (po.status !== 'draft') return NextResponse.json({ error: 'Only drafts can be marked as sent' }, { status: 400 });
+      status = 'sent';
+    } else if (body.action === 'cancel') {
+      if (hasReceipts) return NextResponse.json({ error: 'Part of this order has been received — close it instead' }, { status: 400 });
+      if (po.status === 'cancelled') return NextResponse.json({ error: 'Already cancelled' }, { status: 400 });
+      status = 'cancelled';
+    } else if (body.action === 'close') {
+      if (po.status !== 'partially_received') return NextResponse.json({ error: 'Only partially received orders can be closed' }, { status: 400 });
+      status = 'received';
+    } else {
+      return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+    }
+
+    const { error } = await supabase
+      .from('purchase_orders')
+      .update({
+        status,
+        sent_at: status === 'sent' ? now : po.sent_at,
+        received_at: body.action === 'close' ? now : po.received_at,
+        updated_at: now,
+      })
+      .eq('id', id);
+    if (error) return NextResponse.json({ error: 'Failed to update purchase order' }, { status: 500 });
+    return NextResponse.json({ success: true, status });
+  }
+
+  if (po.status === 'received' || po.status === 'cancelled') {
+    return NextResponse.json({ error: `This purchase order is ${po.status}` }, { status: 400 });
+  }
+
+  const updates: Record<string, unknown> = {};
+  if (body.expected_date !== undefined) updates.expected_date = body.expected_date || null;
+  if (body.notes !== undefined) updates.notes = body.notes?.trim() || null;
+  if (body.shipping_cost !== undefined) {
+    const shipping = Number(body.shipping_cost) || 0;
+    if (shipping < 0) return NextResponse.json({ error: 'Shipping can’t be negative' }, { status: 400 });
+    updates.shipping_cost = shipping;
+  }
+
+  if (body.lines !== undefined) {
+    if (hasReceipts) {
+      return NextResponse.json({ error: 'Lines can’t be changed after receiving — start a new PO for extra items' }, { status: 400 });
+    }
+    const resolved = await resolvePurchaseOrderLines(supabase, tenantId, body.lines);
+    if ('error' in resolved) return NextResponse.json({ error: resolved.error }, { status: 400 });
+
+    const { error: deleteError } = await supabase.from('purchase_order_lines').delete().eq('purchase_order_id', id);
+    if (deleteError) return NextResponse.json({ error: 'Failed to update lines' }, { status: 500 });
+    const { error: insertError } = await supabase
+      .from('purchase_order_lines')
+      .insert(resolved.lines.map((l) => ({ ...l, purchase_order_id: id })));
+    if (insertError) return NextResponse.json({ error: 'Failed to update lines' }, { status: 500 });
+  }
+
+  const { error } = await supabase
+    .from('purchase_orders')
+    .update({ ...updates, updated_at: now })
+    .eq('id', id);
+  if (error) return NextResponse.json({ error: 'Failed to update purchase order' }, { status: 500 });
+
+  return NextResponse.json({ success: true });
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const ctx = await getContext(id, 'inventory:edit');
+  if (ctx.error) return ctx.error;
+  const { supabase, po } = ctx;
+
+  if (po.status !== 'draft') {
+    return NextResponse.json({ error: 'Only drafts can be deleted — cancel it instead' }, { status: 400 });
+  }
+
+  const { error } = await supabase.from('purchase_orders').delete().eq('id', id);
+  if (error) return NextResponse.json({ error: 'Failed to delete purchase order' }, { status: 500 });
+  return NextResponse.json({ success: true });
+}
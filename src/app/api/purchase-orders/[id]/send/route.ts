@@ -0,0 +1,165 @@
+// ============================================================================
+// Send Purchase Order — POST /api/purchase-orders/[id]/send
+// src/app/api/purchase-orders/[id]/send/route.ts
+// ============================================================================
+// Emails the PO as a PDF to the supplier contact (or body.to) with replies
+// going to the sender, then marks a draft as sent.
+// Body: { to?, message? }
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { logEmailCost } from '@/lib/cost-tracker';
+import { generatePurchaseOrderPDF } from '@/lib/generate-po-pdf';
+import { PURCHASE_ORDER_SELECT, purchaseOrderPdfData } from '@/lib/purchase-orders';
+import type { PurchaseOrder } from '@/types';
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+function escapeHtml(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function buildPurchaseOrderEmailHTML(params: {
+  tenantName: string;
+  contactName: string | null;
+  poNumber: string;
+  message: string | null;
+  accentColor: string;
+}): string {
+  const { tenantName, contactName, poNumber, message, accentColor } = params;
+  const greeting = contactName ? `Hi ${escapeHtml(contactName.split(' ')[0])},` : 'Hello,';
+  const body = message
+    ? escapeHtml(message).split('\n').map((line) => `<p style="margin: 0 0 12px; font-size: 14px; color: #374151; line-height: 1.6;">${line}</p>`).join('')
+    : `<p style="margin: 0 0 12px; font-size: 14px; color: #374151; line-height: 1.6;">Please find purchase order <strong>${poNumber}</strong> attached. Reply to this email to confirm or with any questions.</p>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Purchase Order ${poNumber}</title></head>
+<body style="margin: 0; padding: 0; background-color: #f9fafb; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse;">
+    <tr>
+      <td style="padding: 32px 16px;">
+        <table role="presentation" style="max-width: 560px; margin: 0 auto; background-color: #ffffff; border-radius: 12px; overflow: hidden; box-shadow: 0 1px 3px rgba(0,0,0,0.08);">
+          <tr>
+            <td style="padding: 28px 32px 20px; border-bottom: 1px solid #f3f4f6;">
+              <h1 style="margin: 0; font-size: 20px; font-weight: 700; color: ${accentColor};">${escapeHtml(tenantName)}</h1>
+              <p style="margin: 6px 0 0; font-size: 13px; color: #6b7280;">Purchase Order ${poNumber}</p>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 28px 32px;">
+              <p style="margin: 0 0 16px; font-size: 15px; color: #374151;">${greeting}</p>
+              ${body}
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'inventory:edit')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  if (!process.env.RESEND_API_KEY || !process.env.RESEND_FROM_EMAIL) {
+    return NextResponse.json({ error: 'Email service not configured' }, { status: 503 });
+  }
+
+  const [{ data: poRow }, { data: tenant }] = await Promise.all([
+    supabase
+      .from('purchase_orders')
+      .select(PURCHASE_ORDER_SELECT)
+      .eq('id', id)
+      .eq('tenant_id', member.tenant_id)
+      .single(),
+    supabase
+      .from('tenants')
+      .select('name, brand_color, phone')
+      .eq('id', member.tenant_id)
+      .single(),
+  ]);
+  if (!poRow || !tenant) return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 });
+  const po = poRow as unknown as PurchaseOrder;
+
+  if (po.status === 'cancelled') {
+    return NextResponse.json({ error: 'This purchase order was cancelled' }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const to = String(body.to || po.supplier?.contact_email || '').trim();
+  if (!EMAIL_RE.test(to)) {
+    return NextResponse.json({ error: 'Add an email for this supplier, or enter one to send to' }, { status: 400 });
+  }
+
+  const doc = generatePurchaseOrderPDF(purchaseOrderPdfData(po, tenant, user.email));
+  const pdfBase64 = Buffer.from(doc.output('arraybuffer')).toString('base64');
+  const subject = `Purchase Order ${po.po_number} from ${tenant.name}`;
+
+  const { Resend } = await import('resend');
+  const resend = new Resend(process.env.RESEND_API_KEY);
+  const { error: sendError } = await resend.emails.send({
+    from: process.env.RESEND_FROM_EMAIL,
+    to,
+    replyTo: user.email || undefined,
+    subject,
+    html: buildPurchaseOrderEmailHTML({
+      tenantName: tenant.name,
+      contactName: po.supplier?.contact_name || null,
+      poNumber: po.po_number,
+      message: body.message?.trim() || null,
+      accentColor: tenant.brand_color || '#111827',
+    }),
+    attachments: [{ filename: `${po.po_number.toLowerCase()}.pdf`, content: pdfBase64 }],
+  });
+  if (sendError) {
+    console.error('[Purchase Orders] Email error:', sendError);
+    return NextResponse.json({ error: 'Failed to send email' }, { status: 500 });
+  }
+
+  logEmailCost({ tenantId: member.tenant_id, operation: 'email_purchase_order' });
+
+  const now = new Date().toISOString();
+  await supabase
+    .from('purchase_orders')
+    .update({
+      status: po.status === 'draft' ? 'sent' : po.status,
+      sent_at: now,
+      sent_to: to,
+      updated_at: now,
+    })
+    .eq('id', id);
+
+  supabase.from('message_log').insert({
+    tenant_id: member.tenant_id,
+    direction: 'outbound',
+    channel: 'email',
+    recipient_email: to,
+    subject,
+    body: `Purchase order ${po.po_number} PDF sent to ${po.supplier?.name || to}`,
+    source: 'purchase_order',
+    status: 'sent',
+  }).then(null, () => {});
+
+  return NextResponse.json({ sent: true, to });
+}
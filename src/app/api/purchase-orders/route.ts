@@ -0,0 +1,136 @@
+// ============================================================================
+// Purchase Orders — GET/POST /api/purchase-orders
+// src/app/api/purchase-orders/route.ts
+// ============================================================================
+// GET: POs for the tenant, newest first, with supplier name and totals.
+//      Optional ?status=open (draft/sent/partially_received) or a status.
+// POST: Create a draft PO.
+//       Body: { supplier_id, expected_date?, shipping_cost?, notes?,
+//               lines: [{ inventory_item_id, inventory_variant_id?,
+//                         quantity_ordered, unit_cost?, supplier_sku? }] }
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { selectAll } from '@/lib/supabase/select-all';
+import {
+  nextPurchaseOrderNumber,
+  purchaseOrderSubtotal,
+  resolvePurchaseOrderLines,
+} from '@/lib/purchase-orders';
+import type { PurchaseOrder, PurchaseOrderSummary } from '@/types';
+
+async function getMember() {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { supabase, user: null, member: null };
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  return { supabase, user, member };
+}
+
+export async function GET(request: NextRequest) {
+  const { supabase, user, member } = await getMember();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'inventory:view')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const status = new URL(request.url).searchParams.get('status');
+
+  try {
+    const orders = await selectAll<PurchaseOrder>((from, to) => {
+      let query = supabase
+        .from('purchase_orders')
+        .select('*, supplier:suppliers(id, name, contact_name, contact_email, account_number), lines:purchase_order_lines(quantity_ordered, unit_cost)')
+        .eq('tenant_id', member.tenant_id);
+      if (status === 'open') query = query.in('status', ['draft', 'sent', 'partially_received']);
+      else if (status) query = query.eq('status', status);
+      return query
+        .order('created_at', { ascending: false })
+        .order('id')
+        .range(from, to) as unknown as PromiseLike<{ data: PurchaseOrder[] | null; error: { message: string } | null }>;
+    });
+
+    const summaries: PurchaseOrderSummary[] = orders.map(({ lines, ...po }) => ({
+      ...po,
+      line_count: lines?.length || 0,
+      total: Math.round((purchaseOrderSubtotal(lines || []) + Number(po.shipping_cost)) * 100) / 100,
+    }));
+    return NextResponse.json(summaries);
+  } catch (err: any) {
+    console.error('[Purchase Orders] List error:', err);
+    return NextResponse.json({ error: 'Failed to load purchase orders' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { supabase, user, member } = await getMember();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'inventory:edit')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (!body.supplier_id) return NextResponse.json({ error: 'Choose a supplier' }, { status: 400 });
+
+  const { data: supplier } = await supabase
+    .from('suppliers')
+    .select('id, is_sunstone')
+    .eq('id', body.supplier_id)
+    .eq('tenant_id', member.tenant_id)
+    .single();
+  if (!supplier) return NextResponse.json({ error: 'Supplier not found' }, { status: 404 });
+  if (supplier.is_sunstone) {
+    return NextResponse.json({ error: 'Sunstone orders go through Reorder so they’re billed and tracked with Sunstone' }, { status: 400 });
+  }
+
+  const shippingCost = Number(body.shipping_cost) || 0;
+  if (shippingCost < 0) return NextResponse.json({ error: 'Shipping can’t be negative' }, { status: 400 });
+
+  const resolved = await resolvePurchaseOrderLines(supabase, member.tenant_id, body.lines);
+  if ('error' in resolved) return NextResponse.json({ error: resolved.error }, { status: 400 });
+
+  // Two people creating a PO at the same moment can collide on the number — retry once
+  let po: PurchaseOrder | null = null;
+  for (let attempt = 0; attempt < 2 && !po; attempt++) {
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .insert({
+        tenant_id: member.tenant_id,
+        supplier_id: supplier.id,
+        po_number: await nextPurchaseOrderNumber(supabase, member.tenant_id),
+        expected_date: body.expected_date || null,
+        shipping_cost: shippingCost,
+        notes: body.notes?.trim() || null,
+        created_by: user.id,
+      })
+      .select()
+      .single();
+    if (data) po = data as PurchaseOrder;
+    else if (error?.code !== '23505') {
+      console.error('[Purchase Orders] Create error:', error);
+      return NextResponse.json({ error: 'Failed to create purchase order' }, { status: 500 });
+    }
+  }
+  if (!po) return NextResponse.json({ error: 'Failed to create purchase order' }, { status: 500 });
+
+  const { error: linesError } = await supabase
+    .from('purchase_order_lines')
+    .insert(resolved.lines.map((l) => ({ ...l, purchase_order_id: po!.id })));
+  if (linesError) {
+    await supabase.from('purchase_orders').delete().eq('id', po.id);
+    console.error('[Purchase Orders] Lines error:', linesError);
+    return NextResponse.json({ error: 'Failed to save purchase order lines' }, { status: 500 });
+  }
+
+  return NextResponse.json(po, { status: 201 });
+}
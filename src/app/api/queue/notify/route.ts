@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { checkRateLimit, getClientIP } from '@/lib/rate-limit';
+import { checkRateLimit, getClientIP, rateLimitHeaders } from '@/lib/rate-limit';
 import { logSmsCost } from '@/lib/cost-tracker';
-import { sendSMS } from '@/lib/twilio';
+import { sendSMS, isSmsOptedOut, SMS_OPTED_OUT } from '@/lib/twilio';
 
 const RATE_LIMIT = { prefix: 'queue-notify', limit: 10, windowSeconds: 60 };
 
@@ -9,9 +9,9 @@ export async function POST(request: NextRequest) {
   try {
     // Rate limit by IP (public endpoint)
     const ip = getClientIP(request);
-    const rl = checkRateLimit(ip, RATE_LIMIT);
+    const rl = await checkRateLimit(ip, RATE_LIMIT);
     if (!rl.allowed) {
-      return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: rateLimitHeaders(rl) });
     }
 
     const body = await request.json();
@@ -28,9 +28,12 @@ export async function POST(request: NextRequest) {
     }
 
     const smsBody = `Hi ${name}! You're next at the ${tenantName || 'Sunstone'} booth. Please head over now!`;
-    const sid = await sendSMS({ to: phone, body: smsBody, tenantId: tenantId || undefined });
+    const sid = await sendSMS({ to: phone, body: smsBody, tenantId: tenantId || undefined, source: 'queue_notify' });
 
     if (!sid) {
+      if (tenantId && await isSmsOptedOut(tenantId, phone)) {
+        return NextResponse.json({ sent: false, reason: SMS_OPTED_OUT });
+      }
       return NextResponse.json({ sent: false, reason: 'Twilio not configured' });
     }
 
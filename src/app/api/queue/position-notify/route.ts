@@ -8,9 +8,9 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
-import { checkRateLimit, getClientIP } from '@/lib/rate-limit';
+import { checkRateLimit, getClientIP, rateLimitHeaders } from '@/lib/rate-limit';
 import { logSmsCost } from '@/lib/cost-tracker';
-import { sendSMS } from '@/lib/twilio';
+import { sendSMS, isSmsOptedOut, SMS_OPTED_OUT } from '@/lib/twilio';
 
 const RATE_LIMIT = { prefix: 'pos-notify', limit: 20, windowSeconds: 60 };
 
@@ -18,9 +18,9 @@ export async function POST(request: NextRequest) {
   try {
     // ── Rate limit by IP (public endpoint) ──────────────────────────────
     const ip = getClientIP(request);
-    const rl = checkRateLimit(ip, RATE_LIMIT);
+    const rl = await checkRateLimit(ip, RATE_LIMIT);
     if (!rl.allowed) {
-      return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: rateLimitHeaders(rl) });
     }
 
     const { queueEntryId } = await request.json();
@@ -94,9 +94,12 @@ export async function POST(request: NextRequest) {
       message = `Hi ${firstName}! You're checked in and #${position} in line. Estimated wait: about ${estimatedWait} minutes. We'll text you when it's your turn!`;
     }
 
-    const sid = await sendSMS({ to: entry.phone, body: message, tenantId });
+    const sid = await sendSMS({ to: entry.phone, body: message, tenantId, source: 'queue_position' });
 
     if (!sid) {
+      if (await isSmsOptedOut(tenantId, entry.phone)) {
+        return NextResponse.json({ sent: false, reason: SMS_OPTED_OUT, position, estimatedWait });
+      }
       return NextResponse.json({ sent: false, reason: 'twilio_not_configured', position, estimatedWait });
     }
 
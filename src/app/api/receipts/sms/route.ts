@@ -6,7 +6,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
-import { sendSMS } from '@/lib/twilio';
+import { sendSMS, isSmsOptedOut, SMS_OPTED_OUT } from '@/lib/twilio';
 
 interface ReceiptSmsBody {
   to: string;
@@ -70,9 +70,12 @@ export async function POST(request: NextRequest) {
       smsBody += `\n${body.footer}`;
     }
 
-    const sid = await sendSMS({ to: body.to, body: smsBody, tenantId });
+    const sid = await sendSMS({ to: body.to, body: smsBody, tenantId, source: 'receipt', clientId: body.clientId });
 
     if (!sid) {
+      if (await isSmsOptedOut(tenantId, body.to)) {
+        return NextResponse.json({ sent: false, reason: SMS_OPTED_OUT, error: 'This customer has opted out of texts' });
+      }
       return NextResponse.json({ sent: false, error: 'SMS service not configured' }, { status: 503 });
     }
 
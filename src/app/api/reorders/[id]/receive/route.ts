@@ -112,15 +112,18 @@ export async function PATCH(
         })
         .eq('id', item.inventory_item_id);
 
-      // Create inventory movement
+      // Create inventory movement — opens a cost layer at the price paid
       await supabase
         .from('inventory_movements')
         .insert({
           tenant_id: member.tenant_id,
           inventory_item_id: item.inventory_item_id,
-          type: 'restock',
+          movement_type: 'restock',
           quantity: restockQty,
+          unit_cost: item.unit_price ?? null,
+          reference_id: id,
           notes: `Sunstone reorder ${orderRef}`,
+          performed_by: user.id,
         });
 
       restocked.push({ name: invItem.name, quantity: restockQty });
@@ -3,11 +3,164 @@
 // ============================================================================
 // POST: Process a refund for a completed sale.
 // Supports Stripe (destination charges), Square, and cash/manual refunds.
+//
+// Body: { amount?, reason?, items?: [{ sale_item_id, quantity, restock }] }
+// When `items` is given the refund targets those sale_items lines: the amount
+// defaults to their share of the sale, restocked lines return their chain
+// inches / units to inventory, and warranties on fully refunded lines are
+// voided. Gift card payments are credited back to the card first; cash
+// refunds are taken out of the cash drawer.
 // ============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
-import { hasPermission, type TenantRole } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { saleItemMaterialCost } from '@/lib/cost-layers';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+interface RefundLineRequest {
+  sale_item_id: string;
+  quantity: number;
+  restock?: boolean;
+}
+
+interface RefundLine {
+  sale_item_id: string;
+  name: string;
+  inventory_item_id: string | null;
+  inventory_variant_id: string | null;
+  quantity: number;
+  amount: number;
+  restock: boolean;
+  restock_quantity: number;
+  cogs_reversed: number;
+  fully_refunded: boolean;
+}
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Resolve requested lines against the sale's items and any earlier refunds.
+ * A line's amount is its share of the sale's subtotal applied to the amount
+ * actually charged (discounts and tax included, tip excluded).
+ */
+async function buildRefundLines(
+  db: SupabaseClient,
+  sale: any,
+  requested: RefundLineRequest[]
+): Promise<{ lines: RefundLine[] } | { error: string }> {
+  const ids = requested.map((line) => line.sale_item_id);
+
+  const [{ data: saleItems }, { data: priorItems }] = await Promise.all([
+    db.from('sale_items').select('*').eq('sale_id', sale.id).in('id', ids),
+    db.from('refund_items').select('sale_item_id, quantity').in('sale_item_id', ids),
+  ]);
+
+  const itemMap = new Map((saleItems || []).map((item: any) => [item.id as string, item]));
+  const refundedQty = new Map<string, number>();
+  for (const prior of priorItems || []) {
+    refundedQty.set(prior.sale_item_id, (refundedQty.get(prior.sale_item_id) || 0) + Number(prior.quantity));
+  }
+
+  const subtotal = Number(sale.subtotal) || 0;
+  const charged = Number(sale.total) - (Number(sale.tip_amount) || 0);
+
+  const lines: RefundLine[] = [];
+  for (const req of requested) {
+    const item = itemMap.get(req.sale_item_id);
+    if (!item) return { error: 'Refunded item does not belong to this sale' };
+
+    const soldQty = Number(item.quantity) || 0;
+    const remainingQty = soldQty - (refundedQty.get(item.id) || 0);
+    if (req.quantity > remainingQty + 0.0001) {
+      return { error: `Only ${remainingQty} of "${item.name}" left to refund` };
+    }
+
+    const fraction = soldQty > 0 ? req.quantity / soldQty : 0;
+    const lineShare = (Number(item.line_total) || 0) * fraction;
+    const amount = subtotal > 0 ? roundMoney((lineShare / subtotal) * charged) : 0;
+
+    // Chain lines return the inches used; everything else returns units
+    const inches = Number(item.inches_used) || 0;
+    const restock = !!req.restock && !!item.inventory_item_id;
+    const restockQuantity = restock ? (inches > 0 ? inches * fraction : req.quantity) : 0;
+
+    lines.push({
+      sale_item_id: item.id,
+      name: item.name,
+      inventory_item_id: item.inventory_item_id,
+      inventory_variant_id: item.inventory_variant_id || null,
+      quantity: req.quantity,
+      amount,
+      restock,
+      restock_quantity: Math.round(restockQuantity * 10000) / 10000,
+      cogs_reversed: restock ? roundMoney(saleItemMaterialCost(item) * fraction) : 0,
+      fully_refunded: req.quantity >= remainingQty - 0.0001,
+    });
+  }
+
+  return { lines };
+}
+
+/**
+ * Record a cash refund as a negative adjustment on the drawer that took the
+ * sale, or on the tenant's currently open drawer if that one is closed.
+ */
+async function reverseCashDrawer(
+  db: SupabaseClient,
+  opts: { tenantId: string; saleId: string; eventId: string | null; amount: number; reason: string | null }
+): Promise<void> {
+  const { data: saleTxn } = await db
+    .from('cash_drawer_transactions')
+    .select('session_id')
+    .eq('sale_id', opts.saleId)
+    .eq('type', 'sale')
+    .limit(1)
+    .maybeSingle();
+
+  let drawerId: string | null = null;
+
+  if (saleTxn?.session_id) {
+    const { data: saleDrawer } = await db
+      .from('cash_drawers')
+      .select('id, status')
+      .eq('id', saleTxn.session_id)
+      .single();
+    if (saleDrawer?.status === 'open') drawerId = saleDrawer.id;
+  }
+
+  if (!drawerId) {
+    let openQuery = db
+      .from('cash_drawers')
+      .select('id')
+      .eq('tenant_id', opts.tenantId)
+      .eq('status', 'open');
+    if (opts.eventId) openQuery = openQuery.eq('event_id', opts.eventId);
+    const { data: openDrawer } = await openQuery
+      .order('opened_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    drawerId = openDrawer?.id || null;
+  }
+
+  if (!drawerId) return; // No open drawer — nothing to reconcile against
+
+  const { error } = await db
+    .from('cash_drawer_transactions')
+    .insert({
+      session_id: drawerId,
+      tenant_id: opts.tenantId,
+      sale_id: opts.saleId,
+      type: 'adjustment',
+      amount: -opts.amount,
+      description: opts.reason ? `Refund: ${opts.reason}` : 'Refund',
+    });
+
+  if (error) console.error('Cash drawer refund error:', error);
+}
 
 export async function POST(
   request: NextRequest,
@@ -23,10 +176,24 @@ export async function POST(
     const { id: saleId } = await params;
     const body = await request.json();
     const { amount, reason } = body;
+    const requestedItems: RefundLineRequest[] | null = Array.isArray(body.items) && body.items.length > 0
+      ? body.items
+      : null;
 
-    if (!amount || amount <= 0) {
+    if ((!requestedItems && amount == null) || (amount != null && (typeof amount !== 'number' || amount <= 0))) {
       return NextResponse.json({ error: 'Amount must be greater than 0' }, { status: 400 });
     }
+    if (requestedItems) {
+      for (const line of requestedItems) {
+        if (!line?.sale_item_id || typeof line.quantity !== 'number' || line.quantity <= 0) {
+          return NextResponse.json({ error: 'Each refunded item needs a sale_item_id and a quantity greater than 0' }, { status: 400 });
+        }
+      }
+      const ids = requestedItems.map((line) => line.sale_item_id);
+      if (new Set(ids).size !== ids.length) {
+        return NextResponse.json({ error: 'Each sale item can only appear once per refund' }, { status: 400 });
+      }
+    }
     if (reason && reason.length > 200) {
       return NextResponse.json({ error: 'Reason must be 200 characters or less' }, { status: 400 });
     }
@@ -36,7 +203,7 @@ export async function POST(
     // Get caller's role and tenant
     const { data: callerMember } = await serviceClient
       .from('tenant_members')
-      .select('tenant_id, role')
+      .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
       .eq('user_id', user.id)
       .limit(1)
       .single();
@@ -45,7 +212,7 @@ export async function POST(
       return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
     }
 
-    if (!hasPermission(callerMember.role as TenantRole, 'sales:refund')) {
+    if (!hasPermission(roleGrant(callerMember), 'sales:refund')) {
       return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
     }
 
@@ -87,13 +254,42 @@ export async function POST(
     const saleTotal = Number(sale.total);
     const maxRefundable = saleTotal - currentRefundAmount;
 
-    if (amount > maxRefundable + 0.01) {
+    // ── Line items: validate against what has already been refunded ──
+    let lines: RefundLine[] = [];
+    if (requestedItems) {
+      const result = await buildRefundLines(serviceClient, sale, requestedItems);
+      if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      lines = result.lines;
+    }
+
+    const requestedAmount = amount ?? roundMoney(lines.reduce((sum, l) => sum + l.amount, 0));
+    if (!requestedAmount || requestedAmount <= 0) {
+      return NextResponse.json({ error: 'Amount must be greater than 0' }, { status: 400 });
+    }
+
+    if (requestedAmount > maxRefundable + 0.01) {
       return NextResponse.json({
-        error: `Refund amount ($${amount.toFixed(2)}) exceeds remaining refundable amount ($${maxRefundable.toFixed(2)})`,
+        error: `Refund amount ($${requestedAmount.toFixed(2)}) exceeds remaining refundable amount ($${maxRefundable.toFixed(2)})`,
       }, { status: 400 });
     }
 
-    const refundAmount = Math.min(amount, maxRefundable);
+    const refundAmount = Math.min(requestedAmount, maxRefundable);
+
+    // ── Gift card portion goes back on the card, the rest to the original tender ──
+    let giftCardCredit = 0;
+    if (sale.gift_card_id && Number(sale.gift_card_amount_applied) > 0) {
+      const { data: priorRefunds } = await serviceClient
+        .from('refunds')
+        .select('gift_card_amount')
+        .eq('sale_id', saleId);
+      const alreadyCredited = (priorRefunds || []).reduce((sum, r) => sum + (Number(r.gift_card_amount) || 0), 0);
+      const creditable = Math.max(Number(sale.gift_card_amount_applied) - alreadyCredited, 0);
+      giftCardCredit = roundMoney(Math.min(refundAmount, creditable));
+    }
+    const tenderAmount = roundMoney(refundAmount - giftCardCredit);
+
     let stripeRefundId: string | null = null;
     let squareRefundId: string | null = null;
 
@@ -101,14 +297,16 @@ export async function POST(
     const provider = sale.payment_provider;
     const providerId = sale.payment_provider_id;
 
-    if (provider === 'stripe' && providerId) {
+    if (tenderAmount <= 0) {
+      // Fully covered by the gift card credit — nothing to send to a provider
+    } else if (provider === 'stripe' && providerId) {
       // Stripe destination charges: refund on the platform's PaymentIntent
       // No stripeAccount header — Stripe auto-reverses the transfer proportionally
       try {
         const stripe = require('stripe')(process.env.STRIPE_SECRET_KEY);
         const refund = await stripe.refunds.create({
           payment_intent: providerId,
-          amount: Math.round(refundAmount * 100), // cents
+          amount: Math.round(tenderAmount * 100), // cents
           reason: 'requested_by_customer',
         });
         stripeRefundId = refund.id;
@@ -143,7 +341,7 @@ export async function POST(
           idempotencyKey: `refund-${saleId}-${Date.now()}`,
           paymentId: providerId,
           amountMoney: {
-            amount: BigInt(Math.round(refundAmount * 100)),
+            amount: BigInt(Math.round(tenderAmount * 100)),
             currency: 'USD',
           },
           reason: reason || 'Customer refund',
@@ -168,6 +366,7 @@ export async function POST(
         amount: refundAmount,
         reason: reason || null,
         payment_method: sale.payment_method,
+        gift_card_amount: giftCardCredit,
         stripe_refund_id: stripeRefundId,
         square_refund_id: squareRefundId,
         created_by: user.id,
@@ -200,8 +399,117 @@ export async function POST(
       console.error('Sale update error:', updateError);
     }
 
+    // The money has moved at this point — follow-up bookkeeping is logged on
+    // failure rather than failing the request.
+
+    // Record refunded lines and return stock
+    let refundItems: any[] = [];
+    if (lines.length > 0) {
+      for (const line of lines) {
+        if (!line.restock) continue;
+        const { error: restockError } = await supabase.rpc('restock_inventory', {
+          p_item_id: line.inventory_item_id,
+          p_amount: line.restock_quantity,
+          p_tenant_id: tenantId,
+          p_reference_id: refund.id,
+          p_notes: `Refund: ${line.name}`,
+          p_performed_by: user.id,
+          p_variant_id: line.inventory_variant_id,
+        });
+        if (restockError) {
+          console.error('Restock error:', restockError);
+          line.restock = false;
+          line.restock_quantity = 0;
+          line.cogs_reversed = 0;
+        }
+      }
+
+      const { data: insertedItems, error: itemsError } = await serviceClient
+        .from('refund_items')
+        .insert(lines.map((line) => ({
+          tenant_id: tenantId,
+          refund_id: refund.id,
+          sale_item_id: line.sale_item_id,
+          quantity: line.quantity,
+          amount: line.amount,
+          restocked: line.restock,
+          restock_quantity: line.restock_quantity,
+          cogs_reversed: line.cogs_reversed,
+        })))
+        .select();
+
+      if (itemsError) console.error('Refund items insert error:', itemsError);
+      refundItems = insertedItems || [];
+    }
+
+    // Void warranties on fully refunded lines, or all of them on a full refund
+    const voidLineIds = lines.filter((l) => l.fully_refunded).map((l) => l.sale_item_id);
+    if (newRefundStatus === 'full' || voidLineIds.length > 0) {
+      let warrantyQuery = serviceClient
+        .from('warranties')
+        .update({ status: 'voided', updated_at: new Date().toISOString() })
+        .eq('sale_id', saleId)
+        .eq('tenant_id', tenantId)
+        .eq('status', 'active');
+      if (newRefundStatus !== 'full') {
+        warrantyQuery = warrantyQuery.in('sale_item_id', voidLineIds);
+      }
+      const { error: warrantyError } = await warrantyQuery;
+      if (warrantyError) console.error('Warranty void error:', warrantyError);
+    }
+
+    // Credit the gift card (balance + ledger entry in one call)
+    if (giftCardCredit > 0) {
+      const { data: giftCard } = await serviceClient
+        .from('gift_cards')
+        .select('id')
+        .eq('id', sale.gift_card_id)
+        .eq('tenant_id', tenantId)
+        .single();
+
+      if (giftCard) {
+        const { error: giftCardError } = await serviceClient.rpc('gift_card_post', {
+          p_gift_card_id: giftCard.id,
+          p_entry_type: 'refund',
+          p_amount: giftCardCredit,
+          p_note: reason || null,
+          p_sale_id: saleId,
+        });
+        if (giftCardError) console.error('Gift card credit error:', giftCardError);
+      }
+    }
+
+    // Take cash refunds out of the drawer
+    if (sale.payment_method === 'cash' && tenderAmount > 0) {
+      await reverseCashDrawer(serviceClient, {
+        tenantId,
+        saleId,
+        eventId: sale.event_id,
+        amount: tenderAmount,
+        reason: reason || null,
+      });
+    }
+
+    await recordAudit(serviceClient, {
+      tenantId,
+      actorUserId: user.id,
+      action: 'sale.refund',
+      entityType: 'sale',
+      entityId: saleId,
+      before: { refund_amount: currentRefundAmount, refund_status: sale.refund_status || null },
+      after: { refund_amount: newRefundTotal, refund_status: newRefundStatus },
+      metadata: {
+        refund_id: refund.id,
+        amount: refundAmount,
+        reason: reason || null,
+        payment_method: sale.payment_method,
+        items: refundItems.length,
+      },
+    });
+
     return NextResponse.json({
       refund,
+      refund_items: refundItems,
       sale: updatedSale,
       message: `Refund of $${refundAmount.toFixed(2)} processed successfully`,
     });
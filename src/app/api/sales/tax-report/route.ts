@@ -0,0 +1,71 @@
+// ============================================================================
+// Sales Tax Report — GET /api/sales/tax-report
+// src/app/api/sales/tax-report/route.ts
+// ============================================================================
+// Tax collected for a filing period, by jurisdiction component and by event.
+// ?from=YYYY-MM-DD&to=YYYY-MM-DD are local days, both inclusive (default:
+// the current month to date). Refunds in the period give back their share.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { resolveTimeZone, toLocalDateString, zonedTimeToUtc } from '@/lib/timezone';
+import { getSalesTaxReport } from '@/lib/sales-tax';
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Midnight at the start of a local YYYY-MM-DD, shifted by `dayOffset`. */
+function localMidnight(date: string, timeZone: string, dayOffset = 0): Date {
+  const [y, m, d] = date.split('-').map(Number);
+  return zonedTimeToUtc(y, m, d + dayOffset, 0, 0, timeZone);
+}
+
+export async function GET(request: NextRequest) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  if (!hasPermission(roleGrant(member), 'reports:view')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+  const tenantId = member.tenant_id;
+
+  const { data: tenant } = await supabase
+    .from('tenants')
+    .select('time_zone')
+    .eq('id', tenantId)
+    .single();
+  const timeZone = resolveTimeZone(tenant);
+
+  const { searchParams } = request.nextUrl;
+  const today = toLocalDateString(new Date(), timeZone);
+  const to = searchParams.get('to') || today;
+  const from = searchParams.get('from') || `${to.slice(0, 7)}-01`;
+  if (!DATE_RE.test(from) || !DATE_RE.test(to)) {
+    return NextResponse.json({ error: 'Dates must be YYYY-MM-DD' }, { status: 400 });
+  }
+  if (from > to) {
+    return NextResponse.json({ error: 'from must be on or before to' }, { status: 400 });
+  }
+
+  try {
+    const report = await getSalesTaxReport(supabase, tenantId, {
+      start: localMidnight(from, timeZone),
+      end: localMidnight(to, timeZone, 1),
+      from,
+      to,
+    });
+    return NextResponse.json(report);
+  } catch (err: any) {
+    console.error('[Sales Tax Report] Error:', err);
+    return NextResponse.json({ error: 'Failed to build sales tax report' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
+import { normalizeSegmentFilter, resolveSegmentClients, validateSegmentFilter } from '@/lib/segments';
 
 export async function GET(
   request: NextRequest,
@@ -19,32 +20,9 @@ export async function GET(
   if (error) return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   if (!segment) return NextResponse.json({ error: 'Not found' }, { status: 404 });
 
-  // Count matching clients based on filter_criteria (tag IDs)
-  const tagIds: string[] = segment.filter_criteria?.tagIds || [];
-  let matchCount = 0;
-
-  if (tagIds.length > 0) {
-    // Get clients who have ALL the specified tags
-    const { data: assignments } = await supabase
-      .from('client_tag_assignments')
-      .select('client_id, tag_id')
-      .in('tag_id', tagIds);
-
-    if (assignments) {
-      const clientTagCounts: Record<string, number> = {};
-      for (const a of assignments) {
-        clientTagCounts[a.client_id] = (clientTagCounts[a.client_id] || 0) + 1;
-      }
-      matchCount = Object.values(clientTagCounts).filter((c) => c >= tagIds.length).length;
-    }
-  } else {
-    // No tag filter — count all clients for this tenant
-    const { count } = await supabase
-      .from('clients')
-      .select('id', { count: 'exact', head: true })
-      .eq('tenant_id', segment.tenant_id);
-    matchCount = count || 0;
-  }
+  // Count matching clients by evaluating the segment's rules
+  const matches = await resolveSegmentClients(supabase, segment.tenant_id, segment.filter_criteria);
+  const matchCount = matches.length;
 
   return NextResponse.json({ ...segment, match_count: matchCount });
 }
@@ -62,7 +40,12 @@ export async function PATCH(
   const updates: Record<string, any> = {};
   if (body.name !== undefined) updates.name = body.name.trim();
   if (body.description !== undefined) updates.description = body.description || null;
-  if (body.filter_criteria !== undefined) updates.filter_criteria = body.filter_criteria;
+  if (body.filter_criteria !== undefined) {
+    const filter = normalizeSegmentFilter(body.filter_criteria);
+    const filterError = validateSegmentFilter(filter);
+    if (filterError) return NextResponse.json({ error: filterError }, { status: 400 });
+    updates.filter_criteria = filter;
+  }
   updates.updated_at = new Date().toISOString();
 
   const { data, error } = await supabase
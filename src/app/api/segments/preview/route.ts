@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { normalizeSegmentFilter, resolveSegmentClients, validateSegmentFilter } from '@/lib/segments';
+
+// POST: Live count for an unsaved segment filter (segment builder preview).
+// Pass include_ids: true to also get the matching client IDs for list filtering.
+export async function POST(request: NextRequest) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select('tenant_id')
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+  const tenantId = member.tenant_id;
+
+  const body = await request.json();
+  const filter = normalizeSegmentFilter(body.filter_criteria);
+  const filterError = validateSegmentFilter(filter);
+  if (filterError) return NextResponse.json({ error: filterError }, { status: 400 });
+
+  try {
+    const matches = await resolveSegmentClients(supabase, tenantId, filter);
+    return NextResponse.json({
+      count: matches.length,
+      sample: matches.slice(0, 5).map((c) => `${c.first_name || ''} ${c.last_name || ''}`.trim() || 'Unnamed'),
+      client_ids: body.include_ids ? matches.map((c) => c.id) : undefined,
+    });
+  } catch (err: any) {
+    console.error('[Segments] Preview failed:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
+import { normalizeSegmentFilter, validateSegmentFilter } from '@/lib/segments';
 
 export async function GET(request: NextRequest) {
   const supabase = await createServerSupabase();
@@ -46,13 +47,19 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'name required' }, { status: 400 });
   }
 
+  const filter = normalizeSegmentFilter(filter_criteria);
+  const filterError = validateSegmentFilter(filter);
+  if (filterError) {
+    return NextResponse.json({ error: filterError }, { status: 400 });
+  }
+
   const { data, error } = await supabase
     .from('client_segments')
     .insert({
       tenant_id: tenantId,
       name: name.trim(),
       description: description || null,
-      filter_criteria: filter_criteria || {},
+      filter_criteria: filter,
     })
     .select()
     .single();
@@ -11,9 +11,10 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
-import { checkRateLimit, getClientIP } from '@/lib/rate-limit';
+import { checkRateLimit, getClientIP, rateLimitHeaders } from '@/lib/rate-limit';
 import { provisionPhoneNumber, sendSMS } from '@/lib/twilio';
 import { sendReferralSignupEmail } from '@/lib/ambassador-emails';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '@/lib/timezone';
 
 const RATE_LIMIT = { prefix: 'signup', limit: 5, windowSeconds: 300 };
 
@@ -21,12 +22,12 @@ export async function POST(request: NextRequest) {
   try {
     // Rate limit by IP (5 signups per 5 minutes)
     const ip = getClientIP(request);
-    const rl = checkRateLimit(ip, RATE_LIMIT);
+    const rl = await checkRateLimit(ip, RATE_LIMIT);
     if (!rl.allowed) {
-      return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: rateLimitHeaders(rl) });
     }
 
-    const { userId, businessName, firstName, referralCode, email } = await request.json();
+    const { userId, businessName, firstName, referralCode, email, timeZone } = await request.json();
 
     if (!userId || !businessName) {
       return NextResponse.json(
@@ -79,6 +80,8 @@ export async function POST(request: NextRequest) {
         subscription_status: 'trialing',
         trial_ends_at: trialEndsAt.toISOString(),
         platform_fee_percent: 1.5,
+        // Browser zone at signup — editable later under Settings → My Business
+        time_zone: isValidTimeZone(timeZone) ? timeZone : DEFAULT_TIME_ZONE,
         // CRM: enabled during trial
         crm_enabled: true,
         crm_activated_at: new Date().toISOString(),
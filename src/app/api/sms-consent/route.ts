@@ -0,0 +1,100 @@
+// ============================================================================
+// SMS Consent — GET + POST /api/sms-consent
+// src/app/api/sms-consent/route.ts
+// ============================================================================
+// GET: the tenant's suppression list (numbers that won't be texted) and the
+// most recent consent events.
+// POST: manually opt a number out, or back in when the customer asks.
+// Body: { phone, status: 'opted_in' | 'opted_out', note? }
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN, type Permission } from '@/lib/permissions';
+import { normalizePhoneDigits } from '@/lib/twilio';
+import { recordSmsConsent } from '@/lib/sms-consent';
+
+const RECENT_EVENTS = 100;
+
+async function authorize(permission: Permission) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select(`tenant_id, role, ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return { error: NextResponse.json({ error: 'No tenant membership' }, { status: 403 }) };
+  if (!hasPermission(roleGrant(member), permission)) {
+    return { error: NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 }) };
+  }
+  return { tenantId: member.tenant_id as string, userId: user.id };
+}
+
+export async function GET() {
+  const auth = await authorize('clients:view');
+  if ('error' in auth) return auth.error;
+
+  const serviceClient = await createServiceRoleClient();
+  const [{ data: suppressions, error }, { data: events }] = await Promise.all([
+    serviceClient
+      .from('sms_suppressions')
+      .select('*, client:clients(id, first_name, last_name)')
+      .eq('tenant_id', auth.tenantId)
+      .order('opted_out_at', { ascending: false }),
+    serviceClient
+      .from('sms_consent_events')
+      .select('*')
+      .eq('tenant_id', auth.tenantId)
+      .order('created_at', { ascending: false })
+      .limit(RECENT_EVENTS),
+  ]);
+
+  if (error) {
+    console.error('[SMS Consent] List failed:', error);
+    return NextResponse.json({ error: 'Failed to load opt-outs' }, { status: 500 });
+  }
+
+  return NextResponse.json({ suppressions: suppressions || [], events: events || [] });
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize('clients:edit');
+  if ('error' in auth) return auth.error;
+
+  const body = await request.json().catch(() => null);
+  const phone = typeof body?.phone === 'string' ? body.phone.trim() : '';
+  const status = body?.status;
+  const note = typeof body?.note === 'string' ? body.note.trim().slice(0, 500) : '';
+
+  if (normalizePhoneDigits(phone).length < 10) {
+    return NextResponse.json({ error: 'Enter a 10-digit phone number' }, { status: 400 });
+  }
+  if (status !== 'opted_in' && status !== 'opted_out') {
+    return NextResponse.json({ error: 'status must be opted_in or opted_out' }, { status: 400 });
+  }
+
+  const serviceClient = await createServiceRoleClient();
+  const { data: matches } = await serviceClient.rpc('find_client_by_phone', {
+    p_tenant_id: auth.tenantId,
+    p_digits: normalizePhoneDigits(phone),
+  });
+
+  const recorded = await recordSmsConsent(serviceClient, {
+    tenantId: auth.tenantId,
+    phone,
+    status,
+    source: 'manual',
+    clientId: matches?.[0]?.id || null,
+    recordedBy: auth.userId,
+    note: note || null,
+  });
+  if (!recorded) {
+    return NextResponse.json({ error: 'Failed to update consent' }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -6,8 +6,8 @@
 // Uses service role to bypass RLS.
 //
 // Events handled:
-//   - checkout.session.completed (subscription + POS payment links)
-//   - checkout.session.expired (POS payment link timeout)
+//   - checkout.session.completed (subscription + POS payment links + deposits)
+//   - checkout.session.expired (POS payment link / deposit timeout)
 //   - customer.subscription.created
 //   - customer.subscription.updated
 //   - customer.subscription.deleted
@@ -24,6 +24,9 @@ import { createServiceRoleClient } from '@/lib/supabase/server';
 import { getPlatformFeePercent, type SubscriptionTier } from '@/lib/subscription';
 import { sendSMS } from '@/lib/twilio';
 import { markReferralConverted, markReferralChurned, createCommissionEntry } from '@/lib/commission-engine';
+import { resolveTimeZone } from '@/lib/timezone';
+import { formatAppointmentTime } from '@/lib/appointments';
+import { sendAppointmentConfirmation, notifyArtistOfBooking } from '@/lib/appointment-sms';
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2025-02-24.acacia' as any,
@@ -126,7 +129,7 @@ export async function POST(request: NextRequest) {
           try {
             const { data: saleItems } = await serviceRole
               .from('sale_items')
-              .select('inventory_item_id, inventory_variant_id, inches_used, quantity')
+              .select('id, tenant_id, inventory_item_id, inventory_variant_id, inches_used, quantity')
               .eq('sale_id', saleId);
 
             if (saleItems && saleItems.length > 0) {
@@ -182,6 +185,20 @@ export async function POST(request: NextRequest) {
                       .eq('id', si.inventory_item_id);
                   }
                 }
+
+                // Cost the line from the cost layers
+                const { data: cost } = await serviceRole.rpc('consume_cost_layers', {
+                  p_tenant_id: si.tenant_id,
+                  p_item_id: si.inventory_item_id,
+                  p_variant_id: si.inventory_variant_id || null,
+                  p_quantity: deductAmount,
+                });
+                if (cost !== null && cost !== undefined) {
+                  await serviceRole
+                    .from('sale_items')
+                    .update({ cost_snapshot: Number(cost) })
+                    .eq('id', si.id);
+                }
               }
             }
           } catch (invErr: any) {
@@ -242,6 +259,53 @@ export async function POST(request: NextRequest) {
           break;
         }
 
+        // ── Appointment deposit completed (from connected account) ──
+        if (session.mode === 'payment' && session.metadata?.type === 'appointment_deposit') {
+          const appointmentId = session.metadata.appointment_id;
+          const paymentIntentId = typeof session.payment_intent === 'string'
+            ? session.payment_intent : null;
+
+          if (appointmentId) {
+            const { data: appointment } = await serviceRole
+              .from('appointments')
+              .update({
+                status: 'confirmed',
+                deposit_status: 'paid',
+                deposit_paid_at: new Date().toISOString(),
+                stripe_payment_intent_id: paymentIntentId,
+              })
+              .eq('id', appointmentId)
+              .eq('status', 'pending_deposit')
+              .select('id, tenant_id, customer_name, customer_phone, starts_at, sms_consent, pieces, deposit_amount')
+              .single();
+
+            if (appointment) {
+              try {
+                const { data: tenantData } = await serviceRole
+                  .from('tenants')
+                  .select('id, name, phone, time_zone')
+                  .eq('id', appointment.tenant_id)
+                  .single();
+
+                if (tenantData) {
+                  const timeZone = resolveTimeZone(tenantData);
+                  await sendAppointmentConfirmation(serviceRole, appointment, tenantData, timeZone);
+                  const amt = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(appointment.deposit_amount);
+                  notifyArtistOfBooking(
+                    tenantData,
+                    `📅 New appointment: ${appointment.customer_name} booked ${formatAppointmentTime(appointment.starts_at, timeZone)} and paid a ${amt} deposit.`
+                  );
+                }
+              } catch {
+                // Non-critical — don't block webhook
+              }
+            }
+
+            console.log(`[Webhook] Appointment deposit completed — appointment ${appointmentId}`);
+          }
+          break;
+        }
+
         // ── CRM add-on checkout completed ──
         if (session.mode === 'subscription' && session.metadata?.type === 'crm_addon') {
           const crmTenantId = session.metadata?.tenant_id;
@@ -363,6 +427,18 @@ export async function POST(request: NextRequest) {
 
           console.log(`[Webhook] Party deposit expired — party ${expiredPartyId}`);
         }
+
+        // Unpaid appointment deposit — release the held slot
+        const expiredAppointmentId = session.metadata?.appointment_id;
+        if (session.metadata?.type === 'appointment_deposit' && expiredAppointmentId) {
+          await serviceRole
+            .from('appointments')
+            .update({ status: 'cancelled', deposit_status: 'none', stripe_checkout_session_id: null })
+            .eq('id', expiredAppointmentId)
+            .eq('status', 'pending_deposit');
+
+          console.log(`[Webhook] Appointment deposit expired — appointment ${expiredAppointmentId} released`);
+        }
         break;
       }
 
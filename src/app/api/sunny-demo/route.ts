@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Anthropic from '@anthropic-ai/sdk'
-import { checkRateLimit, getClientIP } from '@/lib/rate-limit'
+import { checkRateLimit, getClientIP, rateLimitHeaders } from '@/lib/rate-limit'
 import { logAnthropicCost } from '@/lib/cost-tracker'
 
 const SUNNY_DEMO_RATE_LIMIT = { prefix: 'sunny-demo', limit: 10, windowSeconds: 60 };
+// Spend ceiling across all visitors — the demo calls a paid model
+const SUNNY_DEMO_GLOBAL_LIMIT = { prefix: 'sunny-demo-global', limit: 2000, windowSeconds: 86400 };
 
 const SUNNY_DEMO_SYSTEM = `You are Sunny, the AI business mentor inside Sunstone Studio — a platform built by Sunstone Welders for permanent jewelry artists. You're chatting with a potential customer on the landing page.
 
@@ -29,11 +31,12 @@ export async function POST(request: NextRequest) {
   try {
     // Rate limit: 10 requests per minute per IP
     const ip = getClientIP(request);
-    const rl = checkRateLimit(ip, SUNNY_DEMO_RATE_LIMIT);
+    const ipRl = await checkRateLimit(ip, SUNNY_DEMO_RATE_LIMIT);
+    const rl = ipRl.allowed ? await checkRateLimit('global', SUNNY_DEMO_GLOBAL_LIMIT) : ipRl;
     if (!rl.allowed) {
       return NextResponse.json({
         reply: "I'm getting a lot of questions right now! Give me a moment and try again shortly.",
-      }, { status: 429 });
+      }, { status: 429, headers: rateLimitHeaders(rl) });
     }
 
     const { messages } = await request.json()
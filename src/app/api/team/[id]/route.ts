@@ -1,12 +1,15 @@
 // ============================================================================
 // Team Member API — src/app/api/team/[id]/route.ts
 // ============================================================================
-// PATCH: Update a team member's role (admin only, cannot demote owner)
+// PATCH: Update a team member's role (admin only, cannot demote owner).
+// Body: { team_role_id } — one of the tenant's team roles — or a built-in
+// { role } for older clients.
 // ============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
-import { hasPermission, type TenantRole } from '@/lib/permissions';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN, type TenantRole } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
 
 export async function PATCH(
   request: NextRequest,
@@ -28,7 +31,7 @@ export async function PATCH(
     // Get caller's membership and tenant
     const { data: callerMember } = await serviceClient
       .from('tenant_members')
-      .select('*, tenants(owner_id)')
+      .select(`*, tenants(owner_id), ${TEAM_ROLE_JOIN}`)
       .eq('user_id', user.id)
       .limit(1)
       .single();
@@ -39,24 +42,37 @@ export async function PATCH(
 
     const tenant = (callerMember as any).tenants;
     const isOwner = tenant.owner_id === user.id;
-    const callerRole = isOwner ? 'admin' : (callerMember.role as TenantRole);
 
-    if (!isOwner && !hasPermission(callerRole, 'team:manage')) {
+    if (!isOwner && !hasPermission(roleGrant(callerMember), 'team:manage')) {
       return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
     }
 
     // Parse body
     const body = await request.json();
-    const { role } = body as { role: TenantRole };
-
-    if (!role || !['admin', 'manager', 'staff'].includes(role)) {
+    const { role: requestedRole, team_role_id } = body as { role?: TenantRole; team_role_id?: string };
+
+    // Resolve the team role — the built-in role's when only `role` is sent
+    let teamRoleQuery = serviceClient
+      .from('team_roles')
+      .select('id, name, base_role')
+      .eq('tenant_id', callerMember.tenant_id);
+    if (team_role_id) {
+      teamRoleQuery = teamRoleQuery.eq('id', team_role_id);
+    } else if (requestedRole && ['admin', 'manager', 'staff'].includes(requestedRole)) {
+      teamRoleQuery = teamRoleQuery.eq('system_key', requestedRole);
+    } else {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+    const { data: teamRole } = await teamRoleQuery.maybeSingle();
+    if (!teamRole) {
       return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
     }
+    const role = teamRole.base_role as TenantRole;
 
     // Fetch target member
     const { data: targetMember } = await serviceClient
       .from('tenant_members')
-      .select('id, user_id, tenant_id, role')
+      .select('id, user_id, tenant_id, role, display_name, invited_email, team_role:team_roles(name)')
       .eq('id', memberId)
       .eq('tenant_id', callerMember.tenant_id)
       .single();
@@ -78,7 +94,7 @@ export async function PATCH(
     // Update role
     const { error: updateError } = await serviceClient
       .from('tenant_members')
-      .update({ role, updated_at: new Date().toISOString() })
+      .update({ role, team_role_id: teamRole.id, updated_at: new Date().toISOString() })
       .eq('id', memberId);
 
     if (updateError) {
@@ -86,7 +102,18 @@ export async function PATCH(
       return NextResponse.json({ error: 'Failed to update role' }, { status: 500 });
     }
 
-    return NextResponse.json({ success: true, role });
+    await recordAudit(serviceClient, {
+      tenantId: callerMember.tenant_id,
+      actorUserId: user.id,
+      action: 'team.member_role',
+      entityType: 'team_member',
+      entityId: memberId,
+      entityLabel: targetMember.display_name || targetMember.invited_email,
+      before: { role: (targetMember as any).team_role?.name || targetMember.role },
+      after: { role: teamRole.name },
+    });
+
+    return NextResponse.json({ success: true, role, team_role_id: teamRole.id, role_name: teamRole.name });
   } catch (err) {
     console.error('Team member update error:', err);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
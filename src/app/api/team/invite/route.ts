@@ -7,7 +7,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
-import { hasPermission, type TenantRole } from '@/lib/permissions';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN, type TenantRole } from '@/lib/permissions';
 import { getSubscriptionTier } from '@/lib/subscription';
 
 // Team member limits by tier (includes the owner)
@@ -32,7 +32,7 @@ export async function POST(request: NextRequest) {
     // Get caller's membership and tenant
     const { data: callerMember, error: memberError } = await serviceClient
       .from('tenant_members')
-      .select('*, tenants(owner_id, name, subscription_tier, subscription_status, trial_ends_at)')
+      .select(`*, tenants(owner_id, name, subscription_tier, subscription_status, trial_ends_at), ${TEAM_ROLE_JOIN}`)
       .eq('user_id', user.id)
       .limit(1)
       .single();
@@ -44,10 +44,9 @@ export async function POST(request: NextRequest) {
 
     const tenant = (callerMember as any).tenants;
     const isOwner = tenant.owner_id === user.id;
-    const callerRole = isOwner ? 'admin' : (callerMember.role as TenantRole);
 
     // Permission check: must have team:manage
-    if (!isOwner && !hasPermission(callerRole, 'team:manage')) {
+    if (!isOwner && !hasPermission(roleGrant(callerMember), 'team:manage')) {
       return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
     }
 
@@ -80,9 +79,11 @@ export async function POST(request: NextRequest) {
 
     // Parse request body
     const body = await request.json();
-    const { email, role, display_name } = body as {
+    const { email, role: requestedRole, team_role_id, display_name } = body as {
       email: string;
-      role: TenantRole;
+      role?: TenantRole;
+      /** One of the tenant's team roles; `role` picks a built-in one */
+      team_role_id?: string;
       display_name?: string;
     };
 
@@ -91,9 +92,22 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Valid email is required' }, { status: 400 });
     }
 
-    if (!role || !['staff', 'manager', 'admin'].includes(role)) {
+    let teamRoleQuery = serviceClient
+      .from('team_roles')
+      .select('id, name, base_role')
+      .eq('tenant_id', callerMember.tenant_id);
+    if (team_role_id) {
+      teamRoleQuery = teamRoleQuery.eq('id', team_role_id);
+    } else if (requestedRole && ['staff', 'manager', 'admin'].includes(requestedRole)) {
+      teamRoleQuery = teamRoleQuery.eq('system_key', requestedRole);
+    } else {
+      return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
+    }
+    const { data: teamRole } = await teamRoleQuery.maybeSingle();
+    if (!teamRole) {
       return NextResponse.json({ error: 'Invalid role' }, { status: 400 });
     }
+    const role = teamRole.base_role as TenantRole;
 
     const normalizedEmail = email.trim().toLowerCase();
 
@@ -117,6 +131,7 @@ export async function POST(request: NextRequest) {
         .from('tenant_members')
         .update({
           role,
+          team_role_id: teamRole.id,
           display_name: display_name || existing.invited_email,
           updated_at: new Date().toISOString(),
         })
@@ -126,7 +141,7 @@ export async function POST(request: NextRequest) {
       await trySendInviteEmail({
         to: normalizedEmail,
         tenantName: tenant.name || 'Sunstone',
-        role,
+        role: teamRole.name,
         displayName: display_name,
       });
 
@@ -163,6 +178,7 @@ export async function POST(request: NextRequest) {
         tenant_id: callerMember.tenant_id,
         user_id: matchedUser?.id || null,
         role,
+        team_role_id: teamRole.id,
         display_name: display_name || null,
         invited_email: normalizedEmail,
         accepted_at: matchedUser ? new Date().toISOString() : null,
@@ -177,7 +193,7 @@ export async function POST(request: NextRequest) {
     await trySendInviteEmail({
       to: normalizedEmail,
       tenantName: tenant.name || 'Sunstone',
-      role,
+      role: teamRole.name,
       displayName: display_name,
     });
 
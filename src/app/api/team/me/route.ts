@@ -0,0 +1,55 @@
+// ============================================================================
+// My Team Membership — src/app/api/team/me/route.ts
+// ============================================================================
+// PATCH: Update the caller's own membership details. Currently the phone
+// number shift reminders are texted to (empty clears it).
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { normalizePhone } from '@/lib/twilio';
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabase();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+    }
+
+    const { phone } = (await request.json()) as { phone?: string | null };
+    const trimmed = (phone || '').trim();
+    if (trimmed && trimmed.replace(/\D/g, '').length < 10) {
+      return NextResponse.json({ error: 'Enter a full phone number' }, { status: 400 });
+    }
+
+    const { data: callerMember } = await supabase
+      .from('tenant_members')
+      .select('id')
+      .eq('user_id', user.id)
+      .limit(1)
+      .single();
+    if (!callerMember) {
+      return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+    }
+
+    // Use service role — members can't update their own row under RLS
+    const serviceClient = await createServiceRoleClient();
+    const { data: member, error: updateError } = await serviceClient
+      .from('tenant_members')
+      .update({ phone: trimmed ? normalizePhone(trimmed) : null, updated_at: new Date().toISOString() })
+      .eq('id', callerMember.id)
+      .select('id, phone')
+      .single();
+
+    if (updateError || !member) {
+      console.error('Update own membership error:', updateError);
+      return NextResponse.json({ error: 'Failed to update' }, { status: 500 });
+    }
+
+    return NextResponse.json(member);
+  } catch (err) {
+    console.error('Team me update error:', err);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,150 @@
+// ============================================================================
+// Team Role API — src/app/api/team/roles/[id]/route.ts
+// ============================================================================
+// PATCH:  Update a role's name, permissions, discount limits or access
+//         level (team:manage). The built-in Admin role can't be changed;
+//         built-in roles keep their access level.
+// DELETE: Remove a custom role. Members on it move to the built-in role
+//         for its access level.
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { parseTeamRoleInput, type TeamRoleInput } from '@/lib/team-roles';
+import { recordAudit } from '@/lib/audit';
+
+async function authorize(id: string) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+
+  const serviceClient = await createServiceRoleClient();
+  const { data: callerMember } = await serviceClient
+    .from('tenant_members')
+    .select(`tenant_id, role, tenants(owner_id), ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!callerMember) return { error: NextResponse.json({ error: 'No tenant membership' }, { status: 403 }) };
+
+  const isOwner = (callerMember as any).tenants?.owner_id === user.id;
+  if (!isOwner && !hasPermission(roleGrant(callerMember), 'team:manage')) {
+    return { error: NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 }) };
+  }
+
+  const { data: role } = await serviceClient
+    .from('team_roles')
+    .select('*')
+    .eq('id', id)
+    .eq('tenant_id', callerMember.tenant_id)
+    .single();
+  if (!role) return { error: NextResponse.json({ error: 'Role not found' }, { status: 404 }) };
+
+  return { serviceClient, role, userId: user.id };
+}
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const auth = await authorize(id);
+  if ('error' in auth) return auth.error;
+  const { serviceClient, role, userId } = auth;
+
+  if (role.system_key === 'admin') {
+    return NextResponse.json({ error: 'The Admin role always has full access' }, { status: 400 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  if (role.system_key && 'base_role' in body && body.base_role !== role.base_role) {
+    return NextResponse.json({ error: 'Built-in roles keep their access level' }, { status: 400 });
+  }
+
+  const current: TeamRoleInput = {
+    name: role.name,
+    description: role.description,
+    base_role: role.base_role,
+    permissions: role.permissions,
+    discount_max_percent: role.discount_max_percent == null ? null : Number(role.discount_max_percent),
+    discount_max_amount: role.discount_max_amount == null ? null : Number(role.discount_max_amount),
+  };
+  const parsed = parseTeamRoleInput(body, current);
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+  const { data: updated, error } = await serviceClient
+    .from('team_roles')
+    .update(parsed.role)
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'A role with that name already exists' }, { status: 409 });
+    }
+    console.error('[Team Role PATCH] error:', error.message);
+    return NextResponse.json({ error: 'Failed to update role' }, { status: 500 });
+  }
+
+  await recordAudit(serviceClient, {
+    tenantId: role.tenant_id,
+    actorUserId: userId,
+    action: 'team.role_update',
+    entityType: 'team_role',
+    entityId: id,
+    entityLabel: updated.name,
+    before: { ...current },
+    after: { ...parsed.role },
+  });
+
+  return NextResponse.json(updated);
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const auth = await authorize(id);
+  if ('error' in auth) return auth.error;
+  const { serviceClient, role, userId } = auth;
+
+  if (role.system_key) {
+    return NextResponse.json({ error: 'Built-in roles can\'t be deleted' }, { status: 400 });
+  }
+
+  // Move members to the built-in role on the same access level first —
+  // ON DELETE SET NULL alone would leave them on defaults without a role
+  const { data: fallback } = await serviceClient
+    .from('team_roles')
+    .select('id')
+    .eq('tenant_id', role.tenant_id)
+    .eq('system_key', role.base_role)
+    .single();
+  if (fallback) {
+    await serviceClient
+      .from('tenant_members')
+      .update({ team_role_id: fallback.id, updated_at: new Date().toISOString() })
+      .eq('team_role_id', id);
+  }
+
+  const { error } = await serviceClient.from('team_roles').delete().eq('id', id);
+  if (error) {
+    console.error('[Team Role DELETE] error:', error.message);
+    return NextResponse.json({ error: 'Failed to delete role' }, { status: 500 });
+  }
+
+  await recordAudit(serviceClient, {
+    tenantId: role.tenant_id,
+    actorUserId: userId,
+    action: 'team.role_delete',
+    entityType: 'team_role',
+    entityId: id,
+    entityLabel: role.name,
+    before: { name: role.name, base_role: role.base_role, permissions: role.permissions },
+  });
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,108 @@
+// ============================================================================
+// Team Roles API — src/app/api/team/roles/route.ts
+// ============================================================================
+// GET:  The tenant's roles with member counts (any member can view)
+// POST: Create a custom role (team:manage)
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { parseTeamRoleInput } from '@/lib/team-roles';
+import { recordAudit } from '@/lib/audit';
+
+export async function GET() {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const serviceClient = await createServiceRoleClient();
+  const { data: member } = await serviceClient
+    .from('tenant_members')
+    .select('tenant_id')
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+
+  const [{ data: roles, error }, { data: members }] = await Promise.all([
+    serviceClient
+      .from('team_roles')
+      .select('*')
+      .eq('tenant_id', member.tenant_id)
+      .order('created_at', { ascending: true }),
+    serviceClient
+      .from('tenant_members')
+      .select('team_role_id')
+      .eq('tenant_id', member.tenant_id),
+  ]);
+  if (error) {
+    console.error('[Team Roles GET] error:', error.message);
+    return NextResponse.json({ error: 'Failed to load roles' }, { status: 500 });
+  }
+
+  const counts = new Map<string, number>();
+  for (const m of members || []) {
+    if (m.team_role_id) counts.set(m.team_role_id, (counts.get(m.team_role_id) || 0) + 1);
+  }
+
+  // Built-in roles first (Admin, Manager, Staff), then custom in creation order
+  const order = { admin: 0, manager: 1, staff: 2 } as Record<string, number>;
+  const sorted = (roles || []).sort(
+    (a, b) => (order[a.system_key] ?? 3) - (order[b.system_key] ?? 3)
+  );
+
+  return NextResponse.json({
+    roles: sorted.map((r) => ({ ...r, member_count: counts.get(r.id) || 0 })),
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+
+  const serviceClient = await createServiceRoleClient();
+  const { data: callerMember } = await serviceClient
+    .from('tenant_members')
+    .select(`tenant_id, role, tenants(owner_id), ${TEAM_ROLE_JOIN}`)
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!callerMember) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+
+  const isOwner = (callerMember as any).tenants?.owner_id === user.id;
+  if (!isOwner && !hasPermission(roleGrant(callerMember), 'team:manage')) {
+    return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => ({}));
+  const parsed = parseTeamRoleInput(body);
+  if ('error' in parsed) return NextResponse.json({ error: parsed.error }, { status: 400 });
+
+  const { data: role, error } = await serviceClient
+    .from('team_roles')
+    .insert({ tenant_id: callerMember.tenant_id, ...parsed.role })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === '23505') {
+      return NextResponse.json({ error: 'A role with that name already exists' }, { status: 409 });
+    }
+    console.error('[Team Roles POST] error:', error.message);
+    return NextResponse.json({ error: 'Failed to create role' }, { status: 500 });
+  }
+
+  await recordAudit(serviceClient, {
+    tenantId: callerMember.tenant_id,
+    actorUserId: user.id,
+    action: 'team.role_create',
+    entityType: 'team_role',
+    entityId: role.id,
+    entityLabel: role.name,
+    after: { ...parsed.role },
+  });
+
+  return NextResponse.json({ ...role, member_count: 0 }, { status: 201 });
+}
@@ -7,7 +7,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
-import { hasPermission, type TenantRole } from '@/lib/permissions';
+import { hasPermission, roleGrant, TEAM_ROLE_JOIN } from '@/lib/permissions';
+import { recordAudit } from '@/lib/audit';
 
 export async function GET() {
   try {
@@ -39,7 +40,7 @@ export async function GET() {
     // Fetch all members for this tenant
     const { data: members, error: fetchError } = await serviceClient
       .from('tenant_members')
-      .select('id, tenant_id, user_id, role, display_name, invited_email, accepted_at, created_at, updated_at')
+      .select('id, tenant_id, user_id, role, team_role_id, display_name, invited_email, accepted_at, created_at, updated_at')
       .eq('tenant_id', tenantId)
       .order('created_at', { ascending: true });
 
@@ -77,7 +78,7 @@ export async function DELETE(request: NextRequest) {
     // Get caller's membership and tenant
     const { data: callerMember } = await serviceClient
       .from('tenant_members')
-      .select('*, tenants(owner_id)')
+      .select(`*, tenants(owner_id), ${TEAM_ROLE_JOIN}`)
       .eq('user_id', user.id)
       .limit(1)
       .single();
@@ -88,9 +89,8 @@ export async function DELETE(request: NextRequest) {
 
     const tenant = (callerMember as any).tenants;
     const isOwner = tenant.owner_id === user.id;
-    const callerRole = isOwner ? 'admin' : (callerMember.role as TenantRole);
 
-    if (!isOwner && !hasPermission(callerRole, 'team:manage')) {
+    if (!isOwner && !hasPermission(roleGrant(callerMember), 'team:manage')) {
       return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 });
     }
 
@@ -104,7 +104,7 @@ export async function DELETE(request: NextRequest) {
     // Fetch the target member
     const { data: targetMember } = await serviceClient
       .from('tenant_members')
-      .select('id, user_id, tenant_id')
+      .select('id, user_id, tenant_id, role, display_name, invited_email, accepted_at, team_role:team_roles(name)')
       .eq('id', memberId)
       .eq('tenant_id', callerMember.tenant_id)
       .single();
@@ -134,6 +134,19 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to remove member' }, { status: 500 });
     }
 
+    await recordAudit(serviceClient, {
+      tenantId: callerMember.tenant_id,
+      actorUserId: user.id,
+      action: 'team.member_remove',
+      entityType: 'team_member',
+      entityId: memberId,
+      entityLabel: targetMember.display_name || targetMember.invited_email,
+      before: {
+        role: (targetMember as any).team_role?.name || targetMember.role,
+        status: targetMember.accepted_at ? 'active' : 'invited',
+      },
+    });
+
     return NextResponse.json({ success: true });
   } catch (err) {
     console.error('Team delete error:', err);
@@ -0,0 +1,167 @@
+// ============================================================================
+// Time Clock — GET + POST /api/time-clock
+// src/app/api/time-clock/route.ts
+// ============================================================================
+// GET: the caller's open time entry (if any) and their shifts for the next
+//      day, for the POS clock button.
+// POST: { action: 'clock_in' | 'break_start' | 'break_end' | 'clock_out',
+//         event_id? } — punches for the caller only. Clocking in matches
+//      the caller's scheduled shift for the same event (or store day) that
+//      starts within SHIFT_MATCH_WINDOW_MINUTES or is under way. Closing an
+//      entry writes its hours to staff_hours (migration 090 trigger).
+// ============================================================================
+
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServerSupabase, createServiceRoleClient } from '@/lib/supabase/server';
+import { SHIFT_MATCH_WINDOW_MINUTES } from '@/lib/shifts';
+
+type ClockAction = 'clock_in' | 'break_start' | 'break_end' | 'clock_out';
+
+const ACTIONS: ClockAction[] = ['clock_in', 'break_start', 'break_end', 'clock_out'];
+
+async function getCaller() {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return { error: NextResponse.json({ error: 'Unauthorized' }, { status: 401 }) };
+
+  const { data: member } = await supabase
+    .from('tenant_members')
+    .select('id, tenant_id')
+    .eq('user_id', user.id)
+    .limit(1)
+    .single();
+  if (!member) return { error: NextResponse.json({ error: 'No tenant membership' }, { status: 403 }) };
+
+  return { member };
+}
+
+// ── GET: open entry + upcoming shifts ───────────────────────────────────────
+
+export async function GET() {
+  const { member, error } = await getCaller();
+  if (error) return error;
+
+  // Use service role to bypass RLS — auth already verified above
+  const db = await createServiceRoleClient();
+  const now = new Date();
+  const [{ data: entry }, { data: shifts }] = await Promise.all([
+    db
+      .from('time_entries')
+      .select('*')
+      .eq('member_id', member.id)
+      .is('clock_out_at', null)
+      .maybeSingle(),
+    db
+      .from('staff_shifts')
+      .select('*, event:events(name)')
+      .eq('member_id', member.id)
+      .gt('ends_at', now.toISOString())
+      .lte('starts_at', new Date(now.getTime() + 24 * 3_600_000).toISOString())
+      .order('starts_at', { ascending: true }),
+  ]);
+
+  return NextResponse.json({ member_id: member.id, entry: entry || null, shifts: shifts || [] });
+}
+
+// ── POST: punch ─────────────────────────────────────────────────────────────
+
+export async function POST(request: NextRequest) {
+  const { member, error } = await getCaller();
+  if (error) return error;
+
+  const { action, event_id } = (await request.json()) as { action: ClockAction; event_id?: string | null };
+  if (!ACTIONS.includes(action)) {
+    return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+  }
+
+  const db = await createServiceRoleClient();
+  const now = new Date();
+
+  const { data: open } = await db
+    .from('time_entries')
+    .select('*')
+    .eq('member_id', member.id)
+    .is('clock_out_at', null)
+    .maybeSingle();
+
+  if (action === 'clock_in') {
+    if (open) return NextResponse.json({ error: 'You are already clocked in' }, { status: 409 });
+
+    if (event_id) {
+      const { data: event } = await db
+        .from('events')
+        .select('id')
+        .eq('id', event_id)
+        .eq('tenant_id', member.tenant_id)
+        .single();
+      if (!event) return NextResponse.json({ error: 'Event not found' }, { status: 404 });
+    }
+
+    // Match the shift they're clocking in for
+    const windowMs = SHIFT_MATCH_WINDOW_MINUTES * 60_000;
+    let shiftQuery = db
+      .from('staff_shifts')
+      .select('id, starts_at')
+      .eq('member_id', member.id)
+      .lte('starts_at', new Date(now.getTime() + windowMs).toISOString())
+      .gt('ends_at', now.toISOString());
+    shiftQuery = event_id ? shiftQuery.eq('event_id', event_id) : shiftQuery.is('event_id', null);
+    const { data: shifts } = await shiftQuery;
+    const shift = (shifts || []).sort((a, b) =>
+      Math.abs(new Date(a.starts_at).getTime() - now.getTime()) - Math.abs(new Date(b.starts_at).getTime() - now.getTime())
+    )[0];
+
+    const { data: entry, error: insertError } = await db
+      .from('time_entries')
+      .insert({
+        tenant_id: member.tenant_id,
+        member_id: member.id,
+        event_id: event_id || null,
+        shift_id: shift?.id || null,
+        clock_in_at: now.toISOString(),
+      })
+      .select()
+      .single();
+    if (insertError) {
+      console.error('[TimeClock POST] clock in error:', insertError.message);
+      return NextResponse.json({ error: 'Failed to clock in' }, { status: 500 });
+    }
+    return NextResponse.json(entry, { status: 201 });
+  }
+
+  if (!open) return NextResponse.json({ error: 'You are not clocked in' }, { status: 409 });
+
+  const breakMinutesSoFar = open.break_started_at
+    ? Math.round((now.getTime() - new Date(open.break_started_at).getTime()) / 60_000)
+    : 0;
+  let update: Record<string, unknown>;
+
+  if (action === 'break_start') {
+    if (open.break_started_at) return NextResponse.json({ error: 'Already on break' }, { status: 409 });
+    update = { break_started_at: now.toISOString() };
+  } else if (action === 'break_end') {
+    if (!open.break_started_at) return NextResponse.json({ error: 'Not on break' }, { status: 409 });
+    update = { break_started_at: null, break_minutes: open.break_minutes + breakMinutesSoFar };
+  } else {
+    // Clocking out ends any break in progress
+    update = {
+      clock_out_at: now.toISOString(),
+      break_started_at: null,
+      break_minutes: open.break_minutes + breakMinutesSoFar,
+    };
+  }
+
+  const { data: entry, error: updateError } = await db
+    .from('time_entries')
+    .update(update)
+    .eq('id', open.id)
+    .select()
+    .single();
+  if (updateError) {
+    console.error(`[TimeClock POST] ${action} error:`, updateError.message);
+    return NextResponse.json({ error: 'Failed to update time clock' }, { status: 500 });
+  }
+  return NextResponse.json(entry);
+}
@@ -3,13 +3,18 @@
 // ============================================================================
 // Called by Twilio when an SMS is received on a dedicated number.
 // Looks up tenant by To number, finds or creates client, inserts conversation.
+// STOP/START/HELP keywords update the consent ledger and get the standard
+// reply instead of the auto-reply or Sunny. MMS photos are copied into the
+// message-media bucket and attached to the conversation message.
 // ============================================================================
 
 import { NextRequest, NextResponse } from 'next/server';
 import Anthropic from '@anthropic-ai/sdk';
 import { createServiceRoleClient } from '@/lib/supabase/server';
-import { normalizePhone, normalizePhoneDigits, validateTwilioWebhook, sendSMS } from '@/lib/twilio';
-import { logSmsCost, logAnthropicCost } from '@/lib/cost-tracker';
+import { normalizePhone, normalizePhoneDigits, validateTwilioWebhook, sendSMS, isSmsOptedOut } from '@/lib/twilio';
+import { matchSmsKeyword, keywordReply, recordSmsConsent } from '@/lib/sms-consent';
+import { storeInboundMedia } from '@/lib/message-media';
+import { logSmsCost, logAnthropicCost, countSmsSegments } from '@/lib/cost-tracker';
 import { sendMulticastNotification } from '@/lib/firebase-admin';
 
 const TWIML_EMPTY = '<Response></Response>';
@@ -19,10 +24,12 @@ export async function POST(request: NextRequest) {
     const formData = await request.formData();
     const from = formData.get('From') as string;
     const to = formData.get('To') as string;
-    const body = formData.get('Body') as string;
+    const body = (formData.get('Body') as string) || '';
     const messageSid = formData.get('MessageSid') as string;
+    const numMedia = parseInt((formData.get('NumMedia') as string) || '0', 10) || 0;
 
-    if (!from || !to || !body) {
+    // A photo with no caption arrives with an empty Body
+    if (!from || !to || (!body && numMedia === 0)) {
       return new NextResponse(TWIML_EMPTY, {
         status: 200,
         headers: { 'Content-Type': 'text/xml' },
@@ -48,7 +55,7 @@ export async function POST(request: NextRequest) {
     // Look up tenant by dedicated phone number
     const { data: tenant } = await supabase
       .from('tenants')
-      .select('id, auto_reply_enabled, auto_reply_message, sunny_text_mode, name, sunny_tone_preset, sunny_tone_custom')
+      .select('id, auto_reply_enabled, auto_reply_message, sunny_text_mode, name, phone, sunny_tone_preset, sunny_tone_custom')
       .eq('dedicated_phone_number', to)
       .single();
 
@@ -109,6 +116,8 @@ export async function POST(request: NextRequest) {
     }
     // Unknown numbers: no client record created — conversation stored with client_id: null
 
+    const media = await storeInboundMedia(supabase, tenant.id, params);
+
     // Insert conversation message
     await supabase.from('conversations').insert({
       tenant_id: tenant.id,
@@ -116,6 +125,7 @@ export async function POST(request: NextRequest) {
       phone_number: normalizedFrom,
       direction: 'inbound',
       body: body.trim(),
+      media,
       twilio_sid: messageSid,
       status: 'delivered',
       read: false,
@@ -138,19 +148,66 @@ export async function POST(request: NextRequest) {
         .eq('id', clientId);
     }
 
-    // Log cost
-    logSmsCost({ tenantId: tenant.id, operation: 'sms_inbound' });
+    // Log cost — Twilio bills an inbound MMS per message, not per segment
+    logSmsCost(numMedia > 0
+      ? { tenantId: tenant.id, operation: 'sms_inbound', mms: 1 }
+      : { tenantId: tenant.id, operation: 'sms_inbound', segments: countSmsSegments(body) });
+
+    // What Sunny and the push notification see for a photo-only message
+    const text = body.trim() || (numMedia > 0 ? '[Photo]' : '');
 
     // ── Push notification to tenant devices (fire-and-forget) ──
-    notifyTenantOfInbound(tenant.id, clientId, normalizedFrom, body.trim(), supabase).catch((err) =>
+    notifyTenantOfInbound(tenant.id, clientId, normalizedFrom, text, supabase).catch((err) =>
       console.warn('[Inbound] Push notification failed:', err?.message)
     );
 
+    // ── Opt-out keywords (STOP / START / HELP) ──
+    const match = matchSmsKeyword(body);
+    // START-type words ("Yes") only mean resubscribe from someone who opted out
+    if (match && (match.kind !== 'start' || await isSmsOptedOut(tenant.id, normalizedFrom))) {
+      if (match.kind !== 'help') {
+        await recordSmsConsent(supabase, {
+          tenantId: tenant.id,
+          phone: normalizedFrom,
+          status: match.kind === 'stop' ? 'opted_out' : 'opted_in',
+          source: 'keyword',
+          keyword: match.keyword,
+          clientId,
+        });
+      }
+
+      const reply = keywordReply(match.kind, tenant);
+      try {
+        const sid = await sendSMS({ to: normalizedFrom, body: reply, tenantId: tenant.id, complianceReply: true });
+        if (sid) {
+          await supabase.from('conversations').insert({
+            tenant_id: tenant.id,
+            client_id: clientId,
+            phone_number: normalizedFrom,
+            direction: 'outbound',
+            body: reply,
+            twilio_sid: sid,
+            status: 'delivered',
+            read: true,
+          });
+          logSmsCost({ tenantId: tenant.id, operation: 'sms_keyword_reply' });
+        }
+      } catch (err: any) {
+        // Twilio's own opt-out handling may already have answered and blocks ours
+        console.warn('[Inbound] Keyword reply not sent:', err?.message);
+      }
+
+      return new NextResponse(TWIML_EMPTY, {
+        status: 200,
+        headers: { 'Content-Type': 'text/xml' },
+      });
+    }
+
     // ── Auto-reply (event mode) ──
     if (tenant.auto_reply_enabled && tenant.auto_reply_message) {
       const autoMsg = tenant.auto_reply_message;
       // Send auto-reply
-      const sid = await sendSMS({ to: normalizedFrom, body: autoMsg, tenantId: tenant.id });
+      const sid = await sendSMS({ to: normalizedFrom, body: autoMsg, tenantId: tenant.id, source: 'auto_reply', clientId });
       if (sid) {
         // Record outbound auto-reply in conversations
         await supabase.from('conversations').insert({
@@ -170,12 +227,12 @@ export async function POST(request: NextRequest) {
     // ── Sunny AI auto-responder ──
     if (tenant.sunny_text_mode === 'auto') {
       // Fire-and-forget: generate and send AI response
-      generateAndSendSunnyResponse(tenant, clientId, normalizedFrom, body.trim(), supabase).catch(err =>
+      generateAndSendSunnyResponse(tenant, clientId, normalizedFrom, text, supabase).catch(err =>
         console.error('[Inbound] Sunny auto-response failed:', err.message)
       );
     } else if (tenant.sunny_text_mode === 'suggest') {
       // Generate suggestion and store on the conversation message
-      generateSunnySuggestion(tenant, clientId, normalizedFrom, body.trim(), supabase).catch(err =>
+      generateSunnySuggestion(tenant, clientId, normalizedFrom, text, supabase).catch(err =>
         console.error('[Inbound] Sunny suggestion failed:', err.message)
       );
     }
@@ -208,7 +265,7 @@ async function buildSunnyContext(
   // Get recent conversation history — by client_id if known, otherwise by phone_number
   let recentQuery = supabase
     .from('conversations')
-    .select('direction, body, created_at')
+    .select('direction, body, media, created_at')
     .eq('tenant_id', tenant.id)
     .order('created_at', { ascending: false })
     .limit(10);
@@ -234,7 +291,7 @@ async function buildSunnyContext(
 
   const history = (recentMsgs || [])
     .reverse()
-    .map((m: any) => `${m.direction === 'inbound' ? 'Client' : 'Artist'}: ${m.body}`)
+    .map((m: any) => `${m.direction === 'inbound' ? 'Client' : 'Artist'}: ${m.media?.length ? `[Photo] ${m.body}`.trim() : m.body}`)
     .join('\n');
 
   const clientName = client
@@ -305,7 +362,7 @@ async function generateAndSendSunnyResponse(
   if (!reply) return;
 
   // Send the SMS
-  const sid = await sendSMS({ to: clientPhone, body: reply, tenantId: tenant.id });
+  const sid = await sendSMS({ to: clientPhone, body: reply, tenantId: tenant.id, source: 'sunny', clientId });
 
   if (sid) {
     // Record outbound in conversations
@@ -8,7 +8,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceRoleClient } from '@/lib/supabase/server';
-import { checkRateLimit, getClientIP } from '@/lib/rate-limit';
+import { checkRateLimit, getClientIP, rateLimitHeaders } from '@/lib/rate-limit';
 import { logEmailCost } from '@/lib/cost-tracker';
 
 const RATE_LIMIT = { prefix: 'waiver-copy', limit: 10, windowSeconds: 60 };
@@ -91,9 +91,9 @@ export async function POST(request: NextRequest) {
 
     // ── Rate limit by IP (public endpoint) ──────────────────────────────
     const ip = getClientIP(request);
-    const rl = checkRateLimit(ip, RATE_LIMIT);
+    const rl = await checkRateLimit(ip, RATE_LIMIT);
     if (!rl.allowed) {
-      return NextResponse.json({ error: 'Too many requests' }, { status: 429 });
+      return NextResponse.json({ error: 'Too many requests' }, { status: 429, headers: rateLimitHeaders(rl) });
     }
 
     const { waiverId, pdfBase64 } = await request.json();
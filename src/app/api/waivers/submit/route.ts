@@ -0,0 +1,193 @@
+// ============================================================================
+// Waiver Submit API — POST /api/waivers/submit (public)
+// ============================================================================
+// Records a signed waiver from the public waiver page, finds or creates the
+// client, and joins the event queue when the event is live with queue mode
+// on. Throttled per IP and per tenant; waiver text always comes from the
+// tenant row, never the request. Anonymous input never overwrites an
+// existing client — it only fills fields that are still empty.
+//
+// Body: { tenantId, eventId?, name, email?, phone?, signatureData, smsConsent }
+// Returns: { waiverId, signedAt, queueEntryId }
+// ============================================================================
+
+import { NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { checkRateLimit, getClientIP, tenantKey, rateLimitResponse } from '@/lib/rate-limit';
+import { normalizePhone } from '@/lib/twilio';
+import { recordSmsConsent } from '@/lib/sms-consent';
+import { resolveTimeZone, toLocalDateString } from '@/lib/timezone';
+import { autoTagClient } from '@/lib/auto-tags';
+
+const IP_LIMIT = { prefix: 'waiver-submit', limit: 10, windowSeconds: 600 };
+// A busy event signs a few hundred waivers an hour; this only stops floods
+const TENANT_LIMIT = { prefix: 'waiver-submit', limit: 600, windowSeconds: 3600 };
+
+/** ~500 KB of base64 PNG — a finger signature is far smaller */
+const MAX_SIGNATURE_LENGTH = 700_000;
+
+export async function POST(request: Request) {
+  const ipLimit = await checkRateLimit(getClientIP(request), IP_LIMIT);
+  if (!ipLimit.allowed) return rateLimitResponse(ipLimit);
+
+  const body = await request.json().catch(() => null);
+  const { tenantId, eventId, name, email, phone, signatureData, smsConsent } = body || {};
+
+  if (!tenantId || !name?.trim() || typeof signatureData !== 'string') {
+    return NextResponse.json({ error: 'Name and signature are required' }, { status: 400 });
+  }
+  if (!signatureData.startsWith('data:image/png;base64,') || signatureData.length > MAX_SIGNATURE_LENGTH) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 400 });
+  }
+
+  const tenantLimit = await checkRateLimit(tenantKey(tenantId), TENANT_LIMIT);
+  if (!tenantLimit.allowed) return rateLimitResponse(tenantLimit);
+
+  const supabase = await createServiceRoleClient();
+
+  const { data: tenant } = await supabase
+    .from('tenants')
+    .select('id, waiver_text, time_zone')
+    .eq('id', tenantId)
+    .single();
+  if (!tenant) {
+    return NextResponse.json({ error: 'Tenant not found' }, { status: 404 });
+  }
+
+  const trimmedName = name.trim().slice(0, 120);
+  const normalizedEmail = email?.trim() || null;
+  const normalizedPhone = phone?.trim() ? normalizePhone(phone) : null;
+
+  // ── 1. Find or create client ──────────────────────────────────────────
+  let clientId: string | null = null;
+  const [firstName, ...rest] = trimmedName.split(/\s+/);
+  const lastName = rest.join(' ') || null;
+
+  if (normalizedEmail) {
+    const { data: existing } = await supabase
+      .from('clients')
+      .select('id, first_name, last_name, phone')
+      .eq('tenant_id', tenant.id)
+      .eq('email', normalizedEmail)
+      .limit(1)
+      .single();
+
+    if (existing) {
+      clientId = existing.id;
+      const fill: Record<string, string> = {};
+      if (!existing.first_name && firstName) fill.first_name = firstName;
+      if (!existing.last_name && lastName) fill.last_name = lastName;
+      if (!existing.phone && normalizedPhone) fill.phone = normalizedPhone;
+      if (Object.keys(fill).length > 0) {
+        await supabase.from('clients').update(fill).eq('id', existing.id);
+      }
+    }
+  }
+
+  if (!clientId) {
+    const { data: newClient } = await supabase
+      .from('clients')
+      .insert({
+        tenant_id: tenant.id,
+        first_name: firstName,
+        last_name: lastName,
+        email: normalizedEmail,
+        phone: normalizedPhone,
+      })
+      .select('id')
+      .single();
+    clientId = newClient?.id || null;
+  }
+
+  // ── 2. Create waiver ──────────────────────────────────────────────────
+  const { data: event } = eventId
+    ? await supabase
+        .from('events')
+        .select('id, is_active, start_time, queue_mode, time_zone')
+        .eq('id', eventId)
+        .eq('tenant_id', tenant.id)
+        .single()
+    : { data: null };
+
+  const { data: waiver, error: waiverError } = await supabase
+    .from('waivers')
+    .insert({
+      tenant_id: tenant.id,
+      client_id: clientId,
+      event_id: event?.id || null,
+      signer_name: trimmedName,
+      signer_email: normalizedEmail,
+      waiver_text: tenant.waiver_text,
+      signature_data: signatureData,
+      sms_consent: !!smsConsent,
+    })
+    .select('id, signed_at')
+    .single();
+
+  if (waiverError || !waiver) {
+    console.error('[Waivers] Insert failed:', waiverError?.message);
+    return NextResponse.json({ error: 'Failed to save waiver' }, { status: 500 });
+  }
+
+  // Logged as consent; an earlier STOP still stands until they text START
+  if (smsConsent && normalizedPhone) {
+    await recordSmsConsent(supabase, {
+      tenantId: tenant.id,
+      phone: normalizedPhone,
+      status: 'opted_in',
+      source: 'waiver',
+      clientId,
+    });
+  }
+
+  if (clientId) {
+    try {
+      await autoTagClient(tenant.id, clientId, { type: 'waiver' });
+    } catch (err) {
+      console.error('[Waivers] Auto-tag failed:', err);
+    }
+  }
+
+  // ── 3. Join the queue — only for active, current events ──────────────
+  let queueEntryId: string | null = null;
+
+  if (event?.is_active && event.queue_mode) {
+    const timeZone = resolveTimeZone(tenant, event);
+    const startTime = new Date(event.start_time);
+    const now = new Date();
+    const isToday = toLocalDateString(startTime, timeZone) === toLocalDateString(now, timeZone);
+    const isRecent = startTime.getTime() >= now.getTime() - 24 * 3_600_000 && startTime <= now;
+
+    if (isToday || isRecent) {
+      const { count } = await supabase
+        .from('queue_entries')
+        .select('*', { count: 'exact', head: true })
+        .eq('event_id', event.id)
+        .in('status', ['waiting', 'notified', 'serving']);
+
+      const { data: entry } = await supabase
+        .from('queue_entries')
+        .insert({
+          tenant_id: tenant.id,
+          event_id: event.id,
+          client_id: clientId,
+          name: trimmedName,
+          phone: normalizedPhone,
+          email: normalizedEmail,
+          position: (count || 0) + 1,
+          waiver_id: waiver.id,
+          sms_consent: !!smsConsent,
+        })
+        .select('id')
+        .single();
+
+      queueEntryId = entry?.id || null;
+    }
+  }
+
+  return NextResponse.json({
+    waiverId: waiver.id,
+    signedAt: waiver.signed_at,
+    queueEntryId,
+  });
+}
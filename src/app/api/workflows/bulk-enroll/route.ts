@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
 import { queueWorkflow } from '@/lib/workflows';
+import { resolveSegmentById } from '@/lib/segments';
 
-// POST: Bulk-enroll clients by tag into a workflow
+// POST: Bulk-enroll clients by tag or saved segment into a workflow
 export async function POST(request: NextRequest) {
   const supabase = await createServerSupabase();
   const { data: { user } } = await supabase.auth.getUser();
@@ -18,10 +19,10 @@ export async function POST(request: NextRequest) {
   const tenantId = member.tenant_id;
 
   const body = await request.json();
-  const { workflowId, tagId } = body;
+  const { workflowId, tagId, segmentId } = body;
 
-  if (!workflowId || !tagId) {
-    return NextResponse.json({ error: 'workflowId and tagId required' }, { status: 400 });
+  if (!workflowId || (!tagId && !segmentId)) {
+    return NextResponse.json({ error: 'workflowId and tagId or segmentId required' }, { status: 400 });
   }
 
   // Verify workflow exists and belongs to tenant
@@ -36,18 +37,29 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({ error: 'Workflow not found' }, { status: 404 });
   }
 
-  // Find all clients with this tag
-  const { data: assignments } = await supabase
-    .from('client_tag_assignments')
-    .select('client_id')
-    .eq('tag_id', tagId);
+  let clientIds: string[];
+  if (segmentId) {
+    // Clients matching the segment's rules
+    const members = await resolveSegmentById(supabase, tenantId, segmentId);
+    if (!members) return NextResponse.json({ error: 'Segment not found' }, { status: 404 });
+    if (members.length === 0) {
+      return NextResponse.json({ enrolled: 0, message: 'No clients match this segment' });
+    }
+    clientIds = members.map((c) => c.id);
+  } else {
+    // Find all clients with this tag
+    const { data: assignments } = await supabase
+      .from('client_tag_assignments')
+      .select('client_id')
+      .eq('tag_id', tagId);
+
+    if (!assignments || assignments.length === 0) {
+      return NextResponse.json({ enrolled: 0, message: 'No clients with this tag' });
+    }
 
-  if (!assignments || assignments.length === 0) {
-    return NextResponse.json({ enrolled: 0, message: 'No clients with this tag' });
+    clientIds = assignments.map((a) => a.client_id);
   }
 
-  const clientIds = assignments.map((a) => a.client_id);
-
   // Check which clients are already enrolled (have pending queue items for this workflow)
   const { data: existingQueue } = await supabase
     .from('workflow_queue')
@@ -84,19 +96,34 @@ export async function POST(request: NextRequest) {
   return NextResponse.json({ enrolled, total: clientIds.length, skipped: clientIds.length - enrolled });
 }
 
-// GET: Preview count of clients with a given tag
+// GET: Preview count of clients with a given tag or in a saved segment
 export async function GET(request: NextRequest) {
   const supabase = await createServerSupabase();
   const { data: { user } } = await supabase.auth.getUser();
   if (!user) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
 
   const tagId = request.nextUrl.searchParams.get('tagId');
-  if (!tagId) return NextResponse.json({ error: 'tagId required' }, { status: 400 });
+  const segmentId = request.nextUrl.searchParams.get('segmentId');
+  if (!tagId && !segmentId) return NextResponse.json({ error: 'tagId or segmentId required' }, { status: 400 });
+
+  if (segmentId) {
+    const { data: member } = await supabase
+      .from('tenant_members')
+      .select('tenant_id')
+      .eq('user_id', user.id)
+      .limit(1)
+      .single();
+    if (!member) return NextResponse.json({ error: 'No tenant membership' }, { status: 403 });
+
+    const members = await resolveSegmentById(supabase, member.tenant_id, segmentId);
+    if (!members) return NextResponse.json({ error: 'Segment not found' }, { status: 404 });
+    return NextResponse.json({ count: members.length });
+  }
 
   const { count } = await supabase
     .from('client_tag_assignments')
     .select('id', { count: 'exact', head: true })
-    .eq('tag_id', tagId);
+    .eq('tag_id', tagId!);
 
   return NextResponse.json({ count: count || 0 });
 }
@@ -0,0 +1,46 @@
+// ============================================================================
+// Workflow Queue Processor — GET/POST /api/workflows/process
+// ============================================================================
+// Delivers due workflow_queue steps for workflows set to auto-send.
+// Called by Vercel Cron (GET) or opportunistically from the dashboard (POST).
+// Review-first workflows are left pending for Needs Attention.
+// ============================================================================
+
+export const runtime = 'nodejs';
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceRoleClient } from '@/lib/supabase/server';
+import { processWorkflowQueue } from '@/lib/workflow-sender';
+
+async function handler(request: NextRequest) {
+  // Simple auth: accept cron secret or authenticated user
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (cronSecret && authHeader === `Bearer ${cronSecret}`) {
+    // Cron-authenticated — proceed
+  } else {
+    // Fall back to user auth for manual triggers
+    const { createServerSupabase } = await import('@/lib/supabase/server');
+    const supabase = await createServerSupabase();
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+  }
+
+  const db = await createServiceRoleClient();
+
+  try {
+    const result = await processWorkflowQueue(db);
+    if (result.processed > 0) {
+      console.log(`[Workflow Queue] Processed ${result.processed}: ${result.sent} sent, ${result.failed} failed, ${result.skipped} skipped, ${result.deferred} deferred`);
+    }
+    return NextResponse.json(result);
+  } catch (err: any) {
+    console.error('[Workflow Queue] Processing failed:', err);
+    return NextResponse.json({ error: 'Failed to process workflow queue' }, { status: 500 });
+  }
+}
+
+export { handler as GET, handler as POST };
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServerSupabase } from '@/lib/supabase/server';
+import type { WorkflowSendMode } from '@/lib/workflow-sender';
+
+const SEND_MODES: WorkflowSendMode[] = ['auto', 'review'];
 
 // Default workflows seeded for new tenants
 const DEFAULT_WORKFLOWS = [
@@ -96,14 +99,18 @@ export async function POST(request: NextRequest) {
   const tenantId = member.tenant_id;
 
   const body = await request.json();
-  const { name, trigger_type, trigger_tag, steps } = body;
+  const { name, trigger_type, trigger_tag, send_mode, steps } = body;
 
   if (!name || !trigger_type) {
     return NextResponse.json({ error: 'name and trigger_type required' }, { status: 400 });
   }
+  if (send_mode !== undefined && !SEND_MODES.includes(send_mode)) {
+    return NextResponse.json({ error: 'send_mode must be auto or review' }, { status: 400 });
+  }
 
   // Create workflow
   const insertData: Record<string, any> = { tenant_id: tenantId, name, trigger_type, is_active: true };
+  if (send_mode) insertData.send_mode = send_mode;
   if (trigger_type === 'tag_added' && trigger_tag) {
     insertData.trigger_tag = trigger_tag;
   }
@@ -154,9 +161,12 @@ export async function PATCH(request: NextRequest) {
   const tenantId = member.tenant_id;
 
   const body = await request.json();
-  const { id, is_active, name, trigger_type, trigger_tag, steps } = body;
+  const { id, is_active, name, trigger_type, trigger_tag, send_mode, steps } = body;
 
   if (!id) return NextResponse.json({ error: 'id required' }, { status: 400 });
+  if (send_mode !== undefined && !SEND_MODES.includes(send_mode)) {
+    return NextResponse.json({ error: 'send_mode must be auto or review' }, { status: 400 });
+  }
 
   // Verify workflow belongs to user's tenant
   const { data: wf } = await supabase
@@ -171,6 +181,7 @@ export async function PATCH(request: NextRequest) {
   const updates: Record<string, any> = {};
   if (typeof is_active === 'boolean') updates.is_active = is_active;
   if (name) updates.name = name;
+  if (send_mode) updates.send_mode = send_mode;
   if (trigger_type) {
     updates.trigger_type = trigger_type;
     updates.trigger_tag = trigger_type === 'tag_added' ? (trigger_tag || null) : null;
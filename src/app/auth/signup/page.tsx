@@ -87,6 +87,7 @@ function SignupForm() {
           businessName: businessName.trim(),
           firstName: firstName.trim(),
           referralCode: referralCode || undefined,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
         }),
       });
 
@@ -0,0 +1,612 @@
+// ============================================================================
+// Appointments — src/app/dashboard/appointments/page.tsx
+// ============================================================================
+// Upcoming bookings (check in → Store Mode queue, no-show, cancel) and the
+// booking setup: studio settings, weekly hours per artist, blackout dates.
+// Guests book from the storefront at /studio/[slug].
+// ============================================================================
+
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { toast } from 'sonner';
+import { Button, Input, Select } from '@/components/ui';
+import { checkInAppointment } from '@/lib/appointments';
+import { resolveTimeZone, startOfDayInZone, toLocalDateString } from '@/lib/timezone';
+import type { Appointment, AppointmentStatus, AppointmentBlackout, TenantMember } from '@/types';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const statusColors: Record<AppointmentStatus, string> = {
+  pending_deposit: 'bg-amber-50 text-amber-700',
+  confirmed: 'bg-blue-50 text-blue-700',
+  checked_in: 'bg-emerald-50 text-emerald-700',
+  completed: 'bg-gray-100 text-gray-600',
+  cancelled: 'bg-red-50 text-red-700',
+  no_show: 'bg-red-50 text-red-700',
+};
+
+const statusLabels: Record<AppointmentStatus, string> = {
+  pending_deposit: 'Awaiting Deposit',
+  confirmed: 'Confirmed',
+  checked_in: 'Checked In',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+  no_show: 'No Show',
+};
+
+const inputClass =
+  'h-9 px-2.5 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-[var(--text-primary)] text-sm focus:outline-none focus:border-[var(--accent-primary)]';
+
+interface WindowDraft {
+  weekday: number;
+  start_time: string;
+  end_time: string;
+}
+
+type Member = Pick<TenantMember, 'id' | 'user_id' | 'display_name' | 'invited_email'>;
+
+const memberName = (m: Member) => m.display_name || m.invited_email || 'Team member';
+
+// ============================================================================
+// Page
+// ============================================================================
+
+export default function AppointmentsPage() {
+  const { tenant, membership, can, refetch } = useTenant();
+  const supabase = createClient();
+  const [tab, setTab] = useState<'upcoming' | 'setup'>('upcoming');
+  const [members, setMembers] = useState<Member[]>([]);
+
+  const timeZone = resolveTimeZone(tenant);
+
+  const fetchMembers = useCallback(async () => {
+    if (!tenant) return;
+    const { data } = await supabase
+      .from('tenant_members')
+      .select('id, user_id, display_name, invited_email')
+      .eq('tenant_id', tenant.id)
+      .not('accepted_at', 'is', null)
+      .order('created_at');
+    setMembers((data || []) as Member[]);
+  }, [tenant?.id]);
+
+  useEffect(() => { fetchMembers(); }, [fetchMembers]);
+
+  if (!tenant) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]">
+        <div className="w-6 h-6 border-2 border-[var(--accent-primary)] border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 sm:px-6 py-6 space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-[var(--text-primary)]">Appointments</h1>
+          <p className="text-sm text-[var(--text-tertiary)] mt-1">
+            {tenant.appointments_enabled
+              ? <>Guests book at <a href={`/studio/${tenant.slug}#book-appointment`} target="_blank" rel="noopener noreferrer" className="text-[var(--accent-primary)] hover:underline">your storefront</a></>
+              : 'Turn on booking in Setup to let guests book from your storefront'}
+          </p>
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-1 border-b border-[var(--border-default)]">
+        {(['upcoming', 'setup'] as const).map((t) => (
+          <button
+            key={t}
+            onClick={() => setTab(t)}
+            className={`px-4 py-2 text-sm font-medium -mb-px border-b-2 transition-colors ${
+              tab === t
+                ? 'border-[var(--accent-primary)] text-[var(--text-primary)]'
+                : 'border-transparent text-[var(--text-tertiary)] hover:text-[var(--text-primary)]'
+            }`}
+          >
+            {t === 'upcoming' ? 'Upcoming' : 'Setup'}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'upcoming' ? (
+        <UpcomingAppointments tenantId={tenant.id} timeZone={timeZone} members={members} />
+      ) : (
+        <div className="space-y-6">
+          {can('settings:manage') && <BookingSettings onSaved={refetch} />}
+          <WeeklyHours
+            tenantId={tenant.id}
+            members={members}
+            // Managers edit anyone's hours; everyone else edits their own
+            editableMemberIds={can('settings:manage') ? members.map((m) => m.id) : membership ? [membership.id] : []}
+          />
+          <Blackouts tenantId={tenant.id} members={members} canManage={can('settings:manage')} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Upcoming
+// ============================================================================
+
+function UpcomingAppointments({
+  tenantId,
+  timeZone,
+  members,
+}: {
+  tenantId: string;
+  timeZone: string;
+  members: Member[];
+}) {
+  const supabase = createClient();
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchAppointments = useCallback(async () => {
+    const { data } = await supabase
+      .from('appointments')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .gte('starts_at', startOfDayInZone(new Date(), timeZone).toISOString())
+      .in('status', ['pending_deposit', 'confirmed', 'checked_in'])
+      .order('starts_at')
+      .limit(200);
+    setAppointments((data || []) as Appointment[]);
+    setLoading(false);
+  }, [tenantId, timeZone]);
+
+  useEffect(() => { fetchAppointments(); }, [fetchAppointments]);
+
+  const setStatus = async (appt: Appointment, status: AppointmentStatus, message: string) => {
+    setBusyId(appt.id);
+    const { error } = await supabase.from('appointments').update({ status }).eq('id', appt.id);
+    setBusyId(null);
+    if (error) { toast.error('Failed to update appointment'); return; }
+    toast.success(message);
+    fetchAppointments();
+  };
+
+  const handleCheckIn = async (appt: Appointment) => {
+    setBusyId(appt.id);
+    try {
+      await checkInAppointment(supabase, appt);
+      toast.success(`${appt.customer_name} checked in — they're in the POS queue`);
+      fetchAppointments();
+    } catch {
+      toast.error('Failed to check in');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleCancel = (appt: Appointment) => {
+    const note = appt.deposit_status === 'paid' ? ' Refund the deposit from your Stripe dashboard if needed.' : '';
+    if (!confirm(`Cancel ${appt.customer_name}'s appointment?${note}`)) return;
+    setStatus(appt, 'cancelled', 'Appointment cancelled');
+  };
+
+  if (loading) {
+    return <p className="text-sm text-[var(--text-tertiary)] text-center py-12">Loading appointments…</p>;
+  }
+
+  if (appointments.length === 0) {
+    return (
+      <div className="rounded-xl border border-[var(--border-default)] bg-[var(--surface-base)] p-10 text-center">
+        <p className="text-sm text-[var(--text-secondary)]">No upcoming appointments.</p>
+      </div>
+    );
+  }
+
+  // Group by local day
+  const days = new Map<string, Appointment[]>();
+  for (const a of appointments) {
+    const key = toLocalDateString(new Date(a.starts_at), timeZone);
+    days.set(key, [...(days.get(key) || []), a]);
+  }
+  const today = toLocalDateString(new Date(), timeZone);
+  const memberLabel = (id: string | null) => {
+    const m = members.find((mm) => mm.id === id);
+    return members.length > 1 && m ? ` · ${memberName(m)}` : '';
+  };
+
+  return (
+    <div className="space-y-5">
+      {Array.from(days.entries()).map(([day, list]) => (
+        <div key={day} className="space-y-2">
+          <h3 className="text-[11px] font-semibold uppercase tracking-[0.06em] text-[var(--text-tertiary)]">
+            {day === today
+              ? 'Today'
+              : new Date(list[0].starts_at).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric', timeZone })}
+          </h3>
+          <div className="rounded-xl border border-[var(--border-default)] bg-[var(--surface-base)] divide-y divide-[var(--border-subtle)]">
+            {list.map((appt) => (
+              <div key={appt.id} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 px-4 py-3">
+                <div className="w-20 shrink-0 text-sm font-semibold text-[var(--text-primary)]">
+                  {new Date(appt.starts_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone })}
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-[var(--text-primary)] truncate">{appt.customer_name}</span>
+                    <span className={`text-[10px] font-semibold px-2 py-0.5 rounded-full ${statusColors[appt.status]}`}>
+                      {statusLabels[appt.status]}
+                    </span>
+                  </div>
+                  <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+                    {appt.pieces} piece{appt.pieces === 1 ? '' : 's'}
+                    {memberLabel(appt.member_id)}
+                    {appt.deposit_status === 'paid' && ` · $${Number(appt.deposit_amount).toFixed(2)} deposit paid`}
+                    {` · ${appt.customer_phone}`}
+                  </p>
+                  {appt.notes && <p className="text-xs text-[var(--text-secondary)] mt-1">{appt.notes}</p>}
+                </div>
+                <div className="flex items-center gap-2 shrink-0">
+                  {appt.status === 'confirmed' && day === today && (
+                    <Button size="sm" variant="primary" onClick={() => handleCheckIn(appt)} loading={busyId === appt.id}>
+                      Check In
+                    </Button>
+                  )}
+                  {appt.status === 'confirmed' && day === today && (
+                    <Button size="sm" variant="secondary" onClick={() => setStatus(appt, 'no_show', `${appt.customer_name} marked as no-show`)} disabled={busyId === appt.id}>
+                      No Show
+                    </Button>
+                  )}
+                  {appt.status !== 'checked_in' && (
+                    <Button size="sm" variant="ghost" onClick={() => handleCancel(appt)} disabled={busyId === appt.id}>
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// Booking Settings
+// ============================================================================
+
+function BookingSettings({ onSaved }: { onSaved: () => Promise<void> }) {
+  const { tenant } = useTenant();
+  const supabase = createClient();
+  const [form, setForm] = useState({
+    appointments_enabled: tenant?.appointments_enabled ?? false,
+    avg_service_minutes: String(tenant?.avg_service_minutes ?? 10),
+    appointment_buffer_minutes: String(tenant?.appointment_buffer_minutes ?? 10),
+    appointment_slot_interval_minutes: String(tenant?.appointment_slot_interval_minutes ?? 15),
+    appointment_min_notice_hours: String(tenant?.appointment_min_notice_hours ?? 2),
+    appointment_max_days_ahead: String(tenant?.appointment_max_days_ahead ?? 60),
+    appointment_max_pieces: String(tenant?.appointment_max_pieces ?? 4),
+    appointment_deposit_amount: String(tenant?.appointment_deposit_amount ?? 0),
+  });
+  const [saving, setSaving] = useState(false);
+
+  if (!tenant) return null;
+
+  const int = (v: string, min: number) => Math.max(min, parseInt(v, 10) || min);
+
+  const handleSave = async () => {
+    setSaving(true);
+    const { error } = await supabase
+      .from('tenants')
+      .update({
+        appointments_enabled: form.appointments_enabled,
+        avg_service_minutes: int(form.avg_service_minutes, 1),
+        appointment_buffer_minutes: int(form.appointment_buffer_minutes, 0),
+        appointment_slot_interval_minutes: int(form.appointment_slot_interval_minutes, 5),
+        appointment_min_notice_hours: int(form.appointment_min_notice_hours, 0),
+        appointment_max_days_ahead: int(form.appointment_max_days_ahead, 1),
+        appointment_max_pieces: int(form.appointment_max_pieces, 1),
+        appointment_deposit_amount: Math.max(0, parseFloat(form.appointment_deposit_amount) || 0),
+      })
+      .eq('id', tenant.id);
+    setSaving(false);
+    if (error) { toast.error('Failed to save booking settings'); return; }
+    toast.success('Booking settings saved');
+    await onSaved();
+  };
+
+  const depositWithoutStripe = parseFloat(form.appointment_deposit_amount) > 0 && !tenant.stripe_account_id;
+
+  return (
+    <section className="rounded-xl border border-[var(--border-default)] bg-[var(--surface-base)] p-5 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-base font-semibold text-[var(--text-primary)]">Online Booking</h2>
+          <p className="text-xs text-[var(--text-tertiary)] mt-0.5">Let guests book studio appointments from your storefront.</p>
+        </div>
+        <button
+          role="switch"
+          aria-checked={form.appointments_enabled}
+          onClick={() => setForm({ ...form, appointments_enabled: !form.appointments_enabled })}
+          className={`relative inline-flex h-6 w-11 shrink-0 rounded-full transition-colors ${form.appointments_enabled ? 'bg-[var(--accent-primary)]' : 'bg-[var(--border-strong)]'}`}
+        >
+          <span className={`inline-block h-5 w-5 mt-0.5 rounded-full bg-white shadow transition-transform ${form.appointments_enabled ? 'translate-x-[22px]' : 'translate-x-0.5'}`} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <Input label="Minutes per piece" type="number" min={1} value={form.avg_service_minutes}
+          onChange={(e) => setForm({ ...form, avg_service_minutes: e.target.value })} />
+        <Input label="Buffer (min)" type="number" min={0} value={form.appointment_buffer_minutes}
+          onChange={(e) => setForm({ ...form, appointment_buffer_minutes: e.target.value })} />
+        <Select
+          label="Start times every"
+          value={form.appointment_slot_interval_minutes}
+          onChange={(e) => setForm({ ...form, appointment_slot_interval_minutes: e.target.value })}
+          options={['10', '15', '20', '30', '60'].map((v) => ({ value: v, label: `${v} min` }))}
+        />
+        <Input label="Max pieces" type="number" min={1} value={form.appointment_max_pieces}
+          onChange={(e) => setForm({ ...form, appointment_max_pieces: e.target.value })} />
+        <Input label="Min notice (hours)" type="number" min={0} value={form.appointment_min_notice_hours}
+          onChange={(e) => setForm({ ...form, appointment_min_notice_hours: e.target.value })} />
+        <Input label="Book up to (days)" type="number" min={1} value={form.appointment_max_days_ahead}
+          onChange={(e) => setForm({ ...form, appointment_max_days_ahead: e.target.value })} />
+        <Input label="Deposit ($)" type="number" min={0} step="0.01" value={form.appointment_deposit_amount}
+          onChange={(e) => setForm({ ...form, appointment_deposit_amount: e.target.value })}
+          helperText={depositWithoutStripe ? 'Connect Stripe in Settings → Payments to collect deposits' : '0 = no deposit'} />
+      </div>
+
+      <p className="text-xs text-[var(--text-tertiary)]">
+        Minutes per piece is also used for queue wait estimates.
+      </p>
+
+      <div className="flex justify-end">
+        <Button variant="primary" onClick={handleSave} loading={saving}>Save Settings</Button>
+      </div>
+    </section>
+  );
+}
+
+// ============================================================================
+// Weekly Hours
+// ============================================================================
+
+function WeeklyHours({
+  tenantId,
+  members,
+  editableMemberIds,
+}: {
+  tenantId: string;
+  members: Member[];
+  editableMemberIds: string[];
+}) {
+  const supabase = createClient();
+  const editable = members.filter((m) => editableMemberIds.includes(m.id));
+  const [memberId, setMemberId] = useState('');
+  const [windows, setWindows] = useState<WindowDraft[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!memberId && editable.length > 0) setMemberId(editable[0].id);
+  }, [editable.length, memberId]);
+
+  useEffect(() => {
+    if (!memberId) return;
+    setLoading(true);
+    supabase
+      .from('appointment_availability')
+      .select('weekday, start_time, end_time')
+      .eq('member_id', memberId)
+      .order('weekday')
+      .order('start_time')
+      .then(({ data }) => {
+        setWindows((data || []).map((w: WindowDraft) => ({
+          weekday: w.weekday,
+          start_time: w.start_time.slice(0, 5),
+          end_time: w.end_time.slice(0, 5),
+        })));
+        setLoading(false);
+      });
+  }, [memberId]);
+
+  if (editable.length === 0) return null;
+
+  const update = (index: number, patch: Partial<WindowDraft>) =>
+    setWindows(windows.map((w, i) => (i === index ? { ...w, ...patch } : w)));
+
+  const handleSave = async () => {
+    if (windows.some((w) => w.end_time <= w.start_time)) {
+      toast.error('Each block must end after it starts');
+      return;
+    }
+    setSaving(true);
+    const { error: deleteError } = await supabase.from('appointment_availability').delete().eq('member_id', memberId);
+    const { error: insertError } = windows.length > 0
+      ? await supabase.from('appointment_availability').insert(
+          windows.map((w) => ({ tenant_id: tenantId, member_id: memberId, ...w }))
+        )
+      : { error: null };
+    setSaving(false);
+    if (deleteError || insertError) { toast.error('Failed to save hours'); return; }
+    toast.success('Hours saved');
+  };
+
+  return (
+    <section className="rounded-xl border border-[var(--border-default)] bg-[var(--surface-base)] p-5 space-y-4">
+      <div className="flex items-center justify-between gap-4 flex-wrap">
+        <div>
+          <h2 className="text-base font-semibold text-[var(--text-primary)]">Weekly Hours</h2>
+          <p className="text-xs text-[var(--text-tertiary)] mt-0.5">When guests can book. Add more than one block for split shifts.</p>
+        </div>
+        {editable.length > 1 && (
+          <select value={memberId} onChange={(e) => setMemberId(e.target.value)} className={inputClass}>
+            {editable.map((m) => <option key={m.id} value={m.id}>{memberName(m)}</option>)}
+          </select>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-[var(--text-tertiary)]">Loading…</p>
+      ) : (
+        <div className="divide-y divide-[var(--border-subtle)]">
+          {WEEKDAYS.map((label, weekday) => {
+            const dayWindows = windows.map((w, i) => ({ w, i })).filter(({ w }) => w.weekday === weekday);
+            return (
+              <div key={label} className="flex items-start gap-3 py-2.5">
+                <span className="w-24 shrink-0 text-sm font-medium text-[var(--text-primary)] pt-1.5">{label}</span>
+                <div className="flex-1 space-y-1.5">
+                  {dayWindows.length === 0 && (
+                    <p className="text-sm text-[var(--text-tertiary)] pt-1.5">Unavailable</p>
+                  )}
+                  {dayWindows.map(({ w, i }) => (
+                    <div key={i} className="flex items-center gap-2">
+                      <input type="time" value={w.start_time} onChange={(e) => update(i, { start_time: e.target.value })} className={inputClass} />
+                      <span className="text-sm text-[var(--text-tertiary)]">to</span>
+                      <input type="time" value={w.end_time} onChange={(e) => update(i, { end_time: e.target.value })} className={inputClass} />
+                      <button
+                        onClick={() => setWindows(windows.filter((_, j) => j !== i))}
+                        className="p-1 text-[var(--text-tertiary)] hover:text-red-500"
+                        aria-label="Remove block"
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setWindows([...windows, { weekday, start_time: '10:00', end_time: '18:00' }])}
+                  className="text-xs font-medium text-[var(--accent-primary)] hover:underline pt-2"
+                >
+                  + Add
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button variant="primary" onClick={handleSave} loading={saving} disabled={loading}>Save Hours</Button>
+      </div>
+    </section>
+  );
+}
+
+// ============================================================================
+// Blackout Dates
+// ============================================================================
+
+function Blackouts({
+  tenantId,
+  members,
+  canManage,
+}: {
+  tenantId: string;
+  members: Member[];
+  canManage: boolean;
+}) {
+  const supabase = createClient();
+  const [blackouts, setBlackouts] = useState<AppointmentBlackout[]>([]);
+  const [form, setForm] = useState({ start_date: '', end_date: '', member_id: '', reason: '' });
+  const [saving, setSaving] = useState(false);
+
+  const fetchBlackouts = useCallback(async () => {
+    const { data } = await supabase
+      .from('appointment_blackouts')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .gte('end_date', new Date().toISOString().slice(0, 10))
+      .order('start_date');
+    setBlackouts((data || []) as AppointmentBlackout[]);
+  }, [tenantId]);
+
+  useEffect(() => { fetchBlackouts(); }, [fetchBlackouts]);
+
+  const handleAdd = async () => {
+    if (!form.start_date) { toast.error('Pick a start date'); return; }
+    const endDate = form.end_date || form.start_date;
+    if (endDate < form.start_date) { toast.error('End date must be on or after the start date'); return; }
+    setSaving(true);
+    const { error } = await supabase.from('appointment_blackouts').insert({
+      tenant_id: tenantId,
+      member_id: form.member_id || null,
+      start_date: form.start_date,
+      end_date: endDate,
+      reason: form.reason.trim() || null,
+    });
+    setSaving(false);
+    if (error) { toast.error('Failed to add blackout'); return; }
+    setForm({ start_date: '', end_date: '', member_id: '', reason: '' });
+    fetchBlackouts();
+  };
+
+  const handleDelete = async (id: string) => {
+    const { error } = await supabase.from('appointment_blackouts').delete().eq('id', id);
+    if (error) { toast.error('Failed to remove blackout'); return; }
+    fetchBlackouts();
+  };
+
+  const formatDay = (d: string) =>
+    new Date(`${d}T12:00:00Z`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+
+  const whoLabel = (memberId: string | null) =>
+    memberId ? memberName(members.find((m) => m.id === memberId) || { id: '', user_id: '', display_name: null, invited_email: null }) : 'Whole studio';
+
+  return (
+    <section className="rounded-xl border border-[var(--border-default)] bg-[var(--surface-base)] p-5 space-y-4">
+      <div>
+        <h2 className="text-base font-semibold text-[var(--text-primary)]">Blackout Dates</h2>
+        <p className="text-xs text-[var(--text-tertiary)] mt-0.5">Days off, holidays and event days — no bookings are offered.</p>
+      </div>
+
+      {blackouts.length > 0 && (
+        <div className="divide-y divide-[var(--border-subtle)]">
+          {blackouts.map((b) => (
+            <div key={b.id} className="flex items-center justify-between gap-3 py-2">
+              <div>
+                <p className="text-sm text-[var(--text-primary)]">
+                  {formatDay(b.start_date)}{b.end_date !== b.start_date && ` – ${formatDay(b.end_date)}`}
+                </p>
+                <p className="text-xs text-[var(--text-tertiary)]">
+                  {whoLabel(b.member_id)}{b.reason && ` · ${b.reason}`}
+                </p>
+              </div>
+              {canManage && (
+                <button onClick={() => handleDelete(b.id)} className="text-xs text-[var(--text-tertiary)] hover:text-red-500">
+                  Remove
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 items-end">
+          <Input label="From" type="date" value={form.start_date} onChange={(e) => setForm({ ...form, start_date: e.target.value })} />
+          <Input label="To" type="date" value={form.end_date} onChange={(e) => setForm({ ...form, end_date: e.target.value })} />
+          {members.length > 1 ? (
+            <Select
+              label="Applies to"
+              value={form.member_id}
+              onChange={(e) => setForm({ ...form, member_id: e.target.value })}
+              options={[{ value: '', label: 'Whole studio' }, ...members.map((m) => ({ value: m.id, label: memberName(m) }))]}
+            />
+          ) : (
+            <Input label="Reason" value={form.reason} placeholder="Vacation" onChange={(e) => setForm({ ...form, reason: e.target.value })} />
+          )}
+          <Button variant="secondary" onClick={handleAdd} loading={saving}>Add Blackout</Button>
+        </div>
+      )}
+    </section>
+  );
+}
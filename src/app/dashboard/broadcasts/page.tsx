@@ -1,6 +1,6 @@
 'use client';
 
-import { Suspense, useEffect, useState, useCallback, useRef } from 'react';
+import { Suspense, useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { useTenant } from '@/hooks/use-tenant';
 import { toast } from 'sonner';
@@ -17,13 +17,18 @@ import {
 } from '@/components/ui';
 import type {
   Broadcast,
+  MessageMedia,
   MessageTemplate,
   MessageChannel,
   MessageCategory,
   BroadcastTargetType,
+  EmailBlock,
 } from '@/types';
 import { renderTemplate, TEMPLATE_VARIABLES, SAMPLE_VARIABLES } from '@/lib/templates';
+import { newEmailBlock } from '@/lib/email-blocks';
 import UpgradePrompt from '@/components/ui/UpgradePrompt';
+import MmsAttachments from '@/components/clients/MmsAttachments';
+import EmailBlockEditor from '@/components/broadcasts/EmailBlockEditor';
 
 // ── Status badge colors ────────────────────────────────────────────────────
 const STATUS_STYLES: Record<string, { bg: string; text: string; label: string }> = {
@@ -286,9 +291,13 @@ interface PreviewData {
   sendable: number;
   missingContact: number;
   noConsent: number;
-  recipients: Array<{ id: string; name: string; contact: string | null; willSend: boolean; hasConsent: boolean }>;
+  /** Part of noConsent — numbers on the suppression list */
+  optedOut: number;
+  recipients: Array<{ id: string; name: string; contact: string | null; willSend: boolean; hasConsent: boolean; optedOut: boolean }>;
   sampleBody: string;
   sampleSubject: string | null;
+  /** Rendered HTML for email broadcasts */
+  sampleHtml: string | null;
 }
 
 function NewBroadcastTab({
@@ -302,6 +311,7 @@ function NewBroadcastTab({
   tenantPhone: string;
   onCreated: () => void;
 }) {
+  const { can } = useTenant();
   const [step, setStep] = useState<Step>('setup');
   const [name, setName] = useState('');
   const [channel, setChannel] = useState<MessageChannel>('sms');
@@ -312,6 +322,8 @@ function NewBroadcastTab({
   const [templateId, setTemplateId] = useState('');
   const [customSubject, setCustomSubject] = useState('');
   const [customBody, setCustomBody] = useState('');
+  const [attachments, setAttachments] = useState<MessageMedia[]>([]);
+  const [emailBlocks, setEmailBlocks] = useState<EmailBlock[]>(() => [newEmailBlock('header'), newEmailBlock('text')]);
   const [tags, setTags] = useState<Array<{ id: string; name: string }>>([]);
   const [segments, setSegments] = useState<Array<{ id: string; name: string }>>([]);
   const [templates, setTemplates] = useState<MessageTemplate[]>([]);
@@ -328,11 +340,20 @@ function NewBroadcastTab({
   }, [tenantId]);
 
   const filteredTemplates = templates.filter((t) => t.channel === channel);
+  const useBlocks = channel === 'email' && !useTemplate;
+  const sampleVars = useMemo<Record<string, string>>(() => ({
+    ...SAMPLE_VARIABLES,
+    business_name: tenantName || SAMPLE_VARIABLES.business_name,
+    business_phone: tenantPhone || SAMPLE_VARIABLES.business_phone,
+  }), [tenantName, tenantPhone]);
 
   const handleNext = async () => {
     if (!name.trim()) { toast.error('Enter a broadcast name'); return; }
     if (useTemplate && !templateId) { toast.error('Select a template'); return; }
-    if (!useTemplate && !customBody.trim()) { toast.error('Enter a message body'); return; }
+    if (useBlocks) {
+      if (!customSubject.trim()) { toast.error('Enter a subject line'); return; }
+      if (!emailBlocks.some((b) => b.type !== 'header')) { toast.error('Add some content to the email'); return; }
+    } else if (!useTemplate && !customBody.trim() && !(channel === 'sms' && attachments.length > 0)) { toast.error('Enter a message body'); return; }
     if (targetType !== 'all' && !targetId) { toast.error('Select a target'); return; }
 
     const res = await fetch('/api/broadcasts', {
@@ -342,7 +363,11 @@ function NewBroadcastTab({
         name: name.trim(), channel,
         template_id: useTemplate ? templateId : null,
         custom_subject: !useTemplate ? customSubject : null,
-        custom_body: !useTemplate ? customBody : null,
+        custom_body: !useTemplate && !useBlocks ? customBody : null,
+        email_blocks: useBlocks ? emailBlocks : null,
+        media: channel === 'sms'
+          ? attachments.map(({ path, content_type }) => ({ path, content_type }))
+          : [],
         target_type: targetType,
         target_id: targetType !== 'all' ? targetId : null,
         target_name: targetName || null,
@@ -381,6 +406,8 @@ function NewBroadcastTab({
     if (broadcastId) await fetch(`/api/broadcasts/${broadcastId}`, { method: 'DELETE' });
     setStep('setup');
     setName('');
+    setAttachments([]);
+    setEmailBlocks([newEmailBlock('header'), newEmailBlock('text')]);
     setBroadcastId(null);
     setPreview(null);
   };
@@ -463,9 +490,13 @@ function NewBroadcastTab({
               ) : (
                 <div className="space-y-3">
                   {channel === 'email' && <Input label="Subject Line" value={customSubject} onChange={(e) => setCustomSubject(e.target.value)} placeholder="Subject..." />}
-                  <textarea value={customBody} onChange={(e) => setCustomBody(e.target.value)} rows={channel === 'sms' ? 4 : 8}
-                    className="w-full px-3 py-2.5 text-sm border border-[var(--border-default)] rounded-lg bg-[var(--surface-raised)] text-[var(--text-primary)] resize-y min-h-[80px] focus:outline-none focus:ring-2 focus:ring-[var(--accent-subtle)]"
-                    placeholder="Type your message... Use {{client_name}}, {{client_first_name}}, {{business_name}}, {{business_phone}}" />
+                  {useBlocks ? (
+                    <EmailBlockEditor blocks={emailBlocks} onChange={setEmailBlocks} sampleVars={sampleVars} />
+                  ) : (
+                    <textarea value={customBody} onChange={(e) => setCustomBody(e.target.value)} rows={channel === 'sms' ? 4 : 8}
+                      className="w-full px-3 py-2.5 text-sm border border-[var(--border-default)] rounded-lg bg-[var(--surface-raised)] text-[var(--text-primary)] resize-y min-h-[80px] focus:outline-none focus:ring-2 focus:ring-[var(--accent-subtle)]"
+                      placeholder="Type your message... Use {{client_name}}, {{client_first_name}}, {{business_name}}, {{business_phone}}" />
+                  )}
                   {channel === 'sms' && (
                     <span className={`text-xs font-medium ${customBody.length <= 160 ? 'text-success-600' : customBody.length <= 320 ? 'text-warning-600' : 'text-error-600'}`}>
                       {customBody.length} / 160 characters
@@ -475,6 +506,16 @@ function NewBroadcastTab({
               )}
             </div>
 
+            {channel === 'sms' && (
+              <div>
+                <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1.5">Images</label>
+                <MmsAttachments media={attachments} onChange={setAttachments} />
+                <p className="text-xs text-[var(--text-tertiary)] mt-1.5">
+                  With an image, each text goes out as a picture message (MMS), which costs more than a regular text.
+                </p>
+              </div>
+            )}
+
             <div className="flex justify-end gap-2 pt-4">
               <Button variant="primary" onClick={handleNext}>Next: Preview</Button>
             </div>
@@ -503,16 +544,24 @@ function NewBroadcastTab({
                   <div className="bg-error-50 rounded-lg p-3 text-center">
                     <div className="text-lg font-bold text-error-600">{preview.noConsent}</div>
                     <div className="text-xs text-error-600">No Consent</div>
+                    {preview.optedOut > 0 && (
+                      <div className="text-[10px] text-error-600">{preview.optedOut} opted out</div>
+                    )}
                   </div>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1.5">Message Preview</label>
                   <div className="border border-[var(--border-default)] rounded-xl bg-[var(--surface-subtle)] p-4">
                     {channel === 'sms' ? (
-                      <div className="max-w-[300px]">
-                        <div className="rounded-2xl rounded-bl-sm px-4 py-3 text-sm leading-relaxed whitespace-pre-wrap" style={{ backgroundColor: '#F0F0F0', color: '#1A1A1A' }}>
-                          {preview.sampleBody || 'No message content'}
-                        </div>
+                      <div className="max-w-[300px] space-y-1.5">
+                        {attachments.map((m) => m.url && (
+                          <img key={m.path} src={m.url} alt="Attachment" className="max-h-48 rounded-2xl object-cover" />
+                        ))}
+                        {(preview.sampleBody || attachments.length === 0) && (
+                          <div className="rounded-2xl rounded-bl-sm px-4 py-3 text-sm leading-relaxed whitespace-pre-wrap" style={{ backgroundColor: '#F0F0F0', color: '#1A1A1A' }}>
+                            {preview.sampleBody || 'No message content'}
+                          </div>
+                        )}
                       </div>
                     ) : (
                       <div className="bg-[var(--surface-raised)] rounded-lg border border-[var(--border-default)] overflow-hidden">
@@ -521,9 +570,13 @@ function NewBroadcastTab({
                             <p className="text-sm font-medium text-[var(--text-primary)]">{preview.sampleSubject}</p>
                           </div>
                         )}
-                        <div className="px-4 py-4 text-sm text-[var(--text-secondary)] whitespace-pre-wrap leading-relaxed">
-                          {preview.sampleBody || 'No message content'}
-                        </div>
+                        {preview.sampleHtml ? (
+                          <iframe title="Email preview" srcDoc={preview.sampleHtml} sandbox="" className="w-full h-[480px] bg-white" />
+                        ) : (
+                          <div className="px-4 py-4 text-sm text-[var(--text-secondary)] whitespace-pre-wrap leading-relaxed">
+                            {preview.sampleBody || 'No message content'}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -552,7 +605,9 @@ function NewBroadcastTab({
                               ) : !r.contact ? (
                                 <span className="inline-flex items-center px-1.5 py-0.5 rounded-full text-[10px] font-medium bg-warning-100 text-warning-600">No contact</span>
                               ) : (
-                                <span className="inline-flex items-center px-1.5 py-0.5 rounded-full text-[10px] font-medium bg-error-100 text-error-600">No consent</span>
+                                <span className="inline-flex items-center px-1.5 py-0.5 rounded-full text-[10px] font-medium bg-error-100 text-error-600">
+                                  {r.optedOut ? (channel === 'email' ? 'Unsubscribed' : 'Opted out') : 'No consent'}
+                                </span>
                               )}
                             </td>
                           </tr>
@@ -567,10 +622,21 @@ function NewBroadcastTab({
             )}
             <div className="flex justify-end gap-2 pt-4">
               <Button variant="secondary" onClick={() => setStep('setup')}>Back</Button>
-              <Button variant="primary" onClick={handleSend} disabled={!preview || preview.sendable === 0}>
-                Send to {preview?.sendable || 0} Recipients
-              </Button>
+              {can('broadcasts:send') ? (
+                <Button variant="primary" onClick={handleSend} disabled={!preview || preview.sendable === 0}>
+                  Send to {preview?.sendable || 0} Recipients
+                </Button>
+              ) : (
+                <Button variant="primary" onClick={onCreated}>
+                  Save Draft
+                </Button>
+              )}
             </div>
+            {!can('broadcasts:send') && (
+              <p className="text-xs text-[var(--text-tertiary)] text-right">
+                Your role can&apos;t send broadcasts. Save it and a manager can send it from Activity.
+              </p>
+            )}
           </div>
         )}
 
@@ -917,6 +983,7 @@ interface WorkflowTemplate {
   name: string;
   trigger_type: string;
   trigger_tag?: string | null;
+  send_mode?: 'auto' | 'review';
   is_active: boolean;
   created_at: string;
   steps: WorkflowStep[];
@@ -1067,6 +1134,8 @@ function WorkflowsTab({ tenantId }: { tenantId: string }) {
                     <span>Trigger: {TRIGGER_LABELS[wf.trigger_type] || wf.trigger_type}{wf.trigger_type === 'tag_added' && wf.trigger_tag ? ` "${wf.trigger_tag}"` : ''}</span>
                     <span>·</span>
                     <span>{wf.steps?.length || 0} steps</span>
+                    <span>·</span>
+                    <span>{wf.send_mode === 'auto' ? 'Auto-send' : 'Review first'}</span>
                   </div>
                 </button>
 
@@ -1160,31 +1229,45 @@ function WorkflowsTab({ tenantId }: { tenantId: string }) {
 function BulkEnrollSection({ workflowId, tenantId }: { workflowId: string; tenantId: string }) {
   const [showEnroll, setShowEnroll] = useState(false);
   const [tags, setTags] = useState<{ id: string; name: string }[]>([]);
-  const [selectedTag, setSelectedTag] = useState('');
+  const [segments, setSegments] = useState<{ id: string; name: string }[]>([]);
+  // "tag:<id>" or "segment:<id>"
+  const [selectedTarget, setSelectedTarget] = useState('');
   const [preview, setPreview] = useState<number | null>(null);
   const [enrolling, setEnrolling] = useState(false);
   const [loadingTags, setLoadingTags] = useState(false);
 
-  const fetchTags = async () => {
+  const fetchTargets = async () => {
     setLoadingTags(true);
-    const res = await fetch(`/api/tags?tenantId=${tenantId}`);
-    if (res.ok) {
-      const data = await res.json();
+    const [tagRes, segRes] = await Promise.all([
+      fetch(`/api/tags?tenantId=${tenantId}`),
+      fetch(`/api/segments?tenantId=${tenantId}`),
+    ]);
+    if (tagRes.ok) {
+      const data = await tagRes.json();
       setTags(data.map((t: any) => ({ id: t.id, name: t.name })));
     }
+    if (segRes.ok) {
+      const data = await segRes.json();
+      setSegments(data.map((s: any) => ({ id: s.id, name: s.name })));
+    }
     setLoadingTags(false);
   };
 
   const handleOpen = () => {
     setShowEnroll(true);
-    fetchTags();
+    fetchTargets();
   };
 
-  const handleTagSelect = async (tagId: string) => {
-    setSelectedTag(tagId);
+  const targetParams = (target: string): Record<string, string> => {
+    const [kind, id] = target.split(':');
+    return kind === 'segment' ? { segmentId: id } : { tagId: id };
+  };
+
+  const handleTargetSelect = async (target: string) => {
+    setSelectedTarget(target);
     setPreview(null);
-    if (tagId) {
-      const res = await fetch(`/api/workflows/bulk-enroll?tagId=${tagId}`);
+    if (target) {
+      const res = await fetch(`/api/workflows/bulk-enroll?${new URLSearchParams(targetParams(target))}`);
       if (res.ok) {
         const data = await res.json();
         setPreview(data.count);
@@ -1193,19 +1276,19 @@ function BulkEnrollSection({ workflowId, tenantId }: { workflowId: string; tenan
   };
 
   const handleEnroll = async () => {
-    if (!selectedTag) return;
+    if (!selectedTarget) return;
     setEnrolling(true);
     const res = await fetch('/api/workflows/bulk-enroll', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ workflowId, tagId: selectedTag, tenantId }),
+      body: JSON.stringify({ workflowId, ...targetParams(selectedTarget), tenantId }),
     });
     setEnrolling(false);
     if (res.ok) {
       const data = await res.json();
       toast.success(`Enrolled ${data.enrolled} client${data.enrolled !== 1 ? 's' : ''}${data.skipped > 0 ? ` (${data.skipped} already enrolled)` : ''}`);
       setShowEnroll(false);
-      setSelectedTag('');
+      setSelectedTarget('');
       setPreview(null);
     } else {
       toast.error('Failed to enroll clients');
@@ -1219,7 +1302,7 @@ function BulkEnrollSection({ workflowId, tenantId }: { workflowId: string; tenan
           onClick={handleOpen}
           className="text-xs font-medium text-[var(--accent-primary)] hover:underline"
         >
-          Bulk Enroll by Tag
+          Bulk Enroll by Tag or Segment
         </button>
       </div>
     );
@@ -1228,23 +1311,34 @@ function BulkEnrollSection({ workflowId, tenantId }: { workflowId: string; tenan
   return (
     <div className="mt-3 pt-3 border-t border-[var(--border-subtle)] space-y-2">
       <label className="block text-xs font-medium text-[var(--text-secondary)]">
-        Enroll all clients with tag:
+        Enroll all clients in:
       </label>
       {loadingTags ? (
         <p className="text-xs text-[var(--text-tertiary)]">Loading tags...</p>
       ) : (
         <select
-          value={selectedTag}
-          onChange={(e) => handleTagSelect(e.target.value)}
+          value={selectedTarget}
+          onChange={(e) => handleTargetSelect(e.target.value)}
           className="w-full px-3 py-2 text-sm border border-[var(--border-default)] rounded-lg bg-[var(--surface-raised)] text-[var(--text-primary)] focus:outline-none"
         >
-          <option value="">Select a tag...</option>
-          {tags.map((tag) => (
-            <option key={tag.id} value={tag.id}>{tag.name}</option>
-          ))}
+          <option value="">Select a tag or segment...</option>
+          {tags.length > 0 && (
+            <optgroup label="Tags">
+              {tags.map((tag) => (
+                <option key={tag.id} value={`tag:${tag.id}`}>{tag.name}</option>
+              ))}
+            </optgroup>
+          )}
+          {segments.length > 0 && (
+            <optgroup label="Segments">
+              {segments.map((seg) => (
+                <option key={seg.id} value={`segment:${seg.id}`}>{seg.name}</option>
+              ))}
+            </optgroup>
+          )}
         </select>
       )}
-      {preview !== null && selectedTag && (
+      {preview !== null && selectedTarget && (
         <p className="text-xs text-[var(--text-secondary)]">
           This will enroll <strong>{preview}</strong> client{preview !== 1 ? 's' : ''} in this workflow.
         </p>
@@ -1255,14 +1349,14 @@ function BulkEnrollSection({ workflowId, tenantId }: { workflowId: string; tenan
           size="sm"
           onClick={handleEnroll}
           loading={enrolling}
-          disabled={!selectedTag || preview === 0}
+          disabled={!selectedTarget || preview === 0}
         >
           Enroll
         </Button>
         <Button
           variant="secondary"
           size="sm"
-          onClick={() => { setShowEnroll(false); setSelectedTag(''); setPreview(null); }}
+          onClick={() => { setShowEnroll(false); setSelectedTarget(''); setPreview(null); }}
         >
           Cancel
         </Button>
@@ -1295,6 +1389,7 @@ function WorkflowEditorModal({
   const [name, setName] = useState(workflow?.name || '');
   const [triggerType, setTriggerType] = useState(workflow?.trigger_type || 'event_purchase');
   const [triggerTag, setTriggerTag] = useState(workflow?.trigger_tag || '');
+  const [sendMode, setSendMode] = useState<'auto' | 'review'>(workflow?.send_mode || 'review');
   const [availableTags, setAvailableTags] = useState<{ id: string; name: string }[]>([]);
   const [steps, setSteps] = useState<StepDraft[]>(
     workflow?.steps
@@ -1341,8 +1436,8 @@ function WorkflowEditorModal({
     const url = '/api/workflows';
     const method = isEditing ? 'PATCH' : 'POST';
     const body = isEditing
-      ? { id: workflow!.id, name, trigger_type: triggerType, trigger_tag: triggerType === 'tag_added' ? triggerTag : null, steps }
-      : { tenantId, name, trigger_type: triggerType, trigger_tag: triggerType === 'tag_added' ? triggerTag : null, steps };
+      ? { id: workflow!.id, name, trigger_type: triggerType, trigger_tag: triggerType === 'tag_added' ? triggerTag : null, send_mode: sendMode, steps }
+      : { tenantId, name, trigger_type: triggerType, trigger_tag: triggerType === 'tag_added' ? triggerTag : null, send_mode: sendMode, steps };
 
     const res = await fetch(url, {
       method,
@@ -1432,6 +1527,26 @@ function WorkflowEditorModal({
             </div>
           )}
 
+          {/* Send Mode */}
+          <div>
+            <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1.5">
+              Sending
+            </label>
+            <select
+              value={sendMode}
+              onChange={(e) => setSendMode(e.target.value as 'auto' | 'review')}
+              className="w-full px-3 py-2.5 text-sm border border-[var(--border-default)] rounded-lg bg-[var(--surface-raised)] text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-subtle)]"
+            >
+              <option value="review">Review first (show in Needs Attention)</option>
+              <option value="auto">Auto-send when due</option>
+            </select>
+            <p className="text-xs text-[var(--text-tertiary)] mt-1">
+              {sendMode === 'auto'
+                ? 'Messages send automatically outside your quiet hours. Clients without SMS consent are skipped.'
+                : 'Each message waits for you to tap Send or Skip on the Clients page.'}
+            </p>
+          </div>
+
           {/* Steps */}
           <div>
             <div className="flex items-center justify-between mb-2">
@@ -1567,6 +1682,7 @@ function BroadcastDetail({
 }: {
   broadcast: Broadcast; onClose: () => void; onDeleted: () => void; onSent: () => void;
 }) {
+  const { can } = useTenant();
   const [detail, setDetail] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [confirmDelete, setConfirmDelete] = useState(false);
@@ -1594,6 +1710,16 @@ function BroadcastDetail({
 
   const style = STATUS_STYLES[broadcast.status] || STATUS_STYLES.draft;
 
+  // Email engagement — unique recipients, as a share of emails sent
+  const isEmail = broadcast.channel === 'email';
+  const messages: any[] = detail?.messages || [];
+  const engagement = isEmail ? [
+    { label: 'Opened', count: messages.filter((m) => m.opened_at).length },
+    { label: 'Clicked', count: messages.filter((m) => m.clicked_at).length },
+    { label: 'Unsubscribed', count: messages.filter((m) => m.unsubscribed_at).length },
+  ] : [];
+  const rate = (count: number) => broadcast.sent_count > 0 ? `${Math.round((count / broadcast.sent_count) * 100)}%` : '—';
+
   return (
     <Modal isOpen={true} onClose={onClose} size="lg">
       <ModalHeader>
@@ -1623,6 +1749,16 @@ function BroadcastDetail({
                 <div className="bg-warning-50 rounded-lg p-3 text-center"><div className="text-lg font-bold text-warning-600">{broadcast.skipped_count}</div><div className="text-xs text-warning-600">Skipped</div></div>
               </div>
             )}
+            {isEmail && broadcast.status === 'completed' && (
+              <div className="grid grid-cols-3 gap-3">
+                {engagement.map((e) => (
+                  <div key={e.label} className="bg-[var(--surface-subtle)] rounded-lg p-3 text-center">
+                    <div className="text-lg font-bold text-[var(--text-primary)]">{rate(e.count)}</div>
+                    <div className="text-xs text-[var(--text-tertiary)]">{e.label} ({e.count})</div>
+                  </div>
+                ))}
+              </div>
+            )}
             {detail?.messages && detail.messages.length > 0 && (
               <div>
                 <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1.5">Message Log ({detail.messages.length})</label>
@@ -1632,6 +1768,8 @@ function BroadcastDetail({
                       <tr>
                         <th className="px-3 py-2 text-left text-xs font-medium text-[var(--text-tertiary)]">Recipient</th>
                         <th className="px-3 py-2 text-center text-xs font-medium text-[var(--text-tertiary)]">Status</th>
+                        {isEmail && <th className="px-3 py-2 text-center text-xs font-medium text-[var(--text-tertiary)]">Opened</th>}
+                        {isEmail && <th className="px-3 py-2 text-center text-xs font-medium text-[var(--text-tertiary)]">Clicked</th>}
                         <th className="px-3 py-2 text-left text-xs font-medium text-[var(--text-tertiary)]">Error</th>
                       </tr>
                     </thead>
@@ -1642,6 +1780,8 @@ function BroadcastDetail({
                           <tr key={m.id} className="border-t border-[var(--border-default)]">
                             <td className="px-3 py-2 text-[var(--text-primary)] font-mono text-xs">{m.recipient}</td>
                             <td className="px-3 py-2 text-center"><span className={`inline-flex items-center px-1.5 py-0.5 rounded-full text-[10px] font-medium ${msgStyle}`}>{m.status}</span></td>
+                            {isEmail && <td className="px-3 py-2 text-center text-xs text-[var(--text-secondary)]">{m.open_count || '—'}</td>}
+                            {isEmail && <td className="px-3 py-2 text-center text-xs text-[var(--text-secondary)]">{m.click_count || '—'}</td>}
                             <td className="px-3 py-2 text-[var(--text-tertiary)] text-xs">{m.error_message || '—'}</td>
                           </tr>
                         );
@@ -1658,7 +1798,9 @@ function BroadcastDetail({
         {broadcast.status === 'draft' && (
           <>
             <Button variant="danger" onClick={() => setConfirmDelete(true)}>Delete</Button>
-            <Button variant="primary" onClick={handleSend} loading={sending}>Send Now</Button>
+            {can('broadcasts:send') && (
+              <Button variant="primary" onClick={handleSend} loading={sending}>Send Now</Button>
+            )}
           </>
         )}
         {broadcast.status !== 'draft' && <Button variant="secondary" onClick={onClose}>Close</Button>}
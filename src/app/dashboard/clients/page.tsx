@@ -8,15 +8,18 @@ import { toast } from 'sonner';
 import {
   ClientsHeader,
   ClientSearch,
-  TagFilterChips,
+  SegmentFilterBar,
+  SegmentBuilderModal,
   ClientList,
   ClientProfile,
   ClientFormModal,
   TagManagerModal,
+  DuplicatesModal,
 } from '@/components/clients';
 import ImportModal from '@/components/ImportModal';
 import UpgradePrompt from '@/components/ui/UpgradePrompt';
 import type { Client, ClientTag, ClientSegment } from '@/types';
+import type { SegmentFilter } from '@/lib/segments';
 import { downloadCSV, escapeCSVField } from '@/lib/csv-templates';
 import SunnyTutorial from '@/components/SunnyTutorial';
 
@@ -42,13 +45,14 @@ export default function ClientsPage() {
   // Tag state
   const [tags, setTags] = useState<TagWithCount[]>([]);
   const [clientTagMap, setClientTagMap] = useState<ClientTagMap>({});
-  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
   const [showTagManager, setShowTagManager] = useState(false);
 
   // Segment state
   const [segments, setSegments] = useState<ClientSegment[]>([]);
-  const [savingSegment, setSavingSegment] = useState(false);
   const [activeSegment, setActiveSegment] = useState<ClientSegment | null>(null);
+  const [activeFilter, setActiveFilter] = useState<SegmentFilter | null>(null);
+  const [matchingIds, setMatchingIds] = useState<Set<string> | null>(null);
+  const [builder, setBuilder] = useState<{ segment: ClientSegment | null } | null>(null);
 
   // Subscription gating
   const isStarter = (() => {
@@ -115,47 +119,37 @@ export default function ClientsPage() {
   useEffect(() => { fetchTags(); fetchSegments(); }, [fetchTags, fetchSegments]);
   useEffect(() => { if (clients.length > 0) fetchTagAssignments(); }, [clients, fetchTagAssignments]);
 
-  // ── Tag filtering (AND logic) ─────────────────────────────────────────────
-  const filteredClients = selectedTagIds.length > 0
-    ? clients.filter((c) => {
-        const ct = clientTagMap[c.id] || [];
-        return selectedTagIds.every((tagId) => ct.includes(tagId));
-      })
+  // ── Segment filtering ─────────────────────────────────────────────────────
+  // Rules are evaluated server-side; the list is narrowed to the matching ids.
+  const filteredClients = matchingIds
+    ? clients.filter((c) => matchingIds.has(c.id))
     : clients;
 
   // ── Handlers ──────────────────────────────────────────────────────────────
-  const toggleTagFilter = (tagId: string) => {
+  const clearFilter = () => {
     setActiveSegment(null);
-    setSelectedTagIds((prev) =>
-      prev.includes(tagId) ? prev.filter((id) => id !== tagId) : [...prev, tagId]
-    );
+    setActiveFilter(null);
+    setMatchingIds(null);
   };
 
-  const applySegment = (segment: ClientSegment) => {
-    setSelectedTagIds(segment.filter_criteria?.tagIds || []);
-    setActiveSegment(segment);
-  };
-
-  const saveAsSegment = async () => {
-    if (!tenant || selectedTagIds.length === 0) return;
-    const name = prompt('Segment name:');
-    if (!name) return;
-    setSavingSegment(true);
-    const res = await fetch('/api/segments', {
+  const applySegment = async (segment: ClientSegment) => {
+    const res = await fetch('/api/segments/preview', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ tenant_id: tenant.id, name, filter_criteria: { tagIds: selectedTagIds } }),
+      body: JSON.stringify({ filter_criteria: segment.filter_criteria, include_ids: true }),
     });
-    setSavingSegment(false);
-    if (res.ok) { toast.success('Segment saved'); fetchSegments(); }
-    else toast.error('Failed to save segment');
+    if (!res.ok) { toast.error('Failed to apply segment'); return; }
+    const data = await res.json();
+    setActiveSegment(segment);
+    setActiveFilter(null);
+    setMatchingIds(new Set(data.client_ids || []));
   };
 
   const deleteSegment = async (id: string) => {
     const res = await fetch(`/api/segments/${id}`, { method: 'DELETE' });
     if (res.ok) {
       toast.success('Segment deleted');
-      if (activeSegment?.id === id) { setActiveSegment(null); setSelectedTagIds([]); }
+      if (activeSegment?.id === id) clearFilter();
       fetchSegments();
     }
   };
@@ -180,6 +174,7 @@ export default function ClientsPage() {
 
   // ── Import / Export ──────────────────────────────────────────────────────
   const [showImport, setShowImport] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
 
   const handleExportCSV = async () => {
     if (!tenant) return;
@@ -237,7 +232,7 @@ export default function ClientsPage() {
       <ClientsHeader
         clientCount={clients.length}
         filteredCount={filteredClients.length}
-        isFiltered={selectedTagIds.length > 0}
+        isFiltered={!!matchingIds}
         canEdit={can('clients:edit')}
         crmEnabled={crmEnabled}
         tenantSlug={tenant?.slug || null}
@@ -245,23 +240,24 @@ export default function ClientsPage() {
         onBroadcast={() => router.push('/dashboard/broadcasts')}
         onImport={() => setShowImport(true)}
         onExport={handleExportCSV}
+        onFindDuplicates={() => setShowDuplicates(true)}
       />
 
       {/* Search + Tag Filters */}
       <div className="space-y-2">
         <ClientSearch onSearch={setSearch} />
         {!isStarter && (
-          <TagFilterChips
-            tags={tags}
-            selectedTagIds={selectedTagIds}
+          <SegmentFilterBar
             segments={segments}
             activeSegment={activeSegment}
-            savingSegment={savingSegment}
+            isFiltered={!!matchingIds}
+            matchCount={filteredClients.length}
             canEdit={can('clients:edit')}
-            onToggleTag={toggleTagFilter}
-            onClearFilters={() => { setSelectedTagIds([]); setActiveSegment(null); }}
-            onSaveSegment={saveAsSegment}
+            onNewFilter={() => setBuilder({ segment: null })}
+            onEditFilter={() => setBuilder({ segment: activeSegment })}
+            onClearFilter={clearFilter}
             onApplySegment={applySegment}
+            onEditSegment={(segment) => setBuilder({ segment })}
             onDeleteSegment={deleteSegment}
             onManageTags={() => setShowTagManager(true)}
           />
@@ -275,7 +271,7 @@ export default function ClientsPage() {
         isStarter={isStarter}
         tags={tags}
         clientTagMap={clientTagMap}
-        hasFilters={!!search || selectedTagIds.length > 0}
+        hasFilters={!!search || !!matchingIds}
         onOpenProfile={(client) => setProfileClientId(client.id)}
         onAddClient={() => setShowForm(true)}
       />
@@ -310,6 +306,31 @@ export default function ClientsPage() {
       )}
 
       {/* Tag Manager Modal */}
+      {/* Segment Builder */}
+      {builder && tenant && (
+        <SegmentBuilderModal
+          tenantId={tenant.id}
+          tags={tags}
+          segment={builder.segment}
+          initialFilter={builder.segment ? null : activeFilter}
+          canSave={can('clients:edit')}
+          onClose={() => setBuilder(null)}
+          onApply={(filter, clientIds) => {
+            setActiveSegment(null);
+            setActiveFilter(filter);
+            setMatchingIds(new Set(clientIds));
+            setBuilder(null);
+          }}
+          onSaved={(segment, clientIds) => {
+            setActiveSegment(segment);
+            setActiveFilter(null);
+            setMatchingIds(new Set(clientIds));
+            setBuilder(null);
+            fetchSegments();
+          }}
+        />
+      )}
+
       {showTagManager && (
         <TagManagerModal
           tenantId={tenant?.id || ''}
@@ -329,6 +350,15 @@ export default function ClientsPage() {
         />
       )}
 
+      {/* Duplicate finder */}
+      {showDuplicates && (
+        <DuplicatesModal
+          canEdit={can('clients:edit')}
+          onClose={() => setShowDuplicates(false)}
+          onChanged={() => { fetchClients(); fetchTags(); fetchTagAssignments(); }}
+        />
+      )}
+
       <SunnyTutorial
         pageKey="clients"
         tips={[
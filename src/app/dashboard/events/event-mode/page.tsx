@@ -6,6 +6,8 @@
 // Includes: Jump ring auto-deduction, QR codes, receipt sending (email+SMS),
 // post-sale confirmation, client find/create, inventory movement logging,
 // chain product fields, per-product and per-inch pricing.
+// Offline: the event catalog is cached in IndexedDB, and cash / Venmo /
+// external-card sales are queued locally and synced when back online.
 // ============================================================================
 
 'use client';
@@ -25,7 +27,13 @@ import CartPanel from '@/components/CartPanel';
 import JumpRingPickerModal from '@/components/JumpRingPickerModal';
 import CashDrawerPanel from '@/components/CashDrawerPanel';
 import { createWarrantyRecords } from '@/lib/warranty';
-import { ProductSelector, QueueBadge, CheckoutFlow, PendingPayments, GiftCardModal, SalesPanel } from '@/components/pos';
+import { resolveTimeZone, startOfDayInZone } from '@/lib/timezone';
+import {
+  cacheEventData, getCachedEventData, queueOfflineSale, isNetworkError, OFFLINE_PAYMENT_METHODS,
+  type InventoryDeduction,
+} from '@/lib/offline-sales';
+import { useOfflineSync } from '@/hooks/use-offline-sync';
+import { ProductSelector, QueueBadge, CheckoutFlow, PendingPayments, GiftCardModal, SalesPanel, OfflineSyncIndicator, TimeClockButton } from '@/components/pos';
 import type { CompletedSaleData, CheckoutStep, GiftCardData } from '@/components/pos';
 import type { QueueEntry } from '@/components/MiniQueueStrip';
 import type {
@@ -79,7 +87,6 @@ function calculateJumpRingNeeds(
       cart_item_name: item.name,
       jump_rings_needed: jumpRingsNeeded,
       jump_ring_inventory_id: matchedJumpRing?.id || null,
-      jump_ring_cost_each: matchedJumpRing ? Number(matchedJumpRing.cost_per_unit) : 0,
       material_name: item._material || 'Unknown',
       resolved: !!matchedJumpRing,
     });
@@ -171,11 +178,11 @@ function EventModePageInner() {
   const supabase = createClient();
 
   // ── Load variants for has_variants items ───────────────────────────────
-  const loadVariants = async (items: InventoryItem[]) => {
+  const loadVariants = async (items: InventoryItem[]): Promise<Record<string, InventoryItemVariant[]>> => {
     const ids = items.filter((i) => i.has_variants && i.type !== 'chain').map((i) => i.id);
-    if (!ids.length) { setItemVariants({}); return; }
+    if (!ids.length) { setItemVariants({}); return {}; }
     const { data } = await supabase
-      .from('inventory_item_variants').select('*')
+      .from('inventory_item_variants_without_cost').select('*')
       .in('inventory_item_id', ids).eq('is_active', true)
       .order('sort_order').order('name');
     const map: Record<string, InventoryItemVariant[]> = {};
@@ -184,6 +191,7 @@ function EventModePageInner() {
       map[v.inventory_item_id].push(v);
     }
     setItemVariants(map);
+    return map;
   };
 
   // Pre-filter jump ring inventory for quick access
@@ -232,19 +240,44 @@ function EventModePageInner() {
 
   useEffect(() => {
     if (!tenant || !eventId) return;
+    // Offline (or the event can't be reached): fall back to the cached catalog
+    const loadFromCache = async (): Promise<boolean> => {
+      const cached = await getCachedEventData(eventId).catch(() => null);
+      if (!cached || cached.tenant_id !== tenant.id) return false;
+      setEvent(cached.event);
+      if (cached.tax_profile) {
+        setTaxProfile(cached.tax_profile); cart.setTaxProfile(cached.tax_profile);
+      }
+      cart.setTaxExemptProductTypes(cached.product_types.filter((pt) => pt.tax_exempt).map((pt) => pt.id));
+      cart.setTaxInclusive(tenant.tax_inclusive === true);
+      setInventory(cached.inventory);
+      setItemVariants(cached.item_variants);
+      setProductTypes(cached.product_types);
+      setChainPrices(cached.chain_prices);
+      setPricingTiers(cached.pricing_tiers);
+      cart.setPlatformFeeRate(PLATFORM_FEE_RATES[tenant.subscription_tier]);
+      cart.setFeeHandling(tenant.fee_handling);
+      cart.setWarrantyTaxable((tenant as any).warranty_taxable !== false);
+      toast.info('Offline — using the event catalog saved on this device');
+      return true;
+    };
+
     const load = async () => {
-      const { data: ev } = await supabase
-        .from('events').select('*, tax_profiles(*)').eq('id', eventId).single();
+      if (!navigator.onLine && await loadFromCache()) return;
+
+      const { data: ev, error: evError } = await supabase
+        .from('events').select('*, tax_profiles(*, tax_profile_components(*))').eq('id', eventId).single();
+      if (evError && isNetworkError(evError) && await loadFromCache()) return;
       if (ev) {
         setEvent(ev as Event);
         if (ev.tax_profiles) {
           const tp = ev.tax_profiles as unknown as TaxProfile;
-          setTaxProfile(tp); cart.setTaxRate(Number(tp.rate));
+          setTaxProfile(tp); cart.setTaxProfile(tp);
         }
       }
 
       const { data: items } = await supabase
-        .from('inventory_items').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
+        .from('inventory_items_without_cost').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
       let allItems = (items || []) as InventoryItem[];
       // Filter chains by event chain selection (if any)
       if (ev?.selected_chain_ids?.length) {
@@ -252,7 +285,7 @@ function EventModePageInner() {
         allItems = allItems.filter((i) => i.type !== 'chain' || allowed.has(i.id));
       }
       setInventory(allItems);
-      loadVariants(allItems);
+      const variantMap = await loadVariants(allItems);
 
       // Load product types — filter by event_product_types if any exist
       const { data: pts } = await supabase
@@ -262,28 +295,47 @@ function EventModePageInner() {
       // Check for event-specific product type filtering
       const { data: eventPts } = await supabase
         .from('event_product_types').select('product_type_id').eq('event_id', eventId);
+      let eventProductTypes = allPts;
       if (eventPts && eventPts.length > 0) {
         const allowedIds = new Set(eventPts.map((ep: any) => ep.product_type_id));
-        setProductTypes(allPts.filter((pt) => allowedIds.has(pt.id)));
-      } else {
-        setProductTypes(allPts);
+        eventProductTypes = allPts.filter((pt) => allowedIds.has(pt.id));
       }
+      setProductTypes(eventProductTypes);
+      cart.setTaxExemptProductTypes(allPts.filter((pt) => pt.tax_exempt).map((pt) => pt.id));
+      cart.setTaxInclusive(tenant.tax_inclusive === true);
 
       const { data: prices } = await supabase
         .from('chain_product_prices').select('*').eq('tenant_id', tenant.id).eq('is_active', true);
       setChainPrices((prices || []) as ChainProductPrice[]);
 
+      let tierList: { id: string; name: string }[] = [];
       if (tenant.pricing_mode === 'tier') {
         const { data: tiers } = await supabase
           .from('pricing_tiers').select('id, name').eq('tenant_id', tenant.id).eq('is_active', true).order('sort_order');
-        setPricingTiers(tiers || []);
+        tierList = tiers || [];
+        setPricingTiers(tierList);
+      }
+
+      // Keep a copy on the device so the POS survives a dropped connection
+      if (ev) {
+        cacheEventData({
+          event_id: eventId,
+          tenant_id: tenant.id,
+          event: ev as Event,
+          tax_profile: (ev.tax_profiles as unknown as TaxProfile) || null,
+          inventory: allItems,
+          item_variants: variantMap,
+          product_types: eventProductTypes,
+          chain_prices: (prices || []) as ChainProductPrice[],
+          pricing_tiers: tierList,
+        }).catch((err) => console.warn('[Offline] Could not cache event data:', err));
       }
 
       cart.setPlatformFeeRate(PLATFORM_FEE_RATES[tenant.subscription_tier]);
       cart.setFeeHandling(tenant.fee_handling);
       cart.setWarrantyTaxable((tenant as any).warranty_taxable !== false);
 
-      const today = new Date(); today.setHours(0, 0, 0, 0);
+      const today = startOfDayInZone(new Date(), resolveTimeZone(tenant, ev));
       const { data: sales } = await supabase
         .from('sales').select('total').eq('event_id', eventId).eq('status', 'completed').eq('payment_status', 'completed').gte('created_at', today.toISOString());
       if (sales) setTodaySales({ count: sales.length, total: sales.reduce((s, r) => s + Number(r.total), 0) });
@@ -317,6 +369,19 @@ function EventModePageInner() {
     return null;
   };
 
+  const refreshInventory = async () => {
+    if (!tenant) return;
+    const { data: refreshed } = await supabase.from('inventory_items_without_cost').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
+    if (refreshed) { setInventory(refreshed as InventoryItem[]); loadVariants(refreshed as InventoryItem[]); }
+  };
+
+  // ── Offline sale queue ──
+
+  const offlineSync = useOfflineSync(eventId, {
+    resolveClientId: findOrCreateClient,
+    onSynced: () => { refreshInventory(); setDrawerRefresh((n) => n + 1); },
+  });
+
   // ── Task B: Queue → POS integration ──
 
   const handleQueueStartSale = async (entry: QueueEntry) => {
@@ -372,11 +437,6 @@ function EventModePageInner() {
 
       const saleItems = cart.items.map((item: any) => {
         const resolution = jumpRingResolutions.find((r: JumpRingResolution) => r.cart_item_id === item.id);
-        const jumpRingCost = resolution ? resolution.jump_ring_cost_each * resolution.jump_rings_needed : 0;
-        const inv = inventory.find((i) => i.id === item.inventory_item_id);
-        const chainMaterialCost = inv?.type === 'chain' && item.inches_used
-          ? Number(inv.cost_per_unit) * item.inches_used
-          : 0;
         return {
           inventory_item_id: item.inventory_item_id || null,
           inventory_variant_id: item.inventory_variant_id || null,
@@ -384,8 +444,8 @@ function EventModePageInner() {
           discount_type: item.discount_type || null, discount_value: item.discount_value || 0,
           line_total: item.line_total, product_type_id: item.product_type_id || null,
           product_type_name: item.product_type_name || null, inches_used: item.inches_used || null,
-          chain_material_cost: chainMaterialCost || null,
-          jump_ring_cost: jumpRingCost,
+          jump_ring_item_id: resolution?.jump_ring_inventory_id || null,
+          jump_rings_needed: resolution?.jump_rings_needed || null,
         };
       });
 
@@ -402,6 +462,10 @@ function EventModePageInner() {
         p_notes: cart.notes || null, p_completed_by: user?.id || null,
         p_items: saleItems, p_inventory_deductions: [],
         p_queue_entry_id: activeQueueEntry?.id || null,
+        p_tax_profile_id: taxProfile?.id || null,
+        p_tax_inclusive: cart.tax_inclusive,
+        p_tax_lines: cart.tax_lines,
+        p_loyalty_reward_id: cart.loyalty_reward?.reward_id || null,
       });
       if (rpcError) throw rpcError;
 
@@ -470,7 +534,7 @@ function EventModePageInner() {
     setStep('confirmation');
     toast.success('Payment received!');
 
-    const { data: refreshed } = await supabase.from('inventory_items').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
+    const { data: refreshed } = await supabase.from('inventory_items_without_cost').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
     if (refreshed) { setInventory(refreshed as InventoryItem[]); loadVariants(refreshed as InventoryItem[]); }
   };
 
@@ -505,6 +569,82 @@ function EventModePageInner() {
     completeSale(allResolutions);
   };
 
+  // ── Offline completion: queue locally, sync later ──
+
+  const finishOfflineSale = async ({
+    clientSaleId, userId, clientId, paymentMethod, saleItems, deductions, resolutions, saleData,
+  }: {
+    clientSaleId: string;
+    userId: string | null;
+    clientId: string | null;
+    paymentMethod: string;
+    saleItems: Record<string, unknown>[];
+    deductions: InventoryDeduction[];
+    resolutions: JumpRingResolution[];
+    saleData: CompletedSaleData;
+  }) => {
+    if (!tenant || !eventId) return;
+
+    // Jump rings can't be confirmed against live stock offline — deduct them with the sale
+    const jumpRingDeductions: InventoryDeduction[] = resolutions
+      .filter((r) => r.jump_ring_inventory_id && r.jump_rings_needed > 0)
+      .map((r) => ({
+        item_id: r.jump_ring_inventory_id!,
+        amount: r.jump_rings_needed,
+        log_movement: true,
+        notes: `Deducted for ${r.material_name} sale`,
+        performed_by: userId,
+      }));
+    const allDeductions = [...deductions, ...jumpRingDeductions];
+
+    await queueOfflineSale({
+      client_sale_id: clientSaleId,
+      tenant_id: tenant.id,
+      event_id: eventId,
+      subtotal: cart.subtotal,
+      discount_amount: cart.discount_amount,
+      tax_amount: cart.tax_amount,
+      tip_amount: cart.tip_amount,
+      total: cart.total,
+      tax_profile_id: taxProfile?.id || null,
+      tax_inclusive: cart.tax_inclusive,
+      tax_lines: cart.tax_lines,
+      payment_method: paymentMethod,
+      fee_handling: tenant.fee_handling || null,
+      receipt_email: receiptEmail || null,
+      receipt_phone: receiptPhone || null,
+      notes: cart.notes || null,
+      completed_by: userId,
+      client_id: clientId,
+      queue_entry_id: activeQueueEntry?.id || null,
+      items: saleItems,
+      inventory_deductions: allDeductions,
+      warranty: cart.warranty_amount > 0 ? {
+        cart_items: cart.items,
+        cart_warranty_amount: cart._cartWarrantyAmount || 0,
+        coverage_terms: (tenant as any).warranty_coverage_terms || null,
+        duration_days: (tenant as any).warranty_duration_days ?? null,
+      } : null,
+      cash_drawer_id: paymentMethod === 'cash' ? openDrawerId : null,
+    });
+
+    // Reflect the deductions locally until the sale syncs
+    setInventory((prev) => prev.map((i) => {
+      const used = allDeductions.filter((d) => d.item_id === i.id).reduce((sum, d) => sum + d.amount, 0);
+      return used > 0 ? { ...i, quantity_on_hand: Math.max(Number(i.quantity_on_hand) - used, 0) } : i;
+    }));
+    offlineSync.refresh();
+
+    if (activeQueueEntry) setActiveQueueEntry(null);
+    setTodaySales((s) => ({ count: s.count + 1, total: s.total + cart.total }));
+    toast.success(`Saved offline — $${cart.total.toFixed(2)} will sync when you're back online`);
+
+    setCompletedSale(saleData); cart.reset(); setShowCart(false);
+    setEmailSent(false); setSmsSent(false); setEmailError(''); setSmsError('');
+    setJumpRingResolutions([]);
+    setStep('confirmation');
+  };
+
   const completeSale = async (resolutions: JumpRingResolution[]) => {
     // Gift card full coverage: force payment method if state hasn't propagated yet
     const effectivePaymentMethod = (giftCardData && giftCardData.remainingDue <= 0)
@@ -512,11 +652,28 @@ function EventModePageInner() {
       : cart.payment_method;
     if (!tenant || !eventId || !effectivePaymentMethod) return;
     if (cart.items.length === 0) { toast.error('Cart is empty'); return; }
+
+    const offline = !navigator.onLine;
+    // Rewards redeem inside the sale transaction, which needs the network
+    const canQueueOffline = !giftCardData && !cart.loyalty_reward
+      && (OFFLINE_PAYMENT_METHODS as readonly string[]).includes(effectivePaymentMethod);
+    if (offline && !canQueueOffline) {
+      toast.error(cart.loyalty_reward
+        ? "You're offline — remove the loyalty reward to record this sale"
+        : "You're offline — record this sale as cash, Venmo or external card");
+      return;
+    }
+
+    // Idempotency key: a retried or replayed sale can never be recorded twice
+    const clientSaleId = crypto.randomUUID();
+
     setProcessing(true);
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      const user = offline
+        ? (await supabase.auth.getSession()).data.session?.user ?? null
+        : (await supabase.auth.getUser()).data.user;
       let clientId = cart.client_id;
-      if (!clientId && (receiptEmail || receiptPhone)) clientId = await findOrCreateClient(receiptEmail, receiptPhone);
+      if (!clientId && !offline && (receiptEmail || receiptPhone)) clientId = await findOrCreateClient(receiptEmail, receiptPhone);
 
       const saleData: CompletedSaleData = {
         saleId: '', items: cart.items.map((i: any) => ({ name: i.name, quantity: i.quantity, unitPrice: i.unit_price, lineTotal: i.line_total, warrantyAmount: i.warranty_amount || 0 })),
@@ -525,16 +682,9 @@ function EventModePageInner() {
         total: cart.total, paymentMethod: effectivePaymentMethod, saleDate: new Date().toISOString(), clientId,
       };
 
-      // Build sale items with chain_material_cost and jump_ring_cost for RPC
+      // Build sale items for RPC — it costs the jump rings from the ring used
       const saleItems = cart.items.map((item: any) => {
         const resolution = resolutions.find((r: JumpRingResolution) => r.cart_item_id === item.id);
-        const jumpRingCost = resolution
-          ? resolution.jump_ring_cost_each * resolution.jump_rings_needed
-          : 0;
-        const inv = inventory.find((i) => i.id === item.inventory_item_id);
-        const chainMaterialCost = inv?.type === 'chain' && item.inches_used
-          ? Number(inv.cost_per_unit) * item.inches_used
-          : 0;
         return {
           inventory_item_id: item.inventory_item_id || null,
           inventory_variant_id: item.inventory_variant_id || null,
@@ -547,13 +697,13 @@ function EventModePageInner() {
           product_type_id: item.product_type_id || null,
           product_type_name: item.product_type_name || null,
           inches_used: item.inches_used || null,
-          chain_material_cost: chainMaterialCost || null,
-          jump_ring_cost: jumpRingCost,
+          jump_ring_item_id: resolution?.jump_ring_inventory_id || null,
+          jump_rings_needed: resolution?.jump_rings_needed || null,
         };
       });
 
       // Build atomic inventory deductions with movement logging
-      const deductions: { item_id: string; amount: number; log_movement: boolean; notes: string | null; performed_by: string | null; variant_id?: string | null }[] = [];
+      const deductions: InventoryDeduction[] = [];
       for (const item of cart.items as any[]) {
         if (!item.inventory_item_id) continue;
         const inv = inventory.find((i) => i.id === item.inventory_item_id);
@@ -573,6 +723,14 @@ function EventModePageInner() {
         });
       }
 
+      if (offline) {
+        await finishOfflineSale({
+          clientSaleId, userId: user?.id || null, clientId: clientId || null,
+          paymentMethod: effectivePaymentMethod, saleItems, deductions, resolutions, saleData,
+        });
+        return;
+      }
+
       // Single transactional RPC — sale + items + inventory + queue all-or-nothing
       const { data: saleId, error: rpcError } = await supabase.rpc('create_sale_transaction', {
         p_tenant_id: tenant.id,
@@ -597,7 +755,20 @@ function EventModePageInner() {
         p_items: saleItems,
         p_inventory_deductions: deductions,
         p_queue_entry_id: activeQueueEntry?.id || null,
-      });
+        p_client_sale_id: clientSaleId,
+        p_tax_profile_id: taxProfile?.id || null,
+        p_tax_inclusive: cart.tax_inclusive,
+        p_tax_lines: cart.tax_lines,
+        p_loyalty_reward_id: cart.loyalty_reward?.reward_id || null,
+      }).then((res) => res, (err) => ({ data: null, error: err }));
+
+      if (rpcError && canQueueOffline && isNetworkError(rpcError)) {
+        await finishOfflineSale({
+          clientSaleId, userId: user?.id || null, clientId: clientId || null,
+          paymentMethod: effectivePaymentMethod, saleItems, deductions, resolutions, saleData,
+        });
+        return;
+      }
       if (rpcError) throw rpcError;
       if (!saleId) throw new Error('Failed to create sale');
 
@@ -678,7 +849,7 @@ function EventModePageInner() {
         setStep('confirmation');
       }
 
-      const { data: refreshed } = await supabase.from('inventory_items').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
+      const { data: refreshed } = await supabase.from('inventory_items_without_cost').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
       if (refreshed) { setInventory(refreshed as InventoryItem[]); loadVariants(refreshed as InventoryItem[]); }
     } catch (err: any) { toast.error(err?.message || 'Sale failed'); }
     finally { setProcessing(false); }
@@ -705,7 +876,7 @@ function EventModePageInner() {
         });
       }
       // Refresh inventory
-      const { data: refreshed } = await supabase.from('inventory_items').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
+      const { data: refreshed } = await supabase.from('inventory_items_without_cost').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
       if (refreshed) setInventory(refreshed as InventoryItem[]);
     } catch (err: any) {
       toast.error('Failed to deduct jump rings');
@@ -787,6 +958,20 @@ function EventModePageInner() {
             </div>
           </div>
           <div className="flex items-center gap-1.5 shrink-0 ml-3">
+            {/* Offline / pending sync */}
+            <OfflineSyncIndicator
+              online={offlineSync.online}
+              queuedSales={offlineSync.queuedSales}
+              pendingCount={offlineSync.pendingCount}
+              conflictCount={offlineSync.conflictCount}
+              syncing={offlineSync.syncing}
+              onSyncNow={offlineSync.syncNow}
+              onDismiss={offlineSync.dismiss}
+            />
+            {/* Time Clock */}
+            {tenant && eventId && (
+              <TimeClockButton eventId={eventId} timeZone={resolveTimeZone(tenant, event)} />
+            )}
             {/* Cash Drawer */}
             {tenant && eventId && (
               <CashDrawerPanel
@@ -990,6 +1175,11 @@ function EventModePageInner() {
               receiptPhone={receiptPhone}
               mode="event"
               onGiftCardApplied={(data) => setGiftCardData(data)}
+              clientId={cart.client_id}
+              loyaltyReward={cart.loyalty_reward}
+              loyaltyDiscount={cart.loyalty_discount_amount}
+              onLoyaltyRewardChange={cart.applyLoyaltyReward}
+              offline={!offlineSync.online}
               onContinueToPayment={() => setStep('payment')}
               jumpRingData={pendingJumpRingResolutions.length > 0 ? {
                 saleTotal: completedSale?.total ?? 0,
@@ -1099,6 +1289,7 @@ function EventModePageInner() {
           tenantId={tenant.id}
           eventId={eventId}
           mode="event"
+          timeZone={resolveTimeZone(tenant, event)}
         />
       )}
     </div>
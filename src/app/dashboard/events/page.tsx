@@ -14,6 +14,7 @@ import { toast } from 'sonner';
 import { format } from 'date-fns';
 import Link from 'next/link';
 import { generateQRData } from '@/lib/utils';
+import { COMMON_TIME_ZONES, resolveTimeZone } from '@/lib/timezone';
 import type { Event, TaxProfile, ProductType } from '@/types';
 import {
   Button,
@@ -31,6 +32,8 @@ import {
 import { QRCode, FullScreenQR } from '@/components/QRCode';
 import { Skeleton } from '@/components/ui';
 import SunnyTutorial from '@/components/SunnyTutorial';
+import EventImportModal from '@/components/EventImportModal';
+import CalendarFeedsModal from '@/components/CalendarFeedsModal';
 
 export default function EventsPage() {
   return (
@@ -51,6 +54,8 @@ function EventsContent() {
   const [prefill, setPrefill] = useState<{ name?: string; date?: string } | null>(null);
   const [qrEvent, setQrEvent] = useState<Event | null>(null);
   const [fullScreenQR, setFullScreenQR] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showFeeds, setShowFeeds] = useState(false);
   const supabase = createClient();
 
   // Auto-open form when prefill params are present
@@ -201,6 +206,14 @@ function EventsContent() {
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <Button variant="ghost" onClick={() => setShowFeeds(true)}>
+            Calendar Feed
+          </Button>
+          {can('events:edit') && (
+            <Button variant="ghost" onClick={() => setShowImport(true)}>
+              Import .ics
+            </Button>
+          )}
           <Link href="/dashboard/pos">
             <Button variant="secondary">
               Store Mode
@@ -339,6 +352,7 @@ function EventsContent() {
         taxProfiles={taxProfiles}
         tenantId={tenant?.id || ''}
         tenantPricingMode={tenant?.pricing_mode}
+        tenantTimeZone={resolveTimeZone(tenant)}
         onSave={handleSave}
         onClose={() => {
           setShowForm(false);
@@ -347,6 +361,20 @@ function EventsContent() {
         }}
       />
 
+      {/* ICS Import */}
+      {showImport && tenant && (
+        <EventImportModal
+          tenantId={tenant.id}
+          tenantTimeZone={resolveTimeZone(tenant)}
+          taxProfiles={taxProfiles}
+          onClose={() => setShowImport(false)}
+          onComplete={fetchData}
+        />
+      )}
+
+      {/* Calendar Feed URLs */}
+      {showFeeds && <CalendarFeedsModal onClose={() => setShowFeeds(false)} />}
+
       {/* QR Code Modal */}
       {qrEvent && tenant && !fullScreenQR && (
         <Modal isOpen={true} onClose={() => setQrEvent(null)} size="lg">
@@ -519,6 +547,7 @@ function EventFormModal({
   taxProfiles,
   tenantId,
   tenantPricingMode,
+  tenantTimeZone,
   onSave,
   onClose,
 }: {
@@ -528,6 +557,7 @@ function EventFormModal({
   taxProfiles: TaxProfile[];
   tenantId: string;
   tenantPricingMode?: string;
+  tenantTimeZone: string;
   onSave: (data: Partial<Event> & { _productTypeFilter?: { limitProducts: boolean; selectedProductTypeIds: string[] }; _chainSelection?: string[] }) => void;
   onClose: () => void;
 }) {
@@ -540,6 +570,9 @@ function EventFormModal({
     booth_fee: '0',
     tax_profile_id: '',
     queue_mode: false,
+    time_zone: '',
+    stock_location_id: '',
+    expected_attendance: '',
   });
 
   // ─── Product type filtering state ───
@@ -553,6 +586,9 @@ function EventFormModal({
   const [eventTiers, setEventTiers] = useState<{ id: string; name: string }[]>([]);
   const [selectedChainIds, setSelectedChainIds] = useState<string[]>([]);
 
+  // ─── Stock location the event draws from ───
+  const [stockLocations, setStockLocations] = useState<{ id: string; name: string; is_default: boolean }[]>([]);
+
   // ─── Load form data + product types when modal opens ───
   useEffect(() => {
     if (!isOpen) return;
@@ -575,6 +611,9 @@ function EventFormModal({
       booth_fee: event?.booth_fee?.toString() || '0',
       queue_mode: event?.queue_mode ?? false,
       tax_profile_id: event?.tax_profile_id || '',
+      time_zone: event?.time_zone || '',
+      stock_location_id: event?.stock_location_id || '',
+      expected_attendance: event?.expected_attendance?.toString() || '',
     });
 
     // Load product types for the checkbox list
@@ -593,6 +632,16 @@ function EventFormModal({
 
       setProductTypes(types || []);
 
+      const { data: locations } = await supabase
+        .from('stock_locations')
+        .select('id, name, is_default')
+        .eq('tenant_id', tenantId)
+        .eq('is_active', true)
+        .order('is_default', { ascending: false })
+        .order('sort_order')
+        .order('name');
+      setStockLocations(locations || []);
+
       // If editing, load existing event product type selections
       if (event?.id) {
         const { data: selected } = await supabase
@@ -688,6 +737,9 @@ function EventFormModal({
       booth_fee: Number(form.booth_fee),
       tax_profile_id: form.tax_profile_id || null,
       queue_mode: form.queue_mode,
+      time_zone: form.time_zone || null,
+      stock_location_id: form.stock_location_id || null,
+      expected_attendance: Number(form.expected_attendance) > 0 ? Math.round(Number(form.expected_attendance)) : null,
       // Pass product filtering as extra data
       _productTypeFilter: {
         limitProducts,
@@ -705,6 +757,15 @@ function EventFormModal({
     })),
   ];
 
+  const tenantZoneLabel = COMMON_TIME_ZONES.find((z) => z.value === tenantTimeZone)?.label || tenantTimeZone;
+  const timeZoneOptions = [
+    { value: '', label: `Studio default — ${tenantZoneLabel}` },
+    ...COMMON_TIME_ZONES,
+    ...(form.time_zone && !COMMON_TIME_ZONES.some((z) => z.value === form.time_zone)
+      ? [{ value: form.time_zone, label: form.time_zone }]
+      : []),
+  ];
+
   const isSubmitDisabled =
     !form.name ||
     !form.start_time ||
@@ -775,6 +836,32 @@ function EventFormModal({
               options={taxOptions}
             />
           </div>
+          <Select
+            label="Time Zone"
+            value={form.time_zone}
+            onChange={(e) => set('time_zone', e.target.value)}
+            options={timeZoneOptions}
+            helperText="Set this for shows outside your home time zone — “today” in Event Mode follows it."
+          />
+          <Input
+            label="Expected Customers"
+            type="number"
+            min="1"
+            step="1"
+            value={form.expected_attendance}
+            onChange={(e) => set('expected_attendance', e.target.value)}
+            placeholder="Optional"
+            helperText="Sizes the reorder forecast for this event. Leave blank to use your average event."
+          />
+          {stockLocations.length > 1 && (
+            <Select
+              label="Stock From"
+              value={form.stock_location_id}
+              onChange={(e) => set('stock_location_id', e.target.value)}
+              options={stockLocations.map((l) => ({ value: l.is_default ? '' : l.id, label: l.name }))}
+              helperText="Sales at this event draw down this location's stock."
+            />
+          )}
 
           {/* ─── Queue Mode ─── */}
           <div className="pt-4 border-t border-[var(--border-primary)]">
@@ -8,9 +8,12 @@ import { useEffect, useState, useCallback } from 'react';
 import { createClient } from '@/lib/supabase/client';
 import { useTenant } from '@/hooks/use-tenant';
 import { toast } from 'sonner';
-import { formatGiftCardCode } from '@/lib/gift-cards';
+import { formatGiftCardCode, getExpiryRule, validateExpiryPolicy, GIFT_CARD_LEDGER_LABELS } from '@/lib/gift-cards';
+import { resolveTimeZone, toLocalDateString } from '@/lib/timezone';
 import { Modal, ModalHeader, ModalBody } from '@/components/ui/Modal';
-import type { GiftCard, GiftCardRedemption, GiftCardStatus } from '@/types';
+import { Button, Input, Select } from '@/components/ui';
+import GiftCardLiabilitySection from '@/components/reports/GiftCardLiabilitySection';
+import type { GiftCard, GiftCardLedgerEntry, GiftCardStatus } from '@/types';
 
 const money = (n: number) => `$${Math.abs(n).toFixed(2)}`;
 
@@ -28,8 +31,14 @@ const statusLabels: Record<GiftCardStatus, string> = {
   cancelled: 'Cancelled',
 };
 
+const US_STATES = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS',
+  'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC',
+  'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY',
+];
+
 export default function GiftCardsPage() {
-  const { tenant } = useTenant();
+  const { tenant, can } = useTenant();
   const supabase = createClient();
 
   const [giftCards, setGiftCards] = useState<GiftCard[]>([]);
@@ -50,8 +59,14 @@ export default function GiftCardsPage() {
 
   // Detail modal
   const [selectedCard, setSelectedCard] = useState<GiftCard | null>(null);
-  const [redemptions, setRedemptions] = useState<GiftCardRedemption[]>([]);
+  const [ledger, setLedger] = useState<GiftCardLedgerEntry[]>([]);
   const [loadingDetail, setLoadingDetail] = useState(false);
+  const [adjustAmount, setAdjustAmount] = useState('');
+  const [adjustNote, setAdjustNote] = useState('');
+  const [adjusting, setAdjusting] = useState(false);
+
+  // Liability report
+  const [liabilityAsOf, setLiabilityAsOf] = useState(() => toLocalDateString(new Date(), resolveTimeZone(tenant)));
 
   const fetchCards = useCallback(async () => {
     if (!tenant) return;
@@ -112,12 +127,51 @@ export default function GiftCardsPage() {
       const data = await res.json();
       if (res.ok) {
         setSelectedCard(data);
-        setRedemptions(data.redemptions || []);
+        setLedger(data.ledger || []);
       }
     } catch {}
     finally { setLoadingDetail(false); }
   };
 
+  const closeDetail = () => {
+    setSelectedCard(null);
+    setLedger([]);
+    setAdjustAmount('');
+    setAdjustNote('');
+  };
+
+  const handleAdjust = async () => {
+    if (!selectedCard) return;
+    const amount = parseFloat(adjustAmount);
+    if (!amount || !adjustNote.trim()) {
+      toast.error('Enter an amount and a reason');
+      return;
+    }
+    setAdjusting(true);
+    try {
+      const res = await fetch(`/api/gift-cards/${selectedCard.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'adjust', amount, note: adjustNote.trim() }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to adjust balance');
+        return;
+      }
+      toast.success('Balance adjusted');
+      setAdjustAmount('');
+      setAdjustNote('');
+      await viewDetail(data);
+      fetchCards();
+      fetchStats();
+    } catch {
+      toast.error('Failed to adjust balance');
+    } finally {
+      setAdjusting(false);
+    }
+  };
+
   const handleCancel = async (card: GiftCard) => {
     if (!confirm(`Cancel gift card ${formatGiftCardCode(card.code)}? This cannot be undone.`)) return;
     try {
@@ -193,6 +247,26 @@ export default function GiftCardsPage() {
         </div>
       </div>
 
+      {/* Liability + expiration policy */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 items-start">
+        {can('reports:view') && (
+          <div className="space-y-2">
+            <div className="flex items-center justify-end gap-2">
+              <label htmlFor="liability-as-of" className="text-xs text-[var(--text-tertiary)]">As of</label>
+              <input
+                id="liability-as-of"
+                type="date"
+                value={liabilityAsOf}
+                onChange={(e) => e.target.value && setLiabilityAsOf(e.target.value)}
+                className="h-9 px-3 rounded-xl border border-[var(--border-default)] bg-[var(--surface-raised)] text-sm text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-primary)]"
+              />
+            </div>
+            <GiftCardLiabilitySection asOf={liabilityAsOf} />
+          </div>
+        )}
+        {can('settings:manage') && <ExpiryPolicySettings />}
+      </div>
+
       {/* Filters */}
       <div className="flex flex-col sm:flex-row gap-3">
         <select
@@ -285,7 +359,7 @@ export default function GiftCardsPage() {
                             Resend
                           </button>
                         )}
-                        {card.status === 'active' && (
+                        {card.status === 'active' && can('gift_cards:manage') && (
                           <button
                             onClick={() => handleCancel(card)}
                             className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded-lg transition-colors min-h-[32px]"
@@ -306,7 +380,7 @@ export default function GiftCardsPage() {
 
       {/* Detail Modal */}
       {selectedCard && (
-        <Modal isOpen={true} onClose={() => { setSelectedCard(null); setRedemptions([]); }} size="lg">
+        <Modal isOpen={true} onClose={closeDetail} size="lg">
           <ModalHeader>
             <div className="flex items-center justify-between">
               <h2 className="text-xl font-semibold text-[var(--text-primary)]">Gift Card Detail</h2>
@@ -352,6 +426,12 @@ export default function GiftCardsPage() {
                   <p className="text-[var(--text-tertiary)]">Purchased</p>
                   <p className="font-medium text-[var(--text-primary)]">{new Date(selectedCard.purchased_at).toLocaleString()}</p>
                 </div>
+                <div>
+                  <p className="text-[var(--text-tertiary)]">Expires</p>
+                  <p className="font-medium text-[var(--text-primary)]">
+                    {selectedCard.expires_at ? new Date(selectedCard.expires_at).toLocaleDateString() : 'Never'}
+                  </p>
+                </div>
                 <div>
                   <p className="text-[var(--text-tertiary)]">Delivery</p>
                   <p className="font-medium text-[var(--text-primary)] capitalize">
@@ -369,35 +449,71 @@ export default function GiftCardsPage() {
                 )}
               </div>
 
-              {/* Redemption history */}
+              {/* Ledger */}
               <div>
                 <p className="text-[11px] font-semibold uppercase tracking-[0.06em] text-[var(--text-tertiary)] mb-2">
-                  Redemption History
+                  Activity
                 </p>
                 {loadingDetail ? (
                   <div className="flex items-center justify-center py-4">
                     <div className="h-5 w-5 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
                   </div>
-                ) : redemptions.length === 0 ? (
-                  <p className="text-sm text-[var(--text-tertiary)] py-2">No redemptions yet</p>
+                ) : ledger.length === 0 ? (
+                  <p className="text-sm text-[var(--text-tertiary)] py-2">No activity yet</p>
                 ) : (
                   <div className="space-y-2">
-                    {redemptions.map((r) => (
-                      <div key={r.id} className="flex items-center justify-between py-2 border-b border-[var(--border-subtle)] last:border-b-0">
+                    {ledger.map((entry) => (
+                      <div key={entry.id} className="flex items-center justify-between py-2 border-b border-[var(--border-subtle)] last:border-b-0">
                         <div>
-                          <p className="text-sm font-medium text-[var(--text-primary)]">-{money(Number(r.amount))}</p>
+                          <p className="text-sm font-medium text-[var(--text-primary)]">
+                            {GIFT_CARD_LEDGER_LABELS[entry.entry_type] || entry.entry_type}
+                          </p>
                           <p className="text-xs text-[var(--text-tertiary)]">
-                            {new Date(r.redeemed_at).toLocaleString()}
+                            {new Date(entry.occurred_at).toLocaleString()}
+                            {entry.note && ` · ${entry.note}`}
+                            {entry.sale_id && ` · Sale ${entry.sale_id.slice(0, 8)}`}
                           </p>
                         </div>
-                        <p className="text-xs text-[var(--text-tertiary)]">
-                          Sale: {r.sale_id.slice(0, 8)}...
+                        <p className={`text-sm font-medium ${Number(entry.amount) < 0 ? 'text-red-600' : 'text-[var(--text-primary)]'}`}>
+                          {Number(entry.amount) < 0 ? '-' : '+'}{money(Number(entry.amount))}
                         </p>
                       </div>
                     ))}
                   </div>
                 )}
               </div>
+
+              {/* Manual adjustment */}
+              {can('gift_cards:manage') && (selectedCard.status === 'active' || selectedCard.status === 'fully_redeemed') && (
+                <div className="border-t border-[var(--border-subtle)] pt-4 space-y-3">
+                  <p className="text-[11px] font-semibold uppercase tracking-[0.06em] text-[var(--text-tertiary)]">
+                    Adjust Balance
+                  </p>
+                  <div className="grid grid-cols-3 gap-3">
+                    <Input
+                      label="Amount"
+                      type="number"
+                      step="0.01"
+                      placeholder="-5.00"
+                      value={adjustAmount}
+                      onChange={(e) => setAdjustAmount(e.target.value)}
+                    />
+                    <div className="col-span-2">
+                      <Input
+                        label="Reason"
+                        placeholder="e.g. Goodwill credit"
+                        value={adjustNote}
+                        onChange={(e) => setAdjustNote(e.target.value)}
+                      />
+                    </div>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button variant="secondary" size="sm" loading={adjusting} onClick={handleAdjust}>
+                      Record Adjustment
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           </ModalBody>
         </Modal>
@@ -405,3 +521,91 @@ export default function GiftCardsPage() {
     </div>
   );
 }
+
+// ============================================================================
+// Expiration policy (admins)
+// ============================================================================
+
+function ExpiryPolicySettings() {
+  const { tenant, refetch } = useTenant();
+  const [expires, setExpires] = useState(!!tenant?.gift_card_expiry_months);
+  const [months, setMonths] = useState(String(tenant?.gift_card_expiry_months ?? 60));
+  const [jurisdiction, setJurisdiction] = useState(tenant?.gift_card_jurisdiction ?? '');
+  const [saving, setSaving] = useState(false);
+
+  if (!tenant) return null;
+
+  const rule = getExpiryRule(jurisdiction || null);
+  const expiryMonths = expires ? parseInt(months, 10) || 0 : null;
+  const policyError = validateExpiryPolicy(expiryMonths, jurisdiction || null);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/gift-cards/policy', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ expiryMonths, jurisdiction: jurisdiction || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save policy');
+        return;
+      }
+      toast.success('Expiration policy saved');
+      await refetch();
+    } catch {
+      toast.error('Failed to save policy');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <section className="bg-[var(--surface-raised)] border border-[var(--border-default)] rounded-2xl p-5 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-base font-semibold text-[var(--text-primary)]">Expiration Policy</h2>
+          <p className="text-xs text-[var(--text-tertiary)] mt-0.5">Applies to cards sold from now on.</p>
+        </div>
+        <button
+          role="switch"
+          aria-checked={expires}
+          aria-label="Gift cards expire"
+          onClick={() => setExpires(!expires)}
+          className={`relative inline-flex h-6 w-11 shrink-0 rounded-full transition-colors ${expires ? 'bg-[var(--accent-primary)]' : 'bg-[var(--border-strong)]'}`}
+        >
+          <span className={`inline-block h-5 w-5 mt-0.5 rounded-full bg-white shadow transition-transform ${expires ? 'translate-x-[22px]' : 'translate-x-0.5'}`} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <Select
+          label="State"
+          value={jurisdiction}
+          onChange={(e) => setJurisdiction(e.target.value)}
+          options={[{ value: '', label: 'Not set' }, ...US_STATES.map((s) => ({ value: s, label: s }))]}
+        />
+        <Input
+          label="Expires after (months)"
+          type="number"
+          min={1}
+          value={months}
+          disabled={!expires}
+          onChange={(e) => setMonths(e.target.value)}
+        />
+      </div>
+
+      <p className={`text-xs ${expires && policyError ? 'text-red-600' : 'text-[var(--text-tertiary)]'}`}>
+        {expires && policyError ? policyError : rule.note}
+        {' '}Check with your accountant or attorney before relying on this.
+      </p>
+
+      <div className="flex justify-end">
+        <Button size="sm" loading={saving} disabled={!!policyError} onClick={handleSave}>
+          Save Policy
+        </Button>
+      </div>
+    </section>
+  );
+}
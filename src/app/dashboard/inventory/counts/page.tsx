@@ -0,0 +1,585 @@
+// ============================================================================
+// Stock Counts Page — src/app/dashboard/inventory/counts/page.tsx
+// ============================================================================
+// Physical count sessions. Without ?id: start a count, count history and
+// the shrinkage report. With ?id: the count sheet — big tap targets for a
+// phone or tablet, expected vs counted per item/variant, variance valued
+// at cost, and a reason for every difference before finalizing.
+// ============================================================================
+
+'use client';
+
+import { useEffect, useState, useMemo, useCallback, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { useTenant } from '@/hooks/use-tenant';
+import { Button, Badge, Card, CardHeader, CardTitle, CardContent, Input, Select } from '@/components/ui';
+import { resolveTimeZone, toLocalDateString } from '@/lib/timezone';
+import {
+  STOCK_COUNT_REASONS,
+  defaultReason,
+  lineVariance,
+  lineVarianceValue,
+  stockCountReasonLabel,
+} from '@/lib/stock-counts';
+import type { InventoryType, ShrinkageReport, StockCount, StockCountLine, StockCountReason, StockCountSummary } from '@/types';
+
+const SCOPE_OPTIONS: { value: 'all' | InventoryType; label: string }[] = [
+  { value: 'all', label: 'Everything' },
+  { value: 'chain', label: 'Chain' },
+  { value: 'jump_ring', label: 'Jump rings' },
+  { value: 'charm', label: 'Charms' },
+  { value: 'connector', label: 'Connectors' },
+  { value: 'clasp', label: 'Clasps' },
+  { value: 'other', label: 'Other' },
+];
+
+const STATUS_BADGE: Record<StockCount['status'], { label: string; variant: 'warning' | 'success' | 'default' }> = {
+  in_progress: { label: 'In progress', variant: 'warning' },
+  finalized: { label: 'Finalized', variant: 'success' },
+  cancelled: { label: 'Cancelled', variant: 'default' },
+};
+
+const money = (n: number) => {
+  const formatted = Math.abs(n).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return n < 0 ? `-$${formatted}` : `$${formatted}`;
+};
+
+const qty = (n: number) => String(Math.round(n * 100) / 100);
+
+// ============================================================================
+// Count history + start + shrinkage
+// ============================================================================
+
+function CountHistory() {
+  const router = useRouter();
+  const { tenant, can } = useTenant();
+  const [counts, setCounts] = useState<StockCountSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [scope, setScope] = useState<'all' | InventoryType>('all');
+  const [starting, setStarting] = useState(false);
+
+  const fetchCounts = useCallback(async () => {
+    try {
+      const res = await fetch('/api/inventory/counts');
+      const data = await res.json();
+      if (res.ok) setCounts(data);
+      else toast.error(data.error || 'Failed to load counts');
+    } catch {
+      toast.error('Failed to load counts');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { fetchCounts(); }, [fetchCounts]);
+
+  const openCount = counts.find((c) => c.status === 'in_progress');
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      const res = await fetch('/api/inventory/counts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, scope }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to start count');
+        return;
+      }
+      router.push(`/dashboard/inventory/counts?id=${data.id}`);
+    } catch {
+      toast.error('Failed to start count');
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {openCount ? (
+        <Card>
+          <CardContent className="flex items-center justify-between gap-3 py-4">
+            <div>
+              <p className="text-sm font-semibold text-[var(--text-primary)]">{openCount.name}</p>
+              <p className="text-xs text-[var(--text-tertiary)]">
+                {openCount.counted_count} of {openCount.line_count} counted
+              </p>
+            </div>
+            <Button variant="primary" onClick={() => router.push(`/dashboard/inventory/counts?id=${openCount.id}`)}>
+              Continue Count
+            </Button>
+          </CardContent>
+        </Card>
+      ) : can('inventory:edit') && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Start a Count</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <Input label="Name (optional)" value={name} onChange={(e) => setName(e.target.value)} placeholder="Monthly chain count" />
+              <Select
+                label="What to count"
+                value={scope}
+                onChange={(e) => setScope(e.target.value as 'all' | InventoryType)}
+                options={SCOPE_OPTIONS}
+              />
+            </div>
+            <p className="text-xs text-[var(--text-tertiary)]">
+              Selling during a count is fine — expected stock is re-read when each line is counted.
+            </p>
+            <div className="flex justify-end">
+              <Button variant="primary" onClick={handleStart} loading={starting}>Start Count</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Count History</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-0">
+          {loading ? (
+            <div className="py-8 text-center">
+              <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+            </div>
+          ) : counts.length === 0 ? (
+            <p className="py-6 text-center text-sm text-[var(--text-tertiary)]">No counts yet.</p>
+          ) : (
+            counts.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => router.push(`/dashboard/inventory/counts?id=${c.id}`)}
+                className="w-full flex items-center justify-between gap-3 py-3 border-b border-[var(--border-subtle)] last:border-b-0 text-left min-h-[56px]"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-[var(--text-primary)] truncate">{c.name}</p>
+                  <p className="text-xs text-[var(--text-tertiary)]">
+                    {new Date(c.finalized_at || c.started_at).toLocaleDateString()} · {c.counted_count}/{c.line_count} counted
+                  </p>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  {c.status !== 'cancelled' && (
+                    <span className={`text-sm ${c.variance_value < 0 ? 'text-error-500' : 'text-[var(--text-primary)]'}`}>
+                      {money(c.variance_value)}
+                    </span>
+                  )}
+                  <Badge variant={STATUS_BADGE[c.status].variant} size="sm">{STATUS_BADGE[c.status].label}</Badge>
+                </div>
+              </button>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {can('reports:view') && tenant && <ShrinkageCard timeZone={resolveTimeZone(tenant)} />}
+    </div>
+  );
+}
+
+function ShrinkageCard({ timeZone }: { timeZone: string }) {
+  const [to, setTo] = useState(() => toLocalDateString(new Date(), timeZone));
+  const [from, setFrom] = useState(() => toLocalDateString(new Date(Date.now() - 89 * 86_400_000), timeZone));
+  const [report, setReport] = useState<ShrinkageReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!from || !to) return;
+    setLoading(true);
+    fetch(`/api/inventory/shrinkage?${new URLSearchParams({ from, to })}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (res.ok) setReport(data);
+        else toast.error(data.error || 'Failed to load shrinkage');
+      })
+      .catch(() => toast.error('Failed to load shrinkage'))
+      .finally(() => setLoading(false));
+  }, [from, to]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Shrinkage</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <Input label="From" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          <Input label="To" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        {loading || !report ? (
+          <div className="py-6 text-center">
+            <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+          </div>
+        ) : report.byReason.length === 0 ? (
+          <p className="py-4 text-center text-sm text-[var(--text-tertiary)]">
+            No variances from finalized counts in this period.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="rounded-lg bg-[var(--surface-subtle)] p-3">
+                <p className="text-xs text-[var(--text-tertiary)]">Lost (at cost)</p>
+                <p className="text-lg font-semibold text-error-500">{money(report.totalLoss)}</p>
+              </div>
+              <div className="rounded-lg bg-[var(--surface-subtle)] p-3">
+                <p className="text-xs text-[var(--text-tertiary)]">Found (at cost)</p>
+                <p className="text-lg font-semibold text-[var(--text-primary)]">{money(report.totalFound)}</p>
+              </div>
+            </div>
+            <div>
+              <p className="text-xs font-medium text-[var(--text-tertiary)] uppercase tracking-wide mb-1">By reason</p>
+              {report.byReason.map((r) => (
+                <div key={r.reason} className="flex items-center justify-between py-1.5">
+                  <span className="text-sm text-[var(--text-secondary)]">
+                    {stockCountReasonLabel(r.reason)} <span className="text-[var(--text-tertiary)]">· {r.lines} line{r.lines !== 1 ? 's' : ''}</span>
+                  </span>
+                  <span className={`text-sm ${r.value < 0 ? 'text-error-500' : 'text-[var(--text-primary)]'}`}>{money(r.value)}</span>
+                </div>
+              ))}
+            </div>
+            <div>
+              <p className="text-xs font-medium text-[var(--text-tertiary)] uppercase tracking-wide mb-1">By item</p>
+              {report.byItem.slice(0, 10).map((i) => (
+                <div key={i.inventory_item_id} className="flex items-center justify-between py-1.5">
+                  <span className="text-sm text-[var(--text-secondary)] truncate">
+                    {i.name}
+                    <span className="text-[var(--text-tertiary)]">
+                      {i.lost > 0 && ` · −${qty(i.lost)} ${i.unit}`}
+                      {i.found > 0 && ` · +${qty(i.found)} ${i.unit}`}
+                    </span>
+                  </span>
+                  <span className={`text-sm shrink-0 ${i.value < 0 ? 'text-error-500' : 'text-[var(--text-primary)]'}`}>{money(i.value)}</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-[var(--text-tertiary)]">
+              {report.countCount} finalized count{report.countCount !== 1 ? 's' : ''}. Values use the cost per unit at the time of each count.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ============================================================================
+// Count sheet
+// ============================================================================
+
+function CountLineRow({
+  line,
+  editable,
+  onSave,
+}: {
+  line: StockCountLine;
+  editable: boolean;
+  onSave: (line: StockCountLine, patch: { counted_quantity: number | null; reason: StockCountReason | null; notes: string | null }) => void;
+}) {
+  const [counted, setCounted] = useState(line.counted_quantity === null ? '' : String(line.counted_quantity));
+  const [notes, setNotes] = useState(line.notes || '');
+
+  useEffect(() => {
+    setCounted(line.counted_quantity === null ? '' : String(line.counted_quantity));
+    setNotes(line.notes || '');
+  }, [line.counted_quantity, line.notes]);
+
+  const variance = line.variance_quantity !== null ? Number(line.variance_quantity) : lineVariance(line);
+  const value = variance ? Math.round(variance * Number(line.unit_cost) * 100) / 100 : 0;
+  const unit = line.item?.unit || 'each';
+
+  const commitCount = () => {
+    const parsed = counted.trim() === '' ? null : Number(counted);
+    if (parsed !== null && (!Number.isFinite(parsed) || parsed < 0)) {
+      toast.error('Enter zero or more');
+      return;
+    }
+    if (parsed === (line.counted_quantity === null ? null : Number(line.counted_quantity))) return;
+    const newVariance = parsed === null ? 0 : parsed - Number(line.expected_quantity);
+    onSave(line, {
+      counted_quantity: parsed,
+      reason: newVariance ? line.reason || defaultReason(newVariance) : null,
+      notes: notes || null,
+    });
+  };
+
+  return (
+    <div className="py-3 border-b border-[var(--border-subtle)] last:border-b-0 space-y-2">
+      <div className="flex items-center justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-[var(--text-primary)] truncate">
+            {line.item?.name || 'Deleted item'}
+            {line.variant && <span className="text-[var(--text-secondary)]"> — {line.variant.name}</span>}
+          </p>
+          <p className="text-xs text-[var(--text-tertiary)]">
+            Expected {qty(Number(line.expected_quantity))} {unit}
+            {variance ? (
+              <span className={variance < 0 ? 'text-error-500' : 'text-success-600'}>
+                {' '}· {variance > 0 ? '+' : ''}{qty(variance)} {unit} ({money(value)})
+              </span>
+            ) : line.counted_quantity !== null ? ' · matches' : null}
+          </p>
+        </div>
+        {editable ? (
+          <input
+            type="number"
+            inputMode="decimal"
+            min="0"
+            step="any"
+            value={counted}
+            placeholder="—"
+            onChange={(e) => setCounted(e.target.value)}
+            onBlur={commitCount}
+            onKeyDown={(e) => { if (e.key === 'Enter') (e.target as HTMLInputElement).blur(); }}
+            className="w-24 h-12 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-right text-lg text-[var(--text-primary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+          />
+        ) : (
+          <span className="text-sm font-medium text-[var(--text-primary)] shrink-0">
+            {line.counted_quantity === null ? 'Not counted' : `${qty(Number(line.counted_quantity))} ${unit}`}
+          </span>
+        )}
+      </div>
+
+      {variance !== 0 && variance !== null && (
+        editable ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <select
+              value={line.reason || ''}
+              onChange={(e) => onSave(line, { counted_quantity: line.counted_quantity, reason: (e.target.value || null) as StockCountReason | null, notes: notes || null })}
+              className={`h-10 px-3 rounded-lg border bg-[var(--surface-base)] text-sm text-[var(--text-primary)] ${line.reason ? 'border-[var(--border-default)]' : 'border-error-500'}`}
+            >
+              <option value="">Reason…</option>
+              {STOCK_COUNT_REASONS.map((r) => (
+                <option key={r.value} value={r.value}>{r.label}</option>
+              ))}
+            </select>
+            <input
+              value={notes}
+              placeholder="Note (optional)"
+              onChange={(e) => setNotes(e.target.value)}
+              onBlur={() => { if (notes !== (line.notes || '')) onSave(line, { counted_quantity: line.counted_quantity, reason: line.reason, notes: notes || null }); }}
+              className="h-10 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)]"
+            />
+          </div>
+        ) : (
+          <p className="text-xs text-[var(--text-secondary)]">
+            {stockCountReasonLabel(line.reason)}{line.notes ? ` — ${line.notes}` : ''}
+          </p>
+        )
+      )}
+    </div>
+  );
+}
+
+function CountSheet({ countId }: { countId: string }) {
+  const router = useRouter();
+  const { can } = useTenant();
+  const [count, setCount] = useState<StockCount | null>(null);
+  const [lines, setLines] = useState<StockCountLine[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [uncountedOnly, setUncountedOnly] = useState(false);
+  const [finalizing, setFinalizing] = useState(false);
+
+  const fetchCount = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/inventory/counts/${countId}`);
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to load count');
+        return;
+      }
+      setCount(data.count);
+      setLines(data.lines);
+    } catch {
+      toast.error('Failed to load count');
+    } finally {
+      setLoading(false);
+    }
+  }, [countId]);
+
+  useEffect(() => { fetchCount(); }, [fetchCount]);
+
+  const handleSave = async (
+    line: StockCountLine,
+    patch: { counted_quantity: number | null; reason: StockCountReason | null; notes: string | null }
+  ) => {
+    // Optimistic; the server re-reads expected on first count, so its row wins
+    setLines((prev) => prev.map((l) => (l.id === line.id ? { ...l, ...patch } : l)));
+    try {
+      const res = await fetch(`/api/inventory/counts/${countId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ lines: [{ id: line.id, ...patch }] }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save count');
+        setLines((prev) => prev.map((l) => (l.id === line.id ? line : l)));
+        return;
+      }
+      const saved = data.lines?.[0] as StockCountLine | undefined;
+      if (saved) {
+        setLines((prev) => prev.map((l) => (l.id === line.id ? { ...l, ...saved, item: l.item, variant: l.variant } : l)));
+      }
+    } catch {
+      toast.error('Failed to save count');
+      setLines((prev) => prev.map((l) => (l.id === line.id ? line : l)));
+    }
+  };
+
+  const handleFinalize = async () => {
+    const uncounted = lines.filter((l) => l.counted_quantity === null).length;
+    const message = uncounted
+      ? `${uncounted} line${uncounted !== 1 ? 's are' : ' is'} not counted and will be left as-is. Finalize and adjust stock?`
+      : 'Finalize and adjust stock to the counted quantities?';
+    if (!confirm(message)) return;
+
+    setFinalizing(true);
+    try {
+      const res = await fetch(`/api/inventory/counts/${countId}/finalize`, { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to finalize count');
+        return;
+      }
+      toast.success(`Count finalized — ${data.adjusted} item${data.adjusted !== 1 ? 's' : ''} adjusted (${money(data.variance_value)})`);
+      await fetchCount();
+    } catch {
+      toast.error('Failed to finalize count');
+    } finally {
+      setFinalizing(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!confirm('Discard this count? Nothing will be adjusted.')) return;
+    const res = await fetch(`/api/inventory/counts/${countId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ action: 'cancel' }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      toast.error(data.error || 'Failed to cancel count');
+      return;
+    }
+    toast.success('Count cancelled');
+    router.push('/dashboard/inventory/counts');
+  };
+
+  const visible = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return lines.filter((l) => {
+      if (uncountedOnly && l.counted_quantity !== null) return false;
+      if (!q) return true;
+      return `${l.item?.name || ''} ${l.variant?.name || ''} ${l.item?.material || ''}`.toLowerCase().includes(q);
+    });
+  }, [lines, search, uncountedOnly]);
+
+  if (loading) {
+    return (
+      <div className="py-12 text-center">
+        <div className="inline-block h-6 w-6 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+      </div>
+    );
+  }
+  if (!count) return <p className="text-sm text-[var(--text-tertiary)]">Count not found.</p>;
+
+  const editable = count.status === 'in_progress';
+  const countedLines = lines.filter((l) => l.counted_quantity !== null).length;
+  const varianceValue = lines.reduce((sum, l) => sum + lineVarianceValue(l), 0);
+  const missingReasons = lines.filter((l) => lineVariance(l) && !l.reason).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <div className="flex items-center gap-2">
+            <h2 className="text-lg font-semibold text-[var(--text-primary)]">{count.name}</h2>
+            <Badge variant={STATUS_BADGE[count.status].variant} size="sm">{STATUS_BADGE[count.status].label}</Badge>
+          </div>
+          <p className="text-sm text-[var(--text-tertiary)]">
+            {countedLines} of {lines.length} counted · variance{' '}
+            <span className={varianceValue < 0 ? 'text-error-500' : ''}>{money(Math.round(varianceValue * 100) / 100)}</span>
+          </p>
+        </div>
+        {editable && can('inventory:edit') && (
+          <div className="flex items-center gap-2 shrink-0">
+            <Button variant="ghost" size="sm" onClick={handleCancel}>Cancel</Button>
+            <Button variant="primary" size="sm" onClick={handleFinalize} loading={finalizing} disabled={countedLines === 0 || missingReasons > 0}>
+              Finalize
+            </Button>
+          </div>
+        )}
+      </div>
+      {editable && missingReasons > 0 && (
+        <p className="text-xs text-error-500">{missingReasons} variance{missingReasons !== 1 ? 's need' : ' needs'} a reason before finalizing.</p>
+      )}
+
+      <div className="flex items-center gap-3">
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search items…"
+          className="flex-1 h-11 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)]"
+        />
+        {editable && (
+          <label className="flex items-center gap-2 text-sm text-[var(--text-secondary)] shrink-0">
+            <input type="checkbox" checked={uncountedOnly} onChange={(e) => setUncountedOnly(e.target.checked)} />
+            Uncounted
+          </label>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="py-0">
+          {visible.length === 0 ? (
+            <p className="py-6 text-center text-sm text-[var(--text-tertiary)]">Nothing to show.</p>
+          ) : (
+            visible.map((line) => (
+              <CountLineRow key={line.id} line={line} editable={editable} onSave={handleSave} />
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+// ============================================================================
+// Page
+// ============================================================================
+
+function StockCountsPage() {
+  const searchParams = useSearchParams();
+  const countId = searchParams.get('id');
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <Link
+          href={countId ? '/dashboard/inventory/counts' : '/dashboard/inventory'}
+          className="text-sm text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
+        >
+          ← {countId ? 'All counts' : 'Inventory'}
+        </Link>
+        <h1 className="text-2xl font-bold text-[var(--text-primary)] mt-1">Stock Counts</h1>
+      </div>
+      {countId ? <CountSheet countId={countId} /> : <CountHistory />}
+    </div>
+  );
+}
+
+export default function StockCountsPageWrapper() {
+  return (
+    <Suspense fallback={<div className="flex items-center justify-center min-h-screen"><p className="text-[var(--text-secondary)]">Loading...</p></div>}>
+      <StockCountsPage />
+    </Suspense>
+  );
+}
@@ -0,0 +1,547 @@
+// ============================================================================
+// Stock Locations Page — src/app/dashboard/inventory/locations/page.tsx
+// ============================================================================
+// Studio, event kits, travel cases and staff kits: stock per location, par
+// levels for kits, and transfers between locations. The studio (default
+// location) holds whatever isn't out in a kit.
+// ============================================================================
+
+'use client';
+
+import { useEffect, useState, useMemo, useCallback } from 'react';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { createClient } from '@/lib/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import {
+  Button,
+  Badge,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Input,
+  Select,
+  Modal,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from '@/components/ui';
+import { STOCK_LOCATION_KINDS, locationBreakdown, stockKey, stockLocationKindLabel } from '@/lib/stock-locations';
+import type { InventoryStockLevel, InventoryUnit, StockLocation, StockLocationKind } from '@/types';
+
+interface StockRow {
+  key: string;
+  item_id: string;
+  variant_id: string | null;
+  name: string;
+  unit: InventoryUnit;
+  total: number;
+}
+
+interface TransferSummary {
+  id: string;
+  created_at: string;
+  notes: string | null;
+  from_location: { name: string } | null;
+  to_location: { name: string } | null;
+  lines: { name: string; variant: string | null; unit: string; quantity: number }[];
+}
+
+interface TeamMember {
+  user_id: string;
+  display_name: string | null;
+  invited_email: string | null;
+}
+
+const qty = (n: number) => String(Math.round(n * 100) / 100);
+
+// ============================================================================
+// Location editor
+// ============================================================================
+
+function LocationModal({
+  location,
+  team,
+  onClose,
+  onSaved,
+}: {
+  location: StockLocation | null;
+  team: TeamMember[];
+  onClose: () => void;
+  onSaved: () => void;
+}) {
+  const [name, setName] = useState(location?.name || '');
+  const [kind, setKind] = useState<StockLocationKind>(location?.kind || 'event_kit');
+  const [assignedTo, setAssignedTo] = useState(location?.assigned_to || '');
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      const res = await fetch(location ? `/api/inventory/locations/${location.id}` : '/api/inventory/locations', {
+        method: location ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, kind, assigned_to: assignedTo || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save location');
+        return;
+      }
+      toast.success(location ? 'Location updated' : 'Location added');
+      onSaved();
+      onClose();
+    } catch {
+      toast.error('Failed to save location');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const kindOptions = STOCK_LOCATION_KINDS.filter((k) => k.value !== 'studio' || location?.is_default);
+
+  return (
+    <Modal isOpen onClose={onClose} size="sm">
+      <ModalHeader>
+        <h2 className="text-lg font-semibold text-[var(--text-primary)]">{location ? 'Edit Location' : 'Add Location'}</h2>
+      </ModalHeader>
+      <ModalBody>
+        <div className="space-y-4">
+          <Input label="Name" value={name} onChange={(e) => setName(e.target.value)} placeholder="Market kit" />
+          {!location?.is_default && (
+            <Select
+              label="Type"
+              value={kind}
+              onChange={(e) => setKind(e.target.value as StockLocationKind)}
+              options={kindOptions.map((k) => ({ value: k.value, label: k.label }))}
+            />
+          )}
+          {team.length > 1 && !location?.is_default && (
+            <Select
+              label="Carried by"
+              value={assignedTo}
+              onChange={(e) => setAssignedTo(e.target.value)}
+              options={[
+                { value: '', label: 'Nobody in particular' },
+                ...team.filter((m) => m.user_id).map((m) => ({ value: m.user_id, label: m.display_name || m.invited_email || 'Team member' })),
+              ]}
+            />
+          )}
+        </div>
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="ghost" onClick={onClose}>Cancel</Button>
+        <Button variant="primary" onClick={handleSave} loading={saving} disabled={!name.trim()}>Save</Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Transfer
+// ============================================================================
+
+function TransferModal({
+  locations,
+  rows,
+  levels,
+  initialFrom,
+  onClose,
+  onDone,
+}: {
+  locations: StockLocation[];
+  rows: StockRow[];
+  levels: InventoryStockLevel[];
+  initialFrom: string;
+  onClose: () => void;
+  onDone: () => void;
+}) {
+  const [fromId, setFromId] = useState(initialFrom);
+  const [toId, setToId] = useState(() => locations.find((l) => l.id !== initialFrom)?.id || '');
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState('');
+  const [search, setSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const available = useMemo(() => {
+    const map = new Map<string, number>();
+    for (const row of rows) {
+      const at = locationBreakdown(row.total, row.item_id, row.variant_id, locations, levels).find((b) => b.location.id === fromId);
+      map.set(row.key, Math.max(at?.quantity || 0, 0));
+    }
+    return map;
+  }, [rows, locations, levels, fromId]);
+
+  const visible = rows.filter((r) => (available.get(r.key) || 0) > 0 && r.name.toLowerCase().includes(search.trim().toLowerCase()));
+  const lines = rows
+    .map((r) => ({ row: r, quantity: Number(quantities[r.key]) || 0 }))
+    .filter((l) => l.quantity > 0);
+  const overLimit = lines.some((l) => l.quantity > (available.get(l.row.key) || 0));
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/inventory/transfers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          fromLocationId: fromId,
+          toLocationId: toId,
+          notes,
+          lines: lines.map((l) => ({ item_id: l.row.item_id, variant_id: l.row.variant_id, quantity: l.quantity })),
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Transfer failed');
+        return;
+      }
+      toast.success(`Moved ${lines.length} item${lines.length !== 1 ? 's' : ''}`);
+      onDone();
+      onClose();
+    } catch {
+      toast.error('Transfer failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const locationOptions = locations.map((l) => ({ value: l.id, label: l.name }));
+
+  return (
+    <Modal isOpen onClose={onClose} size="lg">
+      <ModalHeader>
+        <h2 className="text-lg font-semibold text-[var(--text-primary)]">Transfer Stock</h2>
+      </ModalHeader>
+      <ModalBody>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <Select label="From" value={fromId} onChange={(e) => { setFromId(e.target.value); setQuantities({}); }} options={locationOptions} />
+            <Select label="To" value={toId} onChange={(e) => setToId(e.target.value)} options={locationOptions} />
+          </div>
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search items…"
+            className="w-full h-10 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)]"
+          />
+          <div className="max-h-72 overflow-y-auto rounded-lg border border-[var(--border-default)]">
+            {visible.length === 0 ? (
+              <p className="p-4 text-center text-sm text-[var(--text-tertiary)]">Nothing in stock here.</p>
+            ) : (
+              visible.map((r) => (
+                <div key={r.key} className="flex items-center justify-between gap-3 px-3 py-2 border-b border-[var(--border-subtle)] last:border-b-0">
+                  <div className="min-w-0">
+                    <p className="text-sm text-[var(--text-primary)] truncate">{r.name}</p>
+                    <p className="text-xs text-[var(--text-tertiary)]">{qty(available.get(r.key) || 0)} {r.unit} available</p>
+                  </div>
+                  <input
+                    type="number"
+                    inputMode="decimal"
+                    min="0"
+                    step="any"
+                    value={quantities[r.key] || ''}
+                    placeholder="0"
+                    onChange={(e) => setQuantities((q) => ({ ...q, [r.key]: e.target.value }))}
+                    className="w-24 h-10 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-right text-sm text-[var(--text-primary)]"
+                  />
+                </div>
+              ))
+            )}
+          </div>
+          <Input label="Note (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Packing for Saturday market" />
+          {overLimit && <p className="text-xs text-error-500">Some quantities are more than what's available.</p>}
+        </div>
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="ghost" onClick={onClose}>Cancel</Button>
+        <Button
+          variant="primary"
+          onClick={handleSubmit}
+          loading={saving}
+          disabled={!fromId || !toId || fromId === toId || lines.length === 0 || overLimit}
+        >
+          Transfer
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Page
+// ============================================================================
+
+export default function StockLocationsPage() {
+  const { tenant, can } = useTenant();
+  const supabase = useMemo(() => createClient(), []);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [levels, setLevels] = useState<InventoryStockLevel[]>([]);
+  const [rows, setRows] = useState<StockRow[]>([]);
+  const [transfers, setTransfers] = useState<TransferSummary[]>([]);
+  const [team, setTeam] = useState<TeamMember[]>([]);
+  const [selectedId, setSelectedId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<StockLocation | null | 'new'>(null);
+  const [showTransfer, setShowTransfer] = useState(false);
+  const [parDrafts, setParDrafts] = useState<Record<string, string>>({});
+  const canEdit = can('inventory:edit');
+
+  const fetchAll = useCallback(async () => {
+    if (!tenant) return;
+    try {
+      const [locRes, transferRes, { data: items }] = await Promise.all([
+        fetch('/api/inventory/locations'),
+        fetch('/api/inventory/transfers'),
+        supabase
+          .from('inventory_items')
+          .select('id, name, unit, quantity_on_hand, has_variants, inventory_item_variants(id, name, quantity_on_hand, is_active)')
+          .eq('tenant_id', tenant.id)
+          .eq('is_active', true)
+          .order('type')
+          .order('name'),
+      ]);
+      const locData = await locRes.json();
+      if (!locRes.ok) {
+        toast.error(locData.error || 'Failed to load locations');
+        return;
+      }
+      setLocations(locData.locations);
+      setLevels(locData.levels);
+      setSelectedId((prev) => prev || locData.locations[0]?.id || '');
+      if (transferRes.ok) setTransfers(await transferRes.json());
+
+      const stockRows: StockRow[] = [];
+      for (const item of (items || []) as any[]) {
+        const variants = (item.inventory_item_variants || []).filter((v: any) => v.is_active);
+        if (item.has_variants && variants.length > 0) {
+          for (const v of variants) {
+            stockRows.push({ key: stockKey(item.id, v.id), item_id: item.id, variant_id: v.id, name: `${item.name} — ${v.name}`, unit: item.unit, total: Number(v.quantity_on_hand) });
+          }
+        } else {
+          stockRows.push({ key: stockKey(item.id), item_id: item.id, variant_id: null, name: item.name, unit: item.unit, total: Number(item.quantity_on_hand) });
+        }
+      }
+      setRows(stockRows);
+    } catch {
+      toast.error('Failed to load locations');
+    } finally {
+      setLoading(false);
+    }
+  }, [tenant, supabase]);
+
+  useEffect(() => { fetchAll(); }, [fetchAll]);
+
+  useEffect(() => {
+    fetch('/api/team')
+      .then((res) => (res.ok ? res.json() : { members: [] }))
+      .then((data) => setTeam(data.members || []))
+      .catch(() => {});
+  }, []);
+
+  const selected = locations.find((l) => l.id === selectedId) || null;
+
+  const stockHere = useMemo(() => {
+    if (!selected) return [];
+    return rows.map((r) => {
+      const at = locationBreakdown(r.total, r.item_id, r.variant_id, locations, levels).find((b) => b.location.id === selected.id);
+      return { ...r, quantity: at?.quantity || 0, par_level: at?.par_level ?? null };
+    });
+  }, [rows, locations, levels, selected]);
+
+  useEffect(() => {
+    setParDrafts(Object.fromEntries(stockHere.map((r) => [r.key, r.par_level === null ? '' : String(r.par_level)])));
+  }, [stockHere]);
+
+  const handleSavePar = async (row: (typeof stockHere)[number]) => {
+    if (!selected) return;
+    const draft = parDrafts[row.key] ?? '';
+    const par = draft.trim() === '' ? null : Number(draft);
+    if (par === row.par_level) return;
+    const res = await fetch(`/api/inventory/locations/${selected.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ par_levels: [{ item_id: row.item_id, variant_id: row.variant_id, par_level: par }] }),
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      toast.error(data.error || 'Failed to save par level');
+      return;
+    }
+    fetchAll();
+  };
+
+  const handleDelete = async (location: StockLocation) => {
+    if (!confirm(`Delete ${location.name}? Anything still in it goes back to the studio.`)) return;
+    const res = await fetch(`/api/inventory/locations/${location.id}`, { method: 'DELETE' });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      toast.error(data.error || 'Failed to delete location');
+      return;
+    }
+    toast.success(data.returned ? `${location.name} deleted — stock returned to the studio` : `${location.name} deleted`);
+    setSelectedId('');
+    fetchAll();
+  };
+
+  if (loading) {
+    return (
+      <div className="py-12 text-center">
+        <div className="inline-block h-6 w-6 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+      </div>
+    );
+  }
+
+  const shown = stockHere.filter((r) => selected?.is_default || r.quantity !== 0 || r.par_level !== null || canEdit);
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div className="flex items-end justify-between gap-3">
+        <div>
+          <Link href="/dashboard/inventory" className="text-sm text-[var(--text-tertiary)] hover:text-[var(--text-primary)]">
+            ← Inventory
+          </Link>
+          <h1 className="text-2xl font-bold text-[var(--text-primary)] mt-1">Stock Locations</h1>
+        </div>
+        {canEdit && (
+          <div className="flex items-center gap-2">
+            <Button variant="secondary" size="sm" onClick={() => setEditing('new')}>+ Location</Button>
+            {locations.length > 1 && (
+              <Button variant="primary" size="sm" onClick={() => setShowTransfer(true)}>Transfer</Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Location tabs */}
+      <div className="flex flex-wrap gap-2">
+        {locations.map((l) => (
+          <button
+            key={l.id}
+            onClick={() => setSelectedId(l.id)}
+            className={`px-3 py-2 rounded-lg text-sm font-medium min-h-[44px] transition-colors ${
+              l.id === selectedId
+                ? 'bg-[var(--accent-primary)] text-white'
+                : 'bg-[var(--surface-raised)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] border border-[var(--border-default)]'
+            }`}
+          >
+            {l.name}
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-3">
+              <div className="flex items-center gap-2">
+                <CardTitle>{selected.name}</CardTitle>
+                <Badge size="sm">{stockLocationKindLabel(selected.kind)}</Badge>
+                {selected.assigned_to && (
+                  <span className="text-xs text-[var(--text-tertiary)]">
+                    {team.find((m) => m.user_id === selected.assigned_to)?.display_name || 'Assigned'}
+                  </span>
+                )}
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => setEditing(selected)}>Edit</Button>
+                  {!selected.is_default && (
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(selected)}>Delete</Button>
+                  )}
+                </div>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-0">
+            {selected.is_default ? (
+              <p className="text-xs text-[var(--text-tertiary)] pb-2">
+                Everything not out in another location. Reorder alerts use each item's total stock.
+              </p>
+            ) : (
+              <p className="text-xs text-[var(--text-tertiary)] pb-2">
+                Set a par level for what this kit should carry — the dashboard flags it when it runs low.
+              </p>
+            )}
+            {shown.length === 0 ? (
+              <p className="py-6 text-center text-sm text-[var(--text-tertiary)]">No stock here yet. Use Transfer to pack it.</p>
+            ) : (
+              shown.map((r) => {
+                const belowPar = r.par_level !== null && r.par_level > 0 && r.quantity <= r.par_level;
+                return (
+                  <div key={r.key} className="flex items-center justify-between gap-3 py-2 border-b border-[var(--border-subtle)] last:border-b-0">
+                    <span className="text-sm text-[var(--text-primary)] truncate">{r.name}</span>
+                    <div className="flex items-center gap-3 shrink-0">
+                      <span className={`text-sm ${r.quantity < 0 || belowPar ? 'text-error-500' : 'text-[var(--text-primary)]'}`}>
+                        {qty(r.quantity)} {r.unit}
+                      </span>
+                      {!selected.is_default && canEdit && (
+                        <input
+                          type="number"
+                          inputMode="decimal"
+                          min="0"
+                          step="any"
+                          value={parDrafts[r.key] ?? ''}
+                          placeholder="Par"
+                          title="Par level"
+                          onChange={(e) => setParDrafts((d) => ({ ...d, [r.key]: e.target.value }))}
+                          onBlur={() => handleSavePar(r)}
+                          className="w-20 h-9 px-2 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-right text-sm text-[var(--text-primary)]"
+                        />
+                      )}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Transfers</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-0">
+          {transfers.length === 0 ? (
+            <p className="py-4 text-center text-sm text-[var(--text-tertiary)]">No transfers yet.</p>
+          ) : (
+            transfers.map((t) => (
+              <div key={t.id} className="py-2 border-b border-[var(--border-subtle)] last:border-b-0">
+                <p className="text-sm text-[var(--text-primary)]">
+                  {t.from_location?.name || 'Deleted location'} → {t.to_location?.name || 'Deleted location'}
+                </p>
+                <p className="text-xs text-[var(--text-tertiary)]">
+                  {new Date(t.created_at).toLocaleDateString()} ·{' '}
+                  {t.lines.map((l) => `${qty(l.quantity)} ${l.unit} ${l.name}${l.variant ? ` (${l.variant})` : ''}`).join(', ')}
+                  {t.notes && ` · ${t.notes}`}
+                </p>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {editing && (
+        <LocationModal
+          location={editing === 'new' ? null : editing}
+          team={team}
+          onClose={() => setEditing(null)}
+          onSaved={fetchAll}
+        />
+      )}
+      {showTransfer && (
+        <TransferModal
+          locations={locations}
+          rows={rows}
+          levels={levels}
+          initialFrom={selectedId || locations[0]?.id || ''}
+          onClose={() => setShowTransfer(false)}
+          onDone={fetchAll}
+        />
+      )}
+    </div>
+  );
+}
@@ -25,10 +25,11 @@ import { Badge } from '@/components/ui/Badge';
 import ChainPricingConfig, { type PriceConfigRow } from '@/components/inventory/ChainPricingConfig';
 import SupplierDropdown from '@/components/inventory/SupplierDropdown';
 import MaterialDropdown from '@/components/inventory/MaterialDropdown';
-import type { InventoryItem, InventoryItemVariant, InventoryType, InventoryUnit, PricingMode, Material, TenantPricingMode, ReorderHistory, Supplier } from '@/types';
+import type { InventoryItem, InventoryItemVariant, InventoryType, InventoryUnit, PricingMode, Material, TenantPricingMode, ReorderHistory, StockValuation, Supplier } from '@/types';
 import { Skeleton } from '@/components/ui';
 import SunnyTutorial from '@/components/SunnyTutorial';
 import ReorderModal from '@/components/inventory/ReorderModal';
+import ReorderForecastModal from '@/components/inventory/ReorderForecastModal';
 import ShopSunstoneCatalog from '@/components/inventory/ShopSunstoneCatalog';
 import CartDrawer from '@/components/inventory/CartDrawer';
 import CartCheckout from '@/components/inventory/CartCheckout';
@@ -36,6 +37,8 @@ import { useCartStore } from '@/stores/cart-store';
 import { isInventoryProduct } from '@/lib/catalog-filter';
 import ImportModal from '@/components/ImportModal';
 import { downloadCSV, escapeCSVField } from '@/lib/csv-templates';
+import { formatCurrency } from '@/lib/utils';
+import { costingMethodLabel, getInventoryCosts, unitCostOf } from '@/lib/cost-layers';
 
 // â"€â"€â"€ Constants â"€â"€â"€
 const ITEM_TYPES: { value: InventoryType; label: string }[] = [
@@ -59,7 +62,8 @@ const UNITS: { value: InventoryUnit; label: string }[] = [
 // ============================================================================
 
 export default function InventoryPage() {
-  const { tenant, role } = useTenant();
+  const { tenant, role, can } = useTenant();
+  const canSeeCosts = can('costs:view');
   const router = useRouter();
   // Stable reference — prevents dependency cycles in useCallback/useEffect
   // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -92,6 +96,8 @@ export default function InventoryPage() {
 
   // Reorder
   const [reorderItem, setReorderItem] = useState<InventoryItem | null>(null);
+  const [showForecast, setShowForecast] = useState(false);
+  const [valuation, setValuation] = useState<StockValuation | null>(null);
   const [reorderHistory, setReorderHistory] = useState<ReorderHistory[]>([]);
   const [receivingId, setReceivingId] = useState<string | null>(null);
   const [autoLinking, setAutoLinking] = useState(false);
@@ -142,7 +148,7 @@ export default function InventoryPage() {
     setLoading(true);
 
     let query = supabase
-      .from('inventory_items')
+      .from('inventory_items_without_cost')
       .select('*')
       .eq('tenant_id', tenant.id)
       .order('name');
@@ -156,13 +162,24 @@ export default function InventoryPage() {
       toast.error('Failed to load inventory');
       console.error(error);
     } else {
-      setItems(data || []);
+      // cost_per_unit isn't selectable; roles that can see it get it here
+      const costs = canSeeCosts
+        ? await getInventoryCosts(supabase, tenant.id).catch(() => new Map<string, number>())
+        : new Map<string, number>();
+      setItems((data || []).map((i: InventoryItem) => ({ ...i, cost_per_unit: unitCostOf(costs, i.id, null) })));
+
+      if (canSeeCosts) {
+        fetch('/api/inventory/valuation')
+          .then((res) => (res.ok ? res.json() : null))
+          .then((v: StockValuation | null) => setValuation(v))
+          .catch(() => {});
+      }
 
       // Fetch variants for items with has_variants
       const variantItemIds = (data || []).filter((i: any) => i.has_variants).map((i: any) => i.id);
       if (variantItemIds.length > 0) {
         const { data: vData } = await supabase
-          .from('inventory_item_variants')
+          .from('inventory_item_variants_without_cost')
           .select('*')
           .in('inventory_item_id', variantItemIds)
           .order('sort_order')
@@ -171,7 +188,7 @@ export default function InventoryPage() {
           const variantMap: Record<string, InventoryItemVariant[]> = {};
           for (const v of vData as InventoryItemVariant[]) {
             if (!variantMap[v.inventory_item_id]) variantMap[v.inventory_item_id] = [];
-            variantMap[v.inventory_item_id].push(v);
+            variantMap[v.inventory_item_id].push({ ...v, cost_per_unit: unitCostOf(costs, v.inventory_item_id, v.id) });
           }
           setItemVariants(variantMap);
         }
@@ -189,7 +206,7 @@ export default function InventoryPage() {
         savedScrollRef.current = 0;
       });
     }
-  }, [tenant, showInactive, supabase, getScrollContainer]);
+  }, [tenant, showInactive, supabase, getScrollContainer, canSeeCosts]);
 
   useEffect(() => {
     loadItems();
@@ -436,7 +453,7 @@ export default function InventoryPage() {
     if (!tenant) return;
     const { data: allItems } = await supabase
       .from('inventory_items')
-      .select('name, type, material, sku, unit, quantity_on_hand, cost_per_unit, sell_price, reorder_threshold, notes')
+      .select('id, name, type, material, sku, unit, quantity_on_hand, sell_price, reorder_threshold, notes')
       .eq('tenant_id', tenant.id)
       .eq('is_active', true)
       .order('name');
@@ -446,6 +463,9 @@ export default function InventoryPage() {
       return;
     }
 
+    // Cost is left blank for roles that can't see it
+    const costs = canSeeCosts ? await getInventoryCosts(supabase, tenant.id).catch(() => null) : null;
+
     const unitLabel: Record<string, string> = { in: 'inches', ft: 'feet', each: 'each', pack: 'pack' };
     const lines = ['name,type,material,sku,unit,quantity,cost_per_unit,sell_price,reorder_threshold,notes'];
     for (const item of allItems) {
@@ -456,7 +476,7 @@ export default function InventoryPage() {
         escapeCSVField(item.sku),
         escapeCSVField(unitLabel[item.unit] || item.unit),
         String(item.quantity_on_hand ?? 0),
-        String(item.cost_per_unit ?? 0),
+        costs ? String(unitCostOf(costs, item.id, null)) : '',
         String(item.sell_price ?? 0),
         String(item.reorder_threshold ?? 0),
         escapeCSVField(item.notes),
@@ -645,6 +665,9 @@ export default function InventoryPage() {
           <h1 className="text-2xl font-bold text-[var(--text-primary)]">Inventory</h1>
           <p className="text-sm text-[var(--text-tertiary)] mt-0.5">
             {items.length} item{items.length !== 1 ? 's' : ''}
+            {valuation && (
+              <> · {formatCurrency(valuation.total)} at cost ({costingMethodLabel(valuation.method)})</>
+            )}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -701,14 +724,52 @@ export default function InventoryPage() {
               </button>
               {headerMenuOpen && (
                 <div className="absolute right-0 top-full mt-1 w-48 rounded-lg border border-[var(--border-default)] bg-[var(--surface-overlay)] shadow-lg z-20 py-1">
+                  {can('data:export') && (
+                    <button
+                      onClick={() => { setHeaderMenuOpen(false); handleExportInventoryCSV(); }}
+                      className="w-full text-left px-3 py-2 text-sm text-[var(--text-primary)] hover:bg-[var(--surface-raised)] min-h-[40px] flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4 text-[var(--text-tertiary)]" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                        <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+                      </svg>
+                      Export as CSV
+                    </button>
+                  )}
                   <button
-                    onClick={() => { setHeaderMenuOpen(false); handleExportInventoryCSV(); }}
+                    onClick={() => { setHeaderMenuOpen(false); router.push('/dashboard/inventory/counts'); }}
                     className="w-full text-left px-3 py-2 text-sm text-[var(--text-primary)] hover:bg-[var(--surface-raised)] min-h-[40px] flex items-center gap-2"
                   >
                     <svg className="w-4 h-4 text-[var(--text-tertiary)]" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M9 12h3.75M9 15h3.75M9 18h3.75m3 .75H18a2.25 2.25 0 002.25-2.25V6.108c0-1.135-.845-2.098-1.976-2.192a48.424 48.424 0 00-1.123-.08m-5.801 0c-.065.21-.1.433-.1.664 0 .414.336.75.75.75h4.5a.75.75 0 00.75-.75 2.25 2.25 0 00-.1-.664m-5.8 0A2.251 2.251 0 0113.5 2.25H15c1.012 0 1.867.668 2.15 1.586m-5.8 0c-.376.023-.75.05-1.124.08C9.095 4.01 8.25 4.973 8.25 6.108V8.25m0 0H4.875c-.621 0-1.125.504-1.125 1.125v11.25c0 .621.504 1.125 1.125 1.125h9.75c.621 0 1.125-.504 1.125-1.125V9.375c0-.621-.504-1.125-1.125-1.125H8.25z" />
                     </svg>
-                    Export as CSV
+                    Stock counts
+                  </button>
+                  <button
+                    onClick={() => { setHeaderMenuOpen(false); router.push('/dashboard/inventory/locations'); }}
+                    className="w-full text-left px-3 py-2 text-sm text-[var(--text-primary)] hover:bg-[var(--surface-raised)] min-h-[40px] flex items-center gap-2"
+                  >
+                    <svg className="w-4 h-4 text-[var(--text-tertiary)]" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M7.5 21 3 16.5m0 0L7.5 12M3 16.5h13.5m0-13.5L21 7.5m0 0L16.5 12M21 7.5H7.5" />
+                    </svg>
+                    Locations &amp; transfers
+                  </button>
+                  <button
+                    onClick={() => { setHeaderMenuOpen(false); setShowForecast(true); }}
+                    className="w-full text-left px-3 py-2 text-sm text-[var(--text-primary)] hover:bg-[var(--surface-raised)] min-h-[40px] flex items-center gap-2"
+                  >
+                    <svg className="w-4 h-4 text-[var(--text-tertiary)]" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M2.25 18 9 11.25l4.306 4.306a11.95 11.95 0 0 1 5.814-5.518l2.74-1.22m0 0-5.94-2.281m5.94 2.28-2.28 5.941" />
+                    </svg>
+                    Reorder forecast
+                  </button>
+                  <button
+                    onClick={() => { setHeaderMenuOpen(false); router.push('/dashboard/inventory/purchase-orders'); }}
+                    className="w-full text-left px-3 py-2 text-sm text-[var(--text-primary)] hover:bg-[var(--surface-raised)] min-h-[40px] flex items-center gap-2"
+                  >
+                    <svg className="w-4 h-4 text-[var(--text-tertiary)]" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M19.5 14.25v-2.625a3.375 3.375 0 0 0-3.375-3.375h-1.5A1.125 1.125 0 0 1 13.5 7.125v-1.5a3.375 3.375 0 0 0-3.375-3.375H8.25m0 12.75h7.5m-7.5 3H12M10.5 2.25H5.625c-.621 0-1.125.504-1.125 1.125v17.25c0 .621.504 1.125 1.125 1.125h12.75c.621 0 1.125-.504 1.125-1.125V11.25a9 9 0 0 0-9-9Z" />
+                    </svg>
+                    Purchase orders
                   </button>
                 </div>
               )}
@@ -1008,7 +1069,7 @@ export default function InventoryPage() {
                 {/* Cost */}
                 <div className="hidden sm:block text-right">
                   <span className="text-sm text-[var(--text-secondary)]">
-                    ${Number(item.cost_per_unit).toFixed(2)}
+                    {canSeeCosts ? `$${Number(item.cost_per_unit).toFixed(2)}` : '—'}
                   </span>
                 </div>
 
@@ -1239,7 +1300,7 @@ export default function InventoryPage() {
                   </div>
                   <div className="hidden sm:block text-right">
                     <span className="text-sm text-[var(--text-tertiary)]">
-                      ${Number(v.cost_per_unit).toFixed(2)}
+                      {canSeeCosts ? `$${Number(v.cost_per_unit).toFixed(2)}` : '—'}
                     </span>
                   </div>
                   <div className="hidden sm:block text-right">
@@ -1478,6 +1539,9 @@ export default function InventoryPage() {
         />
       )}
 
+      {/* Reorder Forecast */}
+      <ReorderForecastModal isOpen={showForecast} onClose={() => setShowForecast(false)} />
+
       {/* Chain Length Picker Modal */}
       {chainLengthPicker && (
         <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center p-4">
@@ -1677,6 +1741,9 @@ function InventoryItemForm({ tenant, editingItem, onClose, onSaved, onDelete }:
   // eslint-disable-next-line react-hooks/exhaustive-deps
   const supabase = useMemo(() => createClient(), []);
   const isEditing = !!editingItem;
+  const { can } = useTenant();
+  const canEditPrices = can('prices:edit');
+  const canSeeCosts = can('costs:view');
 
   // â"€â"€â"€ Form State â"€â"€â"€
   const [name, setName] = useState(editingItem?.name || '');
@@ -1737,6 +1804,8 @@ function InventoryItemForm({ tenant, editingItem, onClose, onSaved, onDelete }:
   const [variants, setVariants] = useState<InventoryItemVariant[]>([]);
   const [variantsLoaded, setVariantsLoaded] = useState(false);
   const [deletedVariantIds, setDeletedVariantIds] = useState<string[]>([]);
+  // Variant stock as loaded, so edits can be logged as movements on save
+  const savedVariantQty = useRef<Record<string, number>>({});
 
   // Validation
   const [validationTriggered, setValidationTriggered] = useState(false);
@@ -1756,13 +1825,23 @@ function InventoryItemForm({ tenant, editingItem, onClose, onSaved, onDelete }:
   useEffect(() => {
     if (!editingItem?.has_variants || !editingItem?.id || variantsLoaded) return;
     const loadVariants = async () => {
-      const { data } = await supabase
-        .from('inventory_item_variants')
-        .select('*')
-        .eq('inventory_item_id', editingItem.id)
-        .order('sort_order')
-        .order('name');
-      if (data) setVariants(data as InventoryItemVariant[]);
+      const [{ data }, costs] = await Promise.all([
+        supabase
+          .from('inventory_item_variants_without_cost')
+          .select('*')
+          .eq('inventory_item_id', editingItem.id)
+          .order('sort_order')
+          .order('name'),
+        canSeeCosts
+          ? getInventoryCosts(supabase, tenant.id, [editingItem.id]).catch(() => new Map<string, number>())
+          : Promise.resolve(new Map<string, number>()),
+      ]);
+      if (data) {
+        setVariants((data as InventoryItemVariant[]).map((v) => ({ ...v, cost_per_unit: unitCostOf(costs, editingItem.id, v.id) })));
+        savedVariantQty.current = Object.fromEntries(
+          (data as InventoryItemVariant[]).map((v) => [v.id, Number(v.quantity_on_hand)])
+        );
+      }
       setVariantsLoaded(true);
     };
     loadVariants();
@@ -2170,8 +2249,14 @@ function InventoryItemForm({ tenant, editingItem, onClose, onSaved, onDelete }:
         sunstone_variant_id: isSunstoneSupplier ? sunstoneVariantId : null,
         has_variants: type !== 'chain' ? hasVariants : false,
       };
+      // Roles that can't see costs never loaded them; keep what's stored
+      if (isEditing && !canSeeCosts) delete itemData.cost_per_unit;
 
       let savedItemId: string;
+      // Stock edits become movements: increases open a cost layer at the
+      // entered cost (or the carrying cost when it's hidden), decreases draw
+      // the layers down
+      const stockChanges: { variantId: string | null; delta: number; unitCost: number | null }[] = [];
 
       if (isEditing && editingItem) {
         // Update
@@ -2234,7 +2319,7 @@ function InventoryItemForm({ tenant, editingItem, onClose, onSaved, onDelete }:
 
         // Upsert variants
         for (const v of variants) {
-          const variantData = {
+          const variantData: Record<string, any> = {
             tenant_id: tenant.id,
             inventory_item_id: savedItemId,
             name: v.name.trim(),
@@ -2248,11 +2333,18 @@ function InventoryItemForm({ tenant, editingItem, onClose, onSaved, onDelete }:
             sunstone_variant_id: v.sunstone_variant_id || null,
           };
 
+          if (!canSeeCosts && !v.id.startsWith('new-')) delete variantData.cost_per_unit;
+
+          let variantId = v.id;
           if (v.id.startsWith('new-')) {
             // Insert new variant
-            await supabase
+            const { data: inserted } = await supabase
               .from('inventory_item_variants')
-              .insert(variantData);
+              .insert(variantData)
+              .select('id')
+              .single();
+            if (!inserted) continue;
+            variantId = inserted.id;
           } else {
             // Update existing variant
             await supabase
@@ -2260,6 +2352,15 @@ function InventoryItemForm({ tenant, editingItem, onClose, onSaved, onDelete }:
               .update({ ...variantData, updated_at: new Date().toISOString() })
               .eq('id', v.id);
           }
+
+          const delta = variantData.quantity_on_hand - (savedVariantQty.current[v.id] ?? 0);
+          if (delta !== 0) {
+            stockChanges.push({
+              variantId,
+              delta,
+              unitCost: canSeeCosts ? variantData.cost_per_unit || itemData.cost_per_unit : null,
+            });
+          }
         }
       } else if (!hasVariants && deletedVariantIds.length > 0) {
         // Clean up variants when toggled off
@@ -2269,6 +2370,25 @@ function InventoryItemForm({ tenant, editingItem, onClose, onSaved, onDelete }:
           .in('id', deletedVariantIds);
       }
 
+      if (!hasVariants || type === 'chain') {
+        const delta = quantity - (isEditing && editingItem && !editingItem.has_variants ? Number(editingItem.quantity_on_hand) : 0);
+        if (delta !== 0) stockChanges.push({ variantId: null, delta, unitCost: canSeeCosts ? itemData.cost_per_unit : null });
+      }
+
+      if (stockChanges.length > 0) {
+        await supabase.from('inventory_movements').insert(
+          stockChanges.map((c) => ({
+            tenant_id: tenant.id,
+            inventory_item_id: savedItemId,
+            inventory_variant_id: c.variantId,
+            movement_type: c.delta > 0 ? 'restock' : 'adjustment',
+            quantity: c.delta,
+            unit_cost: c.delta > 0 ? c.unitCost : null,
+            notes: c.delta > 0 ? 'Manual restock' : 'Manual stock edit',
+          }))
+        );
+      }
+
       toast.success(isEditing ? 'Item updated' : 'Item added');
 
       // Check for chain auto-create offer
@@ -2813,86 +2933,88 @@ function InventoryItemForm({ tenant, editingItem, onClose, onSaved, onDelete }:
             </div>
 
             {/* Cost */}
-            <div className={hasVariants ? 'opacity-50 pointer-events-none' : ''}>
-              <div className="flex items-center gap-3 mb-1">
-                <label className="text-sm font-medium text-[var(--text-primary)]">
-                  {costLabel}
-                </label>
-                {type === 'chain' && (
-                  <div className="inline-flex rounded-lg border border-[var(--border-default)] overflow-hidden">
-                    <button
-                      type="button"
-                      onClick={() => {
-                        if (costEntryUnit === 'foot') {
-                          // Convert displayed per-foot value to per-inch
-                          const val = parseFloat(costPerUnit);
-                          if (val > 0) {
-                            setCostPerUnit(String(Math.round((val / 12) * 10000) / 10000));
+            {canSeeCosts && (
+              <div className={hasVariants ? 'opacity-50 pointer-events-none' : ''}>
+                <div className="flex items-center gap-3 mb-1">
+                  <label className="text-sm font-medium text-[var(--text-primary)]">
+                    {costLabel}
+                  </label>
+                  {type === 'chain' && (
+                    <div className="inline-flex rounded-lg border border-[var(--border-default)] overflow-hidden">
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (costEntryUnit === 'foot') {
+                            // Convert displayed per-foot value to per-inch
+                            const val = parseFloat(costPerUnit);
+                            if (val > 0) {
+                              setCostPerUnit(String(Math.round((val / 12) * 10000) / 10000));
+                            }
+                            setCostEntryUnit('inch');
                           }
-                          setCostEntryUnit('inch');
-                        }
-                      }}
-                      className={`px-2.5 py-1 text-xs font-medium transition-colors ${
-                        costEntryUnit === 'inch'
-                          ? 'bg-[var(--accent-primary)] text-white'
-                          : 'bg-[var(--surface-base)] text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]'
-                      }`}
-                    >
-                      per inch
-                    </button>
-                    <button
-                      type="button"
-                      onClick={() => {
-                        if (costEntryUnit === 'inch') {
-                          // Convert displayed per-inch value to per-foot
-                          const val = parseFloat(costPerUnit);
-                          if (val > 0) {
-                            setCostPerUnit(String(Math.round(val * 12 * 10000) / 10000));
+                        }}
+                        className={`px-2.5 py-1 text-xs font-medium transition-colors ${
+                          costEntryUnit === 'inch'
+                            ? 'bg-[var(--accent-primary)] text-white'
+                            : 'bg-[var(--surface-base)] text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]'
+                        }`}
+                      >
+                        per inch
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (costEntryUnit === 'inch') {
+                            // Convert displayed per-inch value to per-foot
+                            const val = parseFloat(costPerUnit);
+                            if (val > 0) {
+                              setCostPerUnit(String(Math.round(val * 12 * 10000) / 10000));
+                            }
+                            setCostEntryUnit('foot');
                           }
-                          setCostEntryUnit('foot');
-                        }
-                      }}
-                      className={`px-2.5 py-1 text-xs font-medium transition-colors ${
-                        costEntryUnit === 'foot'
-                          ? 'bg-[var(--accent-primary)] text-white'
-                          : 'bg-[var(--surface-base)] text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]'
-                      }`}
-                    >
-                      per foot
-                    </button>
-                  </div>
+                        }}
+                        className={`px-2.5 py-1 text-xs font-medium transition-colors ${
+                          costEntryUnit === 'foot'
+                            ? 'bg-[var(--accent-primary)] text-white'
+                            : 'bg-[var(--surface-base)] text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]'
+                        }`}
+                      >
+                        per foot
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {type === 'chain' && (
+                  <p className="text-xs text-[var(--text-tertiary)] mb-1.5">
+                    {costEntryUnit === 'foot'
+                      ? 'Enter the per-foot price from your supplier'
+                      : 'What you paid per inch for this chain'}
+                  </p>
+                )}
+                <div className="relative max-w-[200px]">
+                  <span className="absolute left-4 top-1/2 -translate-y-1/2 text-sm text-[var(--text-tertiary)]">
+                    $
+                  </span>
+                  <input
+                    type="number"
+                    step="any"
+                    min="0"
+                    value={costPerUnit}
+                    onChange={(e) => setCostPerUnit(e.target.value)}
+                    placeholder="0.00"
+                    className="w-full rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] pl-8 pr-4 py-3 text-[var(--text-primary)] text-base  placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--accent-primary)] focus:ring-2 focus:ring-[var(--accent-subtle)] min-h-[48px]"
+                  />
+                </div>
+                {type === 'chain' && costEntryUnit === 'foot' && costPerUnit && parseFloat(costPerUnit) > 0 && (
+                  <p className="text-xs text-[var(--text-tertiary)] mt-1.5">
+                    = ${(Math.round((parseFloat(costPerUnit) / 12) * 10000) / 10000).toFixed(4)}/inch
+                  </p>
+                )}
+                {hasVariants && (
+                  <p className="text-xs text-[var(--text-tertiary)] mt-1">Set per variant below</p>
                 )}
               </div>
-              {type === 'chain' && (
-                <p className="text-xs text-[var(--text-tertiary)] mb-1.5">
-                  {costEntryUnit === 'foot'
-                    ? 'Enter the per-foot price from your supplier'
-                    : 'What you paid per inch for this chain'}
-                </p>
-              )}
-              <div className="relative max-w-[200px]">
-                <span className="absolute left-4 top-1/2 -translate-y-1/2 text-sm text-[var(--text-tertiary)]">
-                  $
-                </span>
-                <input
-                  type="number"
-                  step="any"
-                  min="0"
-                  value={costPerUnit}
-                  onChange={(e) => setCostPerUnit(e.target.value)}
-                  placeholder="0.00"
-                  className="w-full rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] pl-8 pr-4 py-3 text-[var(--text-primary)] text-base  placeholder:text-[var(--text-tertiary)] focus:outline-none focus:border-[var(--accent-primary)] focus:ring-2 focus:ring-[var(--accent-subtle)] min-h-[48px]"
-                />
-              </div>
-              {type === 'chain' && costEntryUnit === 'foot' && costPerUnit && parseFloat(costPerUnit) > 0 && (
-                <p className="text-xs text-[var(--text-tertiary)] mt-1.5">
-                  = ${(Math.round((parseFloat(costPerUnit) / 12) * 10000) / 10000).toFixed(4)}/inch
-                </p>
-              )}
-              {hasVariants && (
-                <p className="text-xs text-[var(--text-tertiary)] mt-1">Set per variant below</p>
-              )}
-            </div>
+            )}
 
             {/* Unit (non-chain only) */}
             {type !== 'chain' && (
@@ -2919,10 +3041,13 @@ function InventoryItemForm({ tenant, editingItem, onClose, onSaved, onDelete }:
           <div className="border-t border-[var(--border-subtle)]" />
 
           {/* â•â•â• SECTION 3: Pricing â•â•â• */}
-          <div className="space-y-4">
+          <fieldset disabled={!canEditPrices} className="space-y-4 min-w-0">
             <h3 className="text-xs font-semibold text-[var(--text-tertiary)] uppercase tracking-wider">
               Pricing
             </h3>
+            {!canEditPrices && (
+              <p className="text-xs text-[var(--text-tertiary)]">Your role can&apos;t change prices.</p>
+            )}
 
             {/* Chain pricing: full redesigned component */}
             {type === 'chain' ? (
@@ -2965,7 +3090,7 @@ function InventoryItemForm({ tenant, editingItem, onClose, onSaved, onDelete }:
                 )}
               </div>
             )}
-          </div>
+          </fieldset>
 
           {/* ═══ SECTION 4: Variants (non-chain only) ═══ */}
           {type !== 'chain' && (
@@ -3040,8 +3165,9 @@ function InventoryItemForm({ tenant, editingItem, onClose, onSaved, onDelete }:
                                   type="number"
                                   step="0.01"
                                   min="0"
-                                  value={v.cost_per_unit || ''}
+                                  value={canSeeCosts ? v.cost_per_unit || '' : ''}
                                   onChange={(e) => updateVariant(v.id, 'cost_per_unit', parseFloat(e.target.value) || 0)}
+                                  disabled={!canSeeCosts}
                                   className="w-full rounded border border-[var(--border-default)] bg-[var(--surface-base)] pl-5 pr-1 py-1.5 text-sm text-right text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-primary)] min-h-[36px]"
                                 />
                               </div>
@@ -3053,6 +3179,7 @@ function InventoryItemForm({ tenant, editingItem, onClose, onSaved, onDelete }:
                                   min="0"
                                   value={v.sell_price || ''}
                                   onChange={(e) => updateVariant(v.id, 'sell_price', parseFloat(e.target.value) || 0)}
+                                  disabled={!canEditPrices}
                                   className="w-full rounded border border-[var(--border-default)] bg-[var(--surface-base)] pl-5 pr-1 py-1.5 text-sm text-right text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-primary)] min-h-[36px]"
                                 />
                               </div>
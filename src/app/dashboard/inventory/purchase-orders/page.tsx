@@ -0,0 +1,783 @@
+// ============================================================================
+// Purchase Orders Page — src/app/dashboard/inventory/purchase-orders/page.tsx
+// ============================================================================
+// Ordering from suppliers other than Sunstone. Without ?id: open and past
+// POs plus "New PO". With ?id: the PO — lines, PDF download, email to the
+// supplier, and receiving shipments with shipping spread into landed cost.
+// ============================================================================
+
+'use client';
+
+import { useEffect, useState, useMemo, useCallback, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { toast } from 'sonner';
+import { createClient } from '@/lib/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import {
+  Button,
+  Badge,
+  Card,
+  CardHeader,
+  CardTitle,
+  CardContent,
+  Input,
+  Select,
+  Modal,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from '@/components/ui';
+import { downloadPurchaseOrderPDF } from '@/lib/generate-po-pdf';
+import { getInventoryCosts, unitCostOf } from '@/lib/cost-layers';
+import {
+  landedUnitCosts,
+  purchaseOrderPdfData,
+  purchaseOrderStatus,
+  purchaseOrderSubtotal,
+} from '@/lib/purchase-orders';
+import type { InventoryUnit, PurchaseOrder, PurchaseOrderLine, PurchaseOrderSummary, Supplier } from '@/types';
+
+const money = (n: number) => `$${n.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const qty = (n: number) => String(Math.round(n * 100) / 100);
+
+interface StockOption {
+  key: string;
+  item_id: string;
+  variant_id: string | null;
+  name: string;
+  unit: InventoryUnit;
+  cost: number;
+  supplier_id: string | null;
+}
+
+interface DraftLine {
+  key: string;
+  quantity: string;
+  unit_cost: string;
+  supplier_sku: string;
+}
+
+// ============================================================================
+// PO editor (new or draft)
+// ============================================================================
+
+function PurchaseOrderEditor({
+  po,
+  onClose,
+  onSaved,
+}: {
+  po: PurchaseOrder | null;
+  onClose: () => void;
+  onSaved: (id: string) => void;
+}) {
+  const { tenant, can } = useTenant();
+  const canSeeCosts = can('costs:view');
+  const supabase = useMemo(() => createClient(), []);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [options, setOptions] = useState<StockOption[]>([]);
+  const [supplierId, setSupplierId] = useState(po?.supplier_id || '');
+  const [expectedDate, setExpectedDate] = useState(po?.expected_date || '');
+  const [shipping, setShipping] = useState(po ? String(po.shipping_cost) : '');
+  const [notes, setNotes] = useState(po?.notes || '');
+  const [lines, setLines] = useState<DraftLine[]>(() =>
+    (po?.lines || []).map((l) => ({
+      key: `${l.inventory_item_id}|${l.inventory_variant_id || ''}`,
+      quantity: String(l.quantity_ordered),
+      unit_cost: String(l.unit_cost),
+      supplier_sku: l.supplier_sku || '',
+    }))
+  );
+  const [adding, setAdding] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!tenant) return;
+    fetch('/api/suppliers')
+      .then((res) => (res.ok ? res.json() : []))
+      .then((data: Supplier[]) => setSuppliers(data.filter((s) => s.is_active && !s.is_sunstone)))
+      .catch(() => {});
+
+    Promise.all([
+      supabase
+        .from('inventory_items')
+        .select('id, name, unit, supplier_id, has_variants, inventory_item_variants(id, name, is_active)')
+        .eq('tenant_id', tenant.id)
+        .eq('is_active', true)
+        .order('name'),
+      // Lines start at the current cost when the role can see it
+      canSeeCosts
+        ? getInventoryCosts(supabase, tenant.id).catch(() => new Map<string, number>())
+        : Promise.resolve(new Map<string, number>()),
+    ]).then(([{ data }, costs]) => {
+      const opts: StockOption[] = [];
+      for (const item of (data || []) as any[]) {
+        const variants = (item.inventory_item_variants || []).filter((v: any) => v.is_active);
+        if (item.has_variants && variants.length > 0) {
+          for (const v of variants) {
+            opts.push({ key: `${item.id}|${v.id}`, item_id: item.id, variant_id: v.id, name: `${item.name} — ${v.name}`, unit: item.unit, cost: unitCostOf(costs, item.id, v.id), supplier_id: item.supplier_id });
+          }
+        } else {
+          opts.push({ key: `${item.id}|`, item_id: item.id, variant_id: null, name: item.name, unit: item.unit, cost: unitCostOf(costs, item.id, null), supplier_id: item.supplier_id });
+        }
+      }
+      setOptions(opts);
+    });
+  }, [tenant, supabase, canSeeCosts]);
+
+  const optionByKey = useMemo(() => new Map(options.map((o) => [o.key, o])), [options]);
+
+  // This supplier's items first, then everything else
+  const addOptions = useMemo(() => {
+    const taken = new Set(lines.map((l) => l.key));
+    const free = options.filter((o) => !taken.has(o.key));
+    const mine = free.filter((o) => o.supplier_id === supplierId);
+    const rest = free.filter((o) => o.supplier_id !== supplierId);
+    return [
+      { value: '', label: 'Add an item…' },
+      ...mine.map((o) => ({ value: o.key, label: o.name })),
+      ...rest.map((o) => ({ value: o.key, label: o.name })),
+    ];
+  }, [options, lines, supplierId]);
+
+  const handleAdd = (key: string) => {
+    const option = optionByKey.get(key);
+    if (!option) return;
+    setLines((prev) => [...prev, { key, quantity: '', unit_cost: option.cost ? String(option.cost) : '', supplier_sku: '' }]);
+    setAdding('');
+  };
+
+  const updateLine = (key: string, field: keyof DraftLine, value: string) =>
+    setLines((prev) => prev.map((l) => (l.key === key ? { ...l, [field]: value } : l)));
+
+  const subtotal = purchaseOrderSubtotal(
+    lines.map((l) => ({ quantity_ordered: Number(l.quantity) || 0, unit_cost: Number(l.unit_cost) || 0 }))
+  );
+  const valid = supplierId && lines.length > 0 && lines.every((l) => Number(l.quantity) > 0);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const payload = {
+        supplier_id: supplierId,
+        expected_date: expectedDate || null,
+        shipping_cost: Number(shipping) || 0,
+        notes,
+        lines: lines.map((l) => {
+          const option = optionByKey.get(l.key);
+          const [itemId, variantId] = l.key.split('|');
+          return {
+            inventory_item_id: option?.item_id || itemId,
+            inventory_variant_id: option?.variant_id || variantId || null,
+            quantity_ordered: Number(l.quantity),
+            unit_cost: l.unit_cost === '' ? null : Number(l.unit_cost),
+            supplier_sku: l.supplier_sku || null,
+          };
+        }),
+      };
+      const res = await fetch(po ? `/api/purchase-orders/${po.id}` : '/api/purchase-orders', {
+        method: po ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save purchase order');
+        return;
+      }
+      toast.success(po ? 'Purchase order updated' : `${data.po_number} created`);
+      onSaved(po?.id || data.id);
+      onClose();
+    } catch {
+      toast.error('Failed to save purchase order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} size="lg">
+      <ModalHeader>
+        <h2 className="text-lg font-semibold text-[var(--text-primary)]">{po ? `Edit ${po.po_number}` : 'New Purchase Order'}</h2>
+      </ModalHeader>
+      <ModalBody>
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Select
+              label="Supplier"
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+              disabled={!!po}
+              options={[{ value: '', label: 'Choose a supplier…' }, ...suppliers.map((s) => ({ value: s.id, label: s.name }))]}
+              helperText={suppliers.length === 0 ? 'Add suppliers in Settings → Suppliers.' : undefined}
+            />
+            <Input label="Expected by (optional)" type="date" value={expectedDate} onChange={(e) => setExpectedDate(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            {lines.map((l) => {
+              const option = optionByKey.get(l.key);
+              return (
+                <div key={l.key} className="rounded-lg border border-[var(--border-default)] p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium text-[var(--text-primary)] truncate">{option?.name || 'Item'}</span>
+                    <button
+                      onClick={() => setLines((prev) => prev.filter((x) => x.key !== l.key))}
+                      className="text-xs text-[var(--text-tertiary)] hover:text-error-500"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <Input
+                      label={`Qty (${option?.unit || 'each'})`}
+                      type="number"
+                      min="0"
+                      step="any"
+                      value={l.quantity}
+                      onChange={(e) => updateLine(l.key, 'quantity', e.target.value)}
+                    />
+                    <Input
+                      label="Unit cost ($)"
+                      type="number"
+                      min="0"
+                      step="0.0001"
+                      value={l.unit_cost}
+                      onChange={(e) => updateLine(l.key, 'unit_cost', e.target.value)}
+                    />
+                    <Input
+                      label="Supplier SKU"
+                      value={l.supplier_sku}
+                      onChange={(e) => updateLine(l.key, 'supplier_sku', e.target.value)}
+                      placeholder="Optional"
+                    />
+                  </div>
+                </div>
+              );
+            })}
+            <Select value={adding} onChange={(e) => handleAdd(e.target.value)} options={addOptions} />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Input
+              label="Expected shipping ($)"
+              type="number"
+              min="0"
+              step="0.01"
+              value={shipping}
+              onChange={(e) => setShipping(e.target.value)}
+              placeholder="0.00"
+            />
+            <div className="flex items-end justify-end pb-2 text-sm text-[var(--text-secondary)]">
+              Total {money(subtotal + (Number(shipping) || 0))}
+            </div>
+          </div>
+          <Input label="Notes for the supplier (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} />
+        </div>
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="ghost" onClick={onClose}>Cancel</Button>
+        <Button variant="primary" onClick={handleSave} loading={saving} disabled={!valid}>
+          {po ? 'Save' : 'Create Draft'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Receive a shipment
+// ============================================================================
+
+function ReceiveModal({
+  po,
+  onClose,
+  onReceived,
+}: {
+  po: PurchaseOrder;
+  onClose: () => void;
+  onReceived: () => void;
+}) {
+  const open = (po.lines || []).filter((l) => Number(l.quantity_received) < Number(l.quantity_ordered));
+  const [quantities, setQuantities] = useState<Record<string, string>>(() =>
+    Object.fromEntries(open.map((l) => [l.id, qty(Number(l.quantity_ordered) - Number(l.quantity_received))]))
+  );
+  const [costs, setCosts] = useState<Record<string, string>>(() =>
+    Object.fromEntries(open.map((l) => [l.id, String(l.unit_cost)]))
+  );
+  const [shipping, setShipping] = useState('');
+  const [updateCosts, setUpdateCosts] = useState(true);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const receiving = open
+    .map((l) => ({ line: l, quantity: Number(quantities[l.id]) || 0, unitCost: Number(costs[l.id]) || 0 }))
+    .filter((r) => r.quantity > 0);
+  const landed = landedUnitCosts(receiving, Number(shipping) || 0);
+  const landedById = new Map(receiving.map((r, i) => [r.line.id, landed[i]]));
+
+  const handleReceive = async () => {
+    setSaving(true);
+    try {
+      const res = await fetch(`/api/purchase-orders/${po.id}/receive`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          lines: receiving.map((r) => ({ line_id: r.line.id, quantity: r.quantity, unit_cost: r.unitCost })),
+          shipping_cost: Number(shipping) || 0,
+          update_costs: updateCosts,
+          notes,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to receive');
+        return;
+      }
+      toast.success(data.status === 'received' ? `${po.po_number} received in full` : `Received ${data.received} line${data.received !== 1 ? 's' : ''}`);
+      onReceived();
+      onClose();
+    } catch {
+      toast.error('Failed to receive');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} size="lg">
+      <ModalHeader>
+        <h2 className="text-lg font-semibold text-[var(--text-primary)]">Receive {po.po_number}</h2>
+      </ModalHeader>
+      <ModalBody>
+        <div className="space-y-4">
+          {open.map((l) => {
+            const outstanding = Number(l.quantity_ordered) - Number(l.quantity_received);
+            const landedCost = landedById.get(l.id);
+            return (
+              <div key={l.id} className="rounded-lg border border-[var(--border-default)] p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-[var(--text-primary)] truncate">{l.description}</span>
+                  <span className="text-xs text-[var(--text-tertiary)] shrink-0">{qty(outstanding)} {l.item?.unit || ''} outstanding</span>
+                </div>
+                <div className="grid grid-cols-2 gap-2">
+                  <Input
+                    label="Arrived"
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={quantities[l.id] ?? ''}
+                    onChange={(e) => setQuantities((q) => ({ ...q, [l.id]: e.target.value }))}
+                  />
+                  <Input
+                    label="Invoice unit cost ($)"
+                    type="number"
+                    min="0"
+                    step="0.0001"
+                    value={costs[l.id] ?? ''}
+                    onChange={(e) => setCosts((c) => ({ ...c, [l.id]: e.target.value }))}
+                    helperText={landedCost !== undefined && Number(shipping) > 0 ? `Landed ${money(landedCost)} / ${l.item?.unit || 'unit'}` : undefined}
+                  />
+                </div>
+              </div>
+            );
+          })}
+          <Input
+            label="Shipping on this delivery ($)"
+            type="number"
+            min="0"
+            step="0.01"
+            value={shipping}
+            onChange={(e) => setShipping(e.target.value)}
+            placeholder="0.00"
+            helperText="Spread across the items by value to get the landed cost per unit."
+          />
+          <label className="flex items-center gap-2 text-sm text-[var(--text-primary)]">
+            <input type="checkbox" checked={updateCosts} onChange={(e) => setUpdateCosts(e.target.checked)} className="h-4 w-4 accent-[var(--accent-primary)]" />
+            Update each item&apos;s cost per unit to its landed cost
+          </label>
+          <Input label="Note (optional)" value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Packing slip #, damaged items…" />
+        </div>
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="ghost" onClick={onClose}>Cancel</Button>
+        <Button variant="primary" onClick={handleReceive} loading={saving} disabled={receiving.length === 0}>
+          Receive {receiving.length > 0 ? `${receiving.length} line${receiving.length !== 1 ? 's' : ''}` : ''}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Email to supplier
+// ============================================================================
+
+function SendModal({ po, onClose, onSent }: { po: PurchaseOrder; onClose: () => void; onSent: () => void }) {
+  const [to, setTo] = useState(po.sent_to || po.supplier?.contact_email || '');
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+
+  const handleSend = async () => {
+    setSending(true);
+    try {
+      const res = await fetch(`/api/purchase-orders/${po.id}/send`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ to, message }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to send');
+        return;
+      }
+      toast.success(`${po.po_number} sent to ${data.to}`);
+      onSent();
+      onClose();
+    } catch {
+      toast.error('Failed to send');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} size="md">
+      <ModalHeader>
+        <h2 className="text-lg font-semibold text-[var(--text-primary)]">Email {po.po_number}</h2>
+      </ModalHeader>
+      <ModalBody>
+        <div className="space-y-4">
+          <Input label="To" type="email" value={to} onChange={(e) => setTo(e.target.value)} placeholder="orders@supplier.com" />
+          <div>
+            <label className="block text-sm font-medium text-[var(--text-primary)] mb-1.5">Message (optional)</label>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={4}
+              placeholder="Please find our purchase order attached…"
+              className="w-full px-3 py-2 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)]"
+            />
+          </div>
+          <p className="text-xs text-[var(--text-tertiary)]">The PO is attached as a PDF. Replies come to your email.</p>
+        </div>
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="ghost" onClick={onClose}>Cancel</Button>
+        <Button variant="primary" onClick={handleSend} loading={sending} disabled={!to.trim()}>Send</Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// PO list
+// ============================================================================
+
+function PurchaseOrderList() {
+  const router = useRouter();
+  const { can } = useTenant();
+  const [filter, setFilter] = useState<'open' | 'all'>('open');
+  const [orders, setOrders] = useState<PurchaseOrderSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    setLoading(true);
+    fetch(`/api/purchase-orders${filter === 'open' ? '?status=open' : ''}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (res.ok) setOrders(data);
+        else toast.error(data.error || 'Failed to load purchase orders');
+      })
+      .catch(() => toast.error('Failed to load purchase orders'))
+      .finally(() => setLoading(false));
+  }, [filter]);
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex rounded-lg border border-[var(--border-default)] overflow-hidden">
+              {(['open', 'all'] as const).map((f) => (
+                <button
+                  key={f}
+                  onClick={() => setFilter(f)}
+                  className={`px-3 py-1.5 text-xs font-medium min-h-[36px] ${
+                    f === filter ? 'bg-[var(--accent-primary)] text-white' : 'text-[var(--text-secondary)] hover:bg-[var(--surface-raised)]'
+                  }`}
+                >
+                  {f === 'open' ? 'Open' : 'All'}
+                </button>
+              ))}
+            </div>
+            {can('inventory:edit') && (
+              <Button variant="primary" size="sm" onClick={() => setCreating(true)}>+ New PO</Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-0">
+          {loading ? (
+            <div className="py-8 text-center">
+              <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+            </div>
+          ) : orders.length === 0 ? (
+            <p className="py-6 text-center text-sm text-[var(--text-tertiary)]">
+              {filter === 'open' ? 'No open purchase orders.' : 'No purchase orders yet.'}
+            </p>
+          ) : (
+            orders.map((po) => {
+              const status = purchaseOrderStatus(po.status);
+              return (
+                <button
+                  key={po.id}
+                  onClick={() => router.push(`/dashboard/inventory/purchase-orders?id=${po.id}`)}
+                  className="w-full flex items-center justify-between gap-3 py-3 border-b border-[var(--border-subtle)] last:border-b-0 text-left min-h-[56px]"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-[var(--text-primary)] truncate">
+                      {po.po_number} · {po.supplier?.name || 'Supplier'}
+                    </p>
+                    <p className="text-xs text-[var(--text-tertiary)]">
+                      {new Date(`${po.order_date}T12:00:00`).toLocaleDateString()} · {po.line_count} line{po.line_count !== 1 ? 's' : ''}
+                      {po.expected_date && ` · expected ${new Date(`${po.expected_date}T12:00:00`).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <span className="text-sm text-[var(--text-primary)]">{money(po.total)}</span>
+                    <Badge variant={status.variant} size="sm">{status.label}</Badge>
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      {creating && (
+        <PurchaseOrderEditor
+          po={null}
+          onClose={() => setCreating(false)}
+          onSaved={(id) => router.push(`/dashboard/inventory/purchase-orders?id=${id}`)}
+        />
+      )}
+    </>
+  );
+}
+
+// ============================================================================
+// PO detail
+// ============================================================================
+
+function PurchaseOrderDetail({ poId }: { poId: string }) {
+  const router = useRouter();
+  const { tenant, can } = useTenant();
+  const [po, setPo] = useState<PurchaseOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [modal, setModal] = useState<'edit' | 'receive' | 'send' | null>(null);
+  const [acting, setActing] = useState(false);
+  const canEdit = can('inventory:edit');
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/purchase-orders/${poId}`);
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to load purchase order');
+        return;
+      }
+      setPo(data);
+    } catch {
+      toast.error('Failed to load purchase order');
+    } finally {
+      setLoading(false);
+    }
+  }, [poId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const runAction = async (action: 'mark_sent' | 'cancel' | 'close') => {
+    if (action === 'cancel' && !confirm('Cancel this purchase order?')) return;
+    setActing(true);
+    try {
+      const res = await fetch(`/api/purchase-orders/${poId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await res.json();
+      if (!res.ok) toast.error(data.error || 'Failed to update');
+      else load();
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm('Delete this draft?')) return;
+    const res = await fetch(`/api/purchase-orders/${poId}`, { method: 'DELETE' });
+    const data = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      toast.error(data.error || 'Failed to delete');
+      return;
+    }
+    toast.success('Draft deleted');
+    router.push('/dashboard/inventory/purchase-orders');
+  };
+
+  if (loading) {
+    return (
+      <div className="py-12 text-center">
+        <div className="inline-block h-6 w-6 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+      </div>
+    );
+  }
+  if (!po) return <p className="text-sm text-[var(--text-tertiary)]">Purchase order not found.</p>;
+
+  const status = purchaseOrderStatus(po.status);
+  const lines = po.lines || [];
+  const receipts = po.receipts || [];
+  const subtotal = purchaseOrderSubtotal(lines);
+  const isOpen = ['draft', 'sent', 'partially_received'].includes(po.status);
+  const lineById = new Map<string, PurchaseOrderLine>(lines.map((l) => [l.id, l]));
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-3">
+            <div>
+              <div className="flex items-center gap-2">
+                <CardTitle>{po.po_number}</CardTitle>
+                <Badge variant={status.variant} size="sm">{status.label}</Badge>
+              </div>
+              <p className="text-sm text-[var(--text-secondary)] mt-1">{po.supplier?.name}</p>
+              <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+                Ordered {new Date(`${po.order_date}T12:00:00`).toLocaleDateString()}
+                {po.expected_date && ` · expected ${new Date(`${po.expected_date}T12:00:00`).toLocaleDateString()}`}
+                {po.sent_at && ` · emailed to ${po.sent_to} ${new Date(po.sent_at).toLocaleDateString()}`}
+              </p>
+            </div>
+            <Button
+              variant="secondary"
+              size="sm"
+              onClick={() => tenant && downloadPurchaseOrderPDF(purchaseOrderPdfData(po, tenant))}
+            >
+              PDF
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-0">
+          {lines.map((l) => {
+            const received = Number(l.quantity_received);
+            const ordered = Number(l.quantity_ordered);
+            return (
+              <div key={l.id} className="flex items-center justify-between gap-3 py-2 border-b border-[var(--border-subtle)] last:border-b-0">
+                <div className="min-w-0">
+                  <p className="text-sm text-[var(--text-primary)] truncate">{l.description}</p>
+                  <p className="text-xs text-[var(--text-tertiary)]">
+                    {l.supplier_sku && `${l.supplier_sku} · `}
+                    {qty(ordered)} {l.item?.unit || ''} × {money(Number(l.unit_cost))}
+                    {received > 0 && (
+                      <span className={received >= ordered ? 'text-success-600' : ''}> · {qty(received)} received</span>
+                    )}
+                  </p>
+                </div>
+                <span className="text-sm text-[var(--text-primary)] shrink-0">{money(ordered * Number(l.unit_cost))}</span>
+              </div>
+            );
+          })}
+          <div className="pt-3 space-y-1 text-sm">
+            <div className="flex justify-between text-[var(--text-secondary)]"><span>Subtotal</span><span>{money(subtotal)}</span></div>
+            {Number(po.shipping_cost) > 0 && (
+              <div className="flex justify-between text-[var(--text-secondary)]"><span>Shipping (est.)</span><span>{money(Number(po.shipping_cost))}</span></div>
+            )}
+            <div className="flex justify-between font-semibold text-[var(--text-primary)]"><span>Total</span><span>{money(subtotal + Number(po.shipping_cost))}</span></div>
+          </div>
+          {po.notes && <p className="pt-3 text-xs text-[var(--text-tertiary)]">{po.notes}</p>}
+        </CardContent>
+      </Card>
+
+      {canEdit && isOpen && (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="primary" onClick={() => setModal('receive')}>Receive</Button>
+          <Button variant="secondary" onClick={() => setModal('send')}>Email to Supplier</Button>
+          {po.status === 'draft' && (
+            <Button variant="secondary" onClick={() => runAction('mark_sent')} loading={acting}>Mark as Sent</Button>
+          )}
+          {receipts.length === 0 && <Button variant="ghost" onClick={() => setModal('edit')}>Edit</Button>}
+          {po.status === 'partially_received' && (
+            <Button variant="ghost" onClick={() => runAction('close')} loading={acting}>Close Short</Button>
+          )}
+          {receipts.length === 0 && po.status !== 'draft' && (
+            <Button variant="ghost" onClick={() => runAction('cancel')} loading={acting}>Cancel PO</Button>
+          )}
+          {po.status === 'draft' && <Button variant="ghost" onClick={handleDelete}>Delete</Button>}
+        </div>
+      )}
+
+      {receipts.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Receipts</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-0">
+            {receipts.map((r) => (
+              <div key={r.id} className="py-2 border-b border-[var(--border-subtle)] last:border-b-0">
+                <p className="text-sm text-[var(--text-primary)]">
+                  {new Date(r.received_at).toLocaleDateString()}
+                  {Number(r.shipping_cost) > 0 && ` · ${money(Number(r.shipping_cost))} shipping`}
+                  {r.updated_costs && ' · costs updated'}
+                </p>
+                <p className="text-xs text-[var(--text-tertiary)]">
+                  {(r.lines || []).map((rl) => {
+                    const line = lineById.get(rl.line_id);
+                    return `${qty(Number(rl.quantity))} ${line?.item?.unit || ''} ${line?.description || 'item'} @ ${money(Number(rl.landed_unit_cost))} landed`;
+                  }).join(', ')}
+                  {r.notes && ` · ${r.notes}`}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {modal === 'edit' && <PurchaseOrderEditor po={po} onClose={() => setModal(null)} onSaved={() => load()} />}
+      {modal === 'receive' && <ReceiveModal po={po} onClose={() => setModal(null)} onReceived={load} />}
+      {modal === 'send' && <SendModal po={po} onClose={() => setModal(null)} onSent={load} />}
+    </div>
+  );
+}
+
+// ============================================================================
+// Page
+// ============================================================================
+
+function PurchaseOrdersPage() {
+  const searchParams = useSearchParams();
+  const poId = searchParams.get('id');
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div>
+        <Link
+          href={poId ? '/dashboard/inventory/purchase-orders' : '/dashboard/inventory'}
+          className="text-sm text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
+        >
+          ← {poId ? 'All purchase orders' : 'Inventory'}
+        </Link>
+        <h1 className="text-2xl font-bold text-[var(--text-primary)] mt-1">Purchase Orders</h1>
+      </div>
+      {poId ? <PurchaseOrderDetail poId={poId} /> : <PurchaseOrderList />}
+    </div>
+  );
+}
+
+export default function PurchaseOrdersPageWrapper() {
+  return (
+    <Suspense fallback={<div className="flex items-center justify-center min-h-screen"><p className="text-[var(--text-secondary)]">Loading...</p></div>}>
+      <PurchaseOrdersPage />
+    </Suspense>
+  );
+}
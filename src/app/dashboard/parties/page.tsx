@@ -875,7 +875,7 @@ export default function PartiesPage() {
                             <span className={`text-[10px] font-medium ${timeColor}`}>{timeLabel}</span>
                             {isSkipped && msg.skip_reason && (
                               <span className="text-[10px] text-amber-600">
-                                ({msg.skip_reason === 'booked_own_party' ? 'booked a party' : msg.skip_reason === 'made_purchase' ? 'made a purchase' : msg.skip_reason})
+                                ({msg.skip_reason === 'booked_own_party' ? 'booked a party' : msg.skip_reason === 'made_purchase' ? 'made a purchase' : msg.skip_reason === 'sms_opted_out' ? 'opted out of texts' : msg.skip_reason})
                               </span>
                             )}
                             {isPending && (
@@ -21,12 +21,13 @@ import { Button } from '@/components/ui/Button';
 import { Modal, ModalHeader, ModalBody, ModalFooter } from '@/components/ui/Modal';
 import { QRCode, FullScreenQR } from '@/components/QRCode';
 import CartPanel from '@/components/CartPanel';
-import { ProductSelector, QueueBadge, CheckoutFlow, PendingPayments, GiftCardModal, SalesPanel } from '@/components/pos';
+import { ProductSelector, QueueBadge, CheckoutFlow, PendingPayments, GiftCardModal, SalesPanel, TimeClockButton } from '@/components/pos';
 import type { CompletedSaleData, CheckoutStep, GiftCardData } from '@/components/pos';
 import { calculateJumpRingNeeds, getLowStockWarnings } from '@/lib/jump-rings';
 import SunnyTutorial from '@/components/SunnyTutorial';
 import CashDrawerPanel from '@/components/CashDrawerPanel';
 import { createWarrantyRecords } from '@/lib/warranty';
+import { resolveTimeZone, startOfDayInZone } from '@/lib/timezone';
 import type {
   InventoryItem,
   InventoryItemVariant,
@@ -97,7 +98,7 @@ export default function StoreModePage() {
     const ids = items.filter((i) => i.has_variants && i.type !== 'chain').map((i) => i.id);
     if (!ids.length) { setItemVariants({}); return; }
     const { data } = await supabase
-      .from('inventory_item_variants').select('*')
+      .from('inventory_item_variants_without_cost').select('*')
       .in('inventory_item_id', ids).eq('is_active', true)
       .order('sort_order').order('name');
     const map: Record<string, InventoryItemVariant[]> = {};
@@ -114,18 +115,19 @@ export default function StoreModePage() {
     if (!tenant) return;
     const load = async () => {
       const { data: taxProfiles } = await supabase
-        .from('tax_profiles').select('*').eq('tenant_id', tenant.id).eq('is_default', true).limit(1);
+        .from('tax_profiles').select('*, tax_profile_components(*)').eq('tenant_id', tenant.id).eq('is_default', true).limit(1);
       if (taxProfiles?.[0]) {
         setTaxProfile(taxProfiles[0] as TaxProfile);
-        cart.setTaxRate(Number(taxProfiles[0].rate));
+        cart.setTaxProfile(taxProfiles[0] as TaxProfile);
       } else {
         const { data: anyTax } = await supabase
-          .from('tax_profiles').select('*').eq('tenant_id', tenant.id).limit(1);
-        if (anyTax?.[0]) { setTaxProfile(anyTax[0] as TaxProfile); cart.setTaxRate(Number(anyTax[0].rate)); }
+          .from('tax_profiles').select('*, tax_profile_components(*)').eq('tenant_id', tenant.id).limit(1);
+        if (anyTax?.[0]) { setTaxProfile(anyTax[0] as TaxProfile); cart.setTaxProfile(anyTax[0] as TaxProfile); }
       }
+      cart.setTaxInclusive(tenant.tax_inclusive === true);
 
       const { data: items } = await supabase
-        .from('inventory_items').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
+        .from('inventory_items_without_cost').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
       const allItems = (items || []) as InventoryItem[];
       setInventory(allItems);
       loadVariants(allItems);
@@ -133,6 +135,7 @@ export default function StoreModePage() {
       const { data: pts } = await supabase
         .from('product_types').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('sort_order');
       setProductTypes((pts || []) as ProductType[]);
+      cart.setTaxExemptProductTypes(((pts || []) as ProductType[]).filter((pt) => pt.tax_exempt).map((pt) => pt.id));
 
       const { data: prices } = await supabase
         .from('chain_product_prices').select('*').eq('tenant_id', tenant.id).eq('is_active', true);
@@ -148,7 +151,7 @@ export default function StoreModePage() {
       cart.setFeeHandling(tenant.fee_handling);
       cart.setWarrantyTaxable((tenant as any).warranty_taxable !== false);
 
-      const today = new Date(); today.setHours(0, 0, 0, 0);
+      const today = startOfDayInZone(new Date(), resolveTimeZone(tenant));
       const { data: sales } = await supabase
         .from('sales').select('total').eq('tenant_id', tenant.id).is('event_id', null).eq('status', 'completed').eq('payment_status', 'completed').gte('created_at', today.toISOString());
       if (sales) setTodaySales({ count: sales.length, total: sales.reduce((s, r) => s + Number(r.total), 0) });
@@ -261,27 +264,19 @@ export default function StoreModePage() {
     try {
       const { data: { user } } = await supabase.auth.getUser();
 
-      const saleItems = cart.items.map((item) => {
-        const inv = inventory.find((i) => i.id === item.inventory_item_id);
-        const chainMaterialCost = inv?.type === 'chain' && item.inches_used
-          ? Number(inv.cost_per_unit) * item.inches_used
-          : 0;
-        return {
-          inventory_item_id: item.inventory_item_id || null,
-          inventory_variant_id: item.inventory_variant_id || null,
-          name: item.name,
-          quantity: item.quantity,
-          unit_price: item.unit_price,
-          discount_type: item.discount_type || null,
-          discount_value: item.discount_value || 0,
-          line_total: item.line_total,
-          product_type_id: item.product_type_id || null,
-          product_type_name: item.product_type_name || null,
-          inches_used: item.inches_used || null,
-          chain_material_cost: chainMaterialCost || null,
-          jump_ring_cost: null,
-        };
-      });
+      const saleItems = cart.items.map((item) => ({
+        inventory_item_id: item.inventory_item_id || null,
+        inventory_variant_id: item.inventory_variant_id || null,
+        name: item.name,
+        quantity: item.quantity,
+        unit_price: item.unit_price,
+        discount_type: item.discount_type || null,
+        discount_value: item.discount_value || 0,
+        line_total: item.line_total,
+        product_type_id: item.product_type_id || null,
+        product_type_name: item.product_type_name || null,
+        inches_used: item.inches_used || null,
+      }));
 
       // No inventory deductions for pending sales — webhook deducts on payment completion
       const { data: saleId, error: rpcError } = await supabase.rpc('create_sale_transaction', {
@@ -307,6 +302,10 @@ export default function StoreModePage() {
         p_items: saleItems,
         p_inventory_deductions: [],
         p_queue_entry_id: activeQueueEntry?.id || null,
+        p_tax_profile_id: taxProfile?.id || null,
+        p_tax_inclusive: cart.tax_inclusive,
+        p_tax_lines: cart.tax_lines,
+        p_loyalty_reward_id: cart.loyalty_reward?.reward_id || null,
       });
       if (rpcError) throw rpcError;
 
@@ -382,7 +381,7 @@ export default function StoreModePage() {
     setQueueRefresh((n) => n + 1);
     toast.success('Payment received!');
 
-    const { data: refreshed } = await supabase.from('inventory_items').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
+    const { data: refreshed } = await supabase.from('inventory_items_without_cost').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
     if (refreshed) { setInventory(refreshed as InventoryItem[]); loadVariants(refreshed as InventoryItem[]); }
   };
 
@@ -403,14 +402,7 @@ export default function StoreModePage() {
       const jumpRingResolutions = calculateJumpRingNeeds(cart.items, jumpRingInventory);
 
       const saleItems = cart.items.map((item) => {
-        const inv = inventory.find((i) => i.id === item.inventory_item_id);
-        const chainMaterialCost = inv?.type === 'chain' && item.inches_used
-          ? Number(inv.cost_per_unit) * item.inches_used
-          : 0;
         const resolution = jumpRingResolutions.find((r: JumpRingResolution) => r.cart_item_id === item.id);
-        const jumpRingCost = resolution
-          ? resolution.jump_ring_cost_each * resolution.jump_rings_needed
-          : 0;
         return {
           inventory_item_id: item.inventory_item_id || null,
           inventory_variant_id: item.inventory_variant_id || null,
@@ -423,8 +415,9 @@ export default function StoreModePage() {
           product_type_id: item.product_type_id || null,
           product_type_name: item.product_type_name || null,
           inches_used: item.inches_used || null,
-          chain_material_cost: chainMaterialCost || null,
-          jump_ring_cost: jumpRingCost || null,
+          // Costed in create_sale_transaction
+          jump_ring_item_id: resolution?.jump_ring_inventory_id || null,
+          jump_rings_needed: resolution?.jump_rings_needed || null,
         };
       });
 
@@ -460,6 +453,10 @@ export default function StoreModePage() {
         p_items: saleItems,
         p_inventory_deductions: deductions,
         p_queue_entry_id: activeQueueEntry?.id || null,
+        p_tax_profile_id: taxProfile?.id || null,
+        p_tax_inclusive: cart.tax_inclusive,
+        p_tax_lines: cart.tax_lines,
+        p_loyalty_reward_id: cart.loyalty_reward?.reward_id || null,
       });
       if (rpcError) throw rpcError;
       if (!saleId) throw new Error('Failed to create sale');
@@ -603,7 +600,7 @@ export default function StoreModePage() {
         } catch { /* non-critical */ }
       }
 
-      const { data: refreshed } = await supabase.from('inventory_items').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
+      const { data: refreshed } = await supabase.from('inventory_items_without_cost').select('*').eq('tenant_id', tenant.id).eq('is_active', true).order('type').order('name');
       if (refreshed) { setInventory(refreshed as InventoryItem[]); loadVariants(refreshed as InventoryItem[]); }
     } catch (err: any) { toast.error(err?.message || 'Sale failed'); }
     finally { setProcessing(false); }
@@ -649,8 +646,12 @@ export default function StoreModePage() {
             onStartSale={handleQueueStartSale}
             isServingActive={!!activeQueueEntry}
             refreshTrigger={queueRefresh}
+            timeZone={resolveTimeZone(tenant)}
           />
 
+          {/* Time Clock */}
+          <TimeClockButton timeZone={resolveTimeZone(tenant)} />
+
           {/* Cash Drawer */}
           <CashDrawerPanel
             tenantId={tenant.id}
@@ -800,6 +801,10 @@ export default function StoreModePage() {
               receiptPhone={receiptPhone}
               mode="store"
               onGiftCardApplied={(data) => setGiftCardData(data)}
+              clientId={cart.client_id}
+              loyaltyReward={cart.loyalty_reward}
+              loyaltyDiscount={cart.loyalty_discount_amount}
+              onLoyaltyRewardChange={cart.applyLoyaltyReward}
               onContinueToPayment={() => setStep('payment')}
               completedSale={completedSale}
               receiptConfig={receiptConfig}
@@ -937,6 +942,7 @@ export default function StoreModePage() {
           tenantId={tenant.id}
           eventId={null}
           mode="store"
+          timeZone={resolveTimeZone(tenant)}
         />
       )}
 
@@ -5,7 +5,9 @@
 // FIXED: Platform fee bug (only count absorbed fees as costs)
 // FIXED: Revenue uses subtotal+tax+tip (not sale.total)
 // FIXED: COGS uses snapshotted chain_material_cost + jump_ring_cost from sale_items
+// UPDATED: Material COGS uses the layered cost_snapshot when the sale has one
 // ADDED: Materials COGS breakdown display (chain material + jump rings)
+// ADDED: Labor cost from staff hours at the event (rate snapshotted per row)
 // FIXED: CSV export with corrected calculations + COGS columns
 // ============================================================================
 
@@ -25,6 +27,7 @@ import {
   Badge,
 } from '@/components/ui';
 import type { Event, Sale, SaleItem, Refund } from '@/types';
+import { saleItemMaterialCost } from '@/lib/cost-layers';
 import ExpensesSection from '@/components/reports/ExpensesSection';
 import type { ExpenseTotals } from '@/components/reports/ExpensesSection';
 
@@ -44,9 +47,12 @@ interface EventPL {
   totalRefunds: number;
   netRevenue: number;
   boothFee: number;
+  laborCost: number;
+  laborHours: number;
   costOfGoods: number;
   chainMaterialCost: number;
   jumpRingCost: number;
+  cogsReversed: number;
   netProfit: number;
   salesCount: number;
   avgSaleValue: number;
@@ -112,15 +118,17 @@ function exportCSV(report: EventPL, expenses: ExpenseTotals, cashDrawer?: { open
 
   // Costs
   lines.push('COSTS');
-  if (report.chainMaterialCost > 0) lines.push(`Chain Material,${report.chainMaterialCost.toFixed(2)}`);
+  if (report.chainMaterialCost > 0) lines.push(`Materials,${report.chainMaterialCost.toFixed(2)}`);
   if (report.jumpRingCost > 0) lines.push(`Jump Rings,${report.jumpRingCost.toFixed(2)}`);
+  if (report.cogsReversed > 0) lines.push(`Restocked from Refunds,-${report.cogsReversed.toFixed(2)}`);
   lines.push(`Total COGS,${report.costOfGoods.toFixed(2)}`);
   lines.push(`Booth Fee,${report.boothFee.toFixed(2)}`);
+  if (report.laborCost > 0) lines.push(`Labor (${report.laborHours.toFixed(2)} hrs),${report.laborCost.toFixed(2)}`);
   if (expenses.total > 0) {
     lines.push(`Other Expenses,${expenses.total.toFixed(2)}`);
   }
   lines.push(`Platform Fees (Absorbed),${report.totalPlatformFees.toFixed(2)}`);
-  lines.push(`Total Costs,${(report.costOfGoods + report.boothFee + report.totalPlatformFees + expenses.total).toFixed(2)}`);
+  lines.push(`Total Costs,${(report.costOfGoods + report.boothFee + report.laborCost + report.totalPlatformFees + expenses.total).toFixed(2)}`);
   lines.push('');
 
   // Profit
@@ -163,11 +171,11 @@ function exportCSV(report: EventPL, expenses: ExpenseTotals, cashDrawer?: { open
 
   // Individual sales — FIXED: include chain_material_cost and jump_ring_cost
   lines.push('INDIVIDUAL SALES');
-  lines.push('Sale #,Time,Items,Payment Method,Subtotal,Tax,Tip,Platform Fee,Fee Type,Chain Cost,JR Cost,Total');
+  lines.push('Sale #,Time,Items,Payment Method,Subtotal,Tax,Tip,Platform Fee,Fee Type,Material Cost,JR Cost,Total');
   report.sales.forEach((sale, idx) => {
     const items = (sale.sale_items || []).map((i) => i.name).join('; ') || '–';
     const feeHandling = (sale as any).fee_handling || 'absorb';
-    const saleChainCost = (sale.sale_items || []).reduce((s, i) => s + (Number((i as any).chain_material_cost) || 0), 0);
+    const saleChainCost = (sale.sale_items || []).reduce((s, i) => s + saleItemMaterialCost(i as any), 0);
     const saleJRCost = (sale.sale_items || []).reduce((s, i) => s + (Number((i as any).jump_ring_cost) || 0), 0);
     lines.push([
       idx + 1,
@@ -260,7 +268,7 @@ function EventPLReportPage() {
     setLoading(true);
 
     // NOTE: fee_handling included via * wildcard. sale_items includes chain_material_cost and jump_ring_cost
-    const [eventRes, salesRes, refundsRes] = await Promise.all([
+    const [eventRes, salesRes, refundsRes, hoursRes] = await Promise.all([
       supabase.from('events').select('*').eq('id', evId).single(),
       supabase
         .from('sales')
@@ -270,10 +278,11 @@ function EventPLReportPage() {
         .in('payment_status', ['completed'])
         .order('created_at', { ascending: true }),
       Promise.resolve(
-        supabase.from('refunds').select('*, sale:sales!inner(event_id)')
+        supabase.from('refunds').select('*, refund_items(cogs_reversed), sale:sales!inner(event_id)')
           .eq('tenant_id', tenant.id)
           .eq('sale.event_id', evId)
       ).catch(() => ({ data: null, error: { message: 'refunds table not available' } })),
+      supabase.from('staff_hours').select('hours, hourly_rate').eq('event_id', evId),
     ]);
 
     if (!eventRes.data) { setLoading(false); return; }
@@ -282,6 +291,9 @@ function EventPLReportPage() {
     const sales = (salesRes.data || []) as (Sale & { sale_items: SaleItem[] })[];
     const eventRefunds = (refundsRes.data || []) as any[];
     const totalRefunds = eventRefunds.reduce((sum: number, r: any) => sum + Number(r.amount), 0);
+    // Chain material returned to stock by item-level refunds
+    const cogsReversed = eventRefunds.reduce((sum: number, r: any) =>
+      sum + (r.refund_items || []).reduce((s: number, ri: any) => s + (Number(ri.cogs_reversed) || 0), 0), 0);
 
     let totalSubtotal = 0;
     let totalTax = 0;
@@ -322,7 +334,7 @@ function EventPLReportPage() {
         const qty = Number(item.quantity);
         const lineTotal = Number(item.line_total);
 
-        chainMaterialCost += Number((item as any).chain_material_cost) || 0;
+        chainMaterialCost += saleItemMaterialCost(item as any);
         jumpRingCost += Number((item as any).jump_ring_cost) || 0;
 
         const key = item.name;
@@ -338,13 +350,18 @@ function EventPLReportPage() {
 
     const boothFee = Number(event.booth_fee) || 0;
 
+    // Labor: hours worked at the event (clocked or logged) at each member's rate
+    const eventHours = (hoursRes.data || []) as { hours: number; hourly_rate: number | null }[];
+    const laborHours = eventHours.reduce((sum, h) => sum + Number(h.hours), 0);
+    const laborCost = eventHours.reduce((sum, h) => sum + Number(h.hours) * (Number(h.hourly_rate) || 0), 0);
+
     // FIX: Revenue = subtotal + tax + tip (not sale.total)
     const totalRevenue = totalSubtotal + totalTax + totalTips;
-    const costOfGoods = chainMaterialCost + jumpRingCost;
+    const costOfGoods = chainMaterialCost + jumpRingCost - cogsReversed;
     const netRevenue = totalRevenue - totalRefunds;
 
-    // Net Profit = subtotal - refunds - COGS - booth fee - absorbed platform fees - expenses
-    const netProfit = totalSubtotal - totalRefunds - costOfGoods - boothFee - totalPlatformFees - expenseTotals.total;
+    // Net Profit = subtotal - refunds - COGS - booth fee - labor - absorbed platform fees - expenses
+    const netProfit = totalSubtotal - totalRefunds - costOfGoods - boothFee - laborCost - totalPlatformFees - expenseTotals.total;
     const salesCount = sales.length;
     const avgSaleValue = salesCount > 0 ? totalRevenue / salesCount : 0;
 
@@ -355,8 +372,8 @@ function EventPLReportPage() {
     setReport({
       event, sales, totalRevenue, totalSubtotal, totalTax, totalTips,
       totalPlatformFees, totalDiscounts, totalRefunds, netRevenue,
-      boothFee, costOfGoods,
-      chainMaterialCost, jumpRingCost,
+      boothFee, laborCost, laborHours, costOfGoods,
+      chainMaterialCost, jumpRingCost, cogsReversed,
       netProfit, salesCount, avgSaleValue, paymentBreakdown, topItems,
     });
 
@@ -458,14 +475,16 @@ function EventPLReportPage() {
                 {report.event.location && ` · ${report.event.location}`}
               </p>
             </div>
-            <Button variant="secondary" size="sm" onClick={() => exportCSV(report, expenseTotals, cashDrawerSummary)}>
-              <span className="flex items-center gap-1.5">
-                <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
-                </svg>
-                Export
-              </span>
-            </Button>
+            {can('data:export') && (
+              <Button variant="secondary" size="sm" onClick={() => exportCSV(report, expenseTotals, cashDrawerSummary)}>
+                <span className="flex items-center gap-1.5">
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                    <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+                  </svg>
+                  Export
+                </span>
+              </Button>
+            )}
           </div>
 
           {/* KPI Cards */}
@@ -526,11 +545,11 @@ function EventPLReportPage() {
                 <ReportRow label="Cost of Goods" value={money(report.costOfGoods)} negative />
 
                 {/* Materials COGS Breakdown */}
-                {(report.chainMaterialCost > 0 || report.jumpRingCost > 0) && (
+                {(report.chainMaterialCost > 0 || report.jumpRingCost > 0 || report.cogsReversed > 0) && (
                   <div className="ml-4 mb-1">
                     {report.chainMaterialCost > 0 && (
                       <div className="flex items-center justify-between py-1">
-                        <span className="text-xs text-text-tertiary">Chain material</span>
+                        <span className="text-xs text-text-tertiary">Materials</span>
                         <span className="text-xs text-text-tertiary">{money(report.chainMaterialCost)}</span>
                       </div>
                     )}
@@ -540,10 +559,23 @@ function EventPLReportPage() {
                         <span className="text-xs text-text-tertiary">{money(report.jumpRingCost)}</span>
                       </div>
                     )}
+                    {report.cogsReversed > 0 && (
+                      <div className="flex items-center justify-between py-1">
+                        <span className="text-xs text-text-tertiary">Restocked from refunds</span>
+                        <span className="text-xs text-text-tertiary">-{money(report.cogsReversed)}</span>
+                      </div>
+                    )}
                   </div>
                 )}
 
                 <ReportRow label="Booth Fee" value={money(report.boothFee)} negative />
+                {report.laborHours > 0 && (
+                  <ReportRow
+                    label={`Labor (${+report.laborHours.toFixed(2)} hrs)`}
+                    value={money(report.laborCost)}
+                    negative
+                  />
+                )}
                 {expenseTotals.total > 0 && (
                   <ReportRow label="Other Expenses" value={money(expenseTotals.total)} negative />
                 )}
@@ -551,7 +583,7 @@ function EventPLReportPage() {
                 <div className="border-t border-[var(--border-default)] mt-1 pt-3">
                   <ReportRow
                     label="Total Costs"
-                    value={money(report.costOfGoods + report.boothFee + report.totalPlatformFees + expenseTotals.total)}
+                    value={money(report.costOfGoods + report.boothFee + report.laborCost + report.totalPlatformFees + expenseTotals.total)}
                     bold
                     negative
                   />
@@ -4,6 +4,7 @@
 // FIXED: Platform fee bug (only count absorbed fees as costs)
 // FIXED: Revenue uses subtotal+tax+tip (not sale.total)
 // FIXED: COGS uses snapshotted chain_material_cost + jump_ring_cost from sale_items
+// UPDATED: Material COGS uses the layered cost_snapshot when the sale has one
 // ADDED: Materials COGS breakdown display (chain material + jump rings)
 // FIXED: CSV export with corrected calculations + COGS columns
 // ============================================================================
@@ -13,7 +14,15 @@
 import { useEffect, useState, useMemo } from 'react';
 import { createClient } from '@/lib/supabase/client';
 import { useTenant } from '@/hooks/use-tenant';
-import { format, startOfYear, startOfMonth, subMonths, startOfQuarter, endOfQuarter } from 'date-fns';
+import { format, startOfQuarter, endOfQuarter } from 'date-fns';
+import {
+  getZonedParts,
+  resolveTimeZone,
+  startOfMonthInZone,
+  startOfYearInZone,
+  toLocalDateString,
+  zonedTimeToUtc,
+} from '@/lib/timezone';
 import { useRouter } from 'next/navigation';
 import {
   Button,
@@ -25,12 +34,16 @@ import {
   Input,
 } from '@/components/ui';
 import type { Event, Sale, SaleItem, Refund } from '@/types';
+import { saleItemMaterialCost } from '@/lib/cost-layers';
 import { PLATFORM_FEE_RATES } from '@/types';
 import UpgradePrompt from '@/components/ui/UpgradePrompt';
 import SunnyTutorial from '@/components/SunnyTutorial';
 import ExpensesSection from '@/components/reports/ExpensesSection';
 import type { ExpenseTotals } from '@/components/reports/ExpensesSection';
 import TransactionList from '@/components/reports/TransactionList';
+import GiftCardLiabilitySection from '@/components/reports/GiftCardLiabilitySection';
+import SalesTaxSection from '@/components/reports/SalesTaxSection';
+import AccountingExportModal from '@/components/reports/AccountingExportModal';
 import type { TransactionSale } from '@/components/reports/TransactionList';
 
 // ————————————————————————————————————————————————
@@ -51,6 +64,7 @@ interface AggregatedData {
   totalCOGS: number;
   totalChainCost: number;
   totalJumpRingCost: number;
+  totalCOGSReversed: number;
   totalRefunds: number;
   netRevenue: number;
   salesCount: number;
@@ -93,31 +107,44 @@ const paymentMethodLabels: Record<string, string> = {
   other: 'Other',
 };
 
-function getDateRange(preset: DatePreset, year: number): { start: Date; end: Date } {
+/** Preset boundaries in the tenant's zone, so "this month" matches the artist's calendar. */
+function getDateRange(preset: DatePreset, year: number, timeZone: string): { start: Date; end: Date } {
   const now = new Date();
+  // Inclusive end of a period that stops just before `next`
+  const endBefore = (next: Date) => new Date(next.getTime() - 1);
+  const quarter = (q: number) => ({
+    start: zonedTimeToUtc(year, q * 3 - 2, 1, 0, 0, timeZone),
+    end: endBefore(zonedTimeToUtc(year, q * 3 + 1, 1, 0, 0, timeZone)),
+  });
   switch (preset) {
     case 'ytd':
-      return { start: startOfYear(now), end: now };
+      return { start: startOfYearInZone(now, timeZone), end: now };
     case 'q1':
-      return { start: new Date(year, 0, 1), end: new Date(year, 2, 31, 23, 59, 59) };
+      return quarter(1);
     case 'q2':
-      return { start: new Date(year, 3, 1), end: new Date(year, 5, 30, 23, 59, 59) };
+      return quarter(2);
     case 'q3':
-      return { start: new Date(year, 6, 1), end: new Date(year, 8, 30, 23, 59, 59) };
+      return quarter(3);
     case 'q4':
-      return { start: new Date(year, 9, 1), end: new Date(year, 11, 31, 23, 59, 59) };
+      return quarter(4);
     case 'this_month':
-      return { start: startOfMonth(now), end: now };
-    case 'last_month': {
-      const last = subMonths(now, 1);
-      return { start: startOfMonth(last), end: new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59) };
-    }
+      return { start: startOfMonthInZone(now, timeZone), end: now };
+    case 'last_month':
+      return { start: startOfMonthInZone(now, timeZone, -1), end: endBefore(startOfMonthInZone(now, timeZone)) };
     case 'last_3':
-      return { start: subMonths(startOfMonth(now), 2), end: now };
+      return { start: startOfMonthInZone(now, timeZone, -2), end: now };
     default:
-      return { start: startOfYear(now), end: now };
+      return { start: startOfYearInZone(now, timeZone), end: now };
   }
 }
+
+/** Parse a YYYY-MM-DD input value as local midnight (or end of day) in `timeZone`. */
+function parseLocalDate(value: string, timeZone: string, endOfDay = false): Date {
+  const [y, m, d] = value.split('-').map((n) => parseInt(n, 10));
+  if (!endOfDay) return zonedTimeToUtc(y, m, d, 0, 0, timeZone);
+  return new Date(zonedTimeToUtc(y, m, d + 1, 0, 0, timeZone).getTime() - 1);
+}
+
 // ————————————————————————————————————————————————
 // Effective tier helper (client-side mirror of server logic)
 // ————————————————————————————————————————————————
@@ -171,8 +198,9 @@ function exportOverviewCSV(data: AggregatedData, dateLabel: string, sourceLabel:
   lines.push('');
 
   lines.push('COSTS');
-  if (data.totalChainCost > 0) lines.push(`Chain Material,${data.totalChainCost.toFixed(2)}`);
+  if (data.totalChainCost > 0) lines.push(`Materials,${data.totalChainCost.toFixed(2)}`);
   if (data.totalJumpRingCost > 0) lines.push(`Jump Rings,${data.totalJumpRingCost.toFixed(2)}`);
+  if (data.totalCOGSReversed > 0) lines.push(`Restocked from Refunds,-${data.totalCOGSReversed.toFixed(2)}`);
   lines.push(`Total COGS,${data.totalCOGS.toFixed(2)}`);
   if (expenses.total > 0) {
     lines.push('');
@@ -260,13 +288,14 @@ function exportTransactionsCSV(sales: TransactionSale[], dateLabel: string) {
 // ————————————————————————————————————————————————
 
 export default function ReportsPage() {
-  const { tenant, can } = useTenant();
+  const { tenant, can, refetch } = useTenant();
   const router = useRouter();
 
   // Permission guard
   useEffect(() => {
     if (!can('reports:view')) {
-      router.push('/dashboard');
+      // Staff can still see their own earnings
+      router.push('/dashboard/reports/payroll');
     }
   }, [can, router]);
 
@@ -275,21 +304,22 @@ export default function ReportsPage() {
 
   // Overview state
   const [datePreset, setDatePreset] = useState<DatePreset>('ytd');
-  const now = new Date();
-  const [customStart, setCustomStart] = useState(() => `${now.getFullYear()}-01-01`);
-  const [customEnd, setCustomEnd] = useState(() => now.toISOString().slice(0, 10));
+  const timeZone = resolveTimeZone(tenant);
+  const [customStart, setCustomStart] = useState(() => `${getZonedParts(new Date(), timeZone).year}-01-01`);
+  const [customEnd, setCustomEnd] = useState(() => toLocalDateString(new Date(), timeZone));
   const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
   const [loading, setLoading] = useState(true);
   const [sales, setSales] = useState<(Sale & { sale_items: SaleItem[]; clients?: { first_name: string; last_name: string } | null })[]>([]);
   const [boothFeeMap, setBoothFeeMap] = useState<Map<string, number>>(new Map());
   const [refunds, setRefunds] = useState<Refund[]>([]);
   const [expenseTotals, setExpenseTotals] = useState<ExpenseTotals>({ total: 0, byCategory: {} });
+  const [showAccountingExport, setShowAccountingExport] = useState(false);
 
   // Events tab state
   const [events, setEvents] = useState<Event[]>([]);
   const [eventsLoading, setEventsLoading] = useState(true);
 
-  const currentYear = new Date().getFullYear();
+  const currentYear = getZonedParts(new Date(), timeZone).year;
 
   // ——— SUBSCRIPTION GATING ———
   const effectiveTier = getEffectiveTier(tenant);
@@ -298,10 +328,10 @@ export default function ReportsPage() {
   // Compute date range
   const dateRange = useMemo(() => {
     if (datePreset === 'custom' && customStart && customEnd) {
-      return { start: new Date(customStart + 'T00:00:00'), end: new Date(customEnd + 'T23:59:59') };
+      return { start: parseLocalDate(customStart, timeZone), end: parseLocalDate(customEnd, timeZone, true) };
     }
-    return getDateRange(datePreset, currentYear);
-  }, [datePreset, customStart, customEnd, currentYear]);
+    return getDateRange(datePreset, currentYear, timeZone);
+  }, [datePreset, customStart, customEnd, currentYear, timeZone]);
 
   const dateLabel = useMemo(() => {
     if (datePreset === 'custom' && customStart && customEnd) {
@@ -313,13 +343,13 @@ export default function ReportsPage() {
       q2: `Q2 ${currentYear}`,
       q3: `Q3 ${currentYear}`,
       q4: `Q4 ${currentYear}`,
-      this_month: format(new Date(), 'MMMM yyyy'),
-      last_month: format(subMonths(new Date(), 1), 'MMMM yyyy'),
+      this_month: new Date().toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone }),
+      last_month: startOfMonthInZone(new Date(), timeZone, -1).toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone }),
       last_3: 'Last 3 Months',
       custom: 'Custom Range',
     };
     return labels[datePreset];
-  }, [datePreset, customStart, customEnd, currentYear]);
+  }, [datePreset, customStart, customEnd, currentYear, timeZone]);
 
   const sourceLabel = sourceFilter === 'all' ? 'All Sales' : sourceFilter === 'events' ? 'Events Only' : 'Store Only';
 
@@ -360,7 +390,7 @@ export default function ReportsPage() {
       query,
       supabase.from('events').select('id, booth_fee').eq('tenant_id', tenant.id),
       supabase.from('refunds')
-        .select('*')
+        .select('*, refund_items(cogs_reversed)')
         .eq('tenant_id', tenant.id)
         .gte('created_at', dateRange.start.toISOString())
         .lte('created_at', dateRange.end.toISOString()),
@@ -466,7 +496,7 @@ export default function ReportsPage() {
       // FIX: COGS from snapshotted sale_items (not inventory lookup)
       let saleCOGS = 0;
       for (const item of (sale.sale_items || [])) {
-        const chainCost = Number((item as any).chain_material_cost) || 0;
+        const chainCost = saleItemMaterialCost(item as any);
         const jrCost = Number((item as any).jump_ring_cost) || 0;
         totalChainCost += chainCost;
         totalJumpRingCost += jrCost;
@@ -483,7 +513,7 @@ export default function ReportsPage() {
       paymentBreakdown[pm].total += saleRevenue;
 
       // Monthly breakdown — only absorbed fees in costs
-      const monthKey = format(new Date(sale.created_at), 'yyyy-MM');
+      const monthKey = toLocalDateString(new Date(sale.created_at), timeZone).slice(0, 7);
       const absorbedFee = (feeHandling === 'absorb' || feeHandling === null) ? feeAmount : 0;
       const saleCosts = saleCOGS + absorbedFee;
       const saleProfit = sub - saleCOGS - absorbedFee;
@@ -500,10 +530,13 @@ export default function ReportsPage() {
 
     // FIX: Revenue = subtotal + tax + tip
     const totalRevenue = totalSubtotal + totalTax + totalTips;
-    const totalCOGS = totalChainCost + totalJumpRingCost;
-
     // Refunds total (based on refund period, not sale date)
     const totalRefunds = refunds.reduce((sum, r) => sum + Number(r.amount), 0);
+
+    // Net-of-refund COGS: chain material returned to stock by refunds in this period
+    const totalCOGSReversed = refunds.reduce((sum, r) =>
+      sum + (r.refund_items || []).reduce((s, ri) => s + (Number(ri.cogs_reversed) || 0), 0), 0);
+    const totalCOGS = totalChainCost + totalJumpRingCost - totalCOGSReversed;
     const netRevenue = totalRevenue - totalRefunds;
 
     // Net profit includes refunds and expenses
@@ -514,18 +547,18 @@ export default function ReportsPage() {
     const monthlyBreakdown = Array.from(monthBuckets.entries())
       .sort(([a], [b]) => a.localeCompare(b))
       .map(([key, data]) => ({
-        month: format(new Date(key + '-01'), 'MMM yyyy'),
+        month: format(new Date(key + '-01T00:00:00'), 'MMM yyyy'),
         ...data,
       }));
 
     return {
       totalRevenue, totalSubtotal, totalTax, totalTips, totalPlatformFees,
-      totalDiscounts, totalCOGS, totalChainCost, totalJumpRingCost,
+      totalDiscounts, totalCOGS, totalChainCost, totalJumpRingCost, totalCOGSReversed,
       totalRefunds, netRevenue,
       salesCount, avgSaleValue, netProfit,
       paymentBreakdown, monthlyBreakdown,
     };
-  }, [sales, refunds, expenseTotals]);
+  }, [sales, refunds, expenseTotals, timeZone]);
 
   // ============================================================
   // Build event summaries for events tab — WITH FIXES
@@ -556,10 +589,17 @@ export default function ReportsPage() {
 
         // FIX: COGS from snapshotted sale_items
         for (const item of (sale.sale_items || [])) {
-          cogs += (Number((item as any).chain_material_cost) || 0) + (Number((item as any).jump_ring_cost) || 0);
+          cogs += saleItemMaterialCost(item as any) + (Number((item as any).jump_ring_cost) || 0);
         }
       }
 
+      // Net of chain material returned to stock by refunds on these sales
+      const eventSaleIds = new Set(eventSales.map((s) => s.id));
+      for (const refund of refunds) {
+        if (!eventSaleIds.has(refund.sale_id)) continue;
+        for (const ri of refund.refund_items || []) cogs -= Number(ri.cogs_reversed) || 0;
+      }
+
       const boothFee = boothFeeMap.get(ev.id) || 0;
       const costs = cogs + boothFee + absorbedFees;
 
@@ -574,7 +614,7 @@ export default function ReportsPage() {
         profit: subtotal - cogs - boothFee - absorbedFees,
       };
     }).filter((ev) => ev.salesCount > 0 || new Date(ev.date) >= dateRange.start);
-  }, [events, sales, boothFeeMap, activeTab, dateRange]);
+  }, [events, sales, refunds, boothFeeMap, activeTab, dateRange]);
 
   // Memoize transaction list (most recent first, with client names)
   const transactionSales: TransactionSale[] = useMemo(() => {
@@ -611,9 +651,14 @@ export default function ReportsPage() {
   if (!isFullReports) {
     return (
       <div className="space-y-6 max-w-4xl">
-        <div>
-          <h1 className="text-2xl font-semibold text-text-primary">Reports</h1>
-          <p className="text-text-tertiary text-sm mt-1">Track your business performance.</p>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-text-primary">Reports</h1>
+            <p className="text-text-tertiary text-sm mt-1">Track your business performance.</p>
+          </div>
+          <Button variant="secondary" size="sm" onClick={() => router.push('/dashboard/reports/payroll')}>
+            Payroll
+          </Button>
         </div>
 
         {loading ? (
@@ -629,15 +674,7 @@ export default function ReportsPage() {
               label="Today's Sales"
               value={money(
                 sales
-                  .filter((s) => {
-                    const saleDate = new Date(s.created_at);
-                    const today = new Date();
-                    return (
-                      saleDate.getFullYear() === today.getFullYear() &&
-                      saleDate.getMonth() === today.getMonth() &&
-                      saleDate.getDate() === today.getDate()
-                    );
-                  })
+                  .filter((s) => toLocalDateString(new Date(s.created_at), timeZone) === toLocalDateString(new Date(), timeZone))
                   .reduce((sum, s) => sum + Number(s.total), 0)
               )}
             />
@@ -663,6 +700,9 @@ export default function ReportsPage() {
           <h1 className="text-2xl font-semibold text-text-primary">Reports</h1>
           <p className="text-text-tertiary text-sm mt-1">Track your business performance over time.</p>
         </div>
+        <Button variant="secondary" size="sm" onClick={() => router.push('/dashboard/reports/payroll')}>
+          Payroll
+        </Button>
       </div>
 
       {/* Tab switcher */}
@@ -799,15 +839,34 @@ export default function ReportsPage() {
                   <h2 className="text-lg font-semibold text-text-primary">{dateLabel}</h2>
                   <p className="text-sm text-text-tertiary">{sourceLabel} · {aggregated.salesCount} sale{aggregated.salesCount !== 1 ? 's' : ''}</p>
                 </div>
-                <Button variant="secondary" size="sm" onClick={() => exportOverviewCSV(aggregated, dateLabel, sourceLabel, expenseTotals)}>
-                  <span className="flex items-center gap-1.5">
-                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
-                      <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
-                    </svg>
-                    Export
-                  </span>
-                </Button>
+                <div className="flex items-center gap-2">
+                  {can('data:export') && (
+                    <Button variant="ghost" size="sm" onClick={() => setShowAccountingExport(true)}>
+                      QuickBooks / Xero
+                    </Button>
+                  )}
+                  {can('data:export') && (
+                    <Button variant="secondary" size="sm" onClick={() => exportOverviewCSV(aggregated, dateLabel, sourceLabel, expenseTotals)}>
+                      <span className="flex items-center gap-1.5">
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                          <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5M16.5 12L12 16.5m0 0L7.5 12m4.5 4.5V3" />
+                        </svg>
+                        Export
+                      </span>
+                    </Button>
+                  )}
+                </div>
               </div>
+              {showAccountingExport && tenant && (
+                <AccountingExportModal
+                  defaultFrom={toLocalDateString(dateRange.start, timeZone)}
+                  defaultTo={toLocalDateString(dateRange.end, timeZone)}
+                  exportedThrough={tenant.accounting_exported_through}
+                  canManage={can('settings:manage')}
+                  onClose={() => setShowAccountingExport(false)}
+                  onExported={refetch}
+                />
+              )}
 
               {/* KPI Cards */}
               <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
@@ -857,11 +916,11 @@ export default function ReportsPage() {
                     <ReportRow label="Product Costs / COGS" value={money(aggregated.totalCOGS)} negative />
 
                     {/* Materials COGS Breakdown */}
-                    {(aggregated.totalChainCost > 0 || aggregated.totalJumpRingCost > 0) && (
+                    {(aggregated.totalChainCost > 0 || aggregated.totalJumpRingCost > 0 || aggregated.totalCOGSReversed > 0) && (
                       <div className="ml-4 mb-1">
                         {aggregated.totalChainCost > 0 && (
                           <div className="flex items-center justify-between py-1">
-                            <span className="text-xs text-text-tertiary">Chain material</span>
+                            <span className="text-xs text-text-tertiary">Materials</span>
                             <span className="text-xs text-text-tertiary">{money(aggregated.totalChainCost)}</span>
                           </div>
                         )}
@@ -871,6 +930,12 @@ export default function ReportsPage() {
                             <span className="text-xs text-text-tertiary">{money(aggregated.totalJumpRingCost)}</span>
                           </div>
                         )}
+                        {aggregated.totalCOGSReversed > 0 && (
+                          <div className="flex items-center justify-between py-1">
+                            <span className="text-xs text-text-tertiary">Restocked from refunds</span>
+                            <span className="text-xs text-text-tertiary">-{money(aggregated.totalCOGSReversed)}</span>
+                          </div>
+                        )}
                       </div>
                     )}
 
@@ -979,6 +1044,18 @@ export default function ReportsPage() {
                 onTotalsReady={setExpenseTotals}
               />
 
+              {/* Gift card liability for the period */}
+              <GiftCardLiabilitySection
+                from={toLocalDateString(dateRange.start, timeZone)}
+                asOf={toLocalDateString(dateRange.end, timeZone)}
+              />
+
+              {/* Sales tax to file for the period */}
+              <SalesTaxSection
+                from={toLocalDateString(dateRange.start, timeZone)}
+                to={toLocalDateString(dateRange.end, timeZone)}
+              />
+
               {/* Monthly Breakdown */}
               {aggregated.monthlyBreakdown.length > 1 && (
                 <Card>
@@ -1090,7 +1167,7 @@ export default function ReportsPage() {
             <p className="text-sm text-text-secondary">
               {loading ? 'Loading...' : `${transactionSales.length} transaction${transactionSales.length !== 1 ? 's' : ''} in this period`}
             </p>
-            {!loading && transactionSales.length > 0 && (
+            {!loading && transactionSales.length > 0 && can('data:export') && (
               <Button variant="secondary" size="sm" onClick={() => exportTransactionsCSV(transactionSales, dateLabel)}>
                 <span className="flex items-center gap-1.5">
                   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
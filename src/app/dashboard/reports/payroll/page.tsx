@@ -0,0 +1,474 @@
+// ============================================================================
+// Payroll Report Page — src/app/dashboard/reports/payroll/page.tsx
+// ============================================================================
+// Earnings per team member for a pay period: wages for hours worked,
+// commission on their sales, clawbacks for refunds, and tips by the
+// allocation rule set in Settings → Staff Pay. Managers log hours that
+// weren't clocked and export the period to CSV; staff see only their own
+// earnings.
+// ============================================================================
+
+'use client';
+
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { createClient } from '@/lib/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { resolveTimeZone, toLocalDateString } from '@/lib/timezone';
+import { TIP_ALLOCATIONS } from '@/lib/payroll';
+import { Button, Card, CardHeader, CardTitle, CardContent } from '@/components/ui';
+import type { Event, PayrollReport, StaffHours } from '@/types';
+
+// ————————————————————————————————————————————————
+// Helpers
+// ————————————————————————————————————————————————
+
+const money = (n: number) => {
+  const abs = Math.abs(n);
+  const formatted = abs.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return n < 0 ? `-$${formatted}` : `$${formatted}`;
+};
+
+const inputClass =
+  'h-9 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]';
+
+/** Local YYYY-MM-DD shifted by whole days */
+function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+type PeriodPreset = 'two_weeks' | 'this_month' | 'last_month';
+
+function presetRange(preset: PeriodPreset, today: string): { from: string; to: string } {
+  if (preset === 'this_month') return { from: `${today.slice(0, 7)}-01`, to: today };
+  if (preset === 'last_month') {
+    const lastDay = shiftDate(`${today.slice(0, 7)}-01`, -1);
+    return { from: `${lastDay.slice(0, 7)}-01`, to: lastDay };
+  }
+  return { from: shiftDate(today, -13), to: today };
+}
+
+function exportPayrollCSV(report: PayrollReport) {
+  const rows: string[][] = [
+    ['Payroll'],
+    ['Period', `${report.from} to ${report.to}`],
+    ['Tips', TIP_ALLOCATIONS.find((t) => t.value === report.tip_allocation)?.label || report.tip_allocation],
+    [],
+    ['Team member', 'Role', 'Sales', 'Commissionable revenue', 'Pieces', 'Hours', 'Wages', 'Commission', 'Refund clawback', 'Tips (direct)', 'Tips (pooled)', 'Total'],
+    ...report.members.map((m) => [
+      m.name,
+      m.role || '',
+      String(m.sales),
+      m.revenue.toFixed(2),
+      String(m.pieces),
+      m.hours.toFixed(2),
+      m.wages.toFixed(2),
+      m.commission.toFixed(2),
+      (-m.clawback).toFixed(2),
+      m.tips_direct.toFixed(2),
+      m.tips_pooled.toFixed(2),
+      m.total.toFixed(2),
+    ]),
+    ['Total', '', '', '', '', '', report.totals.wages.toFixed(2), report.totals.commission.toFixed(2), (-report.totals.clawback).toFixed(2), '', report.totals.tips.toFixed(2), report.totals.total.toFixed(2)],
+  ];
+  if (report.tip_pools.length > 0) {
+    rows.push([], ['Tip pool', 'Pooled', 'Hours', ...report.members.filter((m) => m.member_id).map((m) => m.name)]);
+    for (const pool of report.tip_pools) {
+      rows.push([
+        pool.event_name,
+        pool.pooled.toFixed(2),
+        pool.hours.toFixed(2),
+        ...report.members.filter((m) => m.member_id).map((m) => (pool.shares[m.member_id!] || 0).toFixed(2)),
+      ]);
+    }
+  }
+
+  const csv = rows.map((r) => r.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(',')).join('\n');
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `payroll-${report.from}-to-${report.to}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// ————————————————————————————————————————————————
+// Page
+// ————————————————————————————————————————————————
+
+export default function PayrollPage() {
+  const { tenant, can } = useTenant();
+  const router = useRouter();
+  const supabase = useMemo(() => createClient(), []);
+  const isManager = can('reports:view');
+  const timeZone = resolveTimeZone(tenant);
+  const today = toLocalDateString(new Date(), timeZone);
+
+  const [period, setPeriod] = useState(() => presetRange('two_weeks', today));
+  const [report, setReport] = useState<PayrollReport | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const [hours, setHours] = useState<StaffHours[]>([]);
+  const [events, setEvents] = useState<Pick<Event, 'id' | 'name' | 'start_time'>[]>([]);
+  const [newHours, setNewHours] = useState({ member_id: '', event_id: '', work_date: today, hours: '', notes: '' });
+  const [savingHours, setSavingHours] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/payroll?${new URLSearchParams(period)}`);
+      const data = await res.json();
+      if (res.ok) setReport(data);
+      else toast.error(data.error || 'Failed to load payroll');
+    } catch {
+      toast.error('Failed to load payroll');
+    } finally {
+      setLoading(false);
+    }
+  }, [period]);
+
+  const fetchHours = useCallback(async () => {
+    if (!tenant || !isManager) return;
+    const { data } = await supabase
+      .from('staff_hours')
+      .select('*')
+      .eq('tenant_id', tenant.id)
+      .gte('work_date', period.from)
+      .lte('work_date', period.to)
+      .order('work_date', { ascending: false });
+    setHours((data || []) as StaffHours[]);
+  }, [supabase, tenant, isManager, period]);
+
+  useEffect(() => {
+    if (tenant) fetchReport();
+  }, [tenant, fetchReport]);
+
+  useEffect(() => { fetchHours(); }, [fetchHours]);
+
+  useEffect(() => {
+    if (!tenant || !isManager) return;
+    supabase
+      .from('events')
+      .select('id, name, start_time')
+      .eq('tenant_id', tenant.id)
+      .order('start_time', { ascending: false })
+      .limit(100)
+      .then(({ data }) => setEvents(data || []));
+  }, [supabase, tenant, isManager]);
+
+  const teamMembers = useMemo(() => (report?.members || []).filter((m) => m.member_id), [report]);
+  const memberName = (id: string) => teamMembers.find((m) => m.member_id === id)?.name || 'Former member';
+  const eventName = (id: string | null) => (id ? events.find((e) => e.id === id)?.name || 'Event' : 'Store');
+
+  const logHours = async () => {
+    if (!tenant) return;
+    const value = Number(newHours.hours);
+    if (!newHours.member_id || !newHours.work_date || !Number.isFinite(value) || value <= 0 || value > 24) {
+      toast.error('Pick a team member, a date and 0–24 hours');
+      return;
+    }
+    setSavingHours(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase.from('staff_hours').insert({
+      tenant_id: tenant.id,
+      member_id: newHours.member_id,
+      event_id: newHours.event_id || null,
+      work_date: newHours.work_date,
+      hours: value,
+      notes: newHours.notes.trim() || null,
+      created_by: user?.id || null,
+    });
+    setSavingHours(false);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Hours logged');
+    setNewHours({ ...newHours, hours: '', notes: '' });
+    fetchHours();
+    fetchReport();
+  };
+
+  const deleteHours = async (id: string) => {
+    const { error } = await supabase.from('staff_hours').delete().eq('id', id);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Hours removed');
+    fetchHours();
+    fetchReport();
+  };
+
+  if (!tenant) {
+    return <div className="text-text-tertiary py-12 text-center">Loading...</div>;
+  }
+
+  const mine = !isManager ? report?.members[0] : null;
+
+  return (
+    <div className="space-y-6 max-w-4xl">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          {isManager && (
+            <button
+              onClick={() => router.push('/dashboard/reports')}
+              className="text-sm text-[var(--text-tertiary)] hover:text-[var(--text-primary)] mb-1"
+            >
+              ← Reports
+            </button>
+          )}
+          <h1 className="text-2xl font-semibold text-text-primary">{isManager ? 'Payroll' : 'My Earnings'}</h1>
+          <p className="text-text-tertiary text-sm mt-1">
+            {isManager ? 'Commission and tips by team member for a pay period.' : 'Your commission and tips for a pay period.'}
+          </p>
+        </div>
+        {isManager && can('data:export') && report && report.members.length > 0 && (
+          <Button variant="secondary" size="sm" onClick={() => exportPayrollCSV(report)}>
+            Export CSV
+          </Button>
+        )}
+      </div>
+
+      {/* Period */}
+      <div className="flex flex-wrap items-center gap-2">
+        {([
+          ['two_weeks', 'Last 2 weeks'],
+          ['this_month', 'This month'],
+          ['last_month', 'Last month'],
+        ] as [PeriodPreset, string][]).map(([preset, label]) => {
+          const range = presetRange(preset, today);
+          const active = range.from === period.from && range.to === period.to;
+          return (
+            <button
+              key={preset}
+              onClick={() => setPeriod(range)}
+              className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                active
+                  ? 'bg-[var(--surface-base)] text-[var(--text-primary)] shadow-sm border border-[var(--border-default)]'
+                  : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'
+              }`}
+            >
+              {label}
+            </button>
+          );
+        })}
+        <input
+          type="date"
+          className={inputClass}
+          value={period.from}
+          max={period.to}
+          onChange={(e) => e.target.value && setPeriod({ ...period, from: e.target.value })}
+        />
+        <span className="text-sm text-[var(--text-tertiary)]">to</span>
+        <input
+          type="date"
+          className={inputClass}
+          value={period.to}
+          min={period.from}
+          onChange={(e) => e.target.value && setPeriod({ ...period, to: e.target.value })}
+        />
+      </div>
+
+      {loading || !report ? (
+        <div className="py-16 text-center">
+          <div className="inline-block h-6 w-6 animate-spin rounded-full border-2 border-accent-500 border-t-transparent" />
+          <p className="text-text-tertiary mt-3 text-sm">Loading...</p>
+        </div>
+      ) : !isManager ? (
+        // ── Staff: own earnings only ──
+        <Card>
+          <CardContent className="py-5">
+            {!mine ? (
+              <p className="text-sm text-[var(--text-tertiary)] text-center py-4">No earnings in this period.</p>
+            ) : (
+              <div className="space-y-2">
+                {[
+                  ...(mine.hours > 0 ? [['Hours worked', mine.hours.toFixed(2)], ['Wages', money(mine.wages)]] : []),
+                  ['Sales', String(mine.sales)],
+                  ['Commissionable sales', money(mine.revenue)],
+                  ['Commission', money(mine.commission)],
+                  ...(mine.clawback > 0 ? [['Refunds', money(-mine.clawback)]] : []),
+                  ['Tips', money(mine.tips_direct)],
+                  ...(mine.tips_pooled > 0 ? [['Tip pool share', money(mine.tips_pooled)]] : []),
+                ].map(([label, value]) => (
+                  <div key={label} className="flex items-center justify-between text-sm">
+                    <span className="text-[var(--text-secondary)]">{label}</span>
+                    <span className="text-[var(--text-primary)]">{value}</span>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between pt-2 border-t border-[var(--border-default)]">
+                  <span className="text-sm font-semibold text-[var(--text-primary)]">Total earnings</span>
+                  <span className="text-sm font-semibold text-[var(--text-primary)]">{money(mine.total)}</span>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          {/* ── Members ── */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Team</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.members.length === 0 ? (
+                <p className="py-4 text-sm text-[var(--text-tertiary)] text-center">No team activity in this period.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-[var(--text-tertiary)] border-b border-[var(--border-subtle)]">
+                        <th className="py-2 pr-3 font-medium">Team member</th>
+                        <th className="py-2 px-3 font-medium text-right">Sales</th>
+                        <th className="py-2 px-3 font-medium text-right">Wages</th>
+                        <th className="py-2 px-3 font-medium text-right">Commission</th>
+                        <th className="py-2 px-3 font-medium text-right">Refunds</th>
+                        <th className="py-2 px-3 font-medium text-right">Tips</th>
+                        <th className="py-2 pl-3 font-medium text-right">Total</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.members.map((m) => (
+                        <tr key={m.member_id || 'unattributed'} className="border-b border-[var(--border-subtle)] last:border-b-0">
+                          <td className="py-2 pr-3">
+                            <p className="text-[var(--text-primary)]">{m.name}</p>
+                            <p className="text-xs text-[var(--text-tertiary)]">
+                              {m.sales} sale{m.sales !== 1 ? 's' : ''}
+                              {m.pieces > 0 && ` · ${m.pieces} piece${m.pieces !== 1 ? 's' : ''}`}
+                              {m.hours > 0 && ` · ${m.hours.toFixed(2)} hrs`}
+                            </p>
+                          </td>
+                          <td className="py-2 px-3 text-right text-[var(--text-secondary)]">{money(m.revenue)}</td>
+                          <td className="py-2 px-3 text-right text-[var(--text-secondary)]">{m.wages > 0 ? money(m.wages) : '—'}</td>
+                          <td className="py-2 px-3 text-right text-[var(--text-secondary)]">{money(m.commission)}</td>
+                          <td className="py-2 px-3 text-right text-[var(--text-secondary)]">{m.clawback > 0 ? money(-m.clawback) : '—'}</td>
+                          <td className="py-2 px-3 text-right text-[var(--text-secondary)]">{money(m.tips_direct + m.tips_pooled)}</td>
+                          <td className="py-2 pl-3 text-right font-medium text-[var(--text-primary)]">{money(m.total)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                    <tfoot>
+                      <tr className="border-t border-[var(--border-default)]">
+                        <td className="py-2 pr-3 font-semibold text-[var(--text-primary)]">Total</td>
+                        <td />
+                        <td className="py-2 px-3 text-right font-semibold text-[var(--text-primary)]">{report.totals.wages > 0 ? money(report.totals.wages) : '—'}</td>
+                        <td className="py-2 px-3 text-right font-semibold text-[var(--text-primary)]">{money(report.totals.commission)}</td>
+                        <td className="py-2 px-3 text-right font-semibold text-[var(--text-primary)]">{report.totals.clawback > 0 ? money(-report.totals.clawback) : '—'}</td>
+                        <td className="py-2 px-3 text-right font-semibold text-[var(--text-primary)]">{money(report.totals.tips)}</td>
+                        <td className="py-2 pl-3 text-right font-semibold text-[var(--text-primary)]">{money(report.totals.total)}</td>
+                      </tr>
+                    </tfoot>
+                  </table>
+                </div>
+              )}
+              <p className="text-xs text-[var(--text-tertiary)] pt-3">
+                Sales are credited to whoever completed them. Hours come from the time clock and hours logged below. Tips: {TIP_ALLOCATIONS.find((t) => t.value === report.tip_allocation)?.description}
+                {' '}Change pay plans and tip rules in Settings → Staff Pay.
+              </p>
+            </CardContent>
+          </Card>
+
+          {/* ── Tip pools ── */}
+          {report.tip_pools.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Tip Pools</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-0">
+                {report.tip_pools.map((pool) => (
+                  <div key={pool.event_id} className="py-2 border-b border-[var(--border-subtle)] last:border-b-0">
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium text-[var(--text-primary)]">{pool.event_name}</p>
+                      <p className="text-sm font-medium text-[var(--text-primary)]">{money(pool.pooled)}</p>
+                    </div>
+                    <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+                      {pool.hours > 0 ? `${pool.hours.toFixed(2)} hrs logged · ` : 'No hours logged — shared equally · '}
+                      {Object.entries(pool.shares).map(([id, amount]) => `${memberName(id)} ${money(amount)}`).join(', ') || 'Unassigned'}
+                    </p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {/* ── Hours ── */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Hours</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 sm:grid-cols-[1fr_1fr_auto_5rem_auto] gap-2">
+                <select
+                  className={inputClass}
+                  value={newHours.member_id}
+                  onChange={(e) => setNewHours({ ...newHours, member_id: e.target.value })}
+                >
+                  <option value="">Team member</option>
+                  {teamMembers.map((m) => (
+                    <option key={m.member_id} value={m.member_id!}>{m.name}</option>
+                  ))}
+                </select>
+                <select
+                  className={inputClass}
+                  value={newHours.event_id}
+                  onChange={(e) => setNewHours({ ...newHours, event_id: e.target.value })}
+                >
+                  <option value="">Store</option>
+                  {events.map((e) => (
+                    <option key={e.id} value={e.id}>{e.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  className={inputClass}
+                  value={newHours.work_date}
+                  onChange={(e) => setNewHours({ ...newHours, work_date: e.target.value })}
+                />
+                <input
+                  type="number"
+                  min="0"
+                  max="24"
+                  step="0.25"
+                  placeholder="Hours"
+                  className={inputClass}
+                  value={newHours.hours}
+                  onChange={(e) => setNewHours({ ...newHours, hours: e.target.value })}
+                />
+                <Button variant="secondary" size="sm" onClick={logHours} disabled={savingHours}>
+                  Log
+                </Button>
+              </div>
+              {hours.length === 0 ? (
+                <p className="text-sm text-[var(--text-tertiary)]">No hours logged in this period.</p>
+              ) : (
+                <div className="max-h-72 overflow-y-auto">
+                  {hours.map((h) => (
+                    <div key={h.id} className="flex items-center justify-between py-2 border-b border-[var(--border-subtle)] last:border-b-0">
+                      <div>
+                        <p className="text-sm text-[var(--text-primary)]">{memberName(h.member_id)}</p>
+                        <p className="text-xs text-[var(--text-tertiary)]">
+                          {new Date(`${h.work_date}T12:00:00`).toLocaleDateString()} · {eventName(h.event_id)}
+                          {h.notes && ` · ${h.notes}`}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="text-sm text-[var(--text-secondary)]">{Number(h.hours).toFixed(2)} hrs</span>
+                        {h.time_entry_id ? (
+                          <span className="text-xs text-[var(--text-tertiary)]">Clocked</span>
+                        ) : (
+                          <button onClick={() => deleteHours(h.id)} className="text-xs text-red-500 hover:underline">
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
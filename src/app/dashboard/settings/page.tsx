@@ -5,7 +5,7 @@
 //   1. My Business — name, type, phone, website, logo, theme
 //   2. Payments — Square/Stripe connections, fee handling
 //   3. Plan & Billing — current plan, trial, upgrade, comparison
-//   4. Tax — tax profile CRUD
+//   4. Tax — tax profiles with jurisdiction components, inclusive pricing
 //   5. Waiver — waiver text editor with confirmation
 //   6. Team — members, invites, roles
 // ============================================================================
@@ -36,9 +36,19 @@ import type { TaxProfile, SubscriptionTier, PricingTier, TenantPricingMode } fro
 import { PLATFORM_FEE_RATES, SUBSCRIPTION_PRICES } from '@/types';
 import { getSubscriptionTier } from '@/lib/subscription';
 import { getCrmStatus } from '@/lib/crm-status';
+import { COMMON_TIME_ZONES, DEFAULT_TIME_ZONE, resolveTimeZone } from '@/lib/timezone';
 import SunnyTutorial from '@/components/SunnyTutorial';
 import ProductTypesSection from '@/components/settings/ProductTypesSection';
 import SuppliersSection from '@/components/settings/SuppliersSection';
+import AccountingSection from '@/components/settings/AccountingSection';
+import TaxProfilesSection from '@/components/settings/TaxProfilesSection';
+import StaffPaySection from '@/components/settings/StaffPaySection';
+import TeamRolesSection, { type TeamRoleWithCount } from '@/components/settings/TeamRolesSection';
+import SmsOptOutsSection from '@/components/settings/SmsOptOutsSection';
+import LoyaltySection from '@/components/settings/LoyaltySection';
+import { earnRuleSummary } from '@/lib/loyalty';
+import AuditLogViewer from '@/components/AuditLogViewer';
+import { TIP_ALLOCATIONS } from '@/lib/payroll';
 import { canShowBillingUI } from '@/lib/billing-gate';
 
 // ============================================================================
@@ -51,17 +61,6 @@ const TEAM_MEMBER_LIMITS: Record<string, number> = {
   business: Infinity,
 };
 
-const ROLE_OPTIONS = [
-  { value: 'staff', label: 'Staff' },
-  { value: 'manager', label: 'Manager' },
-];
-
-const ALL_ROLE_OPTIONS = [
-  { value: 'staff', label: 'Staff' },
-  { value: 'manager', label: 'Manager' },
-  { value: 'admin', label: 'Admin' },
-];
-
 const PLAN_FEATURES: Record<string, string[]> = {
   pro: [
     '1.5% platform fee (deducted from payouts)',
@@ -87,6 +86,7 @@ interface TeamMember {
   tenant_id: string;
   user_id: string;
   role: TenantRole;
+  team_role_id: string | null;
   display_name: string | null;
   invited_email: string | null;
   accepted_at: string | null;
@@ -97,7 +97,7 @@ interface TeamMember {
 }
 
 type PaymentProcessor = 'square' | 'stripe';
-type SectionId = 'business' | 'communications' | 'pricing' | 'payments' | 'billing' | 'tax' | 'waiver' | 'suppliers' | 'team' | 'profile';
+type SectionId = 'business' | 'communications' | 'pricing' | 'payments' | 'billing' | 'tax' | 'waiver' | 'suppliers' | 'loyalty' | 'accounting' | 'team' | 'payroll' | 'audit' | 'profile';
 
 // ============================================================================
 // Subscription Helpers
@@ -365,6 +365,7 @@ function SettingsPage() {
   const [businessName, setBusinessName] = useState('');
   const [businessPhone, setBusinessPhone] = useState('');
   const [businessWebsite, setBusinessWebsite] = useState('');
+  const [timeZone, setTimeZone] = useState(DEFAULT_TIME_ZONE);
   const [savingBusiness, setSavingBusiness] = useState(false);
 
   // ── Theme ──
@@ -377,7 +378,6 @@ function SettingsPage() {
 
   // ── Tax profiles ──
   const [taxProfiles, setTaxProfiles] = useState<TaxProfile[]>([]);
-  const [newTax, setNewTax] = useState({ name: '', rate: '' });
 
   // ── Waiver ──
   const [waiverText, setWaiverText] = useState('');
@@ -401,10 +401,11 @@ function SettingsPage() {
 
   // ── Team state ──
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
+  const [teamRoles, setTeamRoles] = useState<TeamRoleWithCount[]>([]);
   const [teamLoading, setTeamLoading] = useState(false);
   const [showInviteModal, setShowInviteModal] = useState(false);
   const [inviteEmail, setInviteEmail] = useState('');
-  const [inviteRole, setInviteRole] = useState<TenantRole>('staff');
+  const [inviteRoleId, setInviteRoleId] = useState('');
   const [inviteName, setInviteName] = useState('');
   const [inviting, setInviting] = useState(false);
   const [confirmRemove, setConfirmRemove] = useState<TeamMember | null>(null);
@@ -501,7 +502,7 @@ function SettingsPage() {
     }
 
     // Deep-link to a specific section (e.g., ?section=pricing)
-    const validSections: SectionId[] = ['business', 'communications', 'pricing', 'payments', 'billing', 'tax', 'waiver', 'suppliers', 'team', 'profile'];
+    const validSections: SectionId[] = ['business', 'communications', 'pricing', 'payments', 'billing', 'tax', 'waiver', 'suppliers', 'loyalty', 'accounting', 'team', 'payroll', 'audit', 'profile'];
     if (sectionParam && validSections.includes(sectionParam as SectionId)) {
       setOpenSection(sectionParam as SectionId);
     }
@@ -537,6 +538,7 @@ function SettingsPage() {
     setBusinessName(tenant.name || '');
     setBusinessPhone((tenant as any).phone || '');
     setBusinessWebsite((tenant as any).website || '');
+    setTimeZone(resolveTimeZone(tenant));
     setWaiverText(tenant.waiver_text);
     setAutoEmailReceipt(tenant.auto_email_receipt ?? false);
     setAutoSmsReceipt(tenant.auto_sms_receipt ?? false);
@@ -599,12 +601,7 @@ function SettingsPage() {
       setWarrantyCustomDays(String(durationDays));
     }
 
-    supabase
-      .from('tax_profiles')
-      .select('*')
-      .eq('tenant_id', tenant.id)
-      .order('name')
-      .then(({ data }) => setTaxProfiles((data || []) as TaxProfile[]));
+    loadTaxProfiles();
 
     // Load supplier count for accordion summary
     fetch('/api/suppliers?tenantId=' + tenant.id)
@@ -620,10 +617,11 @@ function SettingsPage() {
   const fetchTeam = useCallback(async () => {
     setTeamLoading(true);
     try {
-      const res = await fetch('/api/team');
-      if (!res.ok) throw new Error('Failed to fetch team');
-      const data = await res.json();
+      const [res, rolesRes] = await Promise.all([fetch('/api/team'), fetch('/api/team/roles')]);
+      if (!res.ok || !rolesRes.ok) throw new Error('Failed to fetch team');
+      const [data, rolesData] = await Promise.all([res.json(), rolesRes.json()]);
       setTeamMembers(data.members || []);
+      setTeamRoles(rolesData.roles || []);
     } catch (err) {
       console.error('Fetch team error:', err);
       toast.error('Failed to load team members');
@@ -634,7 +632,7 @@ function SettingsPage() {
 
   // Fetch team when team section opens
   useEffect(() => {
-    if (openSection === 'team' && can('team:manage')) {
+    if ((openSection === 'team' || openSection === 'payroll') && can('team:manage')) {
       fetchTeam();
     }
   }, [openSection, can, fetchTeam]);
@@ -651,7 +649,7 @@ function SettingsPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           email: inviteEmail.trim(),
-          role: inviteRole,
+          ...(inviteRoleId ? { team_role_id: inviteRoleId } : { role: 'staff' }),
           display_name: inviteName.trim() || undefined,
         }),
       });
@@ -664,7 +662,7 @@ function SettingsPage() {
       setShowInviteModal(false);
       setInviteEmail('');
       setInviteName('');
-      setInviteRole('staff');
+      setInviteRoleId('');
       fetchTeam();
     } catch {
       toast.error('Failed to send invite');
@@ -673,19 +671,19 @@ function SettingsPage() {
     }
   };
 
-  const handleChangeRole = async (member: TeamMember, newRole: TenantRole) => {
+  const handleChangeRole = async (member: TeamMember, teamRoleId: string) => {
     try {
       const res = await fetch(`/api/team/${member.id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ role: newRole }),
+        body: JSON.stringify({ team_role_id: teamRoleId }),
       });
       const data = await res.json();
       if (!res.ok) {
         toast.error(data.error || 'Failed to update role');
         return;
       }
-      toast.success(`Role updated to ${ROLE_CONFIG[newRole].label}`);
+      toast.success(`Role updated to ${data.role_name}`);
       fetchTeam();
     } catch {
       toast.error('Failed to update role');
@@ -720,7 +718,7 @@ function SettingsPage() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           email: member.invited_email,
-          role: member.role,
+          ...(member.team_role_id ? { team_role_id: member.team_role_id } : { role: member.role }),
           display_name: member.display_name || undefined,
         }),
       });
@@ -747,6 +745,7 @@ function SettingsPage() {
         name: businessName.trim(),
         phone: businessPhone.trim() || null,
         website: businessWebsite.trim() || null,
+        time_zone: timeZone,
       })
       .eq('id', tenant.id);
     setSavingBusiness(false);
@@ -865,31 +864,16 @@ function SettingsPage() {
     toast.success('Waiver text updated');
   };
 
-  const addTaxProfile = async () => {
-    if (!tenant || !newTax.name || !newTax.rate) return;
-    const { error } = await supabase.from('tax_profiles').insert({
-      tenant_id: tenant.id,
-      name: newTax.name,
-      rate: Number(newTax.rate) / 100,
-    });
-    if (error) { toast.error(error.message); return; }
-    toast.success('Tax profile added');
-    setNewTax({ name: '', rate: '' });
+  const loadTaxProfiles = async () => {
+    if (!tenant) return;
     const { data } = await supabase
       .from('tax_profiles')
-      .select('*')
+      .select('*, tax_profile_components(*)')
       .eq('tenant_id', tenant.id)
       .order('name');
     setTaxProfiles((data || []) as TaxProfile[]);
   };
 
-  const deleteTaxProfile = async (id: string) => {
-    const { error } = await supabase.from('tax_profiles').delete().eq('id', id);
-    if (error) { toast.error(error.message); return; }
-    setTaxProfiles((tp) => tp.filter((t) => t.id !== id));
-    toast.success('Tax profile removed');
-  };
-
   const saveReceiptSettings = async () => {
     if (!tenant) return;
     setSavingReceipts(true);
@@ -1030,6 +1014,10 @@ function SettingsPage() {
 
   const activeMembers = teamMembers.filter((m) => !m.is_pending);
   const pendingMembers = teamMembers.filter((m) => m.is_pending);
+  // Admin-level roles are granted from the team list, not by invite
+  const inviteRoleOptions = teamRoles
+    .filter((r) => r.base_role !== 'admin')
+    .map((r) => ({ value: r.id, label: r.name }));
 
   // ── Summary lines ──
   const businessSummary = businessName || 'Set up your business info';
@@ -1116,6 +1104,17 @@ function SettingsPage() {
                 placeholder="https://myshop.com"
               />
             </div>
+            <Select
+              label="Time Zone"
+              value={timeZone}
+              onChange={(e) => setTimeZone(e.target.value)}
+              options={
+                COMMON_TIME_ZONES.some((z) => z.value === timeZone)
+                  ? COMMON_TIME_ZONES
+                  : [...COMMON_TIME_ZONES, { value: timeZone, label: timeZone }]
+              }
+              helperText="Used for “today” and “this month” in reports, and for when scheduled messages go out."
+            />
             <div className="flex justify-end">
               <Button variant="primary" onClick={saveBusinessInfo} loading={savingBusiness}>
                 Save Business Info
@@ -1235,7 +1234,7 @@ function SettingsPage() {
         onToggle={() => toggleSection('communications')}
       >
         <div className="space-y-3 pt-4">
-          <CommsSubAccordion tenant={tenant} onSaved={refetch} onProvisioned={refetch} />
+          <CommsSubAccordion tenant={tenant} onSaved={refetch} onProvisioned={refetch} canEditOptOuts={can('clients:edit')} />
         </div>
       </AccordionSection>
 
@@ -1821,52 +1820,12 @@ function SettingsPage() {
         isOpen={openSection === 'tax'}
         onToggle={() => toggleSection('tax')}
       >
-        <div className="space-y-4 pt-4">
-          {taxProfiles.length > 0 && (
-            <div className="space-y-2">
-              {taxProfiles.map((tp) => (
-                <div
-                  key={tp.id}
-                  className="flex items-center justify-between bg-[var(--surface-base)] rounded-lg px-4 py-3"
-                >
-                  <div>
-                    <span className="font-medium text-[var(--text-primary)]">{tp.name}</span>
-                    <span className="text-[var(--text-tertiary)] ml-2">
-                      {(tp.rate * 100).toFixed(2)}%
-                    </span>
-                  </div>
-                  <Button variant="danger" size="sm" onClick={() => deleteTaxProfile(tp.id)}>
-                    Remove
-                  </Button>
-                </div>
-              ))}
-            </div>
-          )}
-          {taxProfiles.length === 0 && (
-            <p className="text-sm text-[var(--text-tertiary)]">No tax profiles yet. Add one below.</p>
-          )}
-          <div className="flex gap-2">
-            <div className="flex-1">
-              <Input
-                placeholder="Profile name (e.g. Texas)"
-                value={newTax.name}
-                onChange={(e) => setNewTax({ ...newTax, name: e.target.value })}
-              />
-            </div>
-            <div className="w-28">
-              <Input
-                type="number"
-                step="0.01"
-                placeholder="Rate %"
-                value={newTax.rate}
-                onChange={(e) => setNewTax({ ...newTax, rate: e.target.value })}
-              />
-            </div>
-            <Button variant="secondary" onClick={addTaxProfile}>
-              Add
-            </Button>
-          </div>
-        </div>
+        <TaxProfilesSection
+          tenant={tenant}
+          profiles={taxProfiles}
+          onProfilesChange={loadTaxProfiles}
+          onSaved={refetch}
+        />
 
         {/* ── Receipts subsection ── */}
         <div className="border-t border-[var(--border-subtle)] mt-6 pt-6">
@@ -1984,6 +1943,36 @@ function SettingsPage() {
         </div>
       </AccordionSection>
 
+      {/* ================================================================ */}
+      {/* Section: Loyalty                                                 */}
+      {/* ================================================================ */}
+      {can('settings:manage') && (
+        <AccordionSection
+          icon={<svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.499a.562.562 0 011.04 0l2.125 5.111a.563.563 0 00.475.345l5.518.442c.499.04.701.663.321.988l-4.204 3.602a.563.563 0 00-.182.557l1.285 5.385a.562.562 0 01-.84.61l-4.725-2.885a.563.563 0 00-.586 0L6.982 20.54a.562.562 0 01-.84-.61l1.285-5.386a.562.562 0 00-.182-.557l-4.204-3.602a.563.563 0 01.321-.988l5.518-.442a.563.563 0 00.475-.345L11.48 3.5z" /></svg>}
+          title="Loyalty"
+          summary={tenant.loyalty_enabled ? earnRuleSummary(tenant) : 'Off'}
+          isOpen={openSection === 'loyalty'}
+          onToggle={() => toggleSection('loyalty')}
+        >
+          <LoyaltySection tenant={tenant} onSaved={refetch} />
+        </AccordionSection>
+      )}
+
+      {/* ================================================================ */}
+      {/* Section: Accounting                                              */}
+      {/* ================================================================ */}
+      {can('settings:manage') && (
+        <AccordionSection
+          icon={<svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M15.75 15.75V18m-7.5-6.75h.008v.008H8.25v-.008zm0 2.25h.008v.008H8.25V13.5zm0 2.25h.008v.008H8.25v-.008zm0 2.25h.008v.008H8.25V18zm2.498-6.75h.007v.008h-.007v-.008zm0 2.25h.007v.008h-.007V13.5zm0 2.25h.007v.008h-.007v-.008zm0 2.25h.007v.008h-.007V18zm2.504-6.75h.008v.008h-.008v-.008zm0 2.25h.008v.008h-.008V13.5zm0 2.25h.008v.008h-.008v-.008zm0 2.25h.008v.008h-.008V18zm2.498-6.75h.008v.008h-.008v-.008zm0 2.25h.008v.008h-.008V13.5zM8.25 6h7.5v2.25h-7.5V6zM12 2.25c-1.892 0-3.758.11-5.593.322C5.307 2.7 4.5 3.65 4.5 4.757V19.5a2.25 2.25 0 002.25 2.25h10.5a2.25 2.25 0 002.25-2.25V4.757c0-1.108-.806-2.057-1.907-2.185A48.507 48.507 0 0012 2.25z" /></svg>}
+          title="Accounting"
+          summary={tenant.accounting_exported_through ? `Exported through ${tenant.accounting_exported_through}` : 'QuickBooks & Xero journal export'}
+          isOpen={openSection === 'accounting'}
+          onToggle={() => toggleSection('accounting')}
+        >
+          <AccountingSection tenant={tenant} onSaved={refetch} />
+        </AccordionSection>
+      )}
+
       {/* ================================================================ */}
       {/* Section 6: Team                                                  */}
       {/* ================================================================ */}
@@ -2122,12 +2111,15 @@ function SettingsPage() {
                           </Badge>
                         ) : (
                           <select
-                            value={member.role}
-                            onChange={(e) => handleChangeRole(member, e.target.value as TenantRole)}
+                            value={member.team_role_id || ''}
+                            onChange={(e) => handleChangeRole(member, e.target.value)}
                             className="text-xs rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] px-2.5 py-1.5 text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-primary)] min-h-[36px]"
                           >
-                            {ALL_ROLE_OPTIONS.map((opt) => (
-                              <option key={opt.value} value={opt.value}>{opt.label}</option>
+                            {!member.team_role_id && (
+                              <option value="" disabled>{ROLE_CONFIG[member.role].label}</option>
+                            )}
+                            {teamRoles.map((r) => (
+                              <option key={r.id} value={r.id}>{r.name}</option>
                             ))}
                           </select>
                         )}
@@ -2165,7 +2157,7 @@ function SettingsPage() {
                           </span>
                           <Badge variant="warning" size="sm">Pending</Badge>
                           <Badge variant={ROLE_CONFIG[member.role].variant} size="sm">
-                            {ROLE_CONFIG[member.role].label}
+                            {teamRoles.find((r) => r.id === member.team_role_id)?.name || ROLE_CONFIG[member.role].label}
                           </Badge>
                         </div>
                         {member.display_name && (
@@ -2192,36 +2184,52 @@ function SettingsPage() {
               </div>
             )}
 
-            {/* Role legend */}
-            <div className="space-y-2 pt-2 border-t border-[var(--border-subtle)]">
-              <h4 className="text-xs font-semibold text-[var(--text-tertiary)] uppercase tracking-wider">
-                Role Permissions
-              </h4>
-              <div className="space-y-2 text-sm">
-                <div>
-                  <span className="font-medium text-[var(--text-primary)]">Admin</span>
-                  <span className="text-[var(--text-secondary)] ml-2">
-                    — Full access to everything including settings, payments, and team management.
-                  </span>
-                </div>
-                <div>
-                  <span className="font-medium text-[var(--text-primary)]">Manager</span>
-                  <span className="text-[var(--text-secondary)] ml-2">
-                    — Can use POS, manage inventory and events, view reports, apply discounts, and process refunds.
-                  </span>
-                </div>
-                <div>
-                  <span className="font-medium text-[var(--text-primary)]">Staff</span>
-                  <span className="text-[var(--text-secondary)] ml-2">
-                    — Can use POS, manage queue, and view inventory/events/clients.
-                  </span>
-                </div>
-              </div>
+            {/* Roles */}
+            <div className="pt-2 border-t border-[var(--border-subtle)]">
+              <TeamRolesSection roles={teamRoles} onChanged={fetchTeam} />
             </div>
           </div>
         </AccordionSection>
       )}
 
+      {/* ================================================================ */}
+      {/* Section: Staff Pay                                               */}
+      {/* ================================================================ */}
+      {showTeamSection && (
+        <AccordionSection
+          icon={<svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M2.25 18.75a60.07 60.07 0 0115.797 2.101c.727.198 1.453-.342 1.453-1.096V18.75M3.75 4.5v.75A.75.75 0 013 6h-.75m0 0v-.375c0-.621.504-1.125 1.125-1.125H20.25M2.25 6v9m18-10.5v.75c0 .414.336.75.75.75h.75m-1.5-1.5h.375c.621 0 1.125.504 1.125 1.125v9.75c0 .621-.504 1.125-1.125 1.125h-.375m1.5-1.5H21a.75.75 0 00-.75.75v.75m0 0H3.75m0 0h-.375a1.125 1.125 0 01-1.125-1.125V15m1.5 1.5v-.75A.75.75 0 003 15h-.75M15 10.5a3 3 0 11-6 0 3 3 0 016 0zm3 0h.008v.008H18V10.5zm-12 0h.008v.008H6V10.5z" /></svg>}
+          title="Staff Pay"
+          summary={`Tips: ${TIP_ALLOCATIONS.find((t) => t.value === (tenant.tip_allocation || 'server'))?.label}`}
+          isOpen={openSection === 'payroll'}
+          onToggle={() => toggleSection('payroll')}
+        >
+          {teamLoading ? (
+            <div className="py-6 text-center">
+              <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+            </div>
+          ) : (
+            <StaffPaySection tenant={tenant} members={activeMembers} onSaved={refetch} />
+          )}
+        </AccordionSection>
+      )}
+
+      {/* ================================================================ */}
+      {/* Section: Audit Log                                               */}
+      {/* ================================================================ */}
+      {can('audit:view') && (
+        <AccordionSection
+          icon={<svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}><path strokeLinecap="round" strokeLinejoin="round" d="M9 12h3.75M9 15h3.75M9 18h3.75m3 .75H18a2.25 2.25 0 002.25-2.25V6.108c0-1.135-.845-2.098-1.976-2.192a48.424 48.424 0 00-1.123-.08m-5.801 0c-.065.21-.1.433-.1.664 0 .414.336.75.75.75h4.5a.75.75 0 00.75-.75 2.25 2.25 0 00-.1-.664m-5.8 0A2.251 2.251 0 0113.5 2.25H15c1.012 0 1.867.668 2.15 1.586m-5.8 0c-.376.023-.75.05-1.124.08C9.095 4.01 8.25 4.973 8.25 6.108V8.25m0 0H4.875c-.621 0-1.125.504-1.125 1.125v11.25c0 .621.504 1.125 1.125 1.125h9.75c.621 0 1.125-.504 1.125-1.125V9.375c0-.621-.504-1.125-1.125-1.125H8.25zM6.75 12h.008v.008H6.75V12zm0 3h.008v.008H6.75V15zm0 3h.008v.008H6.75V18z" /></svg>}
+          title="Audit Log"
+          summary="Refunds, discounts, price changes and deletes"
+          isOpen={openSection === 'audit'}
+          onToggle={() => toggleSection('audit')}
+        >
+          <div className="pt-4">
+            {openSection === 'audit' && <AuditLogViewer endpoint="/api/audit-log" />}
+          </div>
+        </AccordionSection>
+      )}
+
       {/* ================================================================ */}
       {/* Section 7: Public Profile                                        */}
       {/* ================================================================ */}
@@ -2660,9 +2668,9 @@ function SettingsPage() {
           />
           <Select
             label="Role"
-            value={inviteRole}
-            onChange={(e) => setInviteRole(e.target.value as TenantRole)}
-            options={ROLE_OPTIONS}
+            value={inviteRoleId || teamRoles.find((r) => r.system_key === 'staff')?.id || ''}
+            onChange={(e) => setInviteRoleId(e.target.value)}
+            options={inviteRoleOptions}
           />
           <Input
             label="Display Name (optional)"
@@ -2818,6 +2826,12 @@ const IconSparkles = (
   </svg>
 );
 
+const IconClock = (
+  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+    <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+  </svg>
+);
+
 const SUNNY_PRESETS = [
   {
     id: 'warm_bubbly',
@@ -2851,7 +2865,7 @@ const SUNNY_PRESETS = [
   },
 ] as const;
 
-function CommsSubAccordion({ tenant, onSaved, onProvisioned }: { tenant: any; onSaved: () => void; onProvisioned: () => void }) {
+function CommsSubAccordion({ tenant, onSaved, onProvisioned, canEditOptOuts }: { tenant: any; onSaved: () => void; onProvisioned: () => void; canEditOptOuts: boolean }) {
   const [openCard, setOpenCard] = useState<string | null>(tenant?.dedicated_phone_number ? null : 'phone');
   const toggleCard = (id: string) => setOpenCard(prev => prev === id ? null : id);
 
@@ -2882,6 +2896,30 @@ function CommsSubAccordion({ tenant, onSaved, onProvisioned }: { tenant: any; on
         </div>
       </SubAccordionCard>
 
+      <SubAccordionCard
+        icon={IconClock}
+        title="Automated Sending"
+        subtitle="Quiet hours and daily limits for auto-send workflows"
+        isOpen={openCard === 'delivery'}
+        onToggle={() => toggleCard('delivery')}
+      >
+        <div className="pt-3">
+          <WorkflowDeliverySection tenant={tenant} onSaved={onSaved} />
+        </div>
+      </SubAccordionCard>
+
+      <SubAccordionCard
+        icon={IconMessage}
+        title="Opt-Outs"
+        subtitle="Numbers that replied STOP or were opted out"
+        isOpen={openCard === 'optouts'}
+        onToggle={() => toggleCard('optouts')}
+      >
+        <div className="pt-3">
+          {openCard === 'optouts' && <SmsOptOutsSection canEdit={canEditOptOuts} />}
+        </div>
+      </SubAccordionCard>
+
       <SubAccordionCard
         icon={IconSparkles}
         title="Sunny's Personality"
@@ -3404,6 +3442,90 @@ function MessagingAISection({ tenant, onSaved }: { tenant: any; onSaved: () => v
   );
 }
 
+// ============================================================================
+// Workflow Delivery Section
+// ============================================================================
+
+const HOUR_OPTIONS = Array.from({ length: 24 }, (_, h) => ({
+  value: String(h),
+  label: `${h % 12 === 0 ? 12 : h % 12}:00 ${h < 12 ? 'AM' : 'PM'}`,
+}));
+
+function WorkflowDeliverySection({ tenant, onSaved }: { tenant: any; onSaved: () => void }) {
+  const [quietStart, setQuietStart] = useState<number>(tenant?.workflow_quiet_hours_start ?? 21);
+  const [quietEnd, setQuietEnd] = useState<number>(tenant?.workflow_quiet_hours_end ?? 8);
+  const [dailyCap, setDailyCap] = useState<string>(String(tenant?.workflow_daily_send_cap ?? 200));
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    const cap = parseInt(dailyCap, 10);
+    if (isNaN(cap) || cap < 0) {
+      toast.error('Daily limit must be 0 or more');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const supabase = createClient();
+      const { error } = await supabase
+        .from('tenants')
+        .update({
+          workflow_quiet_hours_start: quietStart,
+          workflow_quiet_hours_end: quietEnd,
+          workflow_daily_send_cap: cap,
+        })
+        .eq('id', tenant.id);
+
+      if (error) throw error;
+      toast.success('Sending settings saved');
+      onSaved();
+    } catch (err: any) {
+      console.error('Failed to save sending settings:', err);
+      toast.error('Failed to save sending settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <p className="text-xs text-[var(--text-tertiary)] mb-4">
+        Workflows set to auto-send deliver due messages in the background. Messages that come due during quiet hours wait until quiet hours end.
+      </p>
+
+      <div className="grid grid-cols-2 gap-3 mb-4">
+        <Select
+          label="Quiet hours start"
+          value={String(quietStart)}
+          onChange={(e) => setQuietStart(parseInt(e.target.value, 10))}
+          options={HOUR_OPTIONS}
+        />
+        <Select
+          label="Quiet hours end"
+          value={String(quietEnd)}
+          onChange={(e) => setQuietEnd(parseInt(e.target.value, 10))}
+          options={HOUR_OPTIONS}
+        />
+      </div>
+
+      <Input
+        label="Daily automated message limit"
+        type="number"
+        min={0}
+        value={dailyCap}
+        onChange={(e) => setDailyCap(e.target.value)}
+        helperText="Messages over the limit roll over to the next run. Set to 0 to pause all automated sending."
+      />
+
+      <div className="flex justify-end mt-4">
+        <Button variant="primary" onClick={handleSave} loading={saving}>
+          Save Sending Settings
+        </Button>
+      </div>
+    </div>
+  );
+}
+
 // ============================================================================
 // Pricing Tiers Section
 // ============================================================================
@@ -0,0 +1,550 @@
+// ============================================================================
+// Shifts Page — src/app/dashboard/shifts/page.tsx
+// ============================================================================
+// The week's staff schedule and timesheet. Managers assign shifts per event
+// or store day and correct time clock punches; everyone sees the schedule,
+// their own timesheet, and can add a number for shift reminder texts.
+// Clocking in and out happens from the POS header.
+// ============================================================================
+
+'use client';
+
+import { useEffect, useState, useCallback, useMemo } from 'react';
+import { toast } from 'sonner';
+import { createClient } from '@/lib/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import {
+  getZonedParts,
+  resolveTimeZone,
+  startOfDayInZone,
+  startOfWeekInZone,
+  toLocalDateString,
+  zonedTimeToUtc,
+} from '@/lib/timezone';
+import { SHIFT_REMINDER_LEAD_HOURS, formatDuration, workedMinutes } from '@/lib/shifts';
+import { Button, Card, CardHeader, CardTitle, CardContent } from '@/components/ui';
+import type { Event, StaffShift, TenantMember, TimeEntry } from '@/types';
+
+// ————————————————————————————————————————————————
+// Helpers
+// ————————————————————————————————————————————————
+
+type ShiftsTab = 'schedule' | 'timesheet';
+
+type MemberRow = Pick<TenantMember, 'id' | 'user_id' | 'display_name' | 'invited_email' | 'accepted_at' | 'phone'>;
+
+type EventRow = Pick<Event, 'id' | 'name' | 'start_time' | 'end_time' | 'time_zone'>;
+
+const inputClass =
+  'h-9 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]';
+
+const memberLabel = (m: MemberRow | undefined) => m?.display_name || m?.invited_email || 'Team member';
+
+/** HH:MM wall-clock time of `iso` in `timeZone` */
+function localTime(iso: string, timeZone: string): string {
+  const p = getZonedParts(new Date(iso), timeZone);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}
+
+/** YYYY-MM-DD + HH:MM in `timeZone` → ISO */
+function fromLocal(date: string, time: string, timeZone: string, dayOffset = 0): string {
+  const [y, m, d] = date.split('-').map(Number);
+  const [h, min] = time.split(':').map(Number);
+  return zonedTimeToUtc(y, m, d + dayOffset, h, min, timeZone).toISOString();
+}
+
+const timeLabel = (iso: string, timeZone: string) =>
+  new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+
+// ————————————————————————————————————————————————
+// Page
+// ————————————————————————————————————————————————
+
+export default function ShiftsPage() {
+  const { tenant, can } = useTenant();
+  const supabase = useMemo(() => createClient(), []);
+  const isManager = can('reports:view');
+  const timeZone = resolveTimeZone(tenant);
+
+  const [activeTab, setActiveTab] = useState<ShiftsTab>('schedule');
+  const [weekStart, setWeekStart] = useState(() => startOfWeekInZone(new Date(), timeZone));
+  const weekEnd = useMemo(() => startOfDayInZone(weekStart, timeZone, 7), [weekStart, timeZone]);
+  const days = useMemo(() => {
+    const p = getZonedParts(weekStart, timeZone);
+    return Array.from({ length: 7 }, (_, i) =>
+      toLocalDateString(zonedTimeToUtc(p.year, p.month, p.day + i, 12, 0, timeZone), timeZone)
+    );
+  }, [weekStart, timeZone]);
+
+  const [members, setMembers] = useState<MemberRow[]>([]);
+  const [myMemberId, setMyMemberId] = useState<string | null>(null);
+  const [events, setEvents] = useState<EventRow[]>([]);
+  const [shifts, setShifts] = useState<StaffShift[]>([]);
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [newShift, setNewShift] = useState({ member_id: '', event_id: '', date: days[0], start: '10:00', end: '18:00', notes: '' });
+  const [savingShift, setSavingShift] = useState(false);
+  const [myPhone, setMyPhone] = useState('');
+  const [savingPhone, setSavingPhone] = useState(false);
+  const [editingEntry, setEditingEntry] = useState<{ id: string; date: string; clockIn: string; clockOut: string; breakMinutes: string } | null>(null);
+
+  // The tenant's zone arrives after first render
+  useEffect(() => { setWeekStart(startOfWeekInZone(new Date(), timeZone)); }, [timeZone]);
+
+  // ── Load ──
+
+  useEffect(() => {
+    if (!tenant) return;
+    (async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const [{ data: memberRows }, { data: eventRows }] = await Promise.all([
+        supabase
+          .from('tenant_members')
+          .select('id, user_id, display_name, invited_email, accepted_at, phone')
+          .eq('tenant_id', tenant.id),
+        supabase
+          .from('events')
+          .select('id, name, start_time, end_time, time_zone')
+          .eq('tenant_id', tenant.id)
+          .order('start_time', { ascending: false })
+          .limit(100),
+      ]);
+      const accepted = ((memberRows || []) as MemberRow[]).filter((m) => m.accepted_at);
+      setMembers(accepted);
+      const me = accepted.find((m) => m.user_id === user?.id);
+      setMyMemberId(me?.id || null);
+      setMyPhone(me?.phone || '');
+      setEvents((eventRows || []) as EventRow[]);
+    })();
+  }, [tenant, supabase]);
+
+  const fetchWeek = useCallback(async () => {
+    if (!tenant) return;
+    setLoading(true);
+    const [{ data: shiftRows }, { data: entryRows }] = await Promise.all([
+      supabase
+        .from('staff_shifts')
+        .select('*')
+        .eq('tenant_id', tenant.id)
+        .gte('starts_at', weekStart.toISOString())
+        .lt('starts_at', weekEnd.toISOString())
+        .order('starts_at', { ascending: true }),
+      supabase
+        .from('time_entries')
+        .select('*')
+        .eq('tenant_id', tenant.id)
+        .gte('clock_in_at', weekStart.toISOString())
+        .lt('clock_in_at', weekEnd.toISOString())
+        .order('clock_in_at', { ascending: true }),
+    ]);
+    setShifts((shiftRows || []) as StaffShift[]);
+    setEntries((entryRows || []) as TimeEntry[]);
+    setLoading(false);
+  }, [tenant, supabase, weekStart, weekEnd]);
+
+  useEffect(() => { fetchWeek(); }, [fetchWeek]);
+
+  const memberById = useMemo(() => new Map(members.map((m) => [m.id, m])), [members]);
+  const eventById = useMemo(() => new Map(events.map((e) => [e.id, e])), [events]);
+  const zoneFor = (eventId: string | null) => resolveTimeZone(tenant, eventId ? eventById.get(eventId) : null);
+
+  const shiftWeek = (weeks: number) => setWeekStart(startOfDayInZone(weekStart, timeZone, weeks * 7));
+
+  // ── Shifts ──
+
+  const pickEvent = (eventId: string) => {
+    const ev = eventById.get(eventId);
+    if (!ev) { setNewShift({ ...newShift, event_id: '' }); return; }
+    const zone = resolveTimeZone(tenant, ev);
+    setNewShift({
+      ...newShift,
+      event_id: eventId,
+      date: toLocalDateString(new Date(ev.start_time), zone),
+      start: localTime(ev.start_time, zone),
+      end: ev.end_time ? localTime(ev.end_time, zone) : newShift.end,
+    });
+  };
+
+  const addShift = async () => {
+    if (!tenant) return;
+    if (!newShift.member_id || !newShift.date || !newShift.start || !newShift.end) {
+      toast.error('Pick a team member, a date and the shift times');
+      return;
+    }
+    const zone = zoneFor(newShift.event_id || null);
+    const startsAt = fromLocal(newShift.date, newShift.start, zone);
+    // An end time before the start runs past midnight
+    const endsAt = fromLocal(newShift.date, newShift.end, zone, newShift.end <= newShift.start ? 1 : 0);
+
+    setSavingShift(true);
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase.from('staff_shifts').insert({
+      tenant_id: tenant.id,
+      member_id: newShift.member_id,
+      event_id: newShift.event_id || null,
+      starts_at: startsAt,
+      ends_at: endsAt,
+      notes: newShift.notes.trim() || null,
+      created_by: user?.id || null,
+    });
+    setSavingShift(false);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Shift added');
+    setNewShift({ ...newShift, notes: '' });
+    fetchWeek();
+  };
+
+  const deleteShift = async (shift: StaffShift) => {
+    if (!confirm(`Remove ${memberLabel(memberById.get(shift.member_id))}'s shift?`)) return;
+    const { error } = await supabase.from('staff_shifts').delete().eq('id', shift.id);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Shift removed');
+    fetchWeek();
+  };
+
+  const savePhone = async () => {
+    setSavingPhone(true);
+    try {
+      const res = await fetch('/api/team/me', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone: myPhone }),
+      });
+      const data = await res.json();
+      if (!res.ok) { toast.error(data.error || 'Failed to save'); return; }
+      setMyPhone(data.phone || '');
+      toast.success(data.phone ? 'Shift reminders will be texted to you' : 'Shift reminder texts turned off');
+    } catch {
+      toast.error('Failed to save');
+    } finally {
+      setSavingPhone(false);
+    }
+  };
+
+  // ── Timesheet ──
+
+  const startEditEntry = (entry: TimeEntry) => {
+    const zone = zoneFor(entry.event_id);
+    setEditingEntry({
+      id: entry.id,
+      date: toLocalDateString(new Date(entry.clock_in_at), zone),
+      clockIn: localTime(entry.clock_in_at, zone),
+      clockOut: entry.clock_out_at ? localTime(entry.clock_out_at, zone) : '',
+      breakMinutes: String(entry.break_minutes),
+    });
+  };
+
+  const saveEntry = async (entry: TimeEntry) => {
+    if (!editingEntry) return;
+    const zone = zoneFor(entry.event_id);
+    const breakMinutes = Math.round(Number(editingEntry.breakMinutes || 0));
+    if (!editingEntry.clockIn || !Number.isFinite(breakMinutes) || breakMinutes < 0) {
+      toast.error('Enter a clock-in time and break minutes');
+      return;
+    }
+    const clockIn = fromLocal(editingEntry.date, editingEntry.clockIn, zone);
+    const clockOut = editingEntry.clockOut
+      ? fromLocal(editingEntry.date, editingEntry.clockOut, zone, editingEntry.clockOut <= editingEntry.clockIn ? 1 : 0)
+      : null;
+    const { error } = await supabase
+      .from('time_entries')
+      .update({
+        clock_in_at: clockIn,
+        clock_out_at: clockOut,
+        break_minutes: breakMinutes,
+        ...(clockOut ? { break_started_at: null } : {}),
+      })
+      .eq('id', entry.id);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Time entry updated');
+    setEditingEntry(null);
+    fetchWeek();
+  };
+
+  const deleteEntry = async (entry: TimeEntry) => {
+    if (!confirm('Delete this time entry? Its hours come off payroll and labor cost.')) return;
+    const { error } = await supabase.from('time_entries').delete().eq('id', entry.id);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Time entry deleted');
+    fetchWeek();
+  };
+
+  const timesheet = useMemo(() => {
+    const byMember = new Map<string, TimeEntry[]>();
+    for (const e of entries) byMember.set(e.member_id, [...(byMember.get(e.member_id) || []), e]);
+    return [...byMember.entries()]
+      .map(([memberId, rows]) => ({
+        memberId,
+        rows,
+        minutes: rows.reduce((sum, r) => sum + workedMinutes(r), 0),
+      }))
+      .sort((a, b) => memberLabel(memberById.get(a.memberId)).localeCompare(memberLabel(memberById.get(b.memberId))));
+  }, [entries, memberById]);
+
+  if (!tenant) {
+    return <div className="text-text-tertiary py-12 text-center">Loading...</div>;
+  }
+
+  const weekLabel = `${new Date(`${days[0]}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${new Date(`${days[6]}T12:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  return (
+    <div className="space-y-6 max-w-4xl">
+      <div>
+        <h1 className="text-2xl font-semibold text-text-primary">Shifts</h1>
+        <p className="text-text-tertiary text-sm mt-1">
+          {isManager ? 'Schedule your team and review their hours.' : 'Your schedule and hours. Clock in from the POS.'}
+        </p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        {/* Tab switcher */}
+        <div className="flex gap-1 p-1 bg-[var(--surface-subtle)] rounded-lg w-fit">
+          {(['schedule', 'timesheet'] as ShiftsTab[]).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 rounded-md text-sm font-medium transition-colors ${
+                activeTab === tab
+                  ? 'bg-[var(--surface-base)] text-[var(--text-primary)] shadow-sm'
+                  : 'text-[var(--text-secondary)] hover:text-[var(--text-primary)]'
+              }`}
+            >
+              {tab === 'schedule' ? 'Schedule' : 'Timesheet'}
+            </button>
+          ))}
+        </div>
+
+        {/* Week */}
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={() => shiftWeek(-1)}>←</Button>
+          <span className="text-sm font-medium text-[var(--text-primary)] min-w-[11rem] text-center">{weekLabel}</span>
+          <Button variant="ghost" size="sm" onClick={() => shiftWeek(1)}>→</Button>
+        </div>
+      </div>
+
+      {activeTab === 'schedule' ? (
+        <>
+          {isManager && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Add Shift</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                <div className="grid grid-cols-2 sm:grid-cols-[1fr_1fr_auto] gap-2">
+                  <select
+                    className={inputClass}
+                    value={newShift.member_id}
+                    onChange={(e) => setNewShift({ ...newShift, member_id: e.target.value })}
+                  >
+                    <option value="">Team member</option>
+                    {members.map((m) => (
+                      <option key={m.id} value={m.id}>{memberLabel(m)}</option>
+                    ))}
+                  </select>
+                  <select className={inputClass} value={newShift.event_id} onChange={(e) => pickEvent(e.target.value)}>
+                    <option value="">Store</option>
+                    {events.map((e) => (
+                      <option key={e.id} value={e.id}>{e.name}</option>
+                    ))}
+                  </select>
+                  <input
+                    type="date"
+                    className={`${inputClass} col-span-2 sm:col-span-1`}
+                    value={newShift.date}
+                    onChange={(e) => setNewShift({ ...newShift, date: e.target.value })}
+                  />
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="time"
+                    className={inputClass}
+                    value={newShift.start}
+                    onChange={(e) => setNewShift({ ...newShift, start: e.target.value })}
+                  />
+                  <span className="text-sm text-[var(--text-tertiary)]">to</span>
+                  <input
+                    type="time"
+                    className={inputClass}
+                    value={newShift.end}
+                    onChange={(e) => setNewShift({ ...newShift, end: e.target.value })}
+                  />
+                  <input
+                    className={`${inputClass} flex-1 min-w-[10rem]`}
+                    placeholder="Notes (optional)"
+                    value={newShift.notes}
+                    onChange={(e) => setNewShift({ ...newShift, notes: e.target.value })}
+                  />
+                  <Button variant="primary" size="sm" onClick={addShift} disabled={savingShift}>
+                    Add
+                  </Button>
+                </div>
+                <p className="text-xs text-[var(--text-tertiary)]">
+                  Team members get a push and text reminder {SHIFT_REMINDER_LEAD_HOURS} hours before their shift starts.
+                </p>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardContent className="py-4">
+              {loading ? (
+                <div className="py-8 text-center">
+                  <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+                </div>
+              ) : (
+                <div className="divide-y divide-[var(--border-subtle)]">
+                  {days.map((day) => {
+                    const dayShifts = shifts.filter((s) => toLocalDateString(new Date(s.starts_at), zoneFor(s.event_id)) === day);
+                    return (
+                      <div key={day} className="py-3 first:pt-0 last:pb-0">
+                        <p className="text-xs font-medium text-[var(--text-tertiary)] uppercase tracking-wider mb-1.5">
+                          {new Date(`${day}T12:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' })}
+                        </p>
+                        {dayShifts.length === 0 ? (
+                          <p className="text-sm text-[var(--text-tertiary)]">No shifts</p>
+                        ) : (
+                          dayShifts.map((s) => {
+                            const zone = zoneFor(s.event_id);
+                            const mine = s.member_id === myMemberId;
+                            return (
+                              <div key={s.id} className="flex items-center justify-between py-1.5">
+                                <div className="min-w-0">
+                                  <p className={`text-sm ${mine ? 'font-semibold text-[var(--accent-primary)]' : 'text-[var(--text-primary)]'}`}>
+                                    {memberLabel(memberById.get(s.member_id))}{mine && ' (you)'}
+                                  </p>
+                                  <p className="text-xs text-[var(--text-tertiary)]">
+                                    {timeLabel(s.starts_at, zone)} – {timeLabel(s.ends_at, zone)} · {s.event_id ? eventById.get(s.event_id)?.name || 'Event' : 'Store'}
+                                    {s.notes && ` · ${s.notes}`}
+                                  </p>
+                                </div>
+                                {isManager && (
+                                  <button onClick={() => deleteShift(s)} className="text-xs text-red-500 hover:underline shrink-0">
+                                    Remove
+                                  </button>
+                                )}
+                              </div>
+                            );
+                          })
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {myMemberId && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-[var(--text-secondary)]">Text my shift reminders to</span>
+              <input
+                type="tel"
+                className={`${inputClass} w-44`}
+                placeholder="Mobile number"
+                value={myPhone}
+                onChange={(e) => setMyPhone(e.target.value)}
+              />
+              <Button variant="secondary" size="sm" onClick={savePhone} disabled={savingPhone}>
+                Save
+              </Button>
+            </div>
+          )}
+        </>
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Timesheet</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <div className="py-8 text-center">
+                <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+              </div>
+            ) : timesheet.length === 0 ? (
+              <p className="py-4 text-sm text-[var(--text-tertiary)] text-center">No time clocked this week.</p>
+            ) : (
+              <div className="space-y-5">
+                {timesheet.map(({ memberId, rows, minutes }) => (
+                  <div key={memberId}>
+                    <div className="flex items-center justify-between border-b border-[var(--border-default)] pb-1.5">
+                      <p className="text-sm font-semibold text-[var(--text-primary)]">{memberLabel(memberById.get(memberId))}</p>
+                      <p className="text-sm font-semibold text-[var(--text-primary)]">{formatDuration(minutes)}</p>
+                    </div>
+                    {rows.map((entry) => {
+                      const zone = zoneFor(entry.event_id);
+                      const editing = editingEntry?.id === entry.id;
+                      return (
+                        <div key={entry.id} className="py-2 border-b border-[var(--border-subtle)] last:border-b-0">
+                          <div className="flex items-center justify-between gap-3">
+                            <div className="min-w-0">
+                              <p className="text-sm text-[var(--text-primary)]">
+                                {new Date(entry.clock_in_at).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone: zone })}
+                                {' · '}
+                                {entry.event_id ? eventById.get(entry.event_id)?.name || 'Event' : 'Store'}
+                              </p>
+                              <p className="text-xs text-[var(--text-tertiary)]">
+                                {timeLabel(entry.clock_in_at, zone)} – {entry.clock_out_at ? timeLabel(entry.clock_out_at, zone) : 'on the clock'}
+                                {entry.break_minutes > 0 && ` · ${formatDuration(entry.break_minutes)} break`}
+                                {entry.break_started_at && !entry.clock_out_at && ' · on break'}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-3 shrink-0">
+                              <span className="text-sm text-[var(--text-secondary)]">{formatDuration(workedMinutes(entry))}</span>
+                              {isManager && !editing && (
+                                <>
+                                  <button onClick={() => startEditEntry(entry)} className="text-xs text-[var(--accent-primary)] hover:underline">
+                                    Edit
+                                  </button>
+                                  <button onClick={() => deleteEntry(entry)} className="text-xs text-red-500 hover:underline">
+                                    Delete
+                                  </button>
+                                </>
+                              )}
+                            </div>
+                          </div>
+                          {editing && editingEntry && (
+                            <div className="flex flex-wrap items-center gap-2 mt-2">
+                              <input
+                                type="time"
+                                className={inputClass}
+                                value={editingEntry.clockIn}
+                                onChange={(e) => setEditingEntry({ ...editingEntry, clockIn: e.target.value })}
+                              />
+                              <span className="text-sm text-[var(--text-tertiary)]">to</span>
+                              <input
+                                type="time"
+                                className={inputClass}
+                                value={editingEntry.clockOut}
+                                onChange={(e) => setEditingEntry({ ...editingEntry, clockOut: e.target.value })}
+                              />
+                              <input
+                                type="number"
+                                min="0"
+                                step="5"
+                                className={`${inputClass} w-24`}
+                                placeholder="Break min"
+                                value={editingEntry.breakMinutes}
+                                onChange={(e) => setEditingEntry({ ...editingEntry, breakMinutes: e.target.value })}
+                              />
+                              <span className="text-xs text-[var(--text-tertiary)]">min break</span>
+                              <Button variant="ghost" size="sm" onClick={() => setEditingEntry(null)}>Cancel</Button>
+                              <Button variant="primary" size="sm" onClick={() => saveEntry(entry)}>Save</Button>
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+            )}
+            <p className="text-xs text-[var(--text-tertiary)] pt-3">
+              Hours worked, less breaks, go to payroll and to labor cost on the event P&amp;L when the entry is clocked out.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+// ============================================================================
+// AppointmentBooking — Public slot picker for the artist storefront
+// ============================================================================
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button, Input, Textarea } from '@/components/ui';
+import { toLocalDateString } from '@/lib/timezone';
+import { formatAppointmentTime } from '@/lib/appointments';
+
+export interface AppointmentOptions {
+  time_zone: string;
+  minutes_per_piece: number;
+  max_pieces: number;
+  max_days_ahead: number;
+  deposit_amount: number;
+  staff: { id: string; name: string }[];
+}
+
+interface Slot {
+  starts_at: string;
+  ends_at: string;
+  member_ids: string[];
+}
+
+function addDays(dateStr: string, days: number): string {
+  const [y, m, d] = dateStr.split('-').map((n) => parseInt(n, 10));
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+export default function AppointmentBooking({
+  tenantId,
+  slug,
+  options,
+}: {
+  tenantId: string;
+  slug: string;
+  options: AppointmentOptions;
+}) {
+  const today = toLocalDateString(new Date(), options.time_zone);
+  const [pieces, setPieces] = useState(1);
+  const [memberId, setMemberId] = useState('');
+  const [date, setDate] = useState(today);
+  const [slots, setSlots] = useState<Slot[]>([]);
+  const [loadingSlots, setLoadingSlots] = useState(false);
+  const [selected, setSelected] = useState<Slot | null>(null);
+  const [form, setForm] = useState({ name: '', phone: '', email: '', notes: '', smsConsent: true });
+  const [submitting, setSubmitting] = useState(false);
+  const [formError, setFormError] = useState('');
+  const [booked, setBooked] = useState<string | null>(null);
+
+  // ── Load open slots ──
+  useEffect(() => {
+    if (!date) return;
+    let cancelled = false;
+    setLoadingSlots(true);
+    setSelected(null);
+    const params = new URLSearchParams({ slug, date, pieces: String(pieces) });
+    if (memberId) params.set('memberId', memberId);
+    fetch(`/api/public/appointments?${params}`)
+      .then((res) => (res.ok ? res.json() : { slots: [] }))
+      .then((data) => { if (!cancelled) setSlots(data.slots || []); })
+      .catch(() => { if (!cancelled) setSlots([]); })
+      .finally(() => { if (!cancelled) setLoadingSlots(false); });
+    return () => { cancelled = true; };
+  }, [slug, date, pieces, memberId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+    setFormError('');
+
+    if (!form.name.trim() || !form.phone.trim()) {
+      setFormError('Name and phone number are required.');
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const res = await fetch('/api/public/appointments', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          tenantId,
+          startsAt: selected.starts_at,
+          pieces,
+          memberId: memberId || null,
+          name: form.name.trim(),
+          phone: form.phone.trim(),
+          email: form.email.trim() || null,
+          notes: form.notes.trim() || null,
+          smsConsent: form.smsConsent,
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        if (res.status === 409) {
+          setSlots((prev) => prev.filter((s) => s.starts_at !== selected.starts_at));
+          setSelected(null);
+        }
+        throw new Error(data.error || 'Failed to book');
+      }
+      if (data.checkoutUrl) {
+        window.location.href = data.checkoutUrl;
+        return;
+      }
+      setBooked(selected.starts_at);
+    } catch (err: any) {
+      setFormError(err.message || 'Something went wrong. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (booked) {
+    return (
+      <div className="bg-[var(--surface-raised)] border border-[var(--border-default)] rounded-xl p-6 text-center space-y-2">
+        <div className="w-12 h-12 mx-auto rounded-full bg-green-50 flex items-center justify-center">
+          <svg className="w-6 h-6 text-green-600" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M4.5 12.75l6 6 9-13.5" />
+          </svg>
+        </div>
+        <h3 className="text-base font-semibold text-[var(--text-primary)]">You&apos;re Booked!</h3>
+        <p className="text-sm text-[var(--text-secondary)]">
+          {formatAppointmentTime(booked, options.time_zone)}
+        </p>
+      </div>
+    );
+  }
+
+  const selectClass = 'w-full px-3 py-2 text-sm border border-[var(--border-default)] rounded-lg bg-[var(--surface-base)] text-[var(--text-primary)]';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-[var(--surface-raised)] border border-[var(--border-default)] rounded-xl p-4 space-y-3">
+      <div className={`grid gap-3 ${options.staff.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+        <div>
+          <label className="block text-sm font-medium text-[var(--text-primary)] mb-1">Pieces</label>
+          <select className={selectClass} value={pieces} onChange={(e) => setPieces(parseInt(e.target.value, 10))}>
+            {Array.from({ length: Math.max(1, options.max_pieces) }, (_, i) => i + 1).map((n) => (
+              <option key={n} value={n}>
+                {n} piece{n === 1 ? '' : 's'} · about {n * options.minutes_per_piece} min
+              </option>
+            ))}
+          </select>
+        </div>
+        {options.staff.length > 1 && (
+          <div>
+            <label className="block text-sm font-medium text-[var(--text-primary)] mb-1">Artist</label>
+            <select className={selectClass} value={memberId} onChange={(e) => setMemberId(e.target.value)}>
+              <option value="">First available</option>
+              {options.staff.map((s) => (
+                <option key={s.id} value={s.id}>{s.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+
+      <Input
+        label="Date"
+        type="date"
+        min={today}
+        max={addDays(today, options.max_days_ahead)}
+        value={date}
+        onChange={(e) => setDate(e.target.value)}
+      />
+
+      <div>
+        <label className="block text-sm font-medium text-[var(--text-primary)] mb-1">Time</label>
+        {loadingSlots ? (
+          <p className="text-sm text-[var(--text-tertiary)] py-2">Checking availability…</p>
+        ) : slots.length === 0 ? (
+          <p className="text-sm text-[var(--text-tertiary)] py-2">No openings this day — try another date.</p>
+        ) : (
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2">
+            {slots.map((slot) => {
+              const isSelected = selected?.starts_at === slot.starts_at;
+              return (
+                <button
+                  key={slot.starts_at}
+                  type="button"
+                  onClick={() => setSelected(slot)}
+                  className={`px-2 py-2 text-sm rounded-lg border transition-colors ${
+                    isSelected
+                      ? 'bg-[var(--accent-primary)] text-[var(--text-on-accent)] border-[var(--accent-primary)]'
+                      : 'bg-[var(--surface-base)] text-[var(--text-primary)] border-[var(--border-default)] hover:border-[var(--accent-primary)]'
+                  }`}
+                >
+                  {new Date(slot.starts_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: options.time_zone })}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <>
+          <Input
+            label="Your Name"
+            required
+            placeholder="Jane Smith"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+          <Input
+            label="Phone Number"
+            required
+            type="tel"
+            placeholder="(555) 123-4567"
+            value={form.phone}
+            onChange={(e) => setForm({ ...form, phone: e.target.value })}
+          />
+          <Input
+            label="Email (optional)"
+            type="email"
+            placeholder="jane@example.com"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+          />
+          <Textarea
+            label="Notes (optional)"
+            placeholder="Anything we should know?"
+            rows={2}
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+          />
+          <label className="flex items-start gap-2 text-xs text-[var(--text-secondary)]">
+            <input
+              type="checkbox"
+              className="mt-0.5"
+              checked={form.smsConsent}
+              onChange={(e) => setForm({ ...form, smsConsent: e.target.checked })}
+            />
+            Text me a confirmation and a reminder before my appointment. Msg &amp; data rates may apply.
+          </label>
+        </>
+      )}
+
+      {formError && (
+        <p className="text-sm text-red-600">{formError}</p>
+      )}
+
+      <Button type="submit" variant="primary" className="w-full" loading={submitting} disabled={!selected}>
+        {options.deposit_amount > 0
+          ? `Book & Pay $${options.deposit_amount.toFixed(2)} Deposit`
+          : 'Book Appointment'}
+      </Button>
+    </form>
+  );
+}
@@ -11,6 +11,7 @@ import { applyTheme } from '@/lib/theme';
 import { getThemeById, DEFAULT_THEME_ID } from '@/lib/themes';
 import { Button, Input, Textarea } from '@/components/ui';
 import type { ProfileSettings } from '@/types';
+import AppointmentBooking, { type AppointmentOptions } from './AppointmentBooking';
 
 interface TenantProfile {
   id: string;
@@ -77,6 +78,8 @@ export default function ProfilePage({ slug }: { slug: string }) {
   const [services, setServices] = useState<ServiceItem[]>([]);
   const [tiers, setTiers] = useState<TierItem[]>([]);
   const [events, setEvents] = useState<EventItem[]>([]);
+  const [appointmentOptions, setAppointmentOptions] = useState<AppointmentOptions | null>(null);
+  const [depositReturn, setDepositReturn] = useState<'success' | 'cancelled' | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [logoError, setLogoError] = useState(false);
@@ -110,6 +113,7 @@ export default function ProfilePage({ slug }: { slug: string }) {
         setServices(data.services || []);
         setTiers(data.tiers || []);
         setEvents(data.events || []);
+        setAppointmentOptions(data.appointments || null);
       } catch {
         setError('error');
       } finally {
@@ -119,6 +123,12 @@ export default function ProfilePage({ slug }: { slug: string }) {
     load();
   }, [slug]);
 
+  // Returning from an appointment deposit checkout
+  useEffect(() => {
+    const result = new URLSearchParams(window.location.search).get('appointment');
+    if (result === 'success' || result === 'cancelled') setDepositReturn(result);
+  }, []);
+
   // Apply theme
   useEffect(() => {
     const themeId = tenant?.theme_id || DEFAULT_THEME_ID;
@@ -329,6 +339,26 @@ export default function ProfilePage({ slug }: { slug: string }) {
           </section>
         )}
 
+        {/* ── Book an Appointment ──────────────────────────────── */}
+        {appointmentOptions && (
+          <section id="book-appointment" className="space-y-3">
+            <h2 className="text-lg font-semibold text-[var(--text-primary)]" style={{ fontFamily: 'var(--font-heading)' }}>
+              Book an Appointment
+            </h2>
+            {depositReturn === 'success' && (
+              <p className="text-sm text-green-700 bg-green-50 rounded-lg px-3 py-2">
+                Deposit received — your appointment is confirmed!
+              </p>
+            )}
+            {depositReturn === 'cancelled' && (
+              <p className="text-sm text-amber-800 bg-amber-50 rounded-lg px-3 py-2">
+                Your deposit wasn&apos;t completed, so the appointment isn&apos;t booked yet.
+              </p>
+            )}
+            <AppointmentBooking tenantId={tenant.id} slug={slug} options={appointmentOptions} />
+          </section>
+        )}
+
         {/* ── Book a Party ─────────────────────────────────────── */}
         {settings?.show_party_booking !== false && (
           <section id="book-party" className="space-y-3">
@@ -40,6 +40,8 @@ export default function RsvpPage({ slug, partyId }: { slug: string; partyId: str
 
   // RSVP form
   const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [smsConsent, setSmsConsent] = useState(false);
   const [attending, setAttending] = useState(true);
   const [plusOnes, setPlusOnes] = useState(0);
   const [submitting, setSubmitting] = useState(false);
@@ -88,6 +90,8 @@ export default function RsvpPage({ slug, partyId }: { slug: string; partyId: str
         body: JSON.stringify({
           partyRequestId: partyId,
           name: name.trim(),
+          phone: phone.trim() || null,
+          smsConsent: smsConsent && !!phone.trim(),
           attending,
           plusOnes: attending ? plusOnes : 0,
         }),
@@ -220,6 +224,29 @@ export default function RsvpPage({ slug, partyId }: { slug: string; partyId: str
               onChange={(e) => setName(e.target.value)}
             />
 
+            <Input
+              label="Phone (optional)"
+              type="tel"
+              placeholder="(555) 123-4567"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+            />
+
+            {phone.trim() && (
+              <label className="flex items-start gap-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={smsConsent}
+                  onChange={(e) => setSmsConsent(e.target.checked)}
+                  className="mt-0.5 w-5 h-5 rounded accent-[var(--accent-primary)] cursor-pointer flex-shrink-0"
+                />
+                <span className="text-xs leading-relaxed text-[var(--text-secondary)]">
+                  Text me party updates from {tenant.name}. Message frequency varies. Message and
+                  data rates may apply. Reply STOP to unsubscribe at any time, HELP for help.
+                </span>
+              </label>
+            )}
+
             {/* Attending toggle */}
             <div>
               <label className="block text-sm font-medium text-[var(--text-primary)] mb-2">Will you attend?</label>
@@ -173,135 +173,45 @@ function WaiverPageInner() {
     setError('');
 
     try {
-      // 1. Find or create client
-      let clientId: string | null = null;
-
-      if (form.email) {
-        const { data: existing } = await supabase
-          .from('clients')
-          .select('id')
-          .eq('tenant_id', tenant!.id)
-          .eq('email', form.email)
-          .limit(1)
-          .single();
-
-        if (existing) {
-          clientId = existing.id;
-          // Update name/phone if different
-          await supabase
-            .from('clients')
-            .update({
-              name: form.name,
-              ...(form.phone ? { phone: form.phone } : {}),
-            })
-            .eq('id', existing.id);
-        }
+      // Client, waiver and queue entry are created server-side (throttled)
+      const res = await fetch('/api/waivers/submit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          tenantId: tenant!.id,
+          eventId: form.event_id || null,
+          name: form.name,
+          email: form.email || null,
+          phone: form.phone || null,
+          signatureData,
+          smsConsent,
+        }),
+      });
+      const result = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(res.status === 429
+          ? 'Too many attempts. Please wait a moment and try again.'
+          : result.error || 'Something went wrong');
       }
 
-      if (!clientId) {
-        const { data: newClient } = await supabase
-          .from('clients')
-          .insert({
-            tenant_id: tenant!.id,
-            name: form.name,
-            email: form.email || null,
-            phone: form.phone || null,
-          })
-          .select()
-          .single();
-        clientId = newClient?.id || null;
-      }
-
-      // 2. Create waiver
       const resolvedEventId = form.event_id || null;
+      const waiver = { id: result.waiverId as string, signed_at: result.signedAt as string };
+      const didCreateQueue = !!result.queueEntryId;
 
-      const { data: waiver, error: waiverErr } = await supabase
-        .from('waivers')
-        .insert({
-          tenant_id: tenant!.id,
-          client_id: clientId,
-          event_id: resolvedEventId,
-          signer_name: form.name,
-          signer_email: form.email || null,
-          waiver_text: tenant!.waiver_text,
-          signature_data: signatureData,
-          sms_consent: smsConsent,
-        })
-        .select()
-        .single();
-
-      if (waiverErr) throw waiverErr;
-
-      // 3. Conditionally create queue entry — only for active, current events
-      let didCreateQueue = false;
-
-      if (resolvedEventId) {
-        // Check if event is active, happening today, and has queue mode on
-        const { data: eventData } = await supabase
-          .from('events')
-          .select('id, is_active, start_time, queue_mode')
-          .eq('id', resolvedEventId)
-          .single();
-
-        const shouldQueue = (() => {
-          if (!eventData || !eventData.is_active) return false;
-          if (!eventData.queue_mode) return false;
-          const startTime = new Date(eventData.start_time);
-          const now = new Date();
-          const twentyFourHoursAgo = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-          const isToday = startTime.toDateString() === now.toDateString();
-          const isRecent = startTime >= twentyFourHoursAgo && startTime <= now;
-          return isToday || isRecent;
-        })();
-
-        if (shouldQueue) {
-          const { count } = await supabase
-            .from('queue_entries')
-            .select('*', { count: 'exact', head: true })
-            .eq('event_id', resolvedEventId)
-            .in('status', ['waiting', 'notified', 'serving']);
-
-          const nextPos = (count || 0) + 1;
-
-          const { data: queueEntry } = await supabase.from('queue_entries').insert({
-            tenant_id: tenant!.id,
-            event_id: resolvedEventId,
-            client_id: clientId,
-            name: form.name,
-            phone: form.phone || null,
-            email: form.email || null,
-            position: nextPos,
-            waiver_id: waiver?.id,
-            sms_consent: smsConsent,
-          }).select('id').single();
-
-          didCreateQueue = true;
-
-          // Send queue position SMS (fire-and-forget, don't block submission)
-          if (queueEntry?.id && smsConsent && form.phone) {
-            fetch('/api/queue/position-notify', {
-              method: 'POST',
-              headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                queueEntryId: queueEntry.id,
-                tenantId: tenant!.id,
-              }),
-            }).catch(() => {}); // silent — don't fail the waiver flow
-          }
-        }
-      }
-
-      setQueueCreated(didCreateQueue);
-
-      // Fire-and-forget auto-tagging
-      if (clientId) {
-        fetch('/api/clients/auto-tag', {
+      // Send queue position SMS (fire-and-forget, don't block submission)
+      if (result.queueEntryId && smsConsent && form.phone) {
+        fetch('/api/queue/position-notify', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ clientId, type: 'waiver' }),
-        }).catch(() => {});
+          body: JSON.stringify({
+            queueEntryId: result.queueEntryId,
+            tenantId: tenant!.id,
+          }),
+        }).catch(() => {}); // silent — don't fail the waiver flow
       }
 
+      setQueueCreated(didCreateQueue);
+
       // Fire-and-forget: email signed waiver PDF copy to customer
       if (form.email && waiver?.id) {
         (async () => {
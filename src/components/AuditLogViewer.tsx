@@ -0,0 +1,217 @@
+// ============================================================================
+// AuditLogViewer — src/components/AuditLogViewer.tsx
+// ============================================================================
+// Filterable, paged view of a tenant's audit log. Used in Settings → Audit
+// Log (/api/audit-log) and the admin tenant panel
+// (/api/admin/tenants/[id]/audit-log); both endpoints take the same filters.
+// ============================================================================
+
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { AUDIT_CATEGORIES, auditActionLabel } from '@/lib/audit';
+import { formatCurrency } from '@/lib/utils';
+import type { AuditLogEntry } from '@/types';
+
+interface AuditLogViewerProps {
+  endpoint: string;
+}
+
+const inputClass =
+  'h-9 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]';
+
+const MONEY_KEY = /price|amount|balance|total|cost/;
+
+function formatKey(key: string): string {
+  const label = key.replace(/_/g, ' ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function formatValue(key: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (MONEY_KEY.test(key) && (typeof value === 'number' || (typeof value === 'string' && !isNaN(Number(value))))) {
+    return formatCurrency(Number(value));
+  }
+  if (Array.isArray(value)) return value.length > 0 ? value.map(String).join(', ') : 'None';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function actorLabel(entry: AuditLogEntry): string {
+  if (entry.actor_type === 'sunny') return entry.actor_name ? `Sunny for ${entry.actor_name}` : 'Sunny';
+  if (entry.actor_type === 'system') return 'System';
+  return entry.actor_name || 'Unknown';
+}
+
+export default function AuditLogViewer({ endpoint }: AuditLogViewerProps) {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [actors, setActors] = useState<{ user_id: string; name: string }[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const [category, setCategory] = useState('');
+  const [actor, setActor] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [search, setSearch] = useState('');
+  const [debouncedSearch, setDebouncedSearch] = useState('');
+
+  useEffect(() => {
+    const t = setTimeout(() => setDebouncedSearch(search.trim()), 300);
+    return () => clearTimeout(t);
+  }, [search]);
+
+  const load = useCallback(async (cursor?: string) => {
+    const params = new URLSearchParams();
+    if (category) params.set('category', category);
+    if (actor) params.set('actor', actor);
+    if (from) params.set('from', from);
+    if (to) params.set('to', to);
+    if (debouncedSearch) params.set('search', debouncedSearch);
+    if (cursor) params.set('cursor', cursor);
+
+    if (cursor) setLoadingMore(true);
+    else setLoading(true);
+    try {
+      const res = await fetch(`${endpoint}?${params}`);
+      if (!res.ok) throw new Error('Failed to load audit log');
+      const data = await res.json();
+      setEntries((prev) => (cursor ? [...prev, ...(data.entries || [])] : data.entries || []));
+      setActors(data.actors || []);
+      setNextCursor(data.next_cursor || null);
+    } catch (err) {
+      console.error('Audit log load error:', err);
+      if (!cursor) setEntries([]);
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }, [endpoint, category, actor, from, to, debouncedSearch]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const hasFilters = !!(category || actor || from || to || search);
+
+  return (
+    <div className="space-y-3">
+      {/* Filters */}
+      <div className="flex flex-wrap gap-2">
+        <select className={inputClass} value={category} onChange={(e) => setCategory(e.target.value)}>
+          <option value="">All actions</option>
+          {AUDIT_CATEGORIES.map((c) => (
+            <option key={c.value} value={c.value}>{c.label}</option>
+          ))}
+        </select>
+        <select className={inputClass} value={actor} onChange={(e) => setActor(e.target.value)}>
+          <option value="">Everyone</option>
+          <option value="sunny">Sunny</option>
+          {actors.map((a) => (
+            <option key={a.user_id} value={a.user_id}>{a.name}</option>
+          ))}
+        </select>
+        <input type="date" className={inputClass} value={from} onChange={(e) => setFrom(e.target.value)} aria-label="From" />
+        <input type="date" className={inputClass} value={to} onChange={(e) => setTo(e.target.value)} aria-label="To" />
+        <input
+          className={`${inputClass} flex-1 min-w-[140px]`}
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search by name..."
+        />
+        {hasFilters && (
+          <button
+            onClick={() => { setCategory(''); setActor(''); setFrom(''); setTo(''); setSearch(''); }}
+            className="px-2 text-xs font-medium text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {/* Entries */}
+      {loading ? (
+        <div className="py-6 text-center">
+          <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+        </div>
+      ) : entries.length === 0 ? (
+        <p className="py-6 text-center text-sm text-[var(--text-tertiary)]">
+          {hasFilters ? 'No entries match these filters.' : 'Nothing recorded yet.'}
+        </p>
+      ) : (
+        <div className="divide-y divide-[var(--border-subtle)] border border-[var(--border-default)] rounded-xl overflow-hidden">
+          {entries.map((entry) => {
+            const expanded = expandedId === entry.id;
+            const keys = [...new Set([...Object.keys(entry.before || {}), ...Object.keys(entry.after || {})])];
+            const metadata = Object.entries(entry.metadata || {}).filter(([, v]) => v !== null && v !== undefined && v !== '');
+            return (
+              <div key={entry.id} className="bg-[var(--surface-base)]">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : entry.id)}
+                  className="w-full flex items-start justify-between gap-3 py-3 px-4 text-left hover:bg-[var(--surface-subtle)] transition-colors"
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm text-[var(--text-primary)]">
+                      <span className="font-medium">{auditActionLabel(entry.action)}</span>
+                      {entry.entity_label && (
+                        <span className="text-[var(--text-secondary)]"> · {entry.entity_label}</span>
+                      )}
+                    </p>
+                    <p className="text-xs text-[var(--text-tertiary)] mt-0.5">{actorLabel(entry)}</p>
+                  </div>
+                  <span className="text-xs text-[var(--text-tertiary)] shrink-0">
+                    {new Date(entry.created_at).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                  </span>
+                </button>
+                {expanded && (
+                  <div className="px-4 pb-3 space-y-2">
+                    {keys.length > 0 && (
+                      <div className="grid grid-cols-[auto_1fr_1fr] gap-x-4 gap-y-1 text-xs bg-[var(--surface-subtle)] rounded-lg p-3">
+                        <span className="text-[var(--text-tertiary)] font-medium" />
+                        <span className="text-[var(--text-tertiary)] font-medium">Before</span>
+                        <span className="text-[var(--text-tertiary)] font-medium">After</span>
+                        {keys.map((key) => (
+                          <Fragment key={key}>
+                            <span className="text-[var(--text-secondary)]">{formatKey(key)}</span>
+                            <span className="text-[var(--text-primary)] break-words">
+                              {entry.before ? formatValue(key, entry.before[key]) : '—'}
+                            </span>
+                            <span className="text-[var(--text-primary)] break-words">
+                              {entry.after ? formatValue(key, entry.after[key]) : '—'}
+                            </span>
+                          </Fragment>
+                        ))}
+                      </div>
+                    )}
+                    {metadata.length > 0 && (
+                      <div className="text-xs text-[var(--text-secondary)] space-y-0.5">
+                        {metadata.map(([key, value]) => (
+                          <p key={key}>
+                            <span className="text-[var(--text-tertiary)]">{formatKey(key)}:</span> {formatValue(key, value)}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {nextCursor && !loading && (
+        <div className="text-center">
+          <button
+            onClick={() => load(nextCursor)}
+            disabled={loadingMore}
+            className="text-sm font-medium text-[var(--accent-primary)] hover:underline disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
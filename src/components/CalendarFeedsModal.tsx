@@ -0,0 +1,173 @@
+// ============================================================================
+// Calendar Feeds Modal — src/components/CalendarFeedsModal.tsx
+// ============================================================================
+// Subscribe-in-your-calendar URLs for events, parties and appointments.
+// The studio feed (owners/admins) covers everything; a personal feed narrows
+// appointments to the viewer's own. URLs are secret — regenerating one
+// invalidates the old link.
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Modal, ModalHeader, ModalBody, ModalFooter, Button } from '@/components/ui';
+
+type FeedScope = 'studio' | 'personal';
+
+interface Feed {
+  url: string;
+  created_at: string;
+  last_accessed_at: string | null;
+}
+
+interface FeedsResponse {
+  canManageStudio: boolean;
+  studio: Feed | null;
+  personal: Feed | null;
+}
+
+export default function CalendarFeedsModal({ onClose }: { onClose: () => void }) {
+  const [feeds, setFeeds] = useState<FeedsResponse | null>(null);
+  const [busy, setBusy] = useState<FeedScope | null>(null);
+
+  useEffect(() => {
+    fetch('/api/calendar-feeds')
+      .then((res) => (res.ok ? res.json() : Promise.reject()))
+      .then(setFeeds)
+      .catch(() => toast.error('Failed to load calendar feeds'));
+  }, []);
+
+  const createFeed = async (scope: FeedScope, rotate: boolean) => {
+    if (rotate && !confirm('Regenerate this link? Calendars subscribed to the old link will stop updating.')) return;
+    setBusy(scope);
+    try {
+      const res = await fetch('/api/calendar-feeds', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ scope }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error);
+      setFeeds((prev) => prev && { ...prev, [scope]: data.feed });
+      toast.success(rotate ? 'New link created' : 'Calendar link created');
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to create link');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const revokeFeed = async (scope: FeedScope) => {
+    if (!confirm('Turn off this link? Subscribed calendars will stop updating.')) return;
+    setBusy(scope);
+    const res = await fetch(`/api/calendar-feeds?scope=${scope}`, { method: 'DELETE' });
+    setBusy(null);
+    if (!res.ok) { toast.error('Failed to turn off link'); return; }
+    setFeeds((prev) => prev && { ...prev, [scope]: null });
+  };
+
+  const copy = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success('Link copied');
+    } catch {
+      toast.error('Copy failed — select the link and copy it manually');
+    }
+  };
+
+  const renderFeed = (scope: FeedScope, title: string, description: string) => {
+    const feed = feeds?.[scope] || null;
+    return (
+      <div className="rounded-xl border border-[var(--border-default)] p-4 space-y-3">
+        <div>
+          <h3 className="text-sm font-semibold text-[var(--text-primary)]">{title}</h3>
+          <p className="text-xs text-[var(--text-tertiary)] mt-0.5">{description}</p>
+        </div>
+
+        {feed ? (
+          <>
+            <div className="flex items-center gap-2">
+              <input
+                readOnly
+                value={feed.url}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 h-9 px-2.5 rounded-lg border border-[var(--border-default)] bg-[var(--surface-raised)] text-xs text-[var(--text-secondary)] font-mono"
+              />
+              <Button size="sm" variant="secondary" onClick={() => copy(feed.url)}>Copy</Button>
+            </div>
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <p className="text-[11px] text-[var(--text-tertiary)]">
+                {feed.last_accessed_at
+                  ? `Last synced ${new Date(feed.last_accessed_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`
+                  : 'Not synced yet'}
+              </p>
+              <div className="flex items-center gap-3">
+                <a
+                  href={feed.url.replace(/^https?:/, 'webcal:')}
+                  className="text-xs font-medium text-[var(--accent-primary)] hover:underline"
+                >
+                  Open in Apple Calendar
+                </a>
+                <button
+                  onClick={() => createFeed(scope, true)}
+                  disabled={busy === scope}
+                  className="text-xs text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
+                >
+                  Regenerate
+                </button>
+                <button
+                  onClick={() => revokeFeed(scope)}
+                  disabled={busy === scope}
+                  className="text-xs text-[var(--text-tertiary)] hover:text-red-500"
+                >
+                  Turn off
+                </button>
+              </div>
+            </div>
+          </>
+        ) : (
+          <Button size="sm" variant="primary" onClick={() => createFeed(scope, false)} loading={busy === scope}>
+            Create Link
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Modal isOpen onClose={onClose}>
+      <ModalHeader>
+        <h2 className="text-lg font-semibold text-[var(--text-primary)]">Calendar Feeds</h2>
+        <p className="text-sm text-[var(--text-tertiary)] mt-1">
+          Subscribe from Google Calendar (Other calendars → From URL) or Apple Calendar to see events,
+          confirmed parties and appointments. Anyone with a link can view it, so keep it private.
+        </p>
+      </ModalHeader>
+
+      <ModalBody className="space-y-4">
+        {!feeds ? (
+          <div className="flex justify-center py-8">
+            <div className="w-6 h-6 border-2 border-[var(--accent-primary)] border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <>
+            {feeds.canManageStudio && renderFeed(
+              'studio',
+              'Studio calendar',
+              'Everything on the schedule, including every artist’s appointments.'
+            )}
+            {renderFeed(
+              'personal',
+              'My calendar',
+              'Events and parties, plus only the appointments booked with you.'
+            )}
+          </>
+        )}
+      </ModalBody>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>Done</Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
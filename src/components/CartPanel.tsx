@@ -5,6 +5,7 @@
 // Shared by Store Mode and Event Mode POS.
 // - Per-item discount controls (gated by discounts:apply permission)
 // - Cart-level discount
+// - Discounts held to the role's discount limit
 // - Elevated total display with design system tokens
 // - Touch-optimized 56px row height
 // ============================================================================
@@ -12,7 +13,9 @@
 'use client';
 
 import { useState } from 'react';
+import { toast } from 'sonner';
 import { useTenant } from '@/hooks/use-tenant';
+import { discountAllowed, discountLimitLabel } from '@/lib/permissions';
 import { Button } from '@/components/ui/Button';
 
 // Must match CheckoutStep in CheckoutFlow.tsx
@@ -24,7 +27,7 @@ export default function CartPanel({ cart, step, setStep, tenant }: {
   setStep: (s: CheckoutStep) => void;
   tenant: any;
 }) {
-  const { can } = useTenant();
+  const { can, grant } = useTenant();
   const canDiscount = can('discounts:apply');
 
   // Per-item discount state
@@ -47,11 +50,48 @@ export default function CartPanel({ cart, step, setStep, tenant }: {
 
   const warrantyEnabled = tenant?.warranty_enabled === true;
 
+  /**
+   * Whether the sale's total discount (line discounts + cart discount),
+   * with one change applied, stays within the role's discount limit.
+   */
+  const withinDiscountLimit = (
+    itemChange: { id: string; type: 'flat' | 'percentage'; value: number } | null,
+    cartChange: { type: 'flat' | 'percentage'; value: number } | null
+  ): boolean => {
+    if (!grant) return false;
+    let gross = 0;
+    let net = 0;
+    for (const item of cart.items) {
+      const lineGross = item.quantity * item.unit_price;
+      const changed = itemChange && itemChange.id === item.id ? itemChange : null;
+      const type = changed ? changed.type : item.discount_type;
+      const value = changed ? changed.value : item.discount_value;
+      gross += lineGross;
+      if (!type || !value) net += lineGross;
+      else if (type === 'flat') net += Math.max(0, lineGross - value);
+      else net += lineGross * (1 - value / 100);
+    }
+    const cartType = cartChange ? cartChange.type : cart._cartDiscountType;
+    const cartValue = cartChange ? cartChange.value : cart._cartDiscountValue;
+    let cartDiscount = 0;
+    if (cartType === 'flat' && cartValue > 0) cartDiscount = Math.min(cartValue, net);
+    else if (cartType === 'percentage' && cartValue > 0) cartDiscount = net * (cartValue / 100);
+    return discountAllowed(grant, gross - net + cartDiscount, gross);
+  };
+
+  const overLimit = () => {
+    toast.error(`That's over your discount limit (${grant ? discountLimitLabel(grant).toLowerCase() : 'none'})`);
+  };
+
   const applyItemDiscount = (itemId: string) => {
     const value = Number(discountInput);
     if (!value || value <= 0) {
       cart.updateItemDiscount(itemId, null, 0);
     } else {
+      if (!withinDiscountLimit({ id: itemId, type: discountType, value }, null)) {
+        overLimit();
+        return;
+      }
       cart.updateItemDiscount(itemId, discountType, value);
     }
     setDiscountItemId(null);
@@ -69,6 +109,10 @@ export default function CartPanel({ cart, step, setStep, tenant }: {
     if (!value || value <= 0) {
       cart.setCartDiscount(null, 0);
     } else {
+      if (!withinDiscountLimit(null, { type: cartDiscountType, value })) {
+        overLimit();
+        return;
+      }
       cart.setCartDiscount(cartDiscountType, value);
     }
     setShowCartDiscount(false);
@@ -556,7 +600,7 @@ export default function CartPanel({ cart, step, setStep, tenant }: {
 
         {cart.tax_amount > 0 && (
           <div className="flex justify-between text-[var(--text-tertiary)]">
-            <span>Tax ({(cart.tax_rate * 100).toFixed(1)}%)</span>
+            <span>{cart.tax_inclusive ? 'Tax included' : 'Tax'} ({(cart.tax_rate * 100).toFixed(1)}%)</span>
             <span className="">${cart.tax_amount.toFixed(2)}</span>
           </div>
         )}
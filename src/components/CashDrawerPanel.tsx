@@ -4,11 +4,15 @@
 // Cash Drawer Panel — Self-contained component for POS cash drawer management
 // src/components/CashDrawerPanel.tsx
 // ============================================================================
+// Opening, paying in/out and closing need cash_drawer:manage; without it
+// the panel only shows the open drawer.
+// ============================================================================
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { Modal, ModalHeader, ModalBody, ModalFooter } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { useTenant } from '@/hooks/use-tenant';
 import type { CashDrawer, CashDrawerTransaction } from '@/types';
 
 interface CashDrawerPanelProps {
@@ -20,6 +24,8 @@ interface CashDrawerPanelProps {
 }
 
 export default function CashDrawerPanel({ tenantId, eventId, mode, onDrawerChange, refreshTrigger }: CashDrawerPanelProps) {
+  const { can } = useTenant();
+  const canManage = can('cash_drawer:manage');
   const [drawer, setDrawer] = useState<(CashDrawer & { transactions?: CashDrawerTransaction[] }) | null>(null);
   const [loading, setLoading] = useState(true);
   const [fetchError, setFetchError] = useState(false);
@@ -124,13 +130,13 @@ export default function CashDrawerPanel({ tenantId, eventId, mode, onDrawerChang
 
   // Auto-prompt in event mode when no drawer is open (skip if fetch errored or already dismissed this session)
   useEffect(() => {
-    if (mode === 'event' && !loading && !drawer && !fetchError) {
+    if (mode === 'event' && canManage && !loading && !drawer && !fetchError) {
       const dismissKey = `cash-drawer-dismissed-${eventId || 'store'}`;
       if (sessionStorage.getItem(dismissKey)) return;
       const timer = setTimeout(() => setShowOpen(true), 1500);
       return () => clearTimeout(timer);
     }
-  }, [mode, loading, drawer, fetchError, eventId]);
+  }, [mode, canManage, loading, drawer, fetchError, eventId]);
 
   // ── Refresh drawer data when refreshTrigger changes (e.g. after cash sale) ──
 
@@ -298,12 +304,12 @@ export default function CashDrawerPanel({ tenantId, eventId, mode, onDrawerChang
           } else if (drawer) {
             fetchDrawerDetail(drawer.id);
             setShowDetail(true);
-          } else {
+          } else if (canManage) {
             setShowOpen(true);
           }
         }}
         className="relative flex items-center justify-center w-10 h-10 rounded-xl transition-colors hover:bg-[var(--surface-subtle)]"
-        title={fetchError ? 'Cash Drawer — tap to retry' : drawer ? 'Cash Drawer (Open)' : 'Open Cash Drawer'}
+        title={fetchError ? 'Cash Drawer — tap to retry' : drawer ? 'Cash Drawer (Open)' : canManage ? 'Open Cash Drawer' : 'No cash drawer open'}
       >
         {/* Cash register icon */}
         <svg className={`w-5 h-5 ${fetchError ? 'text-amber-500' : drawer ? 'text-emerald-600' : 'text-[var(--text-tertiary)]'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -414,11 +420,15 @@ export default function CashDrawerPanel({ tenantId, eventId, mode, onDrawerChang
           </div>
         </ModalBody>
         <ModalFooter>
-          <div className="flex gap-2 w-full">
-            <Button variant="secondary" className="flex-1" onClick={() => { setShowDetail(false); setShowPayInOut('pay_in'); }}>Pay In</Button>
-            <Button variant="secondary" className="flex-1" onClick={() => { setShowDetail(false); setShowPayInOut('pay_out'); }}>Pay Out</Button>
-            <Button variant="danger" className="flex-1" onClick={() => { setShowDetail(false); setShowClose(true); }}>Close Drawer</Button>
-          </div>
+          {canManage ? (
+            <div className="flex gap-2 w-full">
+              <Button variant="secondary" className="flex-1" onClick={() => { setShowDetail(false); setShowPayInOut('pay_in'); }}>Pay In</Button>
+              <Button variant="secondary" className="flex-1" onClick={() => { setShowDetail(false); setShowPayInOut('pay_out'); }}>Pay Out</Button>
+              <Button variant="danger" className="flex-1" onClick={() => { setShowDetail(false); setShowClose(true); }}>Close Drawer</Button>
+            </div>
+          ) : (
+            <Button variant="ghost" onClick={() => setShowDetail(false)}>Close</Button>
+          )}
         </ModalFooter>
       </Modal>
 
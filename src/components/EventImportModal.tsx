@@ -0,0 +1,287 @@
+// ============================================================================
+// Event Import Modal — src/components/EventImportModal.tsx
+// ============================================================================
+// Bulk-creates events from an .ics file (e.g. a market organizer's season
+// schedule). 2-step flow:
+// 1. Upload file, set default booth fee + tax profile
+// 2. Preview (pick events, adjust booth fees) + import
+// Events remember their ICS UID (events.external_uid), so re-importing an
+// updated schedule only adds what's new.
+
+'use client';
+
+import { useState, useRef, useCallback } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { toast } from 'sonner';
+import { Modal, ModalHeader, ModalBody, ModalFooter, Button, Input, Select } from '@/components/ui';
+import { parseCalendar, type ParsedCalendarEvent } from '@/lib/ical';
+import type { TaxProfile } from '@/types';
+
+type Step = 'upload' | 'preview';
+
+interface PreviewRow {
+  event: ParsedCalendarEvent;
+  selected: boolean;
+  boothFee: string;
+  alreadyImported: boolean;
+}
+
+interface EventImportModalProps {
+  tenantId: string;
+  tenantTimeZone: string;
+  taxProfiles: TaxProfile[];
+  onClose: () => void;
+  onComplete: () => void;
+}
+
+export default function EventImportModal({
+  tenantId,
+  tenantTimeZone,
+  taxProfiles,
+  onClose,
+  onComplete,
+}: EventImportModalProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [defaultBoothFee, setDefaultBoothFee] = useState('0');
+  const [taxProfileId, setTaxProfileId] = useState(taxProfiles.find((t) => t.is_default)?.id || '');
+  const [importing, setImporting] = useState(false);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const supabase = createClient();
+
+  // ── Step 1: File upload ────────────────────────────────────────────────
+
+  const handleFileSelect = useCallback(async (file: File) => {
+    const ext = file.name.split('.').pop()?.toLowerCase();
+    if (ext !== 'ics' && ext !== 'ical') {
+      toast.error('Please upload an .ics calendar file. In Google Calendar: Settings → Import & export → Export.');
+      return;
+    }
+
+    const parsed = parseCalendar(await file.text(), tenantTimeZone);
+    if (parsed.length === 0) {
+      toast.error('No events found in that file.');
+      return;
+    }
+
+    const { data: existing } = await supabase
+      .from('events')
+      .select('external_uid')
+      .eq('tenant_id', tenantId)
+      .not('external_uid', 'is', null);
+    const imported = new Set((existing || []).map((e: { external_uid: string }) => e.external_uid));
+
+    const now = Date.now();
+    setFileName(file.name);
+    setRows(parsed.map((event) => {
+      const alreadyImported = imported.has(event.uid);
+      const isPast = (event.end || event.start).getTime() < now;
+      return {
+        event,
+        selected: !alreadyImported && !isPast,
+        boothFee: defaultBoothFee,
+        alreadyImported,
+      };
+    }));
+    setStep('preview');
+  }, [tenantId, tenantTimeZone, defaultBoothFee]);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files[0];
+    if (file) handleFileSelect(file);
+  }, [handleFileSelect]);
+
+  // ── Step 2: Import ─────────────────────────────────────────────────────
+
+  const selectedRows = rows.filter((r) => r.selected && !r.alreadyImported);
+
+  const runImport = async () => {
+    if (selectedRows.length === 0) return;
+    setImporting(true);
+
+    const records = selectedRows.map(({ event, boothFee }) => ({
+      tenant_id: tenantId,
+      name: event.summary.slice(0, 200),
+      description: event.description,
+      location: event.location,
+      start_time: event.start.toISOString(),
+      end_time: event.end?.toISOString() || null,
+      booth_fee: Math.max(0, parseFloat(boothFee) || 0),
+      tax_profile_id: taxProfileId || null,
+      is_active: true,
+      // Only store a zone override when the organizer's differs from ours
+      time_zone: event.timeZone && event.timeZone !== tenantTimeZone ? event.timeZone : null,
+      external_uid: event.uid,
+    }));
+
+    let created = 0;
+    const BATCH = 25;
+    for (let i = 0; i < records.length; i += BATCH) {
+      const { data, error } = await supabase
+        .from('events')
+        .upsert(records.slice(i, i + BATCH), { onConflict: 'tenant_id,external_uid', ignoreDuplicates: true })
+        .select('id');
+      if (error) {
+        toast.error(`Import stopped: ${error.message}`);
+        break;
+      }
+      created += data?.length || 0;
+    }
+
+    setImporting(false);
+    if (created > 0) {
+      toast.success(`Imported ${created} event${created !== 1 ? 's' : ''}`);
+      onComplete();
+    }
+    onClose();
+  };
+
+  const updateRow = (index: number, patch: Partial<PreviewRow>) =>
+    setRows(rows.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+
+  const formatWhen = (event: ParsedCalendarEvent) => {
+    const tz = event.allDay ? tenantTimeZone : event.timeZone || tenantTimeZone;
+    const date = event.start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric', timeZone: tz });
+    if (event.allDay) return `${date} · All day`;
+    const time = (d: Date) => d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: tz });
+    return `${date} · ${time(event.start)}${event.end ? `–${time(event.end)}` : ''}`;
+  };
+
+  // ── Render ─────────────────────────────────────────────────────────────
+
+  return (
+    <Modal isOpen onClose={onClose} size="lg">
+      <ModalHeader>
+        <h2 className="text-lg font-semibold text-[var(--text-primary)]">Import Events</h2>
+      </ModalHeader>
+
+      <ModalBody>
+        {step === 'upload' && (
+          <div className="space-y-5">
+            <p className="text-sm text-[var(--text-secondary)]">
+              Upload an .ics calendar file — a market season schedule, or an export from Google or Apple Calendar.
+              Each calendar entry becomes an event.
+            </p>
+
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label="Booth fee (each event)"
+                type="number"
+                min={0}
+                step="0.01"
+                value={defaultBoothFee}
+                onChange={(e) => setDefaultBoothFee(e.target.value)}
+              />
+              <Select
+                label="Tax profile"
+                value={taxProfileId}
+                onChange={(e) => setTaxProfileId(e.target.value)}
+                options={[
+                  { value: '', label: 'No tax' },
+                  ...taxProfiles.map((tp) => ({ value: tp.id, label: `${tp.name} (${(tp.rate * 100).toFixed(2)}%)` })),
+                ]}
+              />
+            </div>
+
+            {/* Drop zone */}
+            <div
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={handleDrop}
+              onClick={() => fileRef.current?.click()}
+              className="border-2 border-dashed border-[var(--border-default)] rounded-xl p-8 text-center cursor-pointer hover:border-[var(--accent-primary)] hover:bg-[var(--surface-subtle)] transition-colors"
+            >
+              <svg className="w-8 h-8 mx-auto text-[var(--text-tertiary)] mb-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+                <path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75V16.5m-13.5-9L12 3m0 0l4.5 4.5M12 3v13.5" />
+              </svg>
+              <p className="text-sm font-medium text-[var(--text-primary)]">
+                Drop an .ics file here or tap to browse
+              </p>
+              <p className="text-xs text-[var(--text-tertiary)] mt-1">Times without a time zone are read as {tenantTimeZone}</p>
+            </div>
+
+            <input
+              ref={fileRef}
+              type="file"
+              accept=".ics,.ical,text/calendar"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFileSelect(file);
+              }}
+            />
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-[var(--text-primary)]">
+                {fileName} — {rows.length} event{rows.length !== 1 ? 's' : ''}
+              </p>
+              <button
+                onClick={() => { setStep('upload'); setRows([]); setFileName(''); }}
+                className="text-xs text-[var(--accent-primary)] hover:underline"
+              >
+                Choose different file
+              </button>
+            </div>
+
+            <div className="border border-[var(--border-default)] rounded-lg max-h-[380px] overflow-y-auto divide-y divide-[var(--border-subtle)]">
+              {rows.map((row, i) => (
+                <label
+                  key={row.event.uid}
+                  className={`flex items-start gap-3 px-3 py-2.5 ${row.alreadyImported ? 'opacity-50' : 'cursor-pointer'}`}
+                >
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={row.selected && !row.alreadyImported}
+                    disabled={row.alreadyImported}
+                    onChange={(e) => updateRow(i, { selected: e.target.checked })}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-[var(--text-primary)] truncate">{row.event.summary}</p>
+                    <p className="text-xs text-[var(--text-tertiary)]">
+                      {formatWhen(row.event)}
+                      {row.event.location && ` · ${row.event.location}`}
+                    </p>
+                    {row.alreadyImported && (
+                      <p className="text-[11px] text-[var(--text-tertiary)] mt-0.5">Already imported</p>
+                    )}
+                  </div>
+                  {!row.alreadyImported && (
+                    <div className="w-24 shrink-0">
+                      <input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        aria-label="Booth fee"
+                        value={row.boothFee}
+                        onChange={(e) => updateRow(i, { boothFee: e.target.value })}
+                        className="w-full h-8 px-2 rounded-md border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)] text-right"
+                      />
+                    </div>
+                  )}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-[var(--text-tertiary)]">
+              Past events are unchecked by default. Booth fees can be adjusted per event.
+            </p>
+          </div>
+        )}
+      </ModalBody>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>Cancel</Button>
+        {step === 'preview' && (
+          <Button variant="primary" onClick={runImport} loading={importing} disabled={selectedRows.length === 0}>
+            Import {selectedRows.length} Event{selectedRows.length !== 1 ? 's' : ''}
+          </Button>
+        )}
+      </ModalFooter>
+    </Modal>
+  );
+}
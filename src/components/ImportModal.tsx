@@ -10,6 +10,8 @@
 
 import { useState, useRef, useCallback } from 'react';
 import { createClient } from '@/lib/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { getInventoryCosts, unitCostOf } from '@/lib/cost-layers';
 import { toast } from 'sonner';
 import { Modal, ModalHeader, ModalBody, ModalFooter, Button } from '@/components/ui';
 import { parseCSV, normalizePhone, normalizeInventoryType, normalizeInventoryUnit, type ParsedRow } from '@/lib/csv-parser';
@@ -47,6 +49,9 @@ export default function ImportModal({ mode, tenantId, onClose, onComplete }: Imp
   const [progress, setProgress] = useState(0);
   const fileRef = useRef<HTMLInputElement>(null);
   const supabase = createClient();
+  const { can } = useTenant();
+  const canSeeCosts = can('costs:view');
+  const canEditPrices = can('prices:edit');
 
   const label = mode === 'clients' ? 'Clients' : 'Inventory';
   const itemLabel = mode === 'clients' ? 'clients' : 'items';
@@ -339,11 +344,14 @@ export default function ImportModal({ mode, tenantId, onClose, onComplete }: Imp
 
         if (row.isUpdate && row.existingId) {
           // Merge update — only fill empty fields
-          const { data: current } = await supabase
-            .from('inventory_items')
-            .select('material, sku, notes, cost_per_unit, sell_price, quantity_on_hand, reorder_threshold')
-            .eq('id', row.existingId)
-            .single();
+          const [{ data: current }, costs] = await Promise.all([
+            supabase
+              .from('inventory_items')
+              .select('material, sku, notes, sell_price, quantity_on_hand, reorder_threshold')
+              .eq('id', row.existingId)
+              .single(),
+            canSeeCosts ? getInventoryCosts(supabase, tenantId, [row.existingId]) : Promise.resolve(null),
+          ]);
 
           const updates: Record<string, string | number | null> = {};
           if (!current?.material && row.data.material?.trim()) updates.material = row.data.material.trim();
@@ -354,10 +362,11 @@ export default function ImportModal({ mode, tenantId, onClose, onComplete }: Imp
           if (row.data.quantity?.trim() && Number(row.data.quantity) > 0 && Number(current?.quantity_on_hand) === 0) {
             updates.quantity_on_hand = Number(row.data.quantity);
           }
-          if (row.data.cost_per_unit?.trim() && Number(row.data.cost_per_unit) > 0 && Number(current?.cost_per_unit) === 0) {
+          // Costs are only filled in for roles that can see the current one
+          if (costs && row.data.cost_per_unit?.trim() && Number(row.data.cost_per_unit) > 0 && unitCostOf(costs, row.existingId, null) === 0) {
             updates.cost_per_unit = Number(row.data.cost_per_unit);
           }
-          if (row.data.sell_price?.trim() && Number(row.data.sell_price) > 0 && Number(current?.sell_price) === 0) {
+          if (canEditPrices && row.data.sell_price?.trim() && Number(row.data.sell_price) > 0 && Number(current?.sell_price) === 0) {
             updates.sell_price = Number(row.data.sell_price);
           }
           if (row.data.reorder_threshold?.trim() && Number(row.data.reorder_threshold) > 0 && Number(current?.reorder_threshold) === 0) {
@@ -379,7 +388,7 @@ export default function ImportModal({ mode, tenantId, onClose, onComplete }: Imp
             unit,
             quantity_on_hand: Number(row.data.quantity) || 0,
             cost_per_unit: Number(row.data.cost_per_unit) || 0,
-            sell_price: Number(row.data.sell_price) || 0,
+            sell_price: canEditPrices ? Number(row.data.sell_price) || 0 : 0,
             reorder_threshold: Number(row.data.reorder_threshold) || 0,
             notes: row.data.notes?.trim() || null,
             is_active: true,
@@ -58,14 +58,12 @@ export default function JumpRingPickerModal({
       const selection = selections[material];
 
       if (!selection || selection === 'skip') {
-        return { ...res, jump_ring_inventory_id: null, jump_ring_cost_each: 0, resolved: true };
+        return { ...res, jump_ring_inventory_id: null, resolved: true };
       }
 
-      const selectedJR = jumpRingInventory.find((jr) => jr.id === selection);
       return {
         ...res,
         jump_ring_inventory_id: selection,
-        jump_ring_cost_each: selectedJR ? Number(selectedJR.cost_per_unit) : 0,
         resolved: true,
       };
     });
@@ -27,6 +27,8 @@ export interface QueueEntry {
   waiver_id: string | null;
   sms_consent: boolean;
   notes: string | null;
+  /** Set when the entry came from a booked appointment */
+  appointment_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -2,13 +2,15 @@
 // RefundModal — src/components/RefundModal.tsx
 // ============================================================================
 // Shared modal for processing refunds from Reports or Client Profile.
-// Supports full/partial refunds with amount validation and reason.
+// Supports full/partial refunds with amount validation and reason, and
+// item-level refunds where each line can optionally be returned to stock.
 // ============================================================================
 
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { toast } from 'sonner';
+import { createClient } from '@/lib/supabase/client';
 import {
   Button,
   Badge,
@@ -30,6 +32,21 @@ export interface RefundModalSaleSummary {
   client_name?: string;
 }
 
+interface RefundableLine {
+  id: string;
+  name: string;
+  quantity: number;
+  line_total: number;
+  inventory_item_id: string | null;
+  inches_used: number | null;
+  refunded_quantity: number;
+}
+
+interface LineSelection {
+  quantity: number;
+  restock: boolean;
+}
+
 interface RefundModalProps {
   saleId: string;
   saleSummary: RefundModalSaleSummary;
@@ -38,15 +55,77 @@ interface RefundModalProps {
 }
 
 export default function RefundModal({ saleId, saleSummary, onClose, onRefunded }: RefundModalProps) {
-  const [refundType, setRefundType] = useState<'full' | 'partial'>('full');
+  const [refundType, setRefundType] = useState<'full' | 'partial' | 'items'>('full');
   const [amount, setAmount] = useState('');
   const [reason, setReason] = useState('');
   const [processing, setProcessing] = useState(false);
+  const [lines, setLines] = useState<RefundableLine[]>([]);
+  const [selected, setSelected] = useState<Record<string, LineSelection>>({});
+  const [chargeRatio, setChargeRatio] = useState(1);
+  const [giftCardApplied, setGiftCardApplied] = useState(0);
+
+  // Load refundable lines (sale_items minus earlier item refunds)
+  useEffect(() => {
+    const supabase = createClient();
+    (async () => {
+      const [{ data: sale }, { data: items }] = await Promise.all([
+        supabase.from('sales').select('subtotal, total, tip_amount, gift_card_amount_applied').eq('id', saleId).single(),
+        supabase.from('sale_items')
+          .select('id, name, quantity, line_total, inventory_item_id, inches_used, refund_items(quantity)')
+          .eq('sale_id', saleId),
+      ]);
+
+      setGiftCardApplied(Number(sale?.gift_card_amount_applied) || 0);
+      if (sale && Number(sale.subtotal) > 0) {
+        setChargeRatio((Number(sale.total) - (Number(sale.tip_amount) || 0)) / Number(sale.subtotal));
+      }
+      setLines((items || []).map((item: any) => ({
+        id: item.id,
+        name: item.name,
+        quantity: Number(item.quantity) || 0,
+        line_total: Number(item.line_total) || 0,
+        inventory_item_id: item.inventory_item_id,
+        inches_used: item.inches_used != null ? Number(item.inches_used) : null,
+        refunded_quantity: (item.refund_items || []).reduce((sum: number, r: any) => sum + Number(r.quantity), 0),
+      })));
+    })();
+  }, [saleId]);
 
   const remaining = saleSummary.total - saleSummary.refund_amount;
-  const refundAmount = refundType === 'full' ? remaining : Number(amount) || 0;
+
+  // Mirrors the server: a line's share of the subtotal applied to what was charged
+  const itemsAmount = Math.round(Object.entries(selected).reduce((sum, [id, sel]) => {
+    const line = lines.find((l) => l.id === id);
+    if (!line || line.quantity <= 0) return sum;
+    return sum + line.line_total * (sel.quantity / line.quantity) * chargeRatio;
+  }, 0) * 100) / 100;
+
+  const refundAmount = refundType === 'full'
+    ? remaining
+    : refundType === 'items'
+      ? Math.min(itemsAmount, remaining)
+      : Number(amount) || 0;
   const isValid = refundAmount > 0 && refundAmount <= remaining + 0.01;
 
+  const toggleLine = (line: RefundableLine) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (next[line.id]) {
+        delete next[line.id];
+      } else {
+        next[line.id] = {
+          quantity: line.quantity - line.refunded_quantity,
+          restock: !!line.inventory_item_id,
+        };
+      }
+      return next;
+    });
+  };
+
+  const updateLine = (id: string, patch: Partial<LineSelection>) => {
+    setSelected((prev) => (prev[id] ? { ...prev, [id]: { ...prev[id], ...patch } } : prev));
+  };
+
   const paymentLabel: Record<string, string> = {
     card_present: 'Card',
     card_not_present: 'Card (Remote)',
@@ -65,8 +144,15 @@ export default function RefundModal({ saleId, saleSummary, onClose, onRefunded }
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          amount: Math.round(refundAmount * 100) / 100,
+          amount: refundType === 'items' ? undefined : Math.round(refundAmount * 100) / 100,
           reason: reason.trim() || undefined,
+          items: refundType === 'items'
+            ? Object.entries(selected).map(([id, sel]) => ({
+                sale_item_id: id,
+                quantity: sel.quantity,
+                restock: sel.restock,
+              }))
+            : undefined,
         }),
       });
       const data = await res.json();
@@ -170,9 +256,85 @@ export default function RefundModal({ saleId, saleSummary, onClose, onRefunded }
                   >
                     Partial
                   </button>
+                  {lines.length > 0 && (
+                    <button
+                      onClick={() => setRefundType('items')}
+                      className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
+                        refundType === 'items'
+                          ? 'bg-[var(--accent-primary)] text-white'
+                          : 'bg-[var(--surface-raised)] text-[var(--text-secondary)] hover:text-[var(--text-primary)]'
+                      }`}
+                    >
+                      Items
+                    </button>
+                  )}
                 </div>
               </div>
 
+              {/* Line item selection (items only) */}
+              {refundType === 'items' && (
+                <div className="rounded-lg border border-[var(--border-default)] divide-y divide-[var(--border-subtle)]">
+                  {lines.map((line) => {
+                    const available = line.quantity - line.refunded_quantity;
+                    const sel = selected[line.id];
+                    return (
+                      <div key={line.id} className="p-3 space-y-2">
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={!!sel}
+                            disabled={available <= 0}
+                            onChange={() => toggleLine(line)}
+                            className="accent-[var(--accent-primary)]"
+                          />
+                          <span className="flex-1 text-sm text-[var(--text-primary)]">
+                            {line.name}
+                            {line.quantity > 1 && (
+                              <span className="text-[var(--text-tertiary)]"> × {line.quantity}</span>
+                            )}
+                          </span>
+                          <span className="text-sm text-[var(--text-secondary)]">
+                            {available <= 0 ? 'Refunded' : `$${line.line_total.toFixed(2)}`}
+                          </span>
+                        </label>
+                        {sel && (
+                          <div className="flex items-center gap-4 pl-6">
+                            {available > 1 && (
+                              <label className="flex items-center gap-2 text-xs text-[var(--text-secondary)]">
+                                Qty
+                                <input
+                                  type="number"
+                                  min={1}
+                                  max={available}
+                                  value={sel.quantity}
+                                  onChange={(e) => updateLine(line.id, {
+                                    quantity: Math.min(Math.max(Number(e.target.value) || 1, 1), available),
+                                  })}
+                                  className="w-14 px-2 py-1 rounded border border-[var(--border-default)] bg-[var(--surface-raised)] text-[var(--text-primary)] text-xs"
+                                />
+                              </label>
+                            )}
+                            {line.inventory_item_id && (
+                              <label className="flex items-center gap-2 text-xs text-[var(--text-secondary)]">
+                                <input
+                                  type="checkbox"
+                                  checked={sel.restock}
+                                  onChange={(e) => updateLine(line.id, { restock: e.target.checked })}
+                                  className="accent-[var(--accent-primary)]"
+                                />
+                                {line.inches_used
+                                  ? `Return ${line.inches_used}" of chain to stock`
+                                  : 'Return to stock'}
+                              </label>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+
               {/* Amount input (partial only) */}
               {refundType === 'partial' && (
                 <Input
@@ -209,6 +371,11 @@ export default function RefundModal({ saleId, saleSummary, onClose, onRefunded }
                   ? 'The refund will be automatically returned to the original card.'
                   : 'This is a record-only refund. Please return the cash/payment to the customer manually.'}
               </p>
+              {giftCardApplied > 0 && (
+                <p className="text-xs text-[var(--text-tertiary)]">
+                  Up to ${giftCardApplied.toFixed(2)} paid by gift card will be credited back to the card first.
+                </p>
+              )}
             </>
           )}
         </div>
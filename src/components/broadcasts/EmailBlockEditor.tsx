@@ -0,0 +1,287 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { createClient } from '@/lib/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { resolveTimeZone } from '@/lib/timezone';
+import {
+  EMAIL_BLOCK_LABELS,
+  newEmailBlock,
+  renderEmailHtml,
+  formatEventWhen,
+  type EmailEventCard,
+} from '@/lib/email-blocks';
+import type { EmailBlock, EmailBlockType } from '@/types';
+
+// Block-based composer for email broadcasts, with a live preview of the
+// branded email. Blocks are rendered by src/lib/email-blocks.ts.
+interface EmailBlockEditorProps {
+  blocks: EmailBlock[];
+  onChange: (blocks: EmailBlock[]) => void;
+  /** Template variables for the preview */
+  sampleVars: Record<string, string>;
+}
+
+const BLOCK_TYPES: EmailBlockType[] = ['header', 'text', 'image', 'button', 'event', 'gift_card'];
+
+const inputClass =
+  'w-full h-9 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-subtle)]';
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+export default function EmailBlockEditor({ blocks, onChange, sampleVars }: EmailBlockEditorProps) {
+  const { tenant } = useTenant();
+  const [events, setEvents] = useState<Array<EmailEventCard & { id: string }>>([]);
+  const [uploadingId, setUploadingId] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const uploadTarget = useRef<string | null>(null);
+
+  // Upcoming events for event cards
+  useEffect(() => {
+    if (!tenant) return;
+    const supabase = createClient();
+    supabase
+      .from('events')
+      .select('id, name, start_time, end_time, location, time_zone')
+      .eq('tenant_id', tenant.id)
+      .gte('start_time', new Date().toISOString())
+      .order('start_time')
+      .limit(50)
+      .then(({ data }) => {
+        setEvents((data || []).map((e) => ({ ...e, time_zone: resolveTimeZone(tenant, e) })));
+      });
+  }, [tenant]);
+
+  const update = (id: string, patch: Partial<EmailBlock>) => {
+    onChange(blocks.map((b) => (b.id === id ? ({ ...b, ...patch } as EmailBlock) : b)));
+  };
+
+  const move = (index: number, delta: number) => {
+    const next = [...blocks];
+    const [block] = next.splice(index, 1);
+    next.splice(index + delta, 0, block);
+    onChange(next);
+  };
+
+  const remove = (id: string) => onChange(blocks.filter((b) => b.id !== id));
+
+  const add = (type: EmailBlockType) => onChange([...blocks, newEmailBlock(type)]);
+
+  const pickImage = (id: string) => {
+    uploadTarget.current = id;
+    fileRef.current?.click();
+  };
+
+  const handleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const id = uploadTarget.current;
+    if (!file || !id || !tenant) return;
+
+    if (!IMAGE_TYPES.includes(file.type)) {
+      toast.error('Please upload a PNG, JPG, GIF or WebP file');
+      return;
+    }
+    if (file.size > 5 * 1024 * 1024) {
+      toast.error('Images must be under 5 MB');
+      return;
+    }
+
+    setUploadingId(id);
+    try {
+      // Email clients load images directly, so these go in the public bucket
+      const supabase = createClient();
+      const ext = file.name.split('.').pop()?.toLowerCase() || 'png';
+      const filePath = `email/${tenant.id}/img-${Date.now()}.${ext}`;
+      const { error } = await supabase.storage
+        .from('tenant-assets')
+        .upload(filePath, file, { cacheControl: '31536000', upsert: false });
+      if (error) throw error;
+
+      const { data } = supabase.storage.from('tenant-assets').getPublicUrl(filePath);
+      update(id, { url: data.publicUrl });
+    } catch (err: any) {
+      toast.error(err?.message || 'Upload failed');
+    } finally {
+      setUploadingId(null);
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  const previewHtml = useMemo(() => {
+    if (!tenant) return '';
+    return renderEmailHtml(blocks, {
+      tenant: { name: tenant.name, logo_url: tenant.logo_url, brand_color: tenant.brand_color, slug: tenant.slug },
+      vars: sampleVars,
+      appUrl: window.location.origin,
+      events: Object.fromEntries(events.map((e) => [e.id, e])),
+      unsubscribeUrl: '#',
+    });
+  }, [blocks, tenant, sampleVars, events]);
+
+  const fields = (block: EmailBlock) => {
+    switch (block.type) {
+      case 'header':
+        return (
+          <p className="text-xs text-[var(--text-tertiary)]">
+            Your logo and brand color, from Settings.
+          </p>
+        );
+      case 'text':
+        return (
+          <textarea
+            value={block.text}
+            onChange={(e) => update(block.id, { text: e.target.value })}
+            rows={5}
+            className="w-full px-3 py-2.5 text-sm border border-[var(--border-default)] rounded-lg bg-[var(--surface-base)] text-[var(--text-primary)] resize-y focus:outline-none focus:ring-2 focus:ring-[var(--accent-subtle)]"
+            placeholder="Hi {{client_first_name}}! ... Leave a blank line between paragraphs."
+          />
+        );
+      case 'image':
+        return (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <input
+                className={inputClass}
+                value={block.url}
+                onChange={(e) => update(block.id, { url: e.target.value })}
+                placeholder="Image URL (https://...)"
+              />
+              <button
+                type="button"
+                onClick={() => pickImage(block.id)}
+                disabled={uploadingId === block.id}
+                className="shrink-0 h-9 px-3 rounded-lg border border-[var(--border-default)] text-sm text-[var(--text-secondary)] hover:bg-[var(--surface-subtle)] disabled:opacity-50"
+              >
+                {uploadingId === block.id ? 'Uploading...' : 'Upload'}
+              </button>
+            </div>
+            <input
+              className={inputClass}
+              value={block.alt}
+              onChange={(e) => update(block.id, { alt: e.target.value })}
+              placeholder="Description (shown if images are off)"
+            />
+            <input
+              className={inputClass}
+              value={block.link}
+              onChange={(e) => update(block.id, { link: e.target.value })}
+              placeholder="Link when tapped (optional)"
+            />
+          </div>
+        );
+      case 'button':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              className={inputClass}
+              value={block.label}
+              onChange={(e) => update(block.id, { label: e.target.value })}
+              placeholder="Button text"
+            />
+            <input
+              className={inputClass}
+              value={block.url}
+              onChange={(e) => update(block.id, { url: e.target.value })}
+              placeholder="https://..."
+            />
+          </div>
+        );
+      case 'event':
+        return (
+          <select
+            value={block.event_id}
+            onChange={(e) => update(block.id, { event_id: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">Select an upcoming event...</option>
+            {events.map((e) => (
+              <option key={e.id} value={e.id}>{e.name} — {formatEventWhen(e)}</option>
+            ))}
+          </select>
+        );
+      case 'gift_card':
+        return (
+          <div className="space-y-2">
+            <input
+              className={inputClass}
+              value={block.headline}
+              onChange={(e) => update(block.id, { headline: e.target.value })}
+              placeholder="Headline"
+            />
+            <textarea
+              value={block.text}
+              onChange={(e) => update(block.id, { text: e.target.value })}
+              rows={2}
+              className="w-full px-3 py-2 text-sm border border-[var(--border-default)] rounded-lg bg-[var(--surface-base)] text-[var(--text-primary)] resize-y focus:outline-none focus:ring-2 focus:ring-[var(--accent-subtle)]"
+              placeholder="Details"
+            />
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                className={inputClass}
+                value={block.button_label}
+                onChange={(e) => update(block.id, { button_label: e.target.value })}
+                placeholder="Button text"
+              />
+              <input
+                className={inputClass}
+                value={block.url}
+                onChange={(e) => update(block.id, { url: e.target.value })}
+                placeholder="Link (defaults to your profile)"
+              />
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="grid lg:grid-cols-2 gap-4">
+      <div className="space-y-3">
+        {blocks.map((block, i) => (
+          <div key={block.id} className="border border-[var(--border-default)] rounded-xl p-3 bg-[var(--surface-raised)]">
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-xs font-semibold uppercase tracking-wide text-[var(--text-tertiary)]">
+                {EMAIL_BLOCK_LABELS[block.type]}
+              </span>
+              <div className="flex items-center gap-1">
+                <button type="button" onClick={() => move(i, -1)} disabled={i === 0}
+                  className="h-7 w-7 rounded-md text-[var(--text-tertiary)] hover:bg-[var(--surface-subtle)] disabled:opacity-30" aria-label="Move up">↑</button>
+                <button type="button" onClick={() => move(i, 1)} disabled={i === blocks.length - 1}
+                  className="h-7 w-7 rounded-md text-[var(--text-tertiary)] hover:bg-[var(--surface-subtle)] disabled:opacity-30" aria-label="Move down">↓</button>
+                <button type="button" onClick={() => remove(block.id)}
+                  className="h-7 w-7 rounded-md text-[var(--text-tertiary)] hover:bg-error-50 hover:text-error-600" aria-label="Remove block">×</button>
+              </div>
+            </div>
+            {fields(block)}
+          </div>
+        ))}
+
+        <div className="flex flex-wrap gap-2">
+          {BLOCK_TYPES.map((type) => (
+            <button
+              key={type}
+              type="button"
+              onClick={() => add(type)}
+              className="px-3 py-1.5 rounded-lg text-sm font-medium bg-[var(--surface-subtle)] text-[var(--text-secondary)] hover:text-[var(--text-primary)] transition-colors"
+            >
+              + {EMAIL_BLOCK_LABELS[type]}
+            </button>
+          ))}
+        </div>
+
+        <input ref={fileRef} type="file" accept={IMAGE_TYPES.join(',')} className="hidden" onChange={handleImage} />
+      </div>
+
+      <div>
+        <label className="block text-xs font-medium text-[var(--text-tertiary)] mb-1.5">Preview</label>
+        <iframe
+          title="Email preview"
+          srcDoc={previewHtml}
+          sandbox=""
+          className="w-full h-[560px] rounded-xl border border-[var(--border-default)] bg-white"
+        />
+      </div>
+    </div>
+  );
+}
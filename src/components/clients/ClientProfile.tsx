@@ -13,6 +13,7 @@ import type { Client, ClientTag, ClientPhoneNumber, Waiver, Sale, SaleItem } fro
 import type { WaiverPDFData } from '@/lib/generate-waiver-pdf';
 import ComposeModal from './ComposeModal';
 import ConversationPanel from './ConversationPanel';
+import LoyaltyCard from './LoyaltyCard';
 import RefundModal from '@/components/RefundModal';
 import type { RefundModalSaleSummary } from '@/components/RefundModal';
 
@@ -492,7 +493,19 @@ export default function ClientProfile({ clientId, tenantId, onClose, onEdit, onT
                     </button>
                   </div>
                 )}
-                {client.email && <p>{client.email}</p>}
+                {client.email && (
+                  <p>
+                    {client.email}
+                    {client.email_unsubscribed_at && (
+                      <span
+                        className="ml-1.5 text-[10px] text-warning-600"
+                        title={`Unsubscribed ${format(new Date(client.email_unsubscribed_at), 'MMM d, yyyy')} — broadcasts and workflows won't email them`}
+                      >
+                        Unsubscribed
+                      </span>
+                    )}
+                  </p>
+                )}
               </div>
             </div>
 
@@ -631,6 +644,11 @@ export default function ClientProfile({ clientId, tenantId, onClose, onEdit, onT
               </div>
             </div>
 
+            {/* Loyalty points */}
+            {tenant?.loyalty_enabled && (
+              <LoyaltyCard clientId={clientId} tenantId={tenantId} canEdit={can('clients:edit')} />
+            )}
+
             {/* AI Suggested Action */}
             {suggestion && (
               <div
@@ -15,6 +15,7 @@ interface ClientsHeaderProps {
   onBroadcast: () => void;
   onImport: () => void;
   onExport: () => void;
+  onFindDuplicates: () => void;
 }
 
 export default function ClientsHeader({
@@ -28,6 +29,7 @@ export default function ClientsHeader({
   onBroadcast,
   onImport,
   onExport,
+  onFindDuplicates,
 }: ClientsHeaderProps) {
   const [copied, setCopied] = useState(false);
   const [menuOpen, setMenuOpen] = useState(false);
@@ -144,6 +146,15 @@ export default function ClientsHeader({
                 </svg>
                 Export as CSV
               </button>
+              <button
+                onClick={() => { setMenuOpen(false); onFindDuplicates(); }}
+                className="w-full text-left px-3 py-2 text-sm text-[var(--text-primary)] hover:bg-[var(--surface-raised)] min-h-[40px] flex items-center gap-2"
+              >
+                <svg className="w-4 h-4 text-[var(--text-tertiary)]" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M15 19.128a9.38 9.38 0 002.625.372 9.337 9.337 0 004.121-.952 4.125 4.125 0 00-7.533-2.493M15 19.128v-.003c0-1.113-.285-2.16-.786-3.07M15 19.128v.106A12.318 12.318 0 018.624 21c-2.331 0-4.512-.645-6.374-1.766l-.001-.109a6.375 6.375 0 0111.964-3.07M12 6.375a3.375 3.375 0 11-6.75 0 3.375 3.375 0 016.75 0zm8.25 2.25a2.625 2.625 0 11-5.25 0 2.625 2.625 0 015.25 0z" />
+                </svg>
+                Find duplicates
+              </button>
             </div>
           )}
         </div>
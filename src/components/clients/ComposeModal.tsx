@@ -4,7 +4,8 @@ import { useState, useEffect } from 'react';
 import { toast } from 'sonner';
 import { Button, Modal, ModalHeader, ModalBody, ModalFooter } from '@/components/ui';
 import { renderTemplate, SAMPLE_VARIABLES } from '@/lib/templates';
-import type { MessageTemplate } from '@/types';
+import MmsAttachments from './MmsAttachments';
+import type { MessageMedia, MessageTemplate } from '@/types';
 
 interface ComposeModalProps {
   channel: 'sms' | 'email';
@@ -29,6 +30,7 @@ export default function ComposeModal({
   const [selectedTemplateId, setSelectedTemplateId] = useState('');
   const [subject, setSubject] = useState('');
   const [body, setBody] = useState('');
+  const [attachments, setAttachments] = useState<MessageMedia[]>([]);
   const [sending, setSending] = useState(false);
 
   useEffect(() => {
@@ -55,7 +57,7 @@ export default function ComposeModal({
   const preview = renderTemplate(body, sampleVars);
 
   const handleSend = async () => {
-    if (!body.trim()) {
+    if (!body.trim() && attachments.length === 0) {
       toast.error('Enter a message');
       return;
     }
@@ -75,6 +77,9 @@ export default function ComposeModal({
           channel,
           subject: channel === 'email' ? subject : undefined,
           message: body,
+          media: channel === 'sms'
+            ? attachments.map(({ path, content_type }) => ({ path, content_type }))
+            : undefined,
         }),
       });
 
@@ -155,18 +160,33 @@ export default function ComposeModal({
             </span>
           </div>
 
+          {/* Images (SMS only — sent as MMS) */}
+          {channel === 'sms' && (
+            <div>
+              <label className="block text-sm font-medium text-[var(--text-secondary)] mb-1.5">
+                Images
+              </label>
+              <MmsAttachments media={attachments} onChange={setAttachments} disabled={sending} />
+            </div>
+          )}
+
           {/* Preview */}
-          {body && (
+          {(body || attachments.length > 0) && (
             <div>
               <label className="block text-xs font-medium text-[var(--text-tertiary)] mb-1.5">
                 Preview
               </label>
               <div className="border border-[var(--border-default)] rounded-xl bg-[var(--surface-subtle)] p-4">
                 {channel === 'sms' ? (
-                  <div className="max-w-[280px]">
-                    <div className="rounded-2xl rounded-bl-sm px-4 py-3 text-sm leading-relaxed" style={{ backgroundColor: '#F0F0F0', color: '#1A1A1A' }}>
-                      {preview}
-                    </div>
+                  <div className="max-w-[280px] space-y-1.5">
+                    {attachments.map((m) => m.url && (
+                      <img key={m.path} src={m.url} alt="Attachment" className="max-h-48 rounded-2xl object-cover" />
+                    ))}
+                    {body && (
+                      <div className="rounded-2xl rounded-bl-sm px-4 py-3 text-sm leading-relaxed" style={{ backgroundColor: '#F0F0F0', color: '#1A1A1A' }}>
+                        {preview}
+                      </div>
+                    )}
                   </div>
                 ) : (
                   <div className="bg-[var(--surface-raised)] rounded-lg border border-[var(--border-default)] overflow-hidden">
@@ -189,7 +209,7 @@ export default function ComposeModal({
       </ModalBody>
       <ModalFooter>
         <Button variant="secondary" onClick={onClose}>Cancel</Button>
-        <Button variant="primary" onClick={handleSend} loading={sending} disabled={!body.trim()}>
+        <Button variant="primary" onClick={handleSend} loading={sending} disabled={!body.trim() && attachments.length === 0}>
           {channel === 'sms' ? 'Send SMS' : 'Send Email'}
         </Button>
       </ModalFooter>
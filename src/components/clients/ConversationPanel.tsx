@@ -3,7 +3,8 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
 import { createClient } from '@/lib/supabase/client';
 import { Button } from '@/components/ui';
-import type { ConversationMessage } from '@/types';
+import MmsAttachments from './MmsAttachments';
+import type { ConversationMessage, MessageMedia } from '@/types';
 
 interface ConversationPanelProps {
   clientId: string | null;  // null for phone-only conversations
@@ -35,6 +36,7 @@ export default function ConversationPanel({
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [input, setInput] = useState('');
+  const [attachments, setAttachments] = useState<MessageMedia[]>([]);
   const [hasMore, setHasMore] = useState(false);
   const [loadingMore, setLoadingMore] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -137,14 +139,17 @@ export default function ConversationPanel({
   // Send message
   const handleSend = async () => {
     const trimmed = input.trim();
-    if (!trimmed || sending) return;
+    if ((!trimmed && attachments.length === 0) || sending) return;
 
     setSending(true);
     try {
       const res = await fetch(`/api/conversations/${apiId}/send`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: trimmed }),
+        body: JSON.stringify({
+          message: trimmed,
+          media: attachments.map(({ path, content_type }) => ({ path, content_type })),
+        }),
       });
       const data = await res.json();
       if (!res.ok) throw new Error(data.error);
@@ -153,6 +158,7 @@ export default function ConversationPanel({
         setMessages(prev => [...prev, data.message]);
       }
       setInput('');
+      setAttachments([]);
       scrollToBottom();
     } catch (err: any) {
       console.error('Send failed:', err);
@@ -455,6 +461,27 @@ export default function ConversationPanel({
                         : 'bg-[var(--surface-raised)] text-[var(--text-primary)] rounded-bl-md'
                     }`}
                   >
+                    {msg.media?.length > 0 && (
+                      <div className={`flex flex-wrap gap-1.5 ${msg.body ? 'mb-1.5' : ''}`}>
+                        {msg.media.map((m) =>
+                          m.url && m.content_type.startsWith('image/') ? (
+                            <a key={m.path} href={m.url} target="_blank" rel="noopener noreferrer">
+                              <img src={m.url} alt="Photo" className="max-h-56 max-w-full rounded-xl object-cover" />
+                            </a>
+                          ) : (
+                            <a
+                              key={m.path}
+                              href={m.url}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="underline"
+                            >
+                              Attachment ({m.content_type})
+                            </a>
+                          )
+                        )}
+                      </div>
+                    )}
                     {msg.body}
                   </div>
                 </div>
@@ -482,6 +509,9 @@ export default function ConversationPanel({
 
       {/* Input area */}
       <div className="border-t border-[var(--border-default)] px-4 py-3">
+        <div className="mb-2">
+          <MmsAttachments media={attachments} onChange={setAttachments} disabled={sending} compact />
+        </div>
         <div className="flex items-end gap-2">
           <div className="flex-1 relative">
             <textarea
@@ -502,7 +532,7 @@ export default function ConversationPanel({
           </div>
           <Button
             onClick={handleSend}
-            disabled={!input.trim() || sending}
+            disabled={(!input.trim() && attachments.length === 0) || sending}
             className="min-h-[48px] min-w-[48px] rounded-xl px-4"
           >
             {sending ? (
@@ -516,13 +546,13 @@ export default function ConversationPanel({
           </Button>
         </div>
         {/* Character counter */}
-        {charCount > 0 && (
+        {(charCount > 0 || attachments.length > 0) && (
           <div className="flex justify-between mt-1.5 px-1">
             <p className={`text-xs ${charCount > 1600 ? 'text-red-500' : 'text-[var(--text-tertiary)]'}`}>
               {charCount}/1600
             </p>
             <p className="text-xs text-[var(--text-tertiary)]">
-              {segments} segment{segments !== 1 ? 's' : ''}
+              {attachments.length > 0 ? 'Sends as MMS' : `${segments} segment${segments !== 1 ? 's' : ''}`}
             </p>
           </div>
         )}
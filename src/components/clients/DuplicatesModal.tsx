@@ -0,0 +1,254 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import {
+  Button,
+  Badge,
+  Modal,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from '@/components/ui';
+import type { ClientMerge, DuplicateClient, DuplicatePair, DuplicateReason } from '@/types';
+
+const REASON_LABELS: Record<DuplicateReason, string> = {
+  phone: 'Same phone',
+  email: 'Same email',
+  name: 'Same name',
+  similar_name: 'Similar name',
+};
+
+const CONFIDENCE_VARIANT = { high: 'error', medium: 'warning', low: 'default' } as const;
+
+const TABLE_LABELS: Record<string, string> = {
+  sales: 'sales',
+  waivers: 'waivers',
+  conversations: 'messages',
+  appointments: 'appointments',
+  warranties: 'warranties',
+  party_rsvps: 'RSVPs',
+};
+
+interface DuplicatesModalProps {
+  canEdit: boolean;
+  onClose: () => void;
+  /** Called after a merge or undo so the client list can refresh */
+  onChanged: () => void;
+}
+
+function displayName(client: DuplicateClient): string {
+  return `${client.first_name || ''} ${client.last_name || ''}`.trim() || 'Unnamed client';
+}
+
+function movedSummary(counts: Record<string, number>): string {
+  return Object.entries(TABLE_LABELS)
+    .filter(([table]) => counts[table])
+    .map(([table, label]) => `${counts[table]} ${label}`)
+    .join(', ');
+}
+
+export default function DuplicatesModal({ canEdit, onClose, onChanged }: DuplicatesModalProps) {
+  const [view, setView] = useState<'pairs' | 'history'>('pairs');
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [merges, setMerges] = useState<ClientMerge[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Pair key → id of the client to keep
+  const [keep, setKeep] = useState<Record<string, string>>({});
+  const [confirming, setConfirming] = useState<{ pair: DuplicatePair; survivor: DuplicateClient; merged: DuplicateClient } | null>(null);
+  const [working, setWorking] = useState(false);
+
+  const fetchPairs = useCallback(async () => {
+    setLoading(true);
+    const res = await fetch('/api/clients/duplicates');
+    if (res.ok) setPairs((await res.json()).pairs || []);
+    else toast.error('Failed to find duplicates');
+    setLoading(false);
+  }, []);
+
+  const fetchMerges = useCallback(async () => {
+    const res = await fetch('/api/clients/merges');
+    if (res.ok) setMerges((await res.json()).merges || []);
+  }, []);
+
+  useEffect(() => { fetchPairs(); fetchMerges(); }, [fetchPairs, fetchMerges]);
+
+  const pairKey = (pair: DuplicatePair) => `${pair.a.id}|${pair.b.id}`;
+
+  const startMerge = (pair: DuplicatePair) => {
+    const survivorId = keep[pairKey(pair)] || pair.a.id;
+    const [survivor, merged] = survivorId === pair.a.id ? [pair.a, pair.b] : [pair.b, pair.a];
+    setConfirming({ pair, survivor, merged });
+  };
+
+  const handleMerge = async () => {
+    if (!confirming) return;
+    setWorking(true);
+    const res = await fetch('/api/clients/merges', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ survivor_id: confirming.survivor.id, merged_id: confirming.merged.id }),
+    });
+    setWorking(false);
+    if (!res.ok) {
+      const err = await res.json();
+      toast.error(err.error || 'Failed to merge clients');
+      return;
+    }
+    toast.success(`Merged into ${displayName(confirming.survivor)}`);
+    setConfirming(null);
+    fetchPairs();
+    fetchMerges();
+    onChanged();
+  };
+
+  const handleUndo = async (merge: ClientMerge) => {
+    setWorking(true);
+    const res = await fetch(`/api/clients/merges/${merge.id}/undo`, { method: 'POST' });
+    setWorking(false);
+    if (!res.ok) {
+      const err = await res.json();
+      toast.error(err.error || 'Failed to undo merge');
+      return;
+    }
+    toast.success(`${merge.merged_client_name} restored`);
+    fetchPairs();
+    fetchMerges();
+    onChanged();
+  };
+
+  const clientColumn = (pair: DuplicatePair, client: DuplicateClient) => {
+    const selected = (keep[pairKey(pair)] || pair.a.id) === client.id;
+    return (
+      <label
+        className={`flex-1 min-w-0 rounded-lg border p-3 cursor-pointer transition-colors ${
+          selected ? 'border-[var(--accent-primary)] bg-[var(--accent-subtle)]' : 'border-[var(--border-default)]'
+        }`}
+      >
+        <div className="flex items-center gap-2">
+          {canEdit && (
+            <input
+              type="radio"
+              name={pairKey(pair)}
+              checked={selected}
+              onChange={() => setKeep((prev) => ({ ...prev, [pairKey(pair)]: client.id }))}
+            />
+          )}
+          <span className="text-sm font-medium text-[var(--text-primary)] truncate">{displayName(client)}</span>
+        </div>
+        <div className="mt-1.5 space-y-0.5 text-xs text-[var(--text-secondary)]">
+          <p className="truncate">{client.phone || 'No phone'}</p>
+          <p className="truncate">{client.email || 'No email'}</p>
+          <p className="text-[var(--text-tertiary)]">
+            Added {format(new Date(client.created_at), 'MMM d, yyyy')}
+            {client.last_visit_at && ` · Visited ${format(new Date(client.last_visit_at), 'MMM d, yyyy')}`}
+          </p>
+        </div>
+      </label>
+    );
+  };
+
+  return (
+    <Modal isOpen={true} onClose={onClose} size="xl">
+      <ModalHeader>
+        <h2 className="text-lg font-semibold text-[var(--text-primary)]">Duplicate Clients</h2>
+        <p className="text-sm text-[var(--text-tertiary)] mt-0.5">
+          Merging moves sales, waivers, messages, tags and everything else onto the client you keep.
+        </p>
+      </ModalHeader>
+      <ModalBody>
+        <div className="flex gap-1 bg-[var(--surface-subtle)] rounded-xl p-1 max-w-xs mb-4">
+          {([{ value: 'pairs' as const, label: 'Possible duplicates' }, { value: 'history' as const, label: 'Merge history' }]).map((opt) => (
+            <button key={opt.value} onClick={() => setView(opt.value)}
+              className={`flex-1 px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${view === opt.value ? 'bg-[var(--surface-raised)] text-[var(--text-primary)] shadow-sm' : 'text-[var(--text-tertiary)] hover:text-[var(--text-primary)]'}`}>
+              {opt.label}
+            </button>
+          ))}
+        </div>
+
+        {view === 'pairs' && (
+          loading ? (
+            <div className="text-[var(--text-tertiary)] py-8 text-center text-sm">Looking for duplicates...</div>
+          ) : pairs.length === 0 ? (
+            <div className="text-[var(--text-tertiary)] py-8 text-center text-sm">No likely duplicates found.</div>
+          ) : (
+            <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+              {pairs.map((pair) => (
+                <div key={pairKey(pair)} className="rounded-xl border border-[var(--border-default)] p-3">
+                  <div className="flex items-center gap-1.5 flex-wrap mb-2">
+                    <Badge variant={CONFIDENCE_VARIANT[pair.confidence]} size="sm">{pair.score}% match</Badge>
+                    {pair.reasons.map((r) => (
+                      <Badge key={r} variant="secondary" size="sm">{REASON_LABELS[r]}</Badge>
+                    ))}
+                    {canEdit && (
+                      <Button variant="secondary" size="sm" className="ml-auto" onClick={() => startMerge(pair)}>
+                        Merge
+                      </Button>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    {clientColumn(pair, pair.a)}
+                    {clientColumn(pair, pair.b)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        )}
+
+        {view === 'history' && (
+          merges.length === 0 ? (
+            <div className="text-[var(--text-tertiary)] py-8 text-center text-sm">No merges yet.</div>
+          ) : (
+            <div className="divide-y divide-[var(--border-subtle)] max-h-[60vh] overflow-y-auto">
+              {merges.map((m) => (
+                <div key={m.id} className="flex items-center gap-3 py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-[var(--text-primary)]">
+                      <span className="font-medium">{m.merged_client_name}</span> merged into{' '}
+                      <span className="font-medium">{m.survivor_name}</span>
+                    </p>
+                    <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+                      {format(new Date(m.created_at), 'MMM d, yyyy h:mm a')}
+                      {m.merged_by_name && ` · ${m.merged_by_name}`}
+                      {movedSummary(m.moved_counts) && ` · Moved ${movedSummary(m.moved_counts)}`}
+                    </p>
+                  </div>
+                  {m.undone_at ? (
+                    <Badge variant="default" size="sm">Undone</Badge>
+                  ) : canEdit && m.survivor_exists && (
+                    <Button variant="secondary" size="sm" onClick={() => handleUndo(m)} disabled={working}>
+                      Undo
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )
+        )}
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>Close</Button>
+      </ModalFooter>
+
+      {confirming && (
+        <Modal isOpen={true} onClose={() => setConfirming(null)} size="sm">
+          <ModalHeader><h2 className="text-lg font-semibold text-[var(--text-primary)]">Merge Clients</h2></ModalHeader>
+          <ModalBody>
+            <p className="text-sm text-[var(--text-secondary)]">
+              Merge <span className="font-medium text-[var(--text-primary)]">{displayName(confirming.merged)}</span> into{' '}
+              <span className="font-medium text-[var(--text-primary)]">{displayName(confirming.survivor)}</span>?
+              Their history moves over, blank details are filled in and notes are combined.
+              You can undo this from Merge history.
+            </p>
+          </ModalBody>
+          <ModalFooter>
+            <Button variant="secondary" onClick={() => setConfirming(null)}>Cancel</Button>
+            <Button variant="primary" onClick={handleMerge} loading={working}>Merge</Button>
+          </ModalFooter>
+        </Modal>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,267 @@
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import { formatPoints, nextReward, LOYALTY_SOURCE_LABELS } from '@/lib/loyalty';
+import type { LoyaltyLedgerEntry, LoyaltyReward } from '@/types';
+
+interface LoyaltyCardProps {
+  clientId: string;
+  tenantId: string;
+  canEdit: boolean;
+}
+
+interface ReferrerOption {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  phone?: string | null;
+}
+
+export default function LoyaltyCard({ clientId, tenantId, canEdit }: LoyaltyCardProps) {
+  const [balance, setBalance] = useState(0);
+  const [entries, setEntries] = useState<LoyaltyLedgerEntry[]>([]);
+  const [rewards, setRewards] = useState<LoyaltyReward[]>([]);
+  const [referredBy, setReferredBy] = useState<{ id: string; name: string } | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Manual adjustment
+  const [adjusting, setAdjusting] = useState(false);
+  const [adjustPoints, setAdjustPoints] = useState('');
+  const [adjustNote, setAdjustNote] = useState('');
+  const [savingAdjust, setSavingAdjust] = useState(false);
+
+  // Referrer picker
+  const [pickingReferrer, setPickingReferrer] = useState(false);
+  const [referrerSearch, setReferrerSearch] = useState('');
+  const [referrerResults, setReferrerResults] = useState<ReferrerOption[]>([]);
+
+  const fetchLoyalty = useCallback(async () => {
+    const supabase = createClient();
+    const [res, rewardsRes] = await Promise.all([
+      fetch(`/api/clients/${clientId}/loyalty`),
+      supabase.from('loyalty_rewards').select('*').eq('tenant_id', tenantId).eq('is_active', true),
+    ]);
+    if (res.ok) {
+      const data = await res.json();
+      setBalance(data.balance || 0);
+      setEntries(data.entries || []);
+      setReferredBy(data.referred_by || null);
+    }
+    setRewards((rewardsRes.data || []) as LoyaltyReward[]);
+    setLoading(false);
+  }, [clientId, tenantId]);
+
+  useEffect(() => { fetchLoyalty(); }, [fetchLoyalty]);
+
+  const handleAdjust = async () => {
+    const points = parseInt(adjustPoints, 10);
+    if (!points || !adjustNote.trim()) return;
+    setSavingAdjust(true);
+    try {
+      const res = await fetch(`/api/clients/${clientId}/loyalty`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ points, note: adjustNote.trim() }),
+      });
+      if (!res.ok) {
+        const err = await res.json().catch(() => ({}));
+        toast.error(err.error || 'Failed to adjust points');
+        return;
+      }
+      toast.success(`${points > 0 ? 'Added' : 'Removed'} ${formatPoints(Math.abs(points))}`);
+      setAdjusting(false);
+      setAdjustPoints('');
+      setAdjustNote('');
+      fetchLoyalty();
+    } finally {
+      setSavingAdjust(false);
+    }
+  };
+
+  const handleReferrerSearch = async (query: string) => {
+    setReferrerSearch(query);
+    if (query.trim().length < 2) { setReferrerResults([]); return; }
+    const supabase = createClient();
+    const { data } = await supabase
+      .from('clients')
+      .select('id, first_name, last_name, phone')
+      .eq('tenant_id', tenantId)
+      .neq('id', clientId)
+      .or(`first_name.ilike.%${query.trim()}%,last_name.ilike.%${query.trim()}%,phone.ilike.%${query.trim()}%`)
+      .limit(5);
+    setReferrerResults(data || []);
+  };
+
+  const setReferrer = async (referrerId: string | null) => {
+    const supabase = createClient();
+    const { error } = await supabase
+      .from('clients')
+      .update({ referred_by_client_id: referrerId })
+      .eq('id', clientId);
+    if (error) {
+      toast.error('Failed to save referral');
+      return;
+    }
+    setPickingReferrer(false);
+    setReferrerSearch('');
+    setReferrerResults([]);
+    fetchLoyalty();
+  };
+
+  if (loading) return null;
+
+  const upcoming = nextReward(balance, rewards);
+  const progress = upcoming ? Math.min(100, (balance / upcoming.points_cost) * 100) : 100;
+  const available = rewards.filter((r) => r.points_cost <= balance).length;
+
+  return (
+    <div className="bg-[var(--surface-raised)] border border-[var(--border-default)] rounded-xl p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="text-[10px] font-semibold text-[var(--text-tertiary)] uppercase tracking-[0.05em]">
+          Loyalty
+        </div>
+        {canEdit && !adjusting && (
+          <button
+            onClick={() => setAdjusting(true)}
+            className="text-[10px] font-semibold"
+            style={{ color: 'var(--accent-primary)' }}
+          >
+            Adjust
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-baseline justify-between">
+        <div className="text-base font-bold text-[var(--text-primary)]">{formatPoints(balance)}</div>
+        {available > 0 && (
+          <div className="text-[10px] text-[var(--text-tertiary)]">
+            {available} reward{available === 1 ? '' : 's'} available
+          </div>
+        )}
+      </div>
+
+      {upcoming && (
+        <div>
+          <div className="h-1.5 rounded-full bg-[var(--surface-subtle)] overflow-hidden">
+            <div className="h-full rounded-full" style={{ width: `${progress}%`, backgroundColor: 'var(--accent-primary)' }} />
+          </div>
+          <p className="text-[10px] text-[var(--text-tertiary)] mt-1">
+            {formatPoints(upcoming.points_cost - balance)} to {upcoming.name}
+          </p>
+        </div>
+      )}
+
+      {adjusting && (
+        <div className="space-y-1.5 pt-1">
+          <div className="flex gap-2">
+            <input
+              type="number"
+              step="1"
+              value={adjustPoints}
+              onChange={(e) => setAdjustPoints(e.target.value)}
+              placeholder="+/- points"
+              className="w-24 px-2 py-1.5 text-[12px] bg-[var(--surface-base)] border border-[var(--border-default)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+            />
+            <input
+              type="text"
+              value={adjustNote}
+              onChange={(e) => setAdjustNote(e.target.value)}
+              placeholder="Reason"
+              maxLength={200}
+              className="flex-1 px-2 py-1.5 text-[12px] bg-[var(--surface-base)] border border-[var(--border-default)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => { setAdjusting(false); setAdjustPoints(''); setAdjustNote(''); }}
+              className="px-2 py-1 text-[11px] text-[var(--text-tertiary)]"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleAdjust}
+              disabled={savingAdjust || !parseInt(adjustPoints, 10) || !adjustNote.trim()}
+              className="px-3 py-1 text-[11px] font-semibold rounded-md text-white disabled:opacity-50"
+              style={{ backgroundColor: 'var(--accent-primary)' }}
+            >
+              {savingAdjust ? '...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Referred by */}
+      <div className="text-[11px] text-[var(--text-tertiary)]">
+        {pickingReferrer ? (
+          <div className="space-y-1">
+            <input
+              type="text"
+              value={referrerSearch}
+              onChange={(e) => handleReferrerSearch(e.target.value)}
+              placeholder="Search clients..."
+              autoFocus
+              className="w-full px-2 py-1.5 text-[12px] bg-[var(--surface-base)] border border-[var(--border-default)] rounded-lg focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]"
+            />
+            {referrerResults.map((c) => (
+              <button
+                key={c.id}
+                onClick={() => setReferrer(c.id)}
+                className="block w-full text-left px-2 py-1 rounded-md hover:bg-[var(--surface-subtle)] text-[var(--text-primary)]"
+              >
+                {`${c.first_name || ''} ${c.last_name || ''}`.trim() || c.phone || 'Unnamed client'}
+              </button>
+            ))}
+            <button onClick={() => setPickingReferrer(false)} className="text-[10px] text-[var(--text-tertiary)]">
+              Cancel
+            </button>
+          </div>
+        ) : referredBy ? (
+          <p>
+            Referred by <span className="text-[var(--text-secondary)]">{referredBy.name}</span>
+            {canEdit && (
+              <button onClick={() => setReferrer(null)} className="ml-2 text-[10px] hover:text-red-600">
+                Clear
+              </button>
+            )}
+          </p>
+        ) : canEdit ? (
+          <button onClick={() => setPickingReferrer(true)} className="text-[10px] hover:text-[var(--text-secondary)]">
+            + Add referred by
+          </button>
+        ) : null}
+      </div>
+
+      {/* History */}
+      {entries.length > 0 && (
+        <div>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className="text-[10px] text-[var(--text-tertiary)] hover:text-[var(--text-secondary)]"
+          >
+            {showHistory ? 'Hide history' : `Show history (${entries.length})`}
+          </button>
+          {showHistory && (
+            <div className="mt-1.5 space-y-1">
+              {entries.map((entry) => (
+                <div key={entry.id} className="flex items-center justify-between text-[11px]">
+                  <div className="min-w-0">
+                    <span className="text-[var(--text-secondary)]">{LOYALTY_SOURCE_LABELS[entry.source] || entry.source}</span>
+                    {entry.note && <span className="text-[var(--text-tertiary)]"> · {entry.note}</span>}
+                    <span className="text-[var(--text-tertiary)]"> · {format(new Date(entry.occurred_at), 'MMM d, yyyy')}</span>
+                  </div>
+                  <span className={`font-semibold shrink-0 ml-2 ${entry.points >= 0 ? 'text-[var(--success-600)]' : 'text-[var(--text-tertiary)]'}`}>
+                    {entry.points > 0 ? '+' : ''}{entry.points}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
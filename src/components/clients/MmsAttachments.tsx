@@ -0,0 +1,109 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { MMS_IMAGE_TYPES, MMS_MAX_ATTACHMENTS, validateMmsImage } from '@/lib/message-media';
+import type { MessageMedia } from '@/types';
+
+// Images attached to an outgoing text. Uploads each one to
+// /api/conversations/media; the parent sends `media` with the message.
+interface MmsAttachmentsProps {
+  media: MessageMedia[];
+  onChange: (media: MessageMedia[]) => void;
+  disabled?: boolean;
+  /** Show the attach button as an icon only (for tight input rows) */
+  compact?: boolean;
+}
+
+export default function MmsAttachments({ media, onChange, disabled, compact }: MmsAttachmentsProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    const room = MMS_MAX_ATTACHMENTS - media.length;
+    const selected = Array.from(files).slice(0, room);
+    if (files.length > room) toast.error(`Up to ${MMS_MAX_ATTACHMENTS} images per message`);
+
+    setUploading(true);
+    const added: MessageMedia[] = [];
+    try {
+      for (const file of selected) {
+        const invalid = validateMmsImage(file);
+        if (invalid) {
+          toast.error(invalid);
+          continue;
+        }
+        const form = new FormData();
+        form.append('file', file);
+        const res = await fetch('/api/conversations/media', { method: 'POST', body: form });
+        const data = await res.json();
+        if (!res.ok) {
+          toast.error(data.error || 'Failed to attach image');
+          continue;
+        }
+        added.push(data.media);
+      }
+    } catch {
+      toast.error('Failed to attach image');
+    } finally {
+      if (added.length) onChange([...media, ...added]);
+      setUploading(false);
+      if (fileRef.current) fileRef.current.value = '';
+    }
+  };
+
+  const canAdd = media.length < MMS_MAX_ATTACHMENTS && !disabled;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {media.map((m) => (
+        <div key={m.path} className="relative h-16 w-16 rounded-lg overflow-hidden border border-[var(--border-default)] bg-[var(--surface-raised)]">
+          {m.url && <img src={m.url} alt="Attachment" className="h-full w-full object-cover" />}
+          <button
+            type="button"
+            onClick={() => onChange(media.filter((x) => x.path !== m.path))}
+            disabled={disabled}
+            className="absolute top-0.5 right-0.5 h-5 w-5 rounded-full bg-black/60 text-white text-xs leading-none flex items-center justify-center"
+            aria-label="Remove image"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      {canAdd && (
+        <button
+          type="button"
+          onClick={() => fileRef.current?.click()}
+          disabled={uploading}
+          className={`flex items-center justify-center gap-1.5 rounded-lg border border-dashed border-[var(--border-default)] text-[var(--text-secondary)] hover:bg-[var(--surface-raised)] transition-colors disabled:opacity-50 ${
+            compact ? 'h-[44px] w-[44px]' : 'h-9 px-3 text-sm'
+          }`}
+          aria-label="Attach image"
+          title="Attach image (JPG, PNG or GIF, up to 5 MB)"
+        >
+          {uploading ? (
+            <div className="animate-spin rounded-full h-4 w-4 border-2 border-[var(--accent-500)] border-t-transparent" />
+          ) : (
+            <svg width="16" height="16" viewBox="0 0 24 24" fill="none">
+              <rect x="3" y="3" width="18" height="18" rx="2" stroke="currentColor" strokeWidth="1.5" />
+              <circle cx="8.5" cy="8.5" r="1.5" stroke="currentColor" strokeWidth="1.5" />
+              <path d="M21 15l-5-5L5 21" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round" />
+            </svg>
+          )}
+          {!compact && <span>{uploading ? 'Uploading...' : 'Add image'}</span>}
+        </button>
+      )}
+
+      <input
+        ref={fileRef}
+        type="file"
+        accept={MMS_IMAGE_TYPES.join(',')}
+        multiple
+        className="hidden"
+        onChange={(e) => handleFiles(e.target.files)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,444 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  Button,
+  Input,
+  Modal,
+  ModalHeader,
+  ModalBody,
+  ModalFooter,
+} from '@/components/ui';
+import { createClient } from '@/lib/supabase/client';
+import {
+  MAX_SEGMENT_DEPTH,
+  SEGMENT_CONDITION_LABELS,
+  defaultSegmentCondition,
+  emptySegmentFilter,
+  normalizeSegmentFilter,
+  validateSegmentFilter,
+  type SegmentCondition,
+  type SegmentConditionType,
+  type SegmentFilter,
+  type SegmentGroup,
+  type SegmentRule,
+} from '@/lib/segments';
+import type { ClientTag, ClientSegment } from '@/types';
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const fieldClass =
+  'px-2.5 py-1.5 text-sm border border-[var(--border-default)] rounded-lg bg-[var(--surface-base)] text-[var(--text-primary)] focus:outline-none focus:border-[var(--accent-primary)]';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface BuilderOptions {
+  tags: Option[];
+  events: Option[];
+  parties: Option[];
+  productTypes: Option[];
+  materials: string[];
+}
+
+interface SegmentBuilderModalProps {
+  tenantId: string;
+  tags: ClientTag[];
+  /** Segment being edited, or null for a new one */
+  segment: ClientSegment | null;
+  /** Unsaved filter to resume editing when no segment is given */
+  initialFilter?: SegmentFilter | null;
+  canSave: boolean;
+  onClose: () => void;
+  /** Filter the client list without saving */
+  onApply: (filter: SegmentFilter, clientIds: string[]) => void;
+  onSaved: (segment: ClientSegment, clientIds: string[]) => void;
+}
+
+export default function SegmentBuilderModal({
+  tenantId,
+  tags,
+  segment,
+  initialFilter,
+  canSave,
+  onClose,
+  onApply,
+  onSaved,
+}: SegmentBuilderModalProps) {
+  const [name, setName] = useState(segment?.name || '');
+  const [filter, setFilter] = useState<SegmentFilter>(() =>
+    segment ? normalizeSegmentFilter(segment.filter_criteria) : initialFilter || emptySegmentFilter()
+  );
+  const [options, setOptions] = useState<BuilderOptions>({
+    tags: tags.map((t) => ({ id: t.id, name: t.name })),
+    events: [],
+    parties: [],
+    productTypes: [],
+    materials: [],
+  });
+  const [preview, setPreview] = useState<{ count: number; sample: string[]; client_ids: string[] } | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [counting, setCounting] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const requestId = useRef(0);
+
+  // ── Load pickers for events, parties, product types and materials ──
+  useEffect(() => {
+    const supabase = createClient();
+    (async () => {
+      const [eventsRes, partiesRes, typesRes, materialsRes] = await Promise.all([
+        supabase.from('events').select('id, name, start_time').eq('tenant_id', tenantId).order('start_time', { ascending: false }).limit(200),
+        supabase.from('party_requests').select('id, host_name, preferred_date').eq('tenant_id', tenantId).order('preferred_date', { ascending: false }).limit(200),
+        supabase.from('product_types').select('id, name').eq('tenant_id', tenantId).order('sort_order'),
+        supabase.from('inventory_items').select('material').eq('tenant_id', tenantId).not('material', 'is', null),
+      ]);
+      const materials = [...new Set((materialsRes.data || []).map((r: any) => String(r.material).trim()).filter(Boolean))].sort();
+      setOptions((prev) => ({
+        ...prev,
+        events: (eventsRes.data || []).map((e: any) => ({
+          id: e.id,
+          name: `${e.name} · ${new Date(e.start_time).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`,
+        })),
+        parties: (partiesRes.data || []).map((p: any) => ({
+          id: p.id,
+          name: `${p.host_name}'s party${p.preferred_date ? ` · ${p.preferred_date}` : ''}`,
+        })),
+        productTypes: (typesRes.data || []).map((t: any) => ({ id: t.id, name: t.name })),
+        materials,
+      }));
+    })();
+  }, [tenantId]);
+
+  // ── Live count (debounced) ──
+  useEffect(() => {
+    const validation = validateSegmentFilter(filter);
+    if (validation) {
+      setPreviewError(validation);
+      setPreview(null);
+      return;
+    }
+    setPreviewError(null);
+    const id = ++requestId.current;
+    setCounting(true);
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch('/api/segments/preview', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ filter_criteria: filter, include_ids: true }),
+        });
+        const data = await res.json();
+        if (id !== requestId.current) return;
+        if (!res.ok) { setPreviewError(data.error || 'Could not count clients'); setPreview(null); }
+        else setPreview(data);
+      } finally {
+        if (id === requestId.current) setCounting(false);
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [filter]);
+
+  const handleSave = async () => {
+    if (!name.trim()) { toast.error('Give the segment a name'); return; }
+    const validation = validateSegmentFilter(filter);
+    if (validation) { toast.error(validation); return; }
+
+    setSaving(true);
+    const res = await fetch(segment ? `/api/segments/${segment.id}` : '/api/segments', {
+      method: segment ? 'PATCH' : 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ tenant_id: tenantId, name: name.trim(), filter_criteria: filter }),
+    });
+    setSaving(false);
+    if (!res.ok) {
+      const err = await res.json().catch(() => ({}));
+      toast.error(err.error || 'Failed to save segment');
+      return;
+    }
+    toast.success(segment ? 'Segment updated' : 'Segment saved');
+    onSaved(await res.json(), preview?.client_ids || []);
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} size="lg">
+      <ModalHeader>
+        <h2 className="text-lg font-semibold text-[var(--text-primary)]">{segment ? 'Edit Segment' : 'New Segment'}</h2>
+        <p className="text-sm text-[var(--text-tertiary)] mt-1">
+          Combine rules to find exactly the clients you want to reach.
+        </p>
+      </ModalHeader>
+      <ModalBody className="space-y-4">
+        {canSave && (
+          <Input
+            label="Segment Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Gold buyers who haven't been back"
+          />
+        )}
+
+        <GroupEditor
+          group={filter.root}
+          depth={1}
+          options={options}
+          onChange={(root) => setFilter({ ...filter, root })}
+        />
+
+        <div className="rounded-lg bg-[var(--surface-raised)] border border-[var(--border-subtle)] px-3 py-2.5 text-sm">
+          {previewError ? (
+            <span className="text-[var(--text-tertiary)]">{previewError}</span>
+          ) : counting || !preview ? (
+            <span className="text-[var(--text-tertiary)]">Counting clients…</span>
+          ) : (
+            <div>
+              <span className="font-semibold text-[var(--text-primary)]">
+                {preview.count} client{preview.count === 1 ? '' : 's'}
+              </span>
+              <span className="text-[var(--text-secondary)]"> match</span>
+              {preview.sample.length > 0 && (
+                <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+                  {preview.sample.join(', ')}{preview.count > preview.sample.length ? '…' : ''}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>Cancel</Button>
+        <Button
+          variant="secondary"
+          onClick={() => preview && onApply(filter, preview.client_ids)}
+          disabled={!preview || counting}
+        >
+          Apply Filter
+        </Button>
+        {canSave && (
+          <Button variant="primary" onClick={handleSave} loading={saving} disabled={!!previewError}>
+            {segment ? 'Save Changes' : 'Save Segment'}
+          </Button>
+        )}
+      </ModalFooter>
+    </Modal>
+  );
+}
+
+// ============================================================================
+// Group + Condition Editors
+// ============================================================================
+
+function GroupEditor({
+  group,
+  depth,
+  options,
+  onChange,
+  onRemove,
+}: {
+  group: SegmentGroup;
+  depth: number;
+  options: BuilderOptions;
+  onChange: (group: SegmentGroup) => void;
+  onRemove?: () => void;
+}) {
+  const updateRule = (index: number, rule: SegmentRule) =>
+    onChange({ ...group, rules: group.rules.map((r, i) => (i === index ? rule : r)) });
+  const removeRule = (index: number) =>
+    onChange({ ...group, rules: group.rules.filter((_, i) => i !== index) });
+
+  return (
+    <div className={depth > 1 ? 'rounded-xl border border-[var(--border-default)] p-3 space-y-2' : 'space-y-2'}>
+      <div className="flex items-center gap-2 flex-wrap text-sm text-[var(--text-secondary)]">
+        <select
+          value={group.negate ? 'exclude' : 'include'}
+          onChange={(e) => onChange({ ...group, negate: e.target.value === 'exclude' })}
+          className={fieldClass}
+        >
+          <option value="include">Include</option>
+          <option value="exclude">Exclude</option>
+        </select>
+        <span>clients matching</span>
+        <select
+          value={group.match}
+          onChange={(e) => onChange({ ...group, match: e.target.value as 'all' | 'any' })}
+          className={fieldClass}
+        >
+          <option value="all">all</option>
+          <option value="any">any</option>
+        </select>
+        <span>of these rules</span>
+        {onRemove && (
+          <button onClick={onRemove} className="ml-auto text-xs text-[var(--text-tertiary)] hover:text-red-500">
+            Remove group
+          </button>
+        )}
+      </div>
+
+      {group.rules.length === 0 && (
+        <p className="text-xs text-[var(--text-tertiary)] py-1">No rules yet — this matches every client.</p>
+      )}
+
+      {group.rules.map((rule, i) =>
+        rule.type === 'group' ? (
+          <GroupEditor
+            key={i}
+            group={rule}
+            depth={depth + 1}
+            options={options}
+            onChange={(g) => updateRule(i, g)}
+            onRemove={() => removeRule(i)}
+          />
+        ) : (
+          <ConditionRow
+            key={i}
+            rule={rule}
+            options={options}
+            onChange={(r) => updateRule(i, r)}
+            onRemove={() => removeRule(i)}
+          />
+        )
+      )}
+
+      <div className="flex items-center gap-3 pt-1">
+        <button
+          onClick={() => onChange({ ...group, rules: [...group.rules, defaultSegmentCondition('tag')] })}
+          className="text-xs font-medium text-[var(--accent-primary)] hover:underline"
+        >
+          + Add rule
+        </button>
+        {depth < MAX_SEGMENT_DEPTH && (
+          <button
+            onClick={() => onChange({ ...group, rules: [...group.rules, { type: 'group', match: 'any', rules: [defaultSegmentCondition('tag')] }] })}
+            className="text-xs font-medium text-[var(--accent-primary)] hover:underline"
+          >
+            + Add group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ConditionRow({
+  rule,
+  options,
+  onChange,
+  onRemove,
+}: {
+  rule: SegmentCondition & { negate?: boolean };
+  options: BuilderOptions;
+  onChange: (rule: SegmentCondition & { negate?: boolean }) => void;
+  onRemove: () => void;
+}) {
+  const set = (patch: Record<string, unknown>) => onChange({ ...rule, ...patch } as SegmentCondition & { negate?: boolean });
+
+  const picker = (value: string, list: Option[], placeholder: string, key: string) => (
+    <select value={value} onChange={(e) => set({ [key]: e.target.value })} className={`${fieldClass} min-w-0 flex-1`}>
+      <option value="">{placeholder}</option>
+      {list.map((o) => <option key={o.id} value={o.id}>{o.name}</option>)}
+    </select>
+  );
+
+  const comparison = (op: string) => (
+    <select value={op} onChange={(e) => set({ op: e.target.value })} className={fieldClass}>
+      <option value="gte">at least</option>
+      <option value="lte">at most</option>
+    </select>
+  );
+
+  let params: React.ReactNode = null;
+  switch (rule.type) {
+    case 'tag':
+      params = picker(rule.tag_id, options.tags, 'Select a tag…', 'tag_id');
+      break;
+    case 'lifetime_spend':
+      params = (
+        <>
+          {comparison(rule.op)}
+          <span className="text-sm text-[var(--text-secondary)]">$</span>
+          <input type="number" min={0} step="1" value={rule.amount} onChange={(e) => set({ amount: Number(e.target.value) })} className={`${fieldClass} w-24`} />
+        </>
+      );
+      break;
+    case 'visit_count':
+      params = (
+        <>
+          {comparison(rule.op)}
+          <input type="number" min={0} step="1" value={rule.count} onChange={(e) => set({ count: Number(e.target.value) })} className={`${fieldClass} w-20`} />
+          <span className="text-sm text-[var(--text-secondary)]">visits</span>
+        </>
+      );
+      break;
+    case 'last_visit':
+      params = (
+        <>
+          <select value={rule.op} onChange={(e) => set({ op: e.target.value })} className={fieldClass}>
+            <option value="within">within the last</option>
+            <option value="before">more than</option>
+          </select>
+          <input type="number" min={0} step="1" value={rule.days} onChange={(e) => set({ days: Number(e.target.value) })} className={`${fieldClass} w-20`} />
+          <span className="text-sm text-[var(--text-secondary)]">{rule.op === 'within' ? 'days' : 'days ago'}</span>
+        </>
+      );
+      break;
+    case 'birthday_month':
+      params = (
+        <select value={rule.month} onChange={(e) => set({ month: Number(e.target.value) })} className={fieldClass}>
+          {MONTHS.map((m, i) => <option key={m} value={i + 1}>{m}</option>)}
+        </select>
+      );
+      break;
+    case 'attended_event':
+      params = picker(rule.event_id, options.events, 'Select an event…', 'event_id');
+      break;
+    case 'attended_party':
+      params = (
+        <select
+          value={rule.party_request_id || ''}
+          onChange={(e) => set({ party_request_id: e.target.value || null })}
+          className={`${fieldClass} min-w-0 flex-1`}
+        >
+          <option value="">Any party</option>
+          {options.parties.map((o) => <option key={o.id} value={o.id}>{o.name}</option>)}
+        </select>
+      );
+      break;
+    case 'purchased_material':
+      params = picker(rule.material, options.materials.map((m) => ({ id: m, name: m })), 'Select a material…', 'material');
+      break;
+    case 'purchased_product_type':
+      params = picker(rule.product_type_id, options.productTypes, 'Select a product type…', 'product_type_id');
+      break;
+  }
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap rounded-lg bg-[var(--surface-raised)] px-2.5 py-2">
+      <select
+        value={rule.negate ? 'not' : 'is'}
+        onChange={(e) => set({ negate: e.target.value === 'not' })}
+        className={fieldClass}
+        aria-label="Include or exclude"
+      >
+        <option value="is">Is</option>
+        <option value="not">Not</option>
+      </select>
+      <select
+        value={rule.type}
+        onChange={(e) => onChange({ ...defaultSegmentCondition(e.target.value as SegmentConditionType), negate: rule.negate })}
+        className={fieldClass}
+      >
+        {(Object.keys(SEGMENT_CONDITION_LABELS) as SegmentConditionType[]).map((t) => (
+          <option key={t} value={t}>{SEGMENT_CONDITION_LABELS[t]}</option>
+        ))}
+      </select>
+      {params}
+      <button onClick={onRemove} className="ml-auto text-[var(--text-tertiary)] hover:text-red-500 p-1" aria-label="Remove rule">
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+}
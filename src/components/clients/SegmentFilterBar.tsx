@@ -0,0 +1,130 @@
+'use client';
+
+import { useState } from 'react';
+import type { ClientSegment } from '@/types';
+
+interface SegmentFilterBarProps {
+  segments: ClientSegment[];
+  /** Saved segment currently applied, if any */
+  activeSegment: ClientSegment | null;
+  /** True when a segment or an unsaved rule filter is applied */
+  isFiltered: boolean;
+  matchCount: number;
+  canEdit: boolean;
+  onNewFilter: () => void;
+  onEditFilter: () => void;
+  onClearFilter: () => void;
+  onApplySegment: (segment: ClientSegment) => void;
+  onEditSegment: (segment: ClientSegment) => void;
+  onDeleteSegment: (id: string) => void;
+  onManageTags: () => void;
+}
+
+export default function SegmentFilterBar({
+  segments,
+  activeSegment,
+  isFiltered,
+  matchCount,
+  canEdit,
+  onNewFilter,
+  onEditFilter,
+  onClearFilter,
+  onApplySegment,
+  onEditSegment,
+  onDeleteSegment,
+  onManageTags,
+}: SegmentFilterBarProps) {
+  const [showSegmentDropdown, setShowSegmentDropdown] = useState(false);
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      {isFiltered ? (
+        <div className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium bg-[var(--accent-primary)] text-white">
+          <button onClick={onEditFilter} className="inline-flex items-center gap-1.5">
+            {activeSegment ? activeSegment.name : 'Custom filter'}
+            <span className="opacity-70">{matchCount}</span>
+          </button>
+          <button onClick={onClearFilter} className="opacity-70 hover:opacity-100 ml-0.5" aria-label="Clear filter">
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2.5}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      ) : (
+        <button
+          onClick={onNewFilter}
+          className="inline-flex items-center gap-1 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] px-3 py-1.5 rounded-lg border border-[var(--border-default)]"
+        >
+          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+            <path strokeLinecap="round" strokeLinejoin="round" d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+          </svg>
+          Filter Clients
+        </button>
+      )}
+
+      {/* Segments dropdown */}
+      {segments.length > 0 && (
+        <div className="relative ml-auto">
+          <button
+            onClick={() => setShowSegmentDropdown(!showSegmentDropdown)}
+            className="inline-flex items-center gap-1 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)] px-3 py-1.5 rounded-lg border border-[var(--border-default)]"
+          >
+            Segments
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" />
+            </svg>
+          </button>
+          {showSegmentDropdown && (
+            <>
+              <div className="fixed inset-0 z-10" onClick={() => setShowSegmentDropdown(false)} />
+              <div className="absolute right-0 top-full mt-1 bg-[var(--surface-raised)] border border-[var(--border-default)] rounded-xl shadow-lg z-20 min-w-[220px] py-1">
+                {segments.map((seg) => (
+                  <div key={seg.id} className="flex items-center justify-between px-3 py-2 hover:bg-[var(--surface-subtle)]">
+                    <button
+                      onClick={() => { onApplySegment(seg); setShowSegmentDropdown(false); }}
+                      className={`text-sm text-left flex-1 ${activeSegment?.id === seg.id ? 'font-semibold text-[var(--accent-primary)]' : 'text-[var(--text-primary)]'}`}
+                    >
+                      {seg.name}
+                    </button>
+                    {canEdit && (
+                      <>
+                        <button
+                          onClick={() => { onEditSegment(seg); setShowSegmentDropdown(false); }}
+                          className="text-[var(--text-tertiary)] hover:text-[var(--text-primary)] ml-2 p-1"
+                          aria-label="Edit segment"
+                        >
+                          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 013.536 3.536L12.536 16.536 8 18l1.464-4.536z" />
+                          </svg>
+                        </button>
+                        <button
+                          onClick={() => onDeleteSegment(seg.id)}
+                          className="text-[var(--text-tertiary)] hover:text-red-500 p-1"
+                          aria-label="Delete segment"
+                        >
+                          <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+                            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Manage Tags button */}
+      {canEdit && (
+        <button
+          onClick={onManageTags}
+          className={`text-xs text-[var(--text-tertiary)] hover:text-[var(--text-primary)] px-2 py-1.5 ${segments.length === 0 ? 'ml-auto' : ''}`}
+        >
+          Manage Tags
+        </button>
+      )}
+    </div>
+  );
+}
@@ -78,6 +78,8 @@ const sidebarItems: NavItem[] = [
   { href: '/dashboard',           label: 'Home',       icon: HomeIcon },
   { href: '/dashboard/events',    label: 'Events',     icon: EventsIcon },
   { href: '/dashboard/parties',   label: 'Parties',    icon: PartyIcon },
+  { href: '/dashboard/appointments', label: 'Appointments', icon: CalendarIcon },
+  { href: '/dashboard/shifts',    label: 'Shifts',     icon: ClockIcon },
   { href: '/dashboard/pos',       label: 'POS',        icon: POSIcon },
   { href: '/dashboard/clients',   label: 'Clients',    icon: ClientsIcon },
   { href: '/dashboard/messages',  label: 'Messages',   icon: MessagesIcon },
@@ -104,6 +106,8 @@ const phoneTabItems: NavItem[] = [
 const moreSheetItems: NavItem[] = [
   { href: '/dashboard/events',     label: 'Events',     icon: EventsIcon },
   { href: '/dashboard/parties',    label: 'Parties',    icon: PartyIcon },
+  { href: '/dashboard/appointments', label: 'Appointments', icon: CalendarIcon },
+  { href: '/dashboard/shifts',     label: 'Shifts',     icon: ClockIcon },
   { href: '/dashboard/clients',    label: 'Clients',    icon: ClientsIcon },
   { href: '/dashboard/inventory',  label: 'Inventory',  icon: InventoryIcon },
   { href: '/dashboard/gift-cards', label: 'Gift Cards', icon: GiftCardIcon },
@@ -1334,6 +1338,22 @@ function MessagesIcon({ className }: { className?: string }) {
   );
 }
 
+function CalendarIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M6.75 3v2.25M17.25 3v2.25M3 18.75V7.5a2.25 2.25 0 012.25-2.25h13.5A2.25 2.25 0 0121 7.5v11.25m-18 0A2.25 2.25 0 005.25 21h13.5A2.25 2.25 0 0021 18.75m-18 0v-7.5A2.25 2.25 0 015.25 9h13.5A2.25 2.25 0 0121 11.25v7.5m-9-6h.008v.008H12v-.008zM12 15h.008v.008H12V15zm0 2.25h.008v.008H12v-.008zM9.75 15h.008v.008H9.75V15zm0 2.25h.008v.008H9.75v-.008zM7.5 15h.008v.008H7.5V15zm0 2.25h.008v.008H7.5v-.008zm6.75-4.5h.008v.008h-.008v-.008zm0 2.25h.008v.008h-.008V15zm0 2.25h.008v.008h-.008v-.008zm2.25-4.5h.008v.008H16.5v-.008zm0 2.25h.008v.008H16.5V15z" />
+    </svg>
+  );
+}
+
+function ClockIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+    </svg>
+  );
+}
+
 function PartyIcon({ className }: { className?: string }) {
   return (
     <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -42,6 +42,9 @@ export function InventoryCard({ data }: { data: InventoryAlertData }) {
               <div className="flex items-center justify-between" style={{ marginBottom: 4 }}>
                 <span className="text-text-primary" style={{ fontSize: 12, fontWeight: 500 }}>
                   {item.name}
+                  {item.location && (
+                    <span className="text-text-tertiary" style={{ fontWeight: 400 }}> · {item.location}</span>
+                  )}
                 </span>
                 <span className="text-text-tertiary" style={{ fontSize: 11 }}>
                   {item.stock} / {item.threshold}
@@ -67,6 +70,22 @@ export function InventoryCard({ data }: { data: InventoryAlertData }) {
         })}
       </div>
 
+      {/* Forecast: on pace to run out */}
+      {data.forecast && data.forecast.length > 0 && (
+        <div style={{ marginTop: data.items.length > 0 ? 12 : 8, display: 'flex', flexDirection: 'column', gap: 4 }}>
+          {data.forecast.map((f, i) => (
+            <div key={i} className="flex items-center justify-between">
+              <span className="text-text-primary" style={{ fontSize: 12, fontWeight: 500 }}>
+                {f.name}
+              </span>
+              <span style={{ fontSize: 11, color: f.days <= 7 ? STATUS_COLORS.critical : STATUS_COLORS.low }}>
+                {f.days === 0 ? 'Runs out today' : `Runs out in ~${f.days}d`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Action button */}
       <button
         onClick={() => router.push('/dashboard/inventory')}
@@ -0,0 +1,186 @@
+// ============================================================================
+// Reorder Forecast Modal — src/components/inventory/ReorderForecastModal.tsx
+// ============================================================================
+// Shows when chain, jump rings and connectors are projected to run out —
+// from recent usage plus upcoming events and confirmed parties — and adds
+// the suggested reorder for linked Sunstone products to the cart.
+// ============================================================================
+
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { Modal, ModalHeader, ModalBody, ModalFooter } from '@/components/ui/Modal';
+import { useCartStore } from '@/stores/cart-store';
+import type { ReorderForecast } from '@/lib/reorder-forecast';
+
+interface ReorderForecastModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const HORIZONS = [14, 30, 60];
+
+const key = (f: ReorderForecast) => `${f.inventory_item_id}|${f.inventory_variant_id || ''}`;
+const qty = (n: number) => String(Math.round(n * 10) / 10);
+
+function stockoutLabel(f: ReorderForecast): { text: string; variant: 'error' | 'warning' | 'default' } {
+  if (f.days_to_stockout === null) return { text: 'No recent use', variant: 'default' };
+  if (f.days_to_stockout === 0) return { text: f.quantity_on_hand <= 0 ? 'Out now' : 'Runs out today', variant: 'error' };
+  if (f.days_to_stockout <= 7) return { text: `~${f.days_to_stockout}d left`, variant: 'error' };
+  return { text: `~${f.days_to_stockout}d left`, variant: f.days_to_stockout <= 21 ? 'warning' : 'default' };
+}
+
+export default function ReorderForecastModal({ isOpen, onClose }: ReorderForecastModalProps) {
+  const addItem = useCartStore((s) => s.addItem);
+  const openCart = useCartStore((s) => s.openCart);
+  const [horizon, setHorizon] = useState(30);
+  const [forecast, setForecast] = useState<ReorderForecast[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<Record<string, number>>({});
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/inventory/forecast?horizon=${horizon}`);
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to load forecast');
+        return;
+      }
+      const suggestions = (data.forecast as ReorderForecast[]).filter((f) => f.suggested_quantity > 0);
+      setForecast(suggestions);
+      // Pre-select everything that can go straight into the cart
+      setSelected(Object.fromEntries(suggestions.filter((f) => f.cart).map((f) => [key(f), f.cart!.quantity])));
+    } catch {
+      toast.error('Failed to load forecast');
+    } finally {
+      setLoading(false);
+    }
+  }, [horizon]);
+
+  useEffect(() => {
+    if (isOpen) load();
+  }, [isOpen, load]);
+
+  const toggle = (f: ReorderForecast) => {
+    setSelected((prev) => {
+      const next = { ...prev };
+      if (next[key(f)] !== undefined) delete next[key(f)];
+      else next[key(f)] = f.cart!.quantity;
+      return next;
+    });
+  };
+
+  const chosen = forecast.filter((f) => f.cart && (selected[key(f)] || 0) > 0);
+
+  const handleAddToCart = () => {
+    for (const f of chosen) {
+      const { unitsPerPackage: _units, quantity: _suggested, ...line } = f.cart!;
+      addItem({
+        ...line,
+        quantity: selected[key(f)],
+        inventoryItemId: f.inventory_item_id,
+        inventoryVariantId: f.inventory_variant_id,
+      });
+    }
+    toast.success(`${chosen.length} item${chosen.length !== 1 ? 's' : ''} added to cart`);
+    onClose();
+    openCart();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} size="lg">
+      <ModalHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold text-[var(--text-primary)]">Reorder Forecast</h2>
+            <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+              Based on the last 90 days of use plus your upcoming events and confirmed parties.
+            </p>
+          </div>
+          <div className="flex rounded-lg border border-[var(--border-default)] overflow-hidden shrink-0">
+            {HORIZONS.map((h) => (
+              <button
+                key={h}
+                onClick={() => setHorizon(h)}
+                className={`px-3 py-1.5 text-xs font-medium min-h-[36px] ${
+                  h === horizon ? 'bg-[var(--accent-primary)] text-white' : 'text-[var(--text-secondary)] hover:bg-[var(--surface-raised)]'
+                }`}
+              >
+                {h}d
+              </button>
+            ))}
+          </div>
+        </div>
+      </ModalHeader>
+      <ModalBody>
+        {loading ? (
+          <div className="py-10 text-center">
+            <div className="inline-block h-6 w-6 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+          </div>
+        ) : forecast.length === 0 ? (
+          <p className="py-10 text-center text-sm text-[var(--text-tertiary)]">
+            You&apos;re covered for the next {horizon} days — nothing needs reordering.
+          </p>
+        ) : (
+          <div className="divide-y divide-[var(--border-subtle)]">
+            {forecast.map((f) => {
+              const label = stockoutLabel(f);
+              const isSelected = selected[key(f)] !== undefined;
+              return (
+                <div key={key(f)} className="py-3 flex items-start gap-3">
+                  <input
+                    type="checkbox"
+                    checked={isSelected}
+                    disabled={!f.cart}
+                    onChange={() => toggle(f)}
+                    className="mt-1 h-4 w-4 accent-[var(--accent-primary)]"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-[var(--text-primary)] truncate">{f.name}</p>
+                      <Badge variant={label.variant} size="sm">{label.text}</Badge>
+                    </div>
+                    <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+                      {qty(f.quantity_on_hand)} {f.unit} on hand · needs ~{qty(f.projected_use)} {f.unit} in {horizon}d
+                      {f.occasions.length > 0 && ` (${f.occasions.length} event${f.occasions.length !== 1 ? 's' : ''})`}
+                    </p>
+                    {f.cart ? (
+                      <p className="text-xs text-[var(--text-secondary)] mt-0.5">
+                        {f.cart.productTitle}
+                        {f.cart.variantTitle !== 'Default Title' && ` · ${f.cart.variantTitle}`}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+                        Order ~{qty(f.suggested_quantity)} {f.unit} — not linked to a Sunstone product
+                      </p>
+                    )}
+                  </div>
+                  {f.cart && (
+                    <input
+                      type="number"
+                      min="1"
+                      value={selected[key(f)] ?? f.cart.quantity}
+                      disabled={!isSelected}
+                      onChange={(e) => setSelected((prev) => ({ ...prev, [key(f)]: Math.max(1, parseInt(e.target.value) || 1) }))}
+                      className="w-16 h-9 px-2 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-right text-sm text-[var(--text-primary)] disabled:opacity-50"
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="ghost" onClick={onClose}>Close</Button>
+        <Button variant="primary" onClick={handleAddToCart} disabled={chosen.length === 0}>
+          Add {chosen.length > 0 ? `${chosen.length} ` : ''}to Cart
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
@@ -0,0 +1,133 @@
+// ============================================================================
+// LoyaltyRedeemPanel — Redeem Loyalty Points at POS Checkout
+// src/components/pos/LoyaltyRedeemPanel.tsx
+// ============================================================================
+// Lists the reward tiers the client's balance covers. Applying one adds a
+// discount line to the cart; the points come off inside
+// create_sale_transaction (migration 099), so the sale fails if the balance
+// no longer covers it. Voiding a pending Stripe sale gives them back.
+// ============================================================================
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
+import { formatPoints, rewardDiscountLabel } from '@/lib/loyalty';
+import type { CartLoyaltyReward, LoyaltyReward } from '@/types';
+
+interface LoyaltyRedeemPanelProps {
+  clientId: string;
+  applied: CartLoyaltyReward | null;
+  /** Dollar amount the applied reward takes off */
+  discount: number;
+  onChange: (reward: CartLoyaltyReward | null) => void;
+}
+
+export function LoyaltyRedeemPanel({ clientId, applied, discount, onChange }: LoyaltyRedeemPanelProps) {
+  const { tenant } = useTenant();
+  const [balance, setBalance] = useState<number | null>(null);
+  const [rewards, setRewards] = useState<LoyaltyReward[]>([]);
+  const [open, setOpen] = useState(false);
+  const enabled = !!tenant?.loyalty_enabled;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const supabase = createClient();
+    Promise.all([
+      supabase.from('clients').select('loyalty_points').eq('id', clientId).single(),
+      supabase
+        .from('loyalty_rewards')
+        .select('*')
+        .eq('tenant_id', tenant!.id)
+        .eq('is_active', true)
+        .order('points_cost'),
+    ]).then(([clientRes, rewardsRes]) => {
+      setBalance(clientRes.data?.loyalty_points ?? 0);
+      setRewards((rewardsRes.data || []) as LoyaltyReward[]);
+    });
+  }, [enabled, clientId, tenant]);
+
+  if (!enabled || balance === null || rewards.length === 0) return null;
+
+  if (applied) {
+    return (
+      <div className="rounded-xl p-3 border border-[var(--accent-primary)] bg-[color-mix(in_srgb,var(--accent-primary)_8%,white)] flex items-center justify-between min-h-[48px]">
+        <div className="flex items-center gap-2">
+          <StarIcon className="w-5 h-5 text-[var(--accent-primary)] shrink-0" />
+          <div>
+            <p className="text-sm font-medium text-[var(--text-primary)]">
+              {applied.name}: -${discount.toFixed(2)}
+            </p>
+            <p className="text-xs text-[var(--text-tertiary)]">
+              Uses {formatPoints(applied.points_cost)} of {formatPoints(balance)}
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => onChange(null)}
+          className="text-xs text-[var(--text-tertiary)] hover:text-red-600 px-2 py-1 rounded min-h-[32px]"
+        >
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-xl border border-dashed border-[var(--border-default)]">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full p-3 text-left transition-all hover:bg-[var(--surface-subtle)] rounded-xl min-h-[48px] flex items-center gap-3"
+      >
+        <StarIcon className="w-5 h-5 text-[var(--text-tertiary)] shrink-0" />
+        <div>
+          <div className="text-sm font-medium text-[var(--text-primary)]">Redeem Points</div>
+          <p className="text-xs text-[var(--text-tertiary)]">{formatPoints(balance)} available</p>
+        </div>
+      </button>
+
+      {open && (
+        <div className="px-3 pb-3 space-y-2">
+          {rewards.map((reward) => {
+            const affordable = reward.points_cost <= balance;
+            return (
+              <button
+                key={reward.id}
+                disabled={!affordable}
+                onClick={() => {
+                  onChange({
+                    reward_id: reward.id,
+                    client_id: clientId,
+                    name: reward.name,
+                    points_cost: reward.points_cost,
+                    discount_type: reward.discount_type,
+                    discount_value: Number(reward.discount_value),
+                  });
+                  setOpen(false);
+                }}
+                className="w-full flex items-center justify-between gap-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-raised)] px-3 py-2 text-left transition-colors hover:border-[var(--border-strong)] disabled:opacity-50 disabled:cursor-not-allowed min-h-[44px]"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-[var(--text-primary)] truncate">{reward.name}</p>
+                  <p className="text-xs text-[var(--text-tertiary)]">{rewardDiscountLabel(reward)}</p>
+                </div>
+                <span className="text-xs font-semibold text-[var(--text-secondary)] shrink-0">
+                  {formatPoints(reward.points_cost)}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function StarIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M11.48 3.499a.562.562 0 011.04 0l2.125 5.111a.563.563 0 00.475.345l5.518.442c.499.04.701.663.321.988l-4.204 3.602a.563.563 0 00-.182.557l1.285 5.385a.562.562 0 01-.84.61l-4.725-2.885a.563.563 0 00-.586 0L6.982 20.54a.562.562 0 01-.84-.61l1.285-5.386a.562.562 0 00-.182-.557l-4.204-3.602a.563.563 0 01.321-.988l5.518-.442a.563.563 0 00.475-.345L11.48 3.5z" />
+    </svg>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import { Modal, ModalHeader, ModalBody, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import type { QueuedSale } from '@/lib/offline-sales';
+
+interface OfflineSyncIndicatorProps {
+  online: boolean;
+  queuedSales: QueuedSale[];
+  pendingCount: number;
+  conflictCount: number;
+  syncing: boolean;
+  onSyncNow: () => void;
+  onDismiss: (clientSaleId: string) => void;
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+function formatAmount(n: number): string {
+  return Number.isInteger(n) ? String(n) : n.toFixed(2);
+}
+
+export function OfflineSyncIndicator({
+  online,
+  queuedSales,
+  pendingCount,
+  conflictCount,
+  syncing,
+  onSyncNow,
+  onDismiss,
+}: OfflineSyncIndicatorProps) {
+  const [open, setOpen] = useState(false);
+
+  if (online && pendingCount === 0 && conflictCount === 0) return null;
+
+  let label: string;
+  let tone: string;
+  if (!online) {
+    label = pendingCount > 0 ? `Offline · ${pendingCount} to sync` : 'Offline';
+    tone = 'border-amber-300 bg-amber-50 text-amber-800';
+  } else if (syncing) {
+    label = 'Syncing…';
+    tone = 'border-[var(--border-default)] bg-[var(--surface-raised)] text-[var(--text-secondary)]';
+  } else if (pendingCount > 0) {
+    label = `${pendingCount} pending sync`;
+    tone = 'border-amber-300 bg-amber-50 text-amber-800';
+  } else {
+    label = `${conflictCount} stock conflict${conflictCount === 1 ? '' : 's'}`;
+    tone = 'border-red-300 bg-red-50 text-red-700';
+  }
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className={`h-10 px-3 rounded-xl border flex items-center gap-2 text-xs font-semibold transition-colors ${tone}`}
+        title="Offline sales"
+      >
+        <span className={`w-2 h-2 rounded-full ${online ? (syncing ? 'bg-[var(--accent-primary)] animate-pulse' : 'bg-amber-500') : 'bg-amber-500'}`} />
+        {label}
+      </button>
+
+      <Modal isOpen={open} onClose={() => setOpen(false)}>
+        <ModalHeader>
+          <h2 className="text-lg font-semibold text-[var(--text-primary)]">Offline Sales</h2>
+        </ModalHeader>
+        <ModalBody>
+          <div className="space-y-4">
+            <p className="text-sm text-[var(--text-secondary)]">
+              {online
+                ? 'Sales recorded while offline are synced to your account automatically.'
+                : 'You’re offline. Cash, Venmo and external card sales are saved on this device and synced when the connection is back.'}
+            </p>
+
+            {queuedSales.length === 0 ? (
+              <p className="text-sm text-[var(--text-tertiary)] text-center py-4">No offline sales waiting.</p>
+            ) : (
+              <div className="rounded-lg border border-[var(--border-default)] divide-y divide-[var(--border-subtle)]">
+                {queuedSales.map((sale) => (
+                  <div key={sale.client_sale_id} className="p-3 space-y-1.5">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium text-[var(--text-primary)]">
+                        ${sale.total.toFixed(2)} · {sale.payment_method === 'card_external' ? 'External card' : sale.payment_method}
+                      </span>
+                      <span className="text-xs text-[var(--text-tertiary)]">{formatTime(sale.created_at)}</span>
+                    </div>
+
+                    {sale.status === 'pending' && (
+                      <p className="text-xs text-amber-700">Waiting to sync</p>
+                    )}
+                    {sale.status === 'failed' && (
+                      <p className="text-xs text-red-600">Sync failed: {sale.last_error}</p>
+                    )}
+                    {sale.status === 'synced' && sale.conflicts.length > 0 && (
+                      <div className="space-y-1">
+                        <p className="text-xs text-red-600">Synced — stock ran short while offline:</p>
+                        <ul className="text-xs text-[var(--text-secondary)] list-disc pl-4">
+                          {sale.conflicts.map((c) => (
+                            <li key={c.variant_id || c.item_id}>
+                              {c.name}: sold {formatAmount(c.needed)}, only {formatAmount(c.available)} on hand
+                            </li>
+                          ))}
+                        </ul>
+                        <button
+                          onClick={() => onDismiss(sale.client_sale_id)}
+                          className="text-xs text-[var(--text-tertiary)] hover:text-[var(--text-primary)]"
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </ModalBody>
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setOpen(false)}>Close</Button>
+          {pendingCount > 0 && (
+            <Button onClick={onSyncNow} loading={syncing} disabled={!online}>
+              Sync Now
+            </Button>
+          )}
+        </ModalFooter>
+      </Modal>
+    </>
+  );
+}
@@ -7,6 +7,7 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { createClient } from '@/lib/supabase/client';
+import { useTenant } from '@/hooks/use-tenant';
 import { toast } from 'sonner';
 
 interface PendingSale {
@@ -44,6 +45,8 @@ function getDisplayName(sale: PendingSale): string {
 }
 
 export function PendingPayments({ tenantId, eventId, onPaymentCompleted }: PendingPaymentsProps) {
+  const { can } = useTenant();
+  const canVoid = can('sales:void');
   const [sales, setSales] = useState<PendingSale[]>([]);
   const [cancelling, setCancelling] = useState<string | null>(null);
   const [resending, setResending] = useState<string | null>(null);
@@ -202,13 +205,15 @@ export function PendingPayments({ tenantId, eventId, onPaymentCompleted }: Pendi
                   {resending === sale.id ? '...' : 'Resend'}
                 </button>
               )}
-              <button
-                onClick={() => cancelPending(sale.id)}
-                disabled={cancelling === sale.id}
-                className="text-xs text-[var(--text-tertiary)] hover:text-error-500 min-h-[32px] px-2 disabled:opacity-50"
-              >
-                {cancelling === sale.id ? '...' : 'Cancel'}
-              </button>
+              {canVoid && (
+                <button
+                  onClick={() => cancelPending(sale.id)}
+                  disabled={cancelling === sale.id}
+                  className="text-xs text-[var(--text-tertiary)] hover:text-error-500 min-h-[32px] px-2 disabled:opacity-50"
+                >
+                  {cancelling === sale.id ? '...' : 'Cancel'}
+                </button>
+              )}
             </div>
           </div>
         ))}
@@ -4,6 +4,13 @@ import { useEffect, useState, useRef, useCallback } from 'react';
 import { createClient } from '@/lib/supabase/client';
 import { toast } from 'sonner';
 import type { QueueEntry } from '@/components/MiniQueueStrip';
+import { checkInAppointment, type CheckInAppointment } from '@/lib/appointments';
+import { DEFAULT_TIME_ZONE, startOfDayInZone } from '@/lib/timezone';
+
+interface BookedAppointment extends CheckInAppointment {
+  starts_at: string;
+  pieces: number;
+}
 
 interface QueueBadgeProps {
   tenantId: string;
@@ -12,6 +19,8 @@ interface QueueBadgeProps {
   onStartSale: (entry: QueueEntry) => void;
   isServingActive?: boolean;
   refreshTrigger?: number;
+  /** Store mode: zone used to find today's booked appointments */
+  timeZone?: string;
 }
 
 export function QueueBadge({
@@ -21,8 +30,11 @@ export function QueueBadge({
   onStartSale,
   isServingActive = false,
   refreshTrigger = 0,
+  timeZone = DEFAULT_TIME_ZONE,
 }: QueueBadgeProps) {
   const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [appointments, setAppointments] = useState<BookedAppointment[]>([]);
+  const [checkingIn, setCheckingIn] = useState<string | null>(null);
   const [open, setOpen] = useState(false);
   const [openMenu, setOpenMenu] = useState<string | null>(null);
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -46,7 +58,21 @@ export function QueueBadge({
 
     const { data } = await query.order('position', { ascending: true });
     setEntries((data || []) as QueueEntry[]);
-  }, [tenantId, eventId, mode]);
+
+    // Store mode: today's booked appointments that haven't arrived yet
+    if (mode === 'store') {
+      const now = new Date();
+      const { data: appts } = await supabase
+        .from('appointments')
+        .select('id, tenant_id, client_id, customer_name, customer_phone, customer_email, sms_consent, notes, starts_at, pieces')
+        .eq('tenant_id', tenantId)
+        .eq('status', 'confirmed')
+        .gte('starts_at', startOfDayInZone(now, timeZone).toISOString())
+        .lt('starts_at', startOfDayInZone(now, timeZone, 1).toISOString())
+        .order('starts_at');
+      setAppointments((appts || []) as BookedAppointment[]);
+    }
+  }, [tenantId, eventId, mode, timeZone]);
 
   useEffect(() => { fetchEntries(); }, [fetchEntries, refreshTrigger]);
 
@@ -67,8 +93,20 @@ export function QueueBadge({
           if (debounceRef.current) clearTimeout(debounceRef.current);
           debounceRef.current = setTimeout(() => fetchEntries(), 500);
         }
-      )
-      .subscribe();
+      );
+
+    if (mode === 'store') {
+      channel.on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'appointments', filter: `tenant_id=eq.${tenantId}` },
+        () => {
+          if (debounceRef.current) clearTimeout(debounceRef.current);
+          debounceRef.current = setTimeout(() => fetchEntries(), 500);
+        }
+      );
+    }
+
+    channel.subscribe();
 
     return () => {
       supabase.removeChannel(channel);
@@ -106,7 +144,7 @@ export function QueueBadge({
 
   // ── If empty, render nothing (or minimal) ──
 
-  if (visibleEntries.length === 0) return null;
+  if (visibleEntries.length === 0 && appointments.length === 0) return null;
 
   const servingEntry = visibleEntries.find((e) => e.status === 'serving');
   const waitingEntries = visibleEntries.filter((e) => e.status !== 'serving');
@@ -156,6 +194,19 @@ export function QueueBadge({
     }
   };
 
+  const handleCheckIn = async (appt: BookedAppointment) => {
+    setCheckingIn(appt.id);
+    try {
+      await checkInAppointment(supabase, appt);
+      toast.success(`${appt.customer_name} checked in`);
+      fetchEntries();
+    } catch {
+      toast.error('Failed to check in');
+    } finally {
+      setCheckingIn(null);
+    }
+  };
+
   const handleNoShow = async (entry: QueueEntry) => {
     setOpenMenu(null);
     await supabase
@@ -177,9 +228,14 @@ export function QueueBadge({
   // ── Badge label ──
 
   const badgeLabel = mode === 'store'
-    ? `${waitingCount} Checked In`
+    ? appointments.length > 0
+      ? `${waitingCount} Checked In · ${appointments.length} Booked`
+      : `${waitingCount} Checked In`
     : `${waitingCount} in Queue`;
 
+  const formatApptTime = (iso: string) =>
+    new Date(iso).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+
   // ── Determine which entries can start sale / be notified ──
 
   const canStartSale = (entry: QueueEntry, index: number) => {
@@ -285,6 +341,7 @@ export function QueueBadge({
                     </div>
                     <div className="flex items-center gap-1.5 text-[12px] text-[var(--text-tertiary)]">
                       <span>{waitTime(entry.created_at)}</span>
+                      {entry.appointment_id && <span className="text-[10px] font-semibold uppercase tracking-wider">Appt</span>}
                       {entry.waiver_id && <span className="text-emerald-500">&#10003;</span>}
                       {entry.phone && entry.sms_consent && (
                         <svg className="w-3 h-3 text-emerald-500" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
@@ -371,6 +428,39 @@ export function QueueBadge({
                 </div>
               );
             })}
+
+            {/* Booked today — not yet arrived */}
+            {appointments.length > 0 && (
+              <>
+                <div className="px-4 pt-3 pb-1.5 border-t border-[var(--border-default)]">
+                  <span className="text-[11px] font-semibold uppercase tracking-[0.06em] text-[var(--text-tertiary)]">
+                    Booked Today
+                  </span>
+                </div>
+                {appointments.map((appt) => (
+                  <div key={appt.id} className="flex items-center gap-3 px-4 py-2.5 min-h-[48px] hover:bg-[var(--surface-subtle)]">
+                    <div className="w-14 shrink-0 text-[12px] font-semibold text-[var(--text-secondary)]">
+                      {formatApptTime(appt.starts_at)}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-[14px] font-semibold text-[var(--text-primary)] truncate">{appt.customer_name}</div>
+                      <div className="text-[12px] text-[var(--text-tertiary)]">
+                        {appt.pieces} piece{appt.pieces === 1 ? '' : 's'}
+                      </div>
+                    </div>
+                    {!isServingActive && (
+                      <button
+                        onClick={() => handleCheckIn(appt)}
+                        disabled={checkingIn === appt.id}
+                        className="h-8 px-3 rounded-lg text-[12px] font-semibold border border-[var(--border-strong)] text-[var(--text-primary)] hover:bg-[var(--surface-subtle)] transition-all active:scale-[0.97] min-h-[32px] disabled:opacity-50"
+                      >
+                        Check In
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </>
+            )}
           </div>
         </div>
       )}
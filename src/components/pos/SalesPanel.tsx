@@ -10,6 +10,7 @@
 import { useEffect, useState } from 'react';
 import { createClient } from '@/lib/supabase/client';
 import { Modal, ModalHeader, ModalBody } from '@/components/ui/Modal';
+import { DEFAULT_TIME_ZONE, startOfDayInZone } from '@/lib/timezone';
 import TransactionList from '@/components/reports/TransactionList';
 import type { TransactionSale } from '@/components/reports/TransactionList';
 
@@ -19,6 +20,8 @@ interface SalesPanelProps {
   tenantId: string;
   eventId?: string | null;
   mode: 'event' | 'store';
+  /** Zone that defines "today" — the event's override or the tenant's zone */
+  timeZone?: string;
 }
 
 const money = (n: number) => {
@@ -27,7 +30,7 @@ const money = (n: number) => {
   return n < 0 ? `-$${formatted}` : `$${formatted}`;
 };
 
-export function SalesPanel({ isOpen, onClose, tenantId, eventId, mode }: SalesPanelProps) {
+export function SalesPanel({ isOpen, onClose, tenantId, eventId, mode, timeZone = DEFAULT_TIME_ZONE }: SalesPanelProps) {
   const [sales, setSales] = useState<TransactionSale[]>([]);
   const [loading, setLoading] = useState(false);
 
@@ -37,8 +40,7 @@ export function SalesPanel({ isOpen, onClose, tenantId, eventId, mode }: SalesPa
     setLoading(true);
 
     const fetchSales = async () => {
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+      const today = startOfDayInZone(new Date(), timeZone);
 
       let query = supabase
         .from('sales')
@@ -82,7 +84,7 @@ export function SalesPanel({ isOpen, onClose, tenantId, eventId, mode }: SalesPa
     };
 
     fetchSales();
-  }, [isOpen, tenantId, eventId, mode]);
+  }, [isOpen, tenantId, eventId, mode, timeZone]);
 
   const totalRevenue = sales.reduce((sum, s) => sum + Number(s.total), 0);
 
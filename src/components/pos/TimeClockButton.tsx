@@ -0,0 +1,182 @@
+'use client';
+
+// ============================================================================
+// Time Clock Button — POS header clock-in/out for the signed-in member
+// src/components/pos/TimeClockButton.tsx
+// ============================================================================
+// Shows a green dot while on the clock (amber on break). The sheet clocks
+// in against the current event (or the store), starts and ends breaks,
+// and clocks out. Punches go through /api/time-clock.
+// ============================================================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'sonner';
+import { Modal, ModalHeader, ModalBody, ModalFooter } from '@/components/ui/Modal';
+import { Button } from '@/components/ui/Button';
+import { formatDuration, formatShiftTime, workedMinutes } from '@/lib/shifts';
+import { DEFAULT_TIME_ZONE } from '@/lib/timezone';
+import type { StaffShift, TimeEntry } from '@/types';
+
+interface TimeClockButtonProps {
+  /** Event mode: punches are for this event */
+  eventId?: string;
+  timeZone?: string;
+}
+
+type UpcomingShift = StaffShift & { event: { name: string } | null };
+
+export function TimeClockButton({ eventId, timeZone = DEFAULT_TIME_ZONE }: TimeClockButtonProps) {
+  const [entry, setEntry] = useState<TimeEntry | null>(null);
+  const [shifts, setShifts] = useState<UpcomingShift[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const res = await fetch('/api/time-clock');
+      if (!res.ok) return;
+      const data = await res.json();
+      setEntry(data.entry);
+      setShifts(data.shifts || []);
+    } catch {
+      // Non-critical — the button just shows as clocked out
+    } finally {
+      setLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => { fetchStatus(); }, [fetchStatus]);
+
+  // Tick the worked-time display while the sheet is open
+  useEffect(() => {
+    if (!open) return;
+    setNow(new Date());
+    const timer = setInterval(() => setNow(new Date()), 30_000);
+    return () => clearInterval(timer);
+  }, [open]);
+
+  const punch = async (action: 'clock_in' | 'break_start' | 'break_end' | 'clock_out') => {
+    setSubmitting(true);
+    try {
+      const res = await fetch('/api/time-clock', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, event_id: eventId || null }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Time clock failed');
+        fetchStatus();
+        return;
+      }
+      if (action === 'clock_out') {
+        toast.success(`Clocked out — ${formatDuration(workedMinutes(data))} worked`);
+        setEntry(null);
+        setOpen(false);
+      } else {
+        toast.success(action === 'clock_in' ? 'Clocked in' : action === 'break_start' ? 'Break started' : 'Back from break');
+        setEntry(data);
+      }
+    } catch {
+      toast.error('Time clock failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const onBreak = !!entry?.break_started_at;
+  const elsewhere = !!entry && (entry.event_id || null) !== (eventId || null);
+
+  return (
+    <>
+      <button
+        onClick={() => { setOpen(true); fetchStatus(); }}
+        className="relative flex items-center justify-center w-10 h-10 rounded-xl transition-colors hover:bg-[var(--surface-subtle)]"
+        title={entry ? (onBreak ? 'On break' : 'On the clock') : 'Clock in'}
+        disabled={!loaded}
+      >
+        <svg className={`w-5 h-5 ${entry ? (onBreak ? 'text-amber-500' : 'text-emerald-600') : 'text-[var(--text-tertiary)]'}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+          <path strokeLinecap="round" strokeLinejoin="round" d="M12 6v6h4.5m4.5 0a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        {entry && (
+          <span className={`absolute top-1 right-1 w-2 h-2 rounded-full ${onBreak ? 'bg-amber-500' : 'bg-emerald-500'}`} />
+        )}
+      </button>
+
+      <Modal isOpen={open} onClose={() => setOpen(false)} size="sm">
+        <ModalHeader>
+          <h3 className="text-lg font-semibold text-[var(--text-primary)]">Time Clock</h3>
+          <p className="text-sm text-[var(--text-tertiary)] mt-1">
+            {entry
+              ? `Clocked in at ${new Date(entry.clock_in_at).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone })}`
+              : 'You are not on the clock.'}
+          </p>
+        </ModalHeader>
+        <ModalBody>
+          <div className="space-y-4">
+            {entry && (
+              <div className="grid grid-cols-2 gap-3">
+                <div className="rounded-xl bg-[var(--surface-subtle)] p-3">
+                  <p className="text-xs text-[var(--text-tertiary)] uppercase tracking-wider">Worked</p>
+                  <p className="text-lg font-semibold text-[var(--text-primary)]">{formatDuration(workedMinutes(entry, now))}</p>
+                </div>
+                <div className="rounded-xl bg-[var(--surface-subtle)] p-3">
+                  <p className="text-xs text-[var(--text-tertiary)] uppercase tracking-wider">{onBreak ? 'On break' : 'Breaks'}</p>
+                  <p className="text-lg font-semibold text-[var(--text-primary)]">
+                    {onBreak
+                      ? formatDuration((now.getTime() - new Date(entry.break_started_at!).getTime()) / 60_000)
+                      : formatDuration(entry.break_minutes)}
+                  </p>
+                </div>
+              </div>
+            )}
+            {elsewhere && (
+              <p className="text-xs text-amber-600">
+                You&apos;re clocked in {entry?.event_id ? 'at another event' : 'for the store'}. Clocking out here ends that shift.
+              </p>
+            )}
+            {shifts.length > 0 && (
+              <div>
+                <p className="text-xs font-medium text-[var(--text-tertiary)] uppercase tracking-wider mb-2">Your shifts</p>
+                <div className="space-y-1">
+                  {shifts.map((s) => (
+                    <div key={s.id} className="py-2 px-3 rounded-lg bg-[var(--surface-subtle)]">
+                      <p className="text-sm font-medium text-[var(--text-primary)]">{s.event?.name || 'Store'}</p>
+                      <p className="text-xs text-[var(--text-tertiary)]">{formatShiftTime(s.starts_at, s.ends_at, timeZone)}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </ModalBody>
+        <ModalFooter>
+          {!entry ? (
+            <>
+              <Button variant="ghost" onClick={() => setOpen(false)}>Cancel</Button>
+              <Button onClick={() => punch('clock_in')} disabled={submitting}>
+                {submitting ? 'Clocking in...' : 'Clock In'}
+              </Button>
+            </>
+          ) : (
+            <div className="flex gap-2 w-full">
+              <Button
+                variant="secondary"
+                className="flex-1"
+                onClick={() => punch(onBreak ? 'break_end' : 'break_start')}
+                disabled={submitting}
+              >
+                {onBreak ? 'End Break' : 'Start Break'}
+              </Button>
+              <Button variant="danger" className="flex-1" onClick={() => punch('clock_out')} disabled={submitting}>
+                Clock Out
+              </Button>
+            </div>
+          )}
+        </ModalFooter>
+      </Modal>
+    </>
+  );
+}
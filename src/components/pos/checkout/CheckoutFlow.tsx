@@ -15,7 +15,7 @@ import type { GiftCardData } from './PaymentScreen';
 import { ReceiptScreen } from './ReceiptScreen';
 import { JumpRingStep } from './JumpRingStep';
 import type { CompletedSaleData } from './ReceiptScreen';
-import type { PaymentMethod, JumpRingResolution } from '@/types';
+import type { CartLoyaltyReward, PaymentMethod, JumpRingResolution } from '@/types';
 
 export type CheckoutStep = 'items' | 'tip' | 'payment' | 'jump_ring' | 'confirmation';
 
@@ -55,6 +55,13 @@ interface CheckoutFlowProps {
   mode?: 'event' | 'store';
   // Gift card
   onGiftCardApplied?: (data: GiftCardData | null) => void;
+  // Loyalty reward
+  clientId?: string | null;
+  loyaltyReward?: CartLoyaltyReward | null;
+  loyaltyDiscount?: number;
+  onLoyaltyRewardChange?: (reward: CartLoyaltyReward | null) => void;
+  // Offline (Event Mode)
+  offline?: boolean;
   // Step navigation
   onContinueToPayment: () => void;
   // Jump ring step (Event Mode only)
@@ -103,6 +110,11 @@ export function CheckoutFlow({
   receiptPhone,
   mode,
   onGiftCardApplied,
+  clientId,
+  loyaltyReward,
+  loyaltyDiscount,
+  onLoyaltyRewardChange,
+  offline,
   onContinueToPayment,
   jumpRingData,
   onJumpRingConfirm,
@@ -162,6 +174,11 @@ export function CheckoutFlow({
         tenantName={tenantName}
         mode={mode}
         onGiftCardApplied={onGiftCardApplied}
+        clientId={clientId}
+        loyaltyReward={loyaltyReward}
+        loyaltyDiscount={loyaltyDiscount}
+        onLoyaltyRewardChange={onLoyaltyRewardChange}
+        offline={offline}
       />
     );
   } else if (step === 'jump_ring' && jumpRingData && onJumpRingConfirm && onJumpRingSkip) {
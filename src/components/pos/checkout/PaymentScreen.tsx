@@ -5,16 +5,19 @@
 // Two clear paths:
 //   1. "Charge Customer" — Stripe Checkout via QR code or text link
 //   2. "Record External Payment" — cash, venmo, external card reader
-// Plus: "Apply Gift Card" — partial or full gift card redemption
+// Plus: "Apply Gift Card" — partial or full gift card redemption, and
+// "Redeem Points" — a loyalty reward as a cart discount (before gift cards)
+// Offline (Event Mode): only external payments are offered.
 // ============================================================================
 
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import QRCodeLib from 'qrcode';
-import type { PaymentMethod } from '@/types';
+import type { CartLoyaltyReward, PaymentMethod } from '@/types';
 import { createClient } from '@/lib/supabase/client';
 import { GiftCardRedeemModal } from '@/components/pos/GiftCardRedeemModal';
+import { LoyaltyRedeemPanel } from '@/components/pos/LoyaltyRedeemPanel';
 import { formatGiftCardCode } from '@/lib/gift-cards';
 import { toast } from 'sonner';
 
@@ -50,6 +53,13 @@ interface PaymentScreenProps {
   mode?: 'event' | 'store';
   // Gift card callback — tells parent to store gift card data for post-sale redemption
   onGiftCardApplied?: (data: GiftCardData | null) => void;
+  // Loyalty — the cart's client and reward line; the parent applies it to the cart
+  clientId?: string | null;
+  loyaltyReward?: CartLoyaltyReward | null;
+  loyaltyDiscount?: number;
+  onLoyaltyRewardChange?: (reward: CartLoyaltyReward | null) => void;
+  // Offline — hides paths that need the network (Stripe, gift cards)
+  offline?: boolean;
 }
 
 type PaymentPath = null | 'charge' | 'external';
@@ -117,6 +127,11 @@ export function PaymentScreen({
   tenantName,
   mode,
   onGiftCardApplied,
+  clientId,
+  loyaltyReward = null,
+  loyaltyDiscount = 0,
+  onLoyaltyRewardChange,
+  offline = false,
 }: PaymentScreenProps) {
   const [path, setPath] = useState<PaymentPath>(null);
   const [showGiftCardRedeem, setShowGiftCardRedeem] = useState(false);
@@ -558,6 +573,12 @@ export function PaymentScreen({
                   <span>Subtotal</span>
                   <span>${subtotal.toFixed(2)}</span>
                 </div>
+                {loyaltyReward && loyaltyDiscount > 0 && (
+                  <div className="flex justify-between text-sm text-[var(--accent-primary)]">
+                    <span>{loyaltyReward.name}</span>
+                    <span>-${loyaltyDiscount.toFixed(2)}</span>
+                  </div>
+                )}
                 {taxAmount > 0 && (
                   <div className="flex justify-between text-sm text-[var(--text-tertiary)]">
                     <span>Tax</span>
@@ -629,8 +650,17 @@ export function PaymentScreen({
           {/* Right column — Payment Paths */}
           <div className="md:w-1/2 space-y-4">
 
+            {/* ── Offline banner ── */}
+            {offline && (
+              <div className="rounded-xl p-4 mb-2 border border-amber-300 bg-amber-50">
+                <p className="text-sm text-amber-800">
+                  You&apos;re offline. Record cash, Venmo or external card payments — the sale is saved on this device and synced when you reconnect.
+                </p>
+              </div>
+            )}
+
             {/* ── Stripe not connected banner ── */}
-            {!stripeConnected && (
+            {!stripeConnected && !offline && (
               <div className="bg-[var(--surface-subtle)] border border-[var(--border-default)] rounded-xl p-4 mb-2">
                 <p className="text-sm text-[var(--text-secondary)]">
                   Connect Stripe in Settings to accept card payments directly through Sunstone Studio. Customers pay via QR code or text link with automatic tracking.
@@ -639,7 +669,7 @@ export function PaymentScreen({
             )}
 
             {/* ── PATH 1: Charge Customer ── */}
-            {stripeConnected && (
+            {stripeConnected && !offline && (
               <>
                 {path !== 'external' && (
                   <div className="space-y-3">
@@ -698,8 +728,18 @@ export function PaymentScreen({
               </>
             )}
 
+            {/* ── Loyalty Reward ── (locked once a gift card or payment link has the total) */}
+            {path === null && !appliedGiftCard && !pendingSaleId && !offline && clientId && onLoyaltyRewardChange && (
+              <LoyaltyRedeemPanel
+                clientId={clientId}
+                applied={loyaltyReward}
+                discount={loyaltyDiscount}
+                onChange={onLoyaltyRewardChange}
+              />
+            )}
+
             {/* ── Gift Card ── */}
-            {path === null && !appliedGiftCard && (
+            {path === null && !appliedGiftCard && !offline && (
               <button
                 onClick={() => setShowGiftCardRedeem(true)}
                 className="w-full rounded-xl p-3 text-left transition-all border border-dashed border-[var(--border-default)] hover:border-[var(--border-strong)] min-h-[48px] flex items-center gap-3"
@@ -10,5 +10,8 @@ export { CheckoutFlow } from './checkout';
 export { PendingPayments } from './PendingPayments';
 export { GiftCardModal } from './GiftCardModal';
 export { GiftCardRedeemModal } from './GiftCardRedeemModal';
+export { LoyaltyRedeemPanel } from './LoyaltyRedeemPanel';
 export { SalesPanel } from './SalesPanel';
+export { OfflineSyncIndicator } from './OfflineSyncIndicator';
+export { TimeClockButton } from './TimeClockButton';
 export type { CompletedSaleData, CheckoutStep, GiftCardData } from './checkout';
@@ -0,0 +1,189 @@
+// ============================================================================
+// AccountingExportModal — src/components/reports/AccountingExportModal.tsx
+// ============================================================================
+// Downloads the daily summarized journal for QuickBooks or Xero. Shows a
+// preview of each day's debits/credits first; admins can mark the period as
+// exported so the next export picks up where this one stopped.
+// ============================================================================
+
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button, Input, Select, Modal, ModalHeader, ModalBody, ModalFooter } from '@/components/ui';
+import { EXPORT_FORMATS, type ExportFormat, type JournalEntry } from '@/lib/accounting';
+
+interface AccountingExportModalProps {
+  /** Local YYYY-MM-DD defaults, usually the report period */
+  defaultFrom: string;
+  defaultTo: string;
+  exportedThrough: string | null;
+  /** Admins may mark periods as exported and re-export booked days */
+  canManage: boolean;
+  onClose: () => void;
+  onExported: () => void;
+}
+
+/** The local day after a YYYY-MM-DD */
+function nextDay(date: string): string {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + 1);
+  return d.toISOString().slice(0, 10);
+}
+
+export default function AccountingExportModal({
+  defaultFrom,
+  defaultTo,
+  exportedThrough,
+  canManage,
+  onClose,
+  onExported,
+}: AccountingExportModalProps) {
+  const [from, setFrom] = useState(() =>
+    exportedThrough && defaultFrom <= exportedThrough ? nextDay(exportedThrough) : defaultFrom
+  );
+  const [to, setTo] = useState(defaultTo);
+  const [format, setFormat] = useState<ExportFormat>('qb_iif');
+  const [markExported, setMarkExported] = useState(canManage);
+  const [allowOverlap, setAllowOverlap] = useState(false);
+  const [preview, setPreview] = useState<JournalEntry[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const overlaps = !!exportedThrough && from <= exportedThrough;
+  const invalid = !from || !to || from > to;
+
+  const request = (fmt: ExportFormat | 'preview') =>
+    fetch('/api/accounting/export', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ from, to, format: fmt, markExported: fmt !== 'preview' && markExported, allowOverlap }),
+    });
+
+  const handlePreview = async () => {
+    setLoading(true);
+    try {
+      const res = await request('preview');
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to build journal');
+        return;
+      }
+      setPreview(data.entries);
+    } catch {
+      toast.error('Failed to build journal');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = async () => {
+    setLoading(true);
+    try {
+      const res = await request(format);
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        toast.error(data.error || 'Export failed');
+        return;
+      }
+      const blob = await res.blob();
+      const ext = EXPORT_FORMATS.find((f) => f.value === format)?.extension || 'csv';
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `sunstone-journal-${from}-to-${to}.${ext}`;
+      a.click();
+      URL.revokeObjectURL(url);
+      toast.success(markExported ? `Exported and marked through ${to}` : 'Journal exported');
+      onExported();
+      onClose();
+    } catch {
+      toast.error('Export failed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const totalDebits = (preview || []).reduce((sum, e) => sum + e.lines.reduce((s, l) => s + l.debit, 0), 0);
+
+  return (
+    <Modal isOpen onClose={onClose} size="lg">
+      <ModalHeader>
+        <h2 className="text-lg font-semibold text-[var(--text-primary)]">Export to Accounting</h2>
+      </ModalHeader>
+      <ModalBody>
+        <div className="space-y-4">
+          <p className="text-sm text-[var(--text-secondary)]">
+            One summarized journal entry per day: sales, tips, tax, platform fees, refunds, expenses, gift cards, warranties and cost of goods.
+            Accounts are set in Settings → Accounting.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <Input label="From" type="date" value={from} onChange={(e) => { setFrom(e.target.value); setPreview(null); }} />
+            <Input label="To" type="date" value={to} onChange={(e) => { setTo(e.target.value); setPreview(null); }} />
+          </div>
+          <Select
+            label="Format"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            options={EXPORT_FORMATS.map((f) => ({ value: f.value, label: f.label }))}
+          />
+
+          {exportedThrough && (
+            <p className="text-xs text-[var(--text-tertiary)]">Books exported through {exportedThrough}.</p>
+          )}
+          {overlaps && (
+            <div className="rounded-lg border border-warning-200 bg-warning-50 p-3 text-sm text-warning-700">
+              This period includes days already exported. Importing them again will double-count.
+              {canManage ? (
+                <label className="mt-2 flex items-center gap-2">
+                  <input type="checkbox" checked={allowOverlap} onChange={(e) => setAllowOverlap(e.target.checked)} />
+                  Re-export anyway
+                </label>
+              ) : (
+                <span> Ask an admin to re-export booked days.</span>
+              )}
+            </div>
+          )}
+          {canManage && (
+            <label className="flex items-center gap-2 text-sm text-[var(--text-secondary)]">
+              <input type="checkbox" checked={markExported} onChange={(e) => setMarkExported(e.target.checked)} />
+              Mark as exported through {to || '…'}
+            </label>
+          )}
+
+          {preview && (
+            <div className="rounded-lg border border-[var(--border-default)] max-h-72 overflow-y-auto">
+              {preview.length === 0 ? (
+                <p className="p-4 text-sm text-center text-[var(--text-tertiary)]">No activity in this period.</p>
+              ) : (
+                preview.map((entry) => (
+                  <div key={entry.date} className="p-3 border-b border-[var(--border-subtle)] last:border-b-0">
+                    <p className="text-xs font-semibold text-[var(--text-primary)] mb-1">{entry.date}</p>
+                    {entry.lines.map((line) => (
+                      <div key={`${line.account.code}|${line.account.name}`} className="grid grid-cols-[1fr_80px_80px] text-xs text-[var(--text-secondary)]">
+                        <span className="truncate">{line.account.code} · {line.account.name}</span>
+                        <span className="text-right">{line.debit ? line.debit.toFixed(2) : ''}</span>
+                        <span className="text-right">{line.credit ? line.credit.toFixed(2) : ''}</span>
+                      </div>
+                    ))}
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+          {preview && preview.length > 0 && (
+            <p className="text-xs text-[var(--text-tertiary)]">
+              {preview.length} day{preview.length !== 1 ? 's' : ''} · ${totalDebits.toFixed(2)} in debits (each day balances)
+            </p>
+          )}
+        </div>
+      </ModalBody>
+      <ModalFooter>
+        <Button variant="ghost" onClick={onClose}>Cancel</Button>
+        <Button variant="secondary" onClick={handlePreview} loading={loading} disabled={invalid}>Preview</Button>
+        <Button variant="primary" onClick={handleDownload} loading={loading} disabled={invalid || (overlaps && !allowOverlap)}>
+          Download
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+}
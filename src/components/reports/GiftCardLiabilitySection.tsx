@@ -0,0 +1,164 @@
+// ============================================================================
+// GiftCardLiabilitySection — src/components/reports/GiftCardLiabilitySection.tsx
+// ============================================================================
+// Outstanding gift card liability roll-forward from the ledger: opening
+// balance, issued, redeemed, refund credits, adjustments, breakage (expired)
+// and closing balance, plus the cards still carrying a balance.
+// Used by the Reports overview and the Gift Cards dashboard.
+// ============================================================================
+
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { Button, Card, CardHeader, CardTitle, CardContent } from '@/components/ui';
+import { useTenant } from '@/hooks/use-tenant';
+import { formatGiftCardCode } from '@/lib/gift-cards';
+import type { GiftCardLiabilityReport } from '@/types';
+
+interface GiftCardLiabilitySectionProps {
+  /** Local YYYY-MM-DD; the report closes at the end of this day */
+  asOf: string;
+  /** Local YYYY-MM-DD; omit for a since-inception report */
+  from?: string | null;
+}
+
+const money = (n: number) => {
+  const abs = Math.abs(n);
+  const formatted = abs.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return n < 0 ? `-$${formatted}` : `$${formatted}`;
+};
+
+function exportLiabilityCSV(report: GiftCardLiabilityReport) {
+  const rows: string[][] = [
+    ['Gift Card Liability'],
+    ['Period', report.from ? `${report.from} to ${report.asOf}` : `Through ${report.asOf}`],
+    [],
+    ['Opening balance', report.totals.opening.toFixed(2)],
+    ['Issued', report.totals.issued.toFixed(2)],
+    ['Redeemed', (-report.totals.redeemed).toFixed(2)],
+    ['Refund credits', report.totals.refunded.toFixed(2)],
+    ['Adjustments', report.totals.adjusted.toFixed(2)],
+    ['Breakage (expired)', (-report.totals.expired).toFixed(2)],
+    ['Closing balance', report.totals.closing.toFixed(2)],
+    [],
+    ['Code', 'Recipient', 'Issued', 'Expires', 'Balance'],
+    ...report.outstanding.map((c) => [
+      formatGiftCardCode(c.code),
+      c.recipient_name,
+      c.purchased_at.slice(0, 10),
+      c.expires_at ? c.expires_at.slice(0, 10) : '',
+      c.balance.toFixed(2),
+    ]),
+  ];
+
+  const csv = rows.map((r) => r.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(',')).join('\n');
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `gift-card-liability-${report.asOf}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function GiftCardLiabilitySection({ asOf, from }: GiftCardLiabilitySectionProps) {
+  const { can } = useTenant();
+  const [report, setReport] = useState<GiftCardLiabilityReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showCards, setShowCards] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    const params = new URLSearchParams({ asOf });
+    if (from) params.set('from', from);
+    try {
+      const res = await fetch(`/api/gift-cards/liability?${params}`);
+      const data = await res.json();
+      if (res.ok) setReport(data);
+      else toast.error(data.error || 'Failed to load gift card liability');
+    } catch {
+      toast.error('Failed to load gift card liability');
+    } finally {
+      setLoading(false);
+    }
+  }, [asOf, from]);
+
+  useEffect(() => { fetchReport(); }, [fetchReport]);
+
+  const rows = report
+    ? [
+        { label: from ? 'Opening balance' : null, value: report.totals.opening },
+        { label: 'Issued', value: report.totals.issued },
+        { label: 'Redeemed', value: -report.totals.redeemed },
+        { label: 'Refund credits', value: report.totals.refunded },
+        { label: 'Adjustments', value: report.totals.adjusted },
+        { label: 'Breakage (expired)', value: -report.totals.expired },
+      ].filter((r): r is { label: string; value: number } => r.label !== null)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle>Gift Card Liability</CardTitle>
+          {can('data:export') && report && (
+            <Button variant="ghost" size="sm" onClick={() => exportLiabilityCSV(report)}>
+              Export CSV
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-0">
+        {loading || !report ? (
+          <div className="py-8 text-center">
+            <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+          </div>
+        ) : (
+          <>
+            {rows.map((r) => (
+              <div key={r.label} className="flex items-center justify-between py-2">
+                <span className="text-sm text-[var(--text-secondary)]">{r.label}</span>
+                <span className={`text-sm ${r.value < 0 ? 'text-error-500' : 'text-[var(--text-primary)]'}`}>{money(r.value)}</span>
+              </div>
+            ))}
+            <div className="flex items-center justify-between py-2 border-t border-[var(--border-default)] mt-1">
+              <span className="text-sm font-semibold text-[var(--text-primary)]">Outstanding as of {report.asOf}</span>
+              <span className="text-sm font-semibold text-[var(--text-primary)]">{money(report.totals.closing)}</span>
+            </div>
+            <p className="text-xs text-[var(--text-tertiary)] pt-1">
+              Unredeemed balances are a liability, not revenue. Breakage is the balance written off when cards expire.
+            </p>
+
+            {report.outstanding.length > 0 && (
+              <div className="pt-3">
+                <button
+                  onClick={() => setShowCards(!showCards)}
+                  className="text-xs font-medium text-[var(--accent-primary)] hover:underline"
+                >
+                  {showCards ? 'Hide' : 'Show'} {report.outstanding.length} card{report.outstanding.length !== 1 ? 's' : ''} with a balance
+                </button>
+                {showCards && (
+                  <div className="mt-2 max-h-72 overflow-y-auto">
+                    {report.outstanding.map((c) => (
+                      <div key={c.id} className="flex items-center justify-between py-2 border-b border-[var(--border-subtle)] last:border-b-0">
+                        <div>
+                          <p className="text-sm font-medium text-[var(--text-primary)] tracking-wide">{formatGiftCardCode(c.code)}</p>
+                          <p className="text-xs text-[var(--text-tertiary)]">
+                            {c.recipient_name} · issued {new Date(c.purchased_at).toLocaleDateString()}
+                            {c.expires_at && ` · expires ${new Date(c.expires_at).toLocaleDateString()}`}
+                          </p>
+                        </div>
+                        <p className="text-sm font-medium text-[var(--text-primary)]">{money(c.balance)}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
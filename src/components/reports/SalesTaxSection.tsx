@@ -0,0 +1,175 @@
+// ============================================================================
+// SalesTaxSection — src/components/reports/SalesTaxSection.tsx
+// ============================================================================
+// Sales tax to file for the period: collected, refunded and net tax by
+// jurisdiction component (state, county, city, district), and by event so
+// each location's filing can be checked. Exports both tables to CSV.
+// ============================================================================
+
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { Button, Card, CardHeader, CardTitle, CardContent } from '@/components/ui';
+import { useTenant } from '@/hooks/use-tenant';
+import { jurisdictionLabel } from '@/lib/sales-tax';
+import type { SalesTaxReport } from '@/types';
+
+interface SalesTaxSectionProps {
+  /** Local YYYY-MM-DD, inclusive */
+  from: string;
+  /** Local YYYY-MM-DD, inclusive */
+  to: string;
+}
+
+const money = (n: number) => {
+  const abs = Math.abs(n);
+  const formatted = abs.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return n < 0 ? `-$${formatted}` : `$${formatted}`;
+};
+
+const percent = (rate: number) => `${(rate * 100).toFixed(3).replace(/\.?0+$/, '')}%`;
+
+function exportSalesTaxCSV(report: SalesTaxReport) {
+  const jurisdictionNames = report.jurisdictions.map((j) => j.name).filter((n, i, all) => all.indexOf(n) === i);
+  const rows: string[][] = [
+    ['Sales Tax'],
+    ['Period', `${report.from} to ${report.to}`],
+    [],
+    ['Jurisdiction', 'Type', 'Rate', 'Sales', 'Taxable', 'Tax collected', 'Tax refunded', 'Net tax'],
+    ...report.jurisdictions.map((j) => [
+      j.name,
+      jurisdictionLabel(j.jurisdiction_type),
+      j.rate ? percent(j.rate) : '',
+      String(j.sales),
+      j.taxable.toFixed(2),
+      j.tax.toFixed(2),
+      (-j.refunded).toFixed(2),
+      j.net.toFixed(2),
+    ]),
+    ['Total', '', '', String(report.totals.sales), report.totals.taxable.toFixed(2), report.totals.tax.toFixed(2), (-report.totals.refunded).toFixed(2), report.totals.net.toFixed(2)],
+    [],
+    ['Event', 'Date', 'Sales', 'Taxable', 'Tax collected', 'Tax refunded', 'Net tax', ...jurisdictionNames],
+    ...report.events.map((e) => [
+      e.event_name,
+      e.event_date ? e.event_date.slice(0, 10) : '',
+      String(e.sales),
+      e.taxable.toFixed(2),
+      e.tax.toFixed(2),
+      (-e.refunded).toFixed(2),
+      e.net.toFixed(2),
+      ...jurisdictionNames.map((name) => (e.jurisdictions[name] || 0).toFixed(2)),
+    ]),
+  ];
+
+  const csv = rows.map((r) => r.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(',')).join('\n');
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `sales-tax-${report.from}-to-${report.to}.csv`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export default function SalesTaxSection({ from, to }: SalesTaxSectionProps) {
+  const { can } = useTenant();
+  const [report, setReport] = useState<SalesTaxReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showEvents, setShowEvents] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/sales/tax-report?${new URLSearchParams({ from, to })}`);
+      const data = await res.json();
+      if (res.ok) setReport(data);
+      else toast.error(data.error || 'Failed to load sales tax');
+    } catch {
+      toast.error('Failed to load sales tax');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to]);
+
+  useEffect(() => { fetchReport(); }, [fetchReport]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle>Sales Tax</CardTitle>
+          {can('data:export') && report && report.totals.sales > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => exportSalesTaxCSV(report)}>
+              Export CSV
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-0">
+        {loading || !report ? (
+          <div className="py-8 text-center">
+            <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+          </div>
+        ) : report.jurisdictions.length === 0 ? (
+          <p className="py-4 text-sm text-[var(--text-tertiary)] text-center">No sales tax collected in this period.</p>
+        ) : (
+          <>
+            {report.jurisdictions.map((j) => (
+              <div key={`${j.jurisdiction_type}|${j.name}|${j.rate}`} className="flex items-center justify-between py-2 border-b border-[var(--border-subtle)] last:border-b-0">
+                <div>
+                  <p className="text-sm text-[var(--text-primary)]">{j.name}</p>
+                  <p className="text-xs text-[var(--text-tertiary)]">
+                    {jurisdictionLabel(j.jurisdiction_type)}{j.rate ? ` · ${percent(j.rate)}` : ''} · {money(j.taxable)} taxable
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-medium text-[var(--text-primary)]">{money(j.net)}</p>
+                  {j.refunded > 0 && (
+                    <p className="text-xs text-[var(--text-tertiary)]">{money(j.tax)} − {money(j.refunded)} refunded</p>
+                  )}
+                </div>
+              </div>
+            ))}
+            <div className="flex items-center justify-between py-2 border-t border-[var(--border-default)] mt-1">
+              <span className="text-sm font-semibold text-[var(--text-primary)]">Net tax due</span>
+              <span className="text-sm font-semibold text-[var(--text-primary)]">{money(report.totals.net)}</span>
+            </div>
+            {report.untracked > 0 && (
+              <p className="text-xs text-[var(--text-tertiary)] pt-1">
+                {money(report.untracked)} was collected before tax was tracked by jurisdiction and is shown under the event&apos;s tax profile.
+              </p>
+            )}
+
+            {report.events.length > 0 && (
+              <div className="pt-3">
+                <button
+                  onClick={() => setShowEvents(!showEvents)}
+                  className="text-xs font-medium text-[var(--accent-primary)] hover:underline"
+                >
+                  {showEvents ? 'Hide' : 'Show'} by event ({report.events.length})
+                </button>
+                {showEvents && (
+                  <div className="mt-2 max-h-72 overflow-y-auto">
+                    {report.events.map((e) => (
+                      <div key={e.event_id || 'store'} className="flex items-center justify-between py-2 border-b border-[var(--border-subtle)] last:border-b-0">
+                        <div>
+                          <p className="text-sm font-medium text-[var(--text-primary)]">{e.event_name}</p>
+                          <p className="text-xs text-[var(--text-tertiary)]">
+                            {e.event_date && `${new Date(e.event_date).toLocaleDateString()} · `}
+                            {e.sales} sale{e.sales !== 1 ? 's' : ''} · {money(e.taxable)} taxable
+                          </p>
+                        </div>
+                        <p className="text-sm font-medium text-[var(--text-primary)]">{money(e.net)}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
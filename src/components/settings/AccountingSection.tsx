@@ -0,0 +1,232 @@
+// ============================================================================
+// AccountingSection — Settings Page Component
+// ============================================================================
+// Chart-of-accounts mapping for the QuickBooks / Xero journal export and the
+// "exported through" marker. Blank fields fall back to the default account
+// shown as the placeholder. Expense categories left blank post to the
+// general expense account. Also picks how sales are costed from the
+// inventory cost layers (FIFO or weighted average).
+// ============================================================================
+
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { toast } from 'sonner';
+import { createClient } from '@/lib/supabase/client';
+import { Button } from '@/components/ui/Button';
+import { ACCOUNT_DEFINITIONS, expenseAccountKey, resolveAccount, type AccountMap } from '@/lib/accounting';
+import { COSTING_METHODS } from '@/lib/cost-layers';
+import { EXPENSE_CATEGORIES, type CostingMethod, type Tenant } from '@/types';
+
+interface AccountingSectionProps {
+  tenant: Tenant;
+  onSaved: () => void;
+}
+
+const inputClass =
+  'w-full h-9 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]';
+
+export default function AccountingSection({ tenant, onSaved }: AccountingSectionProps) {
+  const supabase = useMemo(() => createClient(), []);
+  const [accounts, setAccounts] = useState<AccountMap>({});
+  const [exportedThrough, setExportedThrough] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [savingMarker, setSavingMarker] = useState(false);
+  const [savingMethod, setSavingMethod] = useState(false);
+
+  useEffect(() => {
+    setAccounts(tenant.accounting_accounts || {});
+    setExportedThrough(tenant.accounting_exported_through || '');
+  }, [tenant.accounting_accounts, tenant.accounting_exported_through]);
+
+  const setField = (key: string, field: 'name' | 'code', value: string) => {
+    setAccounts((prev) => ({
+      ...prev,
+      [key]: { name: prev[key]?.name || '', code: prev[key]?.code || '', [field]: value },
+    }));
+  };
+
+  // ── Save ────────────────────────────────────────────────────────────
+
+  const handleSave = async () => {
+    // Drop untouched rows so defaults keep tracking future changes
+    const cleaned: AccountMap = {};
+    for (const [key, ref] of Object.entries(accounts)) {
+      const name = ref.name.trim();
+      const code = ref.code.trim();
+      if (name || code) cleaned[key] = { name, code };
+    }
+    setSaving(true);
+    const { error } = await supabase
+      .from('tenants')
+      .update({ accounting_accounts: cleaned })
+      .eq('id', tenant.id);
+    setSaving(false);
+    if (error) {
+      toast.error('Failed to save account mapping');
+      return;
+    }
+    toast.success('Account mapping saved');
+    onSaved();
+  };
+
+  const handleSaveMarker = async (value: string | null) => {
+    setSavingMarker(true);
+    const { error } = await supabase
+      .from('tenants')
+      .update({ accounting_exported_through: value })
+      .eq('id', tenant.id);
+    setSavingMarker(false);
+    if (error) {
+      toast.error('Failed to update exported-through date');
+      return;
+    }
+    toast.success(value ? `Marked as exported through ${value}` : 'Export marker cleared');
+    onSaved();
+  };
+
+  const handleMethod = async (method: CostingMethod) => {
+    if (method === tenant.costing_method) return;
+    setSavingMethod(true);
+    const { error } = await supabase
+      .from('tenants')
+      .update({ costing_method: method })
+      .eq('id', tenant.id);
+    setSavingMethod(false);
+    if (error) {
+      toast.error('Failed to update costing method');
+      return;
+    }
+    toast.success('Costing method updated — applies to sales from now on');
+    onSaved();
+  };
+
+  // ── Render ──────────────────────────────────────────────────────────
+
+  const renderRow = (key: string, label: string) => {
+    const fallback = resolveAccount(null, key);
+    return (
+      <div key={key} className="grid grid-cols-[1fr_1.4fr_0.6fr] gap-2 items-center">
+        <span className="text-sm text-[var(--text-secondary)]">{label}</span>
+        <input
+          className={inputClass}
+          value={accounts[key]?.name || ''}
+          placeholder={fallback.name}
+          onChange={(e) => setField(key, 'name', e.target.value)}
+        />
+        <input
+          className={inputClass}
+          value={accounts[key]?.code || ''}
+          placeholder={fallback.code}
+          onChange={(e) => setField(key, 'code', e.target.value)}
+        />
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6 pt-4">
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-[var(--text-primary)]">Cost of goods sold</h4>
+        <p className="text-xs text-[var(--text-tertiary)]">
+          Every restock is tracked at what you paid for it. Choose how sales draw from that stock.
+        </p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {COSTING_METHODS.map((m) => {
+            const selected = (tenant.costing_method || 'fifo') === m.value;
+            return (
+              <button
+                key={m.value}
+                type="button"
+                disabled={savingMethod}
+                onClick={() => handleMethod(m.value)}
+                className={`text-left rounded-lg border p-3 transition-colors ${
+                  selected
+                    ? 'border-[var(--accent-primary)] bg-[var(--surface-raised)]'
+                    : 'border-[var(--border-default)] hover:bg-[var(--surface-raised)]'
+                }`}
+              >
+                <p className="text-sm font-medium text-[var(--text-primary)]">{m.label}</p>
+                <p className="text-xs text-[var(--text-tertiary)] mt-0.5">{m.description}</p>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2 border-t border-[var(--border-subtle)] pt-4">
+        <p className="text-sm text-[var(--text-secondary)]">
+          Match each line of the daily journal to an account in your books. QuickBooks matches by account name; Xero uses the code.
+        </p>
+        <div className="grid grid-cols-[1fr_1.4fr_0.6fr] gap-2 text-xs font-medium text-[var(--text-tertiary)] uppercase tracking-wide">
+          <span>Posts</span>
+          <span>Account name</span>
+          <span>Code</span>
+        </div>
+        {ACCOUNT_DEFINITIONS.map((d) => renderRow(d.key, d.label))}
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-[var(--text-primary)]">Expense categories</h4>
+        <p className="text-xs text-[var(--text-tertiary)]">
+          Leave blank to post to the expense account above.
+        </p>
+        {EXPENSE_CATEGORIES.map((category) => {
+          const key = expenseAccountKey(category);
+          return (
+            <div key={key} className="grid grid-cols-[1fr_1.4fr_0.6fr] gap-2 items-center">
+              <span className="text-sm text-[var(--text-secondary)]">{category}</span>
+              <input
+                className={inputClass}
+                value={accounts[key]?.name || ''}
+                placeholder={resolveAccount(accounts, 'expenses').name}
+                onChange={(e) => setField(key, 'name', e.target.value)}
+              />
+              <input
+                className={inputClass}
+                value={accounts[key]?.code || ''}
+                placeholder={resolveAccount(accounts, 'expenses').code}
+                onChange={(e) => setField(key, 'code', e.target.value)}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex justify-end">
+        <Button variant="primary" onClick={handleSave} loading={saving}>
+          Save Account Mapping
+        </Button>
+      </div>
+
+      <div className="space-y-2 border-t border-[var(--border-subtle)] pt-4">
+        <h4 className="text-sm font-semibold text-[var(--text-primary)]">Exported through</h4>
+        <p className="text-xs text-[var(--text-tertiary)]">
+          Days on or before this date have been booked. Exports that start on or before it are blocked unless you choose to re-export.
+        </p>
+        <div className="flex items-center gap-2">
+          <input
+            type="date"
+            className={`${inputClass} max-w-[180px]`}
+            value={exportedThrough}
+            onChange={(e) => setExportedThrough(e.target.value)}
+          />
+          <Button
+            variant="secondary"
+            size="sm"
+            loading={savingMarker}
+            disabled={exportedThrough === (tenant.accounting_exported_through || '')}
+            onClick={() => handleSaveMarker(exportedThrough || null)}
+          >
+            Update
+          </Button>
+          {tenant.accounting_exported_through && (
+            <Button variant="ghost" size="sm" disabled={savingMarker} onClick={() => handleSaveMarker(null)}>
+              Clear
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+// ============================================================================
+// LoyaltySection — Settings Page Component
+// ============================================================================
+// The loyalty program: how clients earn (per dollar or per piece), bonus
+// points for birthdays, referrals and hosting a party, when idle balances
+// expire, and the reward tiers they can spend points on at checkout.
+// ============================================================================
+
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { toast } from 'sonner';
+import { createClient } from '@/lib/supabase/client';
+import { Button } from '@/components/ui/Button';
+import { LOYALTY_EARN_MODES, formatPoints, rewardDiscountLabel } from '@/lib/loyalty';
+import type { LoyaltyEarnMode, LoyaltyReward, Tenant } from '@/types';
+
+interface LoyaltySectionProps {
+  tenant: Tenant;
+  onSaved: () => void;
+}
+
+interface RewardDraft {
+  name: string;
+  points_cost: string;
+  discount_type: LoyaltyReward['discount_type'];
+  discount_value: string;
+}
+
+const inputClass =
+  'w-full h-9 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]';
+
+const emptyDraft: RewardDraft = { name: '', points_cost: '', discount_type: 'flat', discount_value: '' };
+
+export default function LoyaltySection({ tenant, onSaved }: LoyaltySectionProps) {
+  const supabase = useMemo(() => createClient(), []);
+  const [earnMode, setEarnMode] = useState<LoyaltyEarnMode>(tenant.loyalty_earn_mode || 'per_dollar');
+  const [earnRate, setEarnRate] = useState(String(tenant.loyalty_earn_rate ?? 1));
+  const [birthdayBonus, setBirthdayBonus] = useState(String(tenant.loyalty_birthday_bonus || 0));
+  const [referralBonus, setReferralBonus] = useState(String(tenant.loyalty_referral_bonus || 0));
+  const [partyBonus, setPartyBonus] = useState(String(tenant.loyalty_party_host_bonus || 0));
+  const [expiryMonths, setExpiryMonths] = useState(tenant.loyalty_expiry_months ? String(tenant.loyalty_expiry_months) : '');
+  const [savingProgram, setSavingProgram] = useState(false);
+
+  const [rewards, setRewards] = useState<LoyaltyReward[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null);
+  const [draft, setDraft] = useState<RewardDraft>(emptyDraft);
+  const [saving, setSaving] = useState(false);
+
+  const loadRewards = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('loyalty_rewards')
+      .select('*')
+      .eq('tenant_id', tenant.id)
+      .order('points_cost');
+    if (error) toast.error('Failed to load rewards');
+    setRewards((data || []) as LoyaltyReward[]);
+    setLoading(false);
+  }, [supabase, tenant.id]);
+
+  useEffect(() => { loadRewards(); }, [loadRewards]);
+
+  // ── Program ─────────────────────────────────────────────────────────
+
+  const toggleEnabled = async () => {
+    setSavingProgram(true);
+    const { error } = await supabase
+      .from('tenants')
+      .update({ loyalty_enabled: !tenant.loyalty_enabled })
+      .eq('id', tenant.id);
+    setSavingProgram(false);
+    if (error) { toast.error('Failed to update loyalty program'); return; }
+    toast.success(tenant.loyalty_enabled ? 'Loyalty program paused' : 'Loyalty program on');
+    onSaved();
+  };
+
+  const saveProgram = async () => {
+    const rate = Number(earnRate);
+    if (!Number.isFinite(rate) || rate <= 0) {
+      toast.error('Enter how many points clients earn');
+      return;
+    }
+    const bonuses = [birthdayBonus, referralBonus, partyBonus].map((v) => Number(v || 0));
+    if (bonuses.some((b) => !Number.isInteger(b) || b < 0)) {
+      toast.error('Bonuses must be whole numbers of points');
+      return;
+    }
+    const months = expiryMonths ? Number(expiryMonths) : null;
+    if (months !== null && (!Number.isInteger(months) || months <= 0)) {
+      toast.error('Expiry must be a whole number of months');
+      return;
+    }
+
+    setSavingProgram(true);
+    const { error } = await supabase
+      .from('tenants')
+      .update({
+        loyalty_earn_mode: earnMode,
+        loyalty_earn_rate: rate,
+        loyalty_birthday_bonus: bonuses[0],
+        loyalty_referral_bonus: bonuses[1],
+        loyalty_party_host_bonus: bonuses[2],
+        loyalty_expiry_months: months,
+      })
+      .eq('id', tenant.id);
+    setSavingProgram(false);
+    if (error) { toast.error('Failed to save loyalty settings'); return; }
+    toast.success('Loyalty settings saved');
+    onSaved();
+  };
+
+  // ── Rewards ─────────────────────────────────────────────────────────
+
+  const startEditing = (reward: LoyaltyReward | null) => {
+    setEditingId(reward?.id || 'new');
+    setDraft(reward
+      ? {
+          name: reward.name,
+          points_cost: String(reward.points_cost),
+          discount_type: reward.discount_type,
+          discount_value: String(reward.discount_value),
+        }
+      : emptyDraft);
+  };
+
+  const saveReward = async () => {
+    const pointsCost = Number(draft.points_cost);
+    const value = Number(draft.discount_value);
+    if (!draft.name.trim()) { toast.error('Name the reward'); return; }
+    if (!Number.isInteger(pointsCost) || pointsCost <= 0) {
+      toast.error('Enter the points it costs');
+      return;
+    }
+    if (!Number.isFinite(value) || value <= 0 || (draft.discount_type === 'percentage' && value > 100)) {
+      toast.error(draft.discount_type === 'percentage' ? 'Enter a discount between 0 and 100%' : 'Enter a discount amount');
+      return;
+    }
+
+    const payload = {
+      name: draft.name.trim(),
+      points_cost: pointsCost,
+      discount_type: draft.discount_type,
+      discount_value: value,
+      updated_at: new Date().toISOString(),
+    };
+    setSaving(true);
+    const { error } = editingId === 'new'
+      ? await supabase.from('loyalty_rewards').insert({ tenant_id: tenant.id, ...payload })
+      : await supabase.from('loyalty_rewards').update(payload).eq('id', editingId!);
+    setSaving(false);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Reward saved');
+    setEditingId(null);
+    loadRewards();
+  };
+
+  const toggleReward = async (reward: LoyaltyReward) => {
+    const { error } = await supabase
+      .from('loyalty_rewards')
+      .update({ is_active: !reward.is_active, updated_at: new Date().toISOString() })
+      .eq('id', reward.id);
+    if (error) { toast.error(error.message); return; }
+    loadRewards();
+  };
+
+  const removeReward = async (reward: LoyaltyReward) => {
+    const { error } = await supabase.from('loyalty_rewards').delete().eq('id', reward.id);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Reward removed');
+    setEditingId(null);
+    loadRewards();
+  };
+
+  // ── Render ──────────────────────────────────────────────────────────
+
+  const rewardForm = (
+    <div className="border-t border-[var(--border-subtle)] px-4 py-3 space-y-3">
+      <input
+        className={inputClass}
+        placeholder="Reward name (e.g. $10 off)"
+        maxLength={60}
+        value={draft.name}
+        onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+      />
+      <div className="grid grid-cols-3 gap-2">
+        <input
+          className={inputClass}
+          type="number"
+          min="1"
+          step="1"
+          placeholder="Points"
+          value={draft.points_cost}
+          onChange={(e) => setDraft({ ...draft, points_cost: e.target.value })}
+        />
+        <select
+          className={inputClass}
+          value={draft.discount_type}
+          onChange={(e) => setDraft({ ...draft, discount_type: e.target.value as RewardDraft['discount_type'] })}
+        >
+          <option value="flat">$ off</option>
+          <option value="percentage">% off</option>
+        </select>
+        <input
+          className={inputClass}
+          type="number"
+          min="0"
+          step={draft.discount_type === 'flat' ? '1' : '5'}
+          placeholder={draft.discount_type === 'flat' ? 'Amount' : 'Percent'}
+          value={draft.discount_value}
+          onChange={(e) => setDraft({ ...draft, discount_value: e.target.value })}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+          Cancel
+        </Button>
+        <Button variant="primary" size="sm" onClick={saveReward} disabled={saving}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-5 pt-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-sm font-medium text-[var(--text-primary)]">Loyalty program</p>
+          <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+            Clients earn points on paid sales and spend them on rewards at checkout. Use {'{{loyalty_points}}'} in messages to show a balance.
+          </p>
+        </div>
+        <Button variant={tenant.loyalty_enabled ? 'secondary' : 'primary'} size="sm" onClick={toggleEnabled} disabled={savingProgram}>
+          {tenant.loyalty_enabled ? 'Turn off' : 'Turn on'}
+        </Button>
+      </div>
+
+      <div className="border-t border-[var(--border-subtle)] pt-4 space-y-3">
+        <p className="text-sm font-medium text-[var(--text-primary)]">Earning</p>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {LOYALTY_EARN_MODES.map((m) => (
+            <button
+              key={m.value}
+              type="button"
+              onClick={() => setEarnMode(m.value)}
+              className={`text-left rounded-lg border px-3 py-2.5 transition-colors ${
+                earnMode === m.value
+                  ? 'border-[var(--accent-primary)] bg-[var(--accent-subtle)]'
+                  : 'border-[var(--border-default)] hover:border-[var(--border-strong)]'
+              }`}
+            >
+              <p className="text-sm font-medium text-[var(--text-primary)]">{m.label}</p>
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            className={`${inputClass} w-24`}
+            type="number"
+            min="0"
+            step="0.5"
+            value={earnRate}
+            onChange={(e) => setEarnRate(e.target.value)}
+          />
+          <span className="text-sm text-[var(--text-secondary)]">
+            points {LOYALTY_EARN_MODES.find((m) => m.value === earnMode)?.unit}
+          </span>
+        </div>
+        <p className="text-xs text-[var(--text-tertiary)]">
+          {earnMode === 'per_dollar'
+            ? 'Counted on the subtotal after discounts — not tax, tips or gift cards. Fractions round down.'
+            : 'Counted on chain pieces (items with a product type). Fractions round down.'}
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          <label className="text-xs text-[var(--text-secondary)] space-y-1">
+            <span>Birthday bonus</span>
+            <input className={inputClass} type="number" min="0" step="1" value={birthdayBonus} onChange={(e) => setBirthdayBonus(e.target.value)} />
+          </label>
+          <label className="text-xs text-[var(--text-secondary)] space-y-1">
+            <span>Referral bonus</span>
+            <input className={inputClass} type="number" min="0" step="1" value={referralBonus} onChange={(e) => setReferralBonus(e.target.value)} />
+          </label>
+          <label className="text-xs text-[var(--text-secondary)] space-y-1">
+            <span>Party host bonus</span>
+            <input className={inputClass} type="number" min="0" step="1" value={partyBonus} onChange={(e) => setPartyBonus(e.target.value)} />
+          </label>
+        </div>
+        <p className="text-xs text-[var(--text-tertiary)]">
+          Referral bonuses go to the referrer after the new client&apos;s first paid sale. Party bonuses go to the host when the party is marked completed.
+        </p>
+
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-[var(--text-secondary)]">Expire balances after</span>
+          <input
+            className={`${inputClass} w-20`}
+            type="number"
+            min="1"
+            step="1"
+            placeholder="Never"
+            value={expiryMonths}
+            onChange={(e) => setExpiryMonths(e.target.value)}
+          />
+          <span className="text-sm text-[var(--text-secondary)]">months without activity</span>
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="primary" size="sm" onClick={saveProgram} disabled={savingProgram}>
+            Save
+          </Button>
+        </div>
+      </div>
+
+      <div className="border-t border-[var(--border-subtle)] pt-4">
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <p className="text-sm font-medium text-[var(--text-primary)]">Rewards</p>
+            <p className="text-xs text-[var(--text-tertiary)] mt-0.5">Applied as a discount at checkout. Points come off when the sale is rung up and go back if it's voided.</p>
+          </div>
+          {editingId === null && (
+            <Button variant="ghost" size="sm" onClick={() => startEditing(null)}>
+              + Add reward
+            </Button>
+          )}
+        </div>
+        {loading ? (
+          <div className="py-4 text-center">
+            <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {editingId === 'new' && (
+              <div className="bg-[var(--surface-base)] rounded-lg">{rewardForm}</div>
+            )}
+            {rewards.length === 0 && editingId !== 'new' && (
+              <p className="text-sm text-[var(--text-tertiary)]">No rewards yet.</p>
+            )}
+            {rewards.map((reward) => (
+              <div key={reward.id} className="bg-[var(--surface-base)] rounded-lg">
+                <div className="flex items-center justify-between px-4 py-3">
+                  <div className={`min-w-0 ${reward.is_active ? '' : 'opacity-50'}`}>
+                    <p className="text-sm font-medium text-[var(--text-primary)] truncate">{reward.name}</p>
+                    <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+                      {formatPoints(reward.points_cost)} · {rewardDiscountLabel(reward)}
+                      {!reward.is_active && ' · Paused'}
+                    </p>
+                  </div>
+                  {editingId !== reward.id && (
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => toggleReward(reward)}>
+                        {reward.is_active ? 'Pause' : 'Resume'}
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(reward)}>
+                        Edit
+                      </Button>
+                    </div>
+                  )}
+                </div>
+                {editingId === reward.id && (
+                  <>
+                    {rewardForm}
+                    <div className="px-4 pb-3">
+                      <Button variant="danger" size="sm" onClick={() => removeReward(reward)}>
+                        Remove reward
+                      </Button>
+                    </div>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
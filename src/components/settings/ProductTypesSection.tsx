@@ -5,6 +5,7 @@
 //
 // Manages product types (bracelet, anklet, etc.) with CRUD, reorder (up/down),
 // protected defaults (cannot delete, can edit). Add inline via modal-style form.
+// Each type can be marked tax-exempt to keep it out of the taxable base.
 // ============================================================================
 
 'use client';
@@ -140,6 +141,25 @@ export default function ProductTypesSection({ tenantId }: ProductTypesSectionPro
     }
   };
 
+  // ── Tax exempt ──────────────────────────────────────────────────────
+
+  const toggleTaxExempt = async (pt: ProductType) => {
+    const taxExempt = !pt.tax_exempt;
+    setProductTypes((prev) => prev.map((p) => (p.id === pt.id ? { ...p, tax_exempt: taxExempt } : p)));
+    try {
+      const res = await fetch(`/api/product-types/${pt.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ tax_exempt: taxExempt }),
+      });
+      if (!res.ok) throw new Error();
+      toast.success(taxExempt ? `${pt.name} is now tax-exempt` : `${pt.name} is now taxed`);
+    } catch {
+      toast.error('Failed to update tax setting');
+      await loadProductTypes();
+    }
+  };
+
   // ── Reorder ─────────────────────────────────────────────────────────
 
   const handleReorder = async (index: number, direction: 'up' | 'down') => {
@@ -275,6 +295,13 @@ export default function ProductTypesSection({ tenantId }: ProductTypesSectionPro
 
                 {/* Actions */}
                 <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => toggleTaxExempt(pt)}
+                    className={`text-xs px-2 py-1 hover:underline ${pt.tax_exempt ? 'text-amber-600' : 'text-[var(--text-tertiary)]'}`}
+                    title="Tax-exempt types are left out of the taxable amount at checkout"
+                  >
+                    {pt.tax_exempt ? 'Tax exempt' : 'Taxed'}
+                  </button>
                   <button
                     onClick={() => startEdit(pt)}
                     className="text-xs text-[var(--accent-primary)] hover:underline px-2 py-1"
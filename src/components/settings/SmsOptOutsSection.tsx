@@ -0,0 +1,153 @@
+// ============================================================================
+// SmsOptOutsSection — Settings Page Component
+// ============================================================================
+// Numbers that won't receive texts from the business: customers who replied
+// STOP and numbers opted out by the team. Replying START removes a number;
+// the team can also resubscribe one when the customer asks.
+// ============================================================================
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui';
+import { formatPhone } from '@/lib/utils';
+import type { SmsConsentSource, SmsSuppression } from '@/types';
+
+interface SmsOptOutsSectionProps {
+  canEdit: boolean;
+}
+
+const SOURCE_LABELS: Record<SmsConsentSource, string> = {
+  waiver: 'Waiver',
+  rsvp: 'Party RSVP',
+  appointment: 'Booking',
+  keyword: 'Replied',
+  manual: 'Opted out by team',
+};
+
+const inputClass =
+  'h-9 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]';
+
+function sourceLabel(s: SmsSuppression): string {
+  if (s.source === 'keyword') return s.keyword ? `Replied ${s.keyword}` : SOURCE_LABELS.keyword;
+  return SOURCE_LABELS[s.source] || s.source;
+}
+
+export default function SmsOptOutsSection({ canEdit }: SmsOptOutsSectionProps) {
+  const [suppressions, setSuppressions] = useState<SmsSuppression[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [phone, setPhone] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch('/api/sms-consent');
+      if (!res.ok) throw new Error('Failed to load opt-outs');
+      const data = await res.json();
+      setSuppressions(data.suppressions || []);
+    } catch (err) {
+      console.error('SMS opt-outs load error:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const update = async (number: string, status: 'opted_in' | 'opted_out', note?: string) => {
+    setSaving(true);
+    try {
+      const res = await fetch('/api/sms-consent', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phone: number, status, note }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to update');
+        return false;
+      }
+      toast.success(status === 'opted_out' ? 'Number opted out' : 'Number resubscribed');
+      load();
+      return true;
+    } catch {
+      toast.error('Failed to update');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (await update(phone, 'opted_out')) setPhone('');
+  };
+
+  const handleResubscribe = async (s: SmsSuppression) => {
+    const note = prompt(
+      `Only resubscribe ${formatPhone(s.phone)} if the customer asked to get texts again. How did they ask?`
+    );
+    if (!note?.trim()) return;
+    await update(s.phone, 'opted_in', note.trim());
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-[var(--text-tertiary)]">
+        These numbers get no texts from you — not broadcasts, workflows, receipts or replies. Customers
+        who reply START are resubscribed automatically.
+      </p>
+
+      {canEdit && (
+        <div className="flex gap-2">
+          <input
+            type="tel"
+            className={`${inputClass} flex-1`}
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="(555) 123-4567"
+          />
+          <Button variant="secondary" size="sm" onClick={handleAdd} loading={saving} disabled={!phone.trim()}>
+            Opt Out Number
+          </Button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="py-6 text-center">
+          <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+        </div>
+      ) : suppressions.length === 0 ? (
+        <p className="py-4 text-center text-sm text-[var(--text-tertiary)]">No one has opted out.</p>
+      ) : (
+        <div className="divide-y divide-[var(--border-subtle)] border border-[var(--border-default)] rounded-xl overflow-hidden">
+          {suppressions.map((s) => {
+            const name = s.client ? [s.client.first_name, s.client.last_name].filter(Boolean).join(' ') : '';
+            return (
+              <div key={s.phone_digits} className="flex items-center justify-between gap-3 py-3 px-4 bg-[var(--surface-base)]">
+                <div className="min-w-0">
+                  <p className="text-sm text-[var(--text-primary)]">
+                    {formatPhone(s.phone)}
+                    {name && <span className="text-[var(--text-secondary)]"> · {name}</span>}
+                  </p>
+                  <div className="flex items-center gap-2 mt-0.5">
+                    <Badge variant={s.source === 'keyword' ? 'warning' : 'default'} size="sm">{sourceLabel(s)}</Badge>
+                    <span className="text-xs text-[var(--text-tertiary)]">
+                      {new Date(s.opted_out_at).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                    </span>
+                  </div>
+                </div>
+                {canEdit && (
+                  <Button variant="ghost" size="sm" onClick={() => handleResubscribe(s)} disabled={saving}>
+                    Resubscribe
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+// ============================================================================
+// StaffPaySection — Settings Page Component
+// ============================================================================
+// How the team is paid: the tip allocation rule (to whoever served, pooled
+// per event by hours, or split) and each member's pay plan — an hourly
+// wage plus commission as a percent of sales, flat per piece, or marginal
+// tiers on the pay period's sales. Earnings show under Reports → Payroll.
+// ============================================================================
+
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { toast } from 'sonner';
+import { createClient } from '@/lib/supabase/client';
+import { Button } from '@/components/ui/Button';
+import { COMMISSION_PLAN_TYPES, TIP_ALLOCATIONS, planSummary } from '@/lib/payroll';
+import type { CommissionPlan, CommissionPlanType, Tenant, TenantRole, TipAllocation } from '@/types';
+
+interface StaffPayMember {
+  id: string;
+  role: TenantRole;
+  display_name: string | null;
+  invited_email: string | null;
+  is_owner: boolean;
+}
+
+interface StaffPaySectionProps {
+  tenant: Tenant;
+  /** Accepted team members */
+  members: StaffPayMember[];
+  onSaved: () => void;
+}
+
+interface PlanDraft {
+  plan_type: CommissionPlanType;
+  scope: 'all' | 'pieces';
+  rate: string;
+  per_piece_amount: string;
+  tiers: { from: string; rate: string }[];
+  hourly_rate: string;
+}
+
+const inputClass =
+  'w-full h-9 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]';
+
+const toPercent = (rate: number) => String(+(Number(rate) * 100).toFixed(4));
+
+function draftFrom(plan: CommissionPlan | undefined): PlanDraft {
+  if (!plan) return { plan_type: 'percent', scope: 'all', rate: '', per_piece_amount: '', tiers: [{ from: '0', rate: '' }], hourly_rate: '' };
+  return {
+    plan_type: plan.plan_type,
+    scope: plan.scope,
+    rate: toPercent(plan.rate),
+    per_piece_amount: String(plan.per_piece_amount),
+    tiers: plan.tiers.length > 0
+      ? [...plan.tiers].sort((a, b) => a.from - b.from).map((t) => ({ from: String(t.from), rate: toPercent(t.rate) }))
+      : [{ from: '0', rate: '' }],
+    hourly_rate: Number(plan.hourly_rate) > 0 ? String(plan.hourly_rate) : '',
+  };
+}
+
+export default function StaffPaySection({ tenant, members, onSaved }: StaffPaySectionProps) {
+  const supabase = useMemo(() => createClient(), []);
+  const [plans, setPlans] = useState<CommissionPlan[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PlanDraft>(draftFrom(undefined));
+  const [saving, setSaving] = useState(false);
+  const [poolPercent, setPoolPercent] = useState(String(tenant.tip_pool_percent ?? 50));
+  const [savingTips, setSavingTips] = useState(false);
+
+  const loadPlans = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('commission_plans')
+      .select('*')
+      .eq('tenant_id', tenant.id);
+    if (error) toast.error('Failed to load commission plans');
+    setPlans((data || []) as CommissionPlan[]);
+    setLoading(false);
+  }, [supabase, tenant.id]);
+
+  useEffect(() => { loadPlans(); }, [loadPlans]);
+
+  // ── Tips ────────────────────────────────────────────────────────────
+
+  const saveTipAllocation = async (allocation: TipAllocation, percent = poolPercent) => {
+    const pct = Number(percent);
+    if (allocation === 'split' && (!Number.isFinite(pct) || pct < 0 || pct > 100)) {
+      toast.error('Pool share must be between 0 and 100%');
+      return;
+    }
+    setSavingTips(true);
+    const { error } = await supabase
+      .from('tenants')
+      .update({ tip_allocation: allocation, tip_pool_percent: pct })
+      .eq('id', tenant.id);
+    setSavingTips(false);
+    if (error) { toast.error('Failed to update tip allocation'); return; }
+    toast.success('Tip allocation saved');
+    onSaved();
+  };
+
+  // ── Commission plans ────────────────────────────────────────────────
+
+  const startEditing = (memberId: string) => {
+    setEditingId(memberId);
+    setDraft(draftFrom(plans.find((p) => p.member_id === memberId)));
+  };
+
+  const savePlan = async (memberId: string) => {
+    const hourlyRate = Number(draft.hourly_rate || 0);
+    if (!Number.isFinite(hourlyRate) || hourlyRate < 0) {
+      toast.error('Enter a valid hourly rate');
+      return;
+    }
+    const payload: Partial<CommissionPlan> = {
+      hourly_rate: hourlyRate,
+      plan_type: draft.plan_type,
+      scope: draft.scope,
+      rate: 0,
+      per_piece_amount: 0,
+      tiers: [],
+      is_active: true,
+    };
+    if (draft.plan_type === 'percent') {
+      const rate = Number(draft.rate || 0);
+      if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+        toast.error('Enter a commission rate between 0 and 100%');
+        return;
+      }
+      payload.rate = rate / 100;
+    } else if (draft.plan_type === 'per_piece') {
+      const amount = Number(draft.per_piece_amount || 0);
+      if (!Number.isFinite(amount) || amount < 0) {
+        toast.error('Enter an amount per piece');
+        return;
+      }
+      payload.per_piece_amount = amount;
+    } else {
+      const tiers = draft.tiers
+        .filter((t) => t.rate !== '')
+        .map((t) => ({ from: Number(t.from) || 0, rate: Number(t.rate) / 100 }))
+        .sort((a, b) => a.from - b.from);
+      if (tiers.some((t) => t.from < 0 || t.rate < 0 || t.rate > 1)) {
+        toast.error('Each tier needs a starting amount and a rate between 0 and 100%');
+        return;
+      }
+      if (new Set(tiers.map((t) => t.from)).size !== tiers.length) {
+        toast.error('Two tiers start at the same amount');
+        return;
+      }
+      payload.tiers = tiers;
+    }
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('commission_plans')
+      .upsert({ tenant_id: tenant.id, member_id: memberId, ...payload }, { onConflict: 'member_id' });
+    setSaving(false);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Pay plan saved');
+    setEditingId(null);
+    loadPlans();
+  };
+
+  const removePlan = async (plan: CommissionPlan) => {
+    const { error } = await supabase.from('commission_plans').delete().eq('id', plan.id);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Pay plan removed');
+    setEditingId(null);
+    loadPlans();
+  };
+
+  // ── Render ──────────────────────────────────────────────────────────
+
+  const allocation = tenant.tip_allocation || 'server';
+
+  return (
+    <div className="space-y-5 pt-4">
+      <div>
+        <p className="text-sm font-medium text-[var(--text-primary)] mb-2">Tips</p>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+          {TIP_ALLOCATIONS.map((t) => (
+            <button
+              key={t.value}
+              type="button"
+              disabled={savingTips}
+              onClick={() => t.value !== allocation && saveTipAllocation(t.value)}
+              className={`text-left rounded-lg border px-3 py-2.5 transition-colors ${
+                allocation === t.value
+                  ? 'border-[var(--accent-primary)] bg-[var(--accent-subtle)]'
+                  : 'border-[var(--border-default)] hover:border-[var(--border-strong)]'
+              }`}
+            >
+              <p className="text-sm font-medium text-[var(--text-primary)]">{t.label}</p>
+              <p className="text-xs text-[var(--text-tertiary)] mt-0.5">{t.description}</p>
+            </button>
+          ))}
+        </div>
+        {allocation === 'split' && (
+          <div className="flex items-center gap-2 mt-3">
+            <span className="text-sm text-[var(--text-secondary)]">Pool</span>
+            <input
+              className={`${inputClass} w-24`}
+              type="number"
+              min="0"
+              max="100"
+              step="1"
+              value={poolPercent}
+              onChange={(e) => setPoolPercent(e.target.value)}
+            />
+            <span className="text-sm text-[var(--text-secondary)]">% of each event tip</span>
+            <Button variant="secondary" size="sm" onClick={() => saveTipAllocation('split')} disabled={savingTips}>
+              Save
+            </Button>
+          </div>
+        )}
+        {allocation !== 'server' && (
+          <p className="text-xs text-[var(--text-tertiary)] mt-2">
+            Pools are shared by hours logged for the event under Reports → Payroll, or equally among whoever made sales there if no hours are logged. Store sales always tip whoever served.
+          </p>
+        )}
+      </div>
+
+      <div className="border-t border-[var(--border-subtle)] pt-4">
+        <p className="text-sm font-medium text-[var(--text-primary)]">Pay plans</p>
+        <p className="text-xs text-[var(--text-tertiary)] mt-0.5 mb-3">
+          Wages are paid on hours worked and count as labor in event P&amp;L. Commission is earned on what their sales bring in after discounts — not tax, tips or gift cards. Refunds take back the commission they paid.
+        </p>
+        {loading ? (
+          <div className="py-4 text-center">
+            <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-[var(--accent-primary)] border-t-transparent" />
+          </div>
+        ) : members.length === 0 ? (
+          <p className="text-sm text-[var(--text-tertiary)]">No team members yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {members.map((m) => {
+              const plan = plans.find((p) => p.member_id === m.id);
+              const editing = editingId === m.id;
+              return (
+                <div key={m.id} className="bg-[var(--surface-base)] rounded-lg">
+                  <div className="flex items-center justify-between px-4 py-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-[var(--text-primary)] truncate">
+                        {m.display_name || m.invited_email || (m.is_owner ? 'Owner' : 'Team member')}
+                      </p>
+                      <p className="text-xs text-[var(--text-tertiary)] mt-0.5">{planSummary(plan || null)}</p>
+                    </div>
+                    {!editing && (
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(m.id)}>
+                        {plan ? 'Edit' : 'Set up'}
+                      </Button>
+                    )}
+                  </div>
+
+                  {editing && (
+                    <div className="border-t border-[var(--border-subtle)] px-4 py-3 space-y-3">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm text-[var(--text-secondary)]">Hourly wage $</span>
+                        <input
+                          className={`${inputClass} w-28`}
+                          type="number"
+                          min="0"
+                          step="0.25"
+                          placeholder="0.00"
+                          value={draft.hourly_rate}
+                          onChange={(e) => setDraft({ ...draft, hourly_rate: e.target.value })}
+                        />
+                      </div>
+                      <div className="grid grid-cols-2 gap-2">
+                        <select
+                          className={inputClass}
+                          value={draft.plan_type}
+                          onChange={(e) => setDraft({ ...draft, plan_type: e.target.value as CommissionPlanType })}
+                        >
+                          {COMMISSION_PLAN_TYPES.map((t) => (
+                            <option key={t.value} value={t.value}>{t.label}</option>
+                          ))}
+                        </select>
+                        <select
+                          className={inputClass}
+                          value={draft.scope}
+                          onChange={(e) => setDraft({ ...draft, scope: e.target.value as PlanDraft['scope'] })}
+                        >
+                          <option value="all">On everything they sell</option>
+                          <option value="pieces">On chain pieces only</option>
+                        </select>
+                      </div>
+                      <p className="text-xs text-[var(--text-tertiary)]">
+                        {COMMISSION_PLAN_TYPES.find((t) => t.value === draft.plan_type)?.description}
+                      </p>
+
+                      {draft.plan_type === 'percent' && (
+                        <input
+                          className={`${inputClass} w-32`}
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.5"
+                          placeholder="Rate %"
+                          value={draft.rate}
+                          onChange={(e) => setDraft({ ...draft, rate: e.target.value })}
+                        />
+                      )}
+
+                      {draft.plan_type === 'per_piece' && (
+                        <input
+                          className={`${inputClass} w-32`}
+                          type="number"
+                          min="0"
+                          step="0.25"
+                          placeholder="$ per piece"
+                          value={draft.per_piece_amount}
+                          onChange={(e) => setDraft({ ...draft, per_piece_amount: e.target.value })}
+                        />
+                      )}
+
+                      {draft.plan_type === 'tiered' && (
+                        <div className="space-y-2">
+                          {draft.tiers.map((tier, i) => (
+                            <div key={i} className="flex items-center gap-2">
+                              <span className="text-xs text-[var(--text-tertiary)] w-14">Over $</span>
+                              <input
+                                className={`${inputClass} w-28`}
+                                type="number"
+                                min="0"
+                                step="100"
+                                value={tier.from}
+                                onChange={(e) => setDraft({
+                                  ...draft,
+                                  tiers: draft.tiers.map((t, j) => (j === i ? { ...t, from: e.target.value } : t)),
+                                })}
+                              />
+                              <input
+                                className={`${inputClass} w-24`}
+                                type="number"
+                                min="0"
+                                max="100"
+                                step="0.5"
+                                placeholder="Rate %"
+                                value={tier.rate}
+                                onChange={(e) => setDraft({
+                                  ...draft,
+                                  tiers: draft.tiers.map((t, j) => (j === i ? { ...t, rate: e.target.value } : t)),
+                                })}
+                              />
+                              {draft.tiers.length > 1 && (
+                                <button
+                                  onClick={() => setDraft({ ...draft, tiers: draft.tiers.filter((_, j) => j !== i) })}
+                                  className="text-xs text-red-500 hover:underline"
+                                >
+                                  Remove
+                                </button>
+                              )}
+                            </div>
+                          ))}
+                          <button
+                            onClick={() => setDraft({ ...draft, tiers: [...draft.tiers, { from: '', rate: '' }] })}
+                            className="text-xs font-medium text-[var(--accent-primary)] hover:underline"
+                          >
+                            + Add tier
+                          </button>
+                        </div>
+                      )}
+
+                      <div className="flex items-center justify-between pt-1">
+                        <div>
+                          {plan && (
+                            <Button variant="danger" size="sm" onClick={() => removePlan(plan)}>
+                              Remove plan
+                            </Button>
+                          )}
+                        </div>
+                        <div className="flex gap-2">
+                          <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                            Cancel
+                          </Button>
+                          <Button variant="primary" size="sm" onClick={() => savePlan(m.id)} disabled={saving}>
+                            Save
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
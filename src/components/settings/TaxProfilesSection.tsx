@@ -0,0 +1,282 @@
+// ============================================================================
+// TaxProfilesSection — Settings Page Component
+// ============================================================================
+// Tax profile CRUD with jurisdiction components (state, county, city,
+// special district). A profile's rate is the sum of its components; a
+// profile with none is a single flat rate. Events pick the profile for
+// their location. Also toggles tax-inclusive menu pricing.
+// ============================================================================
+
+'use client';
+
+import { useState, useMemo } from 'react';
+import { toast } from 'sonner';
+import { createClient } from '@/lib/supabase/client';
+import { Button } from '@/components/ui/Button';
+import { JURISDICTION_TYPES, jurisdictionLabel } from '@/lib/sales-tax';
+import type { TaxJurisdictionType, TaxProfile, Tenant } from '@/types';
+
+interface TaxProfilesSectionProps {
+  tenant: Tenant;
+  profiles: TaxProfile[];
+  /** Reload the profiles (with components) after a change */
+  onProfilesChange: () => void;
+  onSaved: () => void;
+}
+
+const inputClass =
+  'w-full h-9 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]';
+
+const percent = (rate: number) => `${(Number(rate) * 100).toFixed(3).replace(/\.?0+$/, '')}%`;
+
+export default function TaxProfilesSection({ tenant, profiles, onProfilesChange, onSaved }: TaxProfilesSectionProps) {
+  const supabase = useMemo(() => createClient(), []);
+  const [newProfile, setNewProfile] = useState({ name: '', rate: '' });
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [newComponent, setNewComponent] = useState<{ name: string; type: TaxJurisdictionType; rate: string }>({
+    name: '',
+    type: 'state',
+    rate: '',
+  });
+  const [saving, setSaving] = useState(false);
+  const [savingInclusive, setSavingInclusive] = useState(false);
+
+  // ── Profiles ────────────────────────────────────────────────────────
+
+  const addProfile = async () => {
+    if (!newProfile.name.trim() || !newProfile.rate) return;
+    setSaving(true);
+    const { error } = await supabase.from('tax_profiles').insert({
+      tenant_id: tenant.id,
+      name: newProfile.name.trim(),
+      rate: Number(newProfile.rate) / 100,
+      is_default: profiles.length === 0,
+    });
+    setSaving(false);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Tax profile added');
+    setNewProfile({ name: '', rate: '' });
+    onProfilesChange();
+  };
+
+  const deleteProfile = async (profile: TaxProfile) => {
+    if (!confirm(`Remove "${profile.name}"?`)) return;
+    const { error } = await supabase.from('tax_profiles').delete().eq('id', profile.id);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Tax profile removed');
+    onProfilesChange();
+  };
+
+  const makeDefault = async (profile: TaxProfile) => {
+    const { error: clearError } = await supabase
+      .from('tax_profiles')
+      .update({ is_default: false })
+      .eq('tenant_id', tenant.id)
+      .neq('id', profile.id);
+    const { error } = clearError
+      ? { error: clearError }
+      : await supabase.from('tax_profiles').update({ is_default: true }).eq('id', profile.id);
+    if (error) { toast.error(error.message); return; }
+    toast.success(`${profile.name} is now the store default`);
+    onProfilesChange();
+  };
+
+  // ── Components ──────────────────────────────────────────────────────
+
+  const addComponent = async (profile: TaxProfile) => {
+    if (!newComponent.name.trim() || newComponent.rate === '') return;
+    setSaving(true);
+    const existing = profile.tax_profile_components || [];
+    const { error } = await supabase.from('tax_profile_components').insert({
+      tenant_id: tenant.id,
+      tax_profile_id: profile.id,
+      name: newComponent.name.trim(),
+      jurisdiction_type: newComponent.type,
+      rate: Number(newComponent.rate) / 100,
+      sort_order: existing.length,
+    });
+    setSaving(false);
+    if (error) { toast.error(error.message); return; }
+    toast.success(existing.length === 0
+      ? `${profile.name} now uses its jurisdiction rates`
+      : 'Jurisdiction added');
+    setNewComponent({ name: '', type: 'county', rate: '' });
+    onProfilesChange();
+  };
+
+  const deleteComponent = async (componentId: string) => {
+    const { error } = await supabase.from('tax_profile_components').delete().eq('id', componentId);
+    if (error) { toast.error(error.message); return; }
+    toast.success('Jurisdiction removed');
+    onProfilesChange();
+  };
+
+  // ── Tax-inclusive pricing ───────────────────────────────────────────
+
+  const toggleInclusive = async () => {
+    setSavingInclusive(true);
+    const { error } = await supabase
+      .from('tenants')
+      .update({ tax_inclusive: !tenant.tax_inclusive })
+      .eq('id', tenant.id);
+    setSavingInclusive(false);
+    if (error) { toast.error('Failed to update tax pricing'); return; }
+    toast.success(!tenant.tax_inclusive ? 'Prices now include tax' : 'Tax is now added at checkout');
+    onSaved();
+  };
+
+  // ── Render ──────────────────────────────────────────────────────────
+
+  return (
+    <div className="space-y-4 pt-4">
+      {profiles.length > 0 && (
+        <div className="space-y-2">
+          {profiles.map((tp) => {
+            const components = [...(tp.tax_profile_components || [])].sort((a, b) => a.sort_order - b.sort_order);
+            const expanded = expandedId === tp.id;
+            return (
+              <div key={tp.id} className="bg-[var(--surface-base)] rounded-lg">
+                <div className="flex items-center justify-between px-4 py-3">
+                  <button
+                    type="button"
+                    onClick={() => setExpandedId(expanded ? null : tp.id)}
+                    className="text-left min-w-0"
+                  >
+                    <span className="font-medium text-[var(--text-primary)]">{tp.name}</span>
+                    <span className="text-[var(--text-tertiary)] ml-2">{percent(tp.rate)}</span>
+                    {tp.is_default && (
+                      <span className="text-xs text-[var(--accent-primary)] ml-2">Store default</span>
+                    )}
+                    <span className="block text-xs text-[var(--text-tertiary)] mt-0.5">
+                      {components.length > 0
+                        ? components.map((c) => c.name).join(' + ')
+                        : 'Single rate — tap to split by jurisdiction'}
+                    </span>
+                  </button>
+                  <div className="flex items-center gap-2 shrink-0">
+                    {!tp.is_default && (
+                      <Button variant="ghost" size="sm" onClick={() => makeDefault(tp)}>
+                        Make default
+                      </Button>
+                    )}
+                    <Button variant="danger" size="sm" onClick={() => deleteProfile(tp)}>
+                      Remove
+                    </Button>
+                  </div>
+                </div>
+
+                {expanded && (
+                  <div className="border-t border-[var(--border-subtle)] px-4 py-3 space-y-2">
+                    {components.length === 0 && (
+                      <p className="text-xs text-[var(--text-tertiary)]">
+                        Add the state, county, city and district rates you file separately. Once added, the profile rate is their total.
+                      </p>
+                    )}
+                    {components.map((c) => (
+                      <div key={c.id} className="flex items-center justify-between text-sm">
+                        <div>
+                          <span className="text-[var(--text-primary)]">{c.name}</span>
+                          <span className="text-xs text-[var(--text-tertiary)] ml-2">{jurisdictionLabel(c.jurisdiction_type)}</span>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <span className="text-[var(--text-secondary)]">{percent(c.rate)}</span>
+                          <button
+                            onClick={() => deleteComponent(c.id)}
+                            className="text-xs text-red-500 hover:underline"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                    <div className="grid grid-cols-[1fr_auto_5.5rem_auto] gap-2 pt-1">
+                      <input
+                        className={inputClass}
+                        placeholder="Jurisdiction (e.g. Travis County)"
+                        value={newComponent.name}
+                        onChange={(e) => setNewComponent({ ...newComponent, name: e.target.value })}
+                      />
+                      <select
+                        className={inputClass}
+                        value={newComponent.type}
+                        onChange={(e) => setNewComponent({ ...newComponent, type: e.target.value as TaxJurisdictionType })}
+                      >
+                        {JURISDICTION_TYPES.map((j) => (
+                          <option key={j.value} value={j.value}>{j.label}</option>
+                        ))}
+                      </select>
+                      <input
+                        className={inputClass}
+                        type="number"
+                        step="0.001"
+                        min="0"
+                        placeholder="Rate %"
+                        value={newComponent.rate}
+                        onChange={(e) => setNewComponent({ ...newComponent, rate: e.target.value })}
+                      />
+                      <Button variant="secondary" size="sm" onClick={() => addComponent(tp)} disabled={saving}>
+                        Add
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {profiles.length === 0 && (
+        <p className="text-sm text-[var(--text-tertiary)]">No tax profiles yet. Add one below.</p>
+      )}
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <input
+            className={inputClass}
+            placeholder="Profile name (e.g. Texas)"
+            value={newProfile.name}
+            onChange={(e) => setNewProfile({ ...newProfile, name: e.target.value })}
+          />
+        </div>
+        <div className="w-28">
+          <input
+            className={inputClass}
+            type="number"
+            step="0.01"
+            placeholder="Rate %"
+            value={newProfile.rate}
+            onChange={(e) => setNewProfile({ ...newProfile, rate: e.target.value })}
+          />
+        </div>
+        <Button variant="secondary" onClick={addProfile} disabled={saving}>
+          Add
+        </Button>
+      </div>
+
+      <div className="flex items-center justify-between gap-4 border-t border-[var(--border-subtle)] pt-4">
+        <div>
+          <p className="text-sm font-medium text-[var(--text-primary)]">Prices include tax</p>
+          <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+            Your menu prices already include sales tax. The tax is backed out of each sale instead of added on top.
+          </p>
+        </div>
+        <button
+          type="button"
+          role="switch"
+          aria-checked={tenant.tax_inclusive}
+          disabled={savingInclusive}
+          onClick={toggleInclusive}
+          className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors ${
+            tenant.tax_inclusive ? 'bg-[var(--accent-primary)]' : 'bg-[var(--border-strong)]'
+          }`}
+        >
+          <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+            tenant.tax_inclusive ? 'translate-x-6' : 'translate-x-1'
+          }`} />
+        </button>
+      </div>
+      <p className="text-xs text-[var(--text-tertiary)]">
+        To keep a product type out of the taxable amount, mark it tax-exempt under Default Pricing → Product Types.
+      </p>
+    </div>
+  );
+}
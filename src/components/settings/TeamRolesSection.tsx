@@ -0,0 +1,314 @@
+// ============================================================================
+// TeamRolesSection — Settings Page Component
+// ============================================================================
+// The tenant's roles: the built-in Admin, Manager and Staff plus any custom
+// roles, each a set of permissions from the catalog with optional discount
+// limits. Admin always has full access; Manager and Staff can be tailored;
+// custom roles also pick the access level they sit on.
+// ============================================================================
+
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui';
+import {
+  ALL_PERMISSIONS,
+  PERMISSION_GROUPS,
+  ROLE_CONFIG,
+  discountLimitLabel,
+  getPermissions,
+  type Permission,
+} from '@/lib/permissions';
+import type { TeamRole, TenantRole } from '@/types';
+
+export type TeamRoleWithCount = TeamRole & { member_count: number };
+
+interface TeamRolesSectionProps {
+  roles: TeamRoleWithCount[];
+  onChanged: () => void;
+}
+
+interface RoleDraft {
+  name: string;
+  description: string;
+  base_role: TenantRole;
+  permissions: Permission[];
+  discount_max_percent: string;
+  discount_max_amount: string;
+}
+
+const inputClass =
+  'w-full h-9 px-3 rounded-lg border border-[var(--border-default)] bg-[var(--surface-base)] text-sm text-[var(--text-primary)] placeholder:text-[var(--text-tertiary)] focus:outline-none focus:ring-2 focus:ring-[var(--accent-primary)]';
+
+const ACCESS_LEVELS: { value: TenantRole; label: string }[] = [
+  { value: 'staff', label: 'Staff' },
+  { value: 'manager', label: 'Manager' },
+  { value: 'admin', label: 'Admin' },
+];
+
+function draftFrom(role: TeamRole | null): RoleDraft {
+  if (!role) {
+    return {
+      name: '',
+      description: '',
+      base_role: 'staff',
+      permissions: getPermissions('staff'),
+      discount_max_percent: '',
+      discount_max_amount: '',
+    };
+  }
+  return {
+    name: role.name,
+    description: role.description || '',
+    base_role: role.base_role,
+    permissions: role.permissions,
+    discount_max_percent: role.discount_max_percent != null ? String(Number(role.discount_max_percent)) : '',
+    discount_max_amount: role.discount_max_amount != null ? String(Number(role.discount_max_amount)) : '',
+  };
+}
+
+export default function TeamRolesSection({ roles, onChanged }: TeamRolesSectionProps) {
+  // Role id being edited, 'new' for a new role
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<RoleDraft>(draftFrom(null));
+  const [saving, setSaving] = useState(false);
+
+  const startEdit = (role: TeamRole | null) => {
+    setEditingId(role ? role.id : 'new');
+    setDraft(draftFrom(role));
+  };
+
+  const togglePermission = (permission: Permission) => {
+    setDraft((d) => ({
+      ...d,
+      permissions: d.permissions.includes(permission)
+        ? d.permissions.filter((p) => p !== permission)
+        : [...d.permissions, permission],
+    }));
+  };
+
+  const save = async (role: TeamRole | null) => {
+    if (!draft.name.trim()) {
+      toast.error('Role name is required');
+      return;
+    }
+    setSaving(true);
+    try {
+      const res = await fetch(role ? `/api/team/roles/${role.id}` : '/api/team/roles', {
+        method: role ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          description: draft.description,
+          ...(role?.system_key ? {} : { base_role: draft.base_role }),
+          permissions: draft.permissions,
+          discount_max_percent: draft.discount_max_percent,
+          discount_max_amount: draft.discount_max_amount,
+        }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to save role');
+        return;
+      }
+      toast.success(role ? 'Role updated' : 'Role created');
+      setEditingId(null);
+      onChanged();
+    } catch {
+      toast.error('Failed to save role');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (role: TeamRoleWithCount) => {
+    const moveTo = ROLE_CONFIG[role.base_role].label;
+    const message = role.member_count > 0
+      ? `Delete the ${role.name} role? Its ${role.member_count} member${role.member_count !== 1 ? 's' : ''} will move to ${moveTo}.`
+      : `Delete the ${role.name} role?`;
+    if (!confirm(message)) return;
+    try {
+      const res = await fetch(`/api/team/roles/${role.id}`, { method: 'DELETE' });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || 'Failed to delete role');
+        return;
+      }
+      toast.success('Role deleted');
+      setEditingId(null);
+      onChanged();
+    } catch {
+      toast.error('Failed to delete role');
+    }
+  };
+
+  const renderEditor = (role: TeamRoleWithCount | null) => (
+    <div className="space-y-4 pt-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-[var(--text-secondary)] mb-1">Name</label>
+          <input
+            className={inputClass}
+            value={draft.name}
+            maxLength={40}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="e.g. Lead Artist"
+          />
+        </div>
+        {!role?.system_key && (
+          <div>
+            <label className="block text-xs font-medium text-[var(--text-secondary)] mb-1">Access level</label>
+            <select
+              className={inputClass}
+              value={draft.base_role}
+              onChange={(e) => setDraft({ ...draft, base_role: e.target.value as TenantRole })}
+            >
+              {ACCESS_LEVELS.map((l) => (
+                <option key={l.value} value={l.value}>{l.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-[var(--text-secondary)] mb-1">Description</label>
+        <input
+          className={inputClass}
+          value={draft.description}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          placeholder="What this role is for (optional)"
+        />
+      </div>
+
+      {PERMISSION_GROUPS.map((group) => (
+        <div key={group.label}>
+          <p className="text-xs font-semibold text-[var(--text-tertiary)] uppercase tracking-wider mb-1.5">{group.label}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1.5">
+            {group.permissions.map((p) => (
+              <label key={p.key} className="flex items-start gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mt-0.5 accent-[var(--accent-primary)]"
+                  checked={draft.permissions.includes(p.key)}
+                  onChange={() => togglePermission(p.key)}
+                />
+                <span>
+                  <span className="block text-sm text-[var(--text-primary)]">{p.label}</span>
+                  <span className="block text-xs text-[var(--text-tertiary)]">{p.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {draft.permissions.includes('discounts:apply') && (
+        <div>
+          <p className="text-xs font-semibold text-[var(--text-tertiary)] uppercase tracking-wider mb-1.5">Discount limit</p>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm text-[var(--text-secondary)]">Up to</span>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="1"
+              className={`${inputClass} w-24`}
+              value={draft.discount_max_percent}
+              onChange={(e) => setDraft({ ...draft, discount_max_percent: e.target.value })}
+              placeholder="Any"
+            />
+            <span className="text-sm text-[var(--text-secondary)]">% and</span>
+            <div className="relative w-28">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-sm text-[var(--text-tertiary)]">$</span>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                className={`${inputClass} pl-6`}
+                value={draft.discount_max_amount}
+                onChange={(e) => setDraft({ ...draft, discount_max_amount: e.target.value })}
+                placeholder="Any"
+              />
+            </div>
+            <span className="text-sm text-[var(--text-secondary)]">per sale</span>
+          </div>
+          <p className="text-xs text-[var(--text-tertiary)] mt-1">Leave blank for no limit.</p>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          {role && !role.system_key && (
+            <Button variant="ghost" size="sm" onClick={() => remove(role)}>
+              <span className="text-error-500">Delete role</span>
+            </Button>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>Cancel</Button>
+          <Button variant="primary" size="sm" onClick={() => save(role)} loading={saving}>
+            {role ? 'Save Role' : 'Create Role'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-semibold text-[var(--text-tertiary)] uppercase tracking-wider">
+          Roles
+        </h4>
+        {editingId !== 'new' && (
+          <Button variant="secondary" size="sm" onClick={() => startEdit(null)}>
+            New Role
+          </Button>
+        )}
+      </div>
+
+      <div className="divide-y divide-[var(--border-subtle)] border border-[var(--border-default)] rounded-xl overflow-hidden">
+        {roles.map((role) => {
+          const fullAccess = role.system_key === 'admin';
+          const count = fullAccess ? ALL_PERMISSIONS.length : role.permissions.length;
+          return (
+            <div key={role.id} className="py-3 px-4 bg-[var(--surface-base)]">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-[var(--text-primary)]">{role.name}</span>
+                    {role.system_key ? (
+                      <Badge variant={ROLE_CONFIG[role.system_key].variant} size="sm">Built-in</Badge>
+                    ) : (
+                      <Badge variant="default" size="sm">{ROLE_CONFIG[role.base_role].label} access</Badge>
+                    )}
+                  </div>
+                  {role.description && (
+                    <p className="text-xs text-[var(--text-secondary)] mt-0.5">{role.description}</p>
+                  )}
+                  <p className="text-xs text-[var(--text-tertiary)] mt-0.5">
+                    {fullAccess ? 'Full access' : `${count} of ${ALL_PERMISSIONS.length} permissions`}
+                    {!fullAccess && role.permissions.includes('discounts:apply') && ` · Discounts: ${discountLimitLabel(role).toLowerCase()}`}
+                    {` · ${role.member_count} member${role.member_count !== 1 ? 's' : ''}`}
+                  </p>
+                </div>
+                {!fullAccess && editingId !== role.id && (
+                  <Button variant="ghost" size="sm" onClick={() => startEdit(role)}>Edit</Button>
+                )}
+              </div>
+              {editingId === role.id && renderEditor(role)}
+            </div>
+          );
+        })}
+        {editingId === 'new' && (
+          <div className="py-3 px-4 bg-[var(--surface-base)]">
+            <span className="text-sm font-medium text-[var(--text-primary)]">New role</span>
+            {renderEditor(null)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,10 +3,20 @@
 // ============================================================================
 // Updated: CartItem now carries _jump_rings_required, _inventory_type, and
 // _material for jump ring auto-deduction at checkout.
+//
+// Sales tax comes from the active tax profile's jurisdiction components
+// (setTaxProfile) or a flat rate (setTaxRate). Lines whose product type is
+// tax-exempt stay out of the taxable base. In tax-inclusive mode the tax is
+// backed out of the prices and `subtotal` is stored net of it, so
+// subtotal − discount + warranty + tax + tip = total holds either way.
+//
+// A loyalty reward (applyLoyaltyReward) is one more discount line, taken
+// after the cart discount and folded into discount_amount.
 // ============================================================================
 
 import { create } from 'zustand';
-import type { CartItem, CartState, PaymentMethod, FeeHandling } from '@/types';
+import { computeSalesTax, taxComponentsOf, type TaxRateComponent } from '@/lib/sales-tax';
+import type { CartItem, CartLoyaltyReward, CartState, PaymentMethod, FeeHandling, TaxProfile } from '@/types';
 
 export interface CartStore extends CartState {
   // Actions
@@ -15,6 +25,7 @@ export interface CartStore extends CartState {
   updateItemQuantity: (id: string, quantity: number) => void;
   updateItemDiscount: (id: string, type: 'flat' | 'percentage' | null, value: number) => void;
   setCartDiscount: (type: 'flat' | 'percentage' | null, value: number) => void;
+  applyLoyaltyReward: (reward: CartLoyaltyReward | null) => void;
   setItemWarranty: (id: string, amount: number) => void;
   removeItemWarranty: (id: string) => void;
   setCartWarranty: (amount: number) => void;
@@ -22,6 +33,9 @@ export interface CartStore extends CartState {
   setWarrantyTaxable: (taxable: boolean) => void;
   setTip: (amount: number) => void;
   setTaxRate: (rate: number) => void;
+  setTaxProfile: (profile: TaxProfile | null) => void;
+  setTaxExemptProductTypes: (productTypeIds: string[]) => void;
+  setTaxInclusive: (inclusive: boolean) => void;
   setPaymentMethod: (method: PaymentMethod) => void;
   setClientId: (id: string | null) => void;
   setNotes: (notes: string) => void;
@@ -35,6 +49,8 @@ export interface CartStore extends CartState {
   _cartDiscountValue: number;
   _cartWarrantyAmount: number;
   _warrantyTaxable: boolean;
+  _taxComponents: TaxRateComponent[];
+  _taxExemptTypeIds: string[];
   recalculate: () => void;
 }
 
@@ -45,12 +61,16 @@ const initialState: CartState = {
   warranty_amount: 0,
   tax_rate: 0,
   tax_amount: 0,
+  tax_lines: [],
+  tax_inclusive: false,
   tip_amount: 0,
   platform_fee_amount: 0,
   total: 0,
   payment_method: null,
   client_id: null,
   notes: '',
+  loyalty_reward: null,
+  loyalty_discount_amount: 0,
 };
 
 function calcLineTotal(item: Omit<CartItem, 'id' | 'line_total' | 'warranty_amount'> & { warranty_amount?: number }): number {
@@ -73,6 +93,8 @@ export const useCartStore = create<CartStore>((set, get) => ({
   _cartDiscountValue: 0,
   _cartWarrantyAmount: 0,
   _warrantyTaxable: true,
+  _taxComponents: [],
+  _taxExemptTypeIds: [],
 
   addItem: (item) => {
     const lineTotal = calcLineTotal(item);
@@ -132,6 +154,11 @@ export const useCartStore = create<CartStore>((set, get) => ({
     get().recalculate();
   },
 
+  applyLoyaltyReward: (reward) => {
+    set({ loyalty_reward: reward });
+    get().recalculate();
+  },
+
   setItemWarranty: (id, amount) => {
     set((s) => ({
       items: s.items.map((i) => (i.id === id ? { ...i, warranty_amount: amount } : i)),
@@ -167,12 +194,32 @@ export const useCartStore = create<CartStore>((set, get) => ({
   },
 
   setTaxRate: (rate) => {
-    set({ tax_rate: rate });
+    set({ tax_rate: rate, _taxComponents: [] } as any);
+    get().recalculate();
+  },
+
+  setTaxProfile: (profile) => {
+    set({ tax_rate: Number(profile?.rate) || 0, _taxComponents: taxComponentsOf(profile) } as any);
+    get().recalculate();
+  },
+
+  setTaxExemptProductTypes: (productTypeIds) => {
+    set({ _taxExemptTypeIds: productTypeIds } as any);
+    get().recalculate();
+  },
+
+  setTaxInclusive: (inclusive) => {
+    set({ tax_inclusive: inclusive });
     get().recalculate();
   },
 
   setPaymentMethod: (method) => set({ payment_method: method }),
-  setClientId: (id) => set({ client_id: id }),
+  setClientId: (id) => {
+    // A reward belongs to the client whose points pay for it
+    const reward = get().loyalty_reward;
+    set({ client_id: id });
+    if (reward && reward.client_id !== id) get().applyLoyaltyReward(null);
+  },
   setNotes: (notes) => set({ notes }),
 
   setPlatformFeeRate: (rate) => {
@@ -197,6 +244,17 @@ export const useCartStore = create<CartStore>((set, get) => ({
       discount_amount = Math.round(itemSubtotal * (state._cartDiscountValue / 100) * 100) / 100;
     }
 
+    // Loyalty reward comes off what the cart discount leaves
+    let loyalty_discount_amount = 0;
+    const reward = state.loyalty_reward;
+    if (reward) {
+      const remaining = Math.max(0, itemSubtotal - discount_amount);
+      loyalty_discount_amount = reward.discount_type === 'flat'
+        ? Math.min(reward.discount_value, remaining)
+        : Math.round(remaining * (reward.discount_value / 100) * 100) / 100;
+      discount_amount = Math.round((discount_amount + loyalty_discount_amount) * 100) / 100;
+    }
+
     // Also include per-item discounts that reduce line_total below gross
     // (already factored into line_total, so itemSubtotal is already net of item discounts)
     // Cart-level discount is additional on top of that
@@ -206,14 +264,23 @@ export const useCartStore = create<CartStore>((set, get) => ({
     const itemWarrantyTotal = state.items.reduce((sum, i) => sum + (i.warranty_amount || 0), 0);
     const totalWarranty = itemWarrantyTotal + (state._cartWarrantyAmount || 0);
 
-    // Tax calculation — include warranty in taxable base if warranty_taxable
-    let taxable = subtotal;
+    // Tax calculation — exempt product types stay out of the base (with
+    // their share of the cart discount); include warranty if warranty_taxable
+    const exemptSubtotal = state.items
+      .filter((i) => i.product_type_id && state._taxExemptTypeIds.includes(i.product_type_id))
+      .reduce((sum, i) => sum + i.line_total, 0);
+    let taxable = itemSubtotal > 0 ? subtotal * (1 - exemptSubtotal / itemSubtotal) : 0;
     if (state._warrantyTaxable && totalWarranty > 0) {
       taxable += totalWarranty;
     }
-    const tax_amount = Math.round(taxable * state.tax_rate * 100) / 100;
+    const components: TaxRateComponent[] = state._taxComponents.length > 0
+      ? state._taxComponents
+      : [{ id: null, name: 'Sales tax', jurisdiction_type: 'other', rate: state.tax_rate }];
+    const { tax: tax_amount, lines: tax_lines } = computeSalesTax(taxable, components, state.tax_inclusive);
 
-    const preTotal = subtotal + totalWarranty + tax_amount + state.tip_amount;
+    // Tax-inclusive prices already carry the tax — back it out of the subtotal
+    const storedSubtotal = state.tax_inclusive ? Math.round((itemSubtotal - tax_amount) * 100) / 100 : itemSubtotal;
+    const preTotal = subtotal + totalWarranty + (state.tax_inclusive ? 0 : tax_amount) + state.tip_amount;
 
     let platform_fee_amount = 0;
     if (state._platformFeeRate > 0) {
@@ -223,11 +290,14 @@ export const useCartStore = create<CartStore>((set, get) => ({
     // Fee is always absorbed — deducted from artist's Stripe payout, never shown to customer
     const total = preTotal;
 
-    set({ subtotal: itemSubtotal, discount_amount, warranty_amount: totalWarranty, tax_amount, platform_fee_amount, total });
+    set({ subtotal: storedSubtotal, discount_amount, loyalty_discount_amount, warranty_amount: totalWarranty, tax_amount, tax_lines, platform_fee_amount, total });
   },
 
   reset: () => set({
     ...initialState,
+    // Tax settings belong to the register/event, not the sale
+    tax_rate: get().tax_rate,
+    tax_inclusive: get().tax_inclusive,
     _cartDiscountType: null,
     _cartDiscountValue: 0,
     _cartWarrantyAmount: 0,
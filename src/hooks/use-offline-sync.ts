@@ -0,0 +1,95 @@
+// ============================================================================
+// Offline Sync Hook — src/hooks/use-offline-sync.ts
+// ============================================================================
+// Tracks connectivity and the Event Mode offline sale queue. Replays queued
+// sales automatically when the browser comes back online.
+// Exposes: online, queuedSales, pendingCount, conflictCount, syncing,
+// syncNow, refresh, dismiss
+// ============================================================================
+
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import { createClient } from '@/lib/supabase/client';
+import {
+  dismissQueuedSale,
+  getQueuedSales,
+  isOfflineStorageAvailable,
+  syncQueuedSales,
+  type QueuedSale,
+  type SyncOptions,
+} from '@/lib/offline-sales';
+
+export function useOfflineSync(eventId: string | null, options: SyncOptions & { onSynced?: () => void } = {}) {
+  const [online, setOnline] = useState(true);
+  const [queuedSales, setQueuedSales] = useState<QueuedSale[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const refresh = useCallback(async () => {
+    if (!eventId || !isOfflineStorageAvailable()) return;
+    try {
+      setQueuedSales(await getQueuedSales(eventId));
+    } catch (err) {
+      console.error('[Offline] Failed to read sale queue:', err);
+    }
+  }, [eventId]);
+
+  const syncNow = useCallback(async () => {
+    if (syncingRef.current || !isOfflineStorageAvailable() || !navigator.onLine) return;
+    syncingRef.current = true;
+    setSyncing(true);
+    try {
+      const result = await syncQueuedSales(createClient(), {
+        resolveClientId: optionsRef.current.resolveClientId,
+      });
+      if (result.synced > 0) {
+        toast.success(`Synced ${result.synced} offline sale${result.synced === 1 ? '' : 's'}`);
+        optionsRef.current.onSynced?.();
+      }
+      if (result.conflicts > 0) {
+        toast.warning(`${result.conflicts} synced sale${result.conflicts === 1 ? '' : 's'} sold more stock than was on hand`, { duration: 8000 });
+      }
+      if (result.failed > 0) {
+        toast.error(`${result.failed} offline sale${result.failed === 1 ? '' : 's'} could not be synced — will retry`);
+      }
+    } catch (err) {
+      console.error('[Offline] Sync failed:', err);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      refresh();
+    }
+  }, [refresh]);
+
+  const dismiss = useCallback(async (clientSaleId: string) => {
+    await dismissQueuedSale(clientSaleId);
+    refresh();
+  }, [refresh]);
+
+  // Connectivity tracking — replay the queue as soon as we're back online
+  useEffect(() => {
+    setOnline(navigator.onLine);
+    const goOnline = () => { setOnline(true); syncNow(); };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+    };
+  }, [syncNow]);
+
+  // Pick up sales left over from a previous session
+  useEffect(() => {
+    refresh().then(() => { if (navigator.onLine) syncNow(); });
+  }, [refresh, syncNow]);
+
+  const pendingCount = queuedSales.filter((s) => s.status !== 'synced').length;
+  const conflictCount = queuedSales.filter((s) => s.status === 'synced' && s.conflicts.length > 0).length;
+
+  return { online, queuedSales, pendingCount, conflictCount, syncing, syncNow, refresh, dismiss };
+}
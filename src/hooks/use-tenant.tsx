@@ -3,7 +3,7 @@
 // ============================================================================
 // Provides tenant + membership context across the app.
 // On login: auto-accepts any pending team invites matching the user's email.
-// Exposes: tenant, membership, isLoading, isAdmin, isOwner, role, can(), refetch
+// Exposes: tenant, membership, isLoading, isAdmin, isOwner, role, grant, can(), refetch
 // ============================================================================
 
 'use client';
@@ -18,7 +18,7 @@ import {
   type ReactNode,
 } from 'react';
 import { createClient } from '@/lib/supabase/client';
-import { hasPermission, type Permission, type TenantRole } from '@/lib/permissions';
+import { hasPermission, roleGrant, type Permission, type RoleGrant, type TenantRole } from '@/lib/permissions';
 import { initPushNotifications } from '@/lib/push-notifications';
 import type { Tenant, TenantMember } from '@/types';
 
@@ -29,6 +29,8 @@ interface TenantContextValue {
   isAdmin: boolean;
   isOwner: boolean;
   role: TenantRole | null;
+  /** The member's team role permissions and discount limits */
+  grant: RoleGrant | null;
   can: (permission: Permission) => boolean;
   refetch: () => Promise<void>;
 }
@@ -40,6 +42,7 @@ const TenantContext = createContext<TenantContextValue>({
   isAdmin: false,
   isOwner: false,
   role: null,
+  grant: null,
   can: () => false,
   refetch: async () => {},
 });
@@ -73,7 +76,7 @@ export function TenantProvider({ children }: { children: ReactNode }) {
       // ── Look for existing membership ────────────────────────────────
       const { data: memberData } = await supabase
         .from('tenant_members')
-        .select('*, tenants(*)')
+        .select('*, tenants(*), team_role:team_roles(*)')
         .eq('user_id', user.id)
         .not('accepted_at', 'is', null)
         .limit(1)
@@ -90,7 +93,7 @@ export function TenantProvider({ children }: { children: ReactNode }) {
       await new Promise((resolve) => setTimeout(resolve, 500));
       const { data: retryData } = await supabase
         .from('tenant_members')
-        .select('*, tenants(*)')
+        .select('*, tenants(*), team_role:team_roles(*)')
         .eq('user_id', user.id)
         .not('accepted_at', 'is', null)
         .limit(1)
@@ -142,19 +145,23 @@ export function TenantProvider({ children }: { children: ReactNode }) {
     ? 'admin'
     : (membership?.role as TenantRole) || null;
   const isAdmin = isOwner || role === 'admin';
+  const grant = useMemo<RoleGrant | null>(() => {
+    if (isOwner) return roleGrant({ role: 'admin' });
+    return membership ? roleGrant(membership) : null;
+  }, [isOwner, membership]);
 
   const can = useCallback(
     (permission: Permission): boolean => {
       if (isOwner) return true; // owners can do everything
-      if (!role) return false;
-      return hasPermission(role, permission);
+      if (!grant) return false;
+      return hasPermission(grant, permission);
     },
-    [isOwner, role]
+    [isOwner, grant]
   );
 
   // Memoize context value to prevent cascading re-renders of all consumers.
   // NOTE: `can` and `fetchTenant` are excluded from deps because they are
-  // already derived from values in the array (isOwner, role, supabase).
+  // already derived from values in the array (isOwner, membership, supabase).
   // Including them caused React Error #310 (infinite re-renders) on hard
   // navigation because the new component tree would mount with fresh refs.
   // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -165,9 +172,10 @@ export function TenantProvider({ children }: { children: ReactNode }) {
     isAdmin,
     isOwner,
     role,
+    grant,
     can,
     refetch: fetchTenant,
-  }), [tenant, membership, isLoading, isAdmin, isOwner, role]);
+  }), [tenant, membership, isLoading, isAdmin, isOwner, role, grant]);
 
   return (
     <TenantContext.Provider value={contextValue}>
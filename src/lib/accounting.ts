@@ -0,0 +1,424 @@
+// ============================================================================
+// Accounting Export — src/lib/accounting.ts
+// ============================================================================
+// Turns a period's activity into one balanced journal entry per local day,
+// ready to import into QuickBooks (Desktop IIF or Online CSV) or Xero
+// (manual journal CSV).
+//
+// Each source row posts matched debit/credit pairs in integer cents, so
+// every day balances by construction:
+//   sales     — tender (or gift card) / sales, discounts, warranty, tax, tips
+//   fees      — platform fees / card clearing (Stripe payouts) or payable
+//   COGS      — layered cost_snapshot (chain_material_cost on older sales)
+//               + jump_ring_cost snapshotted on the line
+//   refunds   — refunds / tender + gift card credit; COGS reversal
+//   gift card — issue without a sale, expiry (breakage), manual adjustments
+//   expenses  — expense account by category / expense offset
+// Gift card purchase sales credit the gift card liability, not sales.
+//
+// Account names and codes come from tenants.accounting_accounts, falling
+// back to ACCOUNT_DEFINITIONS. Expense categories can be mapped one by one
+// ("expense:<Category>"); unmapped ones use the general expense account.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { selectAll } from '@/lib/supabase/select-all';
+import { toLocalDateString } from '@/lib/timezone';
+import { saleItemMaterialCost } from '@/lib/cost-layers';
+
+// ============================================================================
+// Chart of accounts
+// ============================================================================
+
+export type AccountKey =
+  | 'cash'
+  | 'card_clearing'
+  | 'venmo_clearing'
+  | 'sales'
+  | 'discounts'
+  | 'warranty_revenue'
+  | 'sales_tax'
+  | 'tips'
+  | 'platform_fees'
+  | 'platform_fees_payable'
+  | 'refunds'
+  | 'cogs'
+  | 'inventory'
+  | 'gift_card_liability'
+  | 'gift_card_breakage'
+  | 'gift_card_adjustments'
+  | 'expenses'
+  | 'expense_offset';
+
+export interface AccountRef {
+  name: string;
+  /** Xero account code; QuickBooks matches on name */
+  code: string;
+}
+
+export type AccountMap = Record<string, AccountRef>;
+
+export const ACCOUNT_DEFINITIONS: { key: AccountKey; label: string; defaults: AccountRef }[] = [
+  { key: 'cash', label: 'Cash payments', defaults: { name: 'Cash on Hand', code: '1000' } },
+  { key: 'card_clearing', label: 'Card payments (Stripe, external card)', defaults: { name: 'Card Payments Clearing', code: '1010' } },
+  { key: 'venmo_clearing', label: 'Venmo payments', defaults: { name: 'Venmo Clearing', code: '1020' } },
+  { key: 'inventory', label: 'Inventory', defaults: { name: 'Inventory Asset', code: '1200' } },
+  { key: 'gift_card_liability', label: 'Gift card liability', defaults: { name: 'Gift Card Liability', code: '2100' } },
+  { key: 'sales_tax', label: 'Sales tax collected', defaults: { name: 'Sales Tax Payable', code: '2200' } },
+  { key: 'tips', label: 'Tips owed to staff', defaults: { name: 'Tips Payable', code: '2300' } },
+  { key: 'platform_fees_payable', label: 'Platform fees not taken from payouts', defaults: { name: 'Platform Fees Payable', code: '2400' } },
+  { key: 'sales', label: 'Sales', defaults: { name: 'Sales', code: '4000' } },
+  { key: 'warranty_revenue', label: 'Warranty revenue', defaults: { name: 'Warranty Revenue', code: '4010' } },
+  { key: 'discounts', label: 'Discounts given', defaults: { name: 'Discounts Given', code: '4900' } },
+  { key: 'refunds', label: 'Refunds given', defaults: { name: 'Refunds Given', code: '4910' } },
+  { key: 'gift_card_breakage', label: 'Gift card breakage (expired balances)', defaults: { name: 'Gift Card Breakage Income', code: '4800' } },
+  { key: 'gift_card_adjustments', label: 'Gift card adjustments & cancellations', defaults: { name: 'Gift Card Adjustments', code: '4810' } },
+  { key: 'cogs', label: 'Cost of goods sold', defaults: { name: 'Cost of Goods Sold', code: '5000' } },
+  { key: 'platform_fees', label: 'Platform fees', defaults: { name: 'Platform Fees', code: '6100' } },
+  { key: 'expenses', label: 'Expenses (unmapped categories)', defaults: { name: 'Business Expenses', code: '6000' } },
+  { key: 'expense_offset', label: 'Expenses paid from', defaults: { name: 'Owner Contributions', code: '3100' } },
+];
+
+const DEFAULT_ACCOUNTS = new Map<string, AccountRef>(ACCOUNT_DEFINITIONS.map((d) => [d.key, d.defaults]));
+
+/** Mapping key for one expense category. */
+export function expenseAccountKey(category: string): string {
+  return `expense:${category}`;
+}
+
+/** The tenant's account for `key`, or the built-in default. */
+export function resolveAccount(accounts: AccountMap | null | undefined, key: string): AccountRef {
+  const custom = accounts?.[key];
+  const fallback = DEFAULT_ACCOUNTS.get(key) || DEFAULT_ACCOUNTS.get('expenses')!;
+  return {
+    name: custom?.name?.trim() || fallback.name,
+    code: custom?.code?.trim() || fallback.code,
+  };
+}
+
+// ============================================================================
+// Journal
+// ============================================================================
+
+export interface JournalLine {
+  key: string;
+  account: AccountRef;
+  debit: number;
+  credit: number;
+}
+
+export interface JournalEntry {
+  /** Local YYYY-MM-DD */
+  date: string;
+  memo: string;
+  lines: JournalLine[];
+}
+
+export interface JournalSource {
+  sales: {
+    id: string;
+    created_at: string;
+    payment_method: string;
+    subtotal: number;
+    discount_amount: number;
+    tax_amount: number;
+    tip_amount: number;
+    warranty_amount: number;
+    platform_fee_amount: number;
+    fee_handling: string | null;
+    total: number;
+    gift_card_amount_applied: number | null;
+    sale_items: { cost_snapshot: number | null; chain_material_cost: number | null; jump_ring_cost: number | null }[];
+  }[];
+  refunds: {
+    id: string;
+    created_at: string;
+    amount: number;
+    gift_card_amount: number;
+    payment_method: string | null;
+    sale: { payment_method: string } | null;
+    refund_items: { cogs_reversed: number | null }[];
+  }[];
+  expenses: { id: string; date: string; amount: number; category: string }[];
+  /** Cards sold without a sale record (cash/Venmo from the gift card modal) */
+  giftCardsIssued: { id: string; purchased_at: string; amount: number; payment_method: string | null }[];
+  giftCardLedger: { id: string; occurred_at: string; entry_type: string; amount: number }[];
+  /** Sales that paid for a gift card — their subtotal is a liability, not revenue */
+  giftCardSaleIds: Set<string>;
+}
+
+const cents = (n: number | null | undefined) => Math.round((Number(n) || 0) * 100);
+
+function tenderKey(paymentMethod: string | null | undefined): AccountKey {
+  if (paymentMethod === 'cash') return 'cash';
+  if (paymentMethod === 'venmo') return 'venmo_clearing';
+  if (paymentMethod === 'gift_card') return 'gift_card_liability';
+  return 'card_clearing';
+}
+
+/**
+ * Summarise the source rows into one journal entry per local day. Days with
+ * no activity are omitted; days are in ascending order.
+ */
+export function buildJournal(source: JournalSource, accounts: AccountMap | null, timeZone: string): JournalEntry[] {
+  // date → account key → net cents (debit positive)
+  const days = new Map<string, Map<string, number>>();
+
+  /** Debit `debitKey` and credit `creditKey` by `amount` cents (negative swaps sides). */
+  const post = (date: string, debitKey: string, creditKey: string, amount: number) => {
+    if (!amount) return;
+    let day = days.get(date);
+    if (!day) days.set(date, (day = new Map()));
+    day.set(debitKey, (day.get(debitKey) || 0) + amount);
+    day.set(creditKey, (day.get(creditKey) || 0) - amount);
+  };
+
+  for (const sale of source.sales) {
+    const date = toLocalDateString(new Date(sale.created_at), timeZone);
+    const total = cents(sale.total);
+    const giftCard = sale.payment_method === 'gift_card' ? total : Math.min(cents(sale.gift_card_amount_applied), total);
+    const tender = tenderKey(sale.payment_method === 'gift_card' ? 'cash' : sale.payment_method);
+    const revenueKey = source.giftCardSaleIds.has(sale.id) ? 'gift_card_liability' : 'sales';
+
+    // What the customer paid, against what it paid for
+    const subtotal = cents(sale.subtotal);
+    const discount = cents(sale.discount_amount);
+    const warranty = cents(sale.warranty_amount);
+    const tax = cents(sale.tax_amount);
+    const tip = cents(sale.tip_amount);
+    post(date, tender, revenueKey, total - giftCard);
+    post(date, 'gift_card_liability', revenueKey, giftCard);
+    post(date, revenueKey, 'warranty_revenue', warranty);
+    post(date, revenueKey, 'sales_tax', tax);
+    post(date, revenueKey, 'tips', tip);
+    post(date, 'discounts', revenueKey, discount);
+
+    // Anything left in the total beyond its parts is a fee the customer
+    // covered (pass_to_customer) — it offsets the platform fee below
+    const residual = total - (subtotal - discount + warranty + tax + tip);
+    if (residual && sale.fee_handling === 'pass_to_customer') {
+      post(date, revenueKey, 'platform_fees', residual);
+    }
+
+    const fee = cents(sale.platform_fee_amount);
+    post(date, 'platform_fees', sale.payment_method === 'stripe_link' ? 'card_clearing' : 'platform_fees_payable', fee);
+
+    const cogs = (sale.sale_items || []).reduce((sum, item) => sum + cents(saleItemMaterialCost(item)) + cents(item.jump_ring_cost), 0);
+    post(date, 'cogs', 'inventory', cogs);
+  }
+
+  for (const refund of source.refunds) {
+    const date = toLocalDateString(new Date(refund.created_at), timeZone);
+    const amount = cents(refund.amount);
+    const giftCard = Math.min(cents(refund.gift_card_amount), amount);
+    post(date, 'refunds', 'gift_card_liability', giftCard);
+    post(date, 'refunds', tenderKey(refund.payment_method || refund.sale?.payment_method), amount - giftCard);
+
+    const reversed = (refund.refund_items || []).reduce((sum, item) => sum + cents(item.cogs_reversed), 0);
+    post(date, 'inventory', 'cogs', reversed);
+  }
+
+  for (const card of source.giftCardsIssued) {
+    const date = toLocalDateString(new Date(card.purchased_at), timeZone);
+    post(date, tenderKey(card.payment_method), 'gift_card_liability', cents(card.amount));
+  }
+
+  for (const entry of source.giftCardLedger) {
+    const date = toLocalDateString(new Date(entry.occurred_at), timeZone);
+    // Ledger amounts are signed against the liability (negative = lowered)
+    if (entry.entry_type === 'expire') post(date, 'gift_card_liability', 'gift_card_breakage', -cents(entry.amount));
+    if (entry.entry_type === 'adjust') post(date, 'gift_card_adjustments', 'gift_card_liability', cents(entry.amount));
+  }
+
+  for (const expense of source.expenses) {
+    const categoryKey = expenseAccountKey(expense.category);
+    const key = accounts?.[categoryKey]?.name?.trim() ? categoryKey : 'expenses';
+    post(expense.date, key, 'expense_offset', cents(expense.amount));
+  }
+
+  return [...days.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, balances]) => {
+      // Accounts that resolve to the same name/code are merged into one line
+      const merged = new Map<string, JournalLine & { net: number }>();
+      for (const [key, net] of balances) {
+        if (!net) continue;
+        const account = resolveAccount(accounts, key);
+        const id = `${account.code}|${account.name}`;
+        const line = merged.get(id) || { key, account, debit: 0, credit: 0, net: 0 };
+        line.net += net;
+        merged.set(id, line);
+      }
+      const lines = [...merged.values()]
+        .filter((l) => l.net !== 0)
+        .map(({ net, ...l }) => ({ ...l, debit: net > 0 ? net / 100 : 0, credit: net < 0 ? -net / 100 : 0 }))
+        .sort((a, b) => b.debit - a.debit || a.credit - b.credit);
+      return { date, memo: `Sunstone daily summary ${date}`, lines };
+    })
+    .filter((entry) => entry.lines.length > 0);
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Everything that posts between `start` (inclusive) and `end` (exclusive).
+ * `fromDate`/`toDate` are the same period as local dates, for expenses.
+ */
+export async function loadJournalSource(
+  supabase: SupabaseClient,
+  tenantId: string,
+  period: { start: Date; end: Date; fromDate: string; toDate: string },
+): Promise<JournalSource> {
+  const start = period.start.toISOString();
+  const end = period.end.toISOString();
+
+  const [sales, refunds, expenses, giftCardsIssued, giftCardLedger, giftCardSales] = await Promise.all([
+    selectAll<JournalSource['sales'][number]>((from, to) =>
+      supabase
+        .from('sales')
+        .select('id, created_at, payment_method, subtotal, discount_amount, tax_amount, tip_amount, warranty_amount, platform_fee_amount, fee_handling, total, gift_card_amount_applied, sale_items(cost_snapshot, chain_material_cost, jump_ring_cost)')
+        .eq('tenant_id', tenantId)
+        .eq('status', 'completed')
+        .gte('created_at', start)
+        .lt('created_at', end)
+        .order('id')
+        .range(from, to)
+    ),
+    selectAll<JournalSource['refunds'][number]>((from, to) =>
+      supabase
+        .from('refunds')
+        .select('id, created_at, amount, gift_card_amount, payment_method, sale:sales(payment_method), refund_items(cogs_reversed)')
+        .eq('tenant_id', tenantId)
+        .gte('created_at', start)
+        .lt('created_at', end)
+        .order('id')
+        .range(from, to) as unknown as PromiseLike<{ data: JournalSource['refunds'] | null; error: { message: string } | null }>
+    ),
+    selectAll<JournalSource['expenses'][number]>((from, to) =>
+      supabase
+        .from('expenses')
+        .select('id, date, amount, category')
+        .eq('tenant_id', tenantId)
+        .gte('date', period.fromDate)
+        .lte('date', period.toDate)
+        .order('id')
+        .range(from, to)
+    ),
+    selectAll<JournalSource['giftCardsIssued'][number]>((from, to) =>
+      supabase
+        .from('gift_cards')
+        .select('id, purchased_at, amount, payment_method')
+        .eq('tenant_id', tenantId)
+        .is('sale_id', null)
+        .gte('purchased_at', start)
+        .lt('purchased_at', end)
+        .order('id')
+        .range(from, to)
+    ),
+    selectAll<JournalSource['giftCardLedger'][number]>((from, to) =>
+      supabase
+        .from('gift_card_ledger')
+        .select('id, occurred_at, entry_type, amount')
+        .eq('tenant_id', tenantId)
+        .in('entry_type', ['expire', 'adjust'])
+        .gte('occurred_at', start)
+        .lt('occurred_at', end)
+        .order('id')
+        .range(from, to)
+    ),
+    selectAll<{ sale_id: string }>((from, to) =>
+      supabase
+        .from('gift_cards')
+        .select('sale_id')
+        .eq('tenant_id', tenantId)
+        .not('sale_id', 'is', null)
+        .order('id')
+        .range(from, to)
+    ),
+  ]);
+
+  return {
+    sales,
+    refunds,
+    expenses,
+    giftCardsIssued,
+    giftCardLedger,
+    giftCardSaleIds: new Set(giftCardSales.map((g) => g.sale_id)),
+  };
+}
+
+// ============================================================================
+// File formats
+// ============================================================================
+
+export type ExportFormat = 'qb_iif' | 'qb_csv' | 'xero_csv';
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'qb_iif', label: 'QuickBooks Desktop (.iif)', extension: 'iif', mimeType: 'text/plain' },
+  { value: 'qb_csv', label: 'QuickBooks Online (journal CSV)', extension: 'csv', mimeType: 'text/csv' },
+  { value: 'xero_csv', label: 'Xero (manual journal CSV)', extension: 'csv', mimeType: 'text/csv' },
+];
+
+/** 2026-10-19 → 10/19/2026 (US formats for both QuickBooks and Xero US) */
+function usDate(date: string): string {
+  const [y, m, d] = date.split('-');
+  return `${m}/${d}/${y}`;
+}
+
+const csvCell = (value: string | number) => `"${String(value).replace(/"/g, '""')}"`;
+const iifCell = (value: string | number) => String(value).replace(/[\t\r\n]+/g, ' ');
+const journalNumber = (date: string) => `SPJ-${date.replace(/-/g, '')}`;
+
+export function formatJournal(entries: JournalEntry[], format: ExportFormat): string {
+  if (format === 'qb_iif') {
+    // Debits positive, credits negative; first line TRNS, the rest SPL
+    const rows = [
+      ['!TRNS', 'TRNSTYPE', 'DATE', 'ACCNT', 'AMOUNT', 'DOCNUM', 'MEMO'],
+      ['!SPL', 'TRNSTYPE', 'DATE', 'ACCNT', 'AMOUNT', 'DOCNUM', 'MEMO'],
+      ['!ENDTRNS'],
+    ];
+    for (const entry of entries) {
+      entry.lines.forEach((line, i) => {
+        const amount = line.debit ? line.debit.toFixed(2) : (-line.credit).toFixed(2);
+        rows.push([i === 0 ? 'TRNS' : 'SPL', 'GENERAL JOURNAL', usDate(entry.date), line.account.name, amount, journalNumber(entry.date), entry.memo]);
+      });
+      rows.push(['ENDTRNS']);
+    }
+    return rows.map((r) => r.map(iifCell).join('\t')).join('\r\n') + '\r\n';
+  }
+
+  if (format === 'qb_csv') {
+    const rows: (string | number)[][] = [['Journal No', 'Journal Date', 'Account Name', 'Debits', 'Credits', 'Description']];
+    for (const entry of entries) {
+      for (const line of entry.lines) {
+        rows.push([
+          journalNumber(entry.date),
+          usDate(entry.date),
+          line.account.name,
+          line.debit ? line.debit.toFixed(2) : '',
+          line.credit ? line.credit.toFixed(2) : '',
+          entry.memo,
+        ]);
+      }
+    }
+    return rows.map((r) => r.map(csvCell).join(',')).join('\n') + '\n';
+  }
+
+  // Xero manual journal import: signed amounts, debit positive
+  const rows: (string | number)[][] = [['*Narration', '*Date', 'Description', '*AccountCode', '*TaxRate', '*Amount']];
+  for (const entry of entries) {
+    for (const line of entry.lines) {
+      rows.push([
+        entry.memo,
+        usDate(entry.date),
+        line.account.name,
+        line.account.code || line.account.name,
+        'Tax Exempt',
+        (line.debit ? line.debit : -line.credit).toFixed(2),
+      ]);
+    }
+  }
+  return rows.map((r) => r.map(csvCell).join(',')).join('\n') + '\n';
+}
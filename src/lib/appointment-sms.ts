@@ -0,0 +1,94 @@
+// ============================================================================
+// Appointment SMS — src/lib/appointment-sms.ts
+// ============================================================================
+// Server-only senders for appointment confirmations and reminders. Only
+// texts customers who opted in at booking; logs cost and message_log like
+// the queue position notifier.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { sendSMS } from '@/lib/twilio';
+import { logSmsCost } from '@/lib/cost-tracker';
+import {
+  appointmentConfirmationMessage,
+  appointmentReminderMessage,
+} from '@/lib/appointments';
+
+interface AppointmentForSms {
+  id: string;
+  tenant_id: string;
+  customer_name: string;
+  customer_phone: string;
+  starts_at: string;
+  sms_consent: boolean;
+}
+
+async function send(
+  db: SupabaseClient,
+  appointment: AppointmentForSms,
+  body: string,
+  source: 'appointment_confirmation' | 'appointment_reminder'
+): Promise<boolean> {
+  if (!appointment.sms_consent || !appointment.customer_phone) return false;
+
+  const sid = await sendSMS({ to: appointment.customer_phone, body, tenantId: appointment.tenant_id });
+  if (!sid) return false;
+
+  logSmsCost({ tenantId: appointment.tenant_id, operation: `sms_${source}` });
+
+  db.from('message_log').insert({
+    tenant_id: appointment.tenant_id,
+    direction: 'outbound',
+    channel: 'sms',
+    recipient_phone: appointment.customer_phone,
+    body,
+    source,
+    status: 'sent',
+  }).then(null, () => {});
+
+  return true;
+}
+
+export function sendAppointmentConfirmation(
+  db: SupabaseClient,
+  appointment: AppointmentForSms,
+  tenant: { name: string },
+  timeZone: string
+): Promise<boolean> {
+  const body = appointmentConfirmationMessage({
+    customerName: appointment.customer_name,
+    tenantName: tenant.name,
+    startsAt: appointment.starts_at,
+    timeZone,
+  });
+  return send(db, appointment, body, 'appointment_confirmation');
+}
+
+export function sendAppointmentReminder(
+  db: SupabaseClient,
+  appointment: AppointmentForSms,
+  tenant: { name: string },
+  timeZone: string
+): Promise<boolean> {
+  const body = appointmentReminderMessage({
+    customerName: appointment.customer_name,
+    tenantName: tenant.name,
+    startsAt: appointment.starts_at,
+    timeZone,
+  });
+  return send(db, appointment, body, 'appointment_reminder');
+}
+
+/** Heads-up text to the artist's own phone about a new booking. */
+export function notifyArtistOfBooking(
+  tenant: { id: string; phone: string | null },
+  message: string
+): void {
+  if (!tenant.phone) return;
+  sendSMS({
+    to: tenant.phone,
+    body: message,
+    tenantId: tenant.id,
+    skipConsentCheck: true,
+  }).catch(() => {});
+}
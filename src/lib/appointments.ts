@@ -0,0 +1,279 @@
+// ============================================================================
+// Appointments — src/lib/appointments.ts
+// ============================================================================
+// Slot math, store check-in and SMS copy for Store Mode appointment booking.
+//
+// A slot is open for a team member when it fits inside one of their weekly
+// availability windows, no blackout covers the day, it's at least
+// min-notice hours out, and it doesn't come within the buffer of another
+// live booking. Length = avg_service_minutes × pieces. All wall-clock times
+// are in the tenant's time zone (lib/timezone).
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  resolveTimeZone,
+  toLocalDateString,
+  zonedTimeToUtc,
+} from '@/lib/timezone';
+import type { AppointmentStatus } from '@/types';
+
+
+/** Statuses that hold a spot on the calendar. */
+export const LIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = ['pending_deposit', 'confirmed', 'checked_in'];
+
+/** Tenant columns needed for booking. */
+export const APPOINTMENT_SETTINGS_COLUMNS =
+  'id, name, slug, phone, time_zone, avg_service_minutes, appointments_enabled, appointment_buffer_minutes, appointment_slot_interval_minutes, appointment_min_notice_hours, appointment_max_days_ahead, appointment_max_pieces, appointment_deposit_amount';
+
+export interface AppointmentSettings {
+  time_zone?: string | null;
+  avg_service_minutes: number | null;
+  appointments_enabled: boolean;
+  appointment_buffer_minutes: number;
+  appointment_slot_interval_minutes: number;
+  appointment_min_notice_hours: number;
+  appointment_max_days_ahead: number;
+  appointment_max_pieces: number;
+  appointment_deposit_amount: number;
+}
+
+export interface AvailabilityWindow {
+  member_id: string;
+  /** 0 = Sunday */
+  weekday: number;
+  /** HH:MM or HH:MM:SS, tenant-local */
+  start_time: string;
+  end_time: string;
+}
+
+export interface BlackoutRange {
+  /** null = whole studio */
+  member_id: string | null;
+  start_date: string;
+  end_date: string;
+}
+
+export interface BookedBlock {
+  member_id: string | null;
+  starts_at: string;
+  ends_at: string;
+}
+
+export interface AppointmentSlot {
+  starts_at: string;
+  ends_at: string;
+  /** Team members free for this slot */
+  member_ids: string[];
+}
+
+/** Minutes an appointment of `pieces` pieces takes. */
+export function appointmentDurationMinutes(settings: Pick<AppointmentSettings, 'avg_service_minutes'>, pieces: number): number {
+  const perPiece = settings.avg_service_minutes && settings.avg_service_minutes > 0 ? settings.avg_service_minutes : 10;
+  return perPiece * Math.max(1, Math.floor(pieces));
+}
+
+function timeToMinutes(time: string): number {
+  const [h, m] = time.split(':').map((n) => parseInt(n, 10));
+  return h * 60 + (m || 0);
+}
+
+function addDays(dateStr: string, days: number): string {
+  const [y, m, d] = dateStr.split('-').map((n) => parseInt(n, 10));
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+/** Whether `date` (YYYY-MM-DD) is between today and the booking horizon, tenant-local. */
+export function isBookableDate(date: string, settings: AppointmentSettings, now = new Date()): boolean {
+  const today = toLocalDateString(now, resolveTimeZone(settings));
+  return date >= today && date <= addDays(today, settings.appointment_max_days_ahead);
+}
+
+/**
+ * Open slots on one local date. Pass `memberIds` to restrict to specific
+ * team members; otherwise every member with availability is considered.
+ */
+export function computeAvailableSlots(params: {
+  date: string;
+  pieces: number;
+  settings: AppointmentSettings;
+  windows: AvailabilityWindow[];
+  blackouts: BlackoutRange[];
+  booked: BookedBlock[];
+  memberIds?: string[];
+  now?: Date;
+}): AppointmentSlot[] {
+  const { date, pieces, settings, windows, blackouts, booked, memberIds } = params;
+  const now = params.now || new Date();
+  if (!isBookableDate(date, settings, now)) return [];
+
+  const timeZone = resolveTimeZone(settings);
+  const [year, month, day] = date.split('-').map((n) => parseInt(n, 10));
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  const duration = appointmentDurationMinutes(settings, pieces);
+  const interval = Math.max(5, settings.appointment_slot_interval_minutes || 15);
+  const bufferMs = Math.max(0, settings.appointment_buffer_minutes || 0) * 60_000;
+  const earliest = now.getTime() + Math.max(0, settings.appointment_min_notice_hours || 0) * 3_600_000;
+
+  const isBlackedOut = (memberId: string) =>
+    blackouts.some((b) =>
+      (b.member_id === null || b.member_id === memberId) && b.start_date <= date && b.end_date >= date
+    );
+
+  const slots = new Map<number, AppointmentSlot>();
+
+  for (const w of windows) {
+    if (w.weekday !== weekday) continue;
+    if (memberIds && !memberIds.includes(w.member_id)) continue;
+    if (isBlackedOut(w.member_id)) continue;
+
+    const memberBookings = booked
+      .filter((b) => b.member_id === w.member_id)
+      .map((b) => ({ start: new Date(b.starts_at).getTime(), end: new Date(b.ends_at).getTime() }));
+
+    const windowEnd = timeToMinutes(w.end_time);
+    for (let m = timeToMinutes(w.start_time); m + duration <= windowEnd; m += interval) {
+      const start = zonedTimeToUtc(year, month, day, Math.floor(m / 60), m % 60, timeZone).getTime();
+      if (start < earliest) continue;
+      const end = start + duration * 60_000;
+
+      const clashes = memberBookings.some((b) => start < b.end + bufferMs && b.start < end + bufferMs);
+      if (clashes) continue;
+
+      const slot = slots.get(start) || {
+        starts_at: new Date(start).toISOString(),
+        ends_at: new Date(end).toISOString(),
+        member_ids: [],
+      };
+      if (!slot.member_ids.includes(w.member_id)) slot.member_ids.push(w.member_id);
+      slots.set(start, slot);
+    }
+  }
+
+  return Array.from(slots.values()).sort((a, b) => a.starts_at.localeCompare(b.starts_at));
+}
+
+/**
+ * Loads availability, blackouts and live bookings covering `date` for a
+ * tenant — everything computeAvailableSlots needs besides settings.
+ */
+export async function loadAppointmentCalendar(
+  db: SupabaseClient,
+  tenantId: string,
+  date: string,
+  timeZone: string
+) {
+  const [year, month, day] = date.split('-').map((n) => parseInt(n, 10));
+  // Pad by a day either side so buffers around midnight are respected
+  const from = zonedTimeToUtc(year, month, day - 1, 0, 0, timeZone).toISOString();
+  const to = zonedTimeToUtc(year, month, day + 2, 0, 0, timeZone).toISOString();
+
+  const [windowsRes, blackoutsRes, bookedRes] = await Promise.all([
+    db.from('appointment_availability')
+      .select('member_id, weekday, start_time, end_time')
+      .eq('tenant_id', tenantId),
+    db.from('appointment_blackouts')
+      .select('member_id, start_date, end_date')
+      .eq('tenant_id', tenantId)
+      .lte('start_date', date)
+      .gte('end_date', date),
+    db.from('appointments')
+      .select('member_id, starts_at, ends_at')
+      .eq('tenant_id', tenantId)
+      .in('status', LIVE_APPOINTMENT_STATUSES)
+      .lt('starts_at', to)
+      .gt('ends_at', from),
+  ]);
+
+  return {
+    windows: (windowsRes.data || []) as AvailabilityWindow[],
+    blackouts: (blackoutsRes.data || []) as BlackoutRange[],
+    booked: (bookedRes.data || []) as BookedBlock[],
+  };
+}
+
+// ============================================================================
+// Store Queue
+// ============================================================================
+
+export interface CheckInAppointment {
+  id: string;
+  tenant_id: string;
+  client_id: string | null;
+  customer_name: string;
+  customer_phone: string;
+  customer_email: string | null;
+  sms_consent: boolean;
+  notes: string | null;
+}
+
+/**
+ * Puts an arriving appointment into the Store Mode queue (event_id null) so
+ * it's served like any other check-in. Returns the new queue entry id.
+ */
+export async function checkInAppointment(db: SupabaseClient, appt: CheckInAppointment): Promise<string> {
+  const { count } = await db
+    .from('queue_entries')
+    .select('id', { count: 'exact', head: true })
+    .eq('tenant_id', appt.tenant_id)
+    .is('event_id', null)
+    .in('status', ['waiting', 'serving']);
+
+  const { data: entry, error } = await db
+    .from('queue_entries')
+    .insert({
+      tenant_id: appt.tenant_id,
+      event_id: null,
+      client_id: appt.client_id,
+      appointment_id: appt.id,
+      name: appt.customer_name,
+      phone: appt.customer_phone,
+      email: appt.customer_email,
+      position: (count || 0) + 1,
+      sms_consent: appt.sms_consent,
+      notes: appt.notes,
+    })
+    .select('id')
+    .single();
+
+  if (error || !entry) throw new Error(error?.message || 'Failed to check in');
+
+  await db
+    .from('appointments')
+    .update({ status: 'checked_in', queue_entry_id: entry.id })
+    .eq('id', appt.id);
+
+  return entry.id;
+}
+
+// ============================================================================
+// Messaging
+// ============================================================================
+
+/** "Tue, Oct 21 at 2:30 PM" in the tenant's zone. */
+export function formatAppointmentTime(startsAt: string, timeZone: string): string {
+  const d = new Date(startsAt);
+  const date = d.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone });
+  const time = d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+  return `${date} at ${time}`;
+}
+
+export function appointmentConfirmationMessage(params: {
+  customerName: string;
+  tenantName: string;
+  startsAt: string;
+  timeZone: string;
+}): string {
+  const firstName = params.customerName.split(' ')[0];
+  return `Hi ${firstName}! Your permanent jewelry appointment with ${params.tenantName} is confirmed for ${formatAppointmentTime(params.startsAt, params.timeZone)}. Reply to this text if you need to reschedule.`;
+}
+
+export function appointmentReminderMessage(params: {
+  customerName: string;
+  tenantName: string;
+  startsAt: string;
+  timeZone: string;
+}): string {
+  const firstName = params.customerName.split(' ')[0];
+  return `Reminder: ${firstName}, you're booked with ${params.tenantName} ${formatAppointmentTime(params.startsAt, params.timeZone)}. See you soon! Reply to this text if you need to reschedule.`;
+}
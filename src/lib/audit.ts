@@ -0,0 +1,215 @@
+// ============================================================================
+// Audit Log — src/lib/audit.ts
+// ============================================================================
+// Action catalog, writer and reader for audit_log (migration 092).
+// Triggers record changes made from the dashboard; API routes and Sunny
+// tools call recordAudit() with the service-role client.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { resolveTimeZone, zonedTimeToUtc } from '@/lib/timezone';
+import type { AuditActorType, AuditLogEntry } from '@/types';
+
+export const AUDIT_CATEGORIES = [
+  { value: 'sale', label: 'Sales' },
+  { value: 'inventory', label: 'Inventory' },
+  { value: 'gift_card', label: 'Gift cards' },
+  { value: 'client', label: 'Clients' },
+  { value: 'warranty_claim', label: 'Warranties' },
+  { value: 'team', label: 'Team' },
+  { value: 'sunny', label: 'Other Sunny actions' },
+] as const;
+
+export const AUDIT_ACTIONS: Record<string, string> = {
+  'sale.refund': 'Refunded a sale',
+  'sale.discount': 'Discounted a sale',
+  'inventory.price_change': 'Changed a price',
+  'inventory.update': 'Edited an item',
+  'inventory.deactivate': 'Deactivated an item',
+  'inventory.delete': 'Deleted an item',
+  'gift_card.cancel': 'Cancelled a gift card',
+  'gift_card.adjust': 'Adjusted a gift card balance',
+  'client.merge': 'Merged duplicate clients',
+  'client.merge_undo': 'Undid a client merge',
+  'client.loyalty_adjust': 'Adjusted loyalty points',
+  'warranty_claim.decision': 'Updated a warranty claim',
+  'team.member_role': 'Changed a member\'s role',
+  'team.member_remove': 'Removed a team member',
+  'team.role_create': 'Created a role',
+  'team.role_update': 'Edited a role',
+  'team.role_delete': 'Deleted a role',
+};
+
+/** Label for an action; generic Sunny actions are 'sunny.<tool name>'. */
+export function auditActionLabel(action: string): string {
+  if (AUDIT_ACTIONS[action]) return AUDIT_ACTIONS[action];
+  if (action.startsWith('sunny.')) {
+    const tool = action.slice('sunny.'.length).replace(/_/g, ' ');
+    return tool.charAt(0).toUpperCase() + tool.slice(1);
+  }
+  return action;
+}
+
+// ── Writing ───────────────────────────────────────────────────────────────
+
+export interface AuditInput {
+  tenantId: string;
+  actorType?: AuditActorType;
+  actorUserId: string | null;
+  action: string;
+  entityType: string;
+  entityId?: string | null;
+  entityLabel?: string | null;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Append an audit entry. Pass the service-role client — audit_log has no
+ * insert policy. Never throws: a failed log write shouldn't fail the action
+ * that already happened.
+ */
+export async function recordAudit(client: SupabaseClient, entry: AuditInput): Promise<void> {
+  const { error } = await client.from('audit_log').insert({
+    tenant_id: entry.tenantId,
+    actor_type: entry.actorType || 'user',
+    actor_user_id: entry.actorUserId,
+    action: entry.action,
+    entity_type: entry.entityType,
+    entity_id: entry.entityId || null,
+    entity_label: entry.entityLabel || null,
+    before: entry.before ?? null,
+    after: entry.after ?? null,
+    metadata: entry.metadata || {},
+  });
+  if (error) console.error('[Audit] Failed to record', entry.action, error);
+}
+
+// ── Reading ───────────────────────────────────────────────────────────────
+
+export interface AuditLogFilters {
+  /** Action prefix from AUDIT_CATEGORIES */
+  category?: string;
+  /** A member's user id, or 'sunny' for anything Sunny did */
+  actor?: string;
+  /** Local YYYY-MM-DD in the tenant's time zone, inclusive */
+  from?: string;
+  to?: string;
+  search?: string;
+  /** The last entry already shown */
+  cursor?: { created_at: string; id: string };
+}
+
+const PAGE_SIZE = 50;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Entries written in one transaction share created_at, so the cursor carries
+ * the id too: "<created_at>|<id>".
+ */
+function encodeCursor(entry: { created_at: string; id: string }): string {
+  return `${entry.created_at}|${entry.id}`;
+}
+
+function decodeCursor(value: string | null): AuditLogFilters['cursor'] {
+  const [createdAt, id] = (value || '').split('|');
+  if (!createdAt || !id || !UUID_RE.test(id) || isNaN(Date.parse(createdAt))) return undefined;
+  return { created_at: createdAt, id };
+}
+
+/** Midnight at the start of a local YYYY-MM-DD, shifted by `dayOffset`. */
+function localMidnight(date: string, timeZone: string, dayOffset = 0): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return zonedTimeToUtc(y, m, d + dayOffset, 0, 0, timeZone).toISOString();
+}
+
+export function parseAuditFilters(params: URLSearchParams): AuditLogFilters {
+  const date = (key: string) => {
+    const value = params.get(key);
+    return value && DATE_RE.test(value) ? value : undefined;
+  };
+  return {
+    category: params.get('category') || undefined,
+    actor: params.get('actor') || undefined,
+    from: date('from'),
+    to: date('to'),
+    search: params.get('search')?.trim() || undefined,
+    cursor: decodeCursor(params.get('cursor')),
+  };
+}
+
+/**
+ * One page of a tenant's audit log, newest first, with actor names and the
+ * members who can be filtered on.
+ */
+export async function queryAuditLog(
+  client: SupabaseClient,
+  tenantId: string,
+  filters: AuditLogFilters
+): Promise<{
+  entries: AuditLogEntry[];
+  actors: { user_id: string; name: string }[];
+  next_cursor: string | null;
+}> {
+  const { data: tenant } = await client
+    .from('tenants')
+    .select('time_zone')
+    .eq('id', tenantId)
+    .single();
+  const timeZone = resolveTimeZone(tenant);
+
+  let query = client
+    .from('audit_log')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(PAGE_SIZE + 1);
+
+  if (filters.category === 'sunny') {
+    query = query.like('action', 'sunny.%');
+  } else if (filters.category) {
+    query = query.like('action', `${filters.category}.%`);
+  }
+  if (filters.actor === 'sunny') {
+    query = query.eq('actor_type', 'sunny');
+  } else if (filters.actor) {
+    query = query.eq('actor_user_id', filters.actor);
+  }
+  if (filters.from) query = query.gte('created_at', localMidnight(filters.from, timeZone));
+  if (filters.to) query = query.lt('created_at', localMidnight(filters.to, timeZone, 1));
+  if (filters.search) query = query.ilike('entity_label', `%${filters.search}%`);
+  if (filters.cursor) {
+    const { created_at: c, id } = filters.cursor;
+    query = query.or(`created_at.lt."${c}",and(created_at.eq."${c}",id.lt.${id})`);
+  }
+
+  const [{ data: rows, error }, { data: members }] = await Promise.all([
+    query,
+    client
+      .from('tenant_members')
+      .select('user_id, display_name, invited_email')
+      .eq('tenant_id', tenantId)
+      .not('user_id', 'is', null),
+  ]);
+  if (error) throw error;
+
+  const names = new Map<string, string>();
+  for (const m of members || []) {
+    names.set(m.user_id, m.display_name || m.invited_email || 'Team member');
+  }
+
+  const page = (rows || []).slice(0, PAGE_SIZE) as AuditLogEntry[];
+  return {
+    entries: page.map((e) => ({
+      ...e,
+      actor_name: e.actor_user_id ? names.get(e.actor_user_id) || 'Former member' : null,
+    })),
+    actors: [...names.entries()]
+      .map(([user_id, name]) => ({ user_id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    next_cursor: (rows || []).length > PAGE_SIZE ? encodeCursor(page[page.length - 1]) : null,
+  };
+}
@@ -2,10 +2,16 @@
 // Broadcast Utilities — src/lib/broadcasts.ts
 // ============================================================================
 // Audience resolution for broadcast targeting. Resolves tag, segment, or
-// all-client targets into a list of matching clients.
+// all-client targets into a list of matching clients. Also the shared setup
+// for rendering email broadcasts (src/lib/email-blocks.ts) and their
+// tracking URLs.
 // ============================================================================
 
 import type { SupabaseClient } from '@supabase/supabase-js';
+import { resolveSegmentById } from '@/lib/segments';
+import { blocksFromBody, type EmailEventCard } from '@/lib/email-blocks';
+import { resolveTimeZone } from '@/lib/timezone';
+import type { EmailBlock } from '@/types';
 
 export interface AudienceClient {
   id: string;
@@ -19,7 +25,7 @@ export interface AudienceClient {
  * Resolve the target audience for a broadcast.
  *
  * - 'tag'     → clients with the given tag assigned
- * - 'segment' → clients matching the segment's filter_criteria (tag IDs, AND logic)
+ * - 'segment' → clients matching the segment's rules (see src/lib/segments.ts)
  * - 'all'     → all clients for the tenant
  */
 export async function resolveAudience(
@@ -56,49 +62,64 @@ export async function resolveAudience(
   }
 
   if (targetType === 'segment') {
-    // Load segment filter criteria
-    const { data: segment } = await supabase
-      .from('client_segments')
-      .select('filter_criteria')
-      .eq('id', targetId)
-      .single();
-
-    if (!segment) return [];
-
-    const tagIds: string[] = segment.filter_criteria?.tagIds || [];
-    if (tagIds.length === 0) {
-      // Segment with no tag filters = all clients
-      const { data } = await supabase
-        .from('clients')
-        .select('id, first_name, last_name, email, phone')
-        .eq('tenant_id', tenantId);
-      return (data || []) as AudienceClient[];
-    }
-
-    // Get clients who have ALL specified tags (AND logic)
-    const { data: assignments } = await supabase
-      .from('client_tag_assignments')
-      .select('client_id, tag_id')
-      .in('tag_id', tagIds);
+    return (await resolveSegmentById(supabase, tenantId, targetId)) || [];
+  }
 
-    const clientTagCounts: Record<string, number> = {};
-    for (const a of assignments || []) {
-      clientTagCounts[a.client_id] = (clientTagCounts[a.client_id] || 0) + 1;
-    }
+  return [];
+}
 
-    const matchingIds = Object.entries(clientTagCounts)
-      .filter(([, count]) => count >= tagIds.length)
-      .map(([id]) => id);
+// ── Email broadcasts ────────────────────────────────────────────────────────
 
-    if (matchingIds.length === 0) return [];
+/** Tenant columns email rendering needs */
+export const EMAIL_TENANT_SELECT = 'name, phone, logo_url, brand_color, slug, time_zone';
 
-    const { data } = await supabase
-      .from('clients')
-      .select('id, first_name, last_name, email, phone')
-      .eq('tenant_id', tenantId)
-      .in('id', matchingIds);
-    return (data || []) as AudienceClient[];
+export function appBaseUrl(): string {
+  return process.env.NEXT_PUBLIC_APP_URL || 'https://sunstonepj.app';
+}
+
+/**
+ * The blocks an email broadcast renders: its composer blocks, or a plain
+ * body (custom or from a template) under the branded header.
+ */
+export function emailBlocksFor(broadcast: { email_blocks: EmailBlock[] | null }, body: string): EmailBlock[] {
+  return broadcast.email_blocks?.length ? broadcast.email_blocks : blocksFromBody(body);
+}
+
+/** Event card details for the event blocks, keyed by event id. */
+export async function loadEmailEvents(
+  supabase: SupabaseClient,
+  tenantId: string,
+  tenant: { time_zone?: string | null } | null,
+  blocks: EmailBlock[]
+): Promise<Record<string, EmailEventCard>> {
+  const ids = blocks.flatMap((b) => (b.type === 'event' && b.event_id ? [b.event_id] : []));
+  if (ids.length === 0) return {};
+
+  const { data } = await supabase
+    .from('events')
+    .select('id, name, start_time, end_time, location, time_zone')
+    .eq('tenant_id', tenantId)
+    .in('id', ids);
+
+  const cards: Record<string, EmailEventCard> = {};
+  for (const e of data || []) {
+    cards[e.id] = {
+      name: e.name,
+      start_time: e.start_time,
+      end_time: e.end_time,
+      location: e.location,
+      time_zone: resolveTimeZone(tenant, e),
+    };
   }
+  return cards;
+}
 
-  return [];
+/** Per-recipient tracking endpoints (see /api/public/email/[token]). */
+export function emailTrackingUrls(token: string) {
+  const base = `${appBaseUrl()}/api/public/email/${token}`;
+  return {
+    openPixelUrl: `${base}/open`,
+    unsubscribeUrl: `${base}/unsubscribe`,
+    clickUrl: (index: number) => `${base}/click?l=${index}`,
+  };
 }
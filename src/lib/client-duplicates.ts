@@ -0,0 +1,192 @@
+// ============================================================================
+// Client Duplicates — src/lib/client-duplicates.ts
+// ============================================================================
+// Scores pairs of clients that are probably the same person, from normalized
+// phone numbers (primary and secondary), email and name. Merging is done by
+// merge_clients() (migration 096).
+// ============================================================================
+
+import type { DuplicateClient, DuplicateConfidence, DuplicatePair, DuplicateReason } from '@/types';
+
+const POINTS: Record<DuplicateReason, number> = {
+  phone: 45,
+  email: 40,
+  name: 30,
+  similar_name: 20,
+};
+
+/** Pairs scoring below this aren't shown */
+const MIN_SCORE = 30;
+/** Jaro-Winkler similarity that counts as a similar name */
+const SIMILAR_NAME = 0.9;
+/**
+ * Larger groups are skipped — a number or address shared by that many
+ * clients is a business line or placeholder, not one person.
+ */
+const MAX_GROUP = 25;
+const MAX_NAME_BLOCK = 400;
+const MAX_PAIRS = 200;
+
+// ── Normalizing ───────────────────────────────────────────────────────────
+
+function phoneKey(phone: string | null | undefined): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  return digits.length >= 10 ? digits.slice(-10) : null;
+}
+
+function emailKey(email: string | null | undefined): string | null {
+  const value = (email || '').trim().toLowerCase();
+  return value.includes('@') ? value : null;
+}
+
+/** Lowercase letters and single spaces, accents removed */
+export function normalizeName(value: string | null | undefined): string {
+  return (value || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// ── Name similarity ───────────────────────────────────────────────────────
+
+/** Jaro-Winkler similarity, 0–1 */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const range = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - range);
+    const end = Math.min(i + range + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = true;
+      bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+// ── Finding pairs ─────────────────────────────────────────────────────────
+
+export function duplicateConfidence(score: number): DuplicateConfidence {
+  if (score >= 70) return 'high';
+  if (score >= 45) return 'medium';
+  return 'low';
+}
+
+/**
+ * Candidate duplicate pairs, best first. `phones` are client_phone_numbers
+ * rows, so a secondary number matches too.
+ */
+export function findDuplicatePairs(
+  clients: DuplicateClient[],
+  phones: Array<{ client_id: string; phone_normalized: string }> = []
+): DuplicatePair[] {
+  const byId = new Map(clients.map((c) => [c.id, c]));
+  const phoneSets = new Map<string, Set<string>>();
+  const names = new Map<string, string>();
+
+  const addPhone = (clientId: string, key: string | null) => {
+    if (!key || !byId.has(clientId)) return;
+    if (!phoneSets.has(clientId)) phoneSets.set(clientId, new Set());
+    phoneSets.get(clientId)!.add(key);
+  };
+  for (const c of clients) {
+    addPhone(c.id, phoneKey(c.phone));
+    names.set(c.id, normalizeName(`${c.first_name || ''} ${c.last_name || ''}`));
+  }
+  for (const p of phones) addPhone(p.client_id, phoneKey(p.phone_normalized));
+
+  // Group by shared keys; only clients sharing a group are compared
+  const groups = new Map<string, string[]>();
+  const addToGroup = (key: string, clientId: string) => {
+    const group = groups.get(key);
+    if (!group) groups.set(key, [clientId]);
+    else if (!group.includes(clientId)) group.push(clientId);
+  };
+
+  for (const c of clients) {
+    for (const key of phoneSets.get(c.id) || []) addToGroup(`p:${key}`, c.id);
+    const email = emailKey(c.email);
+    if (email) addToGroup(`e:${email}`, c.id);
+
+    // Blocks catch typos in either name but not both
+    const first = normalizeName(c.first_name).replace(/\s/g, '');
+    const last = normalizeName(c.last_name).replace(/\s/g, '');
+    if (first && last) {
+      addToGroup(`n:${first[0]}:${last.slice(0, 2)}`, c.id);
+      addToGroup(`n:${first.slice(0, 2)}:${last[0]}`, c.id);
+    }
+  }
+
+  const seen = new Set<string>();
+  const pairs: DuplicatePair[] = [];
+
+  for (const [key, ids] of groups) {
+    if (ids.length < 2) continue;
+    if (ids.length > (key.startsWith('n:') ? MAX_NAME_BLOCK : MAX_GROUP)) continue;
+
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const pairKey = ids[i] < ids[j] ? `${ids[i]}|${ids[j]}` : `${ids[j]}|${ids[i]}`;
+        if (seen.has(pairKey)) continue;
+        seen.add(pairKey);
+
+        const a = byId.get(ids[i])!;
+        const b = byId.get(ids[j])!;
+        const reasons: DuplicateReason[] = [];
+
+        const aPhones = phoneSets.get(a.id);
+        const bPhones = phoneSets.get(b.id);
+        if (aPhones && bPhones && [...aPhones].some((p) => bPhones.has(p))) reasons.push('phone');
+
+        const aEmail = emailKey(a.email);
+        if (aEmail && aEmail === emailKey(b.email)) reasons.push('email');
+
+        const aName = names.get(a.id) || '';
+        const bName = names.get(b.id) || '';
+        // A first name alone is too common to count
+        if (aName.includes(' ') && bName.includes(' ')) {
+          if (aName === bName) reasons.push('name');
+          else if (nameSimilarity(aName, bName) >= SIMILAR_NAME) reasons.push('similar_name');
+        }
+
+        const score = Math.min(100, reasons.reduce((sum, r) => sum + POINTS[r], 0));
+        if (score < MIN_SCORE) continue;
+
+        // Older record first — it's usually the one to keep
+        const [older, newer] = a.created_at <= b.created_at ? [a, b] : [b, a];
+        pairs.push({ a: older, b: newer, score, confidence: duplicateConfidence(score), reasons });
+      }
+    }
+  }
+
+  return pairs
+    .sort((x, y) => y.score - x.score || y.b.created_at.localeCompare(x.b.created_at))
+    .slice(0, MAX_PAIRS);
+}
@@ -0,0 +1,172 @@
+// ============================================================================
+// Cost Layers — src/lib/cost-layers.ts
+// ============================================================================
+// Helpers around inventory_cost_layers (migration 087). Restocks open
+// layers; sales, waste and negative adjustments consume them FIFO or at the
+// moving weighted average, per tenant.
+//
+// Stock value = open layers at their own cost, plus any on-hand quantity no
+// layer covers at cost_per_unit. When layers hold more than is on hand
+// (stock written off without a movement) they're scaled down to match.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { selectAll } from '@/lib/supabase/select-all';
+import type { CostingMethod, StockValuation } from '@/types';
+
+export const COSTING_METHODS: { value: CostingMethod; label: string; description: string }[] = [
+  {
+    value: 'fifo',
+    label: 'FIFO',
+    description: 'Oldest stock is used first — each sale is costed at what that lot cost.',
+  },
+  {
+    value: 'average',
+    label: 'Weighted average',
+    description: 'Each sale is costed at the average cost of everything on the shelf.',
+  },
+];
+
+export function costingMethodLabel(method: CostingMethod | null | undefined): string {
+  return COSTING_METHODS.find((m) => m.value === method)?.label || 'FIFO';
+}
+
+/**
+ * Material cost of a sale line: the layered cost_snapshot when the sale was
+ * costed from layers, else the chain cost snapshotted at checkout (older
+ * sales). Jump rings are costed separately in jump_ring_cost.
+ */
+export function saleItemMaterialCost(item: {
+  cost_snapshot?: number | string | null;
+  chain_material_cost?: number | string | null;
+}): number {
+  if (item.cost_snapshot !== null && item.cost_snapshot !== undefined) {
+    return Number(item.cost_snapshot) || 0;
+  }
+  return Number(item.chain_material_cost) || 0;
+}
+
+// ── Unit costs ────────────────────────────────────────────────────────────
+
+interface InventoryCostRow {
+  inventory_item_id: string;
+  inventory_variant_id: string | null;
+  cost_per_unit: number;
+}
+
+/**
+ * cost_per_unit for the tenant's items and variants. Members can't select
+ * the column (migration 100); inventory_costs() returns it to roles with
+ * costs:view and errors for everyone else.
+ */
+export async function getInventoryCosts(
+  supabase: SupabaseClient,
+  tenantId: string,
+  itemIds?: string[]
+): Promise<Map<string, number>> {
+  const rows = await selectAll<InventoryCostRow>((from, to) =>
+    supabase
+      .rpc('inventory_costs', { p_tenant_id: tenantId, p_item_ids: itemIds ?? null })
+      .range(from, to) as unknown as PromiseLike<{ data: InventoryCostRow[] | null; error: { message: string } | null }>
+  );
+  return new Map(rows.map((r) => [keyOf(r.inventory_item_id, r.inventory_variant_id), Number(r.cost_per_unit) || 0]));
+}
+
+/** An item's (variantId null) or variant's cost from getInventoryCosts(), 0 if unknown. */
+export function unitCostOf(costs: Map<string, number>, itemId: string, variantId: string | null): number {
+  return costs.get(keyOf(itemId, variantId)) ?? 0;
+}
+
+// ── Valuation ─────────────────────────────────────────────────────────────
+
+interface ValuationItemRow {
+  id: string;
+  quantity_on_hand: number;
+  cost_per_unit: number;
+  has_variants: boolean;
+  inventory_item_variants: { id: string; quantity_on_hand: number; cost_per_unit: number; is_active: boolean }[] | null;
+}
+
+interface OpenLayerRow {
+  inventory_item_id: string;
+  inventory_variant_id: string | null;
+  quantity_remaining: number;
+  unit_cost: number;
+}
+
+function keyOf(itemId: string, variantId: string | null): string {
+  return `${itemId}|${variantId || ''}`;
+}
+
+/** Value one stock key from its open layers and on-hand quantity. */
+function valueStock(onHand: number, layers: { quantity: number; value: number } | undefined, fallbackCost: number): number {
+  if (onHand <= 0) return 0;
+  const layered = layers?.quantity || 0;
+  if (layered <= 0) return onHand * fallbackCost;
+  if (layered >= onHand) return (layers!.value * onHand) / layered;
+  return layers!.value + (onHand - layered) * fallbackCost;
+}
+
+/** Needs a service-role client: it reads cost_per_unit directly. */
+export async function getStockValuation(
+  supabase: SupabaseClient,
+  tenantId: string
+): Promise<StockValuation> {
+  const [{ data: tenant }, items, layers] = await Promise.all([
+    supabase.from('tenants').select('costing_method').eq('id', tenantId).single(),
+    selectAll<ValuationItemRow>((from, to) =>
+      supabase
+        .from('inventory_items')
+        .select('id, quantity_on_hand, cost_per_unit, has_variants, inventory_item_variants(id, quantity_on_hand, cost_per_unit, is_active)')
+        .eq('tenant_id', tenantId)
+        .eq('is_active', true)
+        .order('id')
+        .range(from, to) as unknown as PromiseLike<{ data: ValuationItemRow[] | null; error: { message: string } | null }>
+    ),
+    selectAll<OpenLayerRow>((from, to) =>
+      supabase
+        .from('inventory_cost_layers')
+        .select('inventory_item_id, inventory_variant_id, quantity_remaining, unit_cost')
+        .eq('tenant_id', tenantId)
+        .gt('quantity_remaining', 0)
+        .order('id')
+        .range(from, to)
+    ),
+  ]);
+
+  const open = new Map<string, { quantity: number; value: number }>();
+  for (const layer of layers) {
+    const key = keyOf(layer.inventory_item_id, layer.inventory_variant_id);
+    const entry = open.get(key) || { quantity: 0, value: 0 };
+    entry.quantity += Number(layer.quantity_remaining);
+    entry.value += Number(layer.quantity_remaining) * Number(layer.unit_cost);
+    open.set(key, entry);
+  }
+
+  const values: Record<string, number> = {};
+  let total = 0;
+  for (const item of items) {
+    const itemCost = Number(item.cost_per_unit) || 0;
+    const variants = (item.inventory_item_variants || []).filter((v) => v.is_active);
+    let value = 0;
+    if (item.has_variants && variants.length > 0) {
+      for (const v of variants) {
+        value += valueStock(
+          Number(v.quantity_on_hand),
+          open.get(keyOf(item.id, v.id)),
+          Number(v.cost_per_unit) || itemCost
+        );
+      }
+    } else {
+      value = valueStock(Number(item.quantity_on_hand), open.get(keyOf(item.id, null)), itemCost);
+    }
+    values[item.id] = Math.round(value * 100) / 100;
+    total += value;
+  }
+
+  return {
+    method: (tenant?.costing_method as CostingMethod) || 'fifo',
+    total: Math.round(total * 100) / 100,
+    items: values,
+  };
+}
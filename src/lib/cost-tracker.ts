@@ -15,6 +15,7 @@ const ANTHROPIC_PRICING: Record<string, { input: number; output: number; cacheRe
 };
 
 const TWILIO_SMS_COST = 0.0079;   // per segment
+const TWILIO_MMS_COST = 0.0200;   // per MMS message
 const TWILIO_VOICE_COST = 0.0085; // per minute inbound voice
 const TWILIO_PHONE_MONTHLY = 1.15; // per phone number per month
 const RESEND_EMAIL_COST = 0.0004; // per email (estimate)
@@ -60,14 +61,34 @@ export function logAnthropicCost(params: {
     .catch(err => console.error('[CostTracker] Failed to log anthropic cost:', err));
 }
 
+/**
+ * How many segments Twilio bills for a text: 160 GSM-7 characters (153 once
+ * split) or 70 UCS-2 characters (67 once split) when it has emoji or other
+ * non-GSM characters.
+ */
+export function countSmsSegments(body: string): number {
+  const unicode = /[^\n\r\x20-\x7E£¥èéùìòÇØøÅå€]/.test(body);
+  const single = unicode ? 70 : 160;
+  const multi = unicode ? 67 : 153;
+  if (body.length <= single) return 1;
+  return Math.ceil(body.length / multi);
+}
+
+/**
+ * Log Twilio cost for outbound or inbound texts. `segments` is per SMS
+ * segment; `mms` counts picture messages, which Twilio bills per message
+ * regardless of body length.
+ */
 export function logSmsCost(params: {
   tenantId: string;
   operation: string;
   segments?: number;
+  mms?: number;
   metadata?: Record<string, unknown>;
 }) {
-  const segments = params.segments || 1;
-  const cost = segments * TWILIO_SMS_COST;
+  const mms = params.mms || 0;
+  const segments = mms > 0 ? (params.segments || 0) : (params.segments || 1);
+  const cost = segments * TWILIO_SMS_COST + mms * TWILIO_MMS_COST;
 
   createServiceRoleClient()
     .then(client =>
@@ -76,7 +97,7 @@ export function logSmsCost(params: {
         service: 'twilio',
         operation: params.operation,
         estimated_cost: cost,
-        metadata: { segments, ...params.metadata },
+        metadata: { segments, ...(mms > 0 ? { mms } : {}), ...params.metadata },
       })
     )
     .catch(err => console.error('[CostTracker] Failed to log sms cost:', err));
@@ -0,0 +1,94 @@
+// ============================================================================
+// Deposits — src/lib/deposits.ts
+// ============================================================================
+// Stripe Checkout for deposits (parties, appointments) on the artist's
+// connected account. No platform fee — deposits are the artist's money.
+// The webhook routes completion/expiry by metadata.type.
+// ============================================================================
+
+import Stripe from 'stripe';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
+  apiVersion: '2025-02-24.acacia' as any,
+});
+
+export type DepositType = 'party_deposit' | 'appointment_deposit';
+
+export interface DepositCheckoutParams {
+  tenantId: string;
+  stripeAccountId: string;
+  tenantSlug: string;
+  amount: number;
+  productName: string;
+  type: DepositType;
+  /** Extra metadata (e.g. party_request_id) — tenant_id and type are added */
+  metadata: Record<string, string>;
+  /** Query string appended to the storefront URL on success/cancel, e.g. 'deposit' */
+  returnParam?: string;
+  /** How long the session stays payable. Stripe allows 30 minutes to 24 hours; defaults to 24 hours. */
+  expiresInMinutes?: number;
+}
+
+/**
+ * Creates a Checkout Session for a deposit and records the session→tenant
+ * mapping used by the /pay redirect.
+ */
+export async function createDepositCheckout(
+  db: SupabaseClient,
+  params: DepositCheckoutParams
+): Promise<Stripe.Checkout.Session> {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://sunstonepj.app';
+  const amountCents = Math.round(Number(params.amount) * 100);
+  const returnParam = params.returnParam || 'deposit';
+
+  const sessionParams: Record<string, unknown> = {
+    mode: 'payment',
+    payment_method_types: ['card'],
+    line_items: [{
+      price_data: {
+        currency: 'usd',
+        product_data: {
+          name: params.productName,
+        },
+        unit_amount: amountCents,
+      },
+      quantity: 1,
+    }],
+    // No application_fee_amount — deposits are the artist's money
+    success_url: `${baseUrl}/studio/${params.tenantSlug}?${returnParam}=success`,
+    cancel_url: `${baseUrl}/studio/${params.tenantSlug}?${returnParam}=cancelled`,
+    expires_at: Math.floor(Date.now() / 1000) + (params.expiresInMinutes ?? 24 * 60) * 60,
+    metadata: {
+      ...params.metadata,
+      type: params.type,
+      tenant_id: params.tenantId,
+    },
+  };
+
+  const session = await stripe.checkout.sessions.create(
+    sessionParams as Stripe.Checkout.SessionCreateParams,
+    { stripeAccount: params.stripeAccountId }
+  );
+
+  // ── Store session→tenant mapping for /pay redirect lookup ────────────
+  const { error: sessionInsertError } = await db
+    .from('checkout_sessions')
+    .insert({
+      session_id: session.id,
+      tenant_id: params.tenantId,
+      stripe_account_id: params.stripeAccountId,
+      amount_cents: amountCents,
+    });
+  if (sessionInsertError) {
+    console.error(`[Deposits] checkout_sessions insert failed (${params.type}):`, sessionInsertError);
+  }
+
+  return session;
+}
+
+/** Short payment link — Stripe URLs contain # fragments which iOS truncates. */
+export function depositPayUrl(sessionId: string): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://sunstonepj.app';
+  return `${baseUrl}/pay/${sessionId}`;
+}
@@ -0,0 +1,342 @@
+// ============================================================================
+// Email Blocks — src/lib/email-blocks.ts
+// ============================================================================
+// Renders email broadcast blocks (migration 095) to responsive, table-based
+// HTML and a plain-text part. Pure — the composer uses it for the live
+// preview and the send route for delivery, where links are rewritten for
+// click tracking and the open pixel and unsubscribe link are added.
+// ============================================================================
+
+import { renderTemplate } from '@/lib/templates';
+import type { EmailBlock, EmailBlockType } from '@/types';
+
+export const EMAIL_BLOCK_LABELS: Record<EmailBlockType, string> = {
+  header: 'Header',
+  image: 'Image',
+  text: 'Text',
+  button: 'Button',
+  event: 'Event Card',
+  gift_card: 'Gift Card Promo',
+};
+
+const MAX_BLOCKS = 30;
+const MAX_TEXT = 5000;
+const DEFAULT_BRAND = '#852454';
+
+export interface EmailEventCard {
+  name: string;
+  start_time: string;
+  end_time: string | null;
+  location: string | null;
+  /** Resolved zone to show the time in (see resolveTimeZone) */
+  time_zone: string;
+}
+
+export interface EmailRenderContext {
+  tenant: { name: string | null; logo_url: string | null; brand_color: string | null; slug: string | null };
+  vars: Record<string, string>;
+  appUrl: string;
+  /** Event cards by event id */
+  events?: Record<string, EmailEventCard>;
+  /** Rewrites each link, e.g. through the click tracker */
+  trackLink?: (url: string) => string;
+  openPixelUrl?: string;
+  unsubscribeUrl?: string;
+}
+
+// ── Building blocks ───────────────────────────────────────────────────────
+
+export function newEmailBlock(type: EmailBlockType): EmailBlock {
+  const id = Math.random().toString(36).slice(2, 10);
+  switch (type) {
+    case 'header': return { id, type };
+    case 'image': return { id, type, url: '', alt: '', link: '' };
+    case 'text': return { id, type, text: '' };
+    case 'button': return { id, type, label: 'Book Now', url: '' };
+    case 'event': return { id, type, event_id: '' };
+    case 'gift_card':
+      return {
+        id, type,
+        headline: 'Give the gift of sparkle',
+        text: 'Gift cards for permanent jewelry — perfect for birthdays, besties and just because.',
+        button_label: 'Get a Gift Card',
+        url: '',
+      };
+  }
+}
+
+/** Blocks for an email written as a plain message body (or a template). */
+export function blocksFromBody(body: string): EmailBlock[] {
+  return [newEmailBlock('header'), { ...newEmailBlock('text'), text: body } as EmailBlock];
+}
+
+function str(value: unknown, max: number): string {
+  return typeof value === 'string' ? value.slice(0, max) : '';
+}
+
+/**
+ * Validate blocks from a request body. Returns null when the value isn't a
+ * list of known blocks; unknown fields are dropped.
+ */
+export function parseEmailBlocks(value: unknown): EmailBlock[] | null {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_BLOCKS) return null;
+
+  const blocks: EmailBlock[] = [];
+  for (const raw of value) {
+    const id = str(raw?.id, 40) || Math.random().toString(36).slice(2, 10);
+    switch (raw?.type) {
+      case 'header':
+        blocks.push({ id, type: 'header' });
+        break;
+      case 'image':
+        blocks.push({ id, type: 'image', url: str(raw.url, 2000), alt: str(raw.alt, 200), link: str(raw.link, 2000) });
+        break;
+      case 'text':
+        blocks.push({ id, type: 'text', text: str(raw.text, MAX_TEXT) });
+        break;
+      case 'button':
+        blocks.push({ id, type: 'button', label: str(raw.label, 80), url: str(raw.url, 2000) });
+        break;
+      case 'event':
+        blocks.push({ id, type: 'event', event_id: str(raw.event_id, 40) });
+        break;
+      case 'gift_card':
+        blocks.push({
+          id, type: 'gift_card',
+          headline: str(raw.headline, 120),
+          text: str(raw.text, 1000),
+          button_label: str(raw.button_label, 80),
+          url: str(raw.url, 2000),
+        });
+        break;
+      default:
+        return null;
+    }
+  }
+  return blocks;
+}
+
+// ── Rendering helpers ─────────────────────────────────────────────────────
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Only web, mail and phone links make it into an email. */
+function safeUrl(url: string | null | undefined): string | null {
+  const trimmed = (url || '').trim();
+  return /^(https?:\/\/|mailto:|tel:)/i.test(trimmed) ? trimmed : null;
+}
+
+function brandColor(ctx: EmailRenderContext): string {
+  const color = ctx.tenant.brand_color || '';
+  return /^#[0-9a-f]{6}$/i.test(color) ? color : DEFAULT_BRAND;
+}
+
+function profileUrl(ctx: EmailRenderContext): string | null {
+  return ctx.tenant.slug ? `${ctx.appUrl}/studio/${ctx.tenant.slug}` : null;
+}
+
+function href(url: string, ctx: EmailRenderContext): string {
+  return escapeHtml(ctx.trackLink ? ctx.trackLink(url) : url);
+}
+
+function paragraphs(text: string): string {
+  return text
+    .split(/\n{2,}/)
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((p) => `<p style="margin: 0 0 14px; font-size: 16px; line-height: 1.6; color: #374151;">${escapeHtml(p).replace(/\n/g, '<br>')}</p>`)
+    .join('');
+}
+
+function button(label: string, url: string, ctx: EmailRenderContext): string {
+  return `
+    <table role="presentation" width="100%" cellpadding="0" cellspacing="0">
+      <tr>
+        <td align="center" style="padding: 8px 0 16px;">
+          <a href="${href(url, ctx)}" style="display: inline-block; background: ${brandColor(ctx)}; color: #ffffff; text-decoration: none; font-size: 16px; font-weight: 600; padding: 14px 32px; border-radius: 10px;">${escapeHtml(label)}</a>
+        </td>
+      </tr>
+    </table>`;
+}
+
+export function formatEventWhen(event: EmailEventCard): string {
+  const start = new Date(event.start_time);
+  const day = start.toLocaleDateString('en-US', { timeZone: event.time_zone, weekday: 'long', month: 'long', day: 'numeric' });
+  const time = (d: Date) => d.toLocaleTimeString('en-US', { timeZone: event.time_zone, hour: 'numeric', minute: '2-digit' });
+  return event.end_time ? `${day} · ${time(start)} – ${time(new Date(event.end_time))}` : `${day} · ${time(start)}`;
+}
+
+function blockHtml(block: EmailBlock, ctx: EmailRenderContext): string {
+  const t = (value: string) => renderTemplate(value, ctx.vars);
+
+  switch (block.type) {
+    case 'header': {
+      const name = escapeHtml(ctx.tenant.name || 'Our Studio');
+      const logo = safeUrl(ctx.tenant.logo_url);
+      return `
+          <tr>
+            <td style="background: ${brandColor(ctx)}; padding: 28px 32px; text-align: center;">
+              ${logo
+                ? `<img src="${escapeHtml(logo)}" alt="${name}" height="56" style="display: inline-block; max-height: 56px; width: auto; border: 0;">`
+                : `<h1 style="margin: 0; font-size: 24px; font-weight: 700; color: #ffffff; letter-spacing: -0.5px;">${name}</h1>`}
+            </td>
+          </tr>`;
+    }
+
+    case 'image': {
+      const src = safeUrl(block.url);
+      if (!src) return '';
+      const img = `<img src="${escapeHtml(src)}" alt="${escapeHtml(block.alt)}" width="496" style="display: block; width: 100%; max-width: 100%; height: auto; border: 0; border-radius: 12px;">`;
+      const link = safeUrl(block.link);
+      return row(link ? `<a href="${href(link, ctx)}">${img}</a>` : img);
+    }
+
+    case 'text': {
+      const text = t(block.text).trim();
+      return text ? row(paragraphs(text)) : '';
+    }
+
+    case 'button': {
+      const url = safeUrl(block.url);
+      return url && block.label.trim() ? row(button(t(block.label), url, ctx)) : '';
+    }
+
+    case 'event': {
+      const event = ctx.events?.[block.event_id];
+      if (!event) return '';
+      const url = profileUrl(ctx);
+      return row(`
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border: 1px solid #E5E7EB; border-radius: 12px;">
+                <tr>
+                  <td style="padding: 20px 24px;">
+                    <p style="margin: 0 0 4px; font-size: 12px; font-weight: 600; letter-spacing: 0.8px; text-transform: uppercase; color: ${brandColor(ctx)};">Come see us</p>
+                    <p style="margin: 0 0 8px; font-size: 20px; font-weight: 700; color: #111827;">${escapeHtml(event.name)}</p>
+                    <p style="margin: 0; font-size: 15px; line-height: 1.5; color: #374151;">${escapeHtml(formatEventWhen(event))}</p>
+                    ${event.location ? `<p style="margin: 4px 0 0; font-size: 15px; line-height: 1.5; color: #6B7280;">${escapeHtml(event.location)}</p>` : ''}
+                    ${url ? `<p style="margin: 14px 0 0;"><a href="${href(url, ctx)}" style="font-size: 15px; font-weight: 600; color: ${brandColor(ctx)};">Details &amp; waiver →</a></p>` : ''}
+                  </td>
+                </tr>
+              </table>`);
+    }
+
+    case 'gift_card': {
+      const url = safeUrl(block.url) || profileUrl(ctx);
+      return row(`
+              <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border: 2px dashed ${brandColor(ctx)}; border-radius: 12px;">
+                <tr>
+                  <td style="padding: 24px; text-align: center;">
+                    <p style="margin: 0 0 8px; font-size: 28px; line-height: 1;">🎁</p>
+                    ${block.headline.trim() ? `<p style="margin: 0 0 8px; font-size: 20px; font-weight: 700; color: #111827;">${escapeHtml(t(block.headline))}</p>` : ''}
+                    ${block.text.trim() ? `<p style="margin: 0 0 12px; font-size: 15px; line-height: 1.6; color: #374151;">${escapeHtml(t(block.text))}</p>` : ''}
+                    ${url && block.button_label.trim() ? button(t(block.button_label), url, ctx) : ''}
+                  </td>
+                </tr>
+              </table>`);
+    }
+  }
+}
+
+function row(content: string): string {
+  return `
+          <tr>
+            <td style="padding: 12px 32px;">
+              ${content}
+            </td>
+          </tr>`;
+}
+
+// ── Public renderers ──────────────────────────────────────────────────────
+
+export function renderEmailHtml(blocks: EmailBlock[], ctx: EmailRenderContext): string {
+  const name = escapeHtml(ctx.tenant.name || 'Our Studio');
+  const body = blocks.map((b) => blockHtml(b, ctx)).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${name}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #F5F5F4; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background-color: #F5F5F4;">
+    <tr>
+      <td align="center" style="padding: 32px 12px;">
+        <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width: 560px; background: #ffffff; border-radius: 16px; overflow: hidden;">
+          ${body}
+          <tr>
+            <td style="padding: 20px 32px 28px; border-top: 1px solid #F3F4F6; text-align: center;">
+              <p style="margin: 0; color: #9CA3AF; font-size: 12px; line-height: 1.6;">
+                You're receiving this because you're a client of ${name}.<br>
+                ${ctx.unsubscribeUrl ? `<a href="${escapeHtml(ctx.unsubscribeUrl)}" style="color: #9CA3AF; text-decoration: underline;">Unsubscribe</a>` : 'Unsubscribe'}
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+  ${ctx.openPixelUrl ? `<img src="${escapeHtml(ctx.openPixelUrl)}" width="1" height="1" alt="" style="display: block; width: 1px; height: 1px; border: 0;">` : ''}
+</body>
+</html>`;
+}
+
+/** The plain-text part, also stored as the broadcast message body. */
+export function renderEmailText(blocks: EmailBlock[], ctx: EmailRenderContext): string {
+  const t = (value: string) => renderTemplate(value, ctx.vars).trim();
+  const parts: string[] = [];
+
+  for (const block of blocks) {
+    switch (block.type) {
+      case 'header':
+        parts.push(ctx.tenant.name || 'Our Studio');
+        break;
+      case 'image':
+        if (safeUrl(block.url) && block.alt.trim()) parts.push(`[${block.alt.trim()}]`);
+        break;
+      case 'text':
+        if (t(block.text)) parts.push(t(block.text));
+        break;
+      case 'button': {
+        const url = safeUrl(block.url);
+        if (url && block.label.trim()) parts.push(`${t(block.label)}: ${url}`);
+        break;
+      }
+      case 'event': {
+        const event = ctx.events?.[block.event_id];
+        if (!event) break;
+        const url = profileUrl(ctx);
+        parts.push([event.name, formatEventWhen(event), event.location, url].filter(Boolean).join('\n'));
+        break;
+      }
+      case 'gift_card': {
+        const url = safeUrl(block.url) || profileUrl(ctx);
+        parts.push([t(block.headline), t(block.text), url ? `${t(block.button_label)}: ${url}` : ''].filter(Boolean).join('\n'));
+        break;
+      }
+    }
+  }
+
+  if (ctx.unsubscribeUrl) parts.push(`Unsubscribe: ${ctx.unsubscribeUrl}`);
+  return parts.join('\n\n');
+}
+
+/** Every link the email contains, in order — what click tracking can resolve. */
+export function collectEmailLinks(blocks: EmailBlock[], ctx: EmailRenderContext): string[] {
+  const links: string[] = [];
+  renderEmailHtml(blocks, {
+    ...ctx,
+    trackLink: (url) => {
+      if (!links.includes(url)) links.push(url);
+      return url;
+    },
+  });
+  return links;
+}
@@ -0,0 +1,248 @@
+// ============================================================================
+// Purchase Order PDF — src/lib/generate-po-pdf.ts
+// ============================================================================
+// Letter-size PO for non-Sunstone suppliers: studio + supplier blocks, line
+// table (SKU, description, qty, unit cost, amount) and totals. Runs in the
+// browser (download) and on the server (emailed to the supplier), so it
+// sticks to built-in fonts and doesn't fetch the logo.
+// Dependency: jspdf
+// ============================================================================
+
+import jsPDF from 'jspdf';
+
+export interface PurchaseOrderPDFData {
+  tenantName: string;
+  tenantAccentColor?: string;   // hex, e.g. '#B76E79'
+  tenantEmail?: string | null;
+  tenantPhone?: string | null;
+  poNumber: string;
+  orderDate: string;            // YYYY-MM-DD
+  expectedDate?: string | null; // YYYY-MM-DD
+  supplier: {
+    name: string;
+    contactName?: string | null;
+    email?: string | null;
+    accountNumber?: string | null;
+  };
+  lines: {
+    sku: string | null;
+    description: string;
+    quantity: number;
+    unit: string;
+    unitCost: number;
+  }[];
+  shippingCost: number;
+  notes?: string | null;
+}
+
+// ── Layout constants (points — 72pt = 1 inch) ───────────────────────────
+
+const ML = 54;
+const MR = 54;
+const MT = 56;
+const MB = 60;
+const PW = 612;
+const PH = 792;
+const CW = PW - ML - MR;
+const ROW_H = 20;
+
+type RGB = [number, number, number];
+
+const BLACK: RGB = [30, 30, 30];
+const MID: RGB = [120, 120, 120];
+const RULE: RGB = [215, 215, 215];
+const PANEL_BG: RGB = [248, 248, 248];
+
+// Column x positions (right-aligned numbers use the right edge)
+const COL_SKU = ML + 8;
+const COL_DESC = ML + 96;
+const COL_QTY = ML + CW - 196;
+const COL_COST = ML + CW - 96;
+const COL_AMOUNT = ML + CW - 8;
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+function hexToRgb(hex: string): RGB {
+  const c = hex.replace('#', '');
+  return [
+    parseInt(c.substring(0, 2), 16),
+    parseInt(c.substring(2, 4), 16),
+    parseInt(c.substring(4, 6), 16),
+  ];
+}
+
+function formatDate(date: string): string {
+  const d = new Date(`${date}T12:00:00`);
+  return isNaN(d.getTime())
+    ? date
+    : d.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+}
+
+const money = (n: number) => `$${n.toFixed(2)}`;
+const qty = (n: number) => String(Math.round(n * 100) / 100);
+
+function drawTableHeader(doc: jsPDF, y: number): number {
+  doc.setFillColor(...PANEL_BG);
+  doc.rect(ML, y, CW, ROW_H, 'F');
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(...MID);
+  doc.text('SKU', COL_SKU, y + 13);
+  doc.text('DESCRIPTION', COL_DESC, y + 13);
+  doc.text('QTY', COL_QTY, y + 13, { align: 'right' });
+  doc.text('UNIT COST', COL_COST, y + 13, { align: 'right' });
+  doc.text('AMOUNT', COL_AMOUNT, y + 13, { align: 'right' });
+  return y + ROW_H + 4;
+}
+
+// ── Main generator ───────────────────────────────────────────────────────
+
+export function generatePurchaseOrderPDF(data: PurchaseOrderPDFData): jsPDF {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'pt', format: 'letter' });
+  const accent: RGB = data.tenantAccentColor ? hexToRgb(data.tenantAccentColor) : [183, 110, 121];
+
+  doc.setFillColor(...accent);
+  doc.rect(0, 0, PW, 3, 'F');
+
+  // ── Header: studio name left, PO number right ──────────────────────────
+  let y = MT + 8;
+  doc.setFontSize(20);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(...accent);
+  doc.text(data.tenantName, ML, y);
+
+  doc.setFontSize(16);
+  doc.setTextColor(...BLACK);
+  doc.text('PURCHASE ORDER', PW - MR, y, { align: 'right' });
+
+  y += 16;
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.setTextColor(...MID);
+  const contact = [data.tenantEmail, data.tenantPhone].filter(Boolean).join('  ·  ');
+  if (contact) doc.text(contact, ML, y);
+  doc.text(data.poNumber, PW - MR, y, { align: 'right' });
+  y += 28;
+
+  // ── Supplier + dates panel ─────────────────────────────────────────────
+  const supplierLines = [
+    data.supplier.name,
+    data.supplier.contactName ? `Attn: ${data.supplier.contactName}` : null,
+    data.supplier.email,
+    data.supplier.accountNumber ? `Account #${data.supplier.accountNumber}` : null,
+  ].filter(Boolean) as string[];
+  const dateLines: [string, string][] = [['Order date', formatDate(data.orderDate)]];
+  if (data.expectedDate) dateLines.push(['Expected', formatDate(data.expectedDate)]);
+
+  const panelH = 30 + Math.max(supplierLines.length, dateLines.length) * 14;
+  doc.setFillColor(...PANEL_BG);
+  doc.roundedRect(ML, y, CW, panelH, 4, 4, 'F');
+
+  doc.setFontSize(8);
+  doc.setFont('helvetica', 'bold');
+  doc.setTextColor(...MID);
+  doc.text('SUPPLIER', ML + 14, y + 18);
+  doc.text('DETAILS', ML + CW / 2 + 14, y + 18);
+
+  doc.setFontSize(10);
+  doc.setTextColor(...BLACK);
+  supplierLines.forEach((line, i) => {
+    doc.setFont('helvetica', i === 0 ? 'bold' : 'normal');
+    doc.text(line, ML + 14, y + 34 + i * 14);
+  });
+  doc.setFont('helvetica', 'normal');
+  dateLines.forEach(([label, value], i) => {
+    doc.setTextColor(...MID);
+    doc.text(label, ML + CW / 2 + 14, y + 34 + i * 14);
+    doc.setTextColor(...BLACK);
+    doc.text(value, ML + CW / 2 + 90, y + 34 + i * 14);
+  });
+  y += panelH + 24;
+
+  // ── Line table ─────────────────────────────────────────────────────────
+  y = drawTableHeader(doc, y);
+  let subtotal = 0;
+  doc.setFontSize(9);
+
+  for (const line of data.lines) {
+    const amount = line.quantity * line.unitCost;
+    subtotal += amount;
+    const desc = doc.splitTextToSize(line.description, COL_QTY - COL_DESC - 40) as string[];
+    const h = Math.max(ROW_H, desc.length * 12 + 8);
+
+    if (y + h > PH - MB) {
+      doc.addPage();
+      doc.setFillColor(...accent);
+      doc.rect(0, 0, PW, 3, 'F');
+      y = drawTableHeader(doc, MT);
+      doc.setFontSize(9);
+    }
+
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...MID);
+    doc.text(line.sku || '—', COL_SKU, y + 10);
+    doc.setTextColor(...BLACK);
+    doc.text(desc, COL_DESC, y + 10);
+    doc.text(`${qty(line.quantity)} ${line.unit}`, COL_QTY, y + 10, { align: 'right' });
+    doc.text(money(line.unitCost), COL_COST, y + 10, { align: 'right' });
+    doc.text(money(amount), COL_AMOUNT, y + 10, { align: 'right' });
+
+    y += h;
+    doc.setDrawColor(...RULE);
+    doc.setLineWidth(0.5);
+    doc.line(ML, y - 4, ML + CW, y - 4);
+  }
+
+  // ── Totals ─────────────────────────────────────────────────────────────
+  if (y + 80 > PH - MB) {
+    doc.addPage();
+    y = MT;
+  }
+  y += 12;
+  const totals: [string, string][] = [['Subtotal', money(subtotal)]];
+  if (data.shippingCost > 0) totals.push(['Shipping (est.)', money(data.shippingCost)]);
+  totals.push(['Total', money(subtotal + data.shippingCost)]);
+
+  totals.forEach(([label, value], i) => {
+    const last = i === totals.length - 1;
+    doc.setFont('helvetica', last ? 'bold' : 'normal');
+    doc.setFontSize(last ? 11 : 9);
+    doc.setTextColor(...(last ? BLACK : MID));
+    doc.text(label, COL_COST, y, { align: 'right' });
+    doc.setTextColor(...BLACK);
+    doc.text(value, COL_AMOUNT, y, { align: 'right' });
+    y += last ? 18 : 14;
+  });
+
+  // ── Notes ──────────────────────────────────────────────────────────────
+  if (data.notes) {
+    y += 12;
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'bold');
+    doc.setTextColor(...MID);
+    doc.text('NOTES', ML, y);
+    y += 12;
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...BLACK);
+    doc.text(doc.splitTextToSize(data.notes, CW) as string[], ML, y);
+  }
+
+  // ── Footer ─────────────────────────────────────────────────────────────
+  const pages = doc.getNumberOfPages();
+  for (let p = 1; p <= pages; p++) {
+    doc.setPage(p);
+    doc.setFontSize(7);
+    doc.setFont('helvetica', 'normal');
+    doc.setTextColor(...MID);
+    doc.text(`${data.poNumber} · Page ${p} of ${pages}`, ML, PH - 32);
+    doc.text('Powered by Sunstone Studio', PW - MR, PH - 32, { align: 'right' });
+  }
+
+  return doc;
+}
+
+export function downloadPurchaseOrderPDF(data: PurchaseOrderPDFData): void {
+  const doc = generatePurchaseOrderPDF(data);
+  doc.save(`${data.poNumber.toLowerCase()}.pdf`);
+}
@@ -53,3 +53,112 @@ export function formatGiftCardCode(code: string): string {
 export function normalizeGiftCardCode(input: string): string {
   return input.replace(/[\s-]/g, '').toUpperCase();
 }
+
+// ============================================================================
+// Expiration policy
+// ============================================================================
+// Federal law (CARD Act) sets a five-year floor from issue; some states go
+// further or ban expiration outright. These rules are a summary to keep
+// studios inside the common limits, not legal advice — edit the table as
+// laws change. Unlisted states fall back to the federal floor.
+
+export const FEDERAL_MIN_EXPIRY_MONTHS = 60;
+
+export interface GiftCardExpiryRule {
+  /** Minimum months from issue; null = expiration not allowed */
+  minMonths: number | null;
+  note: string;
+}
+
+export const GIFT_CARD_EXPIRY_RULES: Record<string, GiftCardExpiryRule> = {
+  CA: { minMonths: null, note: 'California prohibits expiration dates on gift cards.' },
+  CT: { minMonths: null, note: 'Connecticut prohibits expiration dates on gift cards.' },
+  FL: { minMonths: null, note: 'Florida prohibits expiration dates on gift cards.' },
+  ME: { minMonths: null, note: 'Maine prohibits expiration dates on gift cards.' },
+  MN: { minMonths: null, note: 'Minnesota prohibits expiration dates on gift cards.' },
+  MT: { minMonths: null, note: 'Montana prohibits expiration dates on gift cards.' },
+  NH: { minMonths: null, note: 'New Hampshire prohibits expiration on cards of $100 or less.' },
+  RI: { minMonths: null, note: 'Rhode Island prohibits expiration dates on gift cards.' },
+  WA: { minMonths: null, note: 'Washington prohibits expiration dates on most gift cards.' },
+  MA: { minMonths: 84, note: 'Massachusetts requires at least 7 years.' },
+  NY: { minMonths: 108, note: 'New York requires at least 9 years.' },
+};
+
+/** The rule that applies in `jurisdiction` (federal floor when unlisted). */
+export function getExpiryRule(jurisdiction: string | null | undefined): GiftCardExpiryRule {
+  const rule = jurisdiction ? GIFT_CARD_EXPIRY_RULES[jurisdiction.toUpperCase()] : undefined;
+  if (!rule) return { minMonths: FEDERAL_MIN_EXPIRY_MONTHS, note: 'Federal law requires at least 5 years from issue.' };
+  return rule.minMonths === null
+    ? rule
+    : { ...rule, minMonths: Math.max(rule.minMonths, FEDERAL_MIN_EXPIRY_MONTHS) };
+}
+
+/** Returns an error message when `months` breaks the jurisdiction's rule. */
+export function validateExpiryPolicy(months: number | null, jurisdiction: string | null): string | null {
+  if (months === null) return null;
+  if (!Number.isInteger(months) || months <= 0) return 'Expiration must be a whole number of months';
+  const rule = getExpiryRule(jurisdiction);
+  if (rule.minMonths === null) return rule.note;
+  if (months < rule.minMonths) return `Cards must be valid for at least ${rule.minMonths} months. ${rule.note}`;
+  return null;
+}
+
+/**
+ * Expiry timestamp for a card issued at `issuedAt` under the tenant's
+ * policy, or null when cards don't expire (or the policy is no longer
+ * allowed where the studio operates).
+ */
+export function computeGiftCardExpiry(
+  issuedAt: Date,
+  policy: { gift_card_expiry_months: number | null; gift_card_jurisdiction: string | null },
+): string | null {
+  const months = policy.gift_card_expiry_months;
+  if (!months || validateExpiryPolicy(months, policy.gift_card_jurisdiction)) return null;
+  const expires = new Date(issuedAt);
+  expires.setUTCMonth(expires.getUTCMonth() + months);
+  return expires.toISOString();
+}
+
+/** Whether a card's expiry date honours the rule for `jurisdiction`. */
+export function isExpiryEnforceable(
+  card: { purchased_at: string; expires_at: string | null },
+  jurisdiction: string | null,
+): boolean {
+  if (!card.expires_at) return false;
+  const rule = getExpiryRule(jurisdiction);
+  if (rule.minMonths === null) return false;
+  const earliest = new Date(card.purchased_at);
+  earliest.setUTCMonth(earliest.getUTCMonth() + rule.minMonths);
+  return new Date(card.expires_at) >= earliest;
+}
+
+/**
+ * True when the card's expiry date has passed and is one the tenant may
+ * enforce. Cards the daily job hasn't swept yet are caught here; expiry
+ * dates the law doesn't allow are ignored rather than honoured.
+ */
+export async function isPastExpiry(
+  supabase: SupabaseClient,
+  tenantId: string,
+  card: { purchased_at: string; expires_at: string | null },
+): Promise<boolean> {
+  if (!card.expires_at || new Date(card.expires_at) > new Date()) return false;
+  const { data: tenant } = await supabase
+    .from('tenants')
+    .select('gift_card_jurisdiction')
+    .eq('id', tenantId)
+    .single();
+  return isExpiryEnforceable(card, tenant?.gift_card_jurisdiction ?? null);
+}
+
+// ============================================================================
+// Ledger
+// ============================================================================
+
+export const GIFT_CARD_LEDGER_LABELS: Record<string, string> = {
+  issue: 'Issued',
+  redeem: 'Redeemed',
+  refund: 'Refund credit',
+  adjust: 'Adjustment',
+  expire: 'Expired',
+};
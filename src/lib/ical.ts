@@ -0,0 +1,389 @@
+// ============================================================================
+// iCalendar — src/lib/ical.ts
+// ============================================================================
+// Client-safe RFC 5545 helpers. buildCalendar() writes the subscription feed
+// served by /api/public/calendar/[token]; parseCalendar() reads an uploaded
+// .ics file (e.g. a market organizer's season schedule) for event import.
+//
+// The parser covers what calendar apps actually export: folded lines,
+// escaped text, UTC / TZID / floating / all-day DTSTART, and DAILY or WEEKLY
+// RRULEs (INTERVAL, COUNT, UNTIL, BYDAY) with EXDATEs. Other recurrence
+// rules import their first occurrence only.
+// ============================================================================
+
+import { isValidTimeZone, zonedTimeToUtc, getZonedParts } from '@/lib/timezone';
+
+const PRODID = '-//Sunstone Studio//Calendar Feed//EN';
+
+/** Most occurrences a single recurring event expands to on import. */
+const MAX_OCCURRENCES = 200;
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+export interface CalendarFeedEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  end?: Date | null;
+  /** All-day on this local date (YYYY-MM-DD) instead of start/end times */
+  allDayDate?: string;
+  description?: string | null;
+  location?: string | null;
+  status?: 'CONFIRMED' | 'TENTATIVE' | 'CANCELLED';
+  url?: string | null;
+  updatedAt?: string | null;
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Folds a content line at 75 octets (continuation lines start with a space). */
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? 75 : 74;
+    if (bytes + size > limit) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += char;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDate(dateStr: string): string {
+  return dateStr.slice(0, 10).replace(/-/g, '');
+}
+
+function nextDay(dateStr: string): string {
+  const [y, m, d] = dateStr.slice(0, 10).split('-').map((n) => parseInt(n, 10));
+  return new Date(Date.UTC(y, m - 1, d + 1)).toISOString().slice(0, 10);
+}
+
+/** Serialises a full VCALENDAR document with CRLF line endings. */
+export function buildCalendar(params: {
+  name: string;
+  timeZone: string;
+  events: CalendarFeedEvent[];
+  now?: Date;
+}): string {
+  const stamp = formatUtc(params.now || new Date());
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(params.name)}`,
+    `X-WR-TIMEZONE:${params.timeZone}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const event of params.events) {
+    lines.push('BEGIN:VEVENT', `UID:${event.uid}`, `DTSTAMP:${stamp}`);
+    if (event.allDayDate) {
+      lines.push(`DTSTART;VALUE=DATE:${formatDate(event.allDayDate)}`);
+      lines.push(`DTEND;VALUE=DATE:${formatDate(nextDay(event.allDayDate))}`);
+    } else {
+      lines.push(`DTSTART:${formatUtc(event.start)}`);
+      if (event.end && event.end > event.start) lines.push(`DTEND:${formatUtc(event.end)}`);
+    }
+    lines.push(`SUMMARY:${escapeText(event.summary)}`);
+    if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.updatedAt) lines.push(`LAST-MODIFIED:${formatUtc(new Date(event.updatedAt))}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+export interface ParsedCalendarEvent {
+  uid: string;
+  summary: string;
+  description: string | null;
+  location: string | null;
+  start: Date;
+  end: Date | null;
+  allDay: boolean;
+  /** IANA zone from DTSTART's TZID, when it named a recognisable one */
+  timeZone: string | null;
+}
+
+interface Property {
+  params: Record<string, string>;
+  value: string;
+}
+
+interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  allDay: boolean;
+  utc: boolean;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+function parseProperty(line: string): [string, Property] | null {
+  // Split NAME;PARAM=x;PARAM="y:z":VALUE on the first colon outside quotes
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) { colon = i; break; }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const p of rawParams) {
+    const eq = p.indexOf('=');
+    if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return [name.toUpperCase(), { params, value: line.slice(colon + 1) }];
+}
+
+/** Maps a TZID to an IANA zone; exporters sometimes prefix it with a path. */
+function resolveTzid(tzid: string | undefined): string | null {
+  if (!tzid) return null;
+  if (isValidTimeZone(tzid)) return tzid;
+  const match = (tzid as string).match(/([A-Za-z_]+\/[A-Za-z_]+(?:\/[A-Za-z_]+)?)$/);
+  return match && isValidTimeZone(match[1]) ? match[1] : null;
+}
+
+function parseDateTime(value: string, valueType?: string): LocalDateTime | null {
+  const m = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!m) return null;
+  const allDay = valueType === 'DATE' || m[4] === undefined;
+  return {
+    year: parseInt(m[1], 10),
+    month: parseInt(m[2], 10),
+    day: parseInt(m[3], 10),
+    hour: allDay ? 0 : parseInt(m[4], 10),
+    minute: allDay ? 0 : parseInt(m[5], 10),
+    allDay,
+    utc: m[7] === 'Z',
+  };
+}
+
+function toInstant(dt: LocalDateTime, timeZone: string): Date {
+  if (dt.utc) return new Date(Date.UTC(dt.year, dt.month - 1, dt.day, dt.hour, dt.minute));
+  return zonedTimeToUtc(dt.year, dt.month, dt.day, dt.hour, dt.minute, timeZone);
+}
+
+const BYDAY_INDEX: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+
+/**
+ * Local start dates (as day offsets from DTSTART) for a DAILY/WEEKLY rule.
+ * Returns null for rules we don't expand.
+ */
+function expandRule(
+  rule: string,
+  start: LocalDateTime,
+  timeZone: string
+): number[] | null {
+  const parts: Record<string, string> = {};
+  for (const p of rule.split(';')) {
+    const [k, v] = p.split('=');
+    if (k && v) parts[k.toUpperCase()] = v.toUpperCase();
+  }
+  if (parts.FREQ !== 'DAILY' && parts.FREQ !== 'WEEKLY') return null;
+
+  const interval = Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1);
+  const count = parts.COUNT ? parseInt(parts.COUNT, 10) : null;
+  const untilDt = parts.UNTIL ? parseDateTime(parts.UNTIL) : null;
+  const until = untilDt
+    ? (untilDt.allDay
+        ? zonedTimeToUtc(untilDt.year, untilDt.month, untilDt.day + 1, 0, 0, timeZone).getTime() - 1
+        : toInstant(untilDt, timeZone).getTime())
+    : null;
+  // Open-ended rules stop a year out so "weekly forever" stays reasonable
+  const horizon = until ?? toInstant({ ...start, year: start.year + 1 }, timeZone).getTime();
+
+  const startWeekday = new Date(Date.UTC(start.year, start.month - 1, start.day)).getUTCDay();
+  const byDay = parts.BYDAY
+    ? parts.BYDAY.split(',').map((d) => BYDAY_INDEX[d.slice(-2)]).filter((d) => d !== undefined)
+    : [startWeekday];
+
+  const offsets: number[] = [];
+  for (let offset = 0; offsets.length < Math.min(count ?? MAX_OCCURRENCES, MAX_OCCURRENCES); offset++) {
+    const instant = toInstant({ ...start, day: start.day + offset }, timeZone).getTime();
+    if (instant > horizon) break;
+
+    if (parts.FREQ === 'DAILY') {
+      if (offset % interval === 0) offsets.push(offset);
+      continue;
+    }
+    // WEEKLY: weeks are counted from the week (Sunday-based) containing DTSTART
+    const week = Math.floor((offset + startWeekday) / 7);
+    const weekday = (startWeekday + offset) % 7;
+    if (week % interval === 0 && byDay.includes(weekday)) offsets.push(offset);
+  }
+  return offsets;
+}
+
+/**
+ * Parses VEVENTs out of an .ics document. Floating times (no Z, no TZID) are
+ * read in `fallbackTimeZone`. Cancelled events are dropped; recurring events
+ * are expanded into one entry per occurrence with a per-occurrence UID.
+ */
+export function parseCalendar(text: string, fallbackTimeZone: string): ParsedCalendarEvent[] {
+  // Unfold continuation lines
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+
+  const results: ParsedCalendarEvent[] = [];
+  let current: Map<string, Property[]> | null = null;
+  let depth = 0;
+
+  for (const raw of lines) {
+    const line = raw.trimEnd();
+    if (!line) continue;
+
+    if (line.toUpperCase() === 'BEGIN:VEVENT') {
+      current = new Map();
+      depth = 0;
+      continue;
+    }
+    if (!current) continue;
+
+    // Skip nested components such as VALARM
+    if (line.toUpperCase().startsWith('BEGIN:')) { depth++; continue; }
+    if (line.toUpperCase().startsWith('END:') && depth > 0) { depth--; continue; }
+    if (depth > 0) continue;
+
+    if (line.toUpperCase() === 'END:VEVENT') {
+      results.push(...toEvents(current, fallbackTimeZone));
+      current = null;
+      continue;
+    }
+
+    const parsed = parseProperty(line);
+    if (parsed) {
+      const [name, prop] = parsed;
+      current.set(name, [...(current.get(name) || []), prop]);
+    }
+  }
+
+  return results.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+function toEvents(props: Map<string, Property[]>, fallbackTimeZone: string): ParsedCalendarEvent[] {
+  const first = (name: string) => props.get(name)?.[0];
+  const text = (name: string) => {
+    const v = first(name)?.value;
+    return v ? unescapeText(v).trim() || null : null;
+  };
+
+  if (first('STATUS')?.value.toUpperCase() === 'CANCELLED') return [];
+  // A RECURRENCE-ID override of one occurrence; the master event covers it
+  if (first('RECURRENCE-ID')) return [];
+
+  const dtstart = first('DTSTART');
+  if (!dtstart) return [];
+  const start = parseDateTime(dtstart.value, dtstart.params.VALUE);
+  if (!start) return [];
+
+  const tzid = resolveTzid(dtstart.params.TZID);
+  const timeZone = start.utc ? 'UTC' : tzid || fallbackTimeZone;
+
+  // Duration in ms (timed) or days (all-day)
+  const dtend = first('DTEND');
+  const end = dtend ? parseDateTime(dtend.value, dtend.params.VALUE) : null;
+  const startInstant = start.allDay
+    ? zonedTimeToUtc(start.year, start.month, start.day, 0, 0, fallbackTimeZone)
+    : toInstant(start, timeZone);
+  let durationMs: number | null = null;
+  if (end) {
+    const endTz = end.utc ? 'UTC' : resolveTzid(dtend?.params.TZID) || timeZone;
+    const endInstant = end.allDay
+      ? zonedTimeToUtc(end.year, end.month, end.day, 0, 0, fallbackTimeZone)
+      : toInstant(end, endTz);
+    if (endInstant > startInstant) durationMs = endInstant.getTime() - startInstant.getTime();
+  } else if (start.allDay) {
+    durationMs = 24 * 3_600_000;
+  }
+
+  const uid = first('UID')?.value.trim() || `${formatUtc(startInstant)}-${text('SUMMARY') || 'event'}`;
+  const base = {
+    summary: text('SUMMARY') || 'Untitled event',
+    description: text('DESCRIPTION'),
+    location: text('LOCATION'),
+    allDay: start.allDay,
+    timeZone: tzid,
+  };
+
+  const rrule = first('RRULE')?.value;
+  const offsets = rrule ? expandRule(rrule, start, start.allDay ? fallbackTimeZone : timeZone) : null;
+  if (!offsets) {
+    return [{
+      ...base,
+      uid,
+      start: startInstant,
+      end: durationMs !== null ? new Date(startInstant.getTime() + durationMs) : null,
+    }];
+  }
+
+  // EXDATEs, compared as local dates so all-day and timed exclusions both match
+  const zoneForDates = start.allDay ? fallbackTimeZone : timeZone;
+  const excluded = new Set<string>();
+  for (const ex of props.get('EXDATE') || []) {
+    for (const v of ex.value.split(',')) {
+      const dt = parseDateTime(v, ex.params.VALUE);
+      if (!dt) continue;
+      const exTz = dt.utc ? 'UTC' : resolveTzid(ex.params.TZID) || zoneForDates;
+      const p = getZonedParts(toInstant(dt, exTz), zoneForDates);
+      excluded.add(`${p.year}-${p.month}-${p.day}`);
+    }
+  }
+
+  const events: ParsedCalendarEvent[] = [];
+  for (const offset of offsets) {
+    const occurrence = start.allDay
+      ? zonedTimeToUtc(start.year, start.month, start.day + offset, 0, 0, fallbackTimeZone)
+      : toInstant({ ...start, day: start.day + offset }, timeZone);
+    const p = getZonedParts(occurrence, zoneForDates);
+    if (excluded.has(`${p.year}-${p.month}-${p.day}`)) continue;
+
+    events.push({
+      ...base,
+      uid: `${uid}/${formatUtc(occurrence)}`,
+      start: occurrence,
+      end: durationMs !== null ? new Date(occurrence.getTime() + durationMs) : null,
+    });
+  }
+  return events;
+}
@@ -60,7 +60,6 @@ export function calculateJumpRingNeeds(
       cart_item_name: item.name,
       jump_rings_needed: jumpRingsNeeded,
       jump_ring_inventory_id: matchedJumpRing?.id || null,
-      jump_ring_cost_each: matchedJumpRing ? Number(matchedJumpRing.cost_per_unit) : 0,
       material_name: item._material || 'Unknown',
       resolved: !!matchedJumpRing,
     });
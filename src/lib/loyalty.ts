@@ -0,0 +1,88 @@
+// ============================================================================
+// Loyalty Utilities — src/lib/loyalty.ts
+// ============================================================================
+// Labels and point math for the loyalty program (migration 097). Earning,
+// bonuses and expiry happen in the database; this mirrors the earn rule so
+// checkout can show what a sale will earn, and loads balances for template
+// variables ({{loyalty_points}}).
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LoyaltyEarnMode, LoyaltyReward, LoyaltySource, Tenant } from '@/types';
+
+export const LOYALTY_EARN_MODES: { value: LoyaltyEarnMode; label: string; unit: string }[] = [
+  { value: 'per_dollar', label: 'Per dollar spent', unit: 'per $1' },
+  { value: 'per_piece', label: 'Per piece', unit: 'per piece' },
+];
+
+export const LOYALTY_SOURCE_LABELS: Record<LoyaltySource, string> = {
+  sale: 'Purchase',
+  birthday: 'Birthday bonus',
+  referral: 'Referral bonus',
+  party: 'Party host bonus',
+  reward: 'Reward redeemed',
+  expiry: 'Points expired',
+  manual: 'Adjustment',
+};
+
+type LoyaltySettings = Pick<Tenant, 'loyalty_enabled' | 'loyalty_earn_mode' | 'loyalty_earn_rate'>;
+
+/**
+ * Points a sale earns: the rate times the pre-tax subtotal after discounts,
+ * or times the pieces (lines with a product type). Matches
+ * loyalty_earn_on_sale() in the migration.
+ */
+export function pointsForSale(
+  settings: LoyaltySettings,
+  sale: { subtotal: number; discount_amount: number; items: { quantity: number; product_type_id?: string | null }[] }
+): number {
+  if (!settings.loyalty_enabled) return 0;
+  const base = settings.loyalty_earn_mode === 'per_piece'
+    ? sale.items.filter((i) => i.product_type_id).reduce((sum, i) => sum + (Number(i.quantity) || 0), 0)
+    : Math.max(0, sale.subtotal - sale.discount_amount);
+  return Math.floor(base * Number(settings.loyalty_earn_rate));
+}
+
+/** "Earns 2 points per $1" */
+export function earnRuleSummary(settings: LoyaltySettings): string {
+  const rate = Number(settings.loyalty_earn_rate);
+  const unit = LOYALTY_EARN_MODES.find((m) => m.value === settings.loyalty_earn_mode)?.unit || '';
+  return `${formatPoints(rate)} ${unit}`;
+}
+
+export function formatPoints(points: number): string {
+  const n = Number(points) || 0;
+  return `${n.toLocaleString('en-US', { maximumFractionDigits: 2 })} ${Math.abs(n) === 1 ? 'point' : 'points'}`;
+}
+
+export function rewardDiscountLabel(reward: Pick<LoyaltyReward, 'discount_type' | 'discount_value'>): string {
+  return reward.discount_type === 'flat'
+    ? `$${Number(reward.discount_value).toFixed(2)} off`
+    : `${Number(reward.discount_value)}% off`;
+}
+
+/** The cheapest active reward the balance doesn't cover yet, if any. */
+export function nextReward(points: number, rewards: LoyaltyReward[]): LoyaltyReward | null {
+  return rewards
+    .filter((r) => r.is_active && r.points_cost > points)
+    .sort((a, b) => a.points_cost - b.points_cost)[0] || null;
+}
+
+/**
+ * Current balances for a set of clients, keyed by client id. Clients
+ * without a row (or with no points) read as 0.
+ */
+export async function loadLoyaltyBalances(
+  supabase: SupabaseClient,
+  clientIds: string[]
+): Promise<Record<string, number>> {
+  const balances: Record<string, number> = {};
+  for (let i = 0; i < clientIds.length; i += 500) {
+    const { data } = await supabase
+      .from('clients')
+      .select('id, loyalty_points')
+      .in('id', clientIds.slice(i, i + 500));
+    for (const row of data || []) balances[row.id] = row.loyalty_points || 0;
+  }
+  return balances;
+}
@@ -0,0 +1,191 @@
+// ============================================================================
+// Message Media — src/lib/message-media.ts
+// ============================================================================
+// MMS attachments for conversations and broadcasts (migration 094). Files
+// live in the private message-media bucket under the tenant's id; the
+// dashboard and Twilio only ever see signed URLs.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { MessageMedia } from '@/types';
+
+export const MESSAGE_MEDIA_BUCKET = 'message-media';
+
+// Images every US carrier delivers as MMS
+export const MMS_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif'];
+// Twilio rejects MMS over 5 MB; carriers resize anything large
+export const MMS_MAX_BYTES = 5 * 1024 * 1024;
+export const MMS_MAX_ATTACHMENTS = 3;
+
+// How long signed URLs stay valid — long enough for the dashboard to poll,
+// and for Twilio to fetch the image while a broadcast works through its list
+const DISPLAY_URL_SECONDS = 60 * 60;
+const SEND_URL_SECONDS = 24 * 60 * 60;
+
+function extensionFor(contentType: string): string {
+  if (contentType === 'image/jpeg') return 'jpg';
+  const sub = contentType.split('/')[1] || 'bin';
+  return sub.replace(/[^a-z0-9]/gi, '').slice(0, 10) || 'bin';
+}
+
+function mediaPath(tenantId: string, folder: 'inbound' | 'outbound', contentType: string): string {
+  return `${tenantId}/${folder}/${crypto.randomUUID()}.${extensionFor(contentType)}`;
+}
+
+// Only Twilio's own API gets the account credentials
+const TWILIO_MEDIA_HOST = 'api.twilio.com';
+
+/** Read a response body, giving up once it passes `maxBytes`. */
+async function readCapped(res: Response, maxBytes: number): Promise<Uint8Array> {
+  const length = Number(res.headers.get('content-length'));
+  if (length > maxBytes) throw new Error(`Media is ${length} bytes, over the ${maxBytes} limit`);
+  if (!res.body) return new Uint8Array(0);
+
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.byteLength;
+    if (total > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Media is over the ${maxBytes} byte limit`);
+    }
+    chunks.push(value);
+  }
+
+  const data = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return data;
+}
+
+// ── Inbound ───────────────────────────────────────────────────────────────
+
+/**
+ * Copy the media on an inbound Twilio message into storage. Twilio's media
+ * URLs need account credentials and are deleted with the message, so
+ * they're not kept. Attachments that fail to download, or are bigger than
+ * Twilio's MMS limit, are skipped.
+ */
+export async function storeInboundMedia(
+  client: SupabaseClient,
+  tenantId: string,
+  params: Record<string, string>
+): Promise<MessageMedia[]> {
+  const count = Math.min(parseInt(params.NumMedia || '0', 10) || 0, 10);
+  if (count === 0) return [];
+
+  const auth = process.env.TWILIO_ACCOUNT_SID && process.env.TWILIO_AUTH_TOKEN
+    ? 'Basic ' + Buffer.from(`${process.env.TWILIO_ACCOUNT_SID}:${process.env.TWILIO_AUTH_TOKEN}`).toString('base64')
+    : null;
+
+  const media: MessageMedia[] = [];
+  for (let i = 0; i < count; i++) {
+    const url = params[`MediaUrl${i}`];
+    if (!url) continue;
+    try {
+      const { protocol, hostname } = new URL(url);
+      if (protocol !== 'https:') throw new Error('Media URL is not https');
+      const headers = auth && hostname === TWILIO_MEDIA_HOST ? { Authorization: auth } : undefined;
+
+      const res = await fetch(url, { headers });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const contentType = (params[`MediaContentType${i}`] || res.headers.get('content-type') || 'application/octet-stream')
+        .split(';')[0].trim().toLowerCase();
+      const data = await readCapped(res, MMS_MAX_BYTES);
+
+      const path = mediaPath(tenantId, 'inbound', contentType);
+      const { error } = await client.storage
+        .from(MESSAGE_MEDIA_BUCKET)
+        .upload(path, data, { contentType, upsert: false });
+      if (error) throw error;
+
+      media.push({ path, content_type: contentType });
+    } catch (err) {
+      console.error(`[Message Media] Failed to store inbound media ${i}:`, err);
+    }
+  }
+  return media;
+}
+
+// ── Outbound ──────────────────────────────────────────────────────────────
+
+/** Validate an image upload; returns an error message, or null if it's fine. */
+export function validateMmsImage(file: { type: string; size: number }): string | null {
+  if (!MMS_IMAGE_TYPES.includes(file.type)) return 'Images must be JPG, PNG or GIF';
+  if (file.size > MMS_MAX_BYTES) return 'Images must be under 5 MB';
+  return null;
+}
+
+export async function uploadOutboundMedia(
+  client: SupabaseClient,
+  tenantId: string,
+  file: File
+): Promise<MessageMedia> {
+  const path = mediaPath(tenantId, 'outbound', file.type);
+  const { error } = await client.storage
+    .from(MESSAGE_MEDIA_BUCKET)
+    .upload(path, await file.arrayBuffer(), { contentType: file.type, upsert: false });
+  if (error) throw error;
+  return { path, content_type: file.type };
+}
+
+/**
+ * Read the `media` field of a send request: uploaded attachments, as
+ * returned by POST /api/conversations/media. Returns null when it's
+ * malformed or names a file outside the tenant's folder.
+ */
+export function parseMediaInput(tenantId: string, value: unknown): MessageMedia[] | null {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.length > MMS_MAX_ATTACHMENTS) return null;
+
+  const media: MessageMedia[] = [];
+  for (const item of value) {
+    const path = typeof item?.path === 'string' ? item.path : '';
+    const contentType = typeof item?.content_type === 'string' ? item.content_type : '';
+    if (!path.startsWith(`${tenantId}/outbound/`) || path.includes('..')) return null;
+    if (!MMS_IMAGE_TYPES.includes(contentType)) return null;
+    media.push({ path, content_type: contentType });
+  }
+  return media;
+}
+
+/** Signed URLs Twilio can fetch the attachments from while sending. */
+export async function mediaUrlsForSend(client: SupabaseClient, media: MessageMedia[]): Promise<string[]> {
+  if (media.length === 0) return [];
+  const { data, error } = await client.storage
+    .from(MESSAGE_MEDIA_BUCKET)
+    .createSignedUrls(media.map((m) => m.path), SEND_URL_SECONDS);
+  if (error || !data) throw error || new Error('Failed to sign media');
+
+  const urls = data.map((d) => d.signedUrl).filter(Boolean);
+  if (urls.length !== media.length) throw new Error('Media not found');
+  return urls;
+}
+
+// ── Display ───────────────────────────────────────────────────────────────
+
+/** Attach display URLs to each item's media, signing them in one request. */
+export async function withMediaUrls<T extends { media?: MessageMedia[] | null }>(
+  client: SupabaseClient,
+  rows: T[]
+): Promise<T[]> {
+  const paths = rows.flatMap((r) => (r.media || []).map((m) => m.path));
+  if (paths.length === 0) return rows;
+
+  const { data } = await client.storage
+    .from(MESSAGE_MEDIA_BUCKET)
+    .createSignedUrls(paths, DISPLAY_URL_SECONDS);
+  const urls = new Map((data || []).map((d) => [d.path, d.signedUrl]));
+
+  return rows.map((r) =>
+    r.media?.length
+      ? { ...r, media: r.media.map((m) => ({ ...m, url: urls.get(m.path) || undefined })) }
+      : r
+  );
+}
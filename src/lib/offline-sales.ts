@@ -0,0 +1,390 @@
+// ============================================================================
+// Offline Sales — src/lib/offline-sales.ts
+// ============================================================================
+// IndexedDB-backed cache and sale queue that let Event Mode keep selling when
+// the network drops. The event's catalog (chains, product types, prices, tax
+// profile) is cached on every online load, and cash / Venmo / external-card
+// sales completed offline are queued with a client-generated id. Once back
+// online the queue is replayed through create_sale_transaction — the id makes
+// replays idempotent.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type {
+  CartItem, ChainProductPrice, Event, InventoryItem, InventoryItemVariant, ProductType, SaleTaxLineInput,
+  TaxProfile,
+} from '@/types';
+import { createWarrantyRecords } from '@/lib/warranty';
+
+const DB_NAME = 'sunstone-event-mode';
+const DB_VERSION = 1;
+const EVENT_STORE = 'event_cache';
+const SALE_STORE = 'sale_queue';
+
+/** Payment methods that can be recorded without reaching a payment provider. */
+export const OFFLINE_PAYMENT_METHODS = ['cash', 'venmo', 'card_external'] as const;
+
+export interface CachedEventData {
+  event_id: string;
+  tenant_id: string;
+  event: Event;
+  tax_profile: TaxProfile | null;
+  inventory: InventoryItem[];
+  item_variants: Record<string, InventoryItemVariant[]>;
+  product_types: ProductType[];
+  chain_prices: ChainProductPrice[];
+  pricing_tiers: { id: string; name: string }[];
+  cached_at: string;
+}
+
+export interface InventoryDeduction {
+  item_id: string;
+  amount: number;
+  log_movement: boolean;
+  notes: string | null;
+  performed_by: string | null;
+  variant_id?: string | null;
+}
+
+export interface SyncConflict {
+  item_id: string;
+  variant_id: string | null;
+  name: string;
+  needed: number;
+  available: number;
+}
+
+export type QueuedSaleStatus = 'pending' | 'synced' | 'failed';
+
+export interface QueuedSale {
+  /** Idempotency key — becomes sales.client_sale_id. */
+  client_sale_id: string;
+  tenant_id: string;
+  event_id: string;
+  created_at: string;
+  status: QueuedSaleStatus;
+  attempts: number;
+  last_error: string | null;
+  sale_id: string | null;
+  synced_at: string | null;
+  conflicts: SyncConflict[];
+  // Sale payload (create_sale_transaction parameters)
+  subtotal: number;
+  discount_amount: number;
+  tax_amount: number;
+  tip_amount: number;
+  total: number;
+  // Absent on sales queued before per-jurisdiction tax lines
+  tax_profile_id?: string | null;
+  tax_inclusive?: boolean;
+  tax_lines?: SaleTaxLineInput[];
+  payment_method: string;
+  fee_handling: string | null;
+  receipt_email: string | null;
+  receipt_phone: string | null;
+  notes: string | null;
+  completed_by: string | null;
+  client_id: string | null;
+  queue_entry_id: string | null;
+  items: Record<string, unknown>[];
+  inventory_deductions: InventoryDeduction[];
+  // Follow-up work done after the sale exists
+  warranty: {
+    cart_items: CartItem[];
+    cart_warranty_amount: number;
+    coverage_terms: string | null;
+    duration_days: number | null;
+  } | null;
+  cash_drawer_id: string | null;
+}
+
+export interface SyncResult {
+  synced: number;
+  failed: number;
+  conflicts: number;
+}
+
+export interface SyncOptions {
+  /** Find or create the client from the receipt contact captured offline. */
+  resolveClientId?: (email: string, phone: string) => Promise<string | null>;
+}
+
+// ---------------------------------------------------------------------------
+// IndexedDB helpers
+// ---------------------------------------------------------------------------
+
+export function isOfflineStorageAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(EVENT_STORE)) {
+        db.createObjectStore(EVENT_STORE, { keyPath: 'event_id' });
+      }
+      if (!db.objectStoreNames.contains(SALE_STORE)) {
+        const store = db.createObjectStore(SALE_STORE, { keyPath: 'client_sale_id' });
+        store.createIndex('event_id', 'event_id');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(storeName, mode);
+      const request = run(tx.objectStore(storeName));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Event catalog cache
+// ---------------------------------------------------------------------------
+
+export async function cacheEventData(data: Omit<CachedEventData, 'cached_at'>): Promise<void> {
+  if (!isOfflineStorageAvailable()) return;
+  await withStore(EVENT_STORE, 'readwrite', (store) =>
+    store.put({ ...data, cached_at: new Date().toISOString() })
+  );
+}
+
+export async function getCachedEventData(eventId: string): Promise<CachedEventData | null> {
+  if (!isOfflineStorageAvailable()) return null;
+  const cached = await withStore<CachedEventData | undefined>(EVENT_STORE, 'readonly', (store) =>
+    store.get(eventId)
+  );
+  return cached || null;
+}
+
+// ---------------------------------------------------------------------------
+// Sale queue
+// ---------------------------------------------------------------------------
+
+/**
+ * Queue a sale for replay. Pass the same client_sale_id that was sent with a
+ * failed online attempt so the replay can't double-record it.
+ */
+export async function queueOfflineSale(
+  sale: Omit<QueuedSale, 'created_at' | 'status' | 'attempts' | 'last_error' | 'sale_id' | 'synced_at' | 'conflicts'>
+): Promise<QueuedSale> {
+  const queued: QueuedSale = {
+    ...sale,
+    created_at: new Date().toISOString(),
+    status: 'pending',
+    attempts: 0,
+    last_error: null,
+    sale_id: null,
+    synced_at: null,
+    conflicts: [],
+  };
+  await withStore(SALE_STORE, 'readwrite', (store) => store.put(queued));
+  return queued;
+}
+
+export async function getQueuedSales(eventId?: string): Promise<QueuedSale[]> {
+  if (!isOfflineStorageAvailable()) return [];
+  const sales = await withStore<QueuedSale[]>(SALE_STORE, 'readonly', (store) =>
+    eventId ? store.index('event_id').getAll(eventId) : store.getAll()
+  );
+  return sales.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/** True when a request failed because the device couldn't reach the server. */
+export function isNetworkError(err: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = String((err as any)?.message || '');
+  return err instanceof TypeError || /failed to fetch|network|load failed/i.test(message);
+}
+
+async function saveQueuedSale(sale: QueuedSale): Promise<void> {
+  await withStore(SALE_STORE, 'readwrite', (store) => store.put(sale));
+}
+
+/** Remove a synced sale once its conflicts have been reviewed. */
+export async function dismissQueuedSale(clientSaleId: string): Promise<void> {
+  await withStore(SALE_STORE, 'readwrite', (store) => store.delete(clientSaleId));
+}
+
+// ---------------------------------------------------------------------------
+// Replay
+// ---------------------------------------------------------------------------
+
+/**
+ * Stock that was sold offline but is no longer on hand. The sale still goes
+ * through (the jewelry already left the booth) and stock floors at 0, so the
+ * artist is told which items need a count.
+ */
+async function findStockConflicts(
+  supabase: SupabaseClient,
+  sale: QueuedSale
+): Promise<SyncConflict[]> {
+  const deductions = sale.inventory_deductions;
+  if (deductions.length === 0) return [];
+
+  const itemIds = [...new Set(deductions.map((d) => d.item_id))];
+  const variantIds = [...new Set(deductions.map((d) => d.variant_id).filter(Boolean))] as string[];
+
+  const [{ data: items }, { data: variants }] = await Promise.all([
+    supabase.from('inventory_items').select('id, name, quantity_on_hand').in('id', itemIds),
+    variantIds.length > 0
+      ? supabase.from('inventory_item_variants').select('id, name, quantity_on_hand').in('id', variantIds)
+      : Promise.resolve({ data: [] as { id: string; name: string; quantity_on_hand: number }[] }),
+  ]);
+
+  const itemMap = new Map((items || []).map((i) => [i.id, i]));
+  const variantMap = new Map((variants || []).map((v) => [v.id, v]));
+
+  // Sum per stock location — several lines can draw from the same chain
+  const needed = new Map<string, { item_id: string; variant_id: string | null; amount: number }>();
+  for (const d of deductions) {
+    const key = d.variant_id || d.item_id;
+    const existing = needed.get(key);
+    if (existing) existing.amount += d.amount;
+    else needed.set(key, { item_id: d.item_id, variant_id: d.variant_id || null, amount: d.amount });
+  }
+
+  const conflicts: SyncConflict[] = [];
+  for (const n of needed.values()) {
+    const item = itemMap.get(n.item_id);
+    const variant = n.variant_id ? variantMap.get(n.variant_id) : null;
+    const available = Number((variant || item)?.quantity_on_hand ?? 0);
+    if (n.amount > available) {
+      conflicts.push({
+        item_id: n.item_id,
+        variant_id: n.variant_id,
+        name: variant ? `${item?.name || 'Item'} — ${variant.name}` : item?.name || 'Item',
+        needed: n.amount,
+        available,
+      });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Replay every pending queued sale in the order it was rung up. Sales that
+ * fail stay queued for the next attempt; follow-up work (warranties, cash
+ * drawer entries) is best-effort once the sale exists.
+ */
+export async function syncQueuedSales(
+  supabase: SupabaseClient,
+  options: SyncOptions = {}
+): Promise<SyncResult> {
+  const result: SyncResult = { synced: 0, failed: 0, conflicts: 0 };
+  const pending = (await getQueuedSales()).filter((s) => s.status !== 'synced');
+
+  for (const sale of pending) {
+    sale.attempts += 1;
+    try {
+      let clientId = sale.client_id;
+      if (!clientId && options.resolveClientId && (sale.receipt_email || sale.receipt_phone)) {
+        clientId = await options.resolveClientId(sale.receipt_email || '', sale.receipt_phone || '');
+      }
+
+      // A sale that already committed (a timed-out online attempt, or a replay
+      // cut off before it was marked synced) has taken its stock already
+      const { data: existing } = await supabase
+        .from('sales')
+        .select('id')
+        .eq('tenant_id', sale.tenant_id)
+        .eq('client_sale_id', sale.client_sale_id)
+        .maybeSingle();
+      const conflicts = existing ? [] : await findStockConflicts(supabase, sale);
+
+      const { data: saleId, error } = await supabase.rpc('create_sale_transaction', {
+        p_tenant_id: sale.tenant_id,
+        p_event_id: sale.event_id,
+        p_client_id: clientId || null,
+        p_subtotal: sale.subtotal,
+        p_discount_amount: sale.discount_amount,
+        p_tax_amount: sale.tax_amount,
+        p_tip_amount: sale.tip_amount,
+        p_platform_fee_amount: 0,
+        p_total: sale.total,
+        p_payment_method: sale.payment_method,
+        p_payment_status: 'completed',
+        p_payment_provider: null,
+        p_platform_fee_rate: 0,
+        p_fee_handling: sale.fee_handling,
+        p_status: 'completed',
+        p_receipt_email: sale.receipt_email,
+        p_receipt_phone: sale.receipt_phone,
+        p_notes: sale.notes,
+        p_completed_by: sale.completed_by,
+        p_items: sale.items,
+        p_inventory_deductions: sale.inventory_deductions,
+        p_queue_entry_id: sale.queue_entry_id,
+        p_client_sale_id: sale.client_sale_id,
+        p_created_at: sale.created_at,
+        p_tax_profile_id: sale.tax_profile_id ?? null,
+        p_tax_inclusive: sale.tax_inclusive ?? false,
+        p_tax_lines: sale.tax_lines ?? null,
+      });
+      if (error) throw error;
+      if (!saleId) throw new Error('Failed to create sale');
+
+      if (sale.warranty) {
+        await createWarrantyRecords({
+          supabase,
+          saleId,
+          tenantId: sale.tenant_id,
+          clientId: clientId || null,
+          cartItems: sale.warranty.cart_items,
+          cartWarrantyAmount: sale.warranty.cart_warranty_amount,
+          coverageTerms: sale.warranty.coverage_terms,
+          durationDays: sale.warranty.duration_days,
+        }).catch(() => {});
+      }
+
+      if (sale.payment_method === 'cash' && sale.cash_drawer_id) {
+        const post = (type: 'sale' | 'tip', amount: number) =>
+          fetch(`/api/cash-drawers/${sale.cash_drawer_id}/transaction`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ type, amount, saleId }),
+          }).catch(() => {});
+        await post('sale', sale.total - sale.tip_amount);
+        if (sale.tip_amount > 0) await post('tip', sale.tip_amount);
+      }
+
+      sale.status = 'synced';
+      sale.sale_id = saleId;
+      sale.client_id = clientId || null;
+      sale.synced_at = new Date().toISOString();
+      sale.last_error = null;
+      sale.conflicts = conflicts;
+      result.synced++;
+      if (conflicts.length > 0) result.conflicts++;
+
+      // Nothing left to review — drop it from the queue
+      if (conflicts.length === 0) {
+        await dismissQueuedSale(sale.client_sale_id);
+        continue;
+      }
+    } catch (err: any) {
+      sale.status = 'failed';
+      sale.last_error = err?.message || 'Sync failed';
+      result.failed++;
+    }
+    await saveQueuedSale(sale);
+  }
+
+  return result;
+}
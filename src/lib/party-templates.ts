@@ -8,8 +8,9 @@
 
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { renderTemplate } from '@/lib/templates';
-import { sendSMS, normalizePhone, normalizePhoneDigits } from '@/lib/twilio';
+import { sendSMS, normalizePhone, normalizePhoneDigits, isSmsOptedOut, SMS_OPTED_OUT } from '@/lib/twilio';
 import { getCrmStatus } from '@/lib/crm-status';
+import { atLocalTime, atLocalTimeOnDate, resolveTimeZone } from '@/lib/timezone';
 
 // ============================================================================
 // Default Party Templates (seeded per tenant)
@@ -308,7 +309,7 @@ export async function handlePartyStatusChange(
   // Fetch tenant
   const { data: tenant } = await supabase
     .from('tenants')
-    .select('name, slug, phone, dedicated_phone_number, party_auto_reminders, party_reward_settings, party_guest_sequences, instagram_url, crm_enabled, crm_subscription_id, crm_trial_end, crm_deactivated_at')
+    .select('name, slug, phone, dedicated_phone_number, party_auto_reminders, party_reward_settings, party_guest_sequences, instagram_url, crm_enabled, crm_subscription_id, crm_trial_end, crm_deactivated_at, time_zone')
     .eq('id', tenantId)
     .single();
 
@@ -334,15 +335,19 @@ export async function handlePartyStatusChange(
     if (!party.host_phone || !tenant.dedicated_phone_number) return;
     const body = await getTemplateBody(tenantId, templateName);
     const resolved = renderTemplate(body, variables);
+    const optedOut = await isSmsOptedOut(tenantId, party.host_phone);
 
     // Send SMS
-    sendSMS({
-      to: normalizePhone(party.host_phone),
-      body: resolved,
-      tenantId,
-    }).catch(() => {});
+    if (!optedOut) {
+      sendSMS({
+        to: normalizePhone(party.host_phone),
+        body: resolved,
+        tenantId,
+        source: 'party',
+      }).catch(() => {});
+    }
 
-    // Log to party_scheduled_messages as 'sent'
+    // Log to party_scheduled_messages as 'sent' (or skipped for an opt-out)
     await supabase.from('party_scheduled_messages').insert({
       tenant_id: tenantId,
       party_request_id: partyRequestId,
@@ -351,8 +356,9 @@ export async function handlePartyStatusChange(
       recipient_name: party.host_name,
       message_body: resolved,
       scheduled_for: new Date().toISOString(),
-      sent_at: new Date().toISOString(),
-      status: 'sent',
+      sent_at: optedOut ? null : new Date().toISOString(),
+      status: optedOut ? 'skipped' : 'sent',
+      skip_reason: optedOut ? SMS_OPTED_OUT : null,
     });
   };
 
@@ -387,28 +393,24 @@ export async function handlePartyStatusChange(
 
       // Schedule reminders only for CRM users with auto-reminders enabled
       if (crmActive && autoReminders && party.preferred_date) {
-        const partyDate = new Date(party.preferred_date + 'T12:00:00');
+        // preferred_date is a calendar date — reminder hours are the tenant's local time
+        const timeZone = resolveTimeZone(tenant);
         const now = new Date();
 
         // 1 week before (at 10am)
-        const oneWeekBefore = new Date(partyDate);
-        oneWeekBefore.setDate(oneWeekBefore.getDate() - 7);
-        oneWeekBefore.setHours(10, 0, 0, 0);
+        const oneWeekBefore = atLocalTimeOnDate(party.preferred_date, 10, timeZone, -7);
         if (oneWeekBefore > now) {
           await scheduleFuture('Party Reminder — 1 Week', oneWeekBefore);
         }
 
         // Day before (at 10am)
-        const dayBefore = new Date(partyDate);
-        dayBefore.setDate(dayBefore.getDate() - 1);
-        dayBefore.setHours(10, 0, 0, 0);
+        const dayBefore = atLocalTimeOnDate(party.preferred_date, 10, timeZone, -1);
         if (dayBefore > now) {
           await scheduleFuture('Party Reminder — Day Before', dayBefore);
         }
 
         // Morning of (at 9am)
-        const morningOf = new Date(partyDate);
-        morningOf.setHours(9, 0, 0, 0);
+        const morningOf = atLocalTimeOnDate(party.preferred_date, 9, timeZone);
         if (morningOf > now) {
           await scheduleFuture('Party Day', morningOf);
         }
@@ -500,7 +502,7 @@ async function scheduleGuestSequences(
   tenantId: string,
   partyRequestId: string,
   party: { host_phone: string; host_name: string; id: string },
-  tenant: { name: string; slug: string; dedicated_phone_number?: string | null; instagram_url?: string | null },
+  tenant: { name: string; slug: string; dedicated_phone_number?: string | null; instagram_url?: string | null; time_zone?: string | null },
   partyVars: Record<string, string>,
   crmActive: boolean
 ): Promise<void> {
@@ -529,6 +531,7 @@ async function scheduleGuestSequences(
   const hostDigits = party.host_phone ? normalizePhoneDigits(party.host_phone) : '';
 
   const now = new Date();
+  const timeZone = resolveTimeZone(tenant);
 
   for (const rsvp of rsvps) {
     if (!rsvp.phone) continue;
@@ -594,28 +597,20 @@ async function scheduleGuestSequences(
     if (isTrackA && crmActive) {
       // ── G2: Social Share (Day 3, 11am) — CRM only, skip if no instagram_url ─
       if (tenant.instagram_url) {
-        const g2Time = new Date(now);
-        g2Time.setDate(g2Time.getDate() + 3);
-        g2Time.setHours(11, 0, 0, 0);
+        const g2Time = atLocalTime(now, 11, timeZone, 3);
         await scheduleGuest('Guest Social Share', g2Time);
       }
 
       // ── G3: Book Your Own Party (Day 10, 11am) — CRM only ─
-      const g3Time = new Date(now);
-      g3Time.setDate(g3Time.getDate() + 10);
-      g3Time.setHours(11, 0, 0, 0);
+      const g3Time = atLocalTime(now, 11, timeZone, 10);
       await scheduleGuest('Guest Book Your Own Party', g3Time);
 
       // ── G4: Collection Nudge (Day 21, 11am) — CRM only ─
-      const g4Time = new Date(now);
-      g4Time.setDate(g4Time.getDate() + 21);
-      g4Time.setHours(11, 0, 0, 0);
+      const g4Time = atLocalTime(now, 11, timeZone, 21);
       await scheduleGuest('Guest Collection Nudge', g4Time);
     } else if (!isTrackA) {
       // ── G5: Opt-In Invite (Day 3, 11am) — ALL tiers, Track B only ─
-      const g5Time = new Date(now);
-      g5Time.setDate(g5Time.getDate() + 3);
-      g5Time.setHours(11, 0, 0, 0);
+      const g5Time = atLocalTime(now, 11, timeZone, 3);
       await scheduleGuest('Guest Opt-In Invite', g5Time);
     }
   }
@@ -0,0 +1,406 @@
+// ============================================================================
+// Payroll — src/lib/payroll.ts
+// ============================================================================
+// Staff earnings for a pay period (migration 089): wages for hours worked,
+// commission from each member's plan on the sales they rang up, less
+// clawbacks for refunds in the period, plus tips by the tenant's
+// allocation rule.
+//
+// Commissionable revenue is what the items sold for after discounts —
+// never tax, tips or warranties — and gift card sales earn nothing (the
+// card's redemption is the sale). Tiered plans are marginal on the
+// member's revenue for the whole period, so a tiered clawback uses the
+// period's effective rate.
+//
+// Tip pools are per event and shared by hours logged for the event; with
+// no hours logged they're shared equally by whoever rang up sales there.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { selectAll } from '@/lib/supabase/select-all';
+import type {
+  CommissionPlan,
+  CommissionPlanType,
+  CommissionTier,
+  PayrollMemberRow,
+  PayrollReport,
+  PayrollTipPool,
+  TenantRole,
+  TipAllocation,
+} from '@/types';
+
+export const COMMISSION_PLAN_TYPES: { value: CommissionPlanType; label: string; description: string }[] = [
+  { value: 'percent', label: 'Percent of sales', description: 'A share of what their sales bring in.' },
+  { value: 'per_piece', label: 'Per piece', description: 'A flat amount for every piece they sell.' },
+  { value: 'tiered', label: 'Tiered', description: 'Higher rates as their sales for the pay period grow.' },
+];
+
+export const TIP_ALLOCATIONS: { value: TipAllocation; label: string; description: string }[] = [
+  { value: 'server', label: 'To who served', description: 'Each tip goes to whoever rang up the sale.' },
+  { value: 'event_pool', label: 'Pooled per event', description: 'Event tips are shared by hours worked at the event.' },
+  { value: 'split', label: 'Split', description: 'Part of each event tip is pooled, the rest goes to who served.' },
+];
+
+/** Marginal commission: each tier's rate applies to revenue above its threshold. */
+export function tieredCommission(tiers: CommissionTier[], revenue: number): number {
+  const sorted = [...tiers].sort((a, b) => a.from - b.from);
+  let commission = 0;
+  sorted.forEach((tier, i) => {
+    const upper = i + 1 < sorted.length ? sorted[i + 1].from : Infinity;
+    const portion = Math.min(revenue, upper) - tier.from;
+    if (portion > 0) commission += portion * tier.rate;
+  });
+  return commission;
+}
+
+function commissionSummary(plan: Pick<CommissionPlan, 'plan_type' | 'rate' | 'per_piece_amount' | 'tiers' | 'scope'>): string | null {
+  const scope = plan.scope === 'pieces' ? ' of chain pieces' : '';
+  if (plan.plan_type === 'per_piece') {
+    return Number(plan.per_piece_amount) > 0 ? `$${Number(plan.per_piece_amount).toFixed(2)} per piece` : null;
+  }
+  if (plan.plan_type === 'tiered') {
+    const tiers = [...plan.tiers].sort((a, b) => a.from - b.from);
+    return tiers.length > 0 ? tiers.map((t) => `${+(t.rate * 100).toFixed(2)}% over $${t.from}`).join(', ') + scope : null;
+  }
+  return Number(plan.rate) > 0 ? `${+(Number(plan.rate) * 100).toFixed(2)}%${scope}` : null;
+}
+
+export function planSummary(
+  plan: Pick<CommissionPlan, 'plan_type' | 'rate' | 'per_piece_amount' | 'tiers' | 'scope' | 'hourly_rate'> | null
+): string {
+  if (!plan) return 'No pay plan';
+  const parts = [
+    Number(plan.hourly_rate) > 0 ? `$${Number(plan.hourly_rate).toFixed(2)}/hr` : null,
+    commissionSummary(plan),
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' + ') : 'No pay plan';
+}
+
+// ── Report ────────────────────────────────────────────────────────────────
+
+interface PayrollSaleRow {
+  id: string;
+  event_id: string | null;
+  completed_by: string | null;
+  subtotal: number;
+  discount_amount: number;
+  tip_amount: number;
+  total: number;
+  tax_inclusive: boolean | null;
+  sale_items: { line_total: number; quantity: number; product_type_id: string | null }[] | null;
+}
+
+interface PayrollRefundRow {
+  amount: number;
+  sale: PayrollSaleRow | null;
+}
+
+interface MemberRow {
+  id: string;
+  user_id: string;
+  role: TenantRole;
+  display_name: string | null;
+  invited_email: string | null;
+  accepted_at: string | null;
+}
+
+const SALE_COLUMNS =
+  'id, event_id, completed_by, subtotal, discount_amount, tip_amount, total, tax_inclusive, sale_items(line_total, quantity, product_type_id)';
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/** Commissionable revenue and piece count of one sale under a plan scope. */
+function saleBase(sale: PayrollSaleRow, scope: CommissionPlan['scope']): { revenue: number; pieces: number } {
+  const items = sale.sale_items || [];
+  const itemsTotal = items.reduce((s, i) => s + (Number(i.line_total) || 0), 0);
+  const scoped = scope === 'pieces' ? items.filter((i) => i.product_type_id) : items;
+  const scopedTotal = scoped.reduce((s, i) => s + (Number(i.line_total) || 0), 0);
+  const pieces = scoped.reduce((s, i) => s + (Number(i.quantity) || 0), 0);
+  if (itemsTotal <= 0) return { revenue: 0, pieces };
+
+  // Tax-inclusive subtotals are already stored net of the tax
+  const net = Math.max(0, (sale.tax_inclusive ? Number(sale.subtotal) : itemsTotal) - (Number(sale.discount_amount) || 0));
+  return { revenue: (net * scopedTotal) / itemsTotal, pieces };
+}
+
+function commissionOn(plan: CommissionPlan | undefined, base: { revenue: number; pieces: number }): number {
+  if (!plan) return 0;
+  if (plan.plan_type === 'per_piece') return base.pieces * Number(plan.per_piece_amount);
+  if (plan.plan_type === 'percent') return base.revenue * Number(plan.rate);
+  return 0; // tiered: settled on the period total
+}
+
+/**
+ * Earnings for sales between `start` and `end` (refunds by refund date).
+ * Pass `onlyMemberId` for a member's own view: other members' rows and pool
+ * shares are left out.
+ */
+export async function getPayrollReport(
+  supabase: SupabaseClient,
+  tenantId: string,
+  period: { start: Date; end: Date; from: string; to: string },
+  onlyMemberId?: string
+): Promise<PayrollReport> {
+  const start = period.start.toISOString();
+  const end = period.end.toISOString();
+
+  const [{ data: tenant }, members, plans, sales, refunds, giftCardSales, periodHours] = await Promise.all([
+    supabase.from('tenants').select('owner_id, tip_allocation, tip_pool_percent').eq('id', tenantId).single(),
+    selectAll<MemberRow>((from, to) =>
+      supabase
+        .from('tenant_members')
+        .select('id, user_id, role, display_name, invited_email, accepted_at')
+        .eq('tenant_id', tenantId)
+        .order('id')
+        .range(from, to)
+    ),
+    selectAll<CommissionPlan>((from, to) =>
+      supabase
+        .from('commission_plans')
+        .select('*')
+        .eq('tenant_id', tenantId)
+        .eq('is_active', true)
+        .order('id')
+        .range(from, to)
+    ),
+    selectAll<PayrollSaleRow>((from, to) =>
+      supabase
+        .from('sales')
+        .select(SALE_COLUMNS)
+        .eq('tenant_id', tenantId)
+        .eq('status', 'completed')
+        .eq('payment_status', 'completed')
+        .gte('created_at', start)
+        .lt('created_at', end)
+        .order('id')
+        .range(from, to) as unknown as PromiseLike<{ data: PayrollSaleRow[] | null; error: { message: string } | null }>
+    ),
+    selectAll<PayrollRefundRow>((from, to) =>
+      supabase
+        .from('refunds')
+        .select(`amount, sale:sales(${SALE_COLUMNS})`)
+        .eq('tenant_id', tenantId)
+        .gte('created_at', start)
+        .lt('created_at', end)
+        .order('id')
+        .range(from, to) as unknown as PromiseLike<{ data: PayrollRefundRow[] | null; error: { message: string } | null }>
+    ),
+    selectAll<{ sale_id: string }>((from, to) =>
+      supabase
+        .from('gift_cards')
+        .select('sale_id')
+        .eq('tenant_id', tenantId)
+        .not('sale_id', 'is', null)
+        .order('id')
+        .range(from, to)
+    ),
+    selectAll<{ member_id: string; hours: number; hourly_rate: number | null }>((from, to) =>
+      supabase
+        .from('staff_hours')
+        .select('member_id, hours, hourly_rate')
+        .eq('tenant_id', tenantId)
+        .gte('work_date', period.from)
+        .lte('work_date', period.to)
+        .order('id')
+        .range(from, to)
+    ),
+  ]);
+
+  const tipAllocation: TipAllocation = (tenant?.tip_allocation as TipAllocation) || 'server';
+  const poolShare = tipAllocation === 'event_pool' ? 1 : tipAllocation === 'split' ? Number(tenant?.tip_pool_percent ?? 50) / 100 : 0;
+  const giftCardSaleIds = new Set(giftCardSales.map((g) => g.sale_id));
+  const memberByUser = new Map(members.map((m) => [m.user_id, m]));
+  const planByMember = new Map(plans.map((p) => [p.member_id, p]));
+
+  const rows = new Map<string, PayrollMemberRow>();
+  const rowFor = (memberId: string | null) => {
+    const key = memberId || '';
+    let row = rows.get(key);
+    if (!row) {
+      const member = memberId ? members.find((m) => m.id === memberId) : undefined;
+      row = {
+        member_id: memberId,
+        name: member
+          ? member.display_name || member.invited_email || (member.user_id === tenant?.owner_id ? 'Owner' : 'Team member')
+          : 'Unattributed',
+        role: member?.role || null,
+        sales: 0,
+        revenue: 0,
+        pieces: 0,
+        hours: 0,
+        wages: 0,
+        commission: 0,
+        clawback: 0,
+        tips_direct: 0,
+        tips_pooled: 0,
+        total: 0,
+      };
+      rows.set(key, row);
+    }
+    return row;
+  };
+  for (const m of members) if (m.accepted_at) rowFor(m.id);
+
+  // ── Sales: revenue, pieces and tips ──
+  const pools = new Map<string, number>();
+  const sellersByEvent = new Map<string, Set<string>>();
+  const flatCommission = new Map<string, number>();
+  for (const sale of sales) {
+    if (giftCardSaleIds.has(sale.id)) continue;
+    const memberId = sale.completed_by ? memberByUser.get(sale.completed_by)?.id || null : null;
+    const row = rowFor(memberId);
+    const plan = memberId ? planByMember.get(memberId) : undefined;
+    const base = saleBase(sale, plan?.scope || 'all');
+    row.sales += 1;
+    row.revenue += base.revenue;
+    row.pieces += base.pieces;
+    if (memberId) flatCommission.set(memberId, (flatCommission.get(memberId) || 0) + commissionOn(plan, base));
+
+    const tip = Number(sale.tip_amount) || 0;
+    const pooled = sale.event_id ? tip * poolShare : 0;
+    row.tips_direct += tip - pooled;
+    if (sale.event_id) {
+      if (pooled > 0) pools.set(sale.event_id, (pools.get(sale.event_id) || 0) + pooled);
+      if (memberId) {
+        const sellers = sellersByEvent.get(sale.event_id) || new Set<string>();
+        sellers.add(memberId);
+        sellersByEvent.set(sale.event_id, sellers);
+      }
+    }
+  }
+
+  // ── Commission ──
+  for (const row of rows.values()) {
+    if (!row.member_id) continue;
+    const plan = planByMember.get(row.member_id);
+    row.commission = plan?.plan_type === 'tiered'
+      ? tieredCommission(plan.tiers || [], row.revenue)
+      : flatCommission.get(row.member_id) || 0;
+  }
+
+  // ── Refund clawbacks: the refunded share of the sale's commission ──
+  for (const refund of refunds) {
+    const sale = refund.sale;
+    if (!sale || !sale.completed_by || giftCardSaleIds.has(sale.id)) continue;
+    const member = memberByUser.get(sale.completed_by);
+    const plan = member ? planByMember.get(member.id) : undefined;
+    if (!member || !plan) continue;
+    const charged = Number(sale.total) - (Number(sale.tip_amount) || 0);
+    if (charged <= 0) continue;
+    const share = Math.min(1, Number(refund.amount) / charged);
+    const base = saleBase(sale, plan.scope);
+    const row = rowFor(member.id);
+    let commission = commissionOn(plan, base);
+    if (plan.plan_type === 'tiered') {
+      const sortedTiers = [...(plan.tiers || [])].sort((a, b) => a.from - b.from);
+      const effectiveRate = row.revenue > 0 ? row.commission / row.revenue : sortedTiers[0]?.rate || 0;
+      commission = base.revenue * effectiveRate;
+    }
+    row.clawback += commission * share;
+  }
+
+  // ── Tip pools, shared by hours worked at the event ──
+  const tipPools: PayrollTipPool[] = [];
+  const poolEventIds = [...pools.keys()];
+  if (poolEventIds.length > 0) {
+    const eventHours: { member_id: string; event_id: string; hours: number }[] = [];
+    const eventNames = new Map<string, string>();
+    for (let i = 0; i < poolEventIds.length; i += 200) {
+      const ids = poolEventIds.slice(i, i + 200);
+      const [{ data: hours }, { data: events }] = await Promise.all([
+        supabase.from('staff_hours').select('member_id, event_id, hours').eq('tenant_id', tenantId).in('event_id', ids),
+        supabase.from('events').select('id, name').in('id', ids),
+      ]);
+      eventHours.push(...((hours || []) as { member_id: string; event_id: string; hours: number }[]));
+      for (const e of events || []) eventNames.set(e.id, e.name);
+    }
+
+    for (const eventId of poolEventIds) {
+      const pooled = pools.get(eventId) || 0;
+      const byMember = new Map<string, number>();
+      for (const h of eventHours) {
+        if (h.event_id === eventId) byMember.set(h.member_id, (byMember.get(h.member_id) || 0) + Number(h.hours));
+      }
+      let totalHours = [...byMember.values()].reduce((s, h) => s + h, 0);
+      let weights = byMember;
+      if (totalHours <= 0) {
+        // No hours logged — share equally among whoever sold at the event
+        weights = new Map([...(sellersByEvent.get(eventId) || [])].map((id) => [id, 1]));
+        totalHours = 0;
+      }
+      const weightTotal = [...weights.values()].reduce((s, w) => s + w, 0);
+
+      const shares: Record<string, number> = {};
+      if (weightTotal > 0) {
+        for (const [memberId, weight] of weights) {
+          const amount = (pooled * weight) / weightTotal;
+          shares[memberId] = round2(amount);
+          rowFor(memberId).tips_pooled += amount;
+        }
+      } else {
+        rowFor(null).tips_pooled += pooled;
+      }
+
+      tipPools.push({
+        event_id: eventId,
+        event_name: eventNames.get(eventId) || 'Deleted event',
+        pooled: round2(pooled),
+        hours: round2(totalHours),
+        shares,
+      });
+    }
+  }
+
+  // ── Wages, at the rate snapshotted when the hours were logged ──
+  for (const h of periodHours) {
+    if (!rows.has(h.member_id) && !members.some((m) => m.id === h.member_id)) continue;
+    const row = rowFor(h.member_id);
+    row.hours += Number(h.hours);
+    row.wages += Number(h.hours) * (Number(h.hourly_rate) || 0);
+  }
+
+  let memberRows = [...rows.values()].map((row) => {
+    const wages = round2(row.wages);
+    const commission = round2(row.commission);
+    const clawback = round2(row.clawback);
+    const tipsDirect = round2(row.tips_direct);
+    const tipsPooled = round2(row.tips_pooled);
+    return {
+      ...row,
+      revenue: round2(row.revenue),
+      hours: round2(row.hours),
+      wages,
+      commission,
+      clawback,
+      tips_direct: tipsDirect,
+      tips_pooled: tipsPooled,
+      total: round2(wages + commission - clawback + tipsDirect + tipsPooled),
+    };
+  });
+  // Unattributed sales only matter if there were any
+  memberRows = memberRows.filter((r) => r.member_id || r.sales > 0 || r.tips_pooled > 0);
+  memberRows.sort((a, b) => (a.member_id ? 0 : 1) - (b.member_id ? 0 : 1) || b.total - a.total || a.name.localeCompare(b.name));
+
+  let visiblePools = tipPools;
+  if (onlyMemberId) {
+    memberRows = memberRows.filter((r) => r.member_id === onlyMemberId);
+    visiblePools = tipPools
+      .filter((p) => p.shares[onlyMemberId] !== undefined)
+      .map((p) => ({ ...p, shares: { [onlyMemberId]: p.shares[onlyMemberId] } }));
+  }
+
+  return {
+    from: period.from,
+    to: period.to,
+    tip_allocation: tipAllocation,
+    members: memberRows,
+    tip_pools: visiblePools,
+    totals: {
+      wages: round2(memberRows.reduce((s, r) => s + r.wages, 0)),
+      commission: round2(memberRows.reduce((s, r) => s + r.commission, 0)),
+      clawback: round2(memberRows.reduce((s, r) => s + r.clawback, 0)),
+      tips: round2(memberRows.reduce((s, r) => s + r.tips_direct + r.tips_pooled, 0)),
+      total: round2(memberRows.reduce((s, r) => s + r.total, 0)),
+    },
+  };
+}
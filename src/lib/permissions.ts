@@ -1,8 +1,11 @@
 // ============================================================================
 // Permissions Helper — src/lib/permissions.ts
 // ============================================================================
-// Client-safe module (no secrets). Defines the role-permission matrix
-// and provides helper functions for checking permissions.
+// Client-safe module (no secrets). Defines the permission catalog, the
+// default permissions of the three built-in roles, and helpers for checking
+// permissions. Tenants can edit the built-in roles and add their own
+// (team_roles, migration 091); a member's role is resolved to a RoleGrant
+// with roleGrant() and checked with hasPermission() like a built-in role.
 // Import anywhere: import { hasPermission, type Permission } from '@/lib/permissions';
 // ============================================================================
 
@@ -24,9 +27,77 @@ export type Permission =
   | 'payments:connect'
   | 'team:manage'
   | 'discounts:apply'
-  | 'sales:refund';
+  | 'sales:refund'
+  | 'sales:void'
+  | 'costs:view'
+  | 'data:export'
+  | 'prices:edit'
+  | 'broadcasts:send'
+  | 'gift_cards:manage'
+  | 'cash_drawer:manage'
+  | 'audit:view';
 
-const ROLE_PERMISSIONS: Record<TenantRole, Permission[]> = {
+/**
+ * Everything a role can be granted, grouped for the role editor.
+ * Order here is the order shown in Settings → Team → Roles.
+ */
+export const PERMISSION_GROUPS: {
+  label: string;
+  permissions: { key: Permission; label: string; description: string }[];
+}[] = [
+  {
+    label: 'Point of Sale',
+    permissions: [
+      { key: 'pos:use', label: 'Use the POS', description: 'Ring up sales in store and event mode' },
+      { key: 'queue:manage', label: 'Manage the queue', description: 'Check in and call customers' },
+      { key: 'discounts:apply', label: 'Apply discounts', description: 'Up to the role\'s discount limit' },
+      { key: 'sales:refund', label: 'Refund sales', description: 'Full and per-item refunds' },
+      { key: 'sales:void', label: 'Void sales', description: 'Cancel unpaid and pending sales' },
+      { key: 'cash_drawer:manage', label: 'Open and close the cash drawer', description: 'Count in, pay in/out and count out' },
+    ],
+  },
+  {
+    label: 'Inventory',
+    permissions: [
+      { key: 'inventory:view', label: 'View inventory', description: 'Products, stock and locations' },
+      { key: 'inventory:edit', label: 'Edit inventory', description: 'Stock, counts, transfers and purchase orders' },
+      { key: 'prices:edit', label: 'Edit prices', description: 'Retail prices on products and chains' },
+      { key: 'inventory:delete', label: 'Delete inventory', description: 'Remove products' },
+      { key: 'costs:view', label: 'View costs and margins', description: 'Unit costs, stock value and profit' },
+    ],
+  },
+  {
+    label: 'Events & Clients',
+    permissions: [
+      { key: 'events:view', label: 'View events', description: 'The event calendar' },
+      { key: 'events:edit', label: 'Edit events', description: 'Create and update events' },
+      { key: 'events:delete', label: 'Delete events', description: 'Remove events' },
+      { key: 'clients:view', label: 'View clients', description: 'Client profiles and history' },
+      { key: 'clients:edit', label: 'Edit clients', description: 'Update client details' },
+      { key: 'broadcasts:send', label: 'Send broadcasts', description: 'Text and email client lists' },
+      { key: 'gift_cards:manage', label: 'Manage gift cards', description: 'Adjust and void gift cards' },
+    ],
+  },
+  {
+    label: 'Business',
+    permissions: [
+      { key: 'reports:view', label: 'View reports', description: 'Sales, event and payroll reports' },
+      { key: 'data:export', label: 'Export data', description: 'CSV and accounting exports' },
+      { key: 'settings:manage', label: 'Manage settings', description: 'Business, tax and booking settings' },
+      { key: 'payments:connect', label: 'Connect payments', description: 'Square and Stripe accounts' },
+      { key: 'team:manage', label: 'Manage team', description: 'Invite members and edit roles' },
+      { key: 'audit:view', label: 'View audit log', description: 'Who refunded, discounted, repriced or deleted what' },
+    ],
+  },
+];
+
+export const ALL_PERMISSIONS: Permission[] = PERMISSION_GROUPS.flatMap((g) => g.permissions.map((p) => p.key));
+
+/**
+ * Defaults for the built-in roles. Migration 091 seeds each tenant's
+ * Manager and Staff roles with these lists — keep the two in step.
+ */
+export const ROLE_PERMISSIONS: Record<TenantRole, Permission[]> = {
   admin: [
     'pos:use',
     'queue:manage',
@@ -44,6 +115,14 @@ const ROLE_PERMISSIONS: Record<TenantRole, Permission[]> = {
     'team:manage',
     'discounts:apply',
     'sales:refund',
+    'sales:void',
+    'costs:view',
+    'data:export',
+    'prices:edit',
+    'broadcasts:send',
+    'gift_cards:manage',
+    'cash_drawer:manage',
+    'audit:view',
   ],
   manager: [
     'pos:use',
@@ -57,6 +136,12 @@ const ROLE_PERMISSIONS: Record<TenantRole, Permission[]> = {
     'reports:view',
     'discounts:apply',
     'sales:refund',
+    'sales:void',
+    'costs:view',
+    'data:export',
+    'prices:edit',
+    'broadcasts:send',
+    'cash_drawer:manage',
   ],
   staff: [
     'pos:use',
@@ -64,27 +149,77 @@ const ROLE_PERMISSIONS: Record<TenantRole, Permission[]> = {
     'inventory:view',
     'events:view',
     'clients:view',
+    'sales:void',
+    'cash_drawer:manage',
   ],
 };
 
+// ── Tenant roles ──
+
+/** What a member's role allows, resolved from their team role */
+export interface RoleGrant {
+  permissions: readonly Permission[];
+  /** Largest discount allowed, as a percent of the sale or line. null = no limit */
+  discount_max_percent: number | null;
+  /** Largest discount allowed, in dollars. null = no limit */
+  discount_max_amount: number | null;
+}
+
+/** Embed for tenant_members selects: `select(\`tenant_id, role, ${TEAM_ROLE_JOIN}\`)` */
+export const TEAM_ROLE_JOIN = 'team_role:team_roles(system_key, permissions, discount_max_percent, discount_max_amount)';
+
+interface TeamRoleGrantRow {
+  system_key: TenantRole | null;
+  permissions: string[] | null;
+  discount_max_percent: number | string | null;
+  discount_max_amount: number | string | null;
+}
+
+const numOrNull = (v: number | string | null | undefined) => (v == null || v === '' ? null : Number(v));
+
+/**
+ * Resolve a tenant_members row (selected with TEAM_ROLE_JOIN) to its grant.
+ * The Admin role always has every permission; members without a team role
+ * fall back to the defaults for their built-in role.
+ */
+export function roleGrant(member: {
+  role: string;
+  team_role?: TeamRoleGrantRow | TeamRoleGrantRow[] | null;
+}): RoleGrant {
+  const teamRole = Array.isArray(member.team_role) ? member.team_role[0] : member.team_role;
+  if (teamRole?.system_key === 'admin' || (!teamRole && member.role === 'admin')) {
+    return { permissions: ALL_PERMISSIONS, discount_max_percent: null, discount_max_amount: null };
+  }
+  if (!teamRole) {
+    return { permissions: getPermissions(member.role as TenantRole), discount_max_percent: null, discount_max_amount: null };
+  }
+  return {
+    permissions: (teamRole.permissions || []).filter((p): p is Permission => ALL_PERMISSIONS.includes(p as Permission)),
+    discount_max_percent: numOrNull(teamRole.discount_max_percent),
+    discount_max_amount: numOrNull(teamRole.discount_max_amount),
+  };
+}
+
 /**
- * Check if a role has a specific permission.
+ * Check if a role has a specific permission. Takes a built-in role (its
+ * defaults) or a tenant role resolved with roleGrant().
  */
-export function hasPermission(role: TenantRole, permission: Permission): boolean {
+export function hasPermission(role: TenantRole | RoleGrant, permission: Permission): boolean {
+  if (typeof role !== 'string') return role.permissions.includes(permission);
   return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
 }
 
 /**
  * Check if a role has ANY of the given permissions.
  */
-export function hasAnyPermission(role: TenantRole, permissions: Permission[]): boolean {
+export function hasAnyPermission(role: TenantRole | RoleGrant, permissions: Permission[]): boolean {
   return permissions.some((p) => hasPermission(role, p));
 }
 
 /**
  * Check if a role has ALL of the given permissions.
  */
-export function hasAllPermissions(role: TenantRole, permissions: Permission[]): boolean {
+export function hasAllPermissions(role: TenantRole | RoleGrant, permissions: Permission[]): boolean {
   return permissions.every((p) => hasPermission(role, p));
 }
 
@@ -95,6 +230,27 @@ export function getPermissions(role: TenantRole): Permission[] {
   return ROLE_PERMISSIONS[role] ?? [];
 }
 
+/**
+ * Whether a discount of `amount` dollars off `base` dollars is within the
+ * grant's limits. Requires discounts:apply.
+ */
+export function discountAllowed(grant: RoleGrant, amount: number, base: number): boolean {
+  if (!hasPermission(grant, 'discounts:apply')) return false;
+  if (grant.discount_max_amount != null && amount > grant.discount_max_amount + 0.005) return false;
+  if (grant.discount_max_percent != null && base > 0 && (amount / base) * 100 > grant.discount_max_percent + 0.005) {
+    return false;
+  }
+  return true;
+}
+
+/** "Up to 10% / $25", or "No limit" */
+export function discountLimitLabel(grant: Pick<RoleGrant, 'discount_max_percent' | 'discount_max_amount'>): string {
+  const parts: string[] = [];
+  if (grant.discount_max_percent != null) parts.push(`${Number(grant.discount_max_percent)}%`);
+  if (grant.discount_max_amount != null) parts.push(`$${Number(grant.discount_max_amount).toFixed(2)}`);
+  return parts.length > 0 ? `Up to ${parts.join(' / ')}` : 'No limit';
+}
+
 /**
  * Role display labels and colors for UI.
  */
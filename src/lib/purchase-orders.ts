@@ -0,0 +1,175 @@
+// ============================================================================
+// Purchase Orders — src/lib/purchase-orders.ts
+// ============================================================================
+// Shared helpers for supplier POs: status labels, numbering, totals, the
+// landed-cost preview (mirrors receive_purchase_order in migration 086) and
+// the PDF payload.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getInventoryCosts, unitCostOf } from '@/lib/cost-layers';
+import type { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus } from '@/types';
+import type { PurchaseOrderPDFData } from '@/lib/generate-po-pdf';
+
+export const PURCHASE_ORDER_STATUSES: {
+  value: PurchaseOrderStatus;
+  label: string;
+  variant: 'default' | 'info' | 'warning' | 'success' | 'error';
+}[] = [
+  { value: 'draft', label: 'Draft', variant: 'default' },
+  { value: 'sent', label: 'Sent', variant: 'info' },
+  { value: 'partially_received', label: 'Partially received', variant: 'warning' },
+  { value: 'received', label: 'Received', variant: 'success' },
+  { value: 'cancelled', label: 'Cancelled', variant: 'error' },
+];
+
+export function purchaseOrderStatus(status: PurchaseOrderStatus) {
+  return PURCHASE_ORDER_STATUSES.find((s) => s.value === status) || PURCHASE_ORDER_STATUSES[0];
+}
+
+/** Select string for a PO with its supplier, lines and receipts. */
+export const PURCHASE_ORDER_SELECT =
+  '*, supplier:suppliers(id, name, contact_name, contact_email, account_number), ' +
+  'lines:purchase_order_lines(*, item:inventory_items(name, unit)), ' +
+  'receipts:purchase_order_receipts(*, lines:purchase_order_receipt_lines(line_id, quantity, unit_cost, landed_unit_cost))';
+
+/** Next PO number for the tenant: PO-1001, PO-1002, … */
+export async function nextPurchaseOrderNumber(supabase: SupabaseClient, tenantId: string): Promise<string> {
+  const { data } = await supabase
+    .from('purchase_orders')
+    .select('po_number')
+    .eq('tenant_id', tenantId)
+    .like('po_number', 'PO-%')
+    .order('created_at', { ascending: false })
+    .limit(20);
+  const highest = (data || []).reduce((max, row) => {
+    const n = parseInt(String(row.po_number).replace(/^PO-/, ''), 10);
+    return Number.isFinite(n) && n > max ? n : max;
+  }, 1000);
+  return `PO-${highest + 1}`;
+}
+
+export function purchaseOrderSubtotal(lines: Pick<PurchaseOrderLine, 'quantity_ordered' | 'unit_cost'>[]): number {
+  return Math.round(lines.reduce((sum, l) => sum + Number(l.quantity_ordered) * Number(l.unit_cost), 0) * 100) / 100;
+}
+
+/**
+ * Landed unit cost per received line: shipping spread by line value, or by
+ * quantity when every line is free. Same split the database applies.
+ */
+export function landedUnitCosts(
+  lines: { quantity: number; unitCost: number }[],
+  shippingCost: number,
+): number[] {
+  const totalValue = lines.reduce((sum, l) => sum + l.quantity * l.unitCost, 0);
+  const totalQty = lines.reduce((sum, l) => sum + l.quantity, 0);
+  return lines.map((l) => {
+    if (l.quantity <= 0) return l.unitCost;
+    let landed = l.unitCost;
+    if (shippingCost > 0 && totalValue > 0) {
+      landed += (shippingCost * (l.quantity * l.unitCost) / totalValue) / l.quantity;
+    } else if (shippingCost > 0 && totalQty > 0) {
+      landed += shippingCost / totalQty;
+    }
+    return Math.round(landed * 10000) / 10000;
+  });
+}
+
+/** Build the PDF payload from a PO loaded with PURCHASE_ORDER_SELECT. */
+export function purchaseOrderPdfData(
+  po: PurchaseOrder,
+  tenant: { name: string; brand_color?: string | null; phone?: string | null },
+  senderEmail?: string | null,
+): PurchaseOrderPDFData {
+  return {
+    tenantName: tenant.name,
+    tenantAccentColor: tenant.brand_color || undefined,
+    tenantEmail: senderEmail || null,
+    tenantPhone: tenant.phone || null,
+    poNumber: po.po_number,
+    orderDate: po.order_date,
+    expectedDate: po.expected_date,
+    supplier: {
+      name: po.supplier?.name || 'Supplier',
+      contactName: po.supplier?.contact_name,
+      email: po.supplier?.contact_email,
+      accountNumber: po.supplier?.account_number,
+    },
+    lines: [...(po.lines || [])]
+      .sort((a, b) => a.sort_order - b.sort_order)
+      .map((l) => ({
+        sku: l.supplier_sku,
+        description: l.description,
+        quantity: Number(l.quantity_ordered),
+        unit: l.item?.unit || 'each',
+        unitCost: Number(l.unit_cost),
+      })),
+    shippingCost: Number(po.shipping_cost) || 0,
+    notes: po.notes,
+  };
+}
+
+export interface PurchaseOrderLineInput {
+  inventory_item_id: string;
+  inventory_variant_id?: string | null;
+  quantity_ordered: number;
+  unit_cost?: number;
+  supplier_sku?: string | null;
+}
+
+/**
+ * Validate submitted lines against the tenant's inventory and snapshot the
+ * description (item — variant). Unit cost defaults to the current cost, or
+ * 0 for roles that can't see costs.
+ */
+export async function resolvePurchaseOrderLines(
+  supabase: SupabaseClient,
+  tenantId: string,
+  input: unknown,
+): Promise<{ lines: Omit<PurchaseOrderLine, 'id' | 'purchase_order_id' | 'quantity_received' | 'item'>[] } | { error: string }> {
+  if (!Array.isArray(input) || input.length === 0) return { error: 'Add at least one line' };
+  const raw = input as PurchaseOrderLineInput[];
+
+  const itemIds = [...new Set(raw.map((l) => l.inventory_item_id).filter(Boolean))];
+  const variantIds = [...new Set(raw.map((l) => l.inventory_variant_id).filter(Boolean))] as string[];
+  const needsCosts = raw.some((l) => l.unit_cost === undefined || l.unit_cost === null);
+  const [{ data: items }, { data: variants }, costs] = await Promise.all([
+    supabase.from('inventory_items').select('id, name, sku').eq('tenant_id', tenantId).in('id', itemIds),
+    variantIds.length
+      ? supabase.from('inventory_item_variants').select('id, inventory_item_id, name, sku').eq('tenant_id', tenantId).in('id', variantIds)
+      : Promise.resolve({ data: [] as { id: string; inventory_item_id: string; name: string; sku: string | null }[] }),
+    needsCosts
+      ? getInventoryCosts(supabase, tenantId, itemIds).catch(() => new Map<string, number>())
+      : new Map<string, number>(),
+  ]);
+  const itemById = new Map((items || []).map((i) => [i.id, i]));
+  const variantById = new Map((variants || []).map((v) => [v.id, v]));
+
+  const lines = [];
+  for (const [index, l] of raw.entries()) {
+    const item = itemById.get(l.inventory_item_id);
+    if (!item) return { error: 'One of the items is no longer in your inventory' };
+    const variant = l.inventory_variant_id ? variantById.get(l.inventory_variant_id) : null;
+    if (l.inventory_variant_id && (!variant || variant.inventory_item_id !== item.id)) {
+      return { error: `Variant not found for ${item.name}` };
+    }
+    const quantity = Number(l.quantity_ordered);
+    if (!Number.isFinite(quantity) || quantity <= 0) return { error: `Enter a quantity for ${item.name}` };
+    const unitCost = l.unit_cost === undefined || l.unit_cost === null
+      ? unitCostOf(costs, item.id, variant?.id || null)
+      : Number(l.unit_cost);
+    if (!Number.isFinite(unitCost) || unitCost < 0) return { error: `Unit cost for ${item.name} can't be negative` };
+
+    lines.push({
+      tenant_id: tenantId,
+      inventory_item_id: item.id,
+      inventory_variant_id: variant?.id || null,
+      description: variant ? `${item.name} — ${variant.name}` : item.name,
+      supplier_sku: l.supplier_sku?.trim() || variant?.sku || item.sku || null,
+      quantity_ordered: quantity,
+      unit_cost: unitCost,
+      sort_order: index,
+    });
+  }
+  return { lines };
+}
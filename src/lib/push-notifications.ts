@@ -86,6 +86,10 @@ export async function initPushNotifications(): Promise<void> {
           if (typeof window !== 'undefined') {
             window.location.href = dest;
           }
+        } else if (data.type === 'shift_reminder') {
+          if (typeof window !== 'undefined') {
+            window.location.href = '/dashboard/shifts';
+          }
         }
       } catch (err: any) {
         console.warn('[push] Tap handler error:', err.message);
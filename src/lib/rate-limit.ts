@@ -1,34 +1,21 @@
 // ============================================================================
-// In-Memory Rate Limiter — src/lib/rate-limit.ts
+// Rate Limiter — src/lib/rate-limit.ts
 // ============================================================================
-// Simple sliding-window rate limiter using a Map.
-// Suitable for single-instance deployments (Vercel serverless functions).
-// Each cold start gets a fresh Map, so limits are per-instance best-effort.
+// Sliding-window rate limiting with a pluggable store.
+//
+// The default store is Postgres (rate_limit_consume RPC, migration 080), so
+// limits are shared across every serverless instance. MemoryRateLimitStore
+// keeps the old per-process behaviour for tests and local runs without a
+// service role key, and is also the fallback if the database call fails.
+//
+// Both stores use a sliding-window counter: the previous fixed window's
+// count is weighted by how much of it still overlaps the sliding window.
+//
+// Keys are caller-chosen strings: getClientIP(request) for anonymous traffic,
+// tenantKey(id) to cap a whole tenant, and user ids for signed-in callers.
 // ============================================================================
 
-interface RateLimitEntry {
-  count: number;
-  resetAt: number;
-}
-
-const store = new Map<string, RateLimitEntry>();
-
-// Periodic cleanup of expired entries
-let cleanupTimer: ReturnType<typeof setInterval> | null = null;
-
-function ensureCleanup() {
-  if (cleanupTimer) return;
-  cleanupTimer = setInterval(() => {
-    const now = Date.now();
-    for (const [key, entry] of store) {
-      if (now > entry.resetAt) store.delete(key);
-    }
-  }, 60_000);
-  // Unref so it doesn't keep the process alive in Node
-  if (typeof cleanupTimer === 'object' && 'unref' in cleanupTimer) {
-    (cleanupTimer as NodeJS.Timeout).unref();
-  }
-}
+import { NextResponse } from 'next/server';
 
 export interface RateLimitConfig {
   /** Unique prefix for this limiter (e.g., 'mentor', 'signup') */
@@ -41,38 +28,193 @@ export interface RateLimitConfig {
 
 export interface RateLimitResult {
   allowed: boolean;
+  limit: number;
   remaining: number;
+  /** Epoch ms when the current fixed window ends */
   resetAt: number;
+  /** Seconds until a denied request would be allowed (0 when allowed) */
+  retryAfter: number;
+}
+
+export interface RateLimitStore {
+  /** Counts one request against `key` and reports whether it's allowed. */
+  consume(key: string, limit: number, windowSeconds: number): Promise<RateLimitResult>;
+}
+
+// ============================================================================
+// Sliding-window math (shared by the in-memory store; the SQL mirrors it)
+// ============================================================================
+
+function slidingWindow(
+  prev: number,
+  curr: number,
+  limit: number,
+  windowSeconds: number,
+  windowStart: number,
+  now: number
+): RateLimitResult {
+  const windowMs = windowSeconds * 1000;
+  const elapsed = (now - windowStart) / windowMs;
+  const estimate = prev * (1 - elapsed) + curr;
+  const resetAt = windowStart + windowMs;
+
+  if (estimate + 1 <= limit) {
+    return { allowed: true, limit, remaining: Math.max(0, Math.floor(limit - estimate - 1)), resetAt, retryAfter: 0 };
+  }
+
+  // Earliest point the weighted count drops enough for one more request:
+  // later in this window if only the previous window's share is in the way,
+  // otherwise partway into the next window.
+  let waitFraction: number;
+  if (curr + 1 <= limit && prev > 0) {
+    waitFraction = 1 - (limit - 1 - curr) / prev - elapsed;
+  } else {
+    waitFraction = 1 - elapsed + Math.max(0, 1 - (limit - 1) / Math.max(curr, 1));
+  }
+
+  return {
+    allowed: false,
+    limit,
+    remaining: 0,
+    resetAt,
+    retryAfter: Math.max(1, Math.ceil(waitFraction * windowSeconds)),
+  };
+}
+
+// ============================================================================
+// In-memory store
+// ============================================================================
+
+/** Per-process store. Fine for tests and single-instance dev servers. */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counts = new Map<string, { windowStart: number; prev: number; curr: number; expiresAt: number }>();
+  private lastSweep = 0;
+
+  async consume(key: string, limit: number, windowSeconds: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const windowMs = windowSeconds * 1000;
+    const windowStart = Math.floor(now / windowMs) * windowMs;
+    this.sweep(now);
+
+    let entry = this.counts.get(key);
+    if (!entry || entry.windowStart !== windowStart) {
+      // Roll forward: last window becomes `prev` only if it was the one just before
+      const prev = entry && entry.windowStart === windowStart - windowMs ? entry.curr : 0;
+      entry = { windowStart, prev, curr: 0, expiresAt: windowStart + 2 * windowMs };
+      this.counts.set(key, entry);
+    }
+
+    const result = slidingWindow(entry.prev, entry.curr, limit, windowSeconds, windowStart, now);
+    if (result.allowed) entry.curr++;
+    return result;
+  }
+
+  /** Drops every counter (test helper). */
+  reset() {
+    this.counts.clear();
+  }
+
+  private sweep(now: number) {
+    if (now - this.lastSweep < 60_000) return;
+    this.lastSweep = now;
+    for (const [key, entry] of this.counts) {
+      if (now > entry.expiresAt) this.counts.delete(key);
+    }
+  }
+}
+
+// ============================================================================
+// Postgres store
+// ============================================================================
+
+/** Shared store backed by the rate_limit_consume() function. */
+export class SupabaseRateLimitStore implements RateLimitStore {
+  async consume(key: string, limit: number, windowSeconds: number): Promise<RateLimitResult> {
+    const { createServiceRoleClient } = await import('@/lib/supabase/server');
+    const db = await createServiceRoleClient();
+    const { data, error } = await db
+      .rpc('rate_limit_consume', { p_key: key, p_limit: limit, p_window_seconds: windowSeconds })
+      .single();
+
+    if (error || !data) throw new Error(error?.message || 'rate_limit_consume returned no row');
+
+    const row = data as { allowed: boolean; remaining: number; reset_at: string; retry_after_seconds: number };
+    return {
+      allowed: row.allowed,
+      limit,
+      remaining: row.remaining,
+      resetAt: new Date(row.reset_at).getTime(),
+      retryAfter: row.retry_after_seconds,
+    };
+  }
+}
+
+// ============================================================================
+// Store selection
+// ============================================================================
+
+const memoryStore = new MemoryRateLimitStore();
+let activeStore: RateLimitStore | null = null;
+
+function defaultStore(): RateLimitStore {
+  const hasDatabase = !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY;
+  return hasDatabase ? new SupabaseRateLimitStore() : memoryStore;
+}
+
+/** Swap the store (tests use `new MemoryRateLimitStore()`); null restores the default. */
+export function setRateLimitStore(store: RateLimitStore | null) {
+  activeStore = store;
 }
 
 /**
  * Check and consume a rate limit token for the given key.
- * Returns whether the request is allowed.
+ * If the shared store is unreachable the request is judged by the
+ * in-memory store instead, so an outage degrades to per-instance limits
+ * rather than blocking everyone or nobody.
  */
-export function checkRateLimit(key: string, config: RateLimitConfig): RateLimitResult {
-  ensureCleanup();
+export async function checkRateLimit(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
+  const store = activeStore || (activeStore = defaultStore());
   const fullKey = `${config.prefix}:${key}`;
-  const now = Date.now();
-  const entry = store.get(fullKey);
-
-  if (!entry || now > entry.resetAt) {
-    // Fresh window
-    const resetAt = now + config.windowSeconds * 1000;
-    store.set(fullKey, { count: 1, resetAt });
-    return { allowed: true, remaining: config.limit - 1, resetAt };
+  try {
+    return await store.consume(fullKey, config.limit, config.windowSeconds);
+  } catch (err) {
+    if (store === memoryStore) throw err;
+    console.error('[RateLimit] Shared store failed, using in-memory:', err instanceof Error ? err.message : err);
+    return memoryStore.consume(fullKey, config.limit, config.windowSeconds);
   }
-
-  if (entry.count >= config.limit) {
-    return { allowed: false, remaining: 0, resetAt: entry.resetAt };
-  }
-
-  entry.count++;
-  return { allowed: true, remaining: config.limit - entry.count, resetAt: entry.resetAt };
 }
 
+// ============================================================================
+// Keys & responses
+// ============================================================================
+
 /** Extract client IP from request headers (works behind proxies like Vercel). */
 export function getClientIP(request: Request): string {
   const forwarded = request.headers.get('x-forwarded-for');
   if (forwarded) return forwarded.split(',')[0].trim();
   return request.headers.get('x-real-ip') || '127.0.0.1';
 }
+
+/** Key for limits shared by everyone hitting one tenant's public pages. */
+export function tenantKey(tenantId: string): string {
+  return `tenant:${tenantId}`;
+}
+
+/** Standard rate limit headers, including Retry-After on denials. */
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(result.limit),
+    'X-RateLimit-Remaining': String(result.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(result.resetAt / 1000)),
+  };
+  if (!result.allowed) headers['Retry-After'] = String(result.retryAfter);
+  return headers;
+}
+
+/** 429 response carrying Retry-After. `body` defaults to a generic error. */
+export function rateLimitResponse(
+  result: RateLimitResult,
+  body: Record<string, unknown> = { error: 'Too many requests. Please try again later.' }
+): NextResponse {
+  return NextResponse.json(body, { status: 429, headers: rateLimitHeaders(result) });
+}
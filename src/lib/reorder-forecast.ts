@@ -0,0 +1,401 @@
+// ============================================================================
+// Reorder Forecast — src/lib/reorder-forecast.ts
+// ============================================================================
+// Predicts when chain, jump rings and connectors run out and how much to
+// reorder. Consumption comes from sale/waste inventory_movements over a
+// trailing window, split in two:
+//
+//   • baseline — everyday use (studio sales, waste), spread evenly per day
+//   • event    — sales rung up at events, averaged per customer and per event
+//
+// The projection walks the horizon day by day: baseline every day, plus the
+// expected use of each upcoming event and confirmed party on its day, sized
+// by expected attendance / estimated guests when known. Suggestions map to
+// the linked Sunstone catalog variant so they drop straight into the cart.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { selectAll } from '@/lib/supabase/select-all';
+import type { InventoryType, InventoryUnit } from '@/types';
+import type { SunstoneProduct } from '@/lib/shopify';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const FORECAST_TYPES: InventoryType[] = ['chain', 'jump_ring', 'connector'];
+export const DEFAULT_WINDOW_DAYS = 90;
+export const DEFAULT_HORIZON_DAYS = 30;
+
+// ── Types ─────────────────────────────────────────────────────────────────
+
+export interface ForecastOccasion {
+  kind: 'event' | 'party';
+  id: string;
+  name: string;
+  /** ISO timestamp (events) or YYYY-MM-DD (parties) */
+  date: string;
+  /** Expected attendance / estimated guests; null = size unknown */
+  size: number | null;
+}
+
+export interface ForecastSource {
+  now: Date;
+  windowDays: number;
+  items: {
+    id: string;
+    name: string;
+    type: InventoryType;
+    unit: InventoryUnit;
+    quantity_on_hand: number;
+    reorder_threshold: number;
+    has_variants: boolean;
+    sunstone_product_id: string | null;
+    sunstone_variant_id: string | null;
+    variants: {
+      id: string;
+      name: string;
+      quantity_on_hand: number;
+      reorder_threshold: number;
+      is_active: boolean;
+      sunstone_variant_id: string | null;
+    }[];
+  }[];
+  movements: {
+    inventory_item_id: string;
+    inventory_variant_id: string | null;
+    movement_type: string;
+    quantity: number;
+    reference_id: string | null;
+  }[];
+  /** Completed event sales in the window — sale id → event id */
+  eventSales: { id: string; event_id: string }[];
+  upcoming: ForecastOccasion[];
+}
+
+export interface ForecastCartLine {
+  sunstoneProductId: string;
+  sunstoneVariantId: string;
+  productTitle: string;
+  variantTitle: string;
+  sku: string | null;
+  unitPrice: number;
+  productType: string;
+  imageUrl: string | null;
+  /** Inventory units (inches, rings…) one catalog variant adds */
+  unitsPerPackage: number;
+  /** Catalog variants to order */
+  quantity: number;
+}
+
+export interface ReorderForecast {
+  inventory_item_id: string;
+  inventory_variant_id: string | null;
+  name: string;
+  type: InventoryType;
+  unit: InventoryUnit;
+  quantity_on_hand: number;
+  reorder_threshold: number;
+  /** Everyday use per day, outside events */
+  baseline_daily: number;
+  /** Expected use at upcoming events/parties within the horizon */
+  event_demand: number;
+  /** Everything expected to be used within the horizon */
+  projected_use: number;
+  /** Whole days until stock hits zero; null when nothing is being used */
+  days_to_stockout: number | null;
+  stockout_date: string | null;
+  /** Inventory units to order to cover the horizon plus the reorder point */
+  suggested_quantity: number;
+  /** Upcoming occasions that use this item, with their expected use */
+  occasions: { name: string; date: string; demand: number }[];
+  /** Linked catalog variant and how many to order; null if not linked */
+  cart: ForecastCartLine | null;
+}
+
+// ── Loading ───────────────────────────────────────────────────────────────
+
+/**
+ * Everything the forecast needs for one tenant. Parties already linked to
+ * an event are counted through the event.
+ */
+export async function loadForecastSource(
+  supabase: SupabaseClient,
+  tenantId: string,
+  options: { now?: Date; windowDays?: number; horizonDays?: number } = {},
+): Promise<ForecastSource> {
+  const now = options.now || new Date();
+  const windowDays = options.windowDays || DEFAULT_WINDOW_DAYS;
+  const horizonDays = options.horizonDays || DEFAULT_HORIZON_DAYS;
+  const windowStart = new Date(now.getTime() - windowDays * DAY_MS).toISOString();
+  const horizonEnd = new Date(now.getTime() + horizonDays * DAY_MS);
+
+  const [items, movements, eventSales, eventsRes, partiesRes] = await Promise.all([
+    selectAll<ForecastSource['items'][number]>((from, to) =>
+      supabase
+        .from('inventory_items')
+        .select('id, name, type, unit, quantity_on_hand, reorder_threshold, has_variants, sunstone_product_id, sunstone_variant_id, variants:inventory_item_variants(id, name, quantity_on_hand, reorder_threshold, is_active, sunstone_variant_id)')
+        .eq('tenant_id', tenantId)
+        .eq('is_active', true)
+        .in('type', FORECAST_TYPES)
+        .order('id')
+        .range(from, to) as unknown as PromiseLike<{ data: ForecastSource['items'] | null; error: { message: string } | null }>
+    ),
+    selectAll<ForecastSource['movements'][number]>((from, to) =>
+      supabase
+        .from('inventory_movements')
+        .select('inventory_item_id, inventory_variant_id, movement_type, quantity, reference_id')
+        .eq('tenant_id', tenantId)
+        .in('movement_type', ['sale', 'waste'])
+        .gte('created_at', windowStart)
+        .order('id')
+        .range(from, to)
+    ),
+    selectAll<ForecastSource['eventSales'][number]>((from, to) =>
+      supabase
+        .from('sales')
+        .select('id, event_id')
+        .eq('tenant_id', tenantId)
+        .eq('status', 'completed')
+        .not('event_id', 'is', null)
+        .gte('created_at', windowStart)
+        .order('id')
+        .range(from, to)
+    ),
+    supabase
+      .from('events')
+      .select('id, name, start_time, expected_attendance')
+      .eq('tenant_id', tenantId)
+      .eq('is_active', true)
+      .gte('start_time', now.toISOString())
+      .lt('start_time', horizonEnd.toISOString())
+      .order('start_time'),
+    supabase
+      .from('party_requests')
+      .select('id, host_name, occasion, preferred_date, estimated_guests')
+      .eq('tenant_id', tenantId)
+      .eq('status', 'confirmed')
+      .is('event_id', null)
+      .gte('preferred_date', now.toISOString().slice(0, 10))
+      .lte('preferred_date', horizonEnd.toISOString().slice(0, 10)),
+  ]);
+
+  const upcoming: ForecastOccasion[] = [
+    ...(eventsRes.data || []).map((e) => ({
+      kind: 'event' as const,
+      id: e.id,
+      name: e.name,
+      date: e.start_time,
+      size: e.expected_attendance || null,
+    })),
+    ...(partiesRes.data || []).map((p) => ({
+      kind: 'party' as const,
+      id: p.id,
+      name: p.occasion ? `${p.host_name}'s ${p.occasion}` : `${p.host_name}'s party`,
+      date: p.preferred_date as string,
+      size: p.estimated_guests || null,
+    })),
+  ];
+
+  return { now, windowDays, items, movements, eventSales, upcoming };
+}
+
+// ── Forecast ──────────────────────────────────────────────────────────────
+
+function dayIndex(date: string, now: Date): number {
+  // Parties are date-only — treat them as midday so they land on their day
+  const at = date.length === 10 ? Date.parse(`${date}T12:00:00`) : Date.parse(date);
+  return Math.max(0, Math.floor((at - now.getTime()) / DAY_MS));
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Project every tracked item/variant over the horizon. Items with no
+ * recorded use still come back (days_to_stockout null) so callers can
+ * show them; filter on suggested_quantity for a reorder list.
+ */
+export function buildForecast(
+  source: ForecastSource,
+  horizonDays: number = DEFAULT_HORIZON_DAYS,
+): ReorderForecast[] {
+  const saleEvent = new Map(source.eventSales.map((s) => [s.id, s.event_id]));
+  const pastEvents = new Set(source.eventSales.map((s) => s.event_id));
+  const eventCustomers = source.eventSales.length;
+
+  // Split consumption per item/variant into baseline and event use
+  const use = new Map<string, { baseline: number; event: number }>();
+  for (const m of source.movements) {
+    const consumed = -Number(m.quantity);
+    if (!(consumed > 0)) continue;
+    const key = `${m.inventory_item_id}|${m.inventory_variant_id || ''}`;
+    const entry = use.get(key) || { baseline: 0, event: 0 };
+    if (m.movement_type === 'sale' && m.reference_id && saleEvent.has(m.reference_id)) {
+      entry.event += consumed;
+    } else {
+      entry.baseline += consumed;
+    }
+    use.set(key, entry);
+  }
+
+  const occasions = source.upcoming
+    .map((o) => ({ ...o, day: dayIndex(o.date, source.now) }))
+    .filter((o) => o.day < horizonDays);
+
+  const forecastOne = (
+    item: ForecastSource['items'][number],
+    variant: ForecastSource['items'][number]['variants'][number] | null,
+  ): ReorderForecast => {
+    const entry = use.get(`${item.id}|${variant?.id || ''}`) || { baseline: 0, event: 0 };
+    const onHand = Number(variant ? variant.quantity_on_hand : item.quantity_on_hand);
+    const threshold = Number(variant ? variant.reorder_threshold : item.reorder_threshold);
+
+    const baselineDaily = entry.baseline / source.windowDays;
+    const perCustomer = eventCustomers > 0 ? entry.event / eventCustomers : 0;
+    const perEvent = pastEvents.size > 0 ? entry.event / pastEvents.size : 0;
+
+    const demandByDay = new Map<number, number>();
+    const itemOccasions: ReorderForecast['occasions'] = [];
+    for (const o of occasions) {
+      const demand = o.size ? perCustomer * o.size : perEvent;
+      if (demand <= 0) continue;
+      demandByDay.set(o.day, (demandByDay.get(o.day) || 0) + demand);
+      itemOccasions.push({ name: o.name, date: o.date, demand: round2(demand) });
+    }
+    const eventDemand = [...demandByDay.values()].reduce((sum, d) => sum + d, 0);
+
+    // Walk forward until stock runs out
+    let daysToStockout: number | null = onHand <= 0 ? 0 : null;
+    let stock = onHand;
+    for (let day = 0; daysToStockout === null && day < horizonDays; day++) {
+      stock -= baselineDaily + (demandByDay.get(day) || 0);
+      if (stock <= 0) daysToStockout = day;
+    }
+    if (daysToStockout === null && baselineDaily > 0) {
+      daysToStockout = horizonDays + Math.floor(stock / baselineDaily);
+    }
+
+    const projectedUse = baselineDaily * horizonDays + eventDemand;
+    const suggested = Math.max(0, Math.ceil(projectedUse + threshold - onHand));
+
+    return {
+      inventory_item_id: item.id,
+      inventory_variant_id: variant?.id || null,
+      name: variant ? `${item.name} — ${variant.name}` : item.name,
+      type: item.type,
+      unit: item.unit,
+      quantity_on_hand: onHand,
+      reorder_threshold: threshold,
+      baseline_daily: round2(baselineDaily),
+      event_demand: round2(eventDemand),
+      projected_use: round2(projectedUse),
+      days_to_stockout: daysToStockout,
+      stockout_date: daysToStockout === null
+        ? null
+        : new Date(source.now.getTime() + daysToStockout * DAY_MS).toISOString().slice(0, 10),
+      suggested_quantity: projectedUse > 0 ? suggested : 0,
+      occasions: itemOccasions,
+      cart: null,
+    };
+  };
+
+  const forecast: ReorderForecast[] = [];
+  for (const item of source.items) {
+    const variants = (item.variants || []).filter((v) => v.is_active);
+    if (item.has_variants && variants.length > 0) {
+      for (const v of variants) forecast.push(forecastOne(item, v));
+    } else {
+      forecast.push(forecastOne(item, null));
+    }
+  }
+
+  return forecast.sort((a, b) => {
+    if (a.days_to_stockout === null) return b.days_to_stockout === null ? a.name.localeCompare(b.name) : 1;
+    if (b.days_to_stockout === null) return -1;
+    return a.days_to_stockout - b.days_to_stockout;
+  });
+}
+
+// ── Catalog mapping ───────────────────────────────────────────────────────
+
+/**
+ * How many inventory units one catalog variant adds, read from its title:
+ * "5 Feet (60 inches)" is 60 for chain tracked in inches, "Pack of 100" is
+ * 100 for jump rings tracked each. Anything unreadable counts as 1.
+ */
+export function catalogUnitsPerVariant(variantTitle: string, unit: InventoryUnit): number {
+  const feet = variantTitle.match(/(\d+(?:\.\d+)?)\s*(?:feet|foot|ft)\b/i);
+  if (feet) {
+    if (unit === 'in') return Number(feet[1]) * 12;
+    if (unit === 'ft') return Number(feet[1]);
+    return 1;
+  }
+  const inches = variantTitle.match(/(\d+(?:\.\d+)?)\s*(?:inches|inch|in)\b/i);
+  if (inches) {
+    if (unit === 'in') return Number(inches[1]);
+    if (unit === 'ft') return Number(inches[1]) / 12;
+    return 1;
+  }
+  const pack = variantTitle.match(/pack\s+of\s+(\d+)/i) || variantTitle.match(/(\d+)\s*(?:pack|pk|pcs|pieces|count|ct)\b/i);
+  if (pack && unit === 'each') return Number(pack[1]);
+  return 1;
+}
+
+/**
+ * Fill in the cart line for each suggestion whose item (or variant) is
+ * linked to a Sunstone catalog variant.
+ */
+export function attachCatalog(
+  forecast: ReorderForecast[],
+  items: ForecastSource['items'],
+  products: SunstoneProduct[],
+): ReorderForecast[] {
+  const itemById = new Map(items.map((i) => [i.id, i]));
+  const productById = new Map(products.map((p) => [p.id, p]));
+
+  return forecast.map((f) => {
+    if (f.suggested_quantity <= 0) return f;
+    const item = itemById.get(f.inventory_item_id);
+    if (!item?.sunstone_product_id) return f;
+    const linkedVariantId = f.inventory_variant_id
+      ? item.variants.find((v) => v.id === f.inventory_variant_id)?.sunstone_variant_id || item.sunstone_variant_id
+      : item.sunstone_variant_id;
+    const product = productById.get(item.sunstone_product_id);
+    const variant = product?.variants.find((v) => v.id === linkedVariantId);
+    if (!product || !variant) return f;
+
+    const unitsPerPackage = catalogUnitsPerVariant(variant.title || '', f.unit);
+    return {
+      ...f,
+      cart: {
+        sunstoneProductId: product.id,
+        sunstoneVariantId: variant.id,
+        productTitle: product.title,
+        variantTitle: variant.title || 'Default Title',
+        sku: variant.sku || null,
+        unitPrice: parseFloat(variant.price),
+        productType: product.productType || '',
+        imageUrl: product.imageUrl || null,
+        unitsPerPackage,
+        quantity: Math.max(1, Math.ceil(f.suggested_quantity / unitsPerPackage)),
+      },
+    };
+  });
+}
+
+/** Load, project and map to the catalog in one go. */
+export async function getReorderForecast(
+  supabase: SupabaseClient,
+  tenantId: string,
+  options: { now?: Date; windowDays?: number; horizonDays?: number } = {},
+): Promise<{ forecast: ReorderForecast[]; windowDays: number; horizonDays: number }> {
+  const horizonDays = options.horizonDays || DEFAULT_HORIZON_DAYS;
+  const [source, { data: cache }] = await Promise.all([
+    loadForecastSource(supabase, tenantId, { ...options, horizonDays }),
+    supabase.from('sunstone_catalog_cache').select('products').limit(1).maybeSingle(),
+  ]);
+  const forecast = attachCatalog(
+    buildForecast(source, horizonDays),
+    source.items,
+    (cache?.products as SunstoneProduct[] | undefined) || [],
+  );
+  return { forecast, windowDays: source.windowDays, horizonDays };
+}
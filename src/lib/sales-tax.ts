@@ -0,0 +1,332 @@
+// ============================================================================
+// Sales Tax — src/lib/sales-tax.ts
+// ============================================================================
+// Jurisdiction-level sales tax (migration 088). A tax profile is a set of
+// components (state, county, city, district) whose rates add up to the
+// profile's combined rate; a profile without components is one flat rate.
+//
+// Checkout computes the tax once at the combined rate — so totals match
+// what a single-rate profile always produced — then splits it across the
+// components by rate. In tax-inclusive mode the tax is backed out of the
+// price instead of added on top.
+//
+// The filing report reads the per-component sale_tax_lines. Sales made
+// before 088 have no lines; their tax is reported under the profile of the
+// event they were rung up at ("Unassigned" for store sales).
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { selectAll } from '@/lib/supabase/select-all';
+import type {
+  TaxProfile,
+  TaxJurisdictionType,
+  SaleTaxLineInput,
+  SalesTaxReport,
+  SalesTaxJurisdictionRow,
+  SalesTaxEventRow,
+} from '@/types';
+
+export const JURISDICTION_TYPES: { value: TaxJurisdictionType; label: string }[] = [
+  { value: 'state', label: 'State' },
+  { value: 'county', label: 'County' },
+  { value: 'city', label: 'City' },
+  { value: 'district', label: 'Special district' },
+  { value: 'other', label: 'Other' },
+];
+
+export function jurisdictionLabel(type: TaxJurisdictionType | null | undefined): string {
+  return JURISDICTION_TYPES.find((j) => j.value === type)?.label || 'Other';
+}
+
+/** One component of the rate applied at checkout */
+export interface TaxRateComponent {
+  id: string | null;
+  name: string;
+  jurisdiction_type: TaxJurisdictionType;
+  rate: number;
+}
+
+/** A profile's components in filing order, or the profile itself as one flat rate. */
+export function taxComponentsOf(profile: TaxProfile | null | undefined): TaxRateComponent[] {
+  if (!profile) return [];
+  const components = [...(profile.tax_profile_components || [])].sort((a, b) => a.sort_order - b.sort_order);
+  if (components.length > 0) {
+    return components.map((c) => ({
+      id: c.id,
+      name: c.name,
+      jurisdiction_type: c.jurisdiction_type,
+      rate: Number(c.rate) || 0,
+    }));
+  }
+  return [{ id: null, name: profile.name, jurisdiction_type: 'other', rate: Number(profile.rate) || 0 }];
+}
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Tax on a taxable base. `base` is what the customer is charged for the
+ * taxable lines — before tax, or including it when `inclusive`. Returns the
+ * tax, the net taxable amount and one line per component whose tax adds up
+ * to the total (remainder cents go to the largest fractions).
+ */
+export function computeSalesTax(
+  base: number,
+  components: TaxRateComponent[],
+  inclusive: boolean
+): { tax: number; taxable: number; lines: SaleTaxLineInput[] } {
+  const rate = components.reduce((sum, c) => sum + c.rate, 0);
+  if (base <= 0 || rate <= 0) {
+    return { tax: 0, taxable: Math.max(0, round2(base)), lines: [] };
+  }
+
+  const tax = inclusive ? round2(base - base / (1 + rate)) : round2(base * rate);
+  const taxable = inclusive ? round2(base - tax) : round2(base);
+
+  const totalCents = Math.round(tax * 100);
+  const shares = components.map((c) => (totalCents * c.rate) / rate);
+  const allocated = shares.map(Math.floor);
+  let remainder = totalCents - allocated.reduce((s, n) => s + n, 0);
+  const byFraction = shares
+    .map((share, i) => ({ i, fraction: share - Math.floor(share) }))
+    .sort((a, b) => b.fraction - a.fraction);
+  for (const { i } of byFraction) {
+    if (remainder <= 0) break;
+    allocated[i] += 1;
+    remainder -= 1;
+  }
+
+  const lines: SaleTaxLineInput[] = components
+    .map((c, i) => ({
+      tax_component_id: c.id,
+      name: c.name,
+      jurisdiction_type: c.jurisdiction_type,
+      rate: c.rate,
+      taxable_amount: taxable,
+      tax_amount: allocated[i] / 100,
+    }))
+    .filter((line) => line.rate > 0);
+
+  return { tax, taxable, lines };
+}
+
+// ── Filing report ─────────────────────────────────────────────────────────
+
+interface ReportSaleRow {
+  id: string;
+  event_id: string | null;
+  subtotal: number;
+  discount_amount: number;
+  tax_amount: number;
+  tip_amount: number;
+  total: number;
+  tax_inclusive: boolean | null;
+  sale_tax_lines: {
+    name: string;
+    jurisdiction_type: TaxJurisdictionType;
+    rate: number;
+    taxable_amount: number;
+    tax_amount: number;
+  }[] | null;
+}
+
+interface ReportRefundRow {
+  amount: number;
+  sale: {
+    id: string;
+    event_id: string | null;
+    tax_amount: number;
+    tip_amount: number;
+    total: number;
+    sale_tax_lines: { name: string; jurisdiction_type: TaxJurisdictionType; rate: number; tax_amount: number }[] | null;
+  } | null;
+}
+
+interface EventRow {
+  id: string;
+  name: string;
+  start_time: string;
+  tax_profiles: { name: string; rate: number } | null;
+}
+
+const jurisdictionKey = (name: string, type: string, rate: number) => `${type}|${name}|${Number(rate).toFixed(6)}`;
+
+/**
+ * Tax collected between `start` and `end` (sales by sale date, refunds by
+ * refund date), by jurisdiction component and by event. A refund gives back
+ * its share of the sale's tax: refund ÷ (total − tip), as refunds never
+ * include the tip.
+ */
+export async function getSalesTaxReport(
+  supabase: SupabaseClient,
+  tenantId: string,
+  period: { start: Date; end: Date; from: string; to: string }
+): Promise<SalesTaxReport> {
+  const start = period.start.toISOString();
+  const end = period.end.toISOString();
+
+  const [sales, refunds, events] = await Promise.all([
+    selectAll<ReportSaleRow>((from, to) =>
+      supabase
+        .from('sales')
+        .select('id, event_id, subtotal, discount_amount, tax_amount, tip_amount, total, tax_inclusive, sale_tax_lines(name, jurisdiction_type, rate, taxable_amount, tax_amount)')
+        .eq('tenant_id', tenantId)
+        .eq('status', 'completed')
+        .eq('payment_status', 'completed')
+        .gte('created_at', start)
+        .lt('created_at', end)
+        .order('id')
+        .range(from, to) as unknown as PromiseLike<{ data: ReportSaleRow[] | null; error: { message: string } | null }>
+    ),
+    selectAll<ReportRefundRow>((from, to) =>
+      supabase
+        .from('refunds')
+        .select('amount, sale:sales(id, event_id, tax_amount, tip_amount, total, sale_tax_lines(name, jurisdiction_type, rate, tax_amount))')
+        .eq('tenant_id', tenantId)
+        .gte('created_at', start)
+        .lt('created_at', end)
+        .order('id')
+        .range(from, to) as unknown as PromiseLike<{ data: ReportRefundRow[] | null; error: { message: string } | null }>
+    ),
+    selectAll<EventRow>((from, to) =>
+      supabase
+        .from('events')
+        .select('id, name, start_time, tax_profiles(name, rate)')
+        .eq('tenant_id', tenantId)
+        .order('id')
+        .range(from, to) as unknown as PromiseLike<{ data: EventRow[] | null; error: { message: string } | null }>
+    ),
+  ]);
+
+  const eventById = new Map(events.map((e) => [e.id, e]));
+  const jurisdictions = new Map<string, SalesTaxJurisdictionRow>();
+  const byEvent = new Map<string, SalesTaxEventRow>();
+
+  const jurisdictionRow = (name: string, type: TaxJurisdictionType, rate: number) => {
+    const key = jurisdictionKey(name, type, rate);
+    let row = jurisdictions.get(key);
+    if (!row) {
+      row = { name, jurisdiction_type: type, rate: Number(rate), sales: 0, taxable: 0, tax: 0, refunded: 0, net: 0 };
+      jurisdictions.set(key, row);
+    }
+    return row;
+  };
+
+  const eventRow = (eventId: string | null) => {
+    const key = eventId || '';
+    let row = byEvent.get(key);
+    if (!row) {
+      const event = eventId ? eventById.get(eventId) : undefined;
+      row = {
+        event_id: eventId,
+        event_name: event?.name || (eventId ? 'Deleted event' : 'Store sales'),
+        event_date: event?.start_time || null,
+        sales: 0,
+        taxable: 0,
+        tax: 0,
+        refunded: 0,
+        net: 0,
+        jurisdictions: {},
+      };
+      byEvent.set(key, row);
+    }
+    return row;
+  };
+
+  /** Tax lines of a sale, synthesizing one for sales made before 088. */
+  const linesOf = (sale: {
+    event_id: string | null;
+    tax_amount: number;
+    sale_tax_lines: { name: string; jurisdiction_type: TaxJurisdictionType; rate: number; tax_amount: number; taxable_amount?: number }[] | null;
+  }, fallbackTaxable: number) => {
+    if (sale.sale_tax_lines && sale.sale_tax_lines.length > 0) return sale.sale_tax_lines;
+    if (!(Number(sale.tax_amount) > 0)) return [];
+    const profile = sale.event_id ? eventById.get(sale.event_id)?.tax_profiles : null;
+    return [{
+      name: profile?.name || 'Unassigned',
+      jurisdiction_type: 'other' as TaxJurisdictionType,
+      rate: Number(profile?.rate) || 0,
+      taxable_amount: fallbackTaxable,
+      tax_amount: Number(sale.tax_amount),
+    }];
+  };
+
+  let untracked = 0;
+  for (const sale of sales) {
+    const tax = Number(sale.tax_amount) || 0;
+    const lines = linesOf(sale, Math.max(0, Number(sale.subtotal) - Number(sale.discount_amount)));
+    if (tax > 0 && (!sale.sale_tax_lines || sale.sale_tax_lines.length === 0)) untracked += tax;
+
+    const event = eventRow(sale.event_id);
+    event.sales += 1;
+    event.tax += tax;
+    // Every component shares one base, so the sale's taxable amount is any line's
+    event.taxable += lines.length > 0 ? Number(lines[0].taxable_amount) || 0 : 0;
+
+    for (const line of lines) {
+      const row = jurisdictionRow(line.name, line.jurisdiction_type, line.rate);
+      row.sales += 1;
+      row.taxable += Number(line.taxable_amount) || 0;
+      row.tax += Number(line.tax_amount) || 0;
+      event.jurisdictions[line.name] = (event.jurisdictions[line.name] || 0) + (Number(line.tax_amount) || 0);
+    }
+  }
+
+  for (const refund of refunds) {
+    const sale = refund.sale;
+    if (!sale) continue;
+    const charged = Number(sale.total) - (Number(sale.tip_amount) || 0);
+    const tax = Number(sale.tax_amount) || 0;
+    if (charged <= 0 || tax <= 0) continue;
+    const share = Math.min(1, Number(refund.amount) / charged);
+
+    const event = eventRow(sale.event_id);
+    event.refunded += tax * share;
+    for (const line of linesOf(sale, 0)) {
+      jurisdictionRow(line.name, line.jurisdiction_type, line.rate).refunded += (Number(line.tax_amount) || 0) * share;
+    }
+  }
+
+  const jurisdictionRows = [...jurisdictions.values()].map((row) => ({
+    ...row,
+    taxable: round2(row.taxable),
+    tax: round2(row.tax),
+    refunded: round2(row.refunded),
+    net: round2(row.tax - row.refunded),
+  }));
+  const typeOrder = JURISDICTION_TYPES.map((j) => j.value);
+  jurisdictionRows.sort((a, b) =>
+    typeOrder.indexOf(a.jurisdiction_type) - typeOrder.indexOf(b.jurisdiction_type) || a.name.localeCompare(b.name)
+  );
+
+  const eventRows = [...byEvent.values()].map((row) => ({
+    ...row,
+    taxable: round2(row.taxable),
+    tax: round2(row.tax),
+    refunded: round2(row.refunded),
+    net: round2(row.tax - row.refunded),
+    jurisdictions: Object.fromEntries(Object.entries(row.jurisdictions).map(([k, v]) => [k, round2(v)])),
+  }));
+  eventRows.sort((a, b) => {
+    if (!a.event_id) return 1;
+    if (!b.event_id) return -1;
+    return (a.event_date || '').localeCompare(b.event_date || '');
+  });
+
+  const tax = jurisdictionRows.reduce((s, r) => s + r.tax, 0);
+  const refunded = jurisdictionRows.reduce((s, r) => s + r.refunded, 0);
+
+  return {
+    from: period.from,
+    to: period.to,
+    totals: {
+      sales: sales.length,
+      taxable: round2(eventRows.reduce((s, r) => s + r.taxable, 0)),
+      tax: round2(tax),
+      refunded: round2(refunded),
+      net: round2(tax - refunded),
+    },
+    untracked: round2(untracked),
+    jurisdictions: jurisdictionRows,
+    events: eventRows,
+  };
+}
@@ -0,0 +1,475 @@
+// ============================================================================
+// Segment Rules — src/lib/segments.ts
+// ============================================================================
+// Rule engine for dynamic client segments. A segment's filter_criteria holds
+// a tree of AND/OR groups whose leaves are conditions over tags, purchase
+// history, visits, birthdays, event/party attendance, warranties and SMS
+// consent. Any node can be negated (NOT).
+//
+// Older segments stored { tagIds: [...] } (all tags required); those are
+// read as an AND group of tag conditions.
+//
+// Used by broadcasts (resolveAudience), workflow bulk enrollment, Sunny's
+// send_bulk_message and the segment builder's live count.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { selectAll } from '@/lib/supabase/select-all';
+
+export const SEGMENT_FILTER_VERSION = 2;
+
+/** Nesting limit for groups inside groups (root = depth 1). */
+export const MAX_SEGMENT_DEPTH = 3;
+
+/** Total conditions + groups allowed in one segment. */
+export const MAX_SEGMENT_RULES = 40;
+
+export type SegmentComparison = 'gte' | 'lte';
+
+export type SegmentCondition =
+  | { type: 'tag'; tag_id: string }
+  | { type: 'lifetime_spend'; op: SegmentComparison; amount: number }
+  | { type: 'visit_count'; op: SegmentComparison; count: number }
+  | { type: 'last_visit'; op: 'within' | 'before'; days: number }
+  | { type: 'birthday_month'; month: number }
+  | { type: 'attended_event'; event_id: string }
+  | { type: 'attended_party'; party_request_id: string | null }
+  | { type: 'purchased_material'; material: string }
+  | { type: 'purchased_product_type'; product_type_id: string }
+  | { type: 'has_warranty' }
+  | { type: 'sms_consent' };
+
+export type SegmentConditionType = SegmentCondition['type'];
+
+export interface SegmentGroup {
+  type: 'group';
+  match: 'all' | 'any';
+  negate?: boolean;
+  rules: SegmentRule[];
+}
+
+export type SegmentRule = (SegmentCondition & { negate?: boolean }) | SegmentGroup;
+
+export interface SegmentFilter {
+  version: typeof SEGMENT_FILTER_VERSION;
+  root: SegmentGroup;
+}
+
+export interface SegmentClient {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
+export const SEGMENT_CONDITION_LABELS: Record<SegmentConditionType, string> = {
+  tag: 'Has tag',
+  lifetime_spend: 'Lifetime spend',
+  visit_count: 'Number of visits',
+  last_visit: 'Last visit',
+  birthday_month: 'Birthday month',
+  attended_event: 'Attended event',
+  attended_party: 'Attended a party',
+  purchased_material: 'Bought material',
+  purchased_product_type: 'Bought product type',
+  has_warranty: 'Has an active warranty',
+  sms_consent: 'Opted in to texts',
+};
+
+/** A fresh condition of the given type with sensible defaults for the builder. */
+export function defaultSegmentCondition(type: SegmentConditionType): SegmentCondition {
+  switch (type) {
+    case 'tag': return { type, tag_id: '' };
+    case 'lifetime_spend': return { type, op: 'gte', amount: 100 };
+    case 'visit_count': return { type, op: 'gte', count: 2 };
+    case 'last_visit': return { type, op: 'within', days: 90 };
+    case 'birthday_month': return { type, month: new Date().getMonth() + 1 };
+    case 'attended_event': return { type, event_id: '' };
+    case 'attended_party': return { type, party_request_id: null };
+    case 'purchased_material': return { type, material: '' };
+    case 'purchased_product_type': return { type, product_type_id: '' };
+    case 'has_warranty': return { type };
+    case 'sms_consent': return { type };
+  }
+}
+
+export function emptySegmentFilter(): SegmentFilter {
+  return { version: SEGMENT_FILTER_VERSION, root: { type: 'group', match: 'all', rules: [] } };
+}
+
+// ============================================================================
+// Normalisation + Validation
+// ============================================================================
+
+/** Read any stored filter_criteria (v2 tree, legacy tagIds, or empty) as a v2 filter. */
+export function normalizeSegmentFilter(criteria: unknown): SegmentFilter {
+  const c = (criteria || {}) as Record<string, any>;
+  if (c.version === SEGMENT_FILTER_VERSION && c.root?.type === 'group') {
+    return c as SegmentFilter;
+  }
+  const tagIds: string[] = Array.isArray(c.tagIds) ? c.tagIds : [];
+  return {
+    version: SEGMENT_FILTER_VERSION,
+    root: {
+      type: 'group',
+      match: 'all',
+      rules: tagIds.map((tag_id) => ({ type: 'tag' as const, tag_id })),
+    },
+  };
+}
+
+/** Returns a user-facing error for a malformed filter, or null when it's valid. */
+export function validateSegmentFilter(filter: SegmentFilter): string | null {
+  let count = 0;
+
+  const check = (rule: SegmentRule, depth: number): string | null => {
+    count++;
+    if (count > MAX_SEGMENT_RULES) return `Segments can have at most ${MAX_SEGMENT_RULES} rules`;
+
+    switch (rule.type) {
+      case 'group':
+        if (depth > MAX_SEGMENT_DEPTH) return `Groups can be nested at most ${MAX_SEGMENT_DEPTH} levels deep`;
+        if (rule.match !== 'all' && rule.match !== 'any') return 'Group match must be "all" or "any"';
+        if (!Array.isArray(rule.rules)) return 'Group rules must be a list';
+        for (const child of rule.rules) {
+          const err = check(child, depth + 1);
+          if (err) return err;
+        }
+        return null;
+      case 'tag':
+        return rule.tag_id ? null : 'Pick a tag';
+      case 'lifetime_spend':
+        return isComparison(rule.op) && isNonNegative(rule.amount) ? null : 'Enter a spend amount';
+      case 'visit_count':
+        return isComparison(rule.op) && isNonNegative(rule.count) ? null : 'Enter a number of visits';
+      case 'last_visit':
+        return (rule.op === 'within' || rule.op === 'before') && isNonNegative(rule.days) ? null : 'Enter a number of days';
+      case 'birthday_month':
+        return Number.isInteger(rule.month) && rule.month >= 1 && rule.month <= 12 ? null : 'Pick a birthday month';
+      case 'attended_event':
+        return rule.event_id ? null : 'Pick an event';
+      case 'attended_party':
+        return null;
+      case 'purchased_material':
+        return rule.material?.trim() ? null : 'Pick a material';
+      case 'purchased_product_type':
+        return rule.product_type_id ? null : 'Pick a product type';
+      case 'has_warranty':
+      case 'sms_consent':
+        return null;
+      default:
+        return 'Unknown rule type';
+    }
+  };
+
+  if (filter?.version !== SEGMENT_FILTER_VERSION || filter.root?.type !== 'group') {
+    return 'Invalid segment filter';
+  }
+  return check(filter.root, 1);
+}
+
+function isComparison(op: unknown): op is SegmentComparison {
+  return op === 'gte' || op === 'lte';
+}
+
+function isNonNegative(n: unknown): boolean {
+  return typeof n === 'number' && Number.isFinite(n) && n >= 0;
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+interface ClientFacts {
+  tagIds: Set<string>;
+  spend: number;
+  visits: number;
+  lastVisit: number | null;
+  birthdayMonth: number | null;
+  eventIds: Set<string>;
+  partyIds: Set<string>;
+  materials: Set<string>;
+  productTypeIds: Set<string>;
+  hasWarranty: boolean;
+  smsConsent: boolean;
+}
+
+function collectTypes(rule: SegmentRule, into: Set<string>, tagIds: Set<string>) {
+  if (rule.type === 'group') {
+    for (const child of rule.rules) collectTypes(child, into, tagIds);
+    return;
+  }
+  into.add(rule.type);
+  if (rule.type === 'tag') tagIds.add(rule.tag_id);
+}
+
+function inChunks<T>(items: T[], size = 300): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+}
+
+/**
+ * Load only the facts the filter's conditions need, keyed by client id.
+ * Every tenant-scoped read filters on tenant_id explicitly so this is safe to
+ * call with the service-role client.
+ */
+async function loadFacts(
+  supabase: SupabaseClient,
+  tenantId: string,
+  clients: (SegmentClient & { birthday: string | null; last_visit_at: string | null })[],
+  filter: SegmentFilter
+): Promise<Map<string, ClientFacts>> {
+  const types = new Set<string>();
+  const tagIds = new Set<string>();
+  collectTypes(filter.root, types, tagIds);
+
+  const facts = new Map<string, ClientFacts>();
+  for (const c of clients) {
+    facts.set(c.id, {
+      tagIds: new Set(),
+      spend: 0,
+      visits: 0,
+      lastVisit: c.last_visit_at ? new Date(c.last_visit_at).getTime() : null,
+      birthdayMonth: c.birthday ? parseInt(c.birthday.slice(5, 7), 10) || null : null,
+      eventIds: new Set(),
+      partyIds: new Set(),
+      materials: new Set(),
+      productTypeIds: new Set(),
+      hasWarranty: false,
+      smsConsent: false,
+    });
+  }
+
+  if (tagIds.size > 0) {
+    const assignments = await selectAll<{ client_id: string; tag_id: string }>((from, to) =>
+      supabase.from('client_tag_assignments').select('client_id, tag_id').in('tag_id', [...tagIds]).range(from, to)
+    );
+    for (const a of assignments) facts.get(a.client_id)?.tagIds.add(a.tag_id);
+  }
+
+  const needsSales = ['lifetime_spend', 'visit_count', 'last_visit', 'attended_event', 'attended_party', 'purchased_material', 'purchased_product_type']
+    .some((t) => types.has(t));
+  const saleClient = new Map<string, string>();
+
+  if (needsSales) {
+    const sales = await selectAll<{ id: string; client_id: string; total: number; event_id: string | null; party_request_id: string | null; created_at: string }>((from, to) =>
+      supabase
+        .from('sales')
+        .select('id, client_id, total, event_id, party_request_id, created_at')
+        .eq('tenant_id', tenantId)
+        .eq('status', 'completed')
+        .not('client_id', 'is', null)
+        .order('id')
+        .range(from, to)
+    );
+    for (const s of sales) {
+      const f = facts.get(s.client_id);
+      if (!f) continue;
+      saleClient.set(s.id, s.client_id);
+      f.spend += Number(s.total) || 0;
+      f.visits++;
+      const at = new Date(s.created_at).getTime();
+      if (f.lastVisit === null || at > f.lastVisit) f.lastVisit = at;
+      if (s.event_id) f.eventIds.add(s.event_id);
+      if (s.party_request_id) f.partyIds.add(s.party_request_id);
+    }
+
+    if (types.has('lifetime_spend')) {
+      const refunds = await selectAll<{ sale_id: string; amount: number }>((from, to) =>
+        supabase.from('refunds').select('sale_id, amount').eq('tenant_id', tenantId).order('id').range(from, to)
+      );
+      for (const r of refunds) {
+        const clientId = saleClient.get(r.sale_id);
+        const f = clientId ? facts.get(clientId) : undefined;
+        if (f) f.spend -= Number(r.amount) || 0;
+      }
+    }
+  }
+
+  if (types.has('attended_event')) {
+    // A signed waiver at the event counts as attending, even without a purchase
+    const waivers = await selectAll<{ client_id: string; event_id: string }>((from, to) =>
+      supabase
+        .from('waivers')
+        .select('client_id, event_id')
+        .eq('tenant_id', tenantId)
+        .not('client_id', 'is', null)
+        .not('event_id', 'is', null)
+        .order('id')
+        .range(from, to)
+    );
+    for (const w of waivers) facts.get(w.client_id)?.eventIds.add(w.event_id);
+  }
+
+  if (types.has('attended_party')) {
+    const rsvps = await selectAll<{ client_id: string; party_request_id: string }>((from, to) =>
+      supabase
+        .from('party_rsvps')
+        .select('client_id, party_request_id')
+        .eq('tenant_id', tenantId)
+        .eq('attending', true)
+        .not('client_id', 'is', null)
+        .order('id')
+        .range(from, to)
+    );
+    for (const r of rsvps) facts.get(r.client_id)?.partyIds.add(r.party_request_id);
+  }
+
+  if ((types.has('purchased_material') || types.has('purchased_product_type')) && saleClient.size > 0) {
+    const items = await selectAll<{ sale_id: string; inventory_item_id: string | null; product_type_id: string | null }>((from, to) =>
+      supabase
+        .from('sale_items')
+        .select('sale_id, inventory_item_id, product_type_id')
+        .eq('tenant_id', tenantId)
+        .order('id')
+        .range(from, to)
+    );
+
+    const materialByItem = new Map<string, string>();
+    if (types.has('purchased_material')) {
+      const inventory = await selectAll<{ id: string; material: string | null }>((from, to) =>
+        supabase.from('inventory_items').select('id, material').eq('tenant_id', tenantId).order('id').range(from, to)
+      );
+      for (const i of inventory) if (i.material) materialByItem.set(i.id, i.material.trim().toLowerCase());
+    }
+
+    for (const item of items) {
+      const clientId = saleClient.get(item.sale_id);
+      const f = clientId ? facts.get(clientId) : undefined;
+      if (!f) continue;
+      if (item.product_type_id) f.productTypeIds.add(item.product_type_id);
+      const material = item.inventory_item_id ? materialByItem.get(item.inventory_item_id) : undefined;
+      if (material) f.materials.add(material);
+    }
+  }
+
+  if (types.has('has_warranty')) {
+    const warranties = await selectAll<{ client_id: string; expires_at: string | null }>((from, to) =>
+      supabase
+        .from('warranties')
+        .select('client_id, expires_at')
+        .eq('tenant_id', tenantId)
+        .eq('status', 'active')
+        .not('client_id', 'is', null)
+        .order('id')
+        .range(from, to)
+    );
+    const now = Date.now();
+    for (const w of warranties) {
+      if (w.expires_at && new Date(w.expires_at).getTime() < now) continue;
+      const f = facts.get(w.client_id);
+      if (f) f.hasWarranty = true;
+    }
+  }
+
+  if (types.has('sms_consent')) {
+    // Most recent waiver wins — same rule as broadcasts and workflow sends
+    const seen = new Set<string>();
+    for (const ids of inChunks(clients.map((c) => c.id))) {
+      const { data: waivers } = await supabase
+        .from('waivers')
+        .select('client_id, sms_consent')
+        .in('client_id', ids)
+        .order('created_at', { ascending: false });
+      for (const w of waivers || []) {
+        if (seen.has(w.client_id)) continue;
+        seen.add(w.client_id);
+        const f = facts.get(w.client_id);
+        if (f) f.smsConsent = w.sms_consent === true;
+      }
+    }
+  }
+
+  return facts;
+}
+
+function matchesCondition(rule: SegmentCondition, f: ClientFacts, now: number): boolean {
+  switch (rule.type) {
+    case 'tag':
+      return f.tagIds.has(rule.tag_id);
+    case 'lifetime_spend':
+      return rule.op === 'gte' ? f.spend >= rule.amount : f.spend <= rule.amount;
+    case 'visit_count':
+      return rule.op === 'gte' ? f.visits >= rule.count : f.visits <= rule.count;
+    case 'last_visit': {
+      if (f.lastVisit === null) return rule.op === 'before';
+      const cutoff = now - rule.days * 24 * 60 * 60 * 1000;
+      return rule.op === 'within' ? f.lastVisit >= cutoff : f.lastVisit < cutoff;
+    }
+    case 'birthday_month':
+      return f.birthdayMonth === rule.month;
+    case 'attended_event':
+      return f.eventIds.has(rule.event_id);
+    case 'attended_party':
+      return rule.party_request_id ? f.partyIds.has(rule.party_request_id) : f.partyIds.size > 0;
+    case 'purchased_material':
+      return f.materials.has(rule.material.trim().toLowerCase());
+    case 'purchased_product_type':
+      return f.productTypeIds.has(rule.product_type_id);
+    case 'has_warranty':
+      return f.hasWarranty;
+    case 'sms_consent':
+      return f.smsConsent;
+  }
+}
+
+function matchesRule(rule: SegmentRule, f: ClientFacts, now: number): boolean {
+  let result: boolean;
+  if (rule.type === 'group') {
+    // An empty group matches everyone — "no rules" means the whole list
+    if (rule.rules.length === 0) result = true;
+    else if (rule.match === 'all') result = rule.rules.every((r) => matchesRule(r, f, now));
+    else result = rule.rules.some((r) => matchesRule(r, f, now));
+  } else {
+    result = matchesCondition(rule, f, now);
+  }
+  return rule.negate ? !result : result;
+}
+
+/** Every client in the tenant that matches `criteria` (any stored filter_criteria shape). */
+export async function resolveSegmentClients(
+  supabase: SupabaseClient,
+  tenantId: string,
+  criteria: unknown
+): Promise<SegmentClient[]> {
+  const filter = normalizeSegmentFilter(criteria);
+
+  const clients = await selectAll<SegmentClient & { birthday: string | null; last_visit_at: string | null }>((from, to) =>
+    supabase
+      .from('clients')
+      .select('id, first_name, last_name, email, phone, birthday, last_visit_at')
+      .eq('tenant_id', tenantId)
+      .order('created_at', { ascending: false })
+      .range(from, to)
+  );
+
+  if (filter.root.rules.length === 0 && !filter.root.negate) {
+    return clients.map(({ birthday: _b, last_visit_at: _l, ...c }) => c);
+  }
+
+  const facts = await loadFacts(supabase, tenantId, clients, filter);
+  const now = Date.now();
+
+  return clients
+    .filter((c) => matchesRule(filter.root, facts.get(c.id)!, now))
+    .map(({ birthday: _b, last_visit_at: _l, ...c }) => c);
+}
+
+/** Load a saved segment (scoped to the tenant) and resolve its members. */
+export async function resolveSegmentById(
+  supabase: SupabaseClient,
+  tenantId: string,
+  segmentId: string
+): Promise<SegmentClient[] | null> {
+  const { data: segment } = await supabase
+    .from('client_segments')
+    .select('filter_criteria')
+    .eq('id', segmentId)
+    .eq('tenant_id', tenantId)
+    .single();
+
+  if (!segment) return null;
+  return resolveSegmentClients(supabase, tenantId, segment.filter_criteria);
+}
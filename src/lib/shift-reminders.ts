@@ -0,0 +1,85 @@
+// ============================================================================
+// Shift Reminders — src/lib/shift-reminders.ts
+// ============================================================================
+// Server-only sender for upcoming shift reminders: a push to the member's
+// devices and, when they've added their number, a text. Dead push tokens
+// are deactivated like the inbound message notifier.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { sendSMS } from '@/lib/twilio';
+import { sendMulticastNotification } from '@/lib/firebase-admin';
+import { logSmsCost } from '@/lib/cost-tracker';
+import { shiftReminderMessage } from '@/lib/shifts';
+
+interface ShiftForReminder {
+  id: string;
+  tenant_id: string;
+  starts_at: string;
+  ends_at: string;
+}
+
+interface MemberForReminder {
+  user_id: string;
+  display_name: string | null;
+  phone: string | null;
+}
+
+/** Returns true if the reminder reached the member by push or text. */
+export async function sendShiftReminder(
+  db: SupabaseClient,
+  shift: ShiftForReminder,
+  member: MemberForReminder,
+  tenant: { name: string },
+  eventName: string | null,
+  timeZone: string
+): Promise<boolean> {
+  const body = shiftReminderMessage({
+    memberName: member.display_name || 'there',
+    tenantName: tenant.name,
+    eventName,
+    startsAt: shift.starts_at,
+    endsAt: shift.ends_at,
+    timeZone,
+  });
+  let delivered = false;
+
+  // ── Push ──
+  const { data: tokenRows } = await db
+    .from('push_device_tokens')
+    .select('token')
+    .eq('tenant_id', shift.tenant_id)
+    .eq('user_id', member.user_id)
+    .eq('is_active', true);
+  const tokens = (tokenRows || []).map((r: { token: string }) => r.token);
+  if (tokens.length > 0) {
+    const result = await sendMulticastNotification({
+      tokens,
+      title: eventName ? `Upcoming shift: ${eventName}` : 'Upcoming shift',
+      body,
+      data: { type: 'shift_reminder', shiftId: shift.id },
+    });
+    delivered = result.successCount > 0;
+
+    const deadTokens = result.results
+      .filter((r) => r.errorCode === 'messaging/registration-token-not-registered')
+      .map((r) => r.token);
+    if (deadTokens.length > 0) {
+      await db
+        .from('push_device_tokens')
+        .update({ is_active: false, updated_at: new Date().toISOString() })
+        .in('token', deadTokens);
+    }
+  }
+
+  // ── SMS — the member entered this number for reminders themselves ──
+  if (member.phone) {
+    const sid = await sendSMS({ to: member.phone, body, tenantId: shift.tenant_id, skipConsentCheck: true });
+    if (sid) {
+      delivered = true;
+      logSmsCost({ tenantId: shift.tenant_id, operation: 'sms_shift_reminder' });
+    }
+  }
+
+  return delivered;
+}
@@ -0,0 +1,60 @@
+// ============================================================================
+// Shifts — src/lib/shifts.ts
+// ============================================================================
+// Client-safe helpers for the staff schedule and time clock (migration
+// 090): worked time on a punch, shift times in the event's or tenant's
+// zone, and reminder copy. Senders live in shift-reminders.ts.
+// ============================================================================
+
+import type { TimeEntry } from '@/types';
+
+/** Reminders go out this many hours before a shift starts */
+export const SHIFT_REMINDER_LEAD_HOURS = 12;
+
+/** A clock-in this close to a shift's start (either side) is for that shift */
+export const SHIFT_MATCH_WINDOW_MINUTES = 120;
+
+/**
+ * Minutes worked on a punch, less breaks. Open entries and breaks run to
+ * `now`.
+ */
+export function workedMinutes(
+  entry: Pick<TimeEntry, 'clock_in_at' | 'clock_out_at' | 'break_started_at' | 'break_minutes'>,
+  now: Date = new Date()
+): number {
+  const end = entry.clock_out_at ? new Date(entry.clock_out_at) : now;
+  const gross = (end.getTime() - new Date(entry.clock_in_at).getTime()) / 60_000;
+  const openBreak = entry.break_started_at && !entry.clock_out_at
+    ? (now.getTime() - new Date(entry.break_started_at).getTime()) / 60_000
+    : 0;
+  return Math.max(0, gross - (entry.break_minutes || 0) - openBreak);
+}
+
+/** "2h 05m" */
+export function formatDuration(minutes: number): string {
+  const total = Math.floor(minutes);
+  const h = Math.floor(total / 60);
+  const m = total % 60;
+  return h > 0 ? `${h}h ${String(m).padStart(2, '0')}m` : `${m}m`;
+}
+
+export function formatShiftTime(startsAt: string, endsAt: string, timeZone: string): string {
+  const start = new Date(startsAt);
+  const date = start.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric', timeZone });
+  const time = (d: Date) => d.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone });
+  return `${date}, ${time(start)} – ${time(new Date(endsAt))}`;
+}
+
+export function shiftReminderMessage(params: {
+  memberName: string;
+  tenantName: string;
+  /** Event name, or null for a store day */
+  eventName: string | null;
+  startsAt: string;
+  endsAt: string;
+  timeZone: string;
+}): string {
+  const firstName = params.memberName.split(' ')[0];
+  const where = params.eventName ? ` at ${params.eventName}` : '';
+  return `Hi ${firstName}, reminder from ${params.tenantName}: you're scheduled${where} ${formatShiftTime(params.startsAt, params.endsAt, params.timeZone)}. Clock in from the POS when you arrive.`;
+}
@@ -6,6 +6,8 @@
 // No Supabase imports — works client + server.
 // ============================================================================
 
+import { getLocalHour } from '@/lib/timezone';
+
 // ── Types ─────────────────────────────────────────────────────────────────
 
 export type CartCategory = 'standard' | 'hazmat' | 'heavy' | 'hazmat_heavy';
@@ -124,11 +126,12 @@ export function getWeightClass(itemNames: string[]): 'heavy' | 'light' {
 
 // ── Next-day cutoff check ─────────────────────────────────────────────────
 
-export function isPastNextDayCutoff(): boolean {
-  // 11:00 AM MST = 18:00 UTC (MST is UTC-7)
-  const now = new Date();
-  const utcHour = now.getUTCHours();
-  return utcHour >= 18;
+/** The warehouse ships from South Jordan, UT — cutoff follows Mountain time, DST included. */
+const WAREHOUSE_TIME_ZONE = 'America/Denver';
+const NEXT_DAY_CUTOFF_HOUR = 11;
+
+export function isPastNextDayCutoff(now: Date = new Date()): boolean {
+  return getLocalHour(now, WAREHOUSE_TIME_ZONE) >= NEXT_DAY_CUTOFF_HOUR;
 }
 
 // ── Rate lookup helper ────────────────────────────────────────────────────
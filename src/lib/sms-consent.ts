@@ -0,0 +1,93 @@
+// ============================================================================
+// SMS Consent — src/lib/sms-consent.ts
+// ============================================================================
+// Consent ledger writer and carrier keyword handling (migration 093).
+// Opt-ins come from waivers, RSVPs and bookings; opt-outs from STOP replies
+// and manual changes. sms_suppressions follows the ledger via trigger — only
+// a START reply or a manual change lifts an opt-out (migration 098) — and
+// sendSMS() in src/lib/twilio.ts enforces it.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { normalizePhone, normalizePhoneDigits } from '@/lib/twilio';
+import type { SmsConsentSource, SmsConsentStatus } from '@/types';
+
+// ── Keywords ──────────────────────────────────────────────────────────────
+
+export type SmsKeyword = 'stop' | 'start' | 'help';
+
+// The CTIA standard opt-out, opt-in and help keywords
+const KEYWORDS: Record<SmsKeyword, string[]> = {
+  stop: ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT', 'OPTOUT', 'REVOKE'],
+  start: ['START', 'UNSTOP', 'YES', 'SUBSCRIBE'],
+  help: ['HELP', 'INFO'],
+};
+
+/**
+ * Which keyword an inbound message is, if any. Only a message that is the
+ * keyword on its own counts ("Stop!" does, "stop by tomorrow?" doesn't).
+ */
+export function matchSmsKeyword(body: string): { kind: SmsKeyword; keyword: string } | null {
+  const word = body.trim().toUpperCase().replace(/[^A-Z]/g, '');
+  if (!word || word.length > 12) return null;
+  for (const kind of Object.keys(KEYWORDS) as SmsKeyword[]) {
+    if (KEYWORDS[kind].includes(word)) return { kind, keyword: word };
+  }
+  return null;
+}
+
+/** The auto-response for a keyword, sent from the tenant's number. */
+export function keywordReply(
+  kind: SmsKeyword,
+  tenant: { name: string | null; phone?: string | null }
+): string {
+  const business = tenant.name || 'Sunstone Studio';
+  switch (kind) {
+    case 'stop':
+      return `${business}: You're unsubscribed and won't receive any more texts from us. Reply START to resubscribe.`;
+    case 'start':
+      return `${business}: You're resubscribed to texts. Msg frequency varies. Msg & data rates may apply. Reply HELP for help, STOP to unsubscribe.`;
+    case 'help':
+      return `${business}: ${tenant.phone ? `For help, call ${tenant.phone}.` : 'Reply to this message and we\'ll get back to you.'} Msg & data rates may apply. Reply STOP to unsubscribe.`;
+  }
+}
+
+// ── Ledger ────────────────────────────────────────────────────────────────
+
+export interface SmsConsentInput {
+  tenantId: string;
+  phone: string;
+  status: SmsConsentStatus;
+  source: SmsConsentSource;
+  keyword?: string | null;
+  clientId?: string | null;
+  recordedBy?: string | null;
+  note?: string | null;
+}
+
+/**
+ * Append a consent event. Pass the service-role client — the ledger has no
+ * insert policy. Never throws — losing an opt-in shouldn't fail a waiver —
+ * and returns false when nothing was recorded.
+ */
+export async function recordSmsConsent(client: SupabaseClient, entry: SmsConsentInput): Promise<boolean> {
+  const digits = normalizePhoneDigits(entry.phone);
+  if (digits.length < 10) return false;
+
+  const { error } = await client.from('sms_consent_events').insert({
+    tenant_id: entry.tenantId,
+    phone: normalizePhone(entry.phone),
+    phone_digits: digits,
+    status: entry.status,
+    source: entry.source,
+    keyword: entry.keyword || null,
+    client_id: entry.clientId || null,
+    recorded_by: entry.recordedBy || null,
+    note: entry.note || null,
+  });
+  if (error) {
+    console.error('[SMS Consent] Failed to record', entry.status, error);
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,40 @@
+// ============================================================================
+// Stock Counts — src/lib/stock-counts.ts
+// ============================================================================
+// Client-safe helpers for physical count sessions: reason labels and the
+// variance math shared by the count screen, the API and the shrinkage
+// report. Finalizing happens in the finalize_stock_count() SQL function.
+// ============================================================================
+
+import type { StockCountLine, StockCountReason } from '@/types';
+
+export const STOCK_COUNT_REASONS: { value: StockCountReason; label: string; shrinkage: boolean }[] = [
+  { value: 'cutting_waste', label: 'Cutting waste', shrinkage: true },
+  { value: 'damaged', label: 'Damaged', shrinkage: true },
+  { value: 'theft', label: 'Theft / missing', shrinkage: true },
+  { value: 'miscount', label: 'Previous miscount', shrinkage: false },
+  { value: 'found', label: 'Found stock', shrinkage: false },
+  { value: 'other', label: 'Other', shrinkage: false },
+];
+
+export function stockCountReasonLabel(reason: StockCountReason | null): string {
+  return STOCK_COUNT_REASONS.find((r) => r.value === reason)?.label || 'No reason';
+}
+
+/** Default reason for a new variance — the user can always change it. */
+export function defaultReason(variance: number): StockCountReason {
+  return variance > 0 ? 'found' : 'cutting_waste';
+}
+
+/** counted − expected, or null while the line hasn't been counted. */
+export function lineVariance(line: Pick<StockCountLine, 'counted_quantity' | 'expected_quantity'>): number | null {
+  if (line.counted_quantity === null || line.counted_quantity === undefined) return null;
+  return Math.round((Number(line.counted_quantity) - Number(line.expected_quantity)) * 10000) / 10000;
+}
+
+/** Variance valued at the line's snapshotted unit cost (negative = loss). */
+export function lineVarianceValue(line: Pick<StockCountLine, 'counted_quantity' | 'expected_quantity' | 'unit_cost'>): number {
+  const variance = lineVariance(line);
+  if (!variance) return 0;
+  return Math.round(variance * Number(line.unit_cost) * 100) / 100;
+}
@@ -0,0 +1,152 @@
+// ============================================================================
+// Stock Locations — src/lib/stock-locations.ts
+// ============================================================================
+// Studio, event kits, travel cases and staff kits. quantity_on_hand on items
+// and variants is the total across locations; only non-default locations
+// have inventory_stock_levels rows, and the default location (the studio)
+// holds the rest. See migration 084 for how movements keep levels current.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { selectAll } from '@/lib/supabase/select-all';
+import type { InventoryStockLevel, StockLocation, StockLocationKind } from '@/types';
+
+export const STOCK_LOCATION_KINDS: { value: StockLocationKind; label: string }[] = [
+  { value: 'studio', label: 'Studio' },
+  { value: 'event_kit', label: 'Event kit' },
+  { value: 'travel_case', label: 'Travel case' },
+  { value: 'staff_kit', label: 'Staff kit' },
+];
+
+export function stockLocationKindLabel(kind: StockLocationKind): string {
+  return STOCK_LOCATION_KINDS.find((k) => k.value === kind)?.label || kind;
+}
+
+/** Key for an item or one of its variants in breakdown maps. */
+export function stockKey(itemId: string, variantId?: string | null): string {
+  return `${itemId}|${variantId || ''}`;
+}
+
+/**
+ * Active locations, default first. Tenants created after migration 084 get
+ * their default studio here, the first time anyone asks.
+ */
+export async function getStockLocations(supabase: SupabaseClient, tenantId: string): Promise<StockLocation[]> {
+  const { data } = await supabase
+    .from('stock_locations')
+    .select('*')
+    .eq('tenant_id', tenantId)
+    .eq('is_active', true)
+    .order('is_default', { ascending: false })
+    .order('sort_order')
+    .order('name');
+  const locations = (data || []) as StockLocation[];
+
+  if (!locations.some((l) => l.is_default)) {
+    const { data: studio } = await supabase
+      .from('stock_locations')
+      .insert({ tenant_id: tenantId, name: 'Studio', kind: 'studio', is_default: true })
+      .select()
+      .single();
+    if (studio) locations.unshift(studio as StockLocation);
+  }
+  return locations;
+}
+
+/** Every level row for the tenant (non-default locations only). */
+export async function getStockLevels(supabase: SupabaseClient, tenantId: string): Promise<InventoryStockLevel[]> {
+  return selectAll<InventoryStockLevel>((from, to) =>
+    supabase
+      .from('inventory_stock_levels')
+      .select('*')
+      .eq('tenant_id', tenantId)
+      .order('id')
+      .range(from, to)
+  );
+}
+
+export interface LocationQuantity {
+  location: StockLocation;
+  quantity: number;
+  par_level: number | null;
+}
+
+/**
+ * Per-location quantities for one item or variant. The default location
+ * gets the remainder; it can go negative if the total was edited down
+ * below what's out in kits, which is shown rather than hidden.
+ */
+export function locationBreakdown(
+  total: number,
+  itemId: string,
+  variantId: string | null,
+  locations: StockLocation[],
+  levels: InventoryStockLevel[],
+): LocationQuantity[] {
+  const mine = levels.filter((l) => l.inventory_item_id === itemId && (l.inventory_variant_id || null) === (variantId || null));
+  const out = mine.reduce((sum, l) => sum + Number(l.quantity), 0);
+
+  return locations.map((location) => {
+    if (location.is_default) {
+      return { location, quantity: Math.round((Number(total) - out) * 10000) / 10000, par_level: null };
+    }
+    const level = mine.find((l) => l.location_id === location.id);
+    return {
+      location,
+      quantity: level ? Number(level.quantity) : 0,
+      par_level: level?.par_level != null ? Number(level.par_level) : null,
+    };
+  });
+}
+
+/**
+ * Item-level breakdown: for items with variants, sums the variants' kit
+ * levels so the item row matches its total.
+ */
+export function itemLocationBreakdown(
+  total: number,
+  itemId: string,
+  locations: StockLocation[],
+  levels: InventoryStockLevel[],
+): LocationQuantity[] {
+  const mine = levels.filter((l) => l.inventory_item_id === itemId);
+  const byLocation = new Map<string, { quantity: number; par: number | null }>();
+  for (const l of mine) {
+    const entry = byLocation.get(l.location_id) || { quantity: 0, par: null };
+    entry.quantity += Number(l.quantity);
+    if (l.par_level != null) entry.par = (entry.par || 0) + Number(l.par_level);
+    byLocation.set(l.location_id, entry);
+  }
+  const out = [...byLocation.values()].reduce((sum, e) => sum + e.quantity, 0);
+
+  return locations.map((location) => {
+    if (location.is_default) {
+      return { location, quantity: Math.round((Number(total) - out) * 10000) / 10000, par_level: null };
+    }
+    const entry = byLocation.get(location.id);
+    return { location, quantity: entry?.quantity || 0, par_level: entry?.par ?? null };
+  });
+}
+
+export interface KitShortfall {
+  location: StockLocation;
+  inventory_item_id: string;
+  inventory_variant_id: string | null;
+  quantity: number;
+  par_level: number;
+}
+
+/** Kit lines at or below their par level — they need topping up from the studio. */
+export function kitShortfalls(locations: StockLocation[], levels: InventoryStockLevel[]): KitShortfall[] {
+  const byId = new Map(locations.map((l) => [l.id, l]));
+  return levels
+    .filter((l) => l.par_level != null && Number(l.par_level) > 0 && Number(l.quantity) <= Number(l.par_level))
+    .filter((l) => byId.get(l.location_id)?.is_active && !byId.get(l.location_id)?.is_default)
+    .map((l) => ({
+      location: byId.get(l.location_id)!,
+      inventory_item_id: l.inventory_item_id,
+      inventory_variant_id: l.inventory_variant_id,
+      quantity: Number(l.quantity),
+      par_level: Number(l.par_level),
+    }));
+}
@@ -2,11 +2,28 @@
 // Sunny Tools — src/lib/sunny-tools.ts
 // ============================================================================
 // 35 agentic tools for Sunny (business mentor AI).
-// Each tool receives { serviceClient, tenantId, userId } context.
+// Each tool receives { serviceClient, tenantId, userId, grant } context.
+// Tools run on the service role, so each is checked against the member's
+// role (SUNNY_TOOL_PERMISSIONS) before it runs.
 // ============================================================================
 
 import { renderTemplate } from '@/lib/templates';
-import { sendSMS as twilioSendSMS } from '@/lib/twilio';
+import { loadLoyaltyBalances } from '@/lib/loyalty';
+import { sendSMS as twilioSendSMS, getSmsOptOuts, isSmsOptedOut, normalizePhoneDigits } from '@/lib/twilio';
+import { scheduleWorkflowStep } from '@/lib/workflow-sender';
+import { resolveSegmentClients } from '@/lib/segments';
+import { getStockLevels, getStockLocations, itemLocationBreakdown } from '@/lib/stock-locations';
+import { getReorderForecast } from '@/lib/reorder-forecast';
+import { recordAudit, type AuditInput } from '@/lib/audit';
+import { hasPermission, PERMISSION_GROUPS, type Permission, type RoleGrant } from '@/lib/permissions';
+import {
+  resolveTimeZone,
+  startOfDayInZone,
+  startOfWeekInZone,
+  startOfMonthInZone,
+  startOfYearInZone,
+  toLocalDateString,
+} from '@/lib/timezone';
 
 // ============================================================================
 // Helpers
@@ -25,6 +42,25 @@ function sanitizeText(text: string): string {
     .trim();
 }
 
+/** Record an action in the audit log as Sunny acting for the member. */
+function auditSunnyAction(
+  ctx: SunnyToolContext,
+  entry: Omit<AuditInput, 'tenantId' | 'actorType' | 'actorUserId'>
+): Promise<void> {
+  return recordAudit(ctx.serviceClient, {
+    ...entry,
+    tenantId: ctx.tenantId,
+    actorType: 'sunny',
+    actorUserId: ctx.userId,
+  });
+}
+
+/** The tenant's configured time zone — period boundaries are local to it. */
+async function getTenantTimeZone(serviceClient: any, tenantId: string): Promise<string> {
+  const { data } = await serviceClient.from('tenants').select('time_zone').eq('id', tenantId).single();
+  return resolveTimeZone(data);
+}
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -33,6 +69,8 @@ export interface SunnyToolContext {
   serviceClient: any;
   tenantId: string;
   userId: string;
+  /** The member's role — tools check it the way the matching routes do */
+  grant: RoleGrant;
 }
 
 // ============================================================================
@@ -43,12 +81,13 @@ export const SUNNY_TOOL_DEFINITIONS = [
   // 1. check_inventory
   {
     name: 'check_inventory',
-    description: 'Check the artist\'s current inventory items. Can filter by search query or product type.',
+    description: 'Check the artist\'s current inventory items, with stock broken down by location (studio, event kits, travel cases, staff kits). Can filter by search query, product type or location.',
     input_schema: {
       type: 'object',
       properties: {
         query: { type: 'string', description: 'Search term to filter by name (optional)' },
         type: { type: 'string', enum: ['chain', 'jump_ring', 'charm', 'connector'], description: 'Filter by product type (optional)' },
+        location: { type: 'string', description: 'Location name to focus on, e.g. "Studio" or "Farmers Market Kit" (optional)' },
       },
       required: [],
     },
@@ -163,17 +202,18 @@ export const SUNNY_TOOL_DEFINITIONS = [
   // 9. send_bulk_message (CONFIRMATION REQUIRED)
   {
     name: 'send_bulk_message',
-    description: 'Send a message to all clients with a specific tag. REQUIRES CONFIRMATION: first call without confirmed=true to get a preview, then call again with confirmed=true after user approval.',
+    description: 'Send a message to all clients with a specific tag or in a saved segment. Provide tag_name OR segment_name. Texts skip clients who replied STOP. REQUIRES CONFIRMATION: first call without confirmed=true to get a preview, then call again with confirmed=true after user approval.',
     input_schema: {
       type: 'object',
       properties: {
         tag_name: { type: 'string', description: 'Tag name to target (e.g. "VIP")' },
+        segment_name: { type: 'string', description: 'Saved segment name to target (e.g. "Lapsed gold buyers")' },
         channel: { type: 'string', enum: ['sms', 'email'], description: 'Message channel' },
         body: { type: 'string', description: 'Message body. Supports template variables.' },
         subject: { type: 'string', description: 'Email subject (required for email)' },
         confirmed: { type: 'boolean', description: 'Set to true after user confirms the preview' },
       },
-      required: ['tag_name', 'channel', 'body'],
+      required: ['channel', 'body'],
     },
   },
   // 10. enroll_in_workflow
@@ -639,6 +679,19 @@ export const SUNNY_TOOL_DEFINITIONS = [
       required: [],
     },
   },
+  // 39. forecast_reorder
+  {
+    name: 'forecast_reorder',
+    description: 'Forecast when chain, jump rings and connectors will run out, from the last 90 days of usage plus upcoming events and confirmed parties, and suggest how much to reorder. Use this when the artist asks what to order, whether they have enough for an upcoming event, or when they will run out of something. Suggestions for items linked to Sunstone include the catalog product and package count — the artist can add them to the cart from Inventory → Reorder forecast.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Item name to focus on (optional)' },
+        horizon_days: { type: 'number', description: 'How many days ahead to cover (default 30, max 120)' },
+      },
+      required: [],
+    },
+  },
 ];
 
 // ============================================================================
@@ -684,6 +737,7 @@ export function getSunnyToolStatusLabel(name: string): string {
     search_sunstone_catalog: 'Searching Sunstone catalog...',
     create_reorder: 'Creating Sunstone reorder...',
     get_ambassador_status: 'Checking ambassador status...',
+    forecast_reorder: 'Forecasting supplies...',
   };
   return labels[name] || 'Working...';
 }
@@ -693,9 +747,11 @@ export function getSunnyToolStatusLabel(name: string): string {
 // ============================================================================
 
 // Note: sendSMS is imported as twilioSendSMS from @/lib/twilio
-// Local wrapper to pass tenantId for dedicated number routing
-async function sendSMS(to: string, body: string, tenantId?: string) {
-  await twilioSendSMS({ to, body, tenantId });
+// Local wrapper to pass tenantId for dedicated number routing.
+// Returns null when nothing was sent — e.g. the recipient replied STOP,
+// in which case twilioSendSMS has already logged the skip.
+async function sendSMS(to: string, body: string, tenantId?: string, clientId?: string) {
+  return twilioSendSMS({ to, body, tenantId, source: 'sunny_ai', clientId });
 }
 
 // ============================================================================
@@ -729,10 +785,121 @@ async function sendEmail(to: string, subject: string, body: string) {
 // Tool Executor Dispatcher
 // ============================================================================
 
+/**
+ * Mutating tools without their own audit entry, and the kind of record each
+ * touches. Refunds, price changes and inventory deletes record before/after
+ * values in their cases below; these record the tool input.
+ */
+const AUDITED_TOOLS: Record<string, string> = {
+  add_inventory: 'inventory_item',
+  tag_client: 'client',
+  add_client_note: 'client',
+  update_client: 'client',
+  send_message: 'client',
+  send_bulk_message: 'broadcast',
+  enroll_in_workflow: 'client',
+  create_event: 'event',
+  update_event: 'event',
+  delete_event: 'event',
+  update_settings: 'tenant',
+  create_tax_profile: 'tax_profile',
+  create_template: 'template',
+  update_template: 'template',
+  create_workflow: 'workflow',
+  update_workflow: 'workflow',
+  add_expense: 'expense',
+  assign_pricing_tier: 'inventory_item',
+  create_reorder: 'reorder',
+};
+
+/**
+ * What the member's role needs for each tool. Tools not listed (settings
+ * lookup, catalog search, ambassador status) are open to every member.
+ * Some tools check more inside their case (prices, costs, hard deletes).
+ */
+const SUNNY_TOOL_PERMISSIONS: Record<string, Permission> = {
+  check_inventory: 'inventory:view',
+  forecast_reorder: 'inventory:view',
+  add_inventory: 'inventory:edit',
+  update_inventory_item: 'inventory:edit',
+  delete_inventory_item: 'inventory:edit',
+  create_reorder: 'inventory:edit',
+  update_price: 'prices:edit',
+  assign_pricing_tier: 'prices:edit',
+  list_pricing_tiers: 'inventory:view',
+  search_clients: 'clients:view',
+  get_client_details: 'clients:view',
+  get_client_stats: 'clients:view',
+  tag_client: 'clients:edit',
+  add_client_note: 'clients:edit',
+  update_client: 'clients:edit',
+  enroll_in_workflow: 'clients:edit',
+  send_message: 'clients:edit',
+  send_bulk_message: 'broadcasts:send',
+  create_template: 'broadcasts:send',
+  update_template: 'broadcasts:send',
+  create_workflow: 'broadcasts:send',
+  update_workflow: 'broadcasts:send',
+  list_events: 'events:view',
+  get_event_performance: 'events:view',
+  create_event: 'events:edit',
+  update_event: 'events:edit',
+  delete_event: 'events:delete',
+  get_revenue_report: 'reports:view',
+  get_top_products: 'reports:view',
+  get_expenses: 'reports:view',
+  add_expense: 'reports:view',
+  update_settings: 'settings:manage',
+  create_tax_profile: 'settings:manage',
+  find_sale: 'pos:use',
+  process_refund: 'sales:refund',
+};
+
+/** Tool result telling Sunny the member's role doesn't allow something. */
+function notAllowed(permission: Permission): { result: any; isError: true } {
+  const label = PERMISSION_GROUPS.flatMap((g) => g.permissions).find((p) => p.key === permission)?.label || permission;
+  return {
+    result: { error: `Your role doesn't include "${label}", so this can't be done for you. An admin can change roles in Settings → Team.` },
+    isError: true,
+  };
+}
+
 export async function executeSunnyTool(
   name: string,
   input: any,
   ctx: SunnyToolContext
+): Promise<{ result: any; isError?: boolean }> {
+  const required = SUNNY_TOOL_PERMISSIONS[name];
+  if (required && !hasPermission(ctx.grant, required)) return notAllowed(required);
+
+  const outcome = await runSunnyTool(name, input, ctx);
+
+  // Previews and clarifying questions haven't changed anything yet
+  const result = outcome.result || {};
+  if (
+    AUDITED_TOOLS[name] &&
+    !outcome.isError &&
+    !result.error &&
+    !result.pending_confirmation &&
+    !result.needs_clarification &&
+    !result.preview
+  ) {
+    await auditSunnyAction(ctx, {
+      action: `sunny.${name}`,
+      entityType: AUDITED_TOOLS[name],
+      entityId: typeof result.id === 'string' ? result.id : null,
+      entityLabel: result.name || result.item_name || result.client_name || result.event_name || null,
+      after: input,
+    });
+  }
+
+  return outcome;
+}
+
+async function runSunnyTool(
+  name: string,
+  input: any,
+  ctx: SunnyToolContext
 ): Promise<{ result: any; isError?: boolean }> {
   const { serviceClient, tenantId, userId } = ctx;
 
@@ -740,6 +907,7 @@ export async function executeSunnyTool(
     switch (name) {
       // ── 1. check_inventory ──
       case 'check_inventory': {
+        const canSeeCosts = hasPermission(ctx.grant, 'costs:view');
         let query = serviceClient
           .from('inventory_items')
           .select('id, name, type, material, quantity_on_hand, sell_price, cost_per_unit, unit, reorder_threshold, is_active')
@@ -754,23 +922,51 @@ export async function executeSunnyTool(
         const { data, error } = await query.limit(50);
         if (error) return { result: { error: error.message }, isError: true };
 
-        const items = (data || []).map((i: any) => ({
-          id: i.id,
-          name: i.name,
-          type: i.type,
-          material: i.material,
-          quantity: Number(i.quantity_on_hand),
-          unit: i.unit,
-          sell_price: Number(i.sell_price) || 0,
-          cost: Number(i.cost_per_unit) || 0,
-          low_stock: i.reorder_threshold ? Number(i.quantity_on_hand) <= Number(i.reorder_threshold) : false,
-        }));
+        const [locations, levels] = await Promise.all([
+          getStockLocations(serviceClient, tenantId),
+          getStockLevels(serviceClient, tenantId),
+        ]);
+        const focus = input.location
+          ? locations.find((l) => l.name.toLowerCase().includes(String(input.location).toLowerCase()))
+          : null;
+        if (input.location && !focus) {
+          return { result: { error: `No location matching "${input.location}". Locations: ${locations.map((l) => l.name).join(', ')}` }, isError: true };
+        }
 
-        return { result: { items, total: items.length } };
+        const items = (data || []).map((i: any) => {
+          // Only list locations that hold something or have a par level
+          const breakdown = itemLocationBreakdown(Number(i.quantity_on_hand), i.id, locations, levels)
+            .filter((b) => b.location.is_default || b.quantity !== 0 || b.par_level !== null)
+            .map((b) => ({
+              location: b.location.name,
+              quantity: b.quantity,
+              ...(b.par_level !== null ? { par_level: b.par_level, below_par: b.quantity <= b.par_level } : {}),
+            }));
+          const atFocus = focus ? breakdown.find((b) => b.location === focus.name) : null;
+          return {
+            id: i.id,
+            name: i.name,
+            type: i.type,
+            material: i.material,
+            quantity: Number(i.quantity_on_hand),
+            unit: i.unit,
+            sell_price: Number(i.sell_price) || 0,
+            ...(canSeeCosts ? { cost: Number(i.cost_per_unit) || 0 } : {}),
+            low_stock: i.reorder_threshold ? Number(i.quantity_on_hand) <= Number(i.reorder_threshold) : false,
+            ...(locations.length > 1 ? { locations: breakdown } : {}),
+            ...(focus ? { quantity_at_location: atFocus?.quantity ?? 0 } : {}),
+          };
+        });
+
+        return { result: { items, total: items.length, ...(focus ? { location: focus.name } : {}) } };
       }
 
       // ── 2. add_inventory ──
       case 'add_inventory': {
+        const setsPrices = !!(input.sell_price || input.markup || input.bracelet_price || input.anklet_price || input.ring_price || input.necklace_price_per_inch);
+        if (setsPrices && !hasPermission(ctx.grant, 'prices:edit')) return notAllowed('prices:edit');
+        if ((input.cost_per_inch ?? input.cost) && !hasPermission(ctx.grant, 'costs:view')) return notAllowed('costs:view');
+
         // Map new param names with backward compat
         const effectiveCost = input.cost_per_inch ?? input.cost ?? 0;
         const effectiveQty = input.quantity ?? input.quantity_on_hand ?? 0;
@@ -895,6 +1091,14 @@ export async function executeSunnyTool(
 
       // ── 3. update_price ──
       case 'update_price': {
+        const { data: item } = await serviceClient
+          .from('inventory_items')
+          .select('name, sell_price')
+          .eq('id', input.item_id)
+          .eq('tenant_id', tenantId)
+          .single();
+        if (!item) return { result: { error: 'Inventory item not found' }, isError: true };
+
         const { error } = await serviceClient
           .from('inventory_items')
           .update({ sell_price: input.sell_price })
@@ -902,6 +1106,15 @@ export async function executeSunnyTool(
           .eq('tenant_id', tenantId);
 
         if (error) return { result: { error: error.message }, isError: true };
+
+        await auditSunnyAction(ctx, {
+          action: 'inventory.price_change',
+          entityType: 'inventory_item',
+          entityId: input.item_id,
+          entityLabel: item.name,
+          before: { sell_price: Number(item.sell_price) },
+          after: { sell_price: input.sell_price },
+        });
         return { result: { success: true, item_id: input.item_id, new_price: input.sell_price } };
       }
 
@@ -1041,7 +1254,7 @@ export async function executeSunnyTool(
         }
         // Fetch client + tenant for variables
         const [cRes, tRes] = await Promise.all([
-          serviceClient.from('clients').select('first_name, last_name, email, phone').eq('id', input.client_id).eq('tenant_id', tenantId).single(),
+          serviceClient.from('clients').select('first_name, last_name, email, phone, loyalty_points').eq('id', input.client_id).eq('tenant_id', tenantId).single(),
           serviceClient.from('tenants').select('name, phone').eq('id', tenantId).single(),
         ]);
 
@@ -1056,13 +1269,18 @@ export async function executeSunnyTool(
           client_first_name: client.first_name || '',
           business_name: tenant?.name || '',
           business_phone: tenant?.phone || '',
+          loyalty_points: String(client.loyalty_points || 0),
         };
 
         const resolvedBody = renderTemplate(input.body, variables);
         const resolvedSubject = input.subject ? renderTemplate(input.subject, variables) : '';
+        const optedOutError = `${clientName || 'This client'} has opted out of texts (replied STOP), so they can't be texted until they reply START.`;
 
         // If not confirmed, return preview
         if (!input.confirmed) {
+          if (input.channel === 'sms' && client.phone && await isSmsOptedOut(tenantId, client.phone)) {
+            return { result: { error: optedOutError }, isError: true };
+          }
           return {
             result: {
               pending_confirmation: true,
@@ -1080,7 +1298,10 @@ export async function executeSunnyTool(
         // Confirmed — send it
         if (input.channel === 'sms') {
           if (!client.phone) return { result: { error: 'Client has no phone number' }, isError: true };
-          await sendSMS(client.phone, resolvedBody, tenantId);
+          const sid = await sendSMS(client.phone, resolvedBody, tenantId, input.client_id);
+          if (!sid && await isSmsOptedOut(tenantId, client.phone)) {
+            return { result: { error: optedOutError, skipped: true }, isError: true };
+          }
         } else {
           if (!client.email) return { result: { error: 'Client has no email address' }, isError: true };
           await sendEmail(client.email, resolvedSubject || `Message from ${tenant?.name || 'your artist'}`, resolvedBody);
@@ -1105,27 +1326,49 @@ export async function executeSunnyTool(
 
       // ── 9. send_bulk_message (CONFIRMATION REQUIRED) ──
       case 'send_bulk_message': {
-        // Find tag
-        const { data: tag } = await serviceClient
-          .from('client_tags')
-          .select('id, name')
-          .eq('tenant_id', tenantId)
-          .eq('name', input.tag_name)
-          .single();
+        let clients: any[];
+        let audienceLabel: string;
+
+        if (input.segment_name) {
+          // Find segment and evaluate its rules
+          const { data: segment } = await serviceClient
+            .from('client_segments')
+            .select('id, name, filter_criteria')
+            .eq('tenant_id', tenantId)
+            .eq('name', input.segment_name)
+            .single();
 
-        if (!tag) return { result: { error: `Tag "${input.tag_name}" not found` }, isError: true };
+          if (!segment) return { result: { error: `Segment "${input.segment_name}" not found` }, isError: true };
 
-        // Get assigned clients
-        const { data: assignments } = await serviceClient
-          .from('client_tag_assignments')
-          .select('client_id, clients(id, first_name, last_name, email, phone)')
-          .eq('tag_id', tag.id);
+          clients = await resolveSegmentClients(serviceClient, tenantId, segment.filter_criteria);
+          audienceLabel = `segment "${segment.name}"`;
+          if (clients.length === 0) return { result: { error: `No clients match the "${segment.name}" segment` }, isError: true };
+        } else {
+          if (!input.tag_name) return { result: { error: 'Provide a tag_name or segment_name' }, isError: true };
+
+          // Find tag
+          const { data: tag } = await serviceClient
+            .from('client_tags')
+            .select('id, name')
+            .eq('tenant_id', tenantId)
+            .eq('name', input.tag_name)
+            .single();
 
-        const clients = (assignments || [])
-          .map((a: any) => a.clients)
-          .filter(Boolean);
+          if (!tag) return { result: { error: `Tag "${input.tag_name}" not found` }, isError: true };
+
+          // Get assigned clients
+          const { data: assignments } = await serviceClient
+            .from('client_tag_assignments')
+            .select('client_id, clients(id, first_name, last_name, email, phone)')
+            .eq('tag_id', tag.id);
 
-        if (clients.length === 0) return { result: { error: `No clients have the "${input.tag_name}" tag` }, isError: true };
+          clients = (assignments || [])
+            .map((a: any) => a.clients)
+            .filter(Boolean);
+          audienceLabel = `tag "${input.tag_name}"`;
+
+          if (clients.length === 0) return { result: { error: `No clients have the "${input.tag_name}" tag` }, isError: true };
+        }
 
         // Get tenant info
         const { data: tenant } = await serviceClient
@@ -1134,18 +1377,25 @@ export async function executeSunnyTool(
           .eq('id', tenantId)
           .single();
 
+        // Numbers that replied STOP are never texted
+        const optOuts = input.channel === 'sms'
+          ? await getSmsOptOuts(tenantId, clients.map((c: any) => c.phone))
+          : new Set<string>();
+        const isOptedOut = (c: any) => !!c.phone && optOuts.has(normalizePhoneDigits(c.phone));
+
         // If not confirmed, return preview
         if (!input.confirmed) {
           const eligible = clients.filter((c: any) =>
-            input.channel === 'sms' ? c.phone : c.email
+            input.channel === 'sms' ? c.phone && !isOptedOut(c) : c.email
           );
           return {
             result: {
               pending_confirmation: true,
               preview: {
-                tag: input.tag_name,
+                audience: audienceLabel,
                 total_clients: clients.length,
                 eligible_clients: eligible.length,
+                ...(optOuts.size > 0 ? { opted_out_clients: clients.filter(isOptedOut).length } : {}),
                 channel: input.channel,
                 body: input.body,
                 subject: input.subject || undefined,
@@ -1160,6 +1410,8 @@ export async function executeSunnyTool(
         // Confirmed — send to all eligible clients
         let sent = 0;
         let failed = 0;
+        let optedOut = 0;
+        const points = await loadLoyaltyBalances(serviceClient, clients.map((c) => c.id));
         for (const client of clients) {
           const clientName = `${client.first_name || ''} ${client.last_name || ''}`.trim();
           const variables: Record<string, string> = {
@@ -1167,13 +1419,18 @@ export async function executeSunnyTool(
             client_first_name: client.first_name || '',
             business_name: tenant?.name || '',
             business_phone: tenant?.phone || '',
+            loyalty_points: String(points[client.id] || 0),
           };
           const resolvedBody = renderTemplate(input.body, variables);
           const resolvedSubject = input.subject ? renderTemplate(input.subject, variables) : '';
 
           try {
             if (input.channel === 'sms' && client.phone) {
-              await sendSMS(client.phone, resolvedBody, tenantId);
+              // Opted-out numbers are skipped and logged by sendSMS
+              if (!await sendSMS(client.phone, resolvedBody, tenantId, client.id) && isOptedOut(client)) {
+                optedOut++;
+                continue;
+              }
               sent++;
             } else if (input.channel === 'email' && client.email) {
               await sendEmail(client.email, resolvedSubject || `Message from ${tenant?.name || 'your artist'}`, resolvedBody);
@@ -1201,7 +1458,15 @@ export async function executeSunnyTool(
           }
         }
 
-        return { result: { success: true, sent, failed, tag: input.tag_name } };
+        return {
+          result: {
+            success: true,
+            sent,
+            failed,
+            ...(optedOut > 0 ? { skipped_opted_out: optedOut } : {}),
+            audience: audienceLabel,
+          },
+        };
       }
 
       // ── 10. enroll_in_workflow ──
@@ -1240,8 +1505,8 @@ export async function executeSunnyTool(
 
         // Get client + tenant + templates for variable resolution
         const [cRes, tRes, templatesRes] = await Promise.all([
-          serviceClient.from('clients').select('first_name, last_name').eq('id', input.client_id).single(),
-          serviceClient.from('tenants').select('name, phone').eq('id', tenantId).single(),
+          serviceClient.from('clients').select('first_name, last_name, loyalty_points').eq('id', input.client_id).single(),
+          serviceClient.from('tenants').select('name, phone, time_zone, workflow_quiet_hours_start, workflow_quiet_hours_end').eq('id', tenantId).single(),
           serviceClient.from('message_templates').select('name, body').eq('tenant_id', tenantId),
         ]);
 
@@ -1250,6 +1515,7 @@ export async function executeSunnyTool(
           client_name: clientName,
           business_name: tRes.data?.name || 'our studio',
           business_phone: tRes.data?.phone || '',
+          loyalty_points: String(cRes.data?.loyalty_points || 0),
         };
 
         const templateMap: Record<string, string> = {};
@@ -1257,7 +1523,7 @@ export async function executeSunnyTool(
 
         const now = new Date();
         const queueRows = steps.map((step: any) => {
-          const scheduledFor = new Date(now.getTime() + step.delay_hours * 60 * 60 * 1000);
+          const scheduledFor = scheduleWorkflowStep(now, step.delay_hours, tRes.data);
           let messageBody = templateMap[step.template_name] || step.template_name;
           messageBody = renderTemplate(messageBody, variables);
           return {
@@ -1390,25 +1656,24 @@ export async function executeSunnyTool(
       // ── 14. get_revenue_report ──
       case 'get_revenue_report': {
         const now = new Date();
+        const timeZone = await getTenantTimeZone(serviceClient, tenantId);
         let startDate: Date;
 
         switch (input.period) {
           case 'today':
-            startDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+            startDate = startOfDayInZone(now, timeZone);
             break;
           case 'week':
-            startDate = new Date(now);
-            startDate.setDate(now.getDate() - now.getDay());
-            startDate.setHours(0, 0, 0, 0);
+            startDate = startOfWeekInZone(now, timeZone);
             break;
           case 'month':
-            startDate = new Date(now.getFullYear(), now.getMonth(), 1);
+            startDate = startOfMonthInZone(now, timeZone);
             break;
           case 'year':
-            startDate = new Date(now.getFullYear(), 0, 1);
+            startDate = startOfYearInZone(now, timeZone);
             break;
           default:
-            startDate = new Date(now.getFullYear(), now.getMonth(), 1);
+            startDate = startOfMonthInZone(now, timeZone);
         }
 
         const { data: sales, error } = await serviceClient
@@ -1453,16 +1718,17 @@ export async function executeSunnyTool(
         let startDate: Date | null = null;
 
         if (input.period && input.period !== 'all') {
+          const timeZone = await getTenantTimeZone(serviceClient, tenantId);
           switch (input.period) {
             case 'week':
               startDate = new Date(now);
               startDate.setDate(now.getDate() - 7);
               break;
             case 'month':
-              startDate = new Date(now.getFullYear(), now.getMonth(), 1);
+              startDate = startOfMonthInZone(now, timeZone);
               break;
             case 'year':
-              startDate = new Date(now.getFullYear(), 0, 1);
+              startDate = startOfYearInZone(now, timeZone);
               break;
           }
         }
@@ -1504,8 +1770,8 @@ export async function executeSunnyTool(
 
       // ── 16. get_client_stats ──
       case 'get_client_stats': {
-        const now = new Date();
-        const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+        const timeZone = await getTenantTimeZone(serviceClient, tenantId);
+        const startOfMonth = startOfMonthInZone(new Date(), timeZone);
 
         const [totalRes, newRes] = await Promise.all([
           serviceClient
@@ -1640,7 +1906,7 @@ export async function executeSunnyTool(
         if (input.item_id) {
           const { data: directMatch, error: directErr } = await serviceClient
             .from('inventory_items')
-            .select('id, name, type, material, quantity_on_hand, cost_per_unit, sell_price, unit, is_active')
+            .select('id, name, type, material, quantity_on_hand, cost_per_unit, sell_price, unit, is_active, reorder_threshold, supplier')
             .eq('id', input.item_id)
             .eq('tenant_id', tenantId)
             .single();
@@ -1651,7 +1917,7 @@ export async function executeSunnyTool(
           // Find item by name
           const { data: matches, error: searchErr } = await serviceClient
             .from('inventory_items')
-            .select('id, name, type, material, quantity_on_hand, cost_per_unit, sell_price, unit, is_active')
+            .select('id, name, type, material, quantity_on_hand, cost_per_unit, sell_price, unit, is_active, reorder_threshold, supplier')
             .eq('tenant_id', tenantId)
             .ilike('name', `%${input.search_name}%`);
 
@@ -1671,6 +1937,18 @@ export async function executeSunnyTool(
           return { result: { error: 'Provide either item_id or search_name to find the inventory item' }, isError: true };
         }
 
+        const hasPriceUpdates = input.updates.bracelet_price !== undefined ||
+          input.updates.anklet_price !== undefined ||
+          input.updates.ring_price !== undefined ||
+          input.updates.necklace_price_per_inch !== undefined;
+
+        if ((hasPriceUpdates || input.updates.sell_price !== undefined) && !hasPermission(ctx.grant, 'prices:edit')) {
+          return notAllowed('prices:edit');
+        }
+        if (input.updates.cost_per_inch !== undefined && !hasPermission(ctx.grant, 'costs:view')) {
+          return notAllowed('costs:view');
+        }
+
         const dbUpdates: Record<string, any> = {};
 
         if (input.updates.name !== undefined) dbUpdates.name = sanitizeText(input.updates.name);
@@ -1683,11 +1961,6 @@ export async function executeSunnyTool(
         if (input.updates.supplier !== undefined) dbUpdates.supplier = sanitizeText(input.updates.supplier);
         if (input.updates.is_active !== undefined) dbUpdates.is_active = input.updates.is_active;
 
-        const hasPriceUpdates = input.updates.bracelet_price !== undefined ||
-          input.updates.anklet_price !== undefined ||
-          input.updates.ring_price !== undefined ||
-          input.updates.necklace_price_per_inch !== undefined;
-
         if (Object.keys(dbUpdates).length === 0 && !hasPriceUpdates) return { result: { error: 'No valid updates provided' }, isError: true };
 
         if (Object.keys(dbUpdates).length > 0) {
@@ -1702,6 +1975,7 @@ export async function executeSunnyTool(
 
         // Upsert chain product prices if any price fields provided
         const priceUpdates: Record<string, number> = {};
+        const pricesBefore: Record<string, number | null> = {};
         if (hasPriceUpdates) {
           // Fetch product types for this tenant (with custom default_inches)
           const { data: productTypes } = await serviceClient
@@ -1727,6 +2001,14 @@ export async function executeSunnyTool(
               const pt = productTypes.find((p: any) => p.name.toLowerCase() === pm.name);
               if (!pt) continue;
 
+              const { data: existing } = await serviceClient
+                .from('chain_product_prices')
+                .select('sell_price')
+                .eq('inventory_item_id', item.id)
+                .eq('product_type_id', pt.id)
+                .maybeSingle();
+              pricesBefore[pm.field] = existing ? Number(existing.sell_price) : null;
+
               await serviceClient
                 .from('chain_product_prices')
                 .upsert({
@@ -1743,6 +2025,21 @@ export async function executeSunnyTool(
           }
         }
 
+        const priceChanged = dbUpdates.sell_price !== undefined || Object.keys(priceUpdates).length > 0;
+        await auditSunnyAction(ctx, {
+          action: priceChanged && Object.keys(dbUpdates).every((k) => k === 'sell_price')
+            ? 'inventory.price_change'
+            : 'inventory.update',
+          entityType: 'inventory_item',
+          entityId: item.id,
+          entityLabel: item.name,
+          before: {
+            ...Object.fromEntries(Object.keys(dbUpdates).map((k) => [k, item[k] ?? null])),
+            ...pricesBefore,
+          },
+          after: { ...dbUpdates, ...priceUpdates },
+        });
+
         return {
           result: {
             success: true,
@@ -1966,9 +2263,13 @@ export async function executeSunnyTool(
 
       // ── 26. delete_inventory_item ──
       case 'delete_inventory_item': {
+        if (input.action === 'delete' && !hasPermission(ctx.grant, 'inventory:delete')) {
+          return notAllowed('inventory:delete');
+        }
+
         const { data: matches } = await serviceClient
           .from('inventory_items')
-          .select('id, name, type, material')
+          .select('id, name, type, material, quantity_on_hand, cost_per_unit, sell_price')
           .eq('tenant_id', tenantId)
           .ilike('name', `%${input.search_name}%`);
 
@@ -2003,6 +2304,14 @@ export async function executeSunnyTool(
             .eq('id', item.id)
             .eq('tenant_id', tenantId);
           if (error) return { result: { error: 'Failed to deactivate item' }, isError: true };
+          await auditSunnyAction(ctx, {
+            action: 'inventory.deactivate',
+            entityType: 'inventory_item',
+            entityId: item.id,
+            entityLabel: item.name,
+            before: { is_active: true },
+            after: { is_active: false },
+          });
           return { result: { success: true, action: 'deactivated', item_name: item.name } };
         } else {
           const { error } = await serviceClient
@@ -2011,6 +2320,19 @@ export async function executeSunnyTool(
             .eq('id', item.id)
             .eq('tenant_id', tenantId);
           if (error) return { result: { error: 'Failed to delete item' }, isError: true };
+          await auditSunnyAction(ctx, {
+            action: 'inventory.delete',
+            entityType: 'inventory_item',
+            entityId: item.id,
+            entityLabel: item.name,
+            before: {
+              name: item.name,
+              type: item.type,
+              quantity_on_hand: item.quantity_on_hand,
+              cost_per_unit: item.cost_per_unit,
+              sell_price: item.sell_price,
+            },
+          });
           return { result: { success: true, action: 'deleted', item_name: item.name } };
         }
       }
@@ -2281,6 +2603,16 @@ export async function executeSunnyTool(
           refunded_by: userId,
         }).eq('id', sale.id);
 
+        await auditSunnyAction(ctx, {
+          action: 'sale.refund',
+          entityType: 'sale',
+          entityId: sale.id,
+          entityLabel: clientName,
+          before: { refund_amount: Number(sale.refund_amount) || 0, refund_status: sale.refund_status || null },
+          after: { refund_amount: newRefundAmount, refund_status: newStatus },
+          metadata: { amount: refundAmount, reason: input.reason || null, payment_method: sale.payment_method },
+        });
+
         return {
           result: {
             success: true,
@@ -2294,7 +2626,7 @@ export async function executeSunnyTool(
 
       // ── 31. add_expense ───────────────────────────────────────────────────
       case 'add_expense': {
-        const today = new Date().toISOString().split('T')[0];
+        const today = toLocalDateString(new Date(), await getTenantTimeZone(serviceClient, tenantId));
         const { data, error } = await serviceClient
           .from('expenses')
           .insert({
@@ -2318,8 +2650,9 @@ export async function executeSunnyTool(
 
       // ── 32. get_expenses ──────────────────────────────────────────────────
       case 'get_expenses': {
-        const today = new Date().toISOString().split('T')[0];
-        const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+        const timeZone = await getTenantTimeZone(serviceClient, tenantId);
+        const today = toLocalDateString(new Date(), timeZone);
+        const thirtyDaysAgo = toLocalDateString(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), timeZone);
         const startDate = input.start_date || thirtyDaysAgo;
         const endDate = input.end_date || today;
 
@@ -2733,6 +3066,46 @@ export async function executeSunnyTool(
         };
       }
 
+      case 'forecast_reorder': {
+        const horizonDays = Math.min(Math.max(Math.round(Number(input.horizon_days) || 30), 7), 120);
+        const { forecast } = await getReorderForecast(serviceClient, tenantId, { horizonDays });
+        const search = (input.query || '').toLowerCase().trim();
+        const matches = forecast.filter((f) => !search || f.name.toLowerCase().includes(search));
+        const needed = search ? matches : matches.filter((f) => f.suggested_quantity > 0);
+
+        if (needed.length === 0) {
+          return {
+            result: {
+              horizon_days: horizonDays,
+              items: [],
+              message: search
+                ? `No chain, jump ring or connector matching "${input.query}" is being tracked.`
+                : `Nothing is projected to run short in the next ${horizonDays} days.`,
+            },
+          };
+        }
+
+        return {
+          result: {
+            horizon_days: horizonDays,
+            items: needed.slice(0, 15).map((f) => ({
+              name: f.name,
+              on_hand: `${f.quantity_on_hand} ${f.unit}`,
+              daily_use: f.baseline_daily,
+              event_use: f.event_demand,
+              days_to_stockout: f.days_to_stockout,
+              runs_out_on: f.stockout_date,
+              upcoming: f.occasions.map((o) => `${o.name} (${o.date.slice(0, 10)}): ~${o.demand} ${f.unit}`),
+              suggested_reorder: f.suggested_quantity > 0 ? `${f.suggested_quantity} ${f.unit}` : null,
+              sunstone: f.cart
+                ? `${f.cart.quantity} × ${f.cart.productTitle}${f.cart.variantTitle !== 'Default Title' ? ` (${f.cart.variantTitle})` : ''} at $${f.cart.unitPrice.toFixed(2)}`
+                : null,
+            })),
+            total_needing_reorder: matches.filter((f) => f.suggested_quantity > 0).length,
+          },
+        };
+      }
+
       case 'get_ambassador_status': {
         // Find the tenant's owner user_id first
         const { data: member } = await serviceClient
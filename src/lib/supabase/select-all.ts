@@ -0,0 +1,22 @@
+// ============================================================================
+// Paged Select — src/lib/supabase/select-all.ts
+// ============================================================================
+// PostgREST caps every response (1000 rows by default). selectAll() keeps
+// asking for the next range until a short page comes back. The query must
+// have a stable order, or rows can repeat or go missing between pages.
+// ============================================================================
+
+export const PAGE_SIZE = 1000;
+
+/** Page through a query so large tenants aren't cut off at PostgREST's row limit. */
+export async function selectAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,69 @@
+// ============================================================================
+// Team Roles — src/lib/team-roles.ts
+// ============================================================================
+// Validation for tenant-defined roles (migration 091), shared by the
+// /api/team/roles routes. The catalog and permission checks live in
+// permissions.ts.
+// ============================================================================
+
+import { ALL_PERMISSIONS, type Permission, type TenantRole } from '@/lib/permissions';
+
+export interface TeamRoleInput {
+  name: string;
+  description: string | null;
+  base_role: TenantRole;
+  permissions: Permission[];
+  discount_max_percent: number | null;
+  discount_max_amount: number | null;
+}
+
+const BASE_ROLES: TenantRole[] = ['admin', 'manager', 'staff'];
+
+function limit(value: unknown, max: number | null, label: string): number | null | string {
+  if (value == null || value === '') return null;
+  const n = Math.round(Number(value) * 100) / 100;
+  if (!Number.isFinite(n) || n < 0) return `${label} must be 0 or more`;
+  if (max != null && n > max) return `${label} must be ${max} or less`;
+  return n;
+}
+
+/**
+ * Validate a role create/update body. Fields missing from `body` are taken
+ * from `current` (PATCH). Returns the cleaned role or an error message.
+ */
+export function parseTeamRoleInput(
+  body: Record<string, unknown>,
+  current?: TeamRoleInput
+): { role: TeamRoleInput } | { error: string } {
+  const name = typeof body.name === 'string' ? body.name.trim() : current?.name ?? '';
+  if (!name) return { error: 'Role name is required' };
+  if (name.length > 40) return { error: 'Role name must be 40 characters or fewer' };
+
+  const description = 'description' in body
+    ? (typeof body.description === 'string' && body.description.trim()) || null
+    : current?.description ?? null;
+
+  const base_role = ('base_role' in body ? body.base_role : current?.base_role ?? 'staff') as TenantRole;
+  if (!BASE_ROLES.includes(base_role)) return { error: 'Invalid access level' };
+
+  let permissions = current?.permissions ?? [];
+  if ('permissions' in body) {
+    if (!Array.isArray(body.permissions)) return { error: 'permissions must be a list' };
+    const unknown = body.permissions.filter((p) => !ALL_PERMISSIONS.includes(p as Permission));
+    if (unknown.length > 0) return { error: `Unknown permission: ${unknown[0]}` };
+    permissions = [...new Set(body.permissions as Permission[])];
+  }
+
+  const percent = 'discount_max_percent' in body
+    ? limit(body.discount_max_percent, 100, 'Discount limit (%)')
+    : current?.discount_max_percent ?? null;
+  if (typeof percent === 'string') return { error: percent };
+  const amount = 'discount_max_amount' in body
+    ? limit(body.discount_max_amount, null, 'Discount limit ($)')
+    : current?.discount_max_amount ?? null;
+  if (typeof amount === 'string') return { error: amount };
+
+  return {
+    role: { name, description, base_role, permissions, discount_max_percent: percent, discount_max_amount: amount },
+  };
+}
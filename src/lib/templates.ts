@@ -24,6 +24,7 @@ export const TEMPLATE_VARIABLES = [
   { key: 'client_first_name', label: 'First Name', example: 'Sarah' },
   { key: 'business_name', label: 'Business Name', example: 'Golden Touch PJ' },
   { key: 'business_phone', label: 'Business Phone', example: '(555) 123-4567' },
+  { key: 'loyalty_points', label: 'Loyalty Points', example: '120' },
   // Party-specific variables
   { key: 'host_name', label: 'Host Name', example: 'Jessica' },
   { key: 'party_date', label: 'Party Date', example: 'Saturday, March 22' },
@@ -45,6 +46,7 @@ export const SAMPLE_VARIABLES: Record<string, string> = {
   client_first_name: 'Sarah',
   business_name: 'Your Business',
   business_phone: '(555) 123-4567',
+  loyalty_points: '120',
   host_name: 'Jessica',
   party_date: 'Saturday, March 22',
   party_time: '6:00 PM',
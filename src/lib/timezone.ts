@@ -0,0 +1,194 @@
+// ============================================================================
+// Time Zones — src/lib/timezone.ts
+// ============================================================================
+// Tenant-local calendar math. Servers (and cron jobs) run in UTC, so anything
+// that means "today", "this month" or "10am" for an artist has to be resolved
+// in the tenant's IANA zone — or the event's, when an event overrides it.
+// Built on Intl so it works the same in the browser and on the server.
+// ============================================================================
+
+/** Used for tenants created before time zones were configurable. */
+export const DEFAULT_TIME_ZONE = 'America/Denver';
+
+/** Zones offered in Settings and on the event form. */
+export const COMMON_TIME_ZONES: { value: string; label: string }[] = [
+  { value: 'America/New_York', label: 'Eastern (New York)' },
+  { value: 'America/Chicago', label: 'Central (Chicago)' },
+  { value: 'America/Denver', label: 'Mountain (Denver)' },
+  { value: 'America/Phoenix', label: 'Mountain — no DST (Phoenix)' },
+  { value: 'America/Los_Angeles', label: 'Pacific (Los Angeles)' },
+  { value: 'America/Anchorage', label: 'Alaska (Anchorage)' },
+  { value: 'Pacific/Honolulu', label: 'Hawaii (Honolulu)' },
+  { value: 'America/Puerto_Rico', label: 'Atlantic (Puerto Rico)' },
+  { value: 'America/Halifax', label: 'Atlantic (Halifax)' },
+  { value: 'America/Toronto', label: 'Eastern (Toronto)' },
+  { value: 'America/Vancouver', label: 'Pacific (Vancouver)' },
+  { value: 'Europe/London', label: 'UK (London)' },
+  { value: 'Australia/Sydney', label: 'Australia Eastern (Sydney)' },
+];
+
+export interface ZonedParts {
+  year: number;
+  /** 1-12 */
+  month: number;
+  day: number;
+  /** 0-23 */
+  hour: number;
+  minute: number;
+  second: number;
+  /** 0 = Sunday */
+  weekday: number;
+}
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let fmt = formatterCache.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'short',
+      hourCycle: 'h23',
+    });
+    formatterCache.set(timeZone, fmt);
+  }
+  return fmt;
+}
+
+/** Whether the runtime recognises `timeZone` as an IANA zone name. */
+export function isValidTimeZone(timeZone: string | null | undefined): timeZone is string {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The zone to use for a tenant, optionally narrowed to one event.
+ * Event override → tenant zone → DEFAULT_TIME_ZONE.
+ */
+export function resolveTimeZone(
+  tenant?: { time_zone?: string | null } | null,
+  event?: { time_zone?: string | null } | null
+): string {
+  if (isValidTimeZone(event?.time_zone)) return event!.time_zone!;
+  if (isValidTimeZone(tenant?.time_zone)) return tenant!.time_zone!;
+  return DEFAULT_TIME_ZONE;
+}
+
+/** Wall-clock fields of `date` as seen in `timeZone`. */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const p of getFormatter(timeZone).formatToParts(date)) parts[p.type] = p.value;
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    hour: parseInt(parts.hour, 10) % 24,
+    minute: parseInt(parts.minute, 10),
+    second: parseInt(parts.second, 10),
+    weekday: WEEKDAYS[parts.weekday] ?? 0,
+  };
+}
+
+/** Local hour (0-23) of a date in the given zone. */
+export function getLocalHour(date: Date, timeZone: string): number {
+  return getZonedParts(date, timeZone).hour;
+}
+
+/** Offset of `timeZone` from UTC at `date`, in milliseconds (e.g. -6h for MDT). */
+function getOffsetMs(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` reads the given local
+ * date and time. Month/day overflow is normalised (day 0 = last day of the
+ * previous month), so callers can do calendar arithmetic on the fields.
+ * Times skipped by a DST jump resolve to the hour before the gap.
+ */
+export function zonedTimeToUtc(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const first = guess - getOffsetMs(new Date(guess), timeZone);
+  const second = guess - getOffsetMs(new Date(first), timeZone);
+  return new Date(second);
+}
+
+/** Local calendar date (YYYY-MM-DD) of `date` in `timeZone`. */
+export function toLocalDateString(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+/** Midnight at the start of `date`'s local day, shifted by `dayOffset` days. */
+export function startOfDayInZone(date: Date, timeZone: string, dayOffset = 0): Date {
+  const p = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(p.year, p.month, p.day + dayOffset, 0, 0, timeZone);
+}
+
+/** Midnight on the most recent Sunday (local) on or before `date`. */
+export function startOfWeekInZone(date: Date, timeZone: string): Date {
+  const p = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(p.year, p.month, p.day - p.weekday, 0, 0, timeZone);
+}
+
+/** Midnight on the 1st of `date`'s local month, shifted by `monthOffset` months. */
+export function startOfMonthInZone(date: Date, timeZone: string, monthOffset = 0): Date {
+  const p = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(p.year, p.month + monthOffset, 1, 0, 0, timeZone);
+}
+
+/** Midnight on January 1st of `date`'s local year. */
+export function startOfYearInZone(date: Date, timeZone: string): Date {
+  const p = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(p.year, 1, 1, 0, 0, timeZone);
+}
+
+/**
+ * `hour`:`minute` local time on the local day of `date` plus `dayOffset`
+ * days. Used to schedule messages like "the day before, at 10am".
+ */
+export function atLocalTime(
+  date: Date,
+  hour: number,
+  timeZone: string,
+  dayOffset = 0,
+  minute = 0
+): Date {
+  const p = getZonedParts(date, timeZone);
+  return zonedTimeToUtc(p.year, p.month, p.day + dayOffset, hour, minute, timeZone);
+}
+
+/**
+ * `hour` local time on a calendar date stored as YYYY-MM-DD (e.g.
+ * parties.preferred_date), shifted by `dayOffset` days.
+ */
+export function atLocalTimeOnDate(
+  dateStr: string,
+  hour: number,
+  timeZone: string,
+  dayOffset = 0
+): Date {
+  const [year, month, day] = dateStr.slice(0, 10).split('-').map((n) => parseInt(n, 10));
+  return zonedTimeToUtc(year, month, day + dayOffset, hour, 0, timeZone);
+}
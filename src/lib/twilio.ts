@@ -3,6 +3,8 @@
 // ============================================================================
 // Centralized module for all Twilio operations: sending SMS, phone number
 // provisioning, webhook validation, and dedicated number lookup.
+// Every tenant send is checked against the tenant's SMS suppression list
+// (numbers that replied STOP or were opted out by hand — migration 093).
 // ============================================================================
 
 import { createServiceRoleClient } from '@/lib/supabase/server';
@@ -70,6 +72,40 @@ export function clearPhoneCache(tenantId: string): void {
   phoneCache.delete(tenantId);
 }
 
+// ---------------------------------------------------------------------------
+// Suppression List
+// ---------------------------------------------------------------------------
+
+/** skip_reason recorded when a send is blocked because the recipient opted out. */
+export const SMS_OPTED_OUT = 'sms_opted_out';
+
+/**
+ * Which of `phones` are on the tenant's suppression list.
+ * Returns the opted-out numbers as last-10 digits (see normalizePhoneDigits).
+ */
+export async function getSmsOptOuts(
+  tenantId: string,
+  phones: (string | null | undefined)[]
+): Promise<Set<string>> {
+  const digits = [...new Set(phones.filter((p): p is string => !!p).map(normalizePhoneDigits))];
+  if (digits.length === 0) return new Set();
+
+  const supabase = await createServiceRoleClient();
+  const { data } = await supabase
+    .from('sms_suppressions')
+    .select('phone_digits')
+    .eq('tenant_id', tenantId)
+    .in('phone_digits', digits);
+
+  return new Set((data || []).map((r: { phone_digits: string }) => r.phone_digits));
+}
+
+/** Whether a single number has opted out of the tenant's texts. */
+export async function isSmsOptedOut(tenantId: string, phone: string): Promise<boolean> {
+  const optOuts = await getSmsOptOuts(tenantId, [phone]);
+  return optOuts.size > 0;
+}
+
 // ---------------------------------------------------------------------------
 // Send SMS
 // ---------------------------------------------------------------------------
@@ -77,6 +113,8 @@ export function clearPhoneCache(tenantId: string): void {
 /**
  * Send an SMS message via Twilio.
  * If tenantId is provided, sends from the tenant's dedicated number (or falls back to platform number).
+ * Tenant sends to a number on the suppression list are not sent; they're
+ * written to message_log as 'skipped' with skip_reason 'sms_opted_out'.
  * If skipConsentCheck is false (default) and queueEntryId is provided, checks sms_consent before sending.
  * Returns the Twilio message SID, or null if sending was skipped.
  */
@@ -88,8 +126,33 @@ export async function sendSMS(params: {
   queueEntryId?: string;
   /** Skip consent check (for CRM two-way messages where user initiated) */
   skipConsentCheck?: boolean;
+  /** Reply to a STOP/START/HELP keyword — the only send allowed to an opted-out number */
+  complianceReply?: boolean;
+  /** message_log source and client for a skipped send */
+  source?: string;
+  clientId?: string | null;
+  /** Publicly fetchable image URLs — sends the message as MMS */
+  mediaUrls?: string[];
 }): Promise<string | null> {
-  const { to, body, tenantId, queueEntryId, skipConsentCheck } = params;
+  const { to, body, tenantId, queueEntryId, skipConsentCheck, complianceReply } = params;
+
+  // Opt-outs apply to every tenant message, including replies in a thread
+  if (tenantId && !complianceReply && await isSmsOptedOut(tenantId, to)) {
+    console.log(`[Twilio SMS Blocked] Recipient opted out — tenant ${tenantId}`);
+    const supabase = await createServiceRoleClient();
+    supabase.from('message_log').insert({
+      tenant_id: tenantId,
+      client_id: params.clientId || null,
+      direction: 'outbound',
+      channel: 'sms',
+      recipient_phone: to,
+      body,
+      source: params.source || 'sms',
+      status: 'skipped',
+      skip_reason: SMS_OPTED_OUT,
+    }).then(null, () => {});
+    return null;
+  }
 
   if (!process.env.TWILIO_ACCOUNT_SID || !process.env.TWILIO_AUTH_TOKEN) {
     console.log(`[Twilio SMS Skipped] Would send to ${to}: ${body.slice(0, 50)}`);
@@ -123,10 +186,11 @@ export async function sendSMS(params: {
 
   // Build message params — prefer Messaging Service SID for A2P 10DLC compliance
   const messagingServiceSid = process.env.TWILIO_MESSAGING_SERVICE_SID;
-  const messageParams: Record<string, string> = {
+  const messageParams: Record<string, string | string[]> = {
     body,
     to: normalizePhone(to),
   };
+  if (params.mediaUrls?.length) messageParams.mediaUrl = params.mediaUrls;
 
   if (messagingServiceSid) {
     messageParams.messagingServiceSid = messagingServiceSid;
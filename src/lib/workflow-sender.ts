@@ -0,0 +1,427 @@
+// ============================================================================
+// Workflow Sender — src/lib/workflow-sender.ts
+// ============================================================================
+// Delivers queued workflow steps (workflow_queue) over SMS or email.
+// Used by the background processor for auto-send workflows and by the
+// manual "Send" action in Needs Attention for review-first workflows.
+// ============================================================================
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { sendSMS, getSmsOptOuts, isSmsOptedOut, normalizePhoneDigits, SMS_OPTED_OUT } from '@/lib/twilio';
+import { getCrmStatus } from '@/lib/crm-status';
+import { logSmsCost, logEmailCost } from '@/lib/cost-tracker';
+import { atLocalTime, getLocalHour, resolveTimeZone, DEFAULT_TIME_ZONE } from '@/lib/timezone';
+
+/** How many times a failed send is retried before the step is marked failed. */
+const MAX_ATTEMPTS = 3;
+
+/** Max queue rows handled per processor run. */
+const BATCH_SIZE = 100;
+
+/** A claimed row still 'sending' after this long belongs to a run that died. */
+const STALE_CLAIM_MS = 15 * 60 * 1000;
+
+export type WorkflowSendMode = 'auto' | 'review';
+
+export interface WorkflowQueueDelivery {
+  id: string;
+  tenant_id: string;
+  client_id: string;
+  channel: string;
+  template_name: string;
+  message_body: string | null;
+  attempts?: number;
+  client: {
+    phone: string | null;
+    email: string | null;
+    first_name: string | null;
+    last_name: string | null;
+    email_unsubscribed_at?: string | null;
+  } | null;
+}
+
+export interface DeliveryResult {
+  sent: boolean;
+  error?: string;
+}
+
+export interface ProcessResult {
+  processed: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+  deferred: number;
+}
+
+// ---------------------------------------------------------------------------
+// Quiet Hours
+// ---------------------------------------------------------------------------
+
+/**
+ * Whether `date` falls inside the quiet window [start, end) in local time.
+ * Handles windows that wrap midnight (e.g. 21 → 8). Equal start/end disables
+ * quiet hours.
+ */
+export function isWithinQuietHours(
+  date: Date,
+  start: number,
+  end: number,
+  timeZone: string = DEFAULT_TIME_ZONE
+): boolean {
+  if (start === end) return false;
+  const hour = getLocalHour(date, timeZone);
+  if (start < end) return hour >= start && hour < end;
+  return hour >= start || hour < end;
+}
+
+export interface SendWindowSettings {
+  time_zone?: string | null;
+  workflow_quiet_hours_start?: number | null;
+  workflow_quiet_hours_end?: number | null;
+}
+
+/**
+ * When a workflow step enrolled at `from` should be scheduled: `delayHours`
+ * later, pushed forward to the end of the tenant's quiet hours when it would
+ * otherwise land overnight in the tenant's zone.
+ */
+export function scheduleWorkflowStep(
+  from: Date,
+  delayHours: number,
+  settings: SendWindowSettings | null | undefined
+): Date {
+  const due = new Date(from.getTime() + delayHours * 60 * 60 * 1000);
+  if (delayHours <= 0) return due;
+
+  const timeZone = resolveTimeZone(settings);
+  const start = settings?.workflow_quiet_hours_start ?? 21;
+  const end = settings?.workflow_quiet_hours_end ?? 8;
+  if (!isWithinQuietHours(due, start, end, timeZone)) return due;
+  return endOfQuietHours(due, end, timeZone);
+}
+
+/** `end` o'clock after `date` — today if that's still ahead, else tomorrow. */
+function endOfQuietHours(date: Date, end: number, timeZone: string): Date {
+  const sameDay = atLocalTime(date, end, timeZone);
+  return sameDay > date ? sameDay : atLocalTime(date, end, timeZone, 1);
+}
+
+// ---------------------------------------------------------------------------
+// Claiming
+// ---------------------------------------------------------------------------
+
+/**
+ * Move a pending row to 'sending'. Returns false when another run or a
+ * manual Send got there first — only the claimant may deliver the step.
+ */
+export async function claimQueueItem(db: SupabaseClient, id: string): Promise<boolean> {
+  const { data } = await db
+    .from('workflow_queue')
+    .update({ status: 'sending', acted_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'pending')
+    .select('id');
+  return (data?.length ?? 0) > 0;
+}
+
+// ---------------------------------------------------------------------------
+// Single Delivery
+// ---------------------------------------------------------------------------
+
+/**
+ * Send one queued workflow step through Twilio or Resend and record it in
+ * conversations / message_log. Does not update the workflow_queue row —
+ * callers decide how to record the outcome.
+ */
+export async function sendWorkflowMessage(
+  db: SupabaseClient,
+  item: WorkflowQueueDelivery
+): Promise<DeliveryResult> {
+  const body = item.message_body || '';
+  if (!body.trim()) return { sent: false, error: 'Message body is empty' };
+
+  if (item.channel === 'sms') {
+    const phone = item.client?.phone;
+    if (!phone) return { sent: false, error: 'Client has no phone number' };
+    if (await isSmsOptedOut(item.tenant_id, phone)) {
+      return { sent: false, error: 'Client has opted out of texts (replied STOP)' };
+    }
+
+    try {
+      const sid = await sendSMS({ to: phone, body, tenantId: item.tenant_id, source: 'workflow', clientId: item.client_id });
+      if (!sid) return { sent: false, error: 'SMS not configured' };
+
+      // Write to conversations for two-way thread
+      db.from('conversations').insert({
+        tenant_id: item.tenant_id,
+        client_id: item.client_id,
+        phone_number: phone,
+        direction: 'outbound',
+        body,
+        twilio_sid: sid,
+        status: 'delivered',
+        read: true,
+      }).then(null, () => {});
+
+      logSmsCost({ tenantId: item.tenant_id, operation: 'sms_workflow', metadata: { workflow_queue_id: item.id } });
+    } catch (err: any) {
+      console.error('[Workflow SMS] Failed:', err?.message);
+      return { sent: false, error: err?.message || 'SMS send failed' };
+    }
+  } else if (item.channel === 'email') {
+    const email = item.client?.email;
+    if (!email) return { sent: false, error: 'Client has no email address' };
+    if (item.client?.email_unsubscribed_at) return { sent: false, error: 'Client unsubscribed from email' };
+    if (!process.env.RESEND_API_KEY) return { sent: false, error: 'Email not configured' };
+
+    try {
+      const { Resend } = await import('resend');
+      const resend = new Resend(process.env.RESEND_API_KEY);
+      const { error } = await resend.emails.send({
+        from: process.env.RESEND_FROM_EMAIL || 'noreply@sunstone.app',
+        to: email,
+        subject: item.template_name,
+        text: body,
+      });
+      if (error) throw new Error(error.message || 'Resend error');
+
+      logEmailCost({ tenantId: item.tenant_id, operation: 'email_workflow', metadata: { workflow_queue_id: item.id } });
+    } catch (err: any) {
+      console.error('[Workflow Email] Failed:', err?.message);
+      return { sent: false, error: err?.message || 'Email send failed' };
+    }
+  } else {
+    return { sent: false, error: `Unsupported channel: ${item.channel}` };
+  }
+
+  // Log to message_log (fire-and-forget)
+  db.from('message_log').insert({
+    tenant_id: item.tenant_id,
+    client_id: item.client_id,
+    direction: 'outbound',
+    channel: item.channel,
+    recipient_email: item.channel === 'email' ? item.client?.email : null,
+    recipient_phone: item.channel === 'sms' ? item.client?.phone : null,
+    body,
+    template_name: item.template_name,
+    source: 'workflow',
+    status: 'sent',
+  }).then(null, () => {});
+
+  return { sent: true };
+}
+
+// ---------------------------------------------------------------------------
+// Background Processor
+// ---------------------------------------------------------------------------
+
+interface TenantDeliverySettings {
+  id: string;
+  crm_enabled: boolean;
+  crm_trial_start: string | null;
+  crm_trial_end: string | null;
+  crm_subscription_id: string | null;
+  crm_deactivated_at: string | null;
+  admin_tier_override?: boolean;
+  subscription_tier: string | null;
+  workflow_quiet_hours_start: number | null;
+  workflow_quiet_hours_end: number | null;
+  workflow_daily_send_cap: number | null;
+  time_zone: string | null;
+}
+
+/**
+ * Deliver due workflow_queue rows that belong to auto-send workflows.
+ *
+ * - Review-first workflows are left pending for the Needs Attention card.
+ * - Tenants without an active CRM, recipients without SMS consent or on
+ *   the suppression list, and paused workflows are marked skipped with a
+ *   skip_reason.
+ * - Steps inside the tenant's quiet hours or past the daily cap stay
+ *   pending, rescheduled to when they can go out, so they don't crowd other
+ *   tenants out of the batch in the meantime.
+ * - Send failures are retried up to MAX_ATTEMPTS before being marked failed.
+ * - Rows left 'sending' by a run that died are marked failed rather than
+ *   retried, since the message may already have gone out.
+ */
+export async function processWorkflowQueue(db: SupabaseClient): Promise<ProcessResult> {
+  const now = new Date();
+  const result: ProcessResult = { processed: 0, sent: 0, failed: 0, skipped: 0, deferred: 0 };
+
+  await db
+    .from('workflow_queue')
+    .update({ status: 'failed', error_message: 'Send interrupted' })
+    .eq('status', 'sending')
+    .lt('acted_at', new Date(now.getTime() - STALE_CLAIM_MS).toISOString());
+
+  const { data: dueItems, error } = await db
+    .from('workflow_queue')
+    .select('*, client:clients(phone, email, first_name, last_name, email_unsubscribed_at), step:workflow_steps!inner(workflow:workflow_templates!inner(send_mode, is_active))')
+    .eq('status', 'pending')
+    .eq('step.workflow.send_mode', 'auto')
+    .lte('scheduled_for', now.toISOString())
+    .order('scheduled_for', { ascending: true })
+    .limit(BATCH_SIZE);
+
+  if (error) throw new Error(`Failed to fetch due workflow steps: ${error.message}`);
+
+  const autoItems = dueItems || [];
+  if (autoItems.length === 0) return result;
+
+  // Load delivery settings for every tenant in this batch
+  const tenantIds = [...new Set(autoItems.map((item: any) => item.tenant_id as string))];
+  const { data: tenants } = await db
+    .from('tenants')
+    .select('id, crm_enabled, crm_trial_start, crm_trial_end, crm_subscription_id, crm_deactivated_at, admin_tier_override, subscription_tier, workflow_quiet_hours_start, workflow_quiet_hours_end, workflow_daily_send_cap, time_zone')
+    .in('id', tenantIds);
+
+  const tenantMap = new Map<string, TenantDeliverySettings>();
+  for (const t of (tenants || []) as TenantDeliverySettings[]) tenantMap.set(t.id, t);
+
+  // Remaining daily allowance per tenant (automated sends in the last 24h —
+  // manual sends carry sent_by and aren't capped), and when the oldest of
+  // those sends ages out and frees a slot
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const dayAgo = new Date(now.getTime() - DAY_MS).toISOString();
+  const remaining = new Map<string, number>();
+  const capFreesAt = new Map<string, Date>();
+  for (const tenantId of tenantIds) {
+    const cap = tenantMap.get(tenantId)?.workflow_daily_send_cap ?? 200;
+    const { data: oldest, count } = await db
+      .from('workflow_queue')
+      .select('sent_at', { count: 'exact' })
+      .eq('tenant_id', tenantId)
+      .eq('status', 'sent')
+      .is('sent_by', null)
+      .gte('sent_at', dayAgo)
+      .order('sent_at', { ascending: true })
+      .limit(1);
+    remaining.set(tenantId, Math.max(cap - (count || 0), 0));
+    capFreesAt.set(tenantId, new Date((oldest?.[0] ? new Date(oldest[0].sent_at).getTime() : now.getTime()) + DAY_MS));
+  }
+
+  // Deferred rows grouped by their new scheduled_for
+  const deferrals = new Map<string, string[]>();
+  const defer = (id: string, until: Date) => {
+    const key = until.toISOString();
+    deferrals.set(key, [...(deferrals.get(key) || []), id]);
+    result.deferred++;
+  };
+
+  // SMS consent from each client's most recent waiver (same rule as broadcasts)
+  const smsClientIds = [...new Set(
+    autoItems.filter((item: any) => item.channel === 'sms').map((item: any) => item.client_id as string)
+  )];
+  const smsConsentMap: Record<string, boolean> = {};
+  if (smsClientIds.length > 0) {
+    const { data: waivers } = await db
+      .from('waivers')
+      .select('client_id, sms_consent')
+      .in('client_id', smsClientIds)
+      .order('created_at', { ascending: false });
+
+    for (const w of waivers || []) {
+      if (smsConsentMap[w.client_id] === undefined) {
+        smsConsentMap[w.client_id] = w.sms_consent === true;
+      }
+    }
+  }
+
+  // Numbers that replied STOP, per tenant
+  const smsOptOuts = new Map<string, Set<string>>();
+  for (const tenantId of tenantIds) {
+    const phones = autoItems
+      .filter((item: any) => item.tenant_id === tenantId && item.channel === 'sms')
+      .map((item: any) => item.client?.phone as string | null);
+    if (phones.length > 0) smsOptOuts.set(tenantId, await getSmsOptOuts(tenantId, phones));
+  }
+
+  const markSkipped = async (id: string, reason: string) => {
+    await db
+      .from('workflow_queue')
+      .update({ status: 'skipped', skip_reason: reason, acted_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('status', 'pending');
+    result.skipped++;
+  };
+
+  for (const item of autoItems as any[]) {
+    result.processed++;
+    const tenant = tenantMap.get(item.tenant_id);
+
+    if (!tenant || !getCrmStatus(tenant).active) {
+      await markSkipped(item.id, 'crm_inactive');
+      continue;
+    }
+
+    if (!item.step?.workflow?.is_active) {
+      await markSkipped(item.id, 'workflow_paused');
+      continue;
+    }
+
+    if (!item.client) {
+      await markSkipped(item.id, 'client_missing');
+      continue;
+    }
+
+    if (item.channel === 'sms') {
+      if (!item.client.phone) { await markSkipped(item.id, 'missing_phone'); continue; }
+      if (!smsConsentMap[item.client_id]) { await markSkipped(item.id, 'no_sms_consent'); continue; }
+      if (smsOptOuts.get(item.tenant_id)?.has(normalizePhoneDigits(item.client.phone))) {
+        await markSkipped(item.id, SMS_OPTED_OUT);
+        continue;
+      }
+    } else if (item.channel === 'email') {
+      if (!item.client.email) { await markSkipped(item.id, 'missing_email'); continue; }
+      if (item.client.email_unsubscribed_at) { await markSkipped(item.id, 'email_unsubscribed'); continue; }
+    }
+
+    const quietEnd = tenant.workflow_quiet_hours_end ?? 8;
+    if (isWithinQuietHours(now, tenant.workflow_quiet_hours_start ?? 21, quietEnd, resolveTimeZone(tenant))) {
+      defer(item.id, endOfQuietHours(now, quietEnd, resolveTimeZone(tenant)));
+      continue;
+    }
+
+    if ((remaining.get(item.tenant_id) ?? 0) <= 0) {
+      defer(item.id, capFreesAt.get(item.tenant_id)!);
+      continue;
+    }
+
+    // Another run or a manual Send already has it
+    if (!(await claimQueueItem(db, item.id))) continue;
+
+    const delivery = await sendWorkflowMessage(db, item as WorkflowQueueDelivery);
+    const attempts = (item.attempts || 0) + 1;
+
+    if (delivery.sent) {
+      await db
+        .from('workflow_queue')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), acted_at: new Date().toISOString(), attempts, error_message: null })
+        .eq('id', item.id);
+      remaining.set(item.tenant_id, (remaining.get(item.tenant_id) ?? 1) - 1);
+      result.sent++;
+    } else {
+      const exhausted = attempts >= MAX_ATTEMPTS;
+      await db
+        .from('workflow_queue')
+        .update({
+          status: exhausted ? 'failed' : 'pending',
+          error_message: delivery.error || 'Send failed',
+          attempts,
+          acted_at: exhausted ? new Date().toISOString() : null,
+        })
+        .eq('id', item.id);
+      result.failed++;
+    }
+  }
+
+  for (const [scheduledFor, ids] of deferrals) {
+    await db
+      .from('workflow_queue')
+      .update({ scheduled_for: scheduledFor })
+      .in('id', ids)
+      .eq('status', 'pending');
+  }
+
+  return result;
+}
@@ -1,5 +1,6 @@
 import { createServiceRoleClient } from '@/lib/supabase/server';
 import { renderTemplate, SAMPLE_VARIABLES } from '@/lib/templates';
+import { scheduleWorkflowStep } from '@/lib/workflow-sender';
 
 // Default workflow definitions — seeded per tenant on first use
 const DEFAULT_WORKFLOWS = [
@@ -100,8 +101,8 @@ export async function queueWorkflow(
 
   // Fetch client and tenant info for variable resolution
   const [clientRes, tenantRes] = await Promise.all([
-    supabase.from('clients').select('first_name, last_name, email, phone').eq('id', clientId).single(),
-    supabase.from('tenants').select('name, phone').eq('id', tenantId).single(),
+    supabase.from('clients').select('first_name, last_name, email, phone, loyalty_points').eq('id', clientId).single(),
+    supabase.from('tenants').select('name, phone, time_zone, workflow_quiet_hours_start, workflow_quiet_hours_end').eq('id', tenantId).single(),
   ]);
 
   const client = clientRes.data;
@@ -113,6 +114,7 @@ export async function queueWorkflow(
     client_name: clientName,
     business_name: tenant.name || 'our studio',
     business_phone: tenant.phone || '',
+    loyalty_points: String(client.loyalty_points || 0),
   };
 
   for (const workflow of workflows) {
@@ -139,7 +141,7 @@ export async function queueWorkflow(
     const now = new Date();
 
     for (const step of steps) {
-      const scheduledFor = new Date(now.getTime() + step.delay_hours * 60 * 60 * 1000);
+      const scheduledFor = scheduleWorkflowStep(now, step.delay_hours, tenant);
 
       // Resolve template body
       let messageBody = templateMap[step.template_name] || step.template_name;
@@ -11,7 +11,7 @@ export type TenantRole = 'admin' | 'manager' | 'staff';
 export type BusinessType = 'permanent_jewelry' | 'salon_spa' | 'boutique' | 'popup_vendor' | 'other';
 export type InventoryType = 'chain' | 'jump_ring' | 'charm' | 'connector' | 'clasp' | 'other';
 export type InventoryUnit = 'ft' | 'in' | 'each' | 'pack';
-export type MovementType = 'restock' | 'sale' | 'waste' | 'adjustment';
+export type MovementType = 'restock' | 'sale' | 'waste' | 'adjustment' | 'transfer';
 export type PaymentMethod = 'stripe_link' | 'cash' | 'venmo' | 'card_external' | 'gift_card';
 export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded';
 export type QueueStatus = 'waiting' | 'notified' | 'served' | 'no_show';
@@ -24,6 +24,7 @@ export type WarrantyScope = 'per_item' | 'per_invoice';
 export type WarrantyClaimStatus = 'submitted' | 'in_progress' | 'completed' | 'denied';
 
 // Re-export Permission from the canonical source
+import type { Permission } from '@/lib/permissions';
 export type { Permission, TenantRole as PermissionRole } from '@/lib/permissions';
 
 // ============================================================================
@@ -89,6 +90,41 @@ export interface Tenant {
   auto_reply_enabled: boolean;
   auto_reply_message: string | null;
   sunny_text_mode: 'off' | 'suggest' | 'auto';
+  // Automated workflow delivery
+  workflow_quiet_hours_start: number;
+  workflow_quiet_hours_end: number;
+  workflow_daily_send_cap: number;
+  // IANA zone for local days, report periods and scheduled sends
+  time_zone: string;
+  // Appointment booking (Store Mode)
+  appointments_enabled: boolean;
+  appointment_buffer_minutes: number;
+  appointment_slot_interval_minutes: number;
+  appointment_min_notice_hours: number;
+  appointment_max_days_ahead: number;
+  appointment_max_pieces: number;
+  appointment_deposit_amount: number;
+  // Gift card expiration (null months = never expire)
+  gift_card_expiry_months: number | null;
+  gift_card_jurisdiction: string | null;
+  // Loyalty program (migration 097; null months = points never expire)
+  loyalty_enabled: boolean;
+  loyalty_earn_mode: LoyaltyEarnMode;
+  loyalty_earn_rate: number;
+  loyalty_birthday_bonus: number;
+  loyalty_referral_bonus: number;
+  loyalty_party_host_bonus: number;
+  loyalty_expiry_months: number | null;
+  // Accounting export (chart-of-accounts mapping, last booked local day)
+  accounting_accounts: Record<string, { name: string; code: string }>;
+  accounting_exported_through: string | null;
+  // How sales draw down cost layers for COGS
+  costing_method: CostingMethod;
+  // Menu prices already include sales tax (backed out at checkout)
+  tax_inclusive: boolean;
+  // Who gets tips, and the pooled share when split
+  tip_allocation: TipAllocation;
+  tip_pool_percent: number;
   // Sunny personality (customer-facing SMS tone)
   sunny_tone_preset: string;
   sunny_tone_custom: string | null;
@@ -122,10 +158,170 @@ export interface TenantMember {
   display_name: string | null;
   invited_email: string | null;
   accepted_at: string | null;
+  /** For shift reminder texts — set by the member */
+  phone: string | null;
+  team_role_id: string | null;
+  /** Joined when selected with TEAM_ROLE_JOIN or team_roles(*) */
+  team_role?: TeamRole | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** A tenant's role: a named permission set (migration 091) */
+export interface TeamRole {
+  id: string;
+  tenant_id: string;
+  name: string;
+  description: string | null;
+  /** Built-in Admin / Manager / Staff; null for custom roles */
+  system_key: TenantRole | null;
+  /** Access level row-level security checks for members with this role */
+  base_role: TenantRole;
+  permissions: Permission[];
+  discount_max_percent: number | null;
+  discount_max_amount: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================================
+// Audit Log
+// ============================================================================
+
+export type AuditActorType = 'user' | 'sunny' | 'system';
+
+export interface AuditLogEntry {
+  id: string;
+  tenant_id: string;
+  /** 'sunny' when Sunny acted for actor_user_id */
+  actor_type: AuditActorType;
+  actor_user_id: string | null;
+  action: string;
+  entity_type: string;
+  entity_id: string | null;
+  entity_label: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+  /** Resolved by the API from tenant_members */
+  actor_name?: string | null;
+}
+
+// ============================================================================
+// Staff Compensation
+// ============================================================================
+
+export type CommissionPlanType = 'percent' | 'per_piece' | 'tiered';
+
+export type TipAllocation = 'server' | 'event_pool' | 'split';
+
+/** Marginal tier: `rate` applies to period revenue above `from` */
+export interface CommissionTier {
+  from: number;
+  rate: number;
+}
+
+export interface CommissionPlan {
+  id: string;
+  tenant_id: string;
+  member_id: string;
+  plan_type: CommissionPlanType;
+  /** 'pieces' = chain products only (lines with a product type) */
+  scope: 'all' | 'pieces';
+  rate: number;
+  per_piece_amount: number;
+  tiers: CommissionTier[];
+  /** Wage per hour worked; labor cost in event P&L */
+  hourly_rate: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StaffHours {
+  id: string;
+  tenant_id: string;
+  member_id: string;
+  event_id: string | null;
+  work_date: string;
+  hours: number;
+  notes: string | null;
+  created_by: string | null;
+  /** Set when the hours came from the time clock */
+  time_entry_id: string | null;
+  /** Member's hourly rate when the hours were logged */
+  hourly_rate: number | null;
+  created_at: string;
+}
+
+export interface StaffShift {
+  id: string;
+  tenant_id: string;
+  member_id: string;
+  /** null = a store day */
+  event_id: string | null;
+  starts_at: string;
+  ends_at: string;
+  notes: string | null;
+  reminder_sent_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TimeEntry {
+  id: string;
+  tenant_id: string;
+  member_id: string;
+  shift_id: string | null;
+  /** null = worked the store */
+  event_id: string | null;
+  clock_in_at: string;
+  clock_out_at: string | null;
+  /** Set while on break */
+  break_started_at: string | null;
+  break_minutes: number;
+  notes: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface PayrollMemberRow {
+  /** null = sales nobody on the team is credited with */
+  member_id: string | null;
+  name: string;
+  role: TenantRole | null;
+  sales: number;
+  revenue: number;
+  pieces: number;
+  hours: number;
+  wages: number;
+  commission: number;
+  clawback: number;
+  tips_direct: number;
+  tips_pooled: number;
+  total: number;
+}
+
+export interface PayrollTipPool {
+  event_id: string;
+  event_name: string;
+  pooled: number;
+  hours: number;
+  /** Pool share by member id */
+  shares: Record<string, number>;
+}
+
+export interface PayrollReport {
+  from: string;
+  to: string;
+  tip_allocation: TipAllocation;
+  members: PayrollMemberRow[];
+  tip_pools: PayrollTipPool[];
+  totals: { wages: number; commission: number; clawback: number; tips: number; total: number };
+}
+
 // ============================================================================
 // Inventory
 // ============================================================================
@@ -235,7 +431,204 @@ export interface InventoryMovement {
   reference_id: string | null;
   notes: string | null;
   performed_by: string | null;
+  /** Stock location the movement happened at (null = default location) */
+  location_id: string | null;
+  /** Restocks: cost of the new lot. Outgoing: consumed cost per unit. */
+  unit_cost: number | null;
+  created_at: string;
+}
+
+export type CostingMethod = 'fifo' | 'average';
+
+/** A lot of stock at one unit cost, opened by a restock */
+export interface InventoryCostLayer {
+  id: string;
+  tenant_id: string;
+  inventory_item_id: string;
+  inventory_variant_id: string | null;
+  movement_id: string | null;
+  /** Movement type that opened it, or 'opening' for pre-existing stock */
+  source: string;
+  quantity_received: number;
+  quantity_remaining: number;
+  unit_cost: number;
+  received_at: string;
+  created_at: string;
+}
+
+export interface StockValuation {
+  method: CostingMethod;
+  total: number;
+  /** Value per inventory item (variants rolled up) */
+  items: Record<string, number>;
+}
+
+export type StockLocationKind = 'studio' | 'event_kit' | 'travel_case' | 'staff_kit';
+
+export interface StockLocation {
+  id: string;
+  tenant_id: string;
+  name: string;
+  kind: StockLocationKind;
+  assigned_to: string | null;
+  /** The studio: holds whatever isn't out in another location */
+  is_default: boolean;
+  is_active: boolean;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Stock at a non-default location. The default location has no rows. */
+export interface InventoryStockLevel {
+  id: string;
+  tenant_id: string;
+  location_id: string;
+  inventory_item_id: string;
+  inventory_variant_id: string | null;
+  quantity: number;
+  par_level: number | null;
+  updated_at: string;
+}
+
+export interface StockTransfer {
+  id: string;
+  tenant_id: string;
+  from_location_id: string | null;
+  to_location_id: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export type StockCountStatus = 'in_progress' | 'finalized' | 'cancelled';
+export type StockCountReason = 'cutting_waste' | 'damaged' | 'theft' | 'miscount' | 'found' | 'other';
+
+export interface StockCount {
+  id: string;
+  tenant_id: string;
+  name: string;
+  scope: 'all' | InventoryType;
+  status: StockCountStatus;
+  notes: string | null;
+  started_by: string | null;
+  finalized_by: string | null;
+  started_at: string;
+  finalized_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface StockCountLine {
+  id: string;
+  tenant_id: string;
+  stock_count_id: string;
+  inventory_item_id: string;
+  inventory_variant_id: string | null;
+  expected_quantity: number;
+  counted_quantity: number | null;
+  unit_cost: number;
+  reason: StockCountReason | null;
+  notes: string | null;
+  counted_by: string | null;
+  counted_at: string | null;
+  variance_quantity: number | null;
+  movement_id: string | null;
+  // Joined
+  item?: { name: string; type: InventoryType; unit: InventoryUnit; material: string | null } | null;
+  variant?: { name: string } | null;
+}
+
+/** Stock count list row with roll-up figures */
+export interface StockCountSummary extends StockCount {
+  line_count: number;
+  counted_count: number;
+  /** Sum of variance × unit cost over counted lines (negative = loss) */
+  variance_value: number;
+}
+
+export interface ShrinkageReport {
+  from: string;
+  to: string;
+  countCount: number;
+  byReason: { reason: StockCountReason; quantity: number; value: number; lines: number }[];
+  byItem: {
+    inventory_item_id: string;
+    name: string;
+    type: InventoryType;
+    unit: InventoryUnit;
+    lost: number;
+    found: number;
+    value: number;
+  }[];
+  totalLoss: number;
+  totalFound: number;
+}
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrder {
+  id: string;
+  tenant_id: string;
+  supplier_id: string;
+  po_number: string;
+  status: PurchaseOrderStatus;
+  order_date: string;
+  expected_date: string | null;
+  /** Expected freight; actual shipping is recorded per receipt */
+  shipping_cost: number;
+  notes: string | null;
+  sent_at: string | null;
+  sent_to: string | null;
+  received_at: string | null;
+  created_by: string | null;
   created_at: string;
+  updated_at: string;
+  // Joined
+  supplier?: Pick<Supplier, 'id' | 'name' | 'contact_name' | 'contact_email' | 'account_number'> | null;
+  lines?: PurchaseOrderLine[];
+  receipts?: PurchaseOrderReceipt[];
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  tenant_id: string;
+  purchase_order_id: string;
+  inventory_item_id: string;
+  inventory_variant_id: string | null;
+  description: string;
+  supplier_sku: string | null;
+  quantity_ordered: number;
+  unit_cost: number;
+  quantity_received: number;
+  sort_order: number;
+  // Joined
+  item?: { name: string; unit: InventoryUnit } | null;
+}
+
+export interface PurchaseOrderReceipt {
+  id: string;
+  tenant_id: string;
+  purchase_order_id: string;
+  shipping_cost: number;
+  updated_costs: boolean;
+  notes: string | null;
+  received_by: string | null;
+  received_at: string;
+  // Joined
+  lines?: {
+    line_id: string;
+    quantity: number;
+    unit_cost: number;
+    landed_unit_cost: number;
+  }[];
+}
+
+/** Purchase order list row with roll-up figures */
+export interface PurchaseOrderSummary extends PurchaseOrder {
+  line_count: number;
+  /** Sum of ordered quantity × unit cost, plus expected shipping */
+  total: number;
 }
 
 // ============================================================================
@@ -273,6 +666,8 @@ export interface ProductType {
   name: string;
   default_inches: number;
   jump_rings_required?: number;
+  /** Lines of this type are left out of the taxable base */
+  tax_exempt?: boolean;
   sort_order: number;
   is_active: boolean;
   is_default: boolean;
@@ -309,12 +704,50 @@ export interface TaxProfile {
   id: string;
   tenant_id: string;
   name: string;
+  /** Combined rate — the sum of the components when there are any */
   rate: number;
   is_default: boolean;
   created_at: string;
   updated_at: string;
+  // Joined
+  tax_profile_components?: TaxProfileComponent[];
+}
+
+export type TaxJurisdictionType = 'state' | 'county' | 'city' | 'district' | 'other';
+
+export interface TaxProfileComponent {
+  id: string;
+  tenant_id: string;
+  tax_profile_id: string;
+  name: string;
+  jurisdiction_type: TaxJurisdictionType;
+  rate: number;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
 }
 
+/** Tax a sale collected for one jurisdiction component */
+export interface SaleTaxLine {
+  id: string;
+  tenant_id: string;
+  sale_id: string;
+  tax_profile_id: string | null;
+  tax_component_id: string | null;
+  name: string;
+  jurisdiction_type: TaxJurisdictionType;
+  rate: number;
+  taxable_amount: number;
+  tax_amount: number;
+  created_at: string;
+}
+
+/** A tax line as computed at checkout, before the sale exists */
+export type SaleTaxLineInput = Pick<
+  SaleTaxLine,
+  'tax_component_id' | 'name' | 'jurisdiction_type' | 'rate' | 'taxable_amount' | 'tax_amount'
+>;
+
 export interface Event {
   id: string;
   tenant_id: string;
@@ -329,6 +762,14 @@ export interface Event {
   notes: string | null;
   selected_chain_ids: string[] | null;
   queue_mode: boolean;
+  /** Overrides the tenant's time zone for this event (e.g. an out-of-state show) */
+  time_zone: string | null;
+  /** UID of the calendar entry this event was imported from (.ics import) */
+  external_uid?: string | null;
+  /** Stock location event sales draw from (null = default location) */
+  stock_location_id: string | null;
+  /** Expected customers, used to size reorder forecasts (null = unknown) */
+  expected_attendance: number | null;
   created_at: string;
   updated_at: string;
   // Joined
@@ -370,6 +811,11 @@ export interface Sale {
   receipt_sent_at: string | null;
   notes: string | null;
   completed_by: string | null;
+  /** Idempotency key for sales recorded offline in Event Mode */
+  client_sale_id: string | null;
+  tax_profile_id: string | null;
+  /** Prices included tax — tax_amount was backed out, not added on */
+  tax_inclusive: boolean;
   created_at: string;
   updated_at: string;
   // Joined
@@ -382,6 +828,7 @@ export interface SaleItem {
   sale_id: string;
   tenant_id: string;
   inventory_item_id: string | null;
+  inventory_variant_id: string | null;
   name: string;
   quantity: number;
   unit_price: number;
@@ -392,6 +839,8 @@ export interface SaleItem {
   // Chain product fields
   product_type_id: string | null;
   chain_inches: number | null;
+  inches_used: number | null;
+  /** Cost consumed from the cost layers for this line's own stock */
   cost_snapshot: number | null;
   created_at: string;
 }
@@ -412,6 +861,13 @@ export interface Client {
   last_visit_at: string | null;
   unread_messages: number;
   last_message_at: string | null;
+  /** Set when the client used an email unsubscribe link (migration 095) */
+  email_unsubscribed_at?: string | null;
+  /** Points balance, the sum of the client's loyalty_ledger (migration 097) */
+  loyalty_points?: number;
+  /** Last earn or redeem; expiry counts from here */
+  loyalty_activity_at?: string | null;
+  referred_by_client_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -451,10 +907,65 @@ export interface QueueEntry {
   waiver_id: string | null;
   sms_consent: boolean;
   notes: string | null;
+  /** Set when the entry came from a booked appointment */
+  appointment_id?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// ============================================================================
+// Appointments
+// ============================================================================
+
+export type AppointmentStatus = 'pending_deposit' | 'confirmed' | 'checked_in' | 'completed' | 'cancelled' | 'no_show';
+
+export interface Appointment {
+  id: string;
+  tenant_id: string;
+  member_id: string | null;
+  client_id: string | null;
+  status: AppointmentStatus;
+  starts_at: string;
+  ends_at: string;
+  pieces: number;
+  customer_name: string;
+  customer_phone: string;
+  customer_email: string | null;
+  notes: string | null;
+  sms_consent: boolean;
+  deposit_amount: number;
+  deposit_status: DepositStatus;
+  deposit_paid_at: string | null;
+  stripe_checkout_session_id: string | null;
+  stripe_payment_intent_id: string | null;
+  reminder_sent_at: string | null;
+  queue_entry_id: string | null;
   created_at: string;
   updated_at: string;
 }
 
+export interface AppointmentAvailability {
+  id: string;
+  tenant_id: string;
+  member_id: string;
+  /** 0 = Sunday */
+  weekday: number;
+  start_time: string;
+  end_time: string;
+  created_at: string;
+}
+
+export interface AppointmentBlackout {
+  id: string;
+  tenant_id: string;
+  /** null = whole studio */
+  member_id: string | null;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+  created_at: string;
+}
+
 // ============================================================================
 // Client Tags & Segments
 // ============================================================================
@@ -506,6 +1017,39 @@ export interface MessageTemplate {
   updated_at: string;
 }
 
+// ============================================================================
+// SMS Consent
+// ============================================================================
+
+export type SmsConsentStatus = 'opted_in' | 'opted_out';
+export type SmsConsentSource = 'waiver' | 'rsvp' | 'appointment' | 'keyword' | 'manual';
+
+export interface SmsConsentEvent {
+  id: string;
+  tenant_id: string;
+  phone: string;
+  phone_digits: string;
+  status: SmsConsentStatus;
+  source: SmsConsentSource;
+  keyword: string | null;
+  client_id: string | null;
+  recorded_by: string | null;
+  note: string | null;
+  created_at: string;
+}
+
+/** A number that has opted out of the tenant's texts */
+export interface SmsSuppression {
+  tenant_id: string;
+  phone_digits: string;
+  phone: string;
+  source: SmsConsentSource;
+  keyword: string | null;
+  client_id: string | null;
+  opted_out_at: string;
+  client?: { id: string; first_name: string | null; last_name: string | null } | null;
+}
+
 // ============================================================================
 // Broadcasts
 // ============================================================================
@@ -522,6 +1066,12 @@ export interface Broadcast {
   template_id: string | null;
   custom_subject: string | null;
   custom_body: string | null;
+  /** Images sent with each SMS (migration 094) */
+  media: MessageMedia[];
+  /** Email composer blocks (migration 095); null = plain message body */
+  email_blocks: EmailBlock[] | null;
+  /** Link targets recorded at send time, indexed by click tracking */
+  email_links: string[];
   target_type: BroadcastTargetType;
   target_id: string | null;
   target_name: string | null;
@@ -545,9 +1095,27 @@ export interface BroadcastMessage {
   status: BroadcastMessageStatus;
   error_message: string | null;
   sent_at: string | null;
+  // Email engagement (migration 095)
+  tracking_token: string | null;
+  opened_at: string | null;
+  open_count: number;
+  clicked_at: string | null;
+  click_count: number;
+  unsubscribed_at: string | null;
   created_at: string;
 }
 
+export type EmailBlockType = 'header' | 'image' | 'text' | 'button' | 'event' | 'gift_card';
+
+/** One block of an email broadcast — rendered by src/lib/email-blocks.ts */
+export type EmailBlock =
+  | { id: string; type: 'header' }
+  | { id: string; type: 'image'; url: string; alt: string; link: string }
+  | { id: string; type: 'text'; text: string }
+  | { id: string; type: 'button'; label: string; url: string }
+  | { id: string; type: 'event'; event_id: string }
+  | { id: string; type: 'gift_card'; headline: string; text: string; button_label: string; url: string };
+
 // ============================================================================
 // Platform Fee Rates
 // ============================================================================
@@ -614,6 +1182,14 @@ export interface InventoryAlertData {
     stock: number;
     threshold: number;
     status: 'critical' | 'low' | 'ok';
+    /** Set when a kit is below its par level rather than total stock low */
+    location?: string | null;
+  }[];
+  /** Items on pace to run out within two weeks (from the reorder forecast) */
+  forecast?: {
+    name: string;
+    days: number;
+    date: string | null;
   }[];
 }
 
@@ -726,12 +1302,29 @@ export interface CartState {
   warranty_amount: number;
   tax_rate: number;
   tax_amount: number;
+  /** Tax split by jurisdiction component, sent with the sale */
+  tax_lines: SaleTaxLineInput[];
+  /** Prices include tax; tax_amount is backed out rather than added */
+  tax_inclusive: boolean;
   tip_amount: number;
   platform_fee_amount: number;
   total: number;
   payment_method: PaymentMethod | null;
   client_id: string | null;
   notes: string;
+  /** Reward being redeemed; its points come off when the sale completes */
+  loyalty_reward: CartLoyaltyReward | null;
+  /** The reward's share of discount_amount */
+  loyalty_discount_amount: number;
+}
+
+export interface CartLoyaltyReward {
+  reward_id: string;
+  client_id: string;
+  name: string;
+  points_cost: number;
+  discount_type: 'flat' | 'percentage';
+  discount_value: number;
 }
 
 // Jump Ring Resolution — used during sale completion
@@ -740,7 +1333,6 @@ export interface JumpRingResolution {
   cart_item_name: string;
   jump_rings_needed: number;
   jump_ring_inventory_id: string | null;
-  jump_ring_cost_each: number;
   material_name: string;
   resolved: boolean;
 }
@@ -778,10 +1370,25 @@ export interface Refund {
   amount: number;
   reason: string | null;
   payment_method: string | null;
+  gift_card_amount: number;
   stripe_refund_id: string | null;
   square_refund_id: string | null;
   created_at: string;
   created_by: string | null;
+  refund_items?: RefundItem[];
+}
+
+export interface RefundItem {
+  id: string;
+  tenant_id: string;
+  refund_id: string;
+  sale_item_id: string;
+  quantity: number;
+  amount: number;
+  restocked: boolean;
+  restock_quantity: number;
+  cogs_reversed: number;
+  created_at: string;
 }
 
 // ============================================================================
@@ -883,6 +1490,84 @@ export interface GiftCardRedemption {
   created_at: string;
 }
 
+export type GiftCardLedgerEntryType = 'issue' | 'redeem' | 'refund' | 'adjust' | 'expire';
+
+/** Append-only balance movement. Positive amounts raise the liability. */
+export interface GiftCardLedgerEntry {
+  id: string;
+  tenant_id: string;
+  gift_card_id: string;
+  entry_type: GiftCardLedgerEntryType;
+  amount: number;
+  sale_id: string | null;
+  redemption_id: string | null;
+  note: string | null;
+  created_by: string | null;
+  occurred_at: string;
+  created_at: string;
+}
+
+export interface GiftCardLiabilityTotals {
+  opening: number;
+  issued: number;
+  redeemed: number;
+  refunded: number;
+  adjusted: number;
+  /** Breakage: balances written off when cards expired */
+  expired: number;
+  closing: number;
+}
+
+export interface GiftCardLiabilityReport {
+  from: string | null;
+  asOf: string;
+  totals: GiftCardLiabilityTotals;
+  /** Cards still carrying a balance at the end of the period */
+  outstanding: {
+    id: string;
+    code: string;
+    recipient_name: string;
+    purchased_at: string;
+    expires_at: string | null;
+    balance: number;
+  }[];
+}
+
+export interface SalesTaxJurisdictionRow {
+  name: string;
+  jurisdiction_type: TaxJurisdictionType;
+  rate: number;
+  sales: number;
+  taxable: number;
+  tax: number;
+  refunded: number;
+  net: number;
+}
+
+export interface SalesTaxEventRow {
+  /** null = store sales */
+  event_id: string | null;
+  event_name: string;
+  event_date: string | null;
+  sales: number;
+  taxable: number;
+  tax: number;
+  refunded: number;
+  net: number;
+  /** Tax collected by jurisdiction component name */
+  jurisdictions: Record<string, number>;
+}
+
+export interface SalesTaxReport {
+  from: string;
+  to: string;
+  totals: { sales: number; taxable: number; tax: number; refunded: number; net: number };
+  /** Tax on sales recorded before per-jurisdiction tracking (no tax lines) */
+  untracked: number;
+  jurisdictions: SalesTaxJurisdictionRow[];
+  events: SalesTaxEventRow[];
+}
+
 // ============================================================================
 // Conversations (Two-Way SMS)
 // ============================================================================
@@ -898,9 +1583,18 @@ export interface ConversationMessage {
   status: 'delivered' | 'failed' | 'pending';
   read: boolean;
   ai_suggested_response: string | null;
+  media: MessageMedia[];
   created_at: string;
 }
 
+/** An MMS attachment in the message-media bucket (migration 094) */
+export interface MessageMedia {
+  path: string;
+  content_type: string;
+  /** Short-lived signed URL, added by the API for display */
+  url?: string;
+}
+
 // ============================================================================
 // Client Phone Numbers
 // ============================================================================
@@ -916,6 +1610,89 @@ export interface ClientPhoneNumber {
   created_at: string;
 }
 
+// ============================================================================
+// Client Duplicates & Merges
+// ============================================================================
+
+export type DuplicateReason = 'phone' | 'email' | 'name' | 'similar_name';
+
+export type DuplicateConfidence = 'high' | 'medium' | 'low';
+
+/** The client fields the duplicate finder compares and shows */
+export interface DuplicateClient {
+  id: string;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+  phone: string | null;
+  created_at: string;
+  last_visit_at: string | null;
+}
+
+export interface DuplicatePair {
+  a: DuplicateClient;
+  b: DuplicateClient;
+  /** 0–100 */
+  score: number;
+  confidence: DuplicateConfidence;
+  reasons: DuplicateReason[];
+}
+
+/** A merge from client_merges (migration 096), as listed in merge history */
+export interface ClientMerge {
+  id: string;
+  survivor_id: string;
+  survivor_name: string;
+  /** False once the survivor is deleted or merged away; the merge can't be undone then */
+  survivor_exists: boolean;
+  merged_client_id: string;
+  merged_client_name: string;
+  /** Counts of re-pointed records by table */
+  moved_counts: Record<string, number>;
+  merged_by_name: string | null;
+  created_at: string;
+  undone_at: string | null;
+}
+
+// ============================================================================
+// Loyalty
+// ============================================================================
+
+export type LoyaltyEarnMode = 'per_dollar' | 'per_piece';
+
+export type LoyaltyEntryType = 'earn' | 'redeem' | 'expire' | 'adjust';
+
+export type LoyaltySource = 'sale' | 'birthday' | 'referral' | 'party' | 'reward' | 'expiry' | 'manual';
+
+export interface LoyaltyReward {
+  id: string;
+  tenant_id: string;
+  name: string;
+  points_cost: number;
+  discount_type: 'flat' | 'percentage';
+  discount_value: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+/** Append-only points movement. Positive entries raise the balance. */
+export interface LoyaltyLedgerEntry {
+  id: string;
+  tenant_id: string;
+  client_id: string;
+  entry_type: LoyaltyEntryType;
+  source: LoyaltySource;
+  source_key: string | null;
+  points: number;
+  sale_id: string | null;
+  reward_id: string | null;
+  note: string | null;
+  created_by: string | null;
+  occurred_at: string;
+  created_at: string;
+}
+
 // ============================================================================
 // Cash Drawers
 // ============================================================================
@@ -1077,6 +1854,7 @@ export interface PartyRsvp {
   phone: string | null;
   attending: boolean;
   plus_ones: number;
+  sms_consent: boolean;
   waiver_signed: boolean;
   waiver_id: string | null;
   client_id: string | null;
@@ -0,0 +1,52 @@
+-- ============================================================================
+-- Migration 074: Workflow Auto-Send
+-- ============================================================================
+-- Adds a per-workflow send mode (auto-send vs. review first), delivery
+-- outcome columns on workflow_queue, and tenant-level quiet hours and daily
+-- send caps used by the background workflow processor.
+-- ============================================================================
+
+-- ---------------------------------------------------------------------------
+-- 1. Per-workflow send mode
+-- ---------------------------------------------------------------------------
+-- 'review' keeps today's behavior: due steps surface in Needs Attention for a
+-- manual Send / Skip. 'auto' lets /api/workflows/process deliver them.
+
+ALTER TABLE workflow_templates ADD COLUMN IF NOT EXISTS send_mode text NOT NULL DEFAULT 'review';
+
+ALTER TABLE workflow_templates DROP CONSTRAINT IF EXISTS workflow_templates_send_mode_check;
+ALTER TABLE workflow_templates ADD CONSTRAINT workflow_templates_send_mode_check
+  CHECK (send_mode IN ('auto', 'review'));
+
+-- ---------------------------------------------------------------------------
+-- 2. Delivery outcome on queued steps
+-- ---------------------------------------------------------------------------
+
+ALTER TABLE workflow_queue ADD COLUMN IF NOT EXISTS skip_reason text;
+ALTER TABLE workflow_queue ADD COLUMN IF NOT EXISTS error_message text;
+ALTER TABLE workflow_queue ADD COLUMN IF NOT EXISTS sent_at timestamptz;
+ALTER TABLE workflow_queue ADD COLUMN IF NOT EXISTS attempts integer NOT NULL DEFAULT 0;
+
+-- status: 'pending', 'sent', 'failed', 'skipped'
+ALTER TABLE workflow_queue DROP CONSTRAINT IF EXISTS workflow_queue_status_check;
+ALTER TABLE workflow_queue ADD CONSTRAINT workflow_queue_status_check
+  CHECK (status IN ('pending', 'ready', 'sent', 'failed', 'skipped'));
+
+CREATE INDEX IF NOT EXISTS idx_workflow_queue_due ON workflow_queue(scheduled_for)
+  WHERE status = 'pending';
+
+-- ---------------------------------------------------------------------------
+-- 3. Tenant delivery settings
+-- ---------------------------------------------------------------------------
+-- Quiet hours are local hours (0-23). A window that wraps midnight
+-- (e.g. 21 → 8) is supported. The daily cap counts automated workflow
+-- sends only — manual sends from the dashboard are never capped.
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS workflow_quiet_hours_start smallint NOT NULL DEFAULT 21
+  CHECK (workflow_quiet_hours_start BETWEEN 0 AND 23);
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS workflow_quiet_hours_end smallint NOT NULL DEFAULT 8
+  CHECK (workflow_quiet_hours_end BETWEEN 0 AND 23);
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS workflow_daily_send_cap integer NOT NULL DEFAULT 200
+  CHECK (workflow_daily_send_cap >= 0);
+
+NOTIFY pgrst, 'reload schema';
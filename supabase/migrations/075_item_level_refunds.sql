@@ -0,0 +1,130 @@
+-- ============================================================================
+-- Migration 075: Item-Level Refunds
+-- ============================================================================
+-- Lets a refund target specific sale_items lines. Each refunded line records
+-- how much was returned, whether the chain inches / units went back into
+-- stock, and the material cost reversed out of COGS. Also records the part of
+-- a refund credited back to a gift card, and adds restock_inventory() — the
+-- variant-aware counterpart to decrement_inventory().
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Gift card portion on refunds
+-- ============================================================================
+
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS gift_card_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- ============================================================================
+-- 2. Refund line items
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS refund_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  refund_id UUID NOT NULL REFERENCES refunds(id) ON DELETE CASCADE,
+  sale_item_id UUID NOT NULL REFERENCES sale_items(id) ON DELETE CASCADE,
+  quantity NUMERIC(10,2) NOT NULL CHECK (quantity > 0),
+  amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  restocked BOOLEAN NOT NULL DEFAULT false,
+  -- Units or chain inches returned to inventory (0 when not restocked)
+  restock_quantity NUMERIC(12,4) NOT NULL DEFAULT 0,
+  -- Chain material cost backed out of COGS for restocked lines
+  cogs_reversed DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refund_items_refund ON refund_items(refund_id);
+CREATE INDEX IF NOT EXISTS idx_refund_items_sale_item ON refund_items(sale_item_id);
+CREATE INDEX IF NOT EXISTS idx_refund_items_tenant ON refund_items(tenant_id);
+
+ALTER TABLE refund_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can view refund items"
+  ON refund_items FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+CREATE POLICY "Tenant members can insert refund items"
+  ON refund_items FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+
+-- ============================================================================
+-- 3. restock_inventory — return stock from a refund
+-- ============================================================================
+-- Mirrors decrement_inventory: when a variant_id is provided the variant row
+-- is credited and the parent quantity_on_hand is recalculated as the SUM of
+-- its active variants. Always logs a positive 'restock' movement.
+
+CREATE OR REPLACE FUNCTION restock_inventory(
+  p_item_id UUID,
+  p_amount NUMERIC,
+  p_tenant_id UUID,
+  p_reference_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_performed_by UUID DEFAULT NULL,
+  p_variant_id UUID DEFAULT NULL
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  new_qty NUMERIC;
+  parent_qty NUMERIC;
+BEGIN
+  -- Auth check
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Tenant membership check
+  IF NOT EXISTS (
+    SELECT 1 FROM tenant_members
+    WHERE user_id = auth.uid() AND tenant_id = p_tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this tenant';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Restock amount must be greater than 0';
+  END IF;
+
+  IF p_variant_id IS NOT NULL THEN
+    UPDATE inventory_item_variants
+    SET quantity_on_hand = quantity_on_hand + p_amount,
+        updated_at = NOW()
+    WHERE id = p_variant_id
+      AND inventory_item_id = p_item_id
+    RETURNING quantity_on_hand INTO new_qty;
+
+    SELECT COALESCE(SUM(quantity_on_hand), 0) INTO parent_qty
+    FROM inventory_item_variants
+    WHERE inventory_item_id = p_item_id AND is_active = true;
+
+    UPDATE inventory_items
+    SET quantity_on_hand = parent_qty, updated_at = NOW()
+    WHERE id = p_item_id AND tenant_id = p_tenant_id;
+  ELSE
+    UPDATE inventory_items
+    SET quantity_on_hand = quantity_on_hand + p_amount,
+        updated_at = NOW()
+    WHERE id = p_item_id
+      AND tenant_id = p_tenant_id
+    RETURNING quantity_on_hand INTO new_qty;
+  END IF;
+
+  INSERT INTO inventory_movements (
+    tenant_id, inventory_item_id, inventory_variant_id, movement_type,
+    quantity, reference_id, notes, performed_by
+  ) VALUES (
+    p_tenant_id,
+    p_item_id,
+    p_variant_id,
+    'restock'::movement_type,
+    p_amount,
+    p_reference_id,
+    p_notes,
+    p_performed_by
+  );
+
+  RETURN COALESCE(new_qty, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,196 @@
+-- ============================================================================
+-- Migration 076: Offline Event Mode Sales
+-- ============================================================================
+-- Event Mode can record cash, Venmo and external-card sales while offline and
+-- replay them through create_sale_transaction once the device reconnects.
+-- Each queued sale carries a client-generated id so a replay that is retried
+-- (e.g. the response was lost) never creates a duplicate sale, and the time
+-- the sale actually happened so reports place it correctly.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Idempotency key on sales
+-- ============================================================================
+
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS client_sale_id UUID;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sales_client_sale_id
+  ON sales(tenant_id, client_sale_id)
+  WHERE client_sale_id IS NOT NULL;
+
+-- ============================================================================
+-- 2. create_sale_transaction — accept p_client_sale_id and p_created_at
+-- ============================================================================
+-- Drop the 060 signature first so the new optional parameters don't create a
+-- second overload (see migration 065).
+
+DROP FUNCTION IF EXISTS public.create_sale_transaction(
+  uuid, uuid, uuid, numeric, numeric, numeric, numeric, numeric, numeric,
+  text, text, text, numeric, text, text, text, text, text, uuid, jsonb,
+  jsonb, uuid
+);
+
+CREATE OR REPLACE FUNCTION create_sale_transaction(
+  p_tenant_id UUID,
+  p_event_id UUID,
+  p_client_id UUID,
+  p_subtotal NUMERIC,
+  p_discount_amount NUMERIC,
+  p_tax_amount NUMERIC,
+  p_tip_amount NUMERIC,
+  p_platform_fee_amount NUMERIC,
+  p_total NUMERIC,
+  p_payment_method TEXT,
+  p_payment_status TEXT,
+  p_payment_provider TEXT,
+  p_platform_fee_rate NUMERIC,
+  p_fee_handling TEXT,
+  p_status TEXT,
+  p_receipt_email TEXT,
+  p_receipt_phone TEXT,
+  p_notes TEXT,
+  p_completed_by UUID,
+  p_items JSONB,
+  p_inventory_deductions JSONB,
+  p_queue_entry_id UUID DEFAULT NULL,
+  p_client_sale_id UUID DEFAULT NULL,
+  p_created_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  new_sale_id UUID;
+  item JSONB;
+  deduction JSONB;
+  v_variant_id UUID;
+  parent_qty NUMERIC;
+BEGIN
+  -- Auth check
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Tenant membership check
+  IF NOT EXISTS (
+    SELECT 1 FROM tenant_members
+    WHERE user_id = auth.uid() AND tenant_id = p_tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this tenant';
+  END IF;
+
+  -- Idempotency: a replayed offline sale returns the sale it already created
+  IF p_client_sale_id IS NOT NULL THEN
+    SELECT id INTO new_sale_id
+    FROM sales
+    WHERE tenant_id = p_tenant_id AND client_sale_id = p_client_sale_id;
+
+    IF new_sale_id IS NOT NULL THEN
+      RETURN new_sale_id;
+    END IF;
+  END IF;
+
+  -- 1. Insert sale
+  INSERT INTO sales (
+    tenant_id, event_id, client_id,
+    subtotal, discount_amount, tax_amount, tip_amount,
+    platform_fee_amount, total,
+    payment_method, payment_status, payment_provider,
+    platform_fee_rate, fee_handling,
+    status, receipt_email, receipt_phone, notes, completed_by,
+    client_sale_id, created_at
+  ) VALUES (
+    p_tenant_id, p_event_id, p_client_id,
+    p_subtotal, p_discount_amount, p_tax_amount, p_tip_amount,
+    p_platform_fee_amount, p_total,
+    p_payment_method::payment_method, p_payment_status::payment_status, p_payment_provider,
+    p_platform_fee_rate,
+    CASE WHEN p_fee_handling IS NOT NULL AND p_fee_handling != '' THEN p_fee_handling::fee_handling ELSE NULL END,
+    p_status::sale_status, p_receipt_email, p_receipt_phone, p_notes, p_completed_by,
+    p_client_sale_id, COALESCE(p_created_at, NOW())
+  ) RETURNING id INTO new_sale_id;
+
+  -- 2. Insert sale items
+  FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    INSERT INTO sale_items (
+      sale_id, tenant_id, inventory_item_id, inventory_variant_id, name,
+      quantity, unit_price, discount_type, discount_value,
+      line_total, product_type_id, product_type_name,
+      inches_used, jump_ring_cost
+    ) VALUES (
+      new_sale_id, p_tenant_id,
+      NULLIF(item->>'inventory_item_id', '')::UUID,
+      NULLIF(item->>'inventory_variant_id', '')::UUID,
+      item->>'name',
+      (item->>'quantity')::NUMERIC,
+      (item->>'unit_price')::NUMERIC,
+      NULLIF(item->>'discount_type', ''),
+      COALESCE((item->>'discount_value')::NUMERIC, 0),
+      (item->>'line_total')::NUMERIC,
+      NULLIF(item->>'product_type_id', '')::UUID,
+      NULLIF(item->>'product_type_name', ''),
+      (item->>'inches_used')::NUMERIC,
+      (item->>'jump_ring_cost')::NUMERIC
+    );
+  END LOOP;
+
+  -- 3. Atomic inventory deductions (variant-aware, floors at 0)
+  FOR deduction IN SELECT * FROM jsonb_array_elements(p_inventory_deductions)
+  LOOP
+    v_variant_id := NULLIF(deduction->>'variant_id', '')::UUID;
+
+    IF v_variant_id IS NOT NULL THEN
+      -- Deduct from variant
+      UPDATE inventory_item_variants
+      SET quantity_on_hand = GREATEST(quantity_on_hand - (deduction->>'amount')::NUMERIC, 0),
+          updated_at = NOW()
+      WHERE id = v_variant_id
+        AND inventory_item_id = (deduction->>'item_id')::UUID;
+
+      -- Recalc parent quantity_on_hand = SUM of active variants
+      SELECT COALESCE(SUM(quantity_on_hand), 0) INTO parent_qty
+      FROM inventory_item_variants
+      WHERE inventory_item_id = (deduction->>'item_id')::UUID AND is_active = true;
+
+      UPDATE inventory_items
+      SET quantity_on_hand = parent_qty, updated_at = NOW()
+      WHERE id = (deduction->>'item_id')::UUID
+        AND tenant_id = p_tenant_id;
+    ELSE
+      -- Original behavior: deduct from parent item directly
+      UPDATE inventory_items
+      SET quantity_on_hand = GREATEST(quantity_on_hand - (deduction->>'amount')::NUMERIC, 0),
+          updated_at = NOW()
+      WHERE id = (deduction->>'item_id')::UUID
+        AND tenant_id = p_tenant_id;
+    END IF;
+
+    -- Optionally log inventory movement
+    IF (deduction->>'log_movement')::BOOLEAN IS TRUE THEN
+      INSERT INTO inventory_movements (
+        tenant_id, inventory_item_id, inventory_variant_id, movement_type,
+        quantity, reference_id, notes, performed_by
+      ) VALUES (
+        p_tenant_id,
+        (deduction->>'item_id')::UUID,
+        v_variant_id,
+        'sale'::movement_type,
+        -(deduction->>'amount')::NUMERIC,
+        new_sale_id,
+        deduction->>'notes',
+        NULLIF(deduction->>'performed_by', '')::UUID
+      );
+    END IF;
+  END LOOP;
+
+  -- 4. Update queue entry if provided
+  IF p_queue_entry_id IS NOT NULL THEN
+    UPDATE queue_entries
+    SET status = 'served', served_at = NOW(), updated_at = NOW()
+    WHERE id = p_queue_entry_id AND tenant_id = p_tenant_id;
+  END IF;
+
+  RETURN new_sale_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- Migration 077: Tenant Time Zones
+-- ============================================================================
+-- Adds an IANA time zone to each tenant, plus an optional per-event override
+-- for shows outside the studio's home zone. Local days, report periods,
+-- scheduled message times and cron send windows are resolved in this zone.
+-- Existing tenants default to America/Denver, the zone the cron send times
+-- and shipping cutoff were already written for.
+-- ============================================================================
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS time_zone text NOT NULL DEFAULT 'America/Denver';
+
+-- NULL = use the tenant's time zone
+ALTER TABLE events ADD COLUMN IF NOT EXISTS time_zone text;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,172 @@
+-- ============================================================================
+-- Migration 078: Appointment Booking
+-- ============================================================================
+-- Bookable studio appointments for Store Mode. Each team member has a weekly
+-- availability calendar; blackout dates close the whole studio or one member.
+-- Appointment length is tenants.avg_service_minutes per piece, plus a buffer
+-- before the next booking. Deposits use the same Stripe Checkout flow as
+-- party deposits. Checked-in appointments become store queue entries.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Tenant booking settings
+-- ============================================================================
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS appointments_enabled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS appointment_buffer_minutes INTEGER NOT NULL DEFAULT 10;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS appointment_slot_interval_minutes INTEGER NOT NULL DEFAULT 15;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS appointment_min_notice_hours INTEGER NOT NULL DEFAULT 2;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS appointment_max_days_ahead INTEGER NOT NULL DEFAULT 60;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS appointment_max_pieces INTEGER NOT NULL DEFAULT 4;
+-- 0 = no deposit required
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS appointment_deposit_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- ============================================================================
+-- 2. Weekly availability (per team member)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS appointment_availability (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES tenant_members(id) ON DELETE CASCADE,
+  -- 0 = Sunday
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  -- Local wall-clock times in the tenant's time zone
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_availability_tenant ON appointment_availability(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_appointment_availability_member ON appointment_availability(member_id);
+
+-- ============================================================================
+-- 3. Blackout dates (whole studio when member_id is null)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS appointment_blackouts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  member_id UUID REFERENCES tenant_members(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_blackouts_tenant ON appointment_blackouts(tenant_id, end_date);
+
+-- ============================================================================
+-- 4. Appointments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS appointments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  member_id UUID REFERENCES tenant_members(id) ON DELETE SET NULL,
+  client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'confirmed'
+    CHECK (status IN ('pending_deposit', 'confirmed', 'checked_in', 'completed', 'cancelled', 'no_show')),
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  pieces INTEGER NOT NULL DEFAULT 1 CHECK (pieces > 0),
+  customer_name TEXT NOT NULL,
+  customer_phone TEXT NOT NULL,
+  customer_email TEXT,
+  notes TEXT,
+  sms_consent BOOLEAN NOT NULL DEFAULT false,
+  -- Deposit (mirrors party_requests)
+  deposit_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  deposit_status TEXT NOT NULL DEFAULT 'none' CHECK (deposit_status IN ('none', 'pending', 'paid', 'waived')),
+  deposit_paid_at TIMESTAMPTZ,
+  stripe_checkout_session_id TEXT,
+  stripe_payment_intent_id TEXT,
+  reminder_sent_at TIMESTAMPTZ,
+  queue_entry_id UUID REFERENCES queue_entries(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointments_tenant_time ON appointments(tenant_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_appointments_member_time ON appointments(member_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_appointments_reminders ON appointments(starts_at)
+  WHERE status = 'confirmed' AND reminder_sent_at IS NULL;
+
+-- Two live bookings can never overlap on the same artist's calendar, even
+-- if two guests grab the same slot at once. Buffers are enforced in the app.
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_no_overlap;
+ALTER TABLE appointments ADD CONSTRAINT appointments_no_overlap
+  EXCLUDE USING gist (member_id WITH =, tstzrange(starts_at, ends_at) WITH &&)
+  WHERE (status IN ('pending_deposit', 'confirmed', 'checked_in'));
+
+CREATE OR REPLACE TRIGGER appointments_updated_at
+  BEFORE UPDATE ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- 5. Store queue link
+-- ============================================================================
+
+-- Store Mode check-ins have no event
+ALTER TABLE queue_entries ALTER COLUMN event_id DROP NOT NULL;
+ALTER TABLE queue_entries ADD COLUMN IF NOT EXISTS appointment_id UUID REFERENCES appointments(id) ON DELETE SET NULL;
+
+-- Serving (or no-showing) a checked-in appointment closes the appointment
+CREATE OR REPLACE FUNCTION sync_appointment_from_queue()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.appointment_id IS NOT NULL AND NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status::text = 'served' THEN
+      UPDATE appointments SET status = 'completed'
+      WHERE id = NEW.appointment_id AND status = 'checked_in';
+    ELSIF NEW.status::text = 'no_show' THEN
+      UPDATE appointments SET status = 'no_show'
+      WHERE id = NEW.appointment_id AND status = 'checked_in';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE TRIGGER queue_entries_sync_appointment
+  AFTER UPDATE OF status ON queue_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_appointment_from_queue();
+
+-- ============================================================================
+-- 6. RLS — public booking goes through the service role API
+-- ============================================================================
+
+ALTER TABLE appointment_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE appointment_blackouts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE appointments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tenant members can manage availability"
+  ON appointment_availability FOR ALL
+  USING (tenant_id IN (SELECT get_user_tenant_ids()))
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+
+CREATE POLICY "Tenant members can manage blackouts"
+  ON appointment_blackouts FOR ALL
+  USING (tenant_id IN (SELECT get_user_tenant_ids()))
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+
+CREATE POLICY "Tenant members can view appointments"
+  ON appointments FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+CREATE POLICY "Tenant members can insert appointments"
+  ON appointments FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+
+CREATE POLICY "Tenant members can update appointments"
+  ON appointments FOR UPDATE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,39 @@
+-- ============================================================================
+-- Migration 079: Calendar Feeds & ICS Import
+-- ============================================================================
+-- Secret-token iCalendar feeds so the studio (and each team member) can
+-- subscribe to events, confirmed parties and appointments from Google or
+-- Apple Calendar. member_id NULL is the studio-wide feed; a member feed
+-- narrows appointments to that member's bookings.
+--
+-- events.external_uid remembers the UID of events imported from an .ics
+-- file so re-importing an updated schedule skips what's already there.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  member_id UUID REFERENCES tenant_members(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE,
+  last_accessed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- One studio feed per tenant, one personal feed per member
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feeds_studio
+  ON calendar_feeds(tenant_id) WHERE member_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feeds_member
+  ON calendar_feeds(member_id) WHERE member_id IS NOT NULL;
+
+-- Tokens are secrets: no client policies, only the service role
+-- (via /api/calendar-feeds and the public feed route) reads or writes them.
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS external_uid TEXT;
+
+-- Not partial, so imports can upsert ON CONFLICT (tenant_id, external_uid);
+-- NULLs never conflict, leaving hand-made events unaffected
+CREATE UNIQUE INDEX IF NOT EXISTS idx_events_external_uid
+  ON events(tenant_id, external_uid);
+
+NOTIFY pgrst, 'reload schema';
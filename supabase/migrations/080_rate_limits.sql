@@ -0,0 +1,110 @@
+-- ============================================================================
+-- Migration 080: Shared Rate Limiting
+-- ============================================================================
+-- Durable counters for src/lib/rate-limit.ts so limits hold across every
+-- serverless instance. Sliding-window counter: one row per key per fixed
+-- window; a request is allowed while
+--   previous_count × (share of previous window still in range) + current_count
+-- stays under the limit. Rows expire after two windows and are swept
+-- opportunistically.
+--
+-- Also closes the anonymous insert policies on waivers and queue_entries:
+-- public waiver signing now goes through /api/waivers/submit (throttled,
+-- service role), and signed-in staff get tenant-scoped insert policies.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Counters
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  key TEXT NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (key, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rate_limit_counters_expires ON rate_limit_counters(expires_at);
+
+-- Service role only
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- 2. rate_limit_consume(key, limit, window) — count one request
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION rate_limit_consume(
+  p_key TEXT,
+  p_limit INTEGER,
+  p_window_seconds INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, reset_at TIMESTAMPTZ, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_now TIMESTAMPTZ := clock_timestamp();
+  v_epoch DOUBLE PRECISION := extract(epoch FROM v_now);
+  v_window INTERVAL := make_interval(secs => p_window_seconds);
+  v_start TIMESTAMPTZ := to_timestamp(floor(v_epoch / p_window_seconds) * p_window_seconds);
+  v_elapsed DOUBLE PRECISION := (v_epoch - extract(epoch FROM v_start)) / p_window_seconds;
+  v_prev INTEGER;
+  v_curr INTEGER;
+  v_estimate DOUBLE PRECISION;
+  v_wait DOUBLE PRECISION;
+BEGIN
+  -- Serialise concurrent requests for the same key
+  PERFORM pg_advisory_xact_lock(hashtext(p_key));
+
+  SELECT c.count INTO v_prev FROM rate_limit_counters c
+    WHERE c.key = p_key AND c.window_start = v_start - v_window;
+  SELECT c.count INTO v_curr FROM rate_limit_counters c
+    WHERE c.key = p_key AND c.window_start = v_start;
+  v_prev := COALESCE(v_prev, 0);
+  v_curr := COALESCE(v_curr, 0);
+  v_estimate := v_prev * (1 - v_elapsed) + v_curr;
+
+  IF v_estimate + 1 > p_limit THEN
+    IF v_curr + 1 <= p_limit AND v_prev > 0 THEN
+      v_wait := 1 - (p_limit - 1 - v_curr)::DOUBLE PRECISION / v_prev - v_elapsed;
+    ELSE
+      v_wait := 1 - v_elapsed + GREATEST(0, 1 - (p_limit - 1)::DOUBLE PRECISION / GREATEST(v_curr, 1));
+    END IF;
+
+    RETURN QUERY SELECT false, 0, v_start + v_window, GREATEST(1, ceil(v_wait * p_window_seconds))::INTEGER;
+    RETURN;
+  END IF;
+
+  INSERT INTO rate_limit_counters (key, window_start, count, expires_at)
+  VALUES (p_key, v_start, 1, v_start + 2 * v_window)
+  ON CONFLICT (key, window_start) DO UPDATE SET count = rate_limit_counters.count + 1;
+
+  -- Opportunistic sweep (~1% of calls)
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_counters WHERE expires_at < v_now;
+  END IF;
+
+  RETURN QUERY SELECT true, GREATEST(0, floor(p_limit - v_estimate - 1))::INTEGER, v_start + v_window, 0;
+END;
+$$;
+
+-- Callable only by the service role — otherwise anyone could drain or
+-- inspect another caller's bucket through PostgREST
+REVOKE EXECUTE ON FUNCTION rate_limit_consume(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 3. Close anonymous inserts
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Public insert" ON waivers;
+DROP POLICY IF EXISTS "Tenant insert" ON waivers;
+CREATE POLICY "Tenant insert" ON waivers FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+
+DROP POLICY IF EXISTS "Public insert" ON queue_entries;
+DROP POLICY IF EXISTS "Tenant insert" ON queue_entries;
+CREATE POLICY "Tenant insert" ON queue_entries FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,241 @@
+-- ============================================================================
+-- Migration 081: Gift Card Expiration & Liability Ledger
+-- ============================================================================
+-- Optional per-tenant expiration policy (validated against state rules in
+-- src/lib/gift-cards.ts), and an append-only ledger of every balance change
+-- so outstanding liability and breakage can be reported as of any date.
+--
+-- Ledger amounts are signed: positive raises the liability (issue, refund
+-- credit), negative lowers it (redeem, expire). Issues and redemptions are
+-- recorded by triggers; refunds, adjustments, cancellations and expirations
+-- go through gift_card_post(), which moves the balance and writes the entry
+-- in one transaction.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Tenant expiration policy
+-- ============================================================================
+
+-- NULL = cards never expire
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS gift_card_expiry_months INTEGER
+  CHECK (gift_card_expiry_months IS NULL OR gift_card_expiry_months > 0);
+-- Two-letter US state whose gift card law applies
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS gift_card_jurisdiction TEXT;
+
+-- ============================================================================
+-- 2. Ledger
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS gift_card_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  gift_card_id UUID NOT NULL REFERENCES gift_cards(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('issue', 'redeem', 'refund', 'adjust', 'expire')),
+  amount DECIMAL(10,2) NOT NULL,
+  sale_id UUID REFERENCES sales(id) ON DELETE SET NULL,
+  redemption_id UUID REFERENCES gift_card_redemptions(id) ON DELETE SET NULL,
+  note TEXT,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_card_ledger_tenant ON gift_card_ledger(tenant_id, occurred_at);
+CREATE INDEX IF NOT EXISTS idx_gift_card_ledger_card ON gift_card_ledger(gift_card_id, occurred_at);
+
+ALTER TABLE gift_card_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Append-only: members can read and add entries, never change or remove them.
+-- (Rows still go away with their card or tenant via ON DELETE CASCADE.)
+DROP POLICY IF EXISTS "Tenant select" ON gift_card_ledger;
+CREATE POLICY "Tenant select" ON gift_card_ledger FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+DROP POLICY IF EXISTS "Tenant insert" ON gift_card_ledger;
+CREATE POLICY "Tenant insert" ON gift_card_ledger FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+
+REVOKE UPDATE, DELETE ON gift_card_ledger FROM anon, authenticated;
+
+-- ============================================================================
+-- 3. Triggers: issue + redeem
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION gift_card_ledger_on_issue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO gift_card_ledger (tenant_id, gift_card_id, entry_type, amount, sale_id, occurred_at)
+  VALUES (NEW.tenant_id, NEW.id, 'issue', NEW.amount, NEW.sale_id, NEW.purchased_at);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS gift_card_ledger_issue ON gift_cards;
+CREATE TRIGGER gift_card_ledger_issue
+  AFTER INSERT ON gift_cards
+  FOR EACH ROW
+  EXECUTE FUNCTION gift_card_ledger_on_issue();
+
+CREATE OR REPLACE FUNCTION gift_card_ledger_on_redeem()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO gift_card_ledger (tenant_id, gift_card_id, entry_type, amount, sale_id, redemption_id, created_by, occurred_at)
+  VALUES (NEW.tenant_id, NEW.gift_card_id, 'redeem', -NEW.amount, NEW.sale_id, NEW.id, NEW.redeemed_by, NEW.redeemed_at);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS gift_card_ledger_redeem ON gift_card_redemptions;
+CREATE TRIGGER gift_card_ledger_redeem
+  AFTER INSERT ON gift_card_redemptions
+  FOR EACH ROW
+  EXECUTE FUNCTION gift_card_ledger_on_redeem();
+
+-- ============================================================================
+-- 4. gift_card_post() — move a balance and record it
+-- ============================================================================
+-- p_amount is signed like the ledger. p_status overrides the resulting card
+-- status ('expired', 'cancelled'); otherwise an active card that hits zero
+-- becomes fully_redeemed and a fully_redeemed card that gets credit is
+-- active again. Runs as the caller, so RLS still scopes it to the tenant.
+
+CREATE OR REPLACE FUNCTION gift_card_post(
+  p_gift_card_id UUID,
+  p_entry_type TEXT,
+  p_amount DECIMAL,
+  p_note TEXT DEFAULT NULL,
+  p_sale_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL
+)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_card gift_cards%ROWTYPE;
+  v_balance DECIMAL(10,2);
+  v_status TEXT;
+BEGIN
+  IF p_entry_type NOT IN ('refund', 'adjust', 'expire') THEN
+    RAISE EXCEPTION 'gift_card_post: unsupported entry type %', p_entry_type;
+  END IF;
+
+  SELECT * INTO v_card FROM gift_cards WHERE id = p_gift_card_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Gift card not found';
+  END IF;
+
+  v_balance := v_card.remaining_balance + p_amount;
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Gift card balance cannot go below zero';
+  END IF;
+
+  v_status := COALESCE(p_status, CASE
+    WHEN v_card.status = 'active' AND v_balance = 0 THEN 'fully_redeemed'
+    WHEN v_card.status = 'fully_redeemed' AND v_balance > 0 THEN 'active'
+    ELSE v_card.status
+  END);
+
+  UPDATE gift_cards
+  SET remaining_balance = v_balance,
+      status = v_status,
+      cancelled_at = CASE WHEN v_status = 'cancelled' THEN now() ELSE cancelled_at END
+  WHERE id = p_gift_card_id;
+
+  IF p_amount <> 0 THEN
+    INSERT INTO gift_card_ledger (tenant_id, gift_card_id, entry_type, amount, sale_id, note)
+    VALUES (v_card.tenant_id, p_gift_card_id, p_entry_type, p_amount, p_sale_id, p_note);
+  END IF;
+
+  RETURN v_balance;
+END;
+$$;
+
+-- ============================================================================
+-- 5. gift_card_liability() — roll-forward per card for a period
+-- ============================================================================
+-- Opening balance before p_from, movements in [p_from, p_to), closing at
+-- p_to. Cards with no balance and no activity in the period are omitted.
+
+CREATE OR REPLACE FUNCTION gift_card_liability(
+  p_tenant_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (
+  gift_card_id UUID,
+  opening DECIMAL,
+  issued DECIMAL,
+  redeemed DECIMAL,
+  refunded DECIMAL,
+  adjusted DECIMAL,
+  expired DECIMAL,
+  closing DECIMAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.gift_card_id,
+    COALESCE(SUM(l.amount) FILTER (WHERE l.occurred_at < p_from), 0),
+    COALESCE(SUM(l.amount) FILTER (WHERE l.occurred_at >= p_from AND l.entry_type = 'issue'), 0),
+    COALESCE(-SUM(l.amount) FILTER (WHERE l.occurred_at >= p_from AND l.entry_type = 'redeem'), 0),
+    COALESCE(SUM(l.amount) FILTER (WHERE l.occurred_at >= p_from AND l.entry_type = 'refund'), 0),
+    COALESCE(SUM(l.amount) FILTER (WHERE l.occurred_at >= p_from AND l.entry_type = 'adjust'), 0),
+    COALESCE(-SUM(l.amount) FILTER (WHERE l.occurred_at >= p_from AND l.entry_type = 'expire'), 0),
+    COALESCE(SUM(l.amount), 0)
+  FROM gift_card_ledger l
+  WHERE l.tenant_id = p_tenant_id
+    AND l.occurred_at < p_to
+  GROUP BY l.gift_card_id
+  HAVING SUM(l.amount) <> 0 OR bool_or(l.occurred_at >= p_from)
+  ORDER BY l.gift_card_id;
+$$;
+
+-- ============================================================================
+-- 6. Backfill existing cards
+-- ============================================================================
+
+INSERT INTO gift_card_ledger (tenant_id, gift_card_id, entry_type, amount, sale_id, occurred_at, created_at)
+SELECT gc.tenant_id, gc.id, 'issue', gc.amount, gc.sale_id, gc.purchased_at, gc.created_at
+FROM gift_cards gc
+WHERE NOT EXISTS (SELECT 1 FROM gift_card_ledger l WHERE l.gift_card_id = gc.id AND l.entry_type = 'issue');
+
+INSERT INTO gift_card_ledger (tenant_id, gift_card_id, entry_type, amount, sale_id, redemption_id, created_by, occurred_at, created_at)
+SELECT r.tenant_id, r.gift_card_id, 'redeem', -r.amount, r.sale_id, r.id, r.redeemed_by, r.redeemed_at, r.created_at
+FROM gift_card_redemptions r
+WHERE NOT EXISTS (SELECT 1 FROM gift_card_ledger l WHERE l.redemption_id = r.id);
+
+INSERT INTO gift_card_ledger (tenant_id, gift_card_id, entry_type, amount, sale_id, note, occurred_at, created_at)
+SELECT rf.tenant_id, s.gift_card_id, 'refund', rf.gift_card_amount, rf.sale_id, 'Backfilled refund credit', rf.created_at, rf.created_at
+FROM refunds rf
+JOIN sales s ON s.id = rf.sale_id
+WHERE rf.gift_card_amount > 0
+  AND s.gift_card_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM gift_card_ledger l
+    WHERE l.gift_card_id = s.gift_card_id AND l.entry_type = 'refund' AND l.sale_id = rf.sale_id
+  );
+
+-- Whatever is left over (cancelled or expired cards, manual edits) becomes
+-- one entry so each card's ledger sums to its current balance
+INSERT INTO gift_card_ledger (tenant_id, gift_card_id, entry_type, amount, note, occurred_at)
+SELECT gc.tenant_id, gc.id,
+  CASE WHEN gc.status = 'expired' THEN 'expire' ELSE 'adjust' END,
+  gc.remaining_balance - COALESCE(t.total, 0),
+  'Opening reconciliation',
+  CASE WHEN gc.status = 'expired' THEN COALESCE(gc.expires_at, gc.updated_at)
+       ELSE COALESCE(gc.cancelled_at, gc.updated_at) END
+FROM gift_cards gc
+LEFT JOIN (SELECT gift_card_id, SUM(amount) AS total FROM gift_card_ledger GROUP BY gift_card_id) t
+  ON t.gift_card_id = gc.id
+WHERE gc.remaining_balance <> COALESCE(t.total, 0);
+
+NOTIFY pgrst, 'reload schema';
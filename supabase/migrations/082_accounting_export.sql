@@ -0,0 +1,39 @@
+-- ============================================================================
+-- Migration 082: Accounting Export
+-- ============================================================================
+-- Chart-of-accounts mapping for the QuickBooks / Xero journal export, plus a
+-- "last exported through" marker so the same days aren't booked twice.
+-- Each export is logged for the bookkeeper's trail.
+-- ============================================================================
+
+-- { "<account key>": { "name": "...", "code": "..." } } — see src/lib/accounting.ts
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS accounting_accounts JSONB NOT NULL DEFAULT '{}'::jsonb;
+-- Last local day included in an export marked as booked (NULL = never)
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS accounting_exported_through DATE;
+
+CREATE TABLE IF NOT EXISTS accounting_exports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  from_date DATE NOT NULL,
+  to_date DATE NOT NULL,
+  format TEXT NOT NULL CHECK (format IN ('qb_iif', 'qb_csv', 'xero_csv')),
+  entry_count INTEGER NOT NULL DEFAULT 0,
+  marked_exported BOOLEAN NOT NULL DEFAULT false,
+  exported_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (to_date >= from_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_accounting_exports_tenant ON accounting_exports(tenant_id, created_at DESC);
+
+ALTER TABLE accounting_exports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant select" ON accounting_exports;
+CREATE POLICY "Tenant select" ON accounting_exports FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+DROP POLICY IF EXISTS "Tenant insert" ON accounting_exports;
+CREATE POLICY "Tenant insert" ON accounting_exports FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,192 @@
+-- ============================================================================
+-- Migration 083: Stock Count Sessions
+-- ============================================================================
+-- Physical counts with variance reconciliation. A count session snapshots
+-- every active item (or variant) in scope; staff enter what's on the shelf,
+-- and finalizing posts the difference as 'adjustment' / 'waste' inventory
+-- movements with a reason, so drift is explained instead of overwritten.
+--
+-- expected_quantity is re-read when a line is counted, so sales rung up
+-- while the count is in progress don't show up as variance. Finalizing
+-- applies the variance as a delta to the current quantity_on_hand.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS stock_counts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- 'all' or an inventory type ('chain', 'jump_ring', ...)
+  scope TEXT NOT NULL DEFAULT 'all',
+  status TEXT NOT NULL DEFAULT 'in_progress'
+    CHECK (status IN ('in_progress', 'finalized', 'cancelled')),
+  notes TEXT,
+  started_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  finalized_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finalized_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_counts_tenant ON stock_counts(tenant_id, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS stock_count_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  stock_count_id UUID NOT NULL REFERENCES stock_counts(id) ON DELETE CASCADE,
+  inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  inventory_variant_id UUID REFERENCES inventory_item_variants(id) ON DELETE CASCADE,
+  expected_quantity NUMERIC(12,4) NOT NULL DEFAULT 0,
+  -- NULL = not counted yet; uncounted lines are left alone at finalize
+  counted_quantity NUMERIC(12,4) CHECK (counted_quantity IS NULL OR counted_quantity >= 0),
+  unit_cost NUMERIC(10,4) NOT NULL DEFAULT 0,
+  reason TEXT CHECK (reason IN ('cutting_waste', 'damaged', 'theft', 'miscount', 'found', 'other')),
+  notes TEXT,
+  counted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  counted_at TIMESTAMPTZ,
+  -- Set at finalize: counted - expected, and the movement that posted it
+  variance_quantity NUMERIC(12,4),
+  movement_id UUID REFERENCES inventory_movements(id) ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_count_lines_unique
+  ON stock_count_lines(stock_count_id, inventory_item_id, COALESCE(inventory_variant_id, '00000000-0000-0000-0000-000000000000'::uuid));
+CREATE INDEX IF NOT EXISTS idx_stock_count_lines_count ON stock_count_lines(stock_count_id);
+CREATE INDEX IF NOT EXISTS idx_stock_count_lines_tenant ON stock_count_lines(tenant_id);
+
+-- RLS
+ALTER TABLE stock_counts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_count_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant select" ON stock_counts;
+CREATE POLICY "Tenant select" ON stock_counts FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant insert" ON stock_counts;
+CREATE POLICY "Tenant insert" ON stock_counts FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant update" ON stock_counts;
+CREATE POLICY "Tenant update" ON stock_counts FOR UPDATE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+DROP POLICY IF EXISTS "Tenant select" ON stock_count_lines;
+CREATE POLICY "Tenant select" ON stock_count_lines FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant insert" ON stock_count_lines;
+CREATE POLICY "Tenant insert" ON stock_count_lines FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant update" ON stock_count_lines;
+CREATE POLICY "Tenant update" ON stock_count_lines FOR UPDATE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+-- ============================================================================
+-- finalize_stock_count — post every counted line's variance atomically
+-- ============================================================================
+-- Shrinkage reasons (cutting waste, damage) post as 'waste'; everything else
+-- as 'adjustment'. Variant lines adjust the variant and re-sum the parent,
+-- same as decrement_inventory.
+
+CREATE OR REPLACE FUNCTION finalize_stock_count(p_count_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_count stock_counts%ROWTYPE;
+  v_line RECORD;
+  v_variance NUMERIC;
+  v_movement_id UUID;
+  v_adjusted INT := 0;
+  v_value NUMERIC := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_count FROM stock_counts WHERE id = p_count_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM tenant_members
+    WHERE user_id = auth.uid() AND tenant_id = v_count.tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this tenant';
+  END IF;
+
+  IF v_count.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Stock count is already %', v_count.status;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM stock_count_lines
+    WHERE stock_count_id = p_count_id
+      AND counted_quantity IS NOT NULL
+      AND counted_quantity <> expected_quantity
+      AND reason IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Every line with a variance needs a reason';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM stock_count_lines
+    WHERE stock_count_id = p_count_id AND counted_quantity IS NOT NULL
+    FOR UPDATE
+  LOOP
+    v_variance := v_line.counted_quantity - v_line.expected_quantity;
+    v_movement_id := NULL;
+
+    IF v_variance <> 0 THEN
+      IF v_line.inventory_variant_id IS NOT NULL THEN
+        UPDATE inventory_item_variants
+        SET quantity_on_hand = GREATEST(quantity_on_hand + v_variance, 0),
+            updated_at = NOW()
+        WHERE id = v_line.inventory_variant_id;
+
+        UPDATE inventory_items
+        SET quantity_on_hand = (
+              SELECT COALESCE(SUM(quantity_on_hand), 0)
+              FROM inventory_item_variants
+              WHERE inventory_item_id = v_line.inventory_item_id AND is_active = true
+            ),
+            updated_at = NOW()
+        WHERE id = v_line.inventory_item_id;
+      ELSE
+        UPDATE inventory_items
+        SET quantity_on_hand = GREATEST(quantity_on_hand + v_variance, 0),
+            updated_at = NOW()
+        WHERE id = v_line.inventory_item_id;
+      END IF;
+
+      INSERT INTO inventory_movements (
+        tenant_id, inventory_item_id, inventory_variant_id, movement_type,
+        quantity, reference_id, notes, performed_by
+      ) VALUES (
+        v_count.tenant_id,
+        v_line.inventory_item_id,
+        v_line.inventory_variant_id,
+        (CASE WHEN v_variance < 0 AND v_line.reason IN ('cutting_waste', 'damaged')
+              THEN 'waste' ELSE 'adjustment' END)::movement_type,
+        v_variance,
+        p_count_id,
+        'Stock count "' || v_count.name || '": ' || replace(v_line.reason, '_', ' ')
+          || COALESCE(' — ' || NULLIF(v_line.notes, ''), ''),
+        auth.uid()
+      )
+      RETURNING id INTO v_movement_id;
+
+      v_adjusted := v_adjusted + 1;
+      v_value := v_value + v_variance * v_line.unit_cost;
+    END IF;
+
+    UPDATE stock_count_lines
+    SET variance_quantity = v_variance, movement_id = v_movement_id
+    WHERE id = v_line.id;
+  END LOOP;
+
+  UPDATE stock_counts
+  SET status = 'finalized', finalized_at = NOW(), finalized_by = auth.uid(), updated_at = NOW()
+  WHERE id = p_count_id;
+
+  RETURN jsonb_build_object('adjusted', v_adjusted, 'variance_value', ROUND(v_value, 2));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+NOTIFY pgrst, 'reload schema';
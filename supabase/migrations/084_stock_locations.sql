@@ -0,0 +1,250 @@
+-- ============================================================================
+-- Migration 084: Stock Locations
+-- ============================================================================
+-- Home studio, event kits, travel cases and staff kits, with stock tracked
+-- per item/variant per location and transfers logged as movements.
+--
+-- quantity_on_hand on inventory_items / inventory_item_variants stays the
+-- total across all locations, so every existing writer (POS, event sales,
+-- refunds, restocks, counts, manual edits) keeps working unchanged. Only
+-- the non-default locations have rows in inventory_stock_levels; the
+-- default location (the studio) holds whatever isn't in a kit:
+--
+--   studio quantity = quantity_on_hand − SUM(kit quantities)
+--
+-- Movements that carry a location_id adjust that location's level. Sales
+-- and refunds at an event pick up the event's stock_location_id, so event
+-- sales draw down the kit that went to the show.
+-- ============================================================================
+
+ALTER TYPE movement_type ADD VALUE IF NOT EXISTS 'transfer';
+
+CREATE TABLE IF NOT EXISTS stock_locations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'event_kit'
+    CHECK (kind IN ('studio', 'event_kit', 'travel_case', 'staff_kit')),
+  -- Staff member who carries this kit (optional)
+  assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_locations_tenant ON stock_locations(tenant_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_locations_one_default
+  ON stock_locations(tenant_id) WHERE is_default;
+
+-- Every tenant starts with its studio as the default location
+INSERT INTO stock_locations (tenant_id, name, kind, is_default)
+SELECT t.id, 'Studio', 'studio', true
+FROM tenants t
+WHERE NOT EXISTS (SELECT 1 FROM stock_locations l WHERE l.tenant_id = t.id AND l.is_default);
+
+CREATE TABLE IF NOT EXISTS inventory_stock_levels (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  location_id UUID NOT NULL REFERENCES stock_locations(id) ON DELETE CASCADE,
+  inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  inventory_variant_id UUID REFERENCES inventory_item_variants(id) ON DELETE CASCADE,
+  quantity NUMERIC(12,4) NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  -- What this kit should carry; below it, the kit needs topping up
+  par_level NUMERIC(12,4),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_levels_unique
+  ON inventory_stock_levels(location_id, inventory_item_id, COALESCE(inventory_variant_id, '00000000-0000-0000-0000-000000000000'::uuid));
+CREATE INDEX IF NOT EXISTS idx_stock_levels_tenant ON inventory_stock_levels(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_stock_levels_item ON inventory_stock_levels(inventory_item_id);
+
+CREATE TABLE IF NOT EXISTS stock_transfers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  from_location_id UUID REFERENCES stock_locations(id) ON DELETE SET NULL,
+  to_location_id UUID REFERENCES stock_locations(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_tenant ON stock_transfers(tenant_id, created_at DESC);
+
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS location_id UUID REFERENCES stock_locations(id) ON DELETE SET NULL;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS stock_location_id UUID REFERENCES stock_locations(id) ON DELETE SET NULL;
+
+-- RLS
+ALTER TABLE stock_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE inventory_stock_levels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_transfers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant select" ON stock_locations;
+CREATE POLICY "Tenant select" ON stock_locations FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant insert" ON stock_locations;
+CREATE POLICY "Tenant insert" ON stock_locations FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant update" ON stock_locations;
+CREATE POLICY "Tenant update" ON stock_locations FOR UPDATE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant delete" ON stock_locations;
+CREATE POLICY "Tenant delete" ON stock_locations FOR DELETE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()) AND NOT is_default);
+
+-- Levels change only through movements (and par levels through the API)
+DROP POLICY IF EXISTS "Tenant select" ON inventory_stock_levels;
+CREATE POLICY "Tenant select" ON inventory_stock_levels FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant insert" ON inventory_stock_levels;
+CREATE POLICY "Tenant insert" ON inventory_stock_levels FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant update" ON inventory_stock_levels;
+CREATE POLICY "Tenant update" ON inventory_stock_levels FOR UPDATE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+DROP POLICY IF EXISTS "Tenant select" ON stock_transfers;
+CREATE POLICY "Tenant select" ON stock_transfers FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+-- ============================================================================
+-- Movement → location level
+-- ============================================================================
+-- Sales and refund restocks at an event inherit the event's location. A
+-- movement at a non-default location adjusts that location's level; the
+-- default location is derived, so it needs nothing.
+
+CREATE OR REPLACE FUNCTION apply_movement_location()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.location_id IS NULL AND NEW.reference_id IS NOT NULL
+     AND NEW.movement_type IN ('sale', 'restock') THEN
+    SELECT e.stock_location_id INTO NEW.location_id
+    FROM sales s
+    JOIN events e ON e.id = s.event_id
+    WHERE s.id = NEW.reference_id
+       OR s.id = (SELECT r.sale_id FROM refunds r WHERE r.id = NEW.reference_id)
+    LIMIT 1;
+  END IF;
+
+  IF NEW.location_id IS NOT NULL AND NEW.quantity <> 0 AND EXISTS (
+    SELECT 1 FROM stock_locations
+    WHERE id = NEW.location_id AND tenant_id = NEW.tenant_id AND NOT is_default
+  ) THEN
+    INSERT INTO inventory_stock_levels (tenant_id, location_id, inventory_item_id, inventory_variant_id, quantity)
+    VALUES (NEW.tenant_id, NEW.location_id, NEW.inventory_item_id, NEW.inventory_variant_id, GREATEST(NEW.quantity, 0))
+    ON CONFLICT (location_id, inventory_item_id, COALESCE(inventory_variant_id, '00000000-0000-0000-0000-000000000000'::uuid))
+    DO UPDATE SET quantity = GREATEST(inventory_stock_levels.quantity + NEW.quantity, 0),
+                  updated_at = NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS inventory_movement_location ON inventory_movements;
+CREATE TRIGGER inventory_movement_location
+  BEFORE INSERT ON inventory_movements
+  FOR EACH ROW EXECUTE FUNCTION apply_movement_location();
+
+-- ============================================================================
+-- transfer_stock — move stock between locations
+-- ============================================================================
+-- p_lines: [{ "item_id": uuid, "variant_id": uuid|null, "quantity": number }]
+-- Writes a stock_transfers row and an out/in pair of 'transfer' movements
+-- per line (reference_id = the transfer). Totals don't change.
+
+CREATE OR REPLACE FUNCTION transfer_stock(
+  p_tenant_id UUID,
+  p_from_location_id UUID,
+  p_to_location_id UUID,
+  p_lines JSONB,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_transfer_id UUID;
+  v_from stock_locations%ROWTYPE;
+  v_to stock_locations%ROWTYPE;
+  v_line JSONB;
+  v_item_id UUID;
+  v_variant_id UUID;
+  v_qty NUMERIC;
+  v_available NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM tenant_members
+    WHERE user_id = auth.uid() AND tenant_id = p_tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this tenant';
+  END IF;
+
+  SELECT * INTO v_from FROM stock_locations WHERE id = p_from_location_id AND tenant_id = p_tenant_id;
+  SELECT * INTO v_to FROM stock_locations WHERE id = p_to_location_id AND tenant_id = p_tenant_id;
+  IF v_from.id IS NULL OR v_to.id IS NULL THEN
+    RAISE EXCEPTION 'Location not found';
+  END IF;
+  IF v_from.id = v_to.id THEN
+    RAISE EXCEPTION 'Choose two different locations';
+  END IF;
+
+  INSERT INTO stock_transfers (tenant_id, from_location_id, to_location_id, notes, created_by)
+  VALUES (p_tenant_id, v_from.id, v_to.id, p_notes, auth.uid())
+  RETURNING id INTO v_transfer_id;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_item_id := (v_line->>'item_id')::UUID;
+    v_variant_id := NULLIF(v_line->>'variant_id', '')::UUID;
+    v_qty := (v_line->>'quantity')::NUMERIC;
+    IF v_qty IS NULL OR v_qty <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    IF v_from.is_default THEN
+      -- Studio = total minus everything out in kits
+      IF v_variant_id IS NOT NULL THEN
+        SELECT quantity_on_hand INTO v_available FROM inventory_item_variants
+        WHERE id = v_variant_id AND inventory_item_id = v_item_id FOR UPDATE;
+      ELSE
+        SELECT quantity_on_hand INTO v_available FROM inventory_items
+        WHERE id = v_item_id AND tenant_id = p_tenant_id FOR UPDATE;
+      END IF;
+      v_available := COALESCE(v_available, 0) - COALESCE((
+        SELECT SUM(quantity) FROM inventory_stock_levels
+        WHERE inventory_item_id = v_item_id
+          AND inventory_variant_id IS NOT DISTINCT FROM v_variant_id
+      ), 0);
+    ELSE
+      SELECT quantity INTO v_available FROM inventory_stock_levels
+      WHERE location_id = v_from.id
+        AND inventory_item_id = v_item_id
+        AND inventory_variant_id IS NOT DISTINCT FROM v_variant_id
+      FOR UPDATE;
+    END IF;
+
+    IF COALESCE(v_available, 0) < v_qty THEN
+      RAISE EXCEPTION 'Only % available at %', ROUND(GREATEST(COALESCE(v_available, 0), 0), 2), v_from.name;
+    END IF;
+
+    INSERT INTO inventory_movements (
+      tenant_id, inventory_item_id, inventory_variant_id, movement_type,
+      quantity, reference_id, notes, performed_by, location_id
+    ) VALUES
+      (p_tenant_id, v_item_id, v_variant_id, 'transfer'::movement_type,
+       -v_qty, v_transfer_id, 'Transfer to ' || v_to.name, auth.uid(), v_from.id),
+      (p_tenant_id, v_item_id, v_variant_id, 'transfer'::movement_type,
+       v_qty, v_transfer_id, 'Transfer from ' || v_from.name, auth.uid(), v_to.id);
+  END LOOP;
+
+  RETURN v_transfer_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+NOTIFY pgrst, 'reload schema';
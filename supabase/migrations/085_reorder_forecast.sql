@@ -0,0 +1,17 @@
+-- ============================================================================
+-- Migration 085: Reorder Forecast
+-- ============================================================================
+-- Predictive reorder suggestions read sale/waste movements over a trailing
+-- window and project them forward, adding demand for upcoming events and
+-- confirmed parties. Parties already carry estimated_guests; events get an
+-- optional expected_attendance so a big show can be sized the same way.
+-- ============================================================================
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS expected_attendance INTEGER
+  CHECK (expected_attendance IS NULL OR expected_attendance > 0);
+
+-- The forecast scans recent consumption per tenant
+CREATE INDEX IF NOT EXISTS idx_movements_tenant_type_created
+  ON inventory_movements(tenant_id, movement_type, created_at);
+
+NOTIFY pgrst, 'reload schema';
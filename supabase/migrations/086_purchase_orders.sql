@@ -0,0 +1,292 @@
+-- ============================================================================
+-- Migration 086: Purchase Orders
+-- ============================================================================
+-- Purchase orders against any supplier in the directory (Stuller, Rio
+-- Grande, local wholesalers…), alongside the Sunstone reorder flow. A PO is
+-- drafted, sent to the supplier contact as a PDF, and received in one or
+-- more shipments. Each receipt posts 'restock' movements, records the
+-- landed cost per unit (unit cost + its share of shipping), and can update
+-- the item's cost_per_unit.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id) ON DELETE RESTRICT,
+  po_number TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expected_date DATE,
+  -- Expected freight on the order; actual shipping is recorded per receipt
+  shipping_cost NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (shipping_cost >= 0),
+  notes TEXT,
+  sent_at TIMESTAMPTZ,
+  sent_to TEXT,
+  received_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_purchase_orders_number ON purchase_orders(tenant_id, po_number);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_tenant ON purchase_orders(tenant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id);
+
+CREATE TABLE IF NOT EXISTS purchase_order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE RESTRICT,
+  inventory_variant_id UUID REFERENCES inventory_item_variants(id) ON DELETE RESTRICT,
+  -- Snapshot of the item name and the supplier's SKU as printed on the PO
+  description TEXT NOT NULL,
+  supplier_sku TEXT,
+  quantity_ordered NUMERIC(12,4) NOT NULL CHECK (quantity_ordered > 0),
+  unit_cost NUMERIC(10,4) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  quantity_received NUMERIC(12,4) NOT NULL DEFAULT 0,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_po ON purchase_order_lines(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_tenant ON purchase_order_lines(tenant_id);
+
+CREATE TABLE IF NOT EXISTS purchase_order_receipts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  shipping_cost NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (shipping_cost >= 0),
+  updated_costs BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  received_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_receipts_po ON purchase_order_receipts(purchase_order_id);
+
+CREATE TABLE IF NOT EXISTS purchase_order_receipt_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  receipt_id UUID NOT NULL REFERENCES purchase_order_receipts(id) ON DELETE CASCADE,
+  line_id UUID NOT NULL REFERENCES purchase_order_lines(id) ON DELETE CASCADE,
+  quantity NUMERIC(12,4) NOT NULL CHECK (quantity > 0),
+  -- Invoice cost per unit, and with this receipt's shipping spread in
+  unit_cost NUMERIC(10,4) NOT NULL,
+  landed_unit_cost NUMERIC(10,4) NOT NULL,
+  movement_id UUID REFERENCES inventory_movements(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_receipt_lines_receipt ON purchase_order_receipt_lines(receipt_id);
+
+-- RLS
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_receipt_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant select" ON purchase_orders;
+CREATE POLICY "Tenant select" ON purchase_orders FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant insert" ON purchase_orders;
+CREATE POLICY "Tenant insert" ON purchase_orders FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant update" ON purchase_orders;
+CREATE POLICY "Tenant update" ON purchase_orders FOR UPDATE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant delete" ON purchase_orders;
+CREATE POLICY "Tenant delete" ON purchase_orders FOR DELETE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()) AND status = 'draft');
+
+DROP POLICY IF EXISTS "Tenant select" ON purchase_order_lines;
+CREATE POLICY "Tenant select" ON purchase_order_lines FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant insert" ON purchase_order_lines;
+CREATE POLICY "Tenant insert" ON purchase_order_lines FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant update" ON purchase_order_lines;
+CREATE POLICY "Tenant update" ON purchase_order_lines FOR UPDATE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant delete" ON purchase_order_lines;
+CREATE POLICY "Tenant delete" ON purchase_order_lines FOR DELETE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+-- Receipts are written by receive_purchase_order() only
+DROP POLICY IF EXISTS "Tenant select" ON purchase_order_receipts;
+CREATE POLICY "Tenant select" ON purchase_order_receipts FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant select" ON purchase_order_receipt_lines;
+CREATE POLICY "Tenant select" ON purchase_order_receipt_lines FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+-- ============================================================================
+-- receive_purchase_order: book one shipment against a PO
+-- ============================================================================
+-- p_lines: [{ "line_id": uuid, "quantity": number, "unit_cost": number? }]
+-- unit_cost defaults to the PO line's cost. Shipping is spread across the
+-- received lines by value (by quantity if everything is free), giving each
+-- a landed unit cost. With p_update_costs, that landed cost becomes the
+-- item's (or variant's) cost_per_unit.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_po_id UUID,
+  p_lines JSONB,
+  p_shipping_cost NUMERIC DEFAULT 0,
+  p_update_costs BOOLEAN DEFAULT false,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_receipt_id UUID;
+  v_entry JSONB;
+  v_line purchase_order_lines%ROWTYPE;
+  v_qty NUMERIC;
+  v_cost NUMERIC;
+  v_landed NUMERIC;
+  v_total_value NUMERIC := 0;
+  v_total_qty NUMERIC := 0;
+  v_movement_id UUID;
+  v_received INT := 0;
+  v_value NUMERIC := 0;
+  v_status TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM tenant_members
+    WHERE user_id = auth.uid() AND tenant_id = v_po.tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this tenant';
+  END IF;
+
+  IF v_po.status NOT IN ('draft', 'sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order is already %', replace(v_po.status, '_', ' ');
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Nothing to receive';
+  END IF;
+
+  -- First pass: validate and total up for the shipping split
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_qty := (v_entry->>'quantity')::NUMERIC;
+    IF v_qty IS NULL OR v_qty <= 0 THEN
+      RAISE EXCEPTION 'Received quantities must be greater than zero';
+    END IF;
+    SELECT * INTO v_line FROM purchase_order_lines
+    WHERE id = (v_entry->>'line_id')::UUID AND purchase_order_id = p_po_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line is not on this purchase order';
+    END IF;
+    v_cost := COALESCE((v_entry->>'unit_cost')::NUMERIC, v_line.unit_cost);
+    IF v_cost < 0 THEN
+      RAISE EXCEPTION 'Unit cost can''t be negative';
+    END IF;
+    v_total_value := v_total_value + v_qty * v_cost;
+    v_total_qty := v_total_qty + v_qty;
+  END LOOP;
+
+  INSERT INTO purchase_order_receipts (tenant_id, purchase_order_id, shipping_cost, updated_costs, notes, received_by)
+  VALUES (v_po.tenant_id, p_po_id, COALESCE(p_shipping_cost, 0), p_update_costs, p_notes, auth.uid())
+  RETURNING id INTO v_receipt_id;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    SELECT * INTO v_line FROM purchase_order_lines
+    WHERE id = (v_entry->>'line_id')::UUID FOR UPDATE;
+    v_qty := (v_entry->>'quantity')::NUMERIC;
+    v_cost := COALESCE((v_entry->>'unit_cost')::NUMERIC, v_line.unit_cost);
+
+    -- Landed cost: this line's share of shipping, per unit
+    IF COALESCE(p_shipping_cost, 0) > 0 AND v_total_value > 0 THEN
+      v_landed := v_cost + (p_shipping_cost * (v_qty * v_cost) / v_total_value) / v_qty;
+    ELSIF COALESCE(p_shipping_cost, 0) > 0 THEN
+      v_landed := v_cost + p_shipping_cost / v_total_qty;
+    ELSE
+      v_landed := v_cost;
+    END IF;
+    v_landed := ROUND(v_landed, 4);
+
+    IF v_line.inventory_variant_id IS NOT NULL THEN
+      UPDATE inventory_item_variants
+      SET quantity_on_hand = quantity_on_hand + v_qty,
+          cost_per_unit = CASE WHEN p_update_costs THEN v_landed ELSE cost_per_unit END,
+          updated_at = NOW()
+      WHERE id = v_line.inventory_variant_id;
+
+      UPDATE inventory_items
+      SET quantity_on_hand = (
+            SELECT COALESCE(SUM(quantity_on_hand), 0)
+            FROM inventory_item_variants
+            WHERE inventory_item_id = v_line.inventory_item_id AND is_active = true
+          ),
+          updated_at = NOW()
+      WHERE id = v_line.inventory_item_id;
+    ELSE
+      UPDATE inventory_items
+      SET quantity_on_hand = quantity_on_hand + v_qty,
+          cost_per_unit = CASE WHEN p_update_costs THEN v_landed ELSE cost_per_unit END,
+          updated_at = NOW()
+      WHERE id = v_line.inventory_item_id;
+    END IF;
+
+    INSERT INTO inventory_movements (
+      tenant_id, inventory_item_id, inventory_variant_id, movement_type,
+      quantity, reference_id, notes, performed_by
+    ) VALUES (
+      v_po.tenant_id,
+      v_line.inventory_item_id,
+      v_line.inventory_variant_id,
+      'restock'::movement_type,
+      v_qty,
+      v_receipt_id,
+      'Received on ' || v_po.po_number,
+      auth.uid()
+    )
+    RETURNING id INTO v_movement_id;
+
+    INSERT INTO purchase_order_receipt_lines (
+      tenant_id, receipt_id, line_id, quantity, unit_cost, landed_unit_cost, movement_id
+    ) VALUES (
+      v_po.tenant_id, v_receipt_id, v_line.id, v_qty, v_cost, v_landed, v_movement_id
+    );
+
+    UPDATE purchase_order_lines
+    SET quantity_received = quantity_received + v_qty
+    WHERE id = v_line.id;
+
+    v_received := v_received + 1;
+    v_value := v_value + v_qty * v_landed;
+  END LOOP;
+
+  v_status := CASE
+    WHEN EXISTS (
+      SELECT 1 FROM purchase_order_lines
+      WHERE purchase_order_id = p_po_id AND quantity_received < quantity_ordered
+    ) THEN 'partially_received'
+    ELSE 'received'
+  END;
+
+  UPDATE purchase_orders
+  SET status = v_status,
+      received_at = CASE WHEN v_status = 'received' THEN NOW() ELSE received_at END,
+      updated_at = NOW()
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object(
+    'receipt_id', v_receipt_id,
+    'received', v_received,
+    'landed_value', ROUND(v_value, 2),
+    'status', v_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,614 @@
+-- ============================================================================
+-- Migration 087: Cost Layers (FIFO / Weighted-Average COGS)
+-- ============================================================================
+-- Every restock opens a cost layer (a lot) with its own quantity and unit
+-- cost; stock leaving consumes layers so COGS reflects what the stock
+-- actually cost rather than whatever cost_per_unit says today.
+--
+--   fifo    — oldest layers are consumed first
+--   average — every open layer is drawn down proportionally, so each unit
+--             leaves at the moving weighted-average cost
+--
+-- Stock not covered by any layer (edits made before this migration, or
+-- writers that don't log movements) is costed at cost_per_unit.
+--
+-- Movements drive the layers through a trigger:
+--   positive restock/adjustment → new layer at movement.unit_cost
+--                                 (carrying cost when the caller gave none)
+--   negative sale/waste/adjustment → consume, and record the consumed
+--                                 unit cost on the movement
+-- A negative movement that already carries unit_cost was costed by the
+-- caller (create_sale_transaction) and is left alone. Transfers only move
+-- stock between locations and never touch layers.
+--
+-- sale_items.cost_snapshot holds the consumed cost of the line's own
+-- inventory; jump rings keep their separate jump_ring_cost snapshot.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Columns
+-- ============================================================================
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS costing_method TEXT NOT NULL DEFAULT 'fifo'
+  CHECK (costing_method IN ('fifo', 'average'));
+
+ALTER TABLE sale_items ADD COLUMN IF NOT EXISTS cost_snapshot NUMERIC(12,4);
+
+-- Restocks: the cost of the new lot. Outgoing: the consumed cost per unit.
+ALTER TABLE inventory_movements ADD COLUMN IF NOT EXISTS unit_cost NUMERIC(12,4);
+
+-- ============================================================================
+-- 2. Layers
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS inventory_cost_layers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  inventory_item_id UUID NOT NULL REFERENCES inventory_items(id) ON DELETE CASCADE,
+  inventory_variant_id UUID REFERENCES inventory_item_variants(id) ON DELETE CASCADE,
+  -- The restock movement that opened the layer (written from a BEFORE
+  -- INSERT trigger, so not a foreign key). NULL for opening balances.
+  movement_id UUID,
+  source TEXT NOT NULL DEFAULT 'restock',
+  quantity_received NUMERIC(12,4) NOT NULL CHECK (quantity_received > 0),
+  quantity_remaining NUMERIC(12,4) NOT NULL CHECK (quantity_remaining >= 0),
+  unit_cost NUMERIC(12,4) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_layers_tenant ON inventory_cost_layers(tenant_id);
+CREATE INDEX IF NOT EXISTS idx_cost_layers_open
+  ON inventory_cost_layers(inventory_item_id, inventory_variant_id, received_at)
+  WHERE quantity_remaining > 0;
+
+ALTER TABLE inventory_cost_layers ENABLE ROW LEVEL SECURITY;
+
+-- Written only by the definer functions below
+DROP POLICY IF EXISTS "Tenant select" ON inventory_cost_layers;
+CREATE POLICY "Tenant select" ON inventory_cost_layers FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+-- ============================================================================
+-- 3. Carrying cost — what a unit on the shelf is worth right now
+-- ============================================================================
+-- Weighted average of the open layers, else the variant's cost_per_unit,
+-- else the item's.
+
+CREATE OR REPLACE FUNCTION inventory_carrying_cost(p_item_id UUID, p_variant_id UUID)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_cost NUMERIC;
+BEGIN
+  SELECT SUM(quantity_remaining * unit_cost) / NULLIF(SUM(quantity_remaining), 0)
+  INTO v_cost
+  FROM inventory_cost_layers
+  WHERE inventory_item_id = p_item_id
+    AND inventory_variant_id IS NOT DISTINCT FROM p_variant_id
+    AND quantity_remaining > 0;
+
+  IF v_cost IS NULL AND p_variant_id IS NOT NULL THEN
+    SELECT NULLIF(cost_per_unit, 0) INTO v_cost
+    FROM inventory_item_variants WHERE id = p_variant_id;
+  END IF;
+
+  IF v_cost IS NULL THEN
+    SELECT cost_per_unit INTO v_cost FROM inventory_items WHERE id = p_item_id;
+  END IF;
+
+  RETURN ROUND(COALESCE(v_cost, 0), 4);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 4. consume_cost_layers — take stock out, return what it cost
+-- ============================================================================
+-- Uses the tenant's costing_method. Any quantity beyond the open layers is
+-- costed at cost_per_unit.
+
+CREATE OR REPLACE FUNCTION consume_cost_layers(
+  p_tenant_id UUID,
+  p_item_id UUID,
+  p_variant_id UUID,
+  p_quantity NUMERIC
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_method TEXT;
+  v_left NUMERIC := p_quantity;
+  v_cost NUMERIC := 0;
+  v_take NUMERIC;
+  v_open NUMERIC;
+  v_open_value NUMERIC;
+  v_fallback NUMERIC;
+  v_layer RECORD;
+BEGIN
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  SELECT costing_method INTO v_method FROM tenants WHERE id = p_tenant_id;
+
+  IF v_method = 'average' THEN
+    SELECT SUM(quantity_remaining), SUM(quantity_remaining * unit_cost)
+    INTO v_open, v_open_value
+    FROM inventory_cost_layers
+    WHERE inventory_item_id = p_item_id
+      AND inventory_variant_id IS NOT DISTINCT FROM p_variant_id
+      AND quantity_remaining > 0;
+
+    IF COALESCE(v_open, 0) > 0 THEN
+      v_take := LEAST(v_left, v_open);
+      v_cost := v_open_value * v_take / v_open;
+
+      UPDATE inventory_cost_layers
+      SET quantity_remaining = ROUND(quantity_remaining * (1 - v_take / v_open), 4)
+      WHERE inventory_item_id = p_item_id
+        AND inventory_variant_id IS NOT DISTINCT FROM p_variant_id
+        AND quantity_remaining > 0;
+
+      v_left := v_left - v_take;
+    END IF;
+  ELSE
+    FOR v_layer IN
+      SELECT id, quantity_remaining, unit_cost
+      FROM inventory_cost_layers
+      WHERE inventory_item_id = p_item_id
+        AND inventory_variant_id IS NOT DISTINCT FROM p_variant_id
+        AND quantity_remaining > 0
+      ORDER BY received_at, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_left <= 0;
+      v_take := LEAST(v_left, v_layer.quantity_remaining);
+
+      UPDATE inventory_cost_layers
+      SET quantity_remaining = quantity_remaining - v_take
+      WHERE id = v_layer.id;
+
+      v_cost := v_cost + v_take * v_layer.unit_cost;
+      v_left := v_left - v_take;
+    END LOOP;
+  END IF;
+
+  IF v_left > 0 THEN
+    IF p_variant_id IS NOT NULL THEN
+      SELECT NULLIF(cost_per_unit, 0) INTO v_fallback
+      FROM inventory_item_variants WHERE id = p_variant_id;
+    END IF;
+    IF v_fallback IS NULL THEN
+      SELECT cost_per_unit INTO v_fallback FROM inventory_items WHERE id = p_item_id;
+    END IF;
+    v_cost := v_cost + v_left * COALESCE(v_fallback, 0);
+  END IF;
+
+  RETURN ROUND(v_cost, 4);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called from the definer functions here and by the service role (Stripe
+-- webhook) — not directly by clients, who could otherwise drain layers
+REVOKE EXECUTE ON FUNCTION consume_cost_layers(UUID, UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 5. Movement → layers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION apply_movement_cost()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_cost NUMERIC;
+BEGIN
+  IF NEW.movement_type = 'transfer' OR NEW.quantity = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.quantity > 0 THEN
+    IF NEW.unit_cost IS NULL THEN
+      NEW.unit_cost := inventory_carrying_cost(NEW.inventory_item_id, NEW.inventory_variant_id);
+    END IF;
+
+    INSERT INTO inventory_cost_layers (
+      tenant_id, inventory_item_id, inventory_variant_id, movement_id, source,
+      quantity_received, quantity_remaining, unit_cost, received_at
+    ) VALUES (
+      NEW.tenant_id, NEW.inventory_item_id, NEW.inventory_variant_id, NEW.id, NEW.movement_type::TEXT,
+      NEW.quantity, NEW.quantity, GREATEST(NEW.unit_cost, 0), COALESCE(NEW.created_at, NOW())
+    );
+  ELSIF NEW.unit_cost IS NULL THEN
+    v_cost := consume_cost_layers(NEW.tenant_id, NEW.inventory_item_id, NEW.inventory_variant_id, -NEW.quantity);
+    NEW.unit_cost := ROUND(v_cost / -NEW.quantity, 4);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS inventory_movement_cost ON inventory_movements;
+CREATE TRIGGER inventory_movement_cost
+  BEFORE INSERT ON inventory_movements
+  FOR EACH ROW EXECUTE FUNCTION apply_movement_cost();
+
+-- ============================================================================
+-- 6. Opening layers for stock already on hand
+-- ============================================================================
+
+INSERT INTO inventory_cost_layers (
+  tenant_id, inventory_item_id, inventory_variant_id, source,
+  quantity_received, quantity_remaining, unit_cost
+)
+SELECT i.tenant_id, i.id, NULL, 'opening', i.quantity_on_hand, i.quantity_on_hand, GREATEST(i.cost_per_unit, 0)
+FROM inventory_items i
+WHERE NOT i.has_variants
+  AND i.quantity_on_hand > 0
+  AND NOT EXISTS (SELECT 1 FROM inventory_cost_layers l WHERE l.inventory_item_id = i.id);
+
+INSERT INTO inventory_cost_layers (
+  tenant_id, inventory_item_id, inventory_variant_id, source,
+  quantity_received, quantity_remaining, unit_cost
+)
+SELECT i.tenant_id, i.id, v.id, 'opening', v.quantity_on_hand, v.quantity_on_hand,
+       GREATEST(COALESCE(NULLIF(v.cost_per_unit, 0), i.cost_per_unit), 0)
+FROM inventory_item_variants v
+JOIN inventory_items i ON i.id = v.inventory_item_id
+WHERE v.quantity_on_hand > 0
+  AND NOT EXISTS (SELECT 1 FROM inventory_cost_layers l WHERE l.inventory_variant_id = v.id);
+
+-- ============================================================================
+-- 7. create_sale_transaction — cost each deduction from the layers
+-- ============================================================================
+-- Same signature as 076. POS sales don't log movements, so the sale costs
+-- its own deductions rather than relying on the movement trigger.
+
+CREATE OR REPLACE FUNCTION create_sale_transaction(
+  p_tenant_id UUID,
+  p_event_id UUID,
+  p_client_id UUID,
+  p_subtotal NUMERIC,
+  p_discount_amount NUMERIC,
+  p_tax_amount NUMERIC,
+  p_tip_amount NUMERIC,
+  p_platform_fee_amount NUMERIC,
+  p_total NUMERIC,
+  p_payment_method TEXT,
+  p_payment_status TEXT,
+  p_payment_provider TEXT,
+  p_platform_fee_rate NUMERIC,
+  p_fee_handling TEXT,
+  p_status TEXT,
+  p_receipt_email TEXT,
+  p_receipt_phone TEXT,
+  p_notes TEXT,
+  p_completed_by UUID,
+  p_items JSONB,
+  p_inventory_deductions JSONB,
+  p_queue_entry_id UUID DEFAULT NULL,
+  p_client_sale_id UUID DEFAULT NULL,
+  p_created_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  new_sale_id UUID;
+  item JSONB;
+  deduction JSONB;
+  v_variant_id UUID;
+  parent_qty NUMERIC;
+  v_amount NUMERIC;
+  v_cost NUMERIC;
+BEGIN
+  -- Auth check
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Tenant membership check
+  IF NOT EXISTS (
+    SELECT 1 FROM tenant_members
+    WHERE user_id = auth.uid() AND tenant_id = p_tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this tenant';
+  END IF;
+
+  -- Idempotency: a replayed offline sale returns the sale it already created
+  IF p_client_sale_id IS NOT NULL THEN
+    SELECT id INTO new_sale_id
+    FROM sales
+    WHERE tenant_id = p_tenant_id AND client_sale_id = p_client_sale_id;
+
+    IF new_sale_id IS NOT NULL THEN
+      RETURN new_sale_id;
+    END IF;
+  END IF;
+
+  -- 1. Insert sale
+  INSERT INTO sales (
+    tenant_id, event_id, client_id,
+    subtotal, discount_amount, tax_amount, tip_amount,
+    platform_fee_amount, total,
+    payment_method, payment_status, payment_provider,
+    platform_fee_rate, fee_handling,
+    status, receipt_email, receipt_phone, notes, completed_by,
+    client_sale_id, created_at
+  ) VALUES (
+    p_tenant_id, p_event_id, p_client_id,
+    p_subtotal, p_discount_amount, p_tax_amount, p_tip_amount,
+    p_platform_fee_amount, p_total,
+    p_payment_method::payment_method, p_payment_status::payment_status, p_payment_provider,
+    p_platform_fee_rate,
+    CASE WHEN p_fee_handling IS NOT NULL AND p_fee_handling != '' THEN p_fee_handling::fee_handling ELSE NULL END,
+    p_status::sale_status, p_receipt_email, p_receipt_phone, p_notes, p_completed_by,
+    p_client_sale_id, COALESCE(p_created_at, NOW())
+  ) RETURNING id INTO new_sale_id;
+
+  -- 2. Insert sale items
+  FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    INSERT INTO sale_items (
+      sale_id, tenant_id, inventory_item_id, inventory_variant_id, name,
+      quantity, unit_price, discount_type, discount_value,
+      line_total, product_type_id, product_type_name,
+      inches_used, jump_ring_cost
+    ) VALUES (
+      new_sale_id, p_tenant_id,
+      NULLIF(item->>'inventory_item_id', '')::UUID,
+      NULLIF(item->>'inventory_variant_id', '')::UUID,
+      item->>'name',
+      (item->>'quantity')::NUMERIC,
+      (item->>'unit_price')::NUMERIC,
+      NULLIF(item->>'discount_type', ''),
+      COALESCE((item->>'discount_value')::NUMERIC, 0),
+      (item->>'line_total')::NUMERIC,
+      NULLIF(item->>'product_type_id', '')::UUID,
+      NULLIF(item->>'product_type_name', ''),
+      (item->>'inches_used')::NUMERIC,
+      (item->>'jump_ring_cost')::NUMERIC
+    );
+  END LOOP;
+
+  -- 3. Atomic inventory deductions (variant-aware, floors at 0), costed
+  --    from the cost layers
+  FOR deduction IN SELECT * FROM jsonb_array_elements(p_inventory_deductions)
+  LOOP
+    v_variant_id := NULLIF(deduction->>'variant_id', '')::UUID;
+
+    IF v_variant_id IS NOT NULL THEN
+      -- Deduct from variant
+      UPDATE inventory_item_variants
+      SET quantity_on_hand = GREATEST(quantity_on_hand - (deduction->>'amount')::NUMERIC, 0),
+          updated_at = NOW()
+      WHERE id = v_variant_id
+        AND inventory_item_id = (deduction->>'item_id')::UUID;
+
+      -- Recalc parent quantity_on_hand = SUM of active variants
+      SELECT COALESCE(SUM(quantity_on_hand), 0) INTO parent_qty
+      FROM inventory_item_variants
+      WHERE inventory_item_id = (deduction->>'item_id')::UUID AND is_active = true;
+
+      UPDATE inventory_items
+      SET quantity_on_hand = parent_qty, updated_at = NOW()
+      WHERE id = (deduction->>'item_id')::UUID
+        AND tenant_id = p_tenant_id;
+    ELSE
+      -- Original behavior: deduct from parent item directly
+      UPDATE inventory_items
+      SET quantity_on_hand = GREATEST(quantity_on_hand - (deduction->>'amount')::NUMERIC, 0),
+          updated_at = NOW()
+      WHERE id = (deduction->>'item_id')::UUID
+        AND tenant_id = p_tenant_id;
+    END IF;
+
+    -- Consume cost layers and spread the cost over the matching lines
+    v_amount := (deduction->>'amount')::NUMERIC;
+    v_cost := consume_cost_layers(p_tenant_id, (deduction->>'item_id')::UUID, v_variant_id, v_amount);
+
+    UPDATE sale_items si
+    SET cost_snapshot = ROUND(COALESCE(si.cost_snapshot, 0) + v_cost * w.weight / w.total, 4)
+    FROM (
+      SELECT id,
+             COALESCE(NULLIF(inches_used, 0) * quantity, quantity) AS weight,
+             SUM(COALESCE(NULLIF(inches_used, 0) * quantity, quantity)) OVER () AS total
+      FROM sale_items
+      WHERE sale_id = new_sale_id
+        AND inventory_item_id = (deduction->>'item_id')::UUID
+        AND inventory_variant_id IS NOT DISTINCT FROM v_variant_id
+    ) w
+    WHERE si.id = w.id AND w.total > 0;
+
+    -- Optionally log inventory movement (already costed, so the trigger
+    -- leaves the layers alone)
+    IF (deduction->>'log_movement')::BOOLEAN IS TRUE THEN
+      INSERT INTO inventory_movements (
+        tenant_id, inventory_item_id, inventory_variant_id, movement_type,
+        quantity, reference_id, notes, performed_by, unit_cost
+      ) VALUES (
+        p_tenant_id,
+        (deduction->>'item_id')::UUID,
+        v_variant_id,
+        'sale'::movement_type,
+        -(deduction->>'amount')::NUMERIC,
+        new_sale_id,
+        deduction->>'notes',
+        NULLIF(deduction->>'performed_by', '')::UUID,
+        CASE WHEN v_amount > 0 THEN ROUND(v_cost / v_amount, 4) END
+      );
+    END IF;
+  END LOOP;
+
+  -- 4. Update queue entry if provided
+  IF p_queue_entry_id IS NOT NULL THEN
+    UPDATE queue_entries
+    SET status = 'served', served_at = NOW(), updated_at = NOW()
+    WHERE id = p_queue_entry_id AND tenant_id = p_tenant_id;
+  END IF;
+
+  RETURN new_sale_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 8. receive_purchase_order — open each layer at the landed cost
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_po_id UUID,
+  p_lines JSONB,
+  p_shipping_cost NUMERIC DEFAULT 0,
+  p_update_costs BOOLEAN DEFAULT false,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_receipt_id UUID;
+  v_entry JSONB;
+  v_line purchase_order_lines%ROWTYPE;
+  v_qty NUMERIC;
+  v_cost NUMERIC;
+  v_landed NUMERIC;
+  v_total_value NUMERIC := 0;
+  v_total_qty NUMERIC := 0;
+  v_movement_id UUID;
+  v_received INT := 0;
+  v_value NUMERIC := 0;
+  v_status TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM tenant_members
+    WHERE user_id = auth.uid() AND tenant_id = v_po.tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this tenant';
+  END IF;
+
+  IF v_po.status NOT IN ('draft', 'sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order is already %', replace(v_po.status, '_', ' ');
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Nothing to receive';
+  END IF;
+
+  -- First pass: validate and total up for the shipping split
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_qty := (v_entry->>'quantity')::NUMERIC;
+    IF v_qty IS NULL OR v_qty <= 0 THEN
+      RAISE EXCEPTION 'Received quantities must be greater than zero';
+    END IF;
+    SELECT * INTO v_line FROM purchase_order_lines
+    WHERE id = (v_entry->>'line_id')::UUID AND purchase_order_id = p_po_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line is not on this purchase order';
+    END IF;
+    v_cost := COALESCE((v_entry->>'unit_cost')::NUMERIC, v_line.unit_cost);
+    IF v_cost < 0 THEN
+      RAISE EXCEPTION 'Unit cost can''t be negative';
+    END IF;
+    v_total_value := v_total_value + v_qty * v_cost;
+    v_total_qty := v_total_qty + v_qty;
+  END LOOP;
+
+  INSERT INTO purchase_order_receipts (tenant_id, purchase_order_id, shipping_cost, updated_costs, notes, received_by)
+  VALUES (v_po.tenant_id, p_po_id, COALESCE(p_shipping_cost, 0), p_update_costs, p_notes, auth.uid())
+  RETURNING id INTO v_receipt_id;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    SELECT * INTO v_line FROM purchase_order_lines
+    WHERE id = (v_entry->>'line_id')::UUID FOR UPDATE;
+    v_qty := (v_entry->>'quantity')::NUMERIC;
+    v_cost := COALESCE((v_entry->>'unit_cost')::NUMERIC, v_line.unit_cost);
+
+    -- Landed cost: this line's share of shipping, per unit
+    IF COALESCE(p_shipping_cost, 0) > 0 AND v_total_value > 0 THEN
+      v_landed := v_cost + (p_shipping_cost * (v_qty * v_cost) / v_total_value) / v_qty;
+    ELSIF COALESCE(p_shipping_cost, 0) > 0 THEN
+      v_landed := v_cost + p_shipping_cost / v_total_qty;
+    ELSE
+      v_landed := v_cost;
+    END IF;
+    v_landed := ROUND(v_landed, 4);
+
+    IF v_line.inventory_variant_id IS NOT NULL THEN
+      UPDATE inventory_item_variants
+      SET quantity_on_hand = quantity_on_hand + v_qty,
+          cost_per_unit = CASE WHEN p_update_costs THEN v_landed ELSE cost_per_unit END,
+          updated_at = NOW()
+      WHERE id = v_line.inventory_variant_id;
+
+      UPDATE inventory_items
+      SET quantity_on_hand = (
+            SELECT COALESCE(SUM(quantity_on_hand), 0)
+            FROM inventory_item_variants
+            WHERE inventory_item_id = v_line.inventory_item_id AND is_active = true
+          ),
+          updated_at = NOW()
+      WHERE id = v_line.inventory_item_id;
+    ELSE
+      UPDATE inventory_items
+      SET quantity_on_hand = quantity_on_hand + v_qty,
+          cost_per_unit = CASE WHEN p_update_costs THEN v_landed ELSE cost_per_unit END,
+          updated_at = NOW()
+      WHERE id = v_line.inventory_item_id;
+    END IF;
+
+    INSERT INTO inventory_movements (
+      tenant_id, inventory_item_id, inventory_variant_id, movement_type,
+      quantity, reference_id, notes, performed_by, unit_cost
+    ) VALUES (
+      v_po.tenant_id,
+      v_line.inventory_item_id,
+      v_line.inventory_variant_id,
+      'restock'::movement_type,
+      v_qty,
+      v_receipt_id,
+      'Received on ' || v_po.po_number,
+      auth.uid(),
+      v_landed
+    )
+    RETURNING id INTO v_movement_id;
+
+    INSERT INTO purchase_order_receipt_lines (
+      tenant_id, receipt_id, line_id, quantity, unit_cost, landed_unit_cost, movement_id
+    ) VALUES (
+      v_po.tenant_id, v_receipt_id, v_line.id, v_qty, v_cost, v_landed, v_movement_id
+    );
+
+    UPDATE purchase_order_lines
+    SET quantity_received = quantity_received + v_qty
+    WHERE id = v_line.id;
+
+    v_received := v_received + 1;
+    v_value := v_value + v_qty * v_landed;
+  END LOOP;
+
+  v_status := CASE
+    WHEN EXISTS (
+      SELECT 1 FROM purchase_order_lines
+      WHERE purchase_order_id = p_po_id AND quantity_received < quantity_ordered
+    ) THEN 'partially_received'
+    ELSE 'received'
+  END;
+
+  UPDATE purchase_orders
+  SET status = v_status,
+      received_at = CASE WHEN v_status = 'received' THEN NOW() ELSE received_at END,
+      updated_at = NOW()
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object(
+    'receipt_id', v_receipt_id,
+    'received', v_received,
+    'landed_value', ROUND(v_value, 2),
+    'status', v_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,364 @@
+-- ============================================================================
+-- Migration 088: Sales Tax Jurisdictions
+-- ============================================================================
+-- A tax profile is now made of named components — state, county, city and
+-- special-district rates — so artists who travel can file each jurisdiction
+-- separately. tax_profiles.rate stays the combined rate (kept in sync from
+-- the components) so everything that only reads the rate keeps working; a
+-- profile without components is a single flat rate as before.
+--
+-- Also:
+--   product_types.tax_exempt — lines of that type stay out of the taxable base
+--   tenants.tax_inclusive    — menu prices already include tax; the tax is
+--                              backed out of the price instead of added on
+--   sale_tax_lines           — what each sale collected per component, the
+--                              source of the sales-tax filing report
+--
+-- Events already pick a tax profile, which is how per-location rules apply.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Columns
+-- ============================================================================
+
+-- Room for rates like 0.125% (0.00125)
+ALTER TABLE tax_profiles ALTER COLUMN rate TYPE NUMERIC(8,6);
+
+ALTER TABLE product_types ADD COLUMN IF NOT EXISTS tax_exempt BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS tax_profile_id UUID REFERENCES tax_profiles(id) ON DELETE SET NULL;
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS tax_inclusive BOOLEAN NOT NULL DEFAULT false;
+
+-- ============================================================================
+-- 2. Tax profile components
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS tax_profile_components (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  tax_profile_id UUID NOT NULL REFERENCES tax_profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  jurisdiction_type TEXT NOT NULL DEFAULT 'state'
+    CHECK (jurisdiction_type IN ('state', 'county', 'city', 'district', 'other')),
+  rate NUMERIC(8,6) NOT NULL CHECK (rate >= 0),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_components_profile ON tax_profile_components(tax_profile_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_tax_components_tenant ON tax_profile_components(tenant_id);
+
+ALTER TABLE tax_profile_components ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant select" ON tax_profile_components;
+CREATE POLICY "Tenant select" ON tax_profile_components FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant insert" ON tax_profile_components;
+CREATE POLICY "Tenant insert" ON tax_profile_components FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant update" ON tax_profile_components;
+CREATE POLICY "Tenant update" ON tax_profile_components FOR UPDATE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+DROP POLICY IF EXISTS "Tenant delete" ON tax_profile_components;
+CREATE POLICY "Tenant delete" ON tax_profile_components FOR DELETE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+DROP TRIGGER IF EXISTS set_updated_at ON tax_profile_components;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON tax_profile_components
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- Keep the profile's combined rate equal to the sum of its components.
+-- Removing the last component leaves the rate as it was (a flat profile).
+CREATE OR REPLACE FUNCTION sync_tax_profile_rate()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_profile_id UUID;
+BEGIN
+  v_profile_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.tax_profile_id ELSE NEW.tax_profile_id END;
+
+  UPDATE tax_profiles
+  SET rate = sums.total
+  FROM (
+    SELECT SUM(rate) AS total
+    FROM tax_profile_components
+    WHERE tax_profile_id = v_profile_id
+  ) sums
+  WHERE tax_profiles.id = v_profile_id
+    AND sums.total IS NOT NULL;
+
+  IF TG_OP = 'UPDATE' AND OLD.tax_profile_id IS DISTINCT FROM NEW.tax_profile_id THEN
+    UPDATE tax_profiles
+    SET rate = sums.total
+    FROM (
+      SELECT SUM(rate) AS total
+      FROM tax_profile_components
+      WHERE tax_profile_id = OLD.tax_profile_id
+    ) sums
+    WHERE tax_profiles.id = OLD.tax_profile_id
+      AND sums.total IS NOT NULL;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS tax_profile_components_sync_rate ON tax_profile_components;
+CREATE TRIGGER tax_profile_components_sync_rate
+  AFTER INSERT OR UPDATE OR DELETE ON tax_profile_components
+  FOR EACH ROW EXECUTE FUNCTION sync_tax_profile_rate();
+
+-- ============================================================================
+-- 3. Tax collected per sale and jurisdiction
+-- ============================================================================
+-- Name, type and rate are snapshotted so editing a profile later doesn't
+-- rewrite past filings.
+
+CREATE TABLE IF NOT EXISTS sale_tax_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  tax_profile_id UUID REFERENCES tax_profiles(id) ON DELETE SET NULL,
+  tax_component_id UUID REFERENCES tax_profile_components(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  jurisdiction_type TEXT NOT NULL DEFAULT 'other',
+  rate NUMERIC(8,6) NOT NULL DEFAULT 0,
+  taxable_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  tax_amount NUMERIC(10,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_tax_lines_sale ON sale_tax_lines(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_tax_lines_tenant ON sale_tax_lines(tenant_id, created_at);
+
+ALTER TABLE sale_tax_lines ENABLE ROW LEVEL SECURITY;
+
+-- Written by create_sale_transaction
+DROP POLICY IF EXISTS "Tenant select" ON sale_tax_lines;
+CREATE POLICY "Tenant select" ON sale_tax_lines FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+-- ============================================================================
+-- 4. create_sale_transaction — record the tax profile and per-component tax
+-- ============================================================================
+-- Three trailing parameters, all defaulted, so callers that don't send tax
+-- lines keep working. Drop the 076/087 signature first so PostgREST doesn't
+-- see two overloads.
+
+DROP FUNCTION IF EXISTS public.create_sale_transaction(
+  uuid, uuid, uuid, numeric, numeric, numeric, numeric, numeric, numeric,
+  text, text, text, numeric, text, text, text, text, text, uuid, jsonb,
+  jsonb, uuid, uuid, timestamptz
+);
+
+CREATE OR REPLACE FUNCTION create_sale_transaction(
+  p_tenant_id UUID,
+  p_event_id UUID,
+  p_client_id UUID,
+  p_subtotal NUMERIC,
+  p_discount_amount NUMERIC,
+  p_tax_amount NUMERIC,
+  p_tip_amount NUMERIC,
+  p_platform_fee_amount NUMERIC,
+  p_total NUMERIC,
+  p_payment_method TEXT,
+  p_payment_status TEXT,
+  p_payment_provider TEXT,
+  p_platform_fee_rate NUMERIC,
+  p_fee_handling TEXT,
+  p_status TEXT,
+  p_receipt_email TEXT,
+  p_receipt_phone TEXT,
+  p_notes TEXT,
+  p_completed_by UUID,
+  p_items JSONB,
+  p_inventory_deductions JSONB,
+  p_queue_entry_id UUID DEFAULT NULL,
+  p_client_sale_id UUID DEFAULT NULL,
+  p_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_tax_profile_id UUID DEFAULT NULL,
+  p_tax_inclusive BOOLEAN DEFAULT false,
+  p_tax_lines JSONB DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  new_sale_id UUID;
+  item JSONB;
+  deduction JSONB;
+  v_variant_id UUID;
+  parent_qty NUMERIC;
+  v_amount NUMERIC;
+  v_cost NUMERIC;
+  tax_line JSONB;
+BEGIN
+  -- Auth check
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Tenant membership check
+  IF NOT EXISTS (
+    SELECT 1 FROM tenant_members
+    WHERE user_id = auth.uid() AND tenant_id = p_tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this tenant';
+  END IF;
+
+  -- Idempotency: a replayed offline sale returns the sale it already created
+  IF p_client_sale_id IS NOT NULL THEN
+    SELECT id INTO new_sale_id
+    FROM sales
+    WHERE tenant_id = p_tenant_id AND client_sale_id = p_client_sale_id;
+
+    IF new_sale_id IS NOT NULL THEN
+      RETURN new_sale_id;
+    END IF;
+  END IF;
+
+  -- 1. Insert sale
+  INSERT INTO sales (
+    tenant_id, event_id, client_id,
+    subtotal, discount_amount, tax_amount, tip_amount,
+    platform_fee_amount, total,
+    payment_method, payment_status, payment_provider,
+    platform_fee_rate, fee_handling,
+    status, receipt_email, receipt_phone, notes, completed_by,
+    client_sale_id, created_at, tax_profile_id, tax_inclusive
+  ) VALUES (
+    p_tenant_id, p_event_id, p_client_id,
+    p_subtotal, p_discount_amount, p_tax_amount, p_tip_amount,
+    p_platform_fee_amount, p_total,
+    p_payment_method::payment_method, p_payment_status::payment_status, p_payment_provider,
+    p_platform_fee_rate,
+    CASE WHEN p_fee_handling IS NOT NULL AND p_fee_handling != '' THEN p_fee_handling::fee_handling ELSE NULL END,
+    p_status::sale_status, p_receipt_email, p_receipt_phone, p_notes, p_completed_by,
+    p_client_sale_id, COALESCE(p_created_at, NOW()), p_tax_profile_id, COALESCE(p_tax_inclusive, false)
+  ) RETURNING id INTO new_sale_id;
+
+  -- 2. Insert sale items
+  FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    INSERT INTO sale_items (
+      sale_id, tenant_id, inventory_item_id, inventory_variant_id, name,
+      quantity, unit_price, discount_type, discount_value,
+      line_total, product_type_id, product_type_name,
+      inches_used, jump_ring_cost
+    ) VALUES (
+      new_sale_id, p_tenant_id,
+      NULLIF(item->>'inventory_item_id', '')::UUID,
+      NULLIF(item->>'inventory_variant_id', '')::UUID,
+      item->>'name',
+      (item->>'quantity')::NUMERIC,
+      (item->>'unit_price')::NUMERIC,
+      NULLIF(item->>'discount_type', ''),
+      COALESCE((item->>'discount_value')::NUMERIC, 0),
+      (item->>'line_total')::NUMERIC,
+      NULLIF(item->>'product_type_id', '')::UUID,
+      NULLIF(item->>'product_type_name', ''),
+      (item->>'inches_used')::NUMERIC,
+      (item->>'jump_ring_cost')::NUMERIC
+    );
+  END LOOP;
+
+  -- 3. Atomic inventory deductions (variant-aware, floors at 0), costed
+  --    from the cost layers
+  FOR deduction IN SELECT * FROM jsonb_array_elements(p_inventory_deductions)
+  LOOP
+    v_variant_id := NULLIF(deduction->>'variant_id', '')::UUID;
+
+    IF v_variant_id IS NOT NULL THEN
+      -- Deduct from variant
+      UPDATE inventory_item_variants
+      SET quantity_on_hand = GREATEST(quantity_on_hand - (deduction->>'amount')::NUMERIC, 0),
+          updated_at = NOW()
+      WHERE id = v_variant_id
+        AND inventory_item_id = (deduction->>'item_id')::UUID;
+
+      -- Recalc parent quantity_on_hand = SUM of active variants
+      SELECT COALESCE(SUM(quantity_on_hand), 0) INTO parent_qty
+      FROM inventory_item_variants
+      WHERE inventory_item_id = (deduction->>'item_id')::UUID AND is_active = true;
+
+      UPDATE inventory_items
+      SET quantity_on_hand = parent_qty, updated_at = NOW()
+      WHERE id = (deduction->>'item_id')::UUID
+        AND tenant_id = p_tenant_id;
+    ELSE
+      -- Original behavior: deduct from parent item directly
+      UPDATE inventory_items
+      SET quantity_on_hand = GREATEST(quantity_on_hand - (deduction->>'amount')::NUMERIC, 0),
+          updated_at = NOW()
+      WHERE id = (deduction->>'item_id')::UUID
+        AND tenant_id = p_tenant_id;
+    END IF;
+
+    -- Consume cost layers and spread the cost over the matching lines
+    v_amount := (deduction->>'amount')::NUMERIC;
+    v_cost := consume_cost_layers(p_tenant_id, (deduction->>'item_id')::UUID, v_variant_id, v_amount);
+
+    UPDATE sale_items si
+    SET cost_snapshot = ROUND(COALESCE(si.cost_snapshot, 0) + v_cost * w.weight / w.total, 4)
+    FROM (
+      SELECT id,
+             COALESCE(NULLIF(inches_used, 0) * quantity, quantity) AS weight,
+             SUM(COALESCE(NULLIF(inches_used, 0) * quantity, quantity)) OVER () AS total
+      FROM sale_items
+      WHERE sale_id = new_sale_id
+        AND inventory_item_id = (deduction->>'item_id')::UUID
+        AND inventory_variant_id IS NOT DISTINCT FROM v_variant_id
+    ) w
+    WHERE si.id = w.id AND w.total > 0;
+
+    -- Optionally log inventory movement (already costed, so the trigger
+    -- leaves the layers alone)
+    IF (deduction->>'log_movement')::BOOLEAN IS TRUE THEN
+      INSERT INTO inventory_movements (
+        tenant_id, inventory_item_id, inventory_variant_id, movement_type,
+        quantity, reference_id, notes, performed_by, unit_cost
+      ) VALUES (
+        p_tenant_id,
+        (deduction->>'item_id')::UUID,
+        v_variant_id,
+        'sale'::movement_type,
+        -(deduction->>'amount')::NUMERIC,
+        new_sale_id,
+        deduction->>'notes',
+        NULLIF(deduction->>'performed_by', '')::UUID,
+        CASE WHEN v_amount > 0 THEN ROUND(v_cost / v_amount, 4) END
+      );
+    END IF;
+  END LOOP;
+
+  -- 4. Tax collected, one line per jurisdiction component
+  IF p_tax_lines IS NOT NULL THEN
+    FOR tax_line IN SELECT * FROM jsonb_array_elements(p_tax_lines)
+    LOOP
+      INSERT INTO sale_tax_lines (
+        tenant_id, sale_id, tax_profile_id, tax_component_id,
+        name, jurisdiction_type, rate, taxable_amount, tax_amount
+      ) VALUES (
+        p_tenant_id, new_sale_id, p_tax_profile_id,
+        NULLIF(tax_line->>'tax_component_id', '')::UUID,
+        COALESCE(NULLIF(tax_line->>'name', ''), 'Sales tax'),
+        COALESCE(NULLIF(tax_line->>'jurisdiction_type', ''), 'other'),
+        COALESCE((tax_line->>'rate')::NUMERIC, 0),
+        COALESCE((tax_line->>'taxable_amount')::NUMERIC, 0),
+        COALESCE((tax_line->>'tax_amount')::NUMERIC, 0)
+      );
+    END LOOP;
+  END IF;
+
+  -- 5. Update queue entry if provided
+  IF p_queue_entry_id IS NOT NULL THEN
+    UPDATE queue_entries
+    SET status = 'served', served_at = NOW(), updated_at = NOW()
+    WHERE id = p_queue_entry_id AND tenant_id = p_tenant_id;
+  END IF;
+
+  RETURN new_sale_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+NOTIFY pgrst, 'reload schema';
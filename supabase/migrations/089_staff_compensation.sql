@@ -0,0 +1,109 @@
+-- ============================================================================
+-- Migration 089: Staff Compensation (Commissions, Tips, Hours)
+-- ============================================================================
+-- Pay tooling for studios with staff. Sales are attributed to the team
+-- member who rang them up (sales.completed_by → tenant_members.user_id).
+--
+--   commission_plans — one per member: percent of revenue, a flat amount
+--                      per piece, or marginal tiers on the pay period's
+--                      revenue. Refunds claw back the commission they undo.
+--   tenants.tip_allocation — who gets tips:
+--       server      — whoever rang up the sale
+--       event_pool  — event tips are pooled and shared by hours worked at
+--                     the event
+--       split       — tip_pool_percent goes to the event pool, the rest to
+--                     the server
+--     Store sales (no event) always tip the server.
+--   staff_hours      — hours worked, per event or store day, used to share
+--                      the tip pool.
+--
+-- Earnings are computed for a pay period in src/lib/payroll.ts, like the
+-- other reports — nothing is posted ahead of time, so plan changes apply
+-- to any period re-run afterwards.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Tip allocation
+-- ============================================================================
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS tip_allocation TEXT NOT NULL DEFAULT 'server'
+  CHECK (tip_allocation IN ('server', 'event_pool', 'split'));
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS tip_pool_percent NUMERIC(5,2) NOT NULL DEFAULT 50
+  CHECK (tip_pool_percent >= 0 AND tip_pool_percent <= 100);
+
+-- ============================================================================
+-- 2. Commission plans
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS commission_plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES tenant_members(id) ON DELETE CASCADE,
+  plan_type TEXT NOT NULL DEFAULT 'percent'
+    CHECK (plan_type IN ('percent', 'per_piece', 'tiered')),
+  -- 'pieces' counts only chain products (lines with a product type)
+  scope TEXT NOT NULL DEFAULT 'all' CHECK (scope IN ('all', 'pieces')),
+  rate NUMERIC(6,4) NOT NULL DEFAULT 0 CHECK (rate >= 0),
+  per_piece_amount NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (per_piece_amount >= 0),
+  -- [{ "from": 0, "rate": 0.05 }, { "from": 2000, "rate": 0.08 }] — each rate
+  -- applies to the period revenue above its threshold
+  tiers JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_plans_tenant ON commission_plans(tenant_id);
+
+ALTER TABLE commission_plans ENABLE ROW LEVEL SECURITY;
+
+-- Pay rates are private: admins manage them, staff see their own earnings
+-- through /api/payroll
+DROP POLICY IF EXISTS "Admins can manage commission plans" ON commission_plans;
+CREATE POLICY "Admins can manage commission plans" ON commission_plans FOR ALL
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM tenant_members WHERE user_id = auth.uid() AND role = 'admin'
+      UNION
+      SELECT id FROM tenants WHERE owner_id = auth.uid()
+    )
+  );
+
+DROP TRIGGER IF EXISTS set_updated_at ON commission_plans;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON commission_plans
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- 3. Hours worked
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS staff_hours (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES tenant_members(id) ON DELETE CASCADE,
+  event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+  work_date DATE NOT NULL,
+  hours NUMERIC(5,2) NOT NULL CHECK (hours > 0 AND hours <= 24),
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_hours_tenant_date ON staff_hours(tenant_id, work_date);
+CREATE INDEX IF NOT EXISTS idx_staff_hours_event ON staff_hours(event_id);
+
+ALTER TABLE staff_hours ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Managers can manage staff hours" ON staff_hours;
+CREATE POLICY "Managers can manage staff hours" ON staff_hours FOR ALL
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM tenant_members WHERE user_id = auth.uid() AND role IN ('admin', 'manager')
+      UNION
+      SELECT id FROM tenants WHERE owner_id = auth.uid()
+    )
+  );
+
+NOTIFY pgrst, 'reload schema';
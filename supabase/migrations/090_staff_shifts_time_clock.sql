@@ -0,0 +1,210 @@
+-- ============================================================================
+-- Migration 090: Staff Shifts & Time Clock
+-- ============================================================================
+-- Scheduling and hours for studios with staff.
+--
+--   staff_shifts   — who is scheduled to work, per event or store day.
+--                    Reminded by push and SMS ahead of the start
+--                    (/api/cron/shift-reminders).
+--   time_entries   — clock-in/clock-out punches from the POS, with break
+--                    time. One open entry per member at a time.
+--
+-- A closed time entry writes its worked hours (less breaks) to staff_hours
+-- (migration 089) through a trigger, so the time clock feeds the same
+-- tip pools and payroll as hours logged by hand. Edits to the entry
+-- re-sync its row; deleting the entry removes it.
+--
+-- Labor cost: staff_hours snapshots the member's hourly rate when the row
+-- is written (commission_plans.hourly_rate), so event P&L can price hours
+-- without reading private pay plans, and later raises don't rewrite past
+-- events.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Hourly rate and reminder phone
+-- ============================================================================
+
+ALTER TABLE commission_plans ADD COLUMN IF NOT EXISTS hourly_rate NUMERIC(10,2) NOT NULL DEFAULT 0
+  CHECK (hourly_rate >= 0);
+
+-- Members add their own number for shift reminder texts
+ALTER TABLE tenant_members ADD COLUMN IF NOT EXISTS phone TEXT;
+
+-- ============================================================================
+-- 2. Shifts
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS staff_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES tenant_members(id) ON DELETE CASCADE,
+  -- NULL = a store day
+  event_id UUID REFERENCES events(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  notes TEXT,
+  reminder_sent_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_shifts_tenant_start ON staff_shifts(tenant_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_staff_shifts_member ON staff_shifts(member_id, starts_at);
+CREATE INDEX IF NOT EXISTS idx_staff_shifts_reminder ON staff_shifts(starts_at) WHERE reminder_sent_at IS NULL;
+
+ALTER TABLE staff_shifts ENABLE ROW LEVEL SECURITY;
+
+-- The whole team can see the schedule; managers build it
+DROP POLICY IF EXISTS "Tenant select" ON staff_shifts;
+CREATE POLICY "Tenant select" ON staff_shifts FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+DROP POLICY IF EXISTS "Managers can manage shifts" ON staff_shifts;
+CREATE POLICY "Managers can manage shifts" ON staff_shifts FOR ALL
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM tenant_members WHERE user_id = auth.uid() AND role IN ('admin', 'manager')
+      UNION
+      SELECT id FROM tenants WHERE owner_id = auth.uid()
+    )
+  );
+
+DROP TRIGGER IF EXISTS set_updated_at ON staff_shifts;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON staff_shifts
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- 3. Time entries
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS time_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  member_id UUID NOT NULL REFERENCES tenant_members(id) ON DELETE CASCADE,
+  shift_id UUID REFERENCES staff_shifts(id) ON DELETE SET NULL,
+  -- NULL = worked the store
+  event_id UUID REFERENCES events(id) ON DELETE SET NULL,
+  clock_in_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  clock_out_at TIMESTAMPTZ,
+  -- Set while on break; ending the break adds to break_minutes
+  break_started_at TIMESTAMPTZ,
+  break_minutes INTEGER NOT NULL DEFAULT 0 CHECK (break_minutes >= 0),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (clock_out_at IS NULL OR clock_out_at > clock_in_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_tenant_in ON time_entries(tenant_id, clock_in_at);
+CREATE INDEX IF NOT EXISTS idx_time_entries_event ON time_entries(event_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_one_open
+  ON time_entries(member_id) WHERE clock_out_at IS NULL;
+
+ALTER TABLE time_entries ENABLE ROW LEVEL SECURITY;
+
+-- Punches go through /api/time-clock. Members see their own timesheet;
+-- managers see and correct everyone's.
+DROP POLICY IF EXISTS "Members can view own time entries" ON time_entries;
+CREATE POLICY "Members can view own time entries" ON time_entries FOR SELECT
+  USING (member_id IN (SELECT id FROM tenant_members WHERE user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Managers can manage time entries" ON time_entries;
+CREATE POLICY "Managers can manage time entries" ON time_entries FOR ALL
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM tenant_members WHERE user_id = auth.uid() AND role IN ('admin', 'manager')
+      UNION
+      SELECT id FROM tenants WHERE owner_id = auth.uid()
+    )
+  );
+
+DROP TRIGGER IF EXISTS set_updated_at ON time_entries;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON time_entries
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- 4. staff_hours: time clock link and rate snapshot
+-- ============================================================================
+
+ALTER TABLE staff_hours ADD COLUMN IF NOT EXISTS time_entry_id UUID UNIQUE
+  REFERENCES time_entries(id) ON DELETE CASCADE;
+ALTER TABLE staff_hours ADD COLUMN IF NOT EXISTS hourly_rate NUMERIC(10,2);
+
+UPDATE staff_hours sh
+SET hourly_rate = COALESCE(
+  (SELECT cp.hourly_rate FROM commission_plans cp WHERE cp.member_id = sh.member_id AND cp.is_active),
+  0
+)
+WHERE sh.hourly_rate IS NULL;
+
+-- Managers can't read pay plans, so the snapshot is taken here
+CREATE OR REPLACE FUNCTION snapshot_staff_hours_rate()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.hourly_rate IS NULL OR (TG_OP = 'UPDATE' AND NEW.member_id IS DISTINCT FROM OLD.member_id) THEN
+    SELECT cp.hourly_rate INTO NEW.hourly_rate
+    FROM commission_plans cp
+    WHERE cp.member_id = NEW.member_id AND cp.is_active;
+    NEW.hourly_rate := COALESCE(NEW.hourly_rate, 0);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS snapshot_staff_hours_rate ON staff_hours;
+CREATE TRIGGER snapshot_staff_hours_rate BEFORE INSERT OR UPDATE ON staff_hours
+  FOR EACH ROW EXECUTE FUNCTION snapshot_staff_hours_rate();
+
+-- Closed entries become staff_hours on the local day they started
+CREATE OR REPLACE FUNCTION sync_time_entry_hours()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_hours NUMERIC;
+  v_zone TEXT;
+BEGIN
+  IF NEW.clock_out_at IS NULL THEN
+    DELETE FROM staff_hours WHERE time_entry_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  v_hours := ROUND(
+    (EXTRACT(EPOCH FROM (NEW.clock_out_at - NEW.clock_in_at)) / 3600.0 - NEW.break_minutes / 60.0)::numeric,
+    2
+  );
+  IF v_hours <= 0 THEN
+    DELETE FROM staff_hours WHERE time_entry_id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(e.time_zone, t.time_zone) INTO v_zone
+  FROM tenants t
+  LEFT JOIN events e ON e.id = NEW.event_id
+  WHERE t.id = NEW.tenant_id;
+
+  INSERT INTO staff_hours (tenant_id, member_id, event_id, work_date, hours, notes, time_entry_id)
+  VALUES (
+    NEW.tenant_id,
+    NEW.member_id,
+    NEW.event_id,
+    (NEW.clock_in_at AT TIME ZONE COALESCE(v_zone, 'America/Denver'))::date,
+    LEAST(v_hours, 24),
+    'Time clock',
+    NEW.id
+  )
+  ON CONFLICT (time_entry_id) DO UPDATE SET
+    member_id = EXCLUDED.member_id,
+    event_id = EXCLUDED.event_id,
+    work_date = EXCLUDED.work_date,
+    hours = EXCLUDED.hours;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_time_entry_hours ON time_entries;
+CREATE TRIGGER sync_time_entry_hours AFTER INSERT OR UPDATE ON time_entries
+  FOR EACH ROW EXECUTE FUNCTION sync_time_entry_hours();
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,187 @@
+-- ============================================================================
+-- Migration 091: Team Roles (Tenant-Defined Permission Sets)
+-- ============================================================================
+-- Roles were a fixed admin / manager / staff matrix in
+-- src/lib/permissions.ts. Each tenant now has its own roles:
+--
+--   team_roles — a named permission set from the catalog in permissions.ts
+--                plus optional discount limits (percent and/or dollars).
+--                Every tenant is seeded with Admin, Manager and Staff
+--                (system_key set). Admin always has every permission and
+--                can't be edited; Manager and Staff can. Custom roles sit
+--                on an access level (base_role) that row-level security
+--                keeps using.
+--   tenant_members.team_role_id — the member's role. tenant_members.role
+--                is kept equal to the team role's base_role by trigger, so
+--                existing RLS policies and role checks keep working.
+--
+-- Permissions are enforced by API routes and the dashboard through
+-- hasPermission(roleGrant(member), ...).
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Team roles
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS team_roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  -- Built-in roles; NULL for custom roles
+  system_key TEXT CHECK (system_key IN ('admin', 'manager', 'staff')),
+  base_role TEXT NOT NULL DEFAULT 'staff' CHECK (base_role IN ('admin', 'manager', 'staff')),
+  permissions TEXT[] NOT NULL DEFAULT '{}',
+  discount_max_percent NUMERIC(5,2) CHECK (discount_max_percent >= 0 AND discount_max_percent <= 100),
+  discount_max_amount NUMERIC(10,2) CHECK (discount_max_amount >= 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, system_key)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_roles_tenant_name ON team_roles(tenant_id, lower(name));
+
+ALTER TABLE team_roles ENABLE ROW LEVEL SECURITY;
+
+-- Members read their tenant's roles (the dashboard resolves its own
+-- permissions from them); changes go through /api/team/roles
+DROP POLICY IF EXISTS "Tenant select" ON team_roles;
+CREATE POLICY "Tenant select" ON team_roles FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+DROP POLICY IF EXISTS "Admins can manage team roles" ON team_roles;
+CREATE POLICY "Admins can manage team roles" ON team_roles FOR ALL
+  USING (
+    tenant_id IN (
+      SELECT tenant_id FROM tenant_members WHERE user_id = auth.uid() AND role = 'admin'
+      UNION
+      SELECT id FROM tenants WHERE owner_id = auth.uid()
+    )
+  );
+
+DROP TRIGGER IF EXISTS set_updated_at ON team_roles;
+CREATE TRIGGER set_updated_at BEFORE UPDATE ON team_roles
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at();
+
+-- ============================================================================
+-- 2. Seed the built-in roles
+-- ============================================================================
+-- Permission lists match ROLE_PERMISSIONS in src/lib/permissions.ts.
+
+CREATE OR REPLACE FUNCTION seed_team_roles(p_tenant_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO team_roles (tenant_id, name, description, system_key, base_role, permissions)
+  VALUES
+    (p_tenant_id, 'Admin', 'Full access to everything, including settings, payments and the team.',
+     'admin', 'admin', '{}'),
+    (p_tenant_id, 'Manager', 'Runs the POS, inventory and events, sees reports, and can discount and refund.',
+     'manager', 'manager', ARRAY[
+       'pos:use', 'queue:manage', 'inventory:view', 'inventory:edit', 'events:view', 'events:edit',
+       'clients:view', 'clients:edit', 'reports:view', 'discounts:apply', 'sales:refund', 'sales:void',
+       'costs:view', 'data:export', 'prices:edit', 'broadcasts:send', 'cash_drawer:manage'
+     ]),
+    (p_tenant_id, 'Staff', 'Runs the POS and queue, and views inventory, events and clients.',
+     'staff', 'staff', ARRAY[
+       'pos:use', 'queue:manage', 'inventory:view', 'events:view', 'clients:view', 'sales:void',
+       'cash_drawer:manage'
+     ])
+  ON CONFLICT (tenant_id, system_key) DO NOTHING;
+$$;
+
+CREATE OR REPLACE FUNCTION seed_tenant_team_roles()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM seed_team_roles(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS seed_team_roles ON tenants;
+CREATE TRIGGER seed_team_roles AFTER INSERT ON tenants
+  FOR EACH ROW EXECUTE FUNCTION seed_tenant_team_roles();
+
+SELECT seed_team_roles(id) FROM tenants;
+
+-- ============================================================================
+-- 3. Member roles
+-- ============================================================================
+
+ALTER TABLE tenant_members ADD COLUMN IF NOT EXISTS team_role_id UUID
+  REFERENCES team_roles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tenant_members_team_role ON tenant_members(team_role_id);
+
+-- Keep role (the access level RLS checks) and team_role_id in step:
+-- assigning a team role sets its base_role; setting only a built-in role
+-- (older invite paths) picks the matching built-in team role.
+CREATE OR REPLACE FUNCTION sync_member_team_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_base TEXT;
+BEGIN
+  IF NEW.team_role_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.team_role_id IS DISTINCT FROM OLD.team_role_id) THEN
+    SELECT base_role INTO v_base FROM team_roles
+    WHERE id = NEW.team_role_id AND tenant_id = NEW.tenant_id;
+    IF v_base IS NULL THEN
+      RAISE EXCEPTION 'Team role % does not belong to this tenant', NEW.team_role_id;
+    END IF;
+    NEW.role := v_base;
+  ELSIF NEW.team_role_id IS NOT NULL THEN
+    -- Role changed on its own: keep the team role if it's on that level
+    SELECT base_role INTO v_base FROM team_roles WHERE id = NEW.team_role_id;
+    IF v_base IS DISTINCT FROM NEW.role THEN
+      SELECT id INTO NEW.team_role_id FROM team_roles
+      WHERE tenant_id = NEW.tenant_id AND system_key = NEW.role;
+    END IF;
+  ELSE
+    SELECT id INTO NEW.team_role_id FROM team_roles
+    WHERE tenant_id = NEW.tenant_id AND system_key = NEW.role;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_member_team_role ON tenant_members;
+CREATE TRIGGER sync_member_team_role BEFORE INSERT OR UPDATE OF role, team_role_id ON tenant_members
+  FOR EACH ROW EXECUTE FUNCTION sync_member_team_role();
+
+-- A custom role's access level change carries to its members
+CREATE OR REPLACE FUNCTION sync_team_role_base()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE tenant_members SET role = NEW.base_role, updated_at = now()
+  WHERE team_role_id = NEW.id AND role IS DISTINCT FROM NEW.base_role;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_team_role_base ON team_roles;
+CREATE TRIGGER sync_team_role_base AFTER UPDATE OF base_role ON team_roles
+  FOR EACH ROW EXECUTE FUNCTION sync_team_role_base();
+
+-- Backfill: everyone starts on the built-in role they had
+UPDATE tenant_members tm
+SET team_role_id = r.id
+FROM team_roles r
+WHERE tm.team_role_id IS NULL
+  AND r.tenant_id = tm.tenant_id
+  AND r.system_key = tm.role;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,237 @@
+-- ============================================================================
+-- Migration 092: Audit Log
+-- ============================================================================
+-- Append-only record of sensitive actions: who did what, to which record,
+-- and the values before and after.
+--
+--   audit_log — one row per action. actor_type is 'user' for a team member,
+--               'sunny' when Sunny acted on a member's behalf (actor_user_id
+--               is that member) and 'system' for background jobs.
+--
+-- Two writers:
+--   * Triggers below, for changes made with a signed-in member's client
+--     (inventory prices and deletes, sale discounts, warranty claim
+--     decisions). They skip service-role writes (auth.uid() IS NULL).
+--   * recordAudit() in src/lib/audit.ts, for API routes and Sunny tools,
+--     which run as the service role and know who asked.
+--
+-- Nothing can update or delete rows except the tenant cascade.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Audit log
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  actor_type TEXT NOT NULL DEFAULT 'user' CHECK (actor_type IN ('user', 'sunny', 'system')),
+  actor_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- '<area>.<verb>', e.g. 'sale.refund' — labels live in src/lib/audit.ts
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id UUID,
+  -- Name of the record at the time, so deleted records still read well
+  entity_label TEXT,
+  before JSONB,
+  after JSONB,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_tenant_created ON audit_log(tenant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_tenant_action ON audit_log(tenant_id, action);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(tenant_id, entity_type, entity_id);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for admins; there are no insert, update or delete policies
+DROP POLICY IF EXISTS "Admins can view audit log" ON audit_log;
+CREATE POLICY "Admins can view audit log" ON audit_log
+  FOR SELECT USING (
+    tenant_id IN (
+      SELECT tenant_id FROM tenant_members WHERE user_id = auth.uid() AND role = 'admin'
+      UNION
+      SELECT id FROM tenants WHERE owner_id = auth.uid()
+    )
+  );
+
+REVOKE UPDATE, DELETE, TRUNCATE ON audit_log FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION prevent_audit_log_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON audit_log;
+CREATE TRIGGER audit_log_append_only BEFORE UPDATE ON audit_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_log_update();
+
+-- ============================================================================
+-- 2. Inventory prices and deletes
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION audit_inventory_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO audit_log (tenant_id, actor_user_id, action, entity_type, entity_id, entity_label, before)
+    VALUES (OLD.tenant_id, auth.uid(), 'inventory.delete', 'inventory_item', OLD.id, OLD.name,
+      jsonb_build_object(
+        'name', OLD.name, 'type', OLD.type, 'quantity_on_hand', OLD.quantity_on_hand,
+        'cost_per_unit', OLD.cost_per_unit, 'sell_price', OLD.sell_price
+      ));
+    RETURN NULL;
+  END IF;
+
+  IF NEW.sell_price IS DISTINCT FROM OLD.sell_price THEN
+    INSERT INTO audit_log (tenant_id, actor_user_id, action, entity_type, entity_id, entity_label, before, after)
+    VALUES (NEW.tenant_id, auth.uid(), 'inventory.price_change', 'inventory_item', NEW.id, NEW.name,
+      jsonb_build_object('sell_price', OLD.sell_price),
+      jsonb_build_object('sell_price', NEW.sell_price));
+  END IF;
+
+  IF OLD.is_active AND NOT NEW.is_active THEN
+    INSERT INTO audit_log (tenant_id, actor_user_id, action, entity_type, entity_id, entity_label, before, after)
+    VALUES (NEW.tenant_id, auth.uid(), 'inventory.deactivate', 'inventory_item', NEW.id, NEW.name,
+      jsonb_build_object('is_active', true),
+      jsonb_build_object('is_active', false));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_inventory_item ON inventory_items;
+CREATE TRIGGER audit_inventory_item
+  AFTER UPDATE OF sell_price, is_active OR DELETE ON inventory_items
+  FOR EACH ROW EXECUTE FUNCTION audit_inventory_item();
+
+CREATE OR REPLACE FUNCTION audit_variant_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NEW.sell_price IS NOT DISTINCT FROM OLD.sell_price THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (tenant_id, actor_user_id, action, entity_type, entity_id, entity_label, before, after, metadata)
+  SELECT NEW.tenant_id, auth.uid(), 'inventory.price_change', 'inventory_item', NEW.inventory_item_id,
+    i.name || ' — ' || NEW.name,
+    jsonb_build_object('sell_price', OLD.sell_price),
+    jsonb_build_object('sell_price', NEW.sell_price),
+    jsonb_build_object('variant_id', NEW.id)
+  FROM inventory_items i WHERE i.id = NEW.inventory_item_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_variant_price ON inventory_item_variants;
+CREATE TRIGGER audit_variant_price AFTER UPDATE OF sell_price ON inventory_item_variants
+  FOR EACH ROW EXECUTE FUNCTION audit_variant_price();
+
+-- Per-product chain prices (upserts fire this on conflict)
+CREATE OR REPLACE FUNCTION audit_chain_product_price()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NEW.sell_price IS NOT DISTINCT FROM OLD.sell_price THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (tenant_id, actor_user_id, action, entity_type, entity_id, entity_label, before, after, metadata)
+  SELECT NEW.tenant_id, auth.uid(), 'inventory.price_change', 'inventory_item', NEW.inventory_item_id,
+    i.name || ' (' || COALESCE(pt.name, 'product') || ')',
+    jsonb_build_object('sell_price', OLD.sell_price),
+    jsonb_build_object('sell_price', NEW.sell_price),
+    jsonb_build_object('product_type_id', NEW.product_type_id)
+  FROM inventory_items i
+  LEFT JOIN product_types pt ON pt.id = NEW.product_type_id
+  WHERE i.id = NEW.inventory_item_id;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_chain_product_price ON chain_product_prices;
+CREATE TRIGGER audit_chain_product_price AFTER UPDATE OF sell_price ON chain_product_prices
+  FOR EACH ROW EXECUTE FUNCTION audit_chain_product_price();
+
+-- ============================================================================
+-- 3. Sale discounts
+-- ============================================================================
+-- Sales are written by create_sale_transaction() from the POS and the
+-- offline queue, so completed_by is the cashier even when replayed later.
+
+CREATE OR REPLACE FUNCTION audit_sale_discount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor UUID := COALESCE(NEW.completed_by, auth.uid());
+BEGIN
+  INSERT INTO audit_log (tenant_id, actor_type, actor_user_id, action, entity_type, entity_id, after)
+  VALUES (NEW.tenant_id, CASE WHEN v_actor IS NULL THEN 'system' ELSE 'user' END, v_actor,
+    'sale.discount', 'sale', NEW.id,
+    jsonb_build_object('subtotal', NEW.subtotal, 'discount_amount', NEW.discount_amount, 'total', NEW.total));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_sale_discount ON sales;
+CREATE TRIGGER audit_sale_discount AFTER INSERT ON sales
+  FOR EACH ROW WHEN (NEW.discount_amount > 0)
+  EXECUTE FUNCTION audit_sale_discount();
+
+-- ============================================================================
+-- 4. Warranty claim decisions
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION audit_warranty_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO audit_log (tenant_id, actor_user_id, action, entity_type, entity_id, entity_label, before, after, metadata)
+  VALUES (NEW.tenant_id, auth.uid(), 'warranty_claim.decision', 'warranty_claim', NEW.id,
+    left(NEW.description, 80),
+    jsonb_build_object('status', OLD.status),
+    jsonb_build_object('status', NEW.status, 'repair_details', NEW.repair_details, 'notes', NEW.notes),
+    jsonb_build_object('warranty_id', NEW.warranty_id));
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_warranty_claim ON warranty_claims;
+CREATE TRIGGER audit_warranty_claim AFTER UPDATE OF status ON warranty_claims
+  FOR EACH ROW WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION audit_warranty_claim();
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,113 @@
+-- ============================================================================
+-- Migration 093: SMS Consent Ledger & Suppression List
+-- ============================================================================
+-- Per-tenant record of who agreed to texts and who asked to stop.
+--
+--   sms_consent_events — append-only ledger, one row per opt-in or opt-out
+--                        for a phone number, with where it came from
+--                        (waiver, RSVP, keyword reply, manual change).
+--   sms_suppressions   — current opt-outs, one row per tenant + phone.
+--                        Kept in sync by a trigger on the ledger; sendSMS()
+--                        checks it before every tenant send.
+--
+-- Also adds message_log.skip_reason so blocked sends are logged as
+-- status 'skipped' with the reason, and party_rsvps.sms_consent for the
+-- RSVP form's consent checkbox.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Consent ledger
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sms_consent_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  -- E.164, as sent to Twilio
+  phone TEXT NOT NULL,
+  -- Last 10 digits — what suppression lookups match on
+  phone_digits TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('opted_in', 'opted_out')),
+  source TEXT NOT NULL CHECK (source IN ('waiver', 'rsvp', 'appointment', 'keyword', 'manual')),
+  -- The word the customer texted, for source 'keyword'
+  keyword TEXT,
+  client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+  -- Team member who made a manual change
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sms_consent_events_phone ON sms_consent_events(tenant_id, phone_digits, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sms_consent_events_tenant ON sms_consent_events(tenant_id, created_at DESC);
+
+ALTER TABLE sms_consent_events ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for members; events are written by API routes with the service role
+DROP POLICY IF EXISTS "Members can view sms consent events" ON sms_consent_events;
+CREATE POLICY "Members can view sms consent events" ON sms_consent_events
+  FOR SELECT USING (
+    tenant_id IN (SELECT tenant_id FROM tenant_members WHERE user_id = auth.uid())
+  );
+
+REVOKE UPDATE, DELETE, TRUNCATE ON sms_consent_events FROM anon, authenticated;
+
+-- ============================================================================
+-- 2. Suppression list
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS sms_suppressions (
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  phone_digits TEXT NOT NULL,
+  phone TEXT NOT NULL,
+  source TEXT NOT NULL,
+  keyword TEXT,
+  client_id UUID REFERENCES clients(id) ON DELETE SET NULL,
+  opted_out_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (tenant_id, phone_digits)
+);
+
+ALTER TABLE sms_suppressions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view sms suppressions" ON sms_suppressions;
+CREATE POLICY "Members can view sms suppressions" ON sms_suppressions
+  FOR SELECT USING (
+    tenant_id IN (SELECT tenant_id FROM tenant_members WHERE user_id = auth.uid())
+  );
+
+CREATE OR REPLACE FUNCTION sync_sms_suppression()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'opted_out' THEN
+    INSERT INTO sms_suppressions (tenant_id, phone_digits, phone, source, keyword, client_id, opted_out_at)
+    VALUES (NEW.tenant_id, NEW.phone_digits, NEW.phone, NEW.source, NEW.keyword, NEW.client_id, NEW.created_at)
+    ON CONFLICT (tenant_id, phone_digits) DO UPDATE SET
+      phone = EXCLUDED.phone,
+      source = EXCLUDED.source,
+      keyword = EXCLUDED.keyword,
+      client_id = COALESCE(EXCLUDED.client_id, sms_suppressions.client_id),
+      opted_out_at = EXCLUDED.opted_out_at;
+  ELSE
+    DELETE FROM sms_suppressions
+    WHERE tenant_id = NEW.tenant_id AND phone_digits = NEW.phone_digits;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_sms_suppression ON sms_consent_events;
+CREATE TRIGGER sync_sms_suppression AFTER INSERT ON sms_consent_events
+  FOR EACH ROW EXECUTE FUNCTION sync_sms_suppression();
+
+-- ============================================================================
+-- 3. Skipped sends and RSVP consent
+-- ============================================================================
+
+ALTER TABLE message_log ADD COLUMN IF NOT EXISTS skip_reason TEXT;
+
+ALTER TABLE party_rsvps ADD COLUMN IF NOT EXISTS sms_consent BOOLEAN NOT NULL DEFAULT false;
+
+NOTIFY pgrst, 'reload schema';
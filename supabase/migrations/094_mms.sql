@@ -0,0 +1,31 @@
+-- ============================================================================
+-- Migration 094: MMS
+-- ============================================================================
+-- Picture messages in two-way conversations and SMS broadcasts.
+--
+--   message-media bucket — private. Inbound photos are copied here from
+--                          Twilio; artists' uploads land here before they're
+--                          sent. Paths start with the tenant id. The API
+--                          hands out short-lived signed URLs to the dashboard
+--                          and to Twilio.
+--   conversations.media  — attachments on a message: [{ path, content_type }]
+--   broadcasts.media     — images sent with every SMS in the broadcast
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Storage bucket
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('message-media', 'message-media', false)
+ON CONFLICT DO NOTHING;
+
+-- ============================================================================
+-- 2. Attachments
+-- ============================================================================
+
+ALTER TABLE conversations ADD COLUMN IF NOT EXISTS media JSONB NOT NULL DEFAULT '[]';
+
+ALTER TABLE broadcasts ADD COLUMN IF NOT EXISTS media JSONB NOT NULL DEFAULT '[]';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,94 @@
+-- ============================================================================
+-- Migration 095: Email Broadcasts — Blocks, Unsubscribe & Engagement
+-- ============================================================================
+-- Email broadcasts become branded HTML built from blocks, with a one-click
+-- unsubscribe link and open/click tracking per recipient.
+--
+--   broadcasts.email_blocks          — the composer's blocks (header, image,
+--                                      text, button, event card, gift card
+--                                      promo). NULL = plain message body.
+--   broadcasts.email_links           — link targets at send time; click
+--                                      tracking redirects by index, so only
+--                                      links that were in the email resolve.
+--   broadcast_messages.tracking_token — per-recipient token in the open pixel,
+--                                      click and unsubscribe URLs.
+--   clients.email_unsubscribed_at    — set by the unsubscribe link; broadcasts
+--                                      and workflow emails skip the client.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Composer
+-- ============================================================================
+
+ALTER TABLE broadcasts ADD COLUMN IF NOT EXISTS email_blocks JSONB;
+ALTER TABLE broadcasts ADD COLUMN IF NOT EXISTS email_links JSONB NOT NULL DEFAULT '[]';
+
+-- ============================================================================
+-- 2. Per-recipient engagement
+-- ============================================================================
+
+ALTER TABLE broadcast_messages ADD COLUMN IF NOT EXISTS tracking_token UUID;
+ALTER TABLE broadcast_messages ADD COLUMN IF NOT EXISTS opened_at TIMESTAMPTZ;
+ALTER TABLE broadcast_messages ADD COLUMN IF NOT EXISTS open_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE broadcast_messages ADD COLUMN IF NOT EXISTS clicked_at TIMESTAMPTZ;
+ALTER TABLE broadcast_messages ADD COLUMN IF NOT EXISTS click_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE broadcast_messages ADD COLUMN IF NOT EXISTS unsubscribed_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_broadcast_messages_tracking_token
+  ON broadcast_messages(tracking_token) WHERE tracking_token IS NOT NULL;
+
+-- Record an open or click from the public tracking endpoints. A click also
+-- counts as an open (many clients block the pixel). Returns the link URL for
+-- a click, or NULL when the token or link index doesn't match.
+CREATE OR REPLACE FUNCTION track_broadcast_email(
+  p_token UUID,
+  p_event TEXT,
+  p_link INTEGER DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_broadcast_id UUID;
+  v_url TEXT;
+BEGIN
+  IF p_event = 'open' THEN
+    UPDATE broadcast_messages SET
+      opened_at = COALESCE(opened_at, now()),
+      open_count = open_count + 1
+    WHERE tracking_token = p_token;
+    RETURN NULL;
+  END IF;
+
+  SELECT broadcast_id INTO v_broadcast_id
+  FROM broadcast_messages WHERE tracking_token = p_token;
+  IF v_broadcast_id IS NULL OR p_link IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT email_links ->> p_link INTO v_url FROM broadcasts WHERE id = v_broadcast_id;
+  IF v_url IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE broadcast_messages SET
+    opened_at = COALESCE(opened_at, now()),
+    clicked_at = COALESCE(clicked_at, now()),
+    click_count = click_count + 1
+  WHERE tracking_token = p_token;
+
+  RETURN v_url;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION track_broadcast_email(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 3. Email opt-out
+-- ============================================================================
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS email_unsubscribed_at TIMESTAMPTZ;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,266 @@
+-- ============================================================================
+-- Migration 096: Client Merge
+-- ============================================================================
+-- Waivers, RSVPs, inbound texts and imports each create clients, so one
+-- person can end up with several records. The duplicate finder (scored in
+-- src/lib/client-duplicates.ts) pairs them up; merge_clients() folds one
+-- client into another and undo_client_merge() reverses it.
+--
+--   client_merges — one row per merge: the merged client's row, the
+--                   survivor's row before the merge and the ids of every
+--                   record that was re-pointed, so undo can put them back.
+--
+-- Gift cards have no client column; a purchased card follows its sale.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Merge history
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS client_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  survivor_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  -- Deleted by the merge, re-created with the same id on undo
+  merged_client_id UUID NOT NULL,
+  merged_client JSONB NOT NULL,
+  survivor_before JSONB NOT NULL,
+  -- { table: [ids] } for re-pointed rows (phone digits for sms_suppressions)
+  moved JSONB NOT NULL DEFAULT '{}',
+  -- The merged client's client_phone_numbers rows as they were
+  merged_phones JSONB NOT NULL DEFAULT '[]',
+  -- Tags both clients had; the merged client's assignment was dropped
+  dropped_tag_ids JSONB NOT NULL DEFAULT '[]',
+  merged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  undone_at TIMESTAMPTZ,
+  undone_by UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_merges_tenant ON client_merges(tenant_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_client_merges_survivor ON client_merges(survivor_id);
+
+ALTER TABLE client_merges ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for members; merges go through the functions below
+DROP POLICY IF EXISTS "Members can view client merges" ON client_merges;
+CREATE POLICY "Members can view client merges" ON client_merges
+  FOR SELECT USING (
+    tenant_id IN (SELECT tenant_id FROM tenant_members WHERE user_id = auth.uid())
+  );
+
+-- ============================================================================
+-- 2. merge_clients()
+-- ============================================================================
+-- Re-points everything that belongs to p_merged_id to p_survivor_id, fills
+-- the survivor's blank details from the merged client, combines notes and
+-- deletes the merged client. Returns the client_merges id.
+
+CREATE OR REPLACE FUNCTION merge_clients(
+  p_tenant_id UUID,
+  p_survivor_id UUID,
+  p_merged_id UUID,
+  p_user_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_survivor clients%ROWTYPE;
+  v_merged clients%ROWTYPE;
+  v_table TEXT;
+  v_ids JSONB;
+  v_moved JSONB := '{}';
+  v_phones JSONB;
+  v_dropped JSONB;
+  v_merge_id UUID;
+BEGIN
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'A client cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_survivor FROM clients
+  WHERE id = p_survivor_id AND tenant_id = p_tenant_id FOR UPDATE;
+  SELECT * INTO v_merged FROM clients
+  WHERE id = p_merged_id AND tenant_id = p_tenant_id FOR UPDATE;
+  IF v_survivor.id IS NULL OR v_merged.id IS NULL THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  -- Tags the survivor already has
+  WITH dropped AS (
+    DELETE FROM client_tag_assignments a
+    WHERE a.client_id = p_merged_id
+      AND EXISTS (
+        SELECT 1 FROM client_tag_assignments s
+        WHERE s.client_id = p_survivor_id AND s.tag_id = a.tag_id
+      )
+    RETURNING a.tag_id
+  )
+  SELECT COALESCE(jsonb_agg(tag_id), '[]') INTO v_dropped FROM dropped;
+
+  -- Phone numbers move over as secondary numbers
+  SELECT COALESCE(jsonb_agg(to_jsonb(p)), '[]') INTO v_phones
+  FROM client_phone_numbers p WHERE p.client_id = p_merged_id;
+  UPDATE client_phone_numbers SET client_id = p_survivor_id, is_primary = false
+  WHERE client_id = p_merged_id;
+
+  FOREACH v_table IN ARRAY ARRAY[
+    'sales', 'waivers', 'queue_entries', 'conversations', 'message_log',
+    'client_tag_assignments', 'client_notes', 'broadcast_messages',
+    'workflow_queue', 'warranties', 'party_requests', 'party_rsvps',
+    'appointments', 'sms_consent_events'
+  ] LOOP
+    EXECUTE format(
+      'WITH moved AS (UPDATE %I SET client_id = $1 WHERE client_id = $2 RETURNING id)
+       SELECT COALESCE(jsonb_agg(id), ''[]'') FROM moved',
+      v_table
+    ) INTO v_ids USING p_survivor_id, p_merged_id;
+    IF jsonb_array_length(v_ids) > 0 THEN
+      v_moved := v_moved || jsonb_build_object(v_table, v_ids);
+    END IF;
+  END LOOP;
+
+  WITH moved AS (
+    UPDATE sms_suppressions SET client_id = p_survivor_id
+    WHERE tenant_id = p_tenant_id AND client_id = p_merged_id
+    RETURNING phone_digits
+  )
+  SELECT COALESCE(jsonb_agg(phone_digits), '[]') INTO v_ids FROM moved;
+  IF jsonb_array_length(v_ids) > 0 THEN
+    v_moved := v_moved || jsonb_build_object('sms_suppressions', v_ids);
+  END IF;
+
+  INSERT INTO client_merges (
+    tenant_id, survivor_id, merged_client_id, merged_client, survivor_before,
+    moved, merged_phones, dropped_tag_ids, merged_by
+  ) VALUES (
+    p_tenant_id, p_survivor_id, p_merged_id, to_jsonb(v_merged), to_jsonb(v_survivor),
+    v_moved, v_phones, v_dropped, p_user_id
+  )
+  RETURNING id INTO v_merge_id;
+
+  DELETE FROM clients WHERE id = p_merged_id;
+
+  -- Blank details come from the merged client; notes are combined
+  UPDATE clients SET
+    first_name = COALESCE(NULLIF(first_name, ''), v_merged.first_name),
+    last_name = COALESCE(NULLIF(last_name, ''), v_merged.last_name),
+    email = COALESCE(NULLIF(email, ''), v_merged.email),
+    email_unsubscribed_at = CASE
+      WHEN NULLIF(email, '') IS NULL OR LOWER(email) = LOWER(v_merged.email)
+        THEN COALESCE(email_unsubscribed_at, v_merged.email_unsubscribed_at)
+      ELSE email_unsubscribed_at
+    END,
+    phone = COALESCE(NULLIF(phone, ''), v_merged.phone),
+    birthday = COALESCE(birthday, v_merged.birthday),
+    notes = CASE
+      WHEN NULLIF(TRIM(v_merged.notes), '') IS NULL THEN notes
+      WHEN NULLIF(TRIM(notes), '') IS NULL THEN v_merged.notes
+      ELSE notes || E'\n\n' || v_merged.notes
+    END,
+    last_visit_at = GREATEST(last_visit_at, v_merged.last_visit_at),
+    unread_messages = COALESCE(unread_messages, 0) + COALESCE(v_merged.unread_messages, 0),
+    last_message_at = GREATEST(last_message_at, v_merged.last_message_at),
+    created_at = LEAST(created_at, v_merged.created_at)
+  WHERE id = p_survivor_id;
+
+  RETURN v_merge_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION merge_clients(UUID, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 3. undo_client_merge()
+-- ============================================================================
+-- Re-creates the merged client, restores the survivor's details and moves
+-- the recorded rows back. Rows the survivor has since lost (deleted, or
+-- merged again) are left alone.
+
+CREATE OR REPLACE FUNCTION undo_client_merge(
+  p_tenant_id UUID,
+  p_merge_id UUID,
+  p_user_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_merge client_merges%ROWTYPE;
+  v_table TEXT;
+  v_ids JSONB;
+BEGIN
+  SELECT * INTO v_merge FROM client_merges
+  WHERE id = p_merge_id AND tenant_id = p_tenant_id FOR UPDATE;
+  IF v_merge.id IS NULL THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+  IF v_merge.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge was already undone';
+  END IF;
+  IF EXISTS (SELECT 1 FROM clients WHERE id = v_merge.merged_client_id) THEN
+    RAISE EXCEPTION 'The merged client already exists';
+  END IF;
+
+  INSERT INTO clients
+  SELECT * FROM jsonb_populate_record(NULL::clients, v_merge.merged_client);
+
+  UPDATE clients c SET
+    first_name = b.first_name,
+    last_name = b.last_name,
+    email = b.email,
+    email_unsubscribed_at = b.email_unsubscribed_at,
+    phone = b.phone,
+    birthday = b.birthday,
+    notes = b.notes,
+    last_visit_at = b.last_visit_at,
+    unread_messages = b.unread_messages,
+    last_message_at = b.last_message_at,
+    created_at = b.created_at
+  FROM jsonb_populate_record(NULL::clients, v_merge.survivor_before) b
+  WHERE c.id = v_merge.survivor_id;
+
+  -- Phone numbers go back exactly as they were (the survivor's phone
+  -- trigger may already have dropped one of them)
+  DELETE FROM client_phone_numbers
+  WHERE id IN (SELECT (p ->> 'id')::uuid FROM jsonb_array_elements(v_merge.merged_phones) p);
+  INSERT INTO client_phone_numbers
+  SELECT * FROM jsonb_populate_recordset(NULL::client_phone_numbers, v_merge.merged_phones)
+  ON CONFLICT (tenant_id, phone_normalized) DO UPDATE SET
+    client_id = EXCLUDED.client_id,
+    is_primary = EXCLUDED.is_primary;
+
+  FOR v_table, v_ids IN SELECT key, value FROM jsonb_each(v_merge.moved) LOOP
+    IF v_table = 'sms_suppressions' THEN
+      UPDATE sms_suppressions SET client_id = v_merge.merged_client_id
+      WHERE tenant_id = p_tenant_id
+        AND client_id = v_merge.survivor_id
+        AND phone_digits IN (SELECT jsonb_array_elements_text(v_ids));
+    ELSE
+      EXECUTE format(
+        'UPDATE %I SET client_id = $1
+         WHERE client_id = $2 AND id::text IN (SELECT jsonb_array_elements_text($3))',
+        v_table
+      ) USING v_merge.merged_client_id, v_merge.survivor_id, v_ids;
+    END IF;
+  END LOOP;
+
+  INSERT INTO client_tag_assignments (client_id, tag_id)
+  SELECT v_merge.merged_client_id, t.id
+  FROM client_tags t
+  WHERE t.id::text IN (SELECT jsonb_array_elements_text(v_merge.dropped_tag_ids))
+  ON CONFLICT (client_id, tag_id) DO NOTHING;
+
+  UPDATE client_merges SET undone_at = now(), undone_by = p_user_id
+  WHERE id = p_merge_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION undo_client_merge(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+NOTIFY pgrst, 'reload schema';
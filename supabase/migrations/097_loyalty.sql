@@ -0,0 +1,686 @@
+-- ============================================================================
+-- Migration 097: Loyalty Points & Rewards
+-- ============================================================================
+-- Clients earn points on completed sales (per dollar or per piece) plus
+-- optional bonuses for their birthday, for referring a client and for
+-- hosting a party, and trade them for reward tiers at checkout.
+--
+--   loyalty_rewards — the tenant's reward tiers: a points cost and the
+--                     discount the cart gets for it
+--   loyalty_ledger  — append-only, signed: earn and adjust-up entries are
+--                     positive, redeem and expire are negative
+--
+-- clients.loyalty_points caches the ledger sum. Every entry goes through
+-- loyalty_post(), which moves the balance and writes the entry in one
+-- transaction. Sources carry a key (the sale, the year, the party) so a
+-- sale or bonus is never counted twice.
+--
+-- merge_clients() / undo_client_merge() (096) are redefined to carry the
+-- ledger and referrals along and recount both balances.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. Tenant program settings
+-- ============================================================================
+
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS loyalty_enabled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS loyalty_earn_mode TEXT NOT NULL DEFAULT 'per_dollar'
+  CHECK (loyalty_earn_mode IN ('per_dollar', 'per_piece'));
+-- Points per dollar of the pre-tax, post-discount subtotal, or per piece
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS loyalty_earn_rate DECIMAL(10,2) NOT NULL DEFAULT 1
+  CHECK (loyalty_earn_rate >= 0);
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS loyalty_birthday_bonus INTEGER NOT NULL DEFAULT 0
+  CHECK (loyalty_birthday_bonus >= 0);
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS loyalty_referral_bonus INTEGER NOT NULL DEFAULT 0
+  CHECK (loyalty_referral_bonus >= 0);
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS loyalty_party_host_bonus INTEGER NOT NULL DEFAULT 0
+  CHECK (loyalty_party_host_bonus >= 0);
+-- NULL = points never expire; otherwise a balance untouched this long expires
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS loyalty_expiry_months INTEGER
+  CHECK (loyalty_expiry_months IS NULL OR loyalty_expiry_months > 0);
+
+-- ============================================================================
+-- 2. Client balance + referrals
+-- ============================================================================
+
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS loyalty_points INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS loyalty_activity_at TIMESTAMPTZ;
+ALTER TABLE clients ADD COLUMN IF NOT EXISTS referred_by_client_id UUID
+  REFERENCES clients(id) ON DELETE SET NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'clients_referred_by_not_self'
+  ) THEN
+    ALTER TABLE clients ADD CONSTRAINT clients_referred_by_not_self
+      CHECK (referred_by_client_id IS NULL OR referred_by_client_id <> id);
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_clients_referred_by ON clients(referred_by_client_id)
+  WHERE referred_by_client_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_clients_loyalty_balance ON clients(tenant_id, loyalty_activity_at)
+  WHERE loyalty_points > 0;
+
+-- ============================================================================
+-- 3. Reward tiers
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS loyalty_rewards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  points_cost INTEGER NOT NULL CHECK (points_cost > 0),
+  discount_type TEXT NOT NULL CHECK (discount_type IN ('flat', 'percentage')),
+  discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_rewards_tenant ON loyalty_rewards(tenant_id, points_cost);
+
+ALTER TABLE loyalty_rewards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Tenant select" ON loyalty_rewards;
+CREATE POLICY "Tenant select" ON loyalty_rewards FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+DROP POLICY IF EXISTS "Tenant insert" ON loyalty_rewards;
+CREATE POLICY "Tenant insert" ON loyalty_rewards FOR INSERT
+  WITH CHECK (tenant_id IN (SELECT get_user_tenant_ids()));
+
+DROP POLICY IF EXISTS "Tenant update" ON loyalty_rewards;
+CREATE POLICY "Tenant update" ON loyalty_rewards FOR UPDATE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+DROP POLICY IF EXISTS "Tenant delete" ON loyalty_rewards;
+CREATE POLICY "Tenant delete" ON loyalty_rewards FOR DELETE
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+-- ============================================================================
+-- 4. Ledger
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS loyalty_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('earn', 'redeem', 'expire', 'adjust')),
+  -- What the entry is for: sale, birthday, referral, party, reward, expiry, manual
+  source TEXT NOT NULL,
+  -- Unique per source within the tenant (sale id, client + year, ...)
+  source_key TEXT,
+  points INTEGER NOT NULL,
+  sale_id UUID REFERENCES sales(id) ON DELETE SET NULL,
+  reward_id UUID REFERENCES loyalty_rewards(id) ON DELETE SET NULL,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (tenant_id, source, source_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_client ON loyalty_ledger(client_id, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_sale ON loyalty_ledger(sale_id) WHERE sale_id IS NOT NULL;
+
+ALTER TABLE loyalty_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Read-only for members; entries go through loyalty_post() so the cached
+-- balance can't drift from the ledger
+DROP POLICY IF EXISTS "Tenant select" ON loyalty_ledger;
+CREATE POLICY "Tenant select" ON loyalty_ledger FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()));
+
+REVOKE INSERT, UPDATE, DELETE ON loyalty_ledger FROM anon, authenticated;
+
+-- ============================================================================
+-- 5. loyalty_post() — move a balance and record it
+-- ============================================================================
+-- p_points is signed like the ledger. Returns the new balance, or NULL when
+-- an entry with the same source key already exists (nothing changes).
+
+CREATE OR REPLACE FUNCTION loyalty_post(
+  p_client_id UUID,
+  p_entry_type TEXT,
+  p_source TEXT,
+  p_points INTEGER,
+  p_source_key TEXT DEFAULT NULL,
+  p_sale_id UUID DEFAULT NULL,
+  p_reward_id UUID DEFAULT NULL,
+  p_note TEXT DEFAULT NULL,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client clients%ROWTYPE;
+  v_entry_id UUID;
+  v_balance INTEGER;
+BEGIN
+  IF p_entry_type NOT IN ('earn', 'redeem', 'expire', 'adjust') THEN
+    RAISE EXCEPTION 'loyalty_post: unsupported entry type %', p_entry_type;
+  END IF;
+  IF p_points = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_client FROM clients WHERE id = p_client_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  v_balance := v_client.loyalty_points + p_points;
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Not enough points (balance %)', v_client.loyalty_points;
+  END IF;
+
+  INSERT INTO loyalty_ledger (
+    tenant_id, client_id, entry_type, source, source_key, points,
+    sale_id, reward_id, note, created_by
+  ) VALUES (
+    v_client.tenant_id, p_client_id, p_entry_type, p_source, p_source_key, p_points,
+    p_sale_id, p_reward_id, p_note, p_user_id
+  )
+  ON CONFLICT (tenant_id, source, source_key) DO NOTHING
+  RETURNING id INTO v_entry_id;
+
+  IF v_entry_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE clients
+  SET loyalty_points = v_balance,
+      loyalty_activity_at = CASE WHEN p_entry_type = 'expire' THEN loyalty_activity_at ELSE now() END
+  WHERE id = p_client_id;
+
+  RETURN v_balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION loyalty_post(UUID, TEXT, TEXT, INTEGER, TEXT, UUID, UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 6. Earning on sales (and the referral bonus)
+-- ============================================================================
+-- Deferred to commit so create_sale_transaction() has inserted the items
+-- (per-piece earning counts them). Fires again when a pending Stripe sale
+-- is paid or a client is attached later; the sale key keeps it to once.
+-- Pieces are lines with a product type, as in payroll.
+
+CREATE OR REPLACE FUNCTION loyalty_award_referral(p_client_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_client clients%ROWTYPE;
+  v_bonus INTEGER;
+BEGIN
+  SELECT * INTO v_client FROM clients WHERE id = p_client_id;
+  IF v_client.referred_by_client_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT loyalty_referral_bonus INTO v_bonus FROM tenants
+  WHERE id = v_client.tenant_id AND loyalty_enabled;
+  IF COALESCE(v_bonus, 0) = 0 THEN
+    RETURN;
+  END IF;
+
+  -- The referral counts once the referred client has bought something
+  IF NOT EXISTS (
+    SELECT 1 FROM sales
+    WHERE client_id = p_client_id AND status = 'completed' AND payment_status = 'completed'
+  ) THEN
+    RETURN;
+  END IF;
+
+  PERFORM loyalty_post(
+    v_client.referred_by_client_id, 'earn', 'referral', v_bonus, p_client_id::text,
+    p_note => 'Referred ' || COALESCE(NULLIF(TRIM(CONCAT_WS(' ', v_client.first_name, v_client.last_name)), ''), 'a client')
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION loyalty_award_referral(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION loyalty_earn_on_sale()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tenant tenants%ROWTYPE;
+  v_sale sales%ROWTYPE;
+  v_base NUMERIC;
+  v_points INTEGER;
+BEGIN
+  -- Re-read: the row may have changed again before commit
+  SELECT * INTO v_sale FROM sales WHERE id = NEW.id;
+  IF v_sale.client_id IS NULL OR v_sale.status <> 'completed' OR v_sale.payment_status <> 'completed' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_tenant FROM tenants WHERE id = v_sale.tenant_id;
+  IF NOT v_tenant.loyalty_enabled THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_tenant.loyalty_earn_mode = 'per_piece' THEN
+    SELECT COALESCE(SUM(quantity), 0) INTO v_base
+    FROM sale_items WHERE sale_id = v_sale.id AND product_type_id IS NOT NULL;
+  ELSE
+    v_base := GREATEST(v_sale.subtotal - v_sale.discount_amount, 0);
+  END IF;
+
+  v_points := FLOOR(v_base * v_tenant.loyalty_earn_rate);
+  IF v_points > 0 THEN
+    PERFORM loyalty_post(v_sale.client_id, 'earn', 'sale', v_points, v_sale.id::text, v_sale.id);
+  END IF;
+
+  PERFORM loyalty_award_referral(v_sale.client_id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS loyalty_earn_sale ON sales;
+CREATE CONSTRAINT TRIGGER loyalty_earn_sale
+  AFTER INSERT OR UPDATE OF payment_status, status, client_id ON sales
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  WHEN (NEW.client_id IS NOT NULL AND NEW.status = 'completed' AND NEW.payment_status = 'completed')
+  EXECUTE FUNCTION loyalty_earn_on_sale();
+
+-- A referrer recorded after the referred client's first sale still counts
+CREATE OR REPLACE FUNCTION loyalty_referrer_on_client()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM loyalty_award_referral(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS loyalty_referrer_set ON clients;
+CREATE TRIGGER loyalty_referrer_set
+  AFTER UPDATE OF referred_by_client_id ON clients
+  FOR EACH ROW
+  WHEN (NEW.referred_by_client_id IS NOT NULL
+    AND NEW.referred_by_client_id IS DISTINCT FROM OLD.referred_by_client_id)
+  EXECUTE FUNCTION loyalty_referrer_on_client();
+
+-- ============================================================================
+-- 7. Party host bonus
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION loyalty_party_host_bonus()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_bonus INTEGER;
+BEGIN
+  SELECT loyalty_party_host_bonus INTO v_bonus FROM tenants
+  WHERE id = NEW.tenant_id AND loyalty_enabled;
+
+  IF COALESCE(v_bonus, 0) > 0 THEN
+    PERFORM loyalty_post(
+      NEW.client_id, 'earn', 'party', v_bonus, NEW.id::text,
+      p_note => 'Hosted a party' || COALESCE(' on ' || to_char(NEW.preferred_date, 'Mon FMDD'), '')
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS loyalty_party_host ON party_requests;
+CREATE TRIGGER loyalty_party_host
+  AFTER INSERT OR UPDATE OF status, client_id ON party_requests
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed' AND NEW.client_id IS NOT NULL)
+  EXECUTE FUNCTION loyalty_party_host_bonus();
+
+-- ============================================================================
+-- 8. Birthday bonuses + expiry (daily cron)
+-- ============================================================================
+-- Birthdays are checked against the tenant's local date; Feb 29 birthdays
+-- get theirs on Feb 28 in other years. Expiry writes off balances with no
+-- earn or redeem activity for the tenant's loyalty_expiry_months.
+
+CREATE OR REPLACE FUNCTION loyalty_award_birthdays()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_row IN
+    SELECT c.id, t.loyalty_birthday_bonus AS bonus, d.today
+    FROM tenants t
+    CROSS JOIN LATERAL (
+      SELECT (now() AT TIME ZONE COALESCE(NULLIF(t.time_zone, ''), 'America/Denver'))::date AS today
+    ) d
+    JOIN clients c ON c.tenant_id = t.id
+    WHERE t.loyalty_enabled
+      AND t.loyalty_birthday_bonus > 0
+      AND c.birthday IS NOT NULL
+      AND (
+        to_char(c.birthday, 'MM-DD') = to_char(d.today, 'MM-DD')
+        OR (to_char(c.birthday, 'MM-DD') = '02-29'
+            AND to_char(d.today, 'MM-DD') = '02-28'
+            AND to_char(d.today + 1, 'MM-DD') = '03-01')
+      )
+  LOOP
+    IF loyalty_post(
+      v_row.id, 'earn', 'birthday', v_row.bonus,
+      v_row.id::text || ':' || extract(year FROM v_row.today)::int,
+      p_note => 'Birthday bonus'
+    ) IS NOT NULL THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION loyalty_award_birthdays() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION loyalty_expire_points()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_row IN
+    SELECT c.id, c.loyalty_points, t.loyalty_expiry_months
+    FROM tenants t
+    JOIN clients c ON c.tenant_id = t.id
+    WHERE t.loyalty_enabled
+      AND t.loyalty_expiry_months IS NOT NULL
+      AND c.loyalty_points > 0
+      AND COALESCE(c.loyalty_activity_at, c.created_at) < now() - make_interval(months => t.loyalty_expiry_months)
+  LOOP
+    PERFORM loyalty_post(
+      v_row.id, 'expire', 'expiry', -v_row.loyalty_points,
+      p_note => 'No activity for ' || v_row.loyalty_expiry_months || ' months'
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION loyalty_expire_points() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 9. merge_clients() — carry the ledger and referrals along
+-- ============================================================================
+-- Same as 096, plus: loyalty_ledger joins the re-pointed tables, clients
+-- the merged client referred now point at the survivor (recorded as
+-- 'referrals'), and the survivor's balance is recounted from the ledger.
+-- The snapshot is taken after the moves so an undo doesn't restore the
+-- merged client's old balance on top of its returned entries.
+
+CREATE OR REPLACE FUNCTION merge_clients(
+  p_tenant_id UUID,
+  p_survivor_id UUID,
+  p_merged_id UUID,
+  p_user_id UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_survivor clients%ROWTYPE;
+  v_merged clients%ROWTYPE;
+  v_table TEXT;
+  v_ids JSONB;
+  v_moved JSONB := '{}';
+  v_phones JSONB;
+  v_dropped JSONB;
+  v_merge_id UUID;
+BEGIN
+  IF p_survivor_id = p_merged_id THEN
+    RAISE EXCEPTION 'A client cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO v_survivor FROM clients
+  WHERE id = p_survivor_id AND tenant_id = p_tenant_id FOR UPDATE;
+  SELECT * INTO v_merged FROM clients
+  WHERE id = p_merged_id AND tenant_id = p_tenant_id FOR UPDATE;
+  IF v_survivor.id IS NULL OR v_merged.id IS NULL THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  -- Tags the survivor already has
+  WITH dropped AS (
+    DELETE FROM client_tag_assignments a
+    WHERE a.client_id = p_merged_id
+      AND EXISTS (
+        SELECT 1 FROM client_tag_assignments s
+        WHERE s.client_id = p_survivor_id AND s.tag_id = a.tag_id
+      )
+    RETURNING a.tag_id
+  )
+  SELECT COALESCE(jsonb_agg(tag_id), '[]') INTO v_dropped FROM dropped;
+
+  -- Phone numbers move over as secondary numbers
+  SELECT COALESCE(jsonb_agg(to_jsonb(p)), '[]') INTO v_phones
+  FROM client_phone_numbers p WHERE p.client_id = p_merged_id;
+  UPDATE client_phone_numbers SET client_id = p_survivor_id, is_primary = false
+  WHERE client_id = p_merged_id;
+
+  FOREACH v_table IN ARRAY ARRAY[
+    'sales', 'waivers', 'queue_entries', 'conversations', 'message_log',
+    'client_tag_assignments', 'client_notes', 'broadcast_messages',
+    'workflow_queue', 'warranties', 'party_requests', 'party_rsvps',
+    'appointments', 'sms_consent_events', 'loyalty_ledger'
+  ] LOOP
+    EXECUTE format(
+      'WITH moved AS (UPDATE %I SET client_id = $1 WHERE client_id = $2 RETURNING id)
+       SELECT COALESCE(jsonb_agg(id), ''[]'') FROM moved',
+      v_table
+    ) INTO v_ids USING p_survivor_id, p_merged_id;
+    IF jsonb_array_length(v_ids) > 0 THEN
+      v_moved := v_moved || jsonb_build_object(v_table, v_ids);
+    END IF;
+  END LOOP;
+
+  WITH moved AS (
+    UPDATE sms_suppressions SET client_id = p_survivor_id
+    WHERE tenant_id = p_tenant_id AND client_id = p_merged_id
+    RETURNING phone_digits
+  )
+  SELECT COALESCE(jsonb_agg(phone_digits), '[]') INTO v_ids FROM moved;
+  IF jsonb_array_length(v_ids) > 0 THEN
+    v_moved := v_moved || jsonb_build_object('sms_suppressions', v_ids);
+  END IF;
+
+  -- The survivor can't be its own referrer
+  WITH moved AS (
+    UPDATE clients
+    SET referred_by_client_id = CASE WHEN id = p_survivor_id THEN NULL ELSE p_survivor_id END
+    WHERE referred_by_client_id = p_merged_id
+    RETURNING id
+  )
+  SELECT COALESCE(jsonb_agg(id), '[]') INTO v_ids FROM moved;
+  IF jsonb_array_length(v_ids) > 0 THEN
+    v_moved := v_moved || jsonb_build_object('referrals', v_ids);
+  END IF;
+
+  SELECT * INTO v_merged FROM clients WHERE id = p_merged_id;
+  v_merged.loyalty_points := 0;
+
+  INSERT INTO client_merges (
+    tenant_id, survivor_id, merged_client_id, merged_client, survivor_before,
+    moved, merged_phones, dropped_tag_ids, merged_by
+  ) VALUES (
+    p_tenant_id, p_survivor_id, p_merged_id, to_jsonb(v_merged), to_jsonb(v_survivor),
+    v_moved, v_phones, v_dropped, p_user_id
+  )
+  RETURNING id INTO v_merge_id;
+
+  DELETE FROM clients WHERE id = p_merged_id;
+
+  -- Blank details come from the merged client; notes are combined
+  UPDATE clients SET
+    first_name = COALESCE(NULLIF(first_name, ''), v_merged.first_name),
+    last_name = COALESCE(NULLIF(last_name, ''), v_merged.last_name),
+    email = COALESCE(NULLIF(email, ''), v_merged.email),
+    email_unsubscribed_at = CASE
+      WHEN NULLIF(email, '') IS NULL OR LOWER(email) = LOWER(v_merged.email)
+        THEN COALESCE(email_unsubscribed_at, v_merged.email_unsubscribed_at)
+      ELSE email_unsubscribed_at
+    END,
+    phone = COALESCE(NULLIF(phone, ''), v_merged.phone),
+    birthday = COALESCE(birthday, v_merged.birthday),
+    notes = CASE
+      WHEN NULLIF(TRIM(v_merged.notes), '') IS NULL THEN notes
+      WHEN NULLIF(TRIM(notes), '') IS NULL THEN v_merged.notes
+      ELSE notes || E'\n\n' || v_merged.notes
+    END,
+    last_visit_at = GREATEST(last_visit_at, v_merged.last_visit_at),
+    unread_messages = COALESCE(unread_messages, 0) + COALESCE(v_merged.unread_messages, 0),
+    last_message_at = GREATEST(last_message_at, v_merged.last_message_at),
+    referred_by_client_id = CASE
+      WHEN referred_by_client_id IS NOT NULL THEN referred_by_client_id
+      WHEN v_merged.referred_by_client_id = p_survivor_id THEN NULL
+      ELSE v_merged.referred_by_client_id
+    END,
+    loyalty_points = (SELECT COALESCE(SUM(points), 0) FROM loyalty_ledger WHERE client_id = p_survivor_id),
+    loyalty_activity_at = GREATEST(loyalty_activity_at, v_merged.loyalty_activity_at),
+    created_at = LEAST(created_at, v_merged.created_at)
+  WHERE id = p_survivor_id;
+
+  RETURN v_merge_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION merge_clients(UUID, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 10. undo_client_merge() — put the ledger and referrals back
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION undo_client_merge(
+  p_tenant_id UUID,
+  p_merge_id UUID,
+  p_user_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_merge client_merges%ROWTYPE;
+  v_table TEXT;
+  v_ids JSONB;
+BEGIN
+  SELECT * INTO v_merge FROM client_merges
+  WHERE id = p_merge_id AND tenant_id = p_tenant_id FOR UPDATE;
+  IF v_merge.id IS NULL THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+  IF v_merge.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge was already undone';
+  END IF;
+  IF EXISTS (SELECT 1 FROM clients WHERE id = v_merge.merged_client_id) THEN
+    RAISE EXCEPTION 'The merged client already exists';
+  END IF;
+
+  -- Merges from before 097 have no balance in the snapshot
+  INSERT INTO clients
+  SELECT * FROM jsonb_populate_record(NULL::clients, '{"loyalty_points": 0}'::jsonb || v_merge.merged_client);
+
+  UPDATE clients c SET
+    first_name = b.first_name,
+    last_name = b.last_name,
+    email = b.email,
+    email_unsubscribed_at = b.email_unsubscribed_at,
+    phone = b.phone,
+    birthday = b.birthday,
+    notes = b.notes,
+    last_visit_at = b.last_visit_at,
+    unread_messages = b.unread_messages,
+    last_message_at = b.last_message_at,
+    referred_by_client_id = CASE
+      WHEN v_merge.survivor_before ? 'referred_by_client_id' THEN b.referred_by_client_id
+      ELSE c.referred_by_client_id
+    END,
+    created_at = b.created_at
+  FROM jsonb_populate_record(NULL::clients, v_merge.survivor_before) b
+  WHERE c.id = v_merge.survivor_id;
+
+  -- Phone numbers go back exactly as they were (the survivor's phone
+  -- trigger may already have dropped one of them)
+  DELETE FROM client_phone_numbers
+  WHERE id IN (SELECT (p ->> 'id')::uuid FROM jsonb_array_elements(v_merge.merged_phones) p);
+  INSERT INTO client_phone_numbers
+  SELECT * FROM jsonb_populate_recordset(NULL::client_phone_numbers, v_merge.merged_phones)
+  ON CONFLICT (tenant_id, phone_normalized) DO UPDATE SET
+    client_id = EXCLUDED.client_id,
+    is_primary = EXCLUDED.is_primary;
+
+  FOR v_table, v_ids IN SELECT key, value FROM jsonb_each(v_merge.moved) LOOP
+    IF v_table = 'sms_suppressions' THEN
+      UPDATE sms_suppressions SET client_id = v_merge.merged_client_id
+      WHERE tenant_id = p_tenant_id
+        AND client_id = v_merge.survivor_id
+        AND phone_digits IN (SELECT jsonb_array_elements_text(v_ids));
+    ELSIF v_table = 'referrals' THEN
+      UPDATE clients SET referred_by_client_id = v_merge.merged_client_id
+      WHERE tenant_id = p_tenant_id
+        AND id::text IN (SELECT jsonb_array_elements_text(v_ids))
+        AND (referred_by_client_id = v_merge.survivor_id OR id = v_merge.survivor_id);
+    ELSE
+      EXECUTE format(
+        'UPDATE %I SET client_id = $1
+         WHERE client_id = $2 AND id::text IN (SELECT jsonb_array_elements_text($3))',
+        v_table
+      ) USING v_merge.merged_client_id, v_merge.survivor_id, v_ids;
+    END IF;
+  END LOOP;
+
+  -- Both balances follow the ledger entries each client now holds
+  UPDATE clients c
+  SET loyalty_points = (SELECT COALESCE(SUM(l.points), 0) FROM loyalty_ledger l WHERE l.client_id = c.id)
+  WHERE c.id IN (v_merge.survivor_id, v_merge.merged_client_id);
+
+  INSERT INTO client_tag_assignments (client_id, tag_id)
+  SELECT v_merge.merged_client_id, t.id
+  FROM client_tags t
+  WHERE t.id::text IN (SELECT jsonb_array_elements_text(v_merge.dropped_tag_ids))
+  ON CONFLICT (client_id, tag_id) DO NOTHING;
+
+  UPDATE client_merges SET undone_at = now(), undone_by = p_user_id
+  WHERE id = p_merge_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION undo_client_merge(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Migration 098: Form Opt-Ins Don't Lift Suppressions
+-- ============================================================================
+-- Waivers, RSVPs and public bookings take whatever phone number is typed
+-- in, so an opt-in from one of them says nothing about who owns the phone.
+-- They stay in the ledger, but only a START reply from the phone itself
+-- (source 'keyword') or a team member's manual change lifts an opt-out.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_sms_suppression()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'opted_out' THEN
+    INSERT INTO sms_suppressions (tenant_id, phone_digits, phone, source, keyword, client_id, opted_out_at)
+    VALUES (NEW.tenant_id, NEW.phone_digits, NEW.phone, NEW.source, NEW.keyword, NEW.client_id, NEW.created_at)
+    ON CONFLICT (tenant_id, phone_digits) DO UPDATE SET
+      phone = EXCLUDED.phone,
+      source = EXCLUDED.source,
+      keyword = EXCLUDED.keyword,
+      client_id = COALESCE(EXCLUDED.client_id, sms_suppressions.client_id),
+      opted_out_at = EXCLUDED.opted_out_at;
+  ELSIF NEW.source IN ('keyword', 'manual') THEN
+    DELETE FROM sms_suppressions
+    WHERE tenant_id = NEW.tenant_id AND phone_digits = NEW.phone_digits;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+NOTIFY pgrst, 'reload schema';
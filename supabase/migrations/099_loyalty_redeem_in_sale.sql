@@ -0,0 +1,294 @@
+-- ============================================================================
+-- Migration 099: Redeem Loyalty Rewards With the Sale
+-- ============================================================================
+-- A reward's points used to come off in a separate call after payment, so a
+-- failed or skipped call left the client with the discount and the points.
+-- create_sale_transaction() now takes the reward and posts the redemption
+-- in the same transaction — not enough points fails the sale. Stripe sales
+-- are created pending before payment, which reserves the points; voiding
+-- the sale (cancelled or expired link) gives them back.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. create_sale_transaction — optional loyalty reward
+-- ============================================================================
+-- One trailing defaulted parameter; drop the 088 signature first so
+-- PostgREST doesn't see two overloads.
+
+DROP FUNCTION IF EXISTS public.create_sale_transaction(
+  uuid, uuid, uuid, numeric, numeric, numeric, numeric, numeric, numeric,
+  text, text, text, numeric, text, text, text, text, text, uuid, jsonb,
+  jsonb, uuid, uuid, timestamptz, uuid, boolean, jsonb
+);
+
+CREATE OR REPLACE FUNCTION create_sale_transaction(
+  p_tenant_id UUID,
+  p_event_id UUID,
+  p_client_id UUID,
+  p_subtotal NUMERIC,
+  p_discount_amount NUMERIC,
+  p_tax_amount NUMERIC,
+  p_tip_amount NUMERIC,
+  p_platform_fee_amount NUMERIC,
+  p_total NUMERIC,
+  p_payment_method TEXT,
+  p_payment_status TEXT,
+  p_payment_provider TEXT,
+  p_platform_fee_rate NUMERIC,
+  p_fee_handling TEXT,
+  p_status TEXT,
+  p_receipt_email TEXT,
+  p_receipt_phone TEXT,
+  p_notes TEXT,
+  p_completed_by UUID,
+  p_items JSONB,
+  p_inventory_deductions JSONB,
+  p_queue_entry_id UUID DEFAULT NULL,
+  p_client_sale_id UUID DEFAULT NULL,
+  p_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_tax_profile_id UUID DEFAULT NULL,
+  p_tax_inclusive BOOLEAN DEFAULT false,
+  p_tax_lines JSONB DEFAULT NULL,
+  p_loyalty_reward_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  new_sale_id UUID;
+  item JSONB;
+  deduction JSONB;
+  v_variant_id UUID;
+  parent_qty NUMERIC;
+  v_amount NUMERIC;
+  v_cost NUMERIC;
+  tax_line JSONB;
+  v_reward loyalty_rewards%ROWTYPE;
+BEGIN
+  -- Auth check
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Tenant membership check
+  IF NOT EXISTS (
+    SELECT 1 FROM tenant_members
+    WHERE user_id = auth.uid() AND tenant_id = p_tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this tenant';
+  END IF;
+
+  -- Idempotency: a replayed offline sale returns the sale it already created
+  IF p_client_sale_id IS NOT NULL THEN
+    SELECT id INTO new_sale_id
+    FROM sales
+    WHERE tenant_id = p_tenant_id AND client_sale_id = p_client_sale_id;
+
+    IF new_sale_id IS NOT NULL THEN
+      RETURN new_sale_id;
+    END IF;
+  END IF;
+
+  -- 1. Insert sale
+  INSERT INTO sales (
+    tenant_id, event_id, client_id,
+    subtotal, discount_amount, tax_amount, tip_amount,
+    platform_fee_amount, total,
+    payment_method, payment_status, payment_provider,
+    platform_fee_rate, fee_handling,
+    status, receipt_email, receipt_phone, notes, completed_by,
+    client_sale_id, created_at, tax_profile_id, tax_inclusive
+  ) VALUES (
+    p_tenant_id, p_event_id, p_client_id,
+    p_subtotal, p_discount_amount, p_tax_amount, p_tip_amount,
+    p_platform_fee_amount, p_total,
+    p_payment_method::payment_method, p_payment_status::payment_status, p_payment_provider,
+    p_platform_fee_rate,
+    CASE WHEN p_fee_handling IS NOT NULL AND p_fee_handling != '' THEN p_fee_handling::fee_handling ELSE NULL END,
+    p_status::sale_status, p_receipt_email, p_receipt_phone, p_notes, p_completed_by,
+    p_client_sale_id, COALESCE(p_created_at, NOW()), p_tax_profile_id, COALESCE(p_tax_inclusive, false)
+  ) RETURNING id INTO new_sale_id;
+
+  -- 1b. Loyalty reward — the points come off with the sale, so a client
+  --     without enough points (or a balance spent on another terminal)
+  --     fails the whole sale instead of keeping both
+  IF p_loyalty_reward_id IS NOT NULL THEN
+    SELECT r.* INTO v_reward
+    FROM loyalty_rewards r
+    JOIN tenants t ON t.id = r.tenant_id
+    WHERE r.id = p_loyalty_reward_id AND r.tenant_id = p_tenant_id
+      AND r.is_active AND t.loyalty_enabled;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Loyalty reward not available';
+    END IF;
+
+    IF p_client_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM clients WHERE id = p_client_id AND tenant_id = p_tenant_id
+    ) THEN
+      RAISE EXCEPTION 'A loyalty reward needs a client';
+    END IF;
+
+    PERFORM loyalty_post(
+      p_client_id, 'redeem', 'reward', -v_reward.points_cost, new_sale_id::TEXT,
+      new_sale_id, v_reward.id, v_reward.name, auth.uid()
+    );
+  END IF;
+
+  -- 2. Insert sale items
+  FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    INSERT INTO sale_items (
+      sale_id, tenant_id, inventory_item_id, inventory_variant_id, name,
+      quantity, unit_price, discount_type, discount_value,
+      line_total, product_type_id, product_type_name,
+      inches_used, jump_ring_cost
+    ) VALUES (
+      new_sale_id, p_tenant_id,
+      NULLIF(item->>'inventory_item_id', '')::UUID,
+      NULLIF(item->>'inventory_variant_id', '')::UUID,
+      item->>'name',
+      (item->>'quantity')::NUMERIC,
+      (item->>'unit_price')::NUMERIC,
+      NULLIF(item->>'discount_type', ''),
+      COALESCE((item->>'discount_value')::NUMERIC, 0),
+      (item->>'line_total')::NUMERIC,
+      NULLIF(item->>'product_type_id', '')::UUID,
+      NULLIF(item->>'product_type_name', ''),
+      (item->>'inches_used')::NUMERIC,
+      (item->>'jump_ring_cost')::NUMERIC
+    );
+  END LOOP;
+
+  -- 3. Atomic inventory deductions (variant-aware, floors at 0), costed
+  --    from the cost layers
+  FOR deduction IN SELECT * FROM jsonb_array_elements(p_inventory_deductions)
+  LOOP
+    v_variant_id := NULLIF(deduction->>'variant_id', '')::UUID;
+
+    IF v_variant_id IS NOT NULL THEN
+      -- Deduct from variant
+      UPDATE inventory_item_variants
+      SET quantity_on_hand = GREATEST(quantity_on_hand - (deduction->>'amount')::NUMERIC, 0),
+          updated_at = NOW()
+      WHERE id = v_variant_id
+        AND inventory_item_id = (deduction->>'item_id')::UUID;
+
+      -- Recalc parent quantity_on_hand = SUM of active variants
+      SELECT COALESCE(SUM(quantity_on_hand), 0) INTO parent_qty
+      FROM inventory_item_variants
+      WHERE inventory_item_id = (deduction->>'item_id')::UUID AND is_active = true;
+
+      UPDATE inventory_items
+      SET quantity_on_hand = parent_qty, updated_at = NOW()
+      WHERE id = (deduction->>'item_id')::UUID
+        AND tenant_id = p_tenant_id;
+    ELSE
+      -- Original behavior: deduct from parent item directly
+      UPDATE inventory_items
+      SET quantity_on_hand = GREATEST(quantity_on_hand - (deduction->>'amount')::NUMERIC, 0),
+          updated_at = NOW()
+      WHERE id = (deduction->>'item_id')::UUID
+        AND tenant_id = p_tenant_id;
+    END IF;
+
+    -- Consume cost layers and spread the cost over the matching lines
+    v_amount := (deduction->>'amount')::NUMERIC;
+    v_cost := consume_cost_layers(p_tenant_id, (deduction->>'item_id')::UUID, v_variant_id, v_amount);
+
+    UPDATE sale_items si
+    SET cost_snapshot = ROUND(COALESCE(si.cost_snapshot, 0) + v_cost * w.weight / w.total, 4)
+    FROM (
+      SELECT id,
+             COALESCE(NULLIF(inches_used, 0) * quantity, quantity) AS weight,
+             SUM(COALESCE(NULLIF(inches_used, 0) * quantity, quantity)) OVER () AS total
+      FROM sale_items
+      WHERE sale_id = new_sale_id
+        AND inventory_item_id = (deduction->>'item_id')::UUID
+        AND inventory_variant_id IS NOT DISTINCT FROM v_variant_id
+    ) w
+    WHERE si.id = w.id AND w.total > 0;
+
+    -- Optionally log inventory movement (already costed, so the trigger
+    -- leaves the layers alone)
+    IF (deduction->>'log_movement')::BOOLEAN IS TRUE THEN
+      INSERT INTO inventory_movements (
+        tenant_id, inventory_item_id, inventory_variant_id, movement_type,
+        quantity, reference_id, notes, performed_by, unit_cost
+      ) VALUES (
+        p_tenant_id,
+        (deduction->>'item_id')::UUID,
+        v_variant_id,
+        'sale'::movement_type,
+        -(deduction->>'amount')::NUMERIC,
+        new_sale_id,
+        deduction->>'notes',
+        NULLIF(deduction->>'performed_by', '')::UUID,
+        CASE WHEN v_amount > 0 THEN ROUND(v_cost / v_amount, 4) END
+      );
+    END IF;
+  END LOOP;
+
+  -- 4. Tax collected, one line per jurisdiction component
+  IF p_tax_lines IS NOT NULL THEN
+    FOR tax_line IN SELECT * FROM jsonb_array_elements(p_tax_lines)
+    LOOP
+      INSERT INTO sale_tax_lines (
+        tenant_id, sale_id, tax_profile_id, tax_component_id,
+        name, jurisdiction_type, rate, taxable_amount, tax_amount
+      ) VALUES (
+        p_tenant_id, new_sale_id, p_tax_profile_id,
+        NULLIF(tax_line->>'tax_component_id', '')::UUID,
+        COALESCE(NULLIF(tax_line->>'name', ''), 'Sales tax'),
+        COALESCE(NULLIF(tax_line->>'jurisdiction_type', ''), 'other'),
+        COALESCE((tax_line->>'rate')::NUMERIC, 0),
+        COALESCE((tax_line->>'taxable_amount')::NUMERIC, 0),
+        COALESCE((tax_line->>'tax_amount')::NUMERIC, 0)
+      );
+    END LOOP;
+  END IF;
+
+  -- 5. Update queue entry if provided
+  IF p_queue_entry_id IS NOT NULL THEN
+    UPDATE queue_entries
+    SET status = 'served', served_at = NOW(), updated_at = NOW()
+    WHERE id = p_queue_entry_id AND tenant_id = p_tenant_id;
+  END IF;
+
+  RETURN new_sale_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 2. Give the points back when the sale is voided
+-- ============================================================================
+-- Keyed by sale, so it happens once. The ledger row's client is used — a
+-- merge may have moved it since.
+
+CREATE OR REPLACE FUNCTION loyalty_return_on_void()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_entry loyalty_ledger%ROWTYPE;
+BEGIN
+  FOR v_entry IN
+    SELECT * FROM loyalty_ledger
+    WHERE sale_id = NEW.id AND entry_type = 'redeem'
+  LOOP
+    PERFORM loyalty_post(
+      v_entry.client_id, 'adjust', 'reward', -v_entry.points, NEW.id::TEXT || ':void',
+      NEW.id, v_entry.reward_id, 'Sale voided'
+    );
+  END LOOP;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS loyalty_return_on_void ON sales;
+CREATE TRIGGER loyalty_return_on_void
+  AFTER UPDATE OF status ON sales
+  FOR EACH ROW
+  WHEN (NEW.status = 'voided' AND OLD.status IS DISTINCT FROM 'voided')
+  EXECUTE FUNCTION loyalty_return_on_void();
+
+NOTIFY pgrst, 'reload schema';
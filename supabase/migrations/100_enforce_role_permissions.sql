@@ -0,0 +1,830 @@
+-- ============================================================================
+-- Migration 100: Enforce Role Permissions in the Database
+-- ============================================================================
+-- Team roles (migration 091) were only checked in the UI and API routes, so
+-- a member could skip them by calling Supabase directly. The grant is now
+-- resolved here too and checked where the data is written or read:
+--
+--   discounts:apply + limits — create_sale_transaction() works out the
+--                staff discount from the lines and the cart discount
+--   sales:void — trigger on sales.status
+--   prices:edit — triggers on item, variant and chain prices and tiers
+--   costs:view — cost_per_unit is no longer selectable by members. Reads go
+--                through the *_without_cost views, and costs through
+--                inventory_costs(). Cost layers need it too.
+--   inventory:edit — finalize_stock_count() and receive_purchase_order()
+--
+-- Service-role writes (auth.uid() IS NULL) are left alone — those routes
+-- check the grant themselves.
+--
+-- cost_per_unit is hidden with column privileges, which are per column: a
+-- column added to inventory_items or inventory_item_variants later needs a
+-- GRANT SELECT (...) TO authenticated and the view recreated (section 6).
+-- ============================================================================
+
+-- ============================================================================
+-- 1. The caller's grant
+-- ============================================================================
+-- Mirrors roleGrant() in src/lib/permissions.ts: the Admin role (or the
+-- admin level with no team role) has everything; otherwise the team role's
+-- permission list and discount limits.
+
+CREATE OR REPLACE FUNCTION member_role_grant(p_tenant_id UUID)
+RETURNS TABLE (
+  is_admin BOOLEAN,
+  permissions TEXT[],
+  discount_max_percent NUMERIC,
+  discount_max_amount NUMERIC
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(r.system_key = 'admin', tm.role = 'admin'),
+    COALESCE(r.permissions, '{}'),
+    r.discount_max_percent,
+    r.discount_max_amount
+  FROM tenant_members tm
+  LEFT JOIN team_roles r
+    ON r.tenant_id = tm.tenant_id
+   AND (r.id = tm.team_role_id OR (tm.team_role_id IS NULL AND r.system_key = tm.role))
+  WHERE tm.user_id = auth.uid() AND tm.tenant_id = p_tenant_id
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION member_has_permission(p_tenant_id UUID, p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT g.is_admin OR p_permission = ANY (g.permissions) FROM member_role_grant(p_tenant_id) g),
+    false
+  );
+$$;
+
+-- Mirrors discountAllowed(): amount off against the pre-discount total
+CREATE OR REPLACE FUNCTION member_discount_allowed(p_tenant_id UUID, p_amount NUMERIC, p_base NUMERIC)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_grant RECORD;
+BEGIN
+  SELECT * INTO v_grant FROM member_role_grant(p_tenant_id);
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+  IF v_grant.is_admin THEN
+    RETURN true;
+  END IF;
+  IF NOT 'discounts:apply' = ANY (v_grant.permissions) THEN
+    RETURN false;
+  END IF;
+  IF v_grant.discount_max_amount IS NOT NULL AND p_amount > v_grant.discount_max_amount + 0.005 THEN
+    RETURN false;
+  END IF;
+  IF v_grant.discount_max_percent IS NOT NULL AND p_base > 0
+     AND p_amount / p_base * 100 > v_grant.discount_max_percent + 0.005 THEN
+    RETURN false;
+  END IF;
+  RETURN true;
+END;
+$$;
+
+-- ============================================================================
+-- 2. create_sale_transaction — discount limits, jump ring cost
+-- ============================================================================
+-- Staff discount = line discounts (gross − line totals) + the cart discount.
+-- discount_amount also carries the loyalty reward, which comes off what the
+-- cart discount leaves (use-cart.ts), so it's backed out first.
+--
+-- Jump rings are costed here from jump_ring_item_id × jump_rings_needed —
+-- the POS can't read cost_per_unit any more. jump_ring_cost is still taken
+-- from lines that don't name the ring (offline sales queued before this).
+
+DROP FUNCTION IF EXISTS public.create_sale_transaction(
+  uuid, uuid, uuid, numeric, numeric, numeric, numeric, numeric, numeric,
+  text, text, text, numeric, text, text, text, text, text, uuid, jsonb,
+  jsonb, uuid, uuid, timestamptz, uuid, boolean, jsonb, uuid
+);
+
+CREATE OR REPLACE FUNCTION create_sale_transaction(
+  p_tenant_id UUID,
+  p_event_id UUID,
+  p_client_id UUID,
+  p_subtotal NUMERIC,
+  p_discount_amount NUMERIC,
+  p_tax_amount NUMERIC,
+  p_tip_amount NUMERIC,
+  p_platform_fee_amount NUMERIC,
+  p_total NUMERIC,
+  p_payment_method TEXT,
+  p_payment_status TEXT,
+  p_payment_provider TEXT,
+  p_platform_fee_rate NUMERIC,
+  p_fee_handling TEXT,
+  p_status TEXT,
+  p_receipt_email TEXT,
+  p_receipt_phone TEXT,
+  p_notes TEXT,
+  p_completed_by UUID,
+  p_items JSONB,
+  p_inventory_deductions JSONB,
+  p_queue_entry_id UUID DEFAULT NULL,
+  p_client_sale_id UUID DEFAULT NULL,
+  p_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_tax_profile_id UUID DEFAULT NULL,
+  p_tax_inclusive BOOLEAN DEFAULT false,
+  p_tax_lines JSONB DEFAULT NULL,
+  p_loyalty_reward_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  new_sale_id UUID;
+  item JSONB;
+  deduction JSONB;
+  v_variant_id UUID;
+  parent_qty NUMERIC;
+  v_amount NUMERIC;
+  v_cost NUMERIC;
+  tax_line JSONB;
+  v_reward loyalty_rewards%ROWTYPE;
+  v_gross NUMERIC;
+  v_net NUMERIC;
+  v_cart_discount NUMERIC;
+  v_staff_discount NUMERIC;
+BEGIN
+  -- Auth check
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Tenant membership check
+  IF NOT EXISTS (
+    SELECT 1 FROM tenant_members
+    WHERE user_id = auth.uid() AND tenant_id = p_tenant_id
+  ) THEN
+    RAISE EXCEPTION 'Not a member of this tenant';
+  END IF;
+
+  -- Idempotency: a replayed offline sale returns the sale it already created
+  IF p_client_sale_id IS NOT NULL THEN
+    SELECT id INTO new_sale_id
+    FROM sales
+    WHERE tenant_id = p_tenant_id AND client_sale_id = p_client_sale_id;
+
+    IF new_sale_id IS NOT NULL THEN
+      RETURN new_sale_id;
+    END IF;
+  END IF;
+
+  -- 1. Insert sale
+  INSERT INTO sales (
+    tenant_id, event_id, client_id,
+    subtotal, discount_amount, tax_amount, tip_amount,
+    platform_fee_amount, total,
+    payment_method, payment_status, payment_provider,
+    platform_fee_rate, fee_handling,
+    status, receipt_email, receipt_phone, notes, completed_by,
+    client_sale_id, created_at, tax_profile_id, tax_inclusive
+  ) VALUES (
+    p_tenant_id, p_event_id, p_client_id,
+    p_subtotal, p_discount_amount, p_tax_amount, p_tip_amount,
+    p_platform_fee_amount, p_total,
+    p_payment_method::payment_method, p_payment_status::payment_status, p_payment_provider,
+    p_platform_fee_rate,
+    CASE WHEN p_fee_handling IS NOT NULL AND p_fee_handling != '' THEN p_fee_handling::fee_handling ELSE NULL END,
+    p_status::sale_status, p_receipt_email, p_receipt_phone, p_notes, p_completed_by,
+    p_client_sale_id, COALESCE(p_created_at, NOW()), p_tax_profile_id, COALESCE(p_tax_inclusive, false)
+  ) RETURNING id INTO new_sale_id;
+
+  -- 1b. Loyalty reward — the points come off with the sale, so a client
+  --     without enough points (or a balance spent on another terminal)
+  --     fails the whole sale instead of keeping both
+  IF p_loyalty_reward_id IS NOT NULL THEN
+    SELECT r.* INTO v_reward
+    FROM loyalty_rewards r
+    JOIN tenants t ON t.id = r.tenant_id
+    WHERE r.id = p_loyalty_reward_id AND r.tenant_id = p_tenant_id
+      AND r.is_active AND t.loyalty_enabled;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Loyalty reward not available';
+    END IF;
+
+    IF p_client_id IS NULL OR NOT EXISTS (
+      SELECT 1 FROM clients WHERE id = p_client_id AND tenant_id = p_tenant_id
+    ) THEN
+      RAISE EXCEPTION 'A loyalty reward needs a client';
+    END IF;
+
+    PERFORM loyalty_post(
+      p_client_id, 'redeem', 'reward', -v_reward.points_cost, new_sale_id::TEXT,
+      new_sale_id, v_reward.id, v_reward.name, auth.uid()
+    );
+  END IF;
+
+  -- 1c. Discount limits — the caller's role has to allow the line and cart
+  --     discounts together, against the pre-discount total
+  SELECT
+    COALESCE(SUM((i->>'quantity')::NUMERIC * (i->>'unit_price')::NUMERIC), 0),
+    COALESCE(SUM((i->>'line_total')::NUMERIC), 0)
+  INTO v_gross, v_net
+  FROM jsonb_array_elements(p_items) i;
+
+  v_cart_discount := COALESCE(p_discount_amount, 0);
+  IF v_reward.id IS NOT NULL THEN
+    IF v_reward.discount_type = 'percentage' AND v_reward.discount_value < 100 THEN
+      v_cart_discount := (v_cart_discount - v_net * v_reward.discount_value / 100)
+        / (1 - v_reward.discount_value / 100);
+    ELSIF v_reward.discount_type = 'percentage' THEN
+      v_cart_discount := v_cart_discount - v_net;
+    ELSE
+      v_cart_discount := v_cart_discount - LEAST(v_reward.discount_value, v_net);
+    END IF;
+  END IF;
+
+  v_staff_discount := GREATEST(v_gross - v_net, 0) + GREATEST(v_cart_discount, 0);
+  IF v_staff_discount > 0.01 AND NOT member_discount_allowed(p_tenant_id, v_staff_discount, v_gross) THEN
+    RAISE EXCEPTION 'Discount is over your role''s limit';
+  END IF;
+
+  -- 2. Insert sale items
+  FOR item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    INSERT INTO sale_items (
+      sale_id, tenant_id, inventory_item_id, inventory_variant_id, name,
+      quantity, unit_price, discount_type, discount_value,
+      line_total, product_type_id, product_type_name,
+      inches_used, jump_ring_cost
+    ) VALUES (
+      new_sale_id, p_tenant_id,
+      NULLIF(item->>'inventory_item_id', '')::UUID,
+      NULLIF(item->>'inventory_variant_id', '')::UUID,
+      item->>'name',
+      (item->>'quantity')::NUMERIC,
+      (item->>'unit_price')::NUMERIC,
+      NULLIF(item->>'discount_type', ''),
+      COALESCE((item->>'discount_value')::NUMERIC, 0),
+      (item->>'line_total')::NUMERIC,
+      NULLIF(item->>'product_type_id', '')::UUID,
+      NULLIF(item->>'product_type_name', ''),
+      (item->>'inches_used')::NUMERIC,
+      COALESCE(
+        (SELECT ROUND(jr.cost_per_unit * (item->>'jump_rings_needed')::NUMERIC, 4)
+         FROM inventory_items jr
+         WHERE jr.id = NULLIF(item->>'jump_ring_item_id', '')::UUID AND jr.tenant_id = p_tenant_id),
+        (item->>'jump_ring_cost')::NUMERIC
+      )
+    );
+  END LOOP;
+
+  -- 3. Atomic inventory deductions (variant-aware, floors at 0), costed
+  --    from the cost layers
+  FOR deduction IN SELECT * FROM jsonb_array_elements(p_inventory_deductions)
+  LOOP
+    v_variant_id := NULLIF(deduction->>'variant_id', '')::UUID;
+
+    IF v_variant_id IS NOT NULL THEN
+      -- Deduct from variant
+      UPDATE inventory_item_variants
+      SET quantity_on_hand = GREATEST(quantity_on_hand - (deduction->>'amount')::NUMERIC, 0),
+          updated_at = NOW()
+      WHERE id = v_variant_id
+        AND inventory_item_id = (deduction->>'item_id')::UUID;
+
+      -- Recalc parent quantity_on_hand = SUM of active variants
+      SELECT COALESCE(SUM(quantity_on_hand), 0) INTO parent_qty
+      FROM inventory_item_variants
+      WHERE inventory_item_id = (deduction->>'item_id')::UUID AND is_active = true;
+
+      UPDATE inventory_items
+      SET quantity_on_hand = parent_qty, updated_at = NOW()
+      WHERE id = (deduction->>'item_id')::UUID
+        AND tenant_id = p_tenant_id;
+    ELSE
+      -- Original behavior: deduct from parent item directly
+      UPDATE inventory_items
+      SET quantity_on_hand = GREATEST(quantity_on_hand - (deduction->>'amount')::NUMERIC, 0),
+          updated_at = NOW()
+      WHERE id = (deduction->>'item_id')::UUID
+        AND tenant_id = p_tenant_id;
+    END IF;
+
+    -- Consume cost layers and spread the cost over the matching lines
+    v_amount := (deduction->>'amount')::NUMERIC;
+    v_cost := consume_cost_layers(p_tenant_id, (deduction->>'item_id')::UUID, v_variant_id, v_amount);
+
+    UPDATE sale_items si
+    SET cost_snapshot = ROUND(COALESCE(si.cost_snapshot, 0) + v_cost * w.weight / w.total, 4)
+    FROM (
+      SELECT id,
+             COALESCE(NULLIF(inches_used, 0) * quantity, quantity) AS weight,
+             SUM(COALESCE(NULLIF(inches_used, 0) * quantity, quantity)) OVER () AS total
+      FROM sale_items
+      WHERE sale_id = new_sale_id
+        AND inventory_item_id = (deduction->>'item_id')::UUID
+        AND inventory_variant_id IS NOT DISTINCT FROM v_variant_id
+    ) w
+    WHERE si.id = w.id AND w.total > 0;
+
+    -- Optionally log inventory movement (already costed, so the trigger
+    -- leaves the layers alone)
+    IF (deduction->>'log_movement')::BOOLEAN IS TRUE THEN
+      INSERT INTO inventory_movements (
+        tenant_id, inventory_item_id, inventory_variant_id, movement_type,
+        quantity, reference_id, notes, performed_by, unit_cost
+      ) VALUES (
+        p_tenant_id,
+        (deduction->>'item_id')::UUID,
+        v_variant_id,
+        'sale'::movement_type,
+        -(deduction->>'amount')::NUMERIC,
+        new_sale_id,
+        deduction->>'notes',
+        NULLIF(deduction->>'performed_by', '')::UUID,
+        CASE WHEN v_amount > 0 THEN ROUND(v_cost / v_amount, 4) END
+      );
+    END IF;
+  END LOOP;
+
+  -- 4. Tax collected, one line per jurisdiction component
+  IF p_tax_lines IS NOT NULL THEN
+    FOR tax_line IN SELECT * FROM jsonb_array_elements(p_tax_lines)
+    LOOP
+      INSERT INTO sale_tax_lines (
+        tenant_id, sale_id, tax_profile_id, tax_component_id,
+        name, jurisdiction_type, rate, taxable_amount, tax_amount
+      ) VALUES (
+        p_tenant_id, new_sale_id, p_tax_profile_id,
+        NULLIF(tax_line->>'tax_component_id', '')::UUID,
+        COALESCE(NULLIF(tax_line->>'name', ''), 'Sales tax'),
+        COALESCE(NULLIF(tax_line->>'jurisdiction_type', ''), 'other'),
+        COALESCE((tax_line->>'rate')::NUMERIC, 0),
+        COALESCE((tax_line->>'taxable_amount')::NUMERIC, 0),
+        COALESCE((tax_line->>'tax_amount')::NUMERIC, 0)
+      );
+    END LOOP;
+  END IF;
+
+  -- 5. Update queue entry if provided
+  IF p_queue_entry_id IS NOT NULL THEN
+    UPDATE queue_entries
+    SET status = 'served', served_at = NOW(), updated_at = NOW()
+    WHERE id = p_queue_entry_id AND tenant_id = p_tenant_id;
+  END IF;
+
+  RETURN new_sale_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 3. sales:void
+-- ============================================================================
+-- Pending Stripe sales are voided from the POS with the member's client.
+-- The Stripe webhook voids expired links as the service role.
+
+CREATE OR REPLACE FUNCTION enforce_sale_void()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT member_has_permission(NEW.tenant_id, 'sales:void') THEN
+    RAISE EXCEPTION 'Your role can''t void sales';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_sale_void ON sales;
+CREATE TRIGGER enforce_sale_void
+  BEFORE UPDATE OF status ON sales
+  FOR EACH ROW
+  WHEN (NEW.status = 'voided' AND OLD.status IS DISTINCT FROM 'voided')
+  EXECUTE FUNCTION enforce_sale_void();
+
+-- ============================================================================
+-- 4. prices:edit
+-- ============================================================================
+-- Saving an item re-sends its prices, so only a changed price needs the
+-- permission. A new item may be created unpriced; a new variant may take
+-- its item's price.
+
+CREATE OR REPLACE FUNCTION enforce_price_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_changed BOOLEAN;
+  v_tenant_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    v_changed := true;
+    v_tenant_id := OLD.tenant_id;
+  ELSE
+    v_tenant_id := NEW.tenant_id;
+    IF TG_TABLE_NAME = 'inventory_items' THEN
+      v_changed := CASE WHEN TG_OP = 'INSERT'
+        THEN COALESCE(NEW.sell_price, 0) <> 0 OR NEW.pricing_tier_id IS NOT NULL
+        ELSE NEW.sell_price IS DISTINCT FROM OLD.sell_price
+          OR NEW.pricing_tier_id IS DISTINCT FROM OLD.pricing_tier_id
+      END;
+    ELSIF TG_TABLE_NAME = 'inventory_item_variants' THEN
+      v_changed := CASE WHEN TG_OP = 'INSERT'
+        THEN COALESCE(NEW.sell_price, 0) <> 0 AND NEW.sell_price IS DISTINCT FROM (
+          SELECT sell_price FROM inventory_items WHERE id = NEW.inventory_item_id
+        )
+        ELSE NEW.sell_price IS DISTINCT FROM OLD.sell_price
+      END;
+    ELSIF TG_TABLE_NAME = 'chain_product_prices' THEN
+      v_changed := CASE WHEN TG_OP = 'INSERT'
+        THEN COALESCE(NEW.sell_price, 0) <> 0
+        ELSE NEW.sell_price IS DISTINCT FROM OLD.sell_price
+      END;
+    ELSE
+      -- pricing_tiers
+      v_changed := TG_OP = 'INSERT'
+        OR NEW.bracelet_price IS DISTINCT FROM OLD.bracelet_price
+        OR NEW.anklet_price IS DISTINCT FROM OLD.anklet_price
+        OR NEW.ring_price IS DISTINCT FROM OLD.ring_price
+        OR NEW.necklace_price_per_inch IS DISTINCT FROM OLD.necklace_price_per_inch
+        OR NEW.hand_chain_price IS DISTINCT FROM OLD.hand_chain_price;
+    END IF;
+  END IF;
+
+  IF v_changed AND NOT member_has_permission(v_tenant_id, 'prices:edit') THEN
+    RAISE EXCEPTION 'Your role can''t change prices';
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_price_edit ON inventory_items;
+CREATE TRIGGER enforce_price_edit
+  BEFORE INSERT OR UPDATE OF sell_price, pricing_tier_id ON inventory_items
+  FOR EACH ROW EXECUTE FUNCTION enforce_price_edit();
+
+DROP TRIGGER IF EXISTS enforce_price_edit ON inventory_item_variants;
+CREATE TRIGGER enforce_price_edit
+  BEFORE INSERT OR UPDATE OF sell_price ON inventory_item_variants
+  FOR EACH ROW EXECUTE FUNCTION enforce_price_edit();
+
+DROP TRIGGER IF EXISTS enforce_price_edit ON chain_product_prices;
+CREATE TRIGGER enforce_price_edit
+  BEFORE INSERT OR UPDATE OF sell_price ON chain_product_prices
+  FOR EACH ROW EXECUTE FUNCTION enforce_price_edit();
+
+DROP TRIGGER IF EXISTS enforce_price_edit ON pricing_tiers;
+CREATE TRIGGER enforce_price_edit
+  BEFORE INSERT OR UPDATE OR DELETE ON pricing_tiers
+  FOR EACH ROW EXECUTE FUNCTION enforce_price_edit();
+
+-- ============================================================================
+-- 5. inventory:edit — stock counts and PO receiving
+-- ============================================================================
+-- Both are SECURITY DEFINER and only checked membership. Same bodies as
+-- 083 and 087 with the permission check in its place.
+
+CREATE OR REPLACE FUNCTION finalize_stock_count(p_count_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+  v_count stock_counts%ROWTYPE;
+  v_line RECORD;
+  v_variance NUMERIC;
+  v_movement_id UUID;
+  v_adjusted INT := 0;
+  v_value NUMERIC := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_count FROM stock_counts WHERE id = p_count_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock count not found';
+  END IF;
+
+  IF NOT member_has_permission(v_count.tenant_id, 'inventory:edit') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  IF v_count.status <> 'in_progress' THEN
+    RAISE EXCEPTION 'Stock count is already %', v_count.status;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM stock_count_lines
+    WHERE stock_count_id = p_count_id
+      AND counted_quantity IS NOT NULL
+      AND counted_quantity <> expected_quantity
+      AND reason IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Every line with a variance needs a reason';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM stock_count_lines
+    WHERE stock_count_id = p_count_id AND counted_quantity IS NOT NULL
+    FOR UPDATE
+  LOOP
+    v_variance := v_line.counted_quantity - v_line.expected_quantity;
+    v_movement_id := NULL;
+
+    IF v_variance <> 0 THEN
+      IF v_line.inventory_variant_id IS NOT NULL THEN
+        UPDATE inventory_item_variants
+        SET quantity_on_hand = GREATEST(quantity_on_hand + v_variance, 0),
+            updated_at = NOW()
+        WHERE id = v_line.inventory_variant_id;
+
+        UPDATE inventory_items
+        SET quantity_on_hand = (
+              SELECT COALESCE(SUM(quantity_on_hand), 0)
+              FROM inventory_item_variants
+              WHERE inventory_item_id = v_line.inventory_item_id AND is_active = true
+            ),
+            updated_at = NOW()
+        WHERE id = v_line.inventory_item_id;
+      ELSE
+        UPDATE inventory_items
+        SET quantity_on_hand = GREATEST(quantity_on_hand + v_variance, 0),
+            updated_at = NOW()
+        WHERE id = v_line.inventory_item_id;
+      END IF;
+
+      INSERT INTO inventory_movements (
+        tenant_id, inventory_item_id, inventory_variant_id, movement_type,
+        quantity, reference_id, notes, performed_by
+      ) VALUES (
+        v_count.tenant_id,
+        v_line.inventory_item_id,
+        v_line.inventory_variant_id,
+        (CASE WHEN v_variance < 0 AND v_line.reason IN ('cutting_waste', 'damaged')
+              THEN 'waste' ELSE 'adjustment' END)::movement_type,
+        v_variance,
+        p_count_id,
+        'Stock count "' || v_count.name || '": ' || replace(v_line.reason, '_', ' ')
+          || COALESCE(' — ' || NULLIF(v_line.notes, ''), ''),
+        auth.uid()
+      )
+      RETURNING id INTO v_movement_id;
+
+      v_adjusted := v_adjusted + 1;
+      v_value := v_value + v_variance * v_line.unit_cost;
+    END IF;
+
+    UPDATE stock_count_lines
+    SET variance_quantity = v_variance, movement_id = v_movement_id
+    WHERE id = v_line.id;
+  END LOOP;
+
+  UPDATE stock_counts
+  SET status = 'finalized', finalized_at = NOW(), finalized_by = auth.uid(), updated_at = NOW()
+  WHERE id = p_count_id;
+
+  RETURN jsonb_build_object('adjusted', v_adjusted, 'variance_value', ROUND(v_value, 2));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION receive_purchase_order(
+  p_po_id UUID,
+  p_lines JSONB,
+  p_shipping_cost NUMERIC DEFAULT 0,
+  p_update_costs BOOLEAN DEFAULT false,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_po purchase_orders%ROWTYPE;
+  v_receipt_id UUID;
+  v_entry JSONB;
+  v_line purchase_order_lines%ROWTYPE;
+  v_qty NUMERIC;
+  v_cost NUMERIC;
+  v_landed NUMERIC;
+  v_total_value NUMERIC := 0;
+  v_total_qty NUMERIC := 0;
+  v_movement_id UUID;
+  v_received INT := 0;
+  v_value NUMERIC := 0;
+  v_status TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_po FROM purchase_orders WHERE id = p_po_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF NOT member_has_permission(v_po.tenant_id, 'inventory:edit') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  IF v_po.status NOT IN ('draft', 'sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Purchase order is already %', replace(v_po.status, '_', ' ');
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Nothing to receive';
+  END IF;
+
+  -- First pass: validate and total up for the shipping split
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    v_qty := (v_entry->>'quantity')::NUMERIC;
+    IF v_qty IS NULL OR v_qty <= 0 THEN
+      RAISE EXCEPTION 'Received quantities must be greater than zero';
+    END IF;
+    SELECT * INTO v_line FROM purchase_order_lines
+    WHERE id = (v_entry->>'line_id')::UUID AND purchase_order_id = p_po_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line is not on this purchase order';
+    END IF;
+    v_cost := COALESCE((v_entry->>'unit_cost')::NUMERIC, v_line.unit_cost);
+    IF v_cost < 0 THEN
+      RAISE EXCEPTION 'Unit cost can''t be negative';
+    END IF;
+    v_total_value := v_total_value + v_qty * v_cost;
+    v_total_qty := v_total_qty + v_qty;
+  END LOOP;
+
+  INSERT INTO purchase_order_receipts (tenant_id, purchase_order_id, shipping_cost, updated_costs, notes, received_by)
+  VALUES (v_po.tenant_id, p_po_id, COALESCE(p_shipping_cost, 0), p_update_costs, p_notes, auth.uid())
+  RETURNING id INTO v_receipt_id;
+
+  FOR v_entry IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+    SELECT * INTO v_line FROM purchase_order_lines
+    WHERE id = (v_entry->>'line_id')::UUID FOR UPDATE;
+    v_qty := (v_entry->>'quantity')::NUMERIC;
+    v_cost := COALESCE((v_entry->>'unit_cost')::NUMERIC, v_line.unit_cost);
+
+    -- Landed cost: this line's share of shipping, per unit
+    IF COALESCE(p_shipping_cost, 0) > 0 AND v_total_value > 0 THEN
+      v_landed := v_cost + (p_shipping_cost * (v_qty * v_cost) / v_total_value) / v_qty;
+    ELSIF COALESCE(p_shipping_cost, 0) > 0 THEN
+      v_landed := v_cost + p_shipping_cost / v_total_qty;
+    ELSE
+      v_landed := v_cost;
+    END IF;
+    v_landed := ROUND(v_landed, 4);
+
+    IF v_line.inventory_variant_id IS NOT NULL THEN
+      UPDATE inventory_item_variants
+      SET quantity_on_hand = quantity_on_hand + v_qty,
+          cost_per_unit = CASE WHEN p_update_costs THEN v_landed ELSE cost_per_unit END,
+          updated_at = NOW()
+      WHERE id = v_line.inventory_variant_id;
+
+      UPDATE inventory_items
+      SET quantity_on_hand = (
+            SELECT COALESCE(SUM(quantity_on_hand), 0)
+            FROM inventory_item_variants
+            WHERE inventory_item_id = v_line.inventory_item_id AND is_active = true
+          ),
+          updated_at = NOW()
+      WHERE id = v_line.inventory_item_id;
+    ELSE
+      UPDATE inventory_items
+      SET quantity_on_hand = quantity_on_hand + v_qty,
+          cost_per_unit = CASE WHEN p_update_costs THEN v_landed ELSE cost_per_unit END,
+          updated_at = NOW()
+      WHERE id = v_line.inventory_item_id;
+    END IF;
+
+    INSERT INTO inventory_movements (
+      tenant_id, inventory_item_id, inventory_variant_id, movement_type,
+      quantity, reference_id, notes, performed_by, unit_cost
+    ) VALUES (
+      v_po.tenant_id,
+      v_line.inventory_item_id,
+      v_line.inventory_variant_id,
+      'restock'::movement_type,
+      v_qty,
+      v_receipt_id,
+      'Received on ' || v_po.po_number,
+      auth.uid(),
+      v_landed
+    )
+    RETURNING id INTO v_movement_id;
+
+    INSERT INTO purchase_order_receipt_lines (
+      tenant_id, receipt_id, line_id, quantity, unit_cost, landed_unit_cost, movement_id
+    ) VALUES (
+      v_po.tenant_id, v_receipt_id, v_line.id, v_qty, v_cost, v_landed, v_movement_id
+    );
+
+    UPDATE purchase_order_lines
+    SET quantity_received = quantity_received + v_qty
+    WHERE id = v_line.id;
+
+    v_received := v_received + 1;
+    v_value := v_value + v_qty * v_landed;
+  END LOOP;
+
+  v_status := CASE
+    WHEN EXISTS (
+      SELECT 1 FROM purchase_order_lines
+      WHERE purchase_order_id = p_po_id AND quantity_received < quantity_ordered
+    ) THEN 'partially_received'
+    ELSE 'received'
+  END;
+
+  UPDATE purchase_orders
+  SET status = v_status,
+      received_at = CASE WHEN v_status = 'received' THEN NOW() ELSE received_at END,
+      updated_at = NOW()
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object(
+    'receipt_id', v_receipt_id,
+    'received', v_received,
+    'landed_value', ROUND(v_value, 2),
+    'status', v_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 6. costs:view — hide cost_per_unit
+-- ============================================================================
+-- Members can select every column but cost_per_unit. select('*') would ask
+-- for it too, so full rows come from the views, which are the same columns
+-- under the member's RLS. Writes still go to the tables.
+
+DO $$
+DECLARE
+  v_table TEXT;
+  v_columns TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['inventory_items', 'inventory_item_variants'] LOOP
+    SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position) INTO v_columns
+    FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = v_table AND column_name <> 'cost_per_unit';
+
+    EXECUTE format('REVOKE SELECT ON %I FROM anon, authenticated', v_table);
+    EXECUTE format('GRANT SELECT (%s) ON %I TO authenticated', v_columns, v_table);
+
+    EXECUTE format('DROP VIEW IF EXISTS %I', v_table || '_without_cost');
+    EXECUTE format(
+      'CREATE VIEW %I WITH (security_invoker = true) AS SELECT %s FROM %I',
+      v_table || '_without_cost', v_columns, v_table
+    );
+    EXECUTE format('REVOKE ALL ON %I FROM anon, authenticated', v_table || '_without_cost');
+    EXECUTE format('GRANT SELECT ON %I TO authenticated', v_table || '_without_cost');
+  END LOOP;
+END $$;
+
+-- Unit costs for roles with costs:view. One row per item (variant NULL) and
+-- per variant, ordered so callers can page with .range().
+CREATE OR REPLACE FUNCTION inventory_costs(p_tenant_id UUID, p_item_ids UUID[] DEFAULT NULL)
+RETURNS TABLE (inventory_item_id UUID, inventory_variant_id UUID, cost_per_unit NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT member_has_permission(p_tenant_id, 'costs:view') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  RETURN QUERY
+  SELECT c.inventory_item_id, c.inventory_variant_id, c.cost_per_unit
+  FROM (
+    SELECT i.id AS inventory_item_id, NULL::UUID AS inventory_variant_id, i.cost_per_unit
+    FROM inventory_items i
+    WHERE i.tenant_id = p_tenant_id AND (p_item_ids IS NULL OR i.id = ANY (p_item_ids))
+    UNION ALL
+    SELECT v.inventory_item_id, v.id, v.cost_per_unit
+    FROM inventory_item_variants v
+    WHERE v.tenant_id = p_tenant_id AND (p_item_ids IS NULL OR v.inventory_item_id = ANY (p_item_ids))
+  ) c
+  ORDER BY c.inventory_item_id, c.inventory_variant_id NULLS FIRST;
+END;
+$$;
+
+-- Cost layers are nothing but costs
+DROP POLICY IF EXISTS "Tenant select" ON inventory_cost_layers;
+CREATE POLICY "Tenant select" ON inventory_cost_layers FOR SELECT
+  USING (tenant_id IN (SELECT get_user_tenant_ids()) AND member_has_permission(tenant_id, 'costs:view'));
+
+-- Only used inside the definer functions and triggers
+REVOKE EXECUTE ON FUNCTION inventory_carrying_cost(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+NOTIFY pgrst, 'reload schema';
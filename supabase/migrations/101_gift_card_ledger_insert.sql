@@ -0,0 +1,107 @@
+-- ============================================================================
+-- Migration 101: Gift Card Ledger — No Direct Inserts
+-- ============================================================================
+-- 081 let members insert ledger rows directly, so anyone on the team could
+-- write entries that don't match a balance change. Entries now only come
+-- from the issue/redeem triggers and gift_card_post(), which run as the
+-- owner; members keep read access.
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Tenant insert" ON gift_card_ledger;
+REVOKE INSERT ON gift_card_ledger FROM anon, authenticated;
+
+-- ============================================================================
+-- 1. Triggers: issue + redeem
+-- ============================================================================
+-- Same bodies as 081. The card or redemption insert has already passed RLS.
+
+CREATE OR REPLACE FUNCTION gift_card_ledger_on_issue()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO gift_card_ledger (tenant_id, gift_card_id, entry_type, amount, sale_id, occurred_at)
+  VALUES (NEW.tenant_id, NEW.id, 'issue', NEW.amount, NEW.sale_id, NEW.purchased_at);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION gift_card_ledger_on_redeem()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO gift_card_ledger (tenant_id, gift_card_id, entry_type, amount, sale_id, redemption_id, created_by, occurred_at)
+  VALUES (NEW.tenant_id, NEW.gift_card_id, 'redeem', -NEW.amount, NEW.sale_id, NEW.id, NEW.redeemed_by, NEW.redeemed_at);
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- 2. gift_card_post()
+-- ============================================================================
+-- Runs as the owner now, so it checks the caller's tenant itself instead of
+-- relying on RLS. Service-role calls (cron, refunds) have no auth.uid().
+
+CREATE OR REPLACE FUNCTION gift_card_post(
+  p_gift_card_id UUID,
+  p_entry_type TEXT,
+  p_amount DECIMAL,
+  p_note TEXT DEFAULT NULL,
+  p_sale_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL
+)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_card gift_cards%ROWTYPE;
+  v_balance DECIMAL(10,2);
+  v_status TEXT;
+BEGIN
+  IF p_entry_type NOT IN ('refund', 'adjust', 'expire') THEN
+    RAISE EXCEPTION 'gift_card_post: unsupported entry type %', p_entry_type;
+  END IF;
+
+  SELECT * INTO v_card FROM gift_cards WHERE id = p_gift_card_id FOR UPDATE;
+  IF NOT FOUND
+    OR (auth.uid() IS NOT NULL AND v_card.tenant_id NOT IN (SELECT get_user_tenant_ids())) THEN
+    RAISE EXCEPTION 'Gift card not found';
+  END IF;
+
+  v_balance := v_card.remaining_balance + p_amount;
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Gift card balance cannot go below zero';
+  END IF;
+
+  v_status := COALESCE(p_status, CASE
+    WHEN v_card.status = 'active' AND v_balance = 0 THEN 'fully_redeemed'
+    WHEN v_card.status = 'fully_redeemed' AND v_balance > 0 THEN 'active'
+    ELSE v_card.status
+  END);
+
+  UPDATE gift_cards
+  SET remaining_balance = v_balance,
+      status = v_status,
+      cancelled_at = CASE WHEN v_status = 'cancelled' THEN now() ELSE cancelled_at END
+  WHERE id = p_gift_card_id;
+
+  IF p_amount <> 0 THEN
+    INSERT INTO gift_card_ledger (tenant_id, gift_card_id, entry_type, amount, sale_id, note)
+    VALUES (v_card.tenant_id, p_gift_card_id, p_entry_type, p_amount, p_sale_id, p_note);
+  END IF;
+
+  RETURN v_balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION gift_card_post(UUID, TEXT, DECIMAL, TEXT, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION gift_card_post(UUID, TEXT, DECIMAL, TEXT, UUID, TEXT) TO authenticated, service_role;
+
+NOTIFY pgrst, 'reload schema';
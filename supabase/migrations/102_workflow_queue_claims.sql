@@ -0,0 +1,23 @@
+-- ============================================================================
+-- Migration 102: Workflow Queue Claims
+-- ============================================================================
+-- Two overlapping processor runs (cron plus a dashboard trigger), or a run
+-- and a manual Send, could both pick up the same pending step and text the
+-- client twice. Senders now claim a row by moving it to 'sending' with a
+-- conditional update; only the one that gets the row back delivers it.
+--
+-- sent_by records who sent a step by hand. The daily cap counts processor
+-- sends (sent_by IS NULL) only, as 074 intended.
+-- ============================================================================
+
+-- status: 'pending', 'sending', 'sent', 'failed', 'skipped'
+ALTER TABLE workflow_queue DROP CONSTRAINT IF EXISTS workflow_queue_status_check;
+ALTER TABLE workflow_queue ADD CONSTRAINT workflow_queue_status_check
+  CHECK (status IN ('pending', 'ready', 'sending', 'sent', 'failed', 'skipped'));
+
+ALTER TABLE workflow_queue ADD COLUMN IF NOT EXISTS sent_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_queue_sent ON workflow_queue(tenant_id, sent_at)
+  WHERE status = 'sent';
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,120 @@
+-- ============================================================================
+-- Migration 103: Keep Merge History When the Survivor Is Deleted
+-- ============================================================================
+-- client_merges.survivor_id cascaded, so deleting the surviving client
+-- erased the only copy of the merged client's record (merged_client).
+-- survivor_id no longer has a foreign key: the row stays as it was, and
+-- undo checks the survivor still exists. A survivor that was itself merged
+-- away comes back with the same id when that merge is undone, so the older
+-- merge becomes undoable again.
+-- ============================================================================
+
+ALTER TABLE client_merges DROP CONSTRAINT IF EXISTS client_merges_survivor_id_fkey;
+
+-- ============================================================================
+-- undo_client_merge()
+-- ============================================================================
+-- Same as 097, refusing merges whose survivor is gone.
+
+CREATE OR REPLACE FUNCTION undo_client_merge(
+  p_tenant_id UUID,
+  p_merge_id UUID,
+  p_user_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_merge client_merges%ROWTYPE;
+  v_table TEXT;
+  v_ids JSONB;
+BEGIN
+  SELECT * INTO v_merge FROM client_merges
+  WHERE id = p_merge_id AND tenant_id = p_tenant_id FOR UPDATE;
+  IF v_merge.id IS NULL THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+  IF v_merge.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This merge was already undone';
+  END IF;
+  IF NOT EXISTS (SELECT 1 FROM clients WHERE id = v_merge.survivor_id) THEN
+    RAISE EXCEPTION 'The client this was merged into no longer exists';
+  END IF;
+  IF EXISTS (SELECT 1 FROM clients WHERE id = v_merge.merged_client_id) THEN
+    RAISE EXCEPTION 'The merged client already exists';
+  END IF;
+
+  -- Merges from before 097 have no balance in the snapshot
+  INSERT INTO clients
+  SELECT * FROM jsonb_populate_record(NULL::clients, '{"loyalty_points": 0}'::jsonb || v_merge.merged_client);
+
+  UPDATE clients c SET
+    first_name = b.first_name,
+    last_name = b.last_name,
+    email = b.email,
+    email_unsubscribed_at = b.email_unsubscribed_at,
+    phone = b.phone,
+    birthday = b.birthday,
+    notes = b.notes,
+    last_visit_at = b.last_visit_at,
+    unread_messages = b.unread_messages,
+    last_message_at = b.last_message_at,
+    referred_by_client_id = CASE
+      WHEN v_merge.survivor_before ? 'referred_by_client_id' THEN b.referred_by_client_id
+      ELSE c.referred_by_client_id
+    END,
+    created_at = b.created_at
+  FROM jsonb_populate_record(NULL::clients, v_merge.survivor_before) b
+  WHERE c.id = v_merge.survivor_id;
+
+  -- Phone numbers go back exactly as they were (the survivor's phone
+  -- trigger may already have dropped one of them)
+  DELETE FROM client_phone_numbers
+  WHERE id IN (SELECT (p ->> 'id')::uuid FROM jsonb_array_elements(v_merge.merged_phones) p);
+  INSERT INTO client_phone_numbers
+  SELECT * FROM jsonb_populate_recordset(NULL::client_phone_numbers, v_merge.merged_phones)
+  ON CONFLICT (tenant_id, phone_normalized) DO UPDATE SET
+    client_id = EXCLUDED.client_id,
+    is_primary = EXCLUDED.is_primary;
+
+  FOR v_table, v_ids IN SELECT key, value FROM jsonb_each(v_merge.moved) LOOP
+    IF v_table = 'sms_suppressions' THEN
+      UPDATE sms_suppressions SET client_id = v_merge.merged_client_id
+      WHERE tenant_id = p_tenant_id
+        AND client_id = v_merge.survivor_id
+        AND phone_digits IN (SELECT jsonb_array_elements_text(v_ids));
+    ELSIF v_table = 'referrals' THEN
+      UPDATE clients SET referred_by_client_id = v_merge.merged_client_id
+      WHERE tenant_id = p_tenant_id
+        AND id::text IN (SELECT jsonb_array_elements_text(v_ids))
+        AND (referred_by_client_id = v_merge.survivor_id OR id = v_merge.survivor_id);
+    ELSE
+      EXECUTE format(
+        'UPDATE %I SET client_id = $1
+         WHERE client_id = $2 AND id::text IN (SELECT jsonb_array_elements_text($3))',
+        v_table
+      ) USING v_merge.merged_client_id, v_merge.survivor_id, v_ids;
+    END IF;
+  END LOOP;
+
+  -- Both balances follow the ledger entries each client now holds
+  UPDATE clients c
+  SET loyalty_points = (SELECT COALESCE(SUM(l.points), 0) FROM loyalty_ledger l WHERE l.client_id = c.id)
+  WHERE c.id IN (v_merge.survivor_id, v_merge.merged_client_id);
+
+  INSERT INTO client_tag_assignments (client_id, tag_id)
+  SELECT v_merge.merged_client_id, t.id
+  FROM client_tags t
+  WHERE t.id::text IN (SELECT jsonb_array_elements_text(v_merge.dropped_tag_ids))
+  ON CONFLICT (client_id, tag_id) DO NOTHING;
+
+  UPDATE client_merges SET undone_at = now(), undone_by = p_user_id
+  WHERE id = p_merge_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION undo_client_merge(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+NOTIFY pgrst, 'reload schema';
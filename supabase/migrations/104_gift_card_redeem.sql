@@ -0,0 +1,176 @@
+-- ============================================================================
+-- Migration 104: Gift Card Redeem + Balance Writes
+-- ============================================================================
+-- The redeem route read the balance, then wrote it back, so two registers
+-- applying the same card at once could both spend it. redeem_gift_card()
+-- locks the card and does the checks, the balance update and the redemption
+-- insert in one transaction.
+--
+-- Balance and status now only change through redeem_gift_card() and
+-- gift_card_post(). Members lose direct UPDATE on those columns, and
+-- gift_card_post() checks gift_cards:manage for calls made as a member.
+-- ============================================================================
+
+-- ============================================================================
+-- 1. redeem_gift_card()
+-- ============================================================================
+-- Expiry dates are set at issue and the jurisdiction rules live in
+-- isPastExpiry(), so the route checks those first. Cards the daily job has
+-- already expired fail the status check here.
+
+CREATE OR REPLACE FUNCTION redeem_gift_card(
+  p_tenant_id UUID,
+  p_gift_card_id UUID,
+  p_sale_id UUID,
+  p_amount DECIMAL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_card gift_cards%ROWTYPE;
+  v_balance DECIMAL(10,2);
+  v_status TEXT;
+BEGIN
+  IF auth.uid() IS NOT NULL AND p_tenant_id NOT IN (SELECT get_user_tenant_ids()) THEN
+    RAISE EXCEPTION 'Gift card not found';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than 0';
+  END IF;
+
+  SELECT * INTO v_card FROM gift_cards
+  WHERE id = p_gift_card_id AND tenant_id = p_tenant_id
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Gift card not found';
+  END IF;
+
+  IF v_card.status <> 'active' THEN
+    RAISE EXCEPTION 'Gift card is not active';
+  END IF;
+  IF v_card.remaining_balance < p_amount THEN
+    RAISE EXCEPTION 'Insufficient gift card balance';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM sales WHERE id = p_sale_id AND tenant_id = p_tenant_id) THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+
+  v_balance := v_card.remaining_balance - p_amount;
+  v_status := CASE WHEN v_balance = 0 THEN 'fully_redeemed' ELSE 'active' END;
+
+  UPDATE gift_cards
+  SET remaining_balance = v_balance,
+      status = v_status
+  WHERE id = p_gift_card_id;
+
+  -- gift_card_ledger_on_redeem() writes the ledger entry
+  INSERT INTO gift_card_redemptions (gift_card_id, sale_id, tenant_id, amount, redeemed_by)
+  VALUES (p_gift_card_id, p_sale_id, p_tenant_id, p_amount, auth.uid());
+
+  UPDATE sales
+  SET gift_card_id = p_gift_card_id,
+      gift_card_amount_applied = p_amount
+  WHERE id = p_sale_id;
+
+  RETURN jsonb_build_object('remaining_balance', v_balance, 'status', v_status);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION redeem_gift_card(UUID, UUID, UUID, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION redeem_gift_card(UUID, UUID, UUID, DECIMAL) TO authenticated, service_role;
+
+-- ============================================================================
+-- 2. gift_card_post() — gift_cards:manage
+-- ============================================================================
+-- Same body as 101 plus the permission check. Members reach it through
+-- cancel and adjust; refunds and the expiry job run as the service role.
+
+CREATE OR REPLACE FUNCTION gift_card_post(
+  p_gift_card_id UUID,
+  p_entry_type TEXT,
+  p_amount DECIMAL,
+  p_note TEXT DEFAULT NULL,
+  p_sale_id UUID DEFAULT NULL,
+  p_status TEXT DEFAULT NULL
+)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_card gift_cards%ROWTYPE;
+  v_balance DECIMAL(10,2);
+  v_status TEXT;
+BEGIN
+  IF p_entry_type NOT IN ('refund', 'adjust', 'expire') THEN
+    RAISE EXCEPTION 'gift_card_post: unsupported entry type %', p_entry_type;
+  END IF;
+
+  SELECT * INTO v_card FROM gift_cards WHERE id = p_gift_card_id FOR UPDATE;
+  IF NOT FOUND
+    OR (auth.uid() IS NOT NULL AND v_card.tenant_id NOT IN (SELECT get_user_tenant_ids())) THEN
+    RAISE EXCEPTION 'Gift card not found';
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT member_has_permission(v_card.tenant_id, 'gift_cards:manage') THEN
+    RAISE EXCEPTION 'Insufficient permissions';
+  END IF;
+
+  v_balance := v_card.remaining_balance + p_amount;
+  IF v_balance < 0 THEN
+    RAISE EXCEPTION 'Gift card balance cannot go below zero';
+  END IF;
+
+  v_status := COALESCE(p_status, CASE
+    WHEN v_card.status = 'active' AND v_balance = 0 THEN 'fully_redeemed'
+    WHEN v_card.status = 'fully_redeemed' AND v_balance > 0 THEN 'active'
+    ELSE v_card.status
+  END);
+
+  UPDATE gift_cards
+  SET remaining_balance = v_balance,
+      status = v_status,
+      cancelled_at = CASE WHEN v_status = 'cancelled' THEN now() ELSE cancelled_at END
+  WHERE id = p_gift_card_id;
+
+  IF p_amount <> 0 THEN
+    INSERT INTO gift_card_ledger (tenant_id, gift_card_id, entry_type, amount, sale_id, note)
+    VALUES (v_card.tenant_id, p_gift_card_id, p_entry_type, p_amount, p_sale_id, p_note);
+  END IF;
+
+  RETURN v_balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION gift_card_post(UUID, TEXT, DECIMAL, TEXT, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION gift_card_post(UUID, TEXT, DECIMAL, TEXT, UUID, TEXT) TO authenticated, service_role;
+
+-- ============================================================================
+-- 3. No direct balance writes
+-- ============================================================================
+-- The tenant_gift_cards policy is FOR ALL, so members could update any
+-- column. They keep UPDATE on everything except the money and status
+-- columns. Redemption rows come from redeem_gift_card() only.
+
+DO $$
+DECLARE
+  v_columns TEXT;
+BEGIN
+  SELECT string_agg(quote_ident(column_name), ', ' ORDER BY ordinal_position) INTO v_columns
+  FROM information_schema.columns
+  WHERE table_schema = 'public' AND table_name = 'gift_cards'
+    AND column_name NOT IN ('amount', 'remaining_balance', 'status', 'cancelled_at');
+
+  REVOKE UPDATE ON gift_cards FROM anon, authenticated;
+  EXECUTE format('GRANT UPDATE (%s) ON gift_cards TO authenticated', v_columns);
+END $$;
+
+REVOKE INSERT, UPDATE, DELETE ON gift_card_redemptions FROM anon, authenticated;
+
+NOTIFY pgrst, 'reload schema';
@@ -0,0 +1,98 @@
+-- ============================================================================
+-- Migration 105: restock_inventory — Tenant Scope
+-- ============================================================================
+-- 075 created restock_inventory() as SECURITY DEFINER without a search_path,
+-- and its variant branch matched the variant on id alone. A member of one
+-- studio could pass their own tenant id with another studio's item and
+-- variant and credit that stock. The item and variant now have to belong to
+-- p_tenant_id, and members need sales:refund, the permission the refund route
+-- already checks before restocking.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION restock_inventory(
+  p_item_id UUID,
+  p_amount NUMERIC,
+  p_tenant_id UUID,
+  p_reference_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL,
+  p_performed_by UUID DEFAULT NULL,
+  p_variant_id UUID DEFAULT NULL
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  new_qty NUMERIC;
+  parent_qty NUMERIC;
+BEGIN
+  -- Service-role calls have no auth.uid()
+  IF auth.uid() IS NOT NULL THEN
+    IF p_tenant_id NOT IN (SELECT get_user_tenant_ids()) THEN
+      RAISE EXCEPTION 'Not a member of this tenant';
+    END IF;
+    IF NOT member_has_permission(p_tenant_id, 'sales:refund') THEN
+      RAISE EXCEPTION 'Insufficient permissions';
+    END IF;
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Restock amount must be greater than 0';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM inventory_items WHERE id = p_item_id AND tenant_id = p_tenant_id) THEN
+    RAISE EXCEPTION 'Inventory item not found';
+  END IF;
+
+  IF p_variant_id IS NOT NULL THEN
+    UPDATE inventory_item_variants
+    SET quantity_on_hand = quantity_on_hand + p_amount,
+        updated_at = NOW()
+    WHERE id = p_variant_id
+      AND inventory_item_id = p_item_id
+      AND tenant_id = p_tenant_id
+    RETURNING quantity_on_hand INTO new_qty;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Variant not found';
+    END IF;
+
+    SELECT COALESCE(SUM(quantity_on_hand), 0) INTO parent_qty
+    FROM inventory_item_variants
+    WHERE inventory_item_id = p_item_id AND is_active = true;
+
+    UPDATE inventory_items
+    SET quantity_on_hand = parent_qty, updated_at = NOW()
+    WHERE id = p_item_id AND tenant_id = p_tenant_id;
+  ELSE
+    UPDATE inventory_items
+    SET quantity_on_hand = quantity_on_hand + p_amount,
+        updated_at = NOW()
+    WHERE id = p_item_id
+      AND tenant_id = p_tenant_id
+    RETURNING quantity_on_hand INTO new_qty;
+  END IF;
+
+  INSERT INTO inventory_movements (
+    tenant_id, inventory_item_id, inventory_variant_id, movement_type,
+    quantity, reference_id, notes, performed_by
+  ) VALUES (
+    p_tenant_id,
+    p_item_id,
+    p_variant_id,
+    'restock'::movement_type,
+    p_amount,
+    p_reference_id,
+    p_notes,
+    p_performed_by
+  );
+
+  RETURN COALESCE(new_qty, 0);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION restock_inventory(UUID, NUMERIC, UUID, UUID, TEXT, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION restock_inventory(UUID, NUMERIC, UUID, UUID, TEXT, UUID, UUID) TO authenticated, service_role;
+
+NOTIFY pgrst, 'reload schema';